@@ -2,7 +2,10 @@
 'use client';
 
 import React, { useState, useMemo } from 'react';
+import Link from 'next/link';
 import clsx from 'clsx';
+import { formatInTimeZone } from 'date-fns-tz';
+import { useAppState } from '@/app/state-provider';
 import {
   Activity,
   BarChart3,
@@ -356,6 +359,8 @@ function ModuleHealthCard({
 }
 
 function UpcomingActivitiesFeed({ activities }: { activities: ActivityItem[] }) {
+  // Follow-ups are scheduled in the user's timezone
+  const { state: { timezone } } = useAppState();
   const iconMap: Record<string, React.ElementType> = {
     call: BookUser,
     whatsapp: LayoutGrid,
@@ -379,7 +384,11 @@ function UpcomingActivitiesFeed({ activities }: { activities: ActivityItem[] })
         {activities.map((item) => {
           const Icon = iconMap[item.type] || Activity;
           return (
-            <div key={item.id} className="flex items-start gap-3">
+            <Link
+              key={item.id}
+              href={item.leadId ? `/crm-pipeline?lead=${item.leadId}` : '/crm-pipeline'}
+              className="flex items-start gap-3 rounded-[var(--radius-sm)] no-underline hover:bg-[var(--bg-muted)]"
+            >
               <div className="flex h-9 w-9 shrink-0 items-center justify-center rounded-[var(--radius-sm)] bg-[var(--bg-muted)] text-[var(--text-secondary)]"> {/* Use bg-muted */}
                 <Icon size={18} />
               </div>
@@ -387,19 +396,17 @@ function UpcomingActivitiesFeed({ activities }: { activities: ActivityItem[] })
                 <p className="font-medium text-[var(--text-primary)]">
                   {item.summary}
                 </p>
-                <p className="text-sm text-[var(--text-secondary)]">
-                  {new Date(item.timestamp).toLocaleDateString('en-US', {
-                    month: 'short',
-                    day: 'numeric',
-                  })}
-                  {' @ '}
-                  {new Date(item.timestamp).toLocaleTimeString('en-US', {
-                    hour: 'numeric',
-                    minute: '2-digit',
-                  })}
+                <p
+                  className={clsx(
+                    'text-sm',
+                    item.overdue ? 'text-[var(--danger)]' : 'text-[var(--text-secondary)]'
+                  )}
+                >
+                  {item.overdue && 'Overdue · '}
+                  {formatInTimeZone(item.timestamp, timezone, "MMM d '@' h:mm a")}
                 </p>
               </div>
-            </div>
+            </Link>
           );
         })}
       </div>
@@ -7,6 +7,10 @@ import {
   ModuleHealth,
   ActivityItem,
 } from '@/lib/types';
+import { revalidatePath } from 'next/cache';
+import { createSupabaseServerClient } from '@/lib/supabase/server';
+import { isValidTimeZone } from '@/lib/ICalendar';
+import { followUpFeedItems } from '@/lib/LeadActivities';
 
 /**
  * MOCK: Fetches revenue broken down by service.
@@ -73,38 +77,67 @@ export async function getModuleHealthData(): Promise<ModuleHealth | null> {
 }
 
 /**
- * MOCK: Fetches upcoming activities for a dashboard feed.
+ * Open lead follow-ups (lead_activities.follow_up_at) for the dashboard feed,
+ * soonest first. Overdue ones are kept and flagged until marked done.
  */
 export async function getUpcomingActivities(): Promise<ActivityItem[] | null> {
-  const now = new Date();
-  const addHours = (date: Date, hours: number) =>
-    new Date(date.getTime() + hours * 60 * 60 * 1000);
+  const supabase = await createSupabaseServerClient();
+  const { data: auth } = await supabase.auth.getUser();
+  if (!auth?.user) {
+    return null;
+  }
 
-  // Mock data
-  return [
-    {
-      id: '1',
-      type: 'meeting',
-      summary: 'Discovery Call - "Ana Gómez" (New Website)',
-      timestamp: addHours(now, 2).toISOString(),
-    },
-    {
-      id: '2',
-      type: 'call',
-      summary: 'Follow-up with "Juan Perez" (Visa Case)',
-      timestamp: addHours(now, 4).toISOString(),
-    },
-    {
-      id: '3',
-      type: 'note',
-      summary: 'Prepare syllabus for "Michael Smith" (English)',
-      timestamp: addHours(now, 24).toISOString(),
-    },
-    {
-      id: '4',
-      type: 'meeting',
-      summary: 'Project Demo - "TechCorp" (Software)',
-      timestamp: addHours(now, 48).toISOString(),
-    },
-  ];
+  const { data, error } = await supabase
+    .from('lead_activities')
+    .select('*, contact:contacts ( full_name )')
+    .eq('user_id', auth.user.id)
+    .eq('follow_up_done', false)
+    .not('follow_up_at', 'is', null)
+    .order('follow_up_at', { ascending: true })
+    .limit(20);
+
+  if (error) {
+    console.error('Error fetching upcoming activities:', error.message);
+    return null;
+  }
+
+  const activities = (data ?? []).map((row: any) => ({
+    id: row.id,
+    leadId: row.lead_id,
+    contactId: row.contact_id ?? null,
+    type: row.type,
+    direction: row.direction ?? 'n/a',
+    summary: row.summary ?? '',
+    occurredAt: row.occurred_at,
+    followUpAt: row.follow_up_at,
+    followUpDone: false,
+    contactName: row.contact?.full_name ?? null,
+  }));
+  return followUpFeedItems(activities, Date.now());
+}
+
+/**
+ * Saves the user's timezone (user_settings.timezone). Every local date/time in
+ * the app is read and written in this zone.
+ */
+export async function updateUserTimezone(payload: { timezone: string }): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createSupabaseServerClient();
+  const { data: auth } = await supabase.auth.getUser();
+  if (!auth?.user) {
+    return { success: false, error: 'User not authenticated.' };
+  }
+  if (!isValidTimeZone(payload.timezone)) {
+    return { success: false, error: 'Unknown timezone.' };
+  }
+
+  const { error } = await supabase
+    .from('user_settings')
+    .upsert({ user_id: auth.user.id, timezone: payload.timezone }, { onConflict: 'user_id' });
+  if (error) {
+    console.error('Error saving user timezone:', error.message);
+    return { success: false, error: error.message };
+  }
+
+  revalidatePath('/', 'layout');
+  return { success: true };
 }
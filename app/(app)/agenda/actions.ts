@@ -1,16 +1,19 @@
 'use server';
 
 import { createSupabaseServerClient } from '@/lib/supabase/server';
-import type { CalendarEventLite } from '@/lib/types';
-// timezone helper (New York local → UTC ISO)
-import { fromZonedTime } from 'date-fns-tz';
+import type { BusyBlock, BusySource, CalendarEventLite, FreeSlot, IcsEvent, IcsImportResult } from '@/lib/types';
+import { ICS_UID_DOMAIN, parseICS } from '@/lib/ICalendar';
+import { buildRRule, expandCalendarEvents, parseRRule } from '@/lib/AgendaRecurrence';
+import { DEFAULT_BLOCK_MINUTES, SLOT_SEARCH_DAYS, findConflicts, findNextFreeSlot, findReminders } from '@/lib/Availability';
+import { randomBytes } from 'node:crypto';
+// timezone helpers (user-local ↔ UTC ISO)
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+import { getUserTimezone, localToUtcISO } from '@/lib/UserTimezone';
 // --- NEW: Import revalidatePath ---
 import { revalidatePath } from 'next/cache';
 // --- END NEW ---
 
 
-const NY_TZ = 'America/New_York';
-
 /**
  * Add N days to a local date string "YYYY-MM-DD" and return the same format.
  * Minimal helper to avoid importing extra libs.
@@ -28,38 +31,42 @@ function addDaysISO(dateISO: string, days: number): string {
 
 /**
  * In a Server Actions file, exported functions must be async.
- * Converts a New York–local ISO string to a UTC ISO string.
+ * Converts a local ISO string in the signed-in user's timezone to a UTC ISO string.
  */
-export async function toUtcISOFromNY(localISO: string | null | undefined) {
+export async function toUtcISOFromLocal(localISO: string | null | undefined) {
   if (!localISO) return null;
-  // localISO: "YYYY-MM-DDTHH:mm" or full local ISO in NY timezone
-  return fromZonedTime(localISO, NY_TZ).toISOString();
+  // localISO: "YYYY-MM-DDTHH:mm" or full local ISO in the user's timezone
+  const supabase = await createSupabaseServerClient();
+  const { data: auth } = await supabase.auth.getUser();
+  if (!auth?.user) return null;
+  return localToUtcISO(localISO, await getUserTimezone(supabase, auth.user.id));
 }
 
 /**
- * Convert a local NY date string "YYYY-MM-DD" to the UTC ISO range
+ * Convert a local date string "YYYY-MM-DD" in `tz` to the UTC ISO range
  * covering that entire local day: [00:00, next 00:00).
- * Pass local-clock strings directly to zonedTimeToUtc to avoid host TZ issues.
+ * Pass local-clock strings directly to fromZonedTime to avoid host TZ issues.
  */
-function nyDayUtcBounds(dateISO: string): { startISO: string; endISO: string } {
+function dayUtcBounds(dateISO: string, tz: string): { startISO: string; endISO: string } {
   const nextDateISO = addDaysISO(dateISO, 1);
 
-  const startUTC = fromZonedTime(`${dateISO}T00:00:00`, NY_TZ).toISOString();
-  const endUTC = fromZonedTime(`${nextDateISO}T00:00:00`, NY_TZ).toISOString();
+  const startUTC = fromZonedTime(`${dateISO}T00:00:00`, tz).toISOString();
+  const endUTC = fromZonedTime(`${nextDateISO}T00:00:00`, tz).toISOString();
 
   return { startISO: startUTC, endISO: endUTC };
 }
 
 /**
- * Convert a local NY range [startLocalISO, endLocalISO) to UTC ISO strings.
- * Inputs are full local NY ISO strings, e.g., "2025-10-20T00:00:00".
+ * Convert a local range [startLocalISO, endLocalISO) in `tz` to UTC ISO strings.
+ * Inputs are full local ISO strings, e.g., "2025-10-20T00:00:00".
  */
-function nyRangeToUtc(
+function rangeToUtc(
   startLocalISO: string,
-  endLocalISO: string
+  endLocalISO: string,
+  tz: string
 ): { startUTC: string; endUTC: string } {
-  const startUTC = fromZonedTime(startLocalISO, NY_TZ).toISOString();
-  const endUTC = fromZonedTime(endLocalISO, NY_TZ).toISOString();
+  const startUTC = fromZonedTime(startLocalISO, tz).toISOString();
+  const endUTC = fromZonedTime(endLocalISO, tz).toISOString();
   return { startUTC, endUTC };
 }
 
@@ -75,12 +82,62 @@ async function getUserId(): Promise<string | null> {
 }
 // --- END NEW ---
 
+// --- NEW: Recurring events ---
+const EVENT_COLUMNS = 'id,title,start_ts,end_ts,kind,category,status,location,notes,all_day,world,series_id,recurrence_id,rrule,exdates,timezone';
+
+/**
+ * Rows overlapping [startUTC, endUTC) with recurring series expanded into occurrences.
+ * One-offs and overrides use the overlap filter; masters are fetched whenever they
+ * start before the window ends, together with all their overrides so moved
+ * occurrences are not generated twice.
+ */
+async function fetchExpandedEvents(
+  supabase: Awaited<ReturnType<typeof createSupabaseServerClient>>,
+  userId: string,
+  startUTC: string,
+  endUTC: string,
+  defaultTz: string
+) {
+  const overlapOr =
+    `and(end_ts.is.null,start_ts.lt.${endUTC}),` +
+    `and(end_ts.gt.${startUTC},start_ts.lt.${endUTC})`;
+
+  const [rowsRes, mastersRes] = await Promise.all([
+    supabase.from('calendar_events').select(EVENT_COLUMNS).eq('user_id', userId).is('rrule', null).or(overlapOr),
+    supabase.from('calendar_events').select(EVENT_COLUMNS).eq('user_id', userId).not('rrule', 'is', null).lt('start_ts', endUTC),
+  ]);
+  if (rowsRes.error) throw rowsRes.error;
+  if (mastersRes.error) throw mastersRes.error;
+
+  const masters = mastersRes.data ?? [];
+  let overrides: { series_id: string | null; recurrence_id: string | null }[] = [];
+  if (masters.length > 0) {
+    const { data, error } = await supabase
+      .from('calendar_events')
+      .select('series_id,recurrence_id')
+      .eq('user_id', userId)
+      .in('series_id', masters.map((m: any) => m.id));
+    if (error) throw error;
+    overrides = data ?? [];
+  }
+
+  return expandCalendarEvents({
+    rows: (rowsRes.data ?? []) as any[],
+    masters: masters as any[],
+    overrides,
+    fromISO: startUTC,
+    toISO: endUTC,
+    defaultTz,
+  });
+}
+// --- END NEW ---
+
 /**
- * Return all pending tasks due on the given local NY day.
+ * Return all pending tasks due on the given local day (user's timezone).
  * Filters:
  * - kind = 'task'
  * - status = 'pending'
- * - start_ts within [dayStart, dayEnd) in UTC, computed from NY local day.
+ * - start_ts within [dayStart, dayEnd) in UTC, computed from the local day.
  */
 export async function listTasksDueOn(dateISO: string): Promise<CalendarEventLite[]> {
   const supabase = await createSupabaseServerClient();
@@ -88,7 +145,8 @@ export async function listTasksDueOn(dateISO: string): Promise<CalendarEventLite
   const { data: auth } = await supabase.auth.getUser();
   if (!auth?.user) return [];
 
-  const { startISO, endISO } = nyDayUtcBounds(dateISO);
+  const tz = await getUserTimezone(supabase, auth.user.id);
+  const { startISO, endISO } = dayUtcBounds(dateISO, tz);
 
   const { data, error } = await supabase
     .from('calendar_events')
@@ -117,13 +175,16 @@ export async function listTasksDueOn(dateISO: string): Promise<CalendarEventLite
 }
 
 /**
- * Return events/tasks overlapping the given local NY window [startLocalISO, endLocalISO).
+ * Return events/tasks overlapping the given local window [startLocalISO, endLocalISO),
+ * read in the user's timezone.
  * Overlap condition:
  * start_ts < endUTC AND (end_ts IS NULL OR end_ts > startUTC)
  *
  * Implemented as an OR of two AND branches (PostgREST constraint):
  * A) end_ts IS NULL AND start_ts < endUTC
  * B) end_ts > startUTC AND start_ts < endUTC
+ *
+ * Recurring series come back as one item per occurrence (see fetchExpandedEvents).
  */
 export async function listEventsInRange(
   startLocalISO: string,
@@ -134,23 +195,14 @@ export async function listEventsInRange(
   const { data: auth } = await supabase.auth.getUser();
   if (!auth?.user) return [];
 
-  const { startUTC, endUTC } = nyRangeToUtc(startLocalISO, endLocalISO);
-
-  // PostgREST OR filter encoding for overlap logic
-  const overlapOr =
-    `and(end_ts.is.null,start_ts.lt.${endUTC}),` + // A: open-ended items before end
-    `and(end_ts.gt.${startUTC},start_ts.lt.${endUTC})`; // B: bounded items overlapping
-
-  const { data, error } = await supabase
-    .from('calendar_events')
-    // --- UPDATED SELECT to include location and notes ---
-    .select('id,title,start_ts,end_ts,kind,category,status,location,notes,all_day,world') // Added fields
-    // --- END UPDATE ---
-    .eq('user_id', auth.user.id) // Ensure RLS-like filtering even if RLS is off
-    .or(overlapOr)
-    .order('start_ts', { ascending: true });
+  const tz = await getUserTimezone(supabase, auth.user.id);
+  const { startUTC, endUTC } = rangeToUtc(startLocalISO, endLocalISO, tz);
 
-  if (error || !data) {
+  // Recurring series are expanded into their occurrences within the window
+  let data: any[];
+  try {
+    data = await fetchExpandedEvents(supabase, auth.user.id, startUTC, endUTC, tz);
+  } catch (error: any) {
     console.error(`Error fetching events in range ${startLocalISO} - ${endLocalISO}:`, error?.message);
     return [];
   }
@@ -170,14 +222,18 @@ export async function listEventsInRange(
     world: row.world as 'Business' | 'Personal',
     status: row.status as string, // Include status if needed
     // --- END NEW ---
+    series_id: row.series_id as string | null,
+    recurrence_id: row.recurrence_id as string | null,
+    rrule: row.rrule as string | null,
+    timezone: (row.timezone as string | null) ?? null,
   }));
 }
 
 /**
  * Return ALL calendar items (tasks and events, regardless of status)
- * starting on the given local NY day.
+ * starting on the given local day (user's timezone).
  * Filters:
- * - start_ts within [dayStart, dayEnd) in UTC, computed from NY local day.
+ * - start_ts within [dayStart, dayEnd) in UTC, computed from the local day.
  */
 export async function listAgendaItemsForDay(dateISO: string): Promise<CalendarEventLite[]> {
   const supabase = await createSupabaseServerClient();
@@ -186,26 +242,18 @@ export async function listAgendaItemsForDay(dateISO: string): Promise<CalendarEv
   if (!auth?.user) return []; // Return empty if not authenticated
 
   // Get the UTC time range covering the entire local day
-  const { startISO, endISO } = nyDayUtcBounds(dateISO);
+  const tz = await getUserTimezone(supabase, auth.user.id);
+  const { startISO, endISO } = dayUtcBounds(dateISO, tz);
 
-  // Fetch all calendar_events that start within that UTC range
-  const { data, error } = await supabase
-    .from('calendar_events')
-    // --- UPDATED SELECT to include location and notes ---
-    .select('id, title, start_ts, end_ts, kind, category, status, location, notes, all_day, world') // Added fields
-    // --- END UPDATE ---
-    .eq('user_id', auth.user.id) // Ensure user owns the items (RLS also enforces)
-    .gte('start_ts', startISO)   // Event starts on or after the day's UTC start
-    .lt('start_ts', endISO)     // Event starts before the next day's UTC start
-    .order('start_ts', { ascending: true }); // Order chronologically
-
-  if (error) {
-    console.error(`Error fetching agenda items for ${dateISO}:`, error.message);
+  // Fetch all calendar_events (recurring occurrences included) that start within that UTC range
+  let data: any[];
+  try {
+    data = (await fetchExpandedEvents(supabase, auth.user.id, startISO, endISO, tz))
+      .filter((row) => Date.parse(row.start_ts) >= Date.parse(startISO)); // Starts on the day, not carried over from before
+  } catch (error: any) {
+    console.error(`Error fetching agenda items for ${dateISO}:`, error?.message);
     return []; // Return empty on error
   }
-  if (!data) {
-     return []; // Return empty if no data
-  }
 
   // Map the raw data to the CalendarEventLite type (adapt if needed based on full type)
   return data.map((row : any) => ({
@@ -239,6 +287,17 @@ export async function deleteCalendarEvent(payload: { id: string }): Promise<{ su
     }
 
     try {
+        // Deleting a series master takes its modified occurrences with it
+        const { error: overridesError } = await supabase
+            .from('calendar_events')
+            .delete()
+            .eq('series_id', payload.id)
+            .eq('user_id', userId);
+        if (overridesError) {
+            console.error('Error deleting series overrides:', overridesError.message);
+            return { success: false, error: overridesError.message };
+        }
+
         const { error } = await supabase
             .from('calendar_events')
             .delete()
@@ -281,7 +340,8 @@ export async function updateCalendarEvent(payload: {
     kind?: string;
     status?: string;
     world?: 'Business' | 'Personal';
-}): Promise<{ success: boolean; error?: string }> {
+    rrule?: string | null; // Turns a one-off event into a series (null = no repeat)
+}): Promise<{ success: boolean; conflicts?: BusyBlock[]; error?: string }> {
     const supabase = await createSupabaseServerClient();
     const userId = await getUserId();
 
@@ -291,6 +351,9 @@ export async function updateCalendarEvent(payload: {
     if (!payload.id) {
         return { success: false, error: 'Event ID is required for update.' };
     }
+    if (payload.rrule && !parseRRule(payload.rrule)) {
+        return { success: false, error: 'Invalid repeat rule.' };
+    }
 
     // Construct the object with only the fields to update
     const updateData: { [key: string]: any } = {};
@@ -304,6 +367,9 @@ export async function updateCalendarEvent(payload: {
     if (payload.kind !== undefined) updateData.kind = payload.kind;
     if (payload.status !== undefined) updateData.status = payload.status;
     if (payload.world !== undefined) updateData.world = payload.world;
+    if (payload.rrule !== undefined) {
+        updateData.rrule = payload.rrule ? buildRRule(parseRRule(payload.rrule)!) : null;
+    }
 
     // Basic validation: ensure title isn't set to empty if provided
     if (updateData.title !== undefined && !updateData.title.trim()) {
@@ -340,11 +406,13 @@ export async function updateCalendarEvent(payload: {
     // updateData.updated_at = new Date().toISOString();
 
     try {
-        const { error } = await supabase
+        const { data: saved, error } = await supabase
             .from('calendar_events')
             .update(updateData)
             .eq('id', payload.id)
-            .eq('user_id', userId); // Ensure user owns the event
+            .eq('user_id', userId) // Ensure user owns the event
+            .select('start_ts, end_ts, all_day, kind')
+            .maybeSingle();
 
         if (error) {
             console.error('Error updating calendar event:', error.message);
@@ -354,11 +422,603 @@ export async function updateCalendarEvent(payload: {
         revalidatePath('/calendar'); // Revalidate the calendar page
         revalidatePath('/'); // Revalidate dashboard if it uses calendar data
 
-        return { success: true };
+        // Overlaps are reported back as a warning; the update itself is kept
+        const conflicts = saved && saved.kind !== 'task'
+            ? await conflictsFor(supabase, userId, saved, { source: 'agenda', id: payload.id }).then(
+                (found) => found.conflicts,
+                (e) => {
+                    console.error('Error checking conflicts:', e?.message);
+                    return [];
+                }
+            )
+            : [];
+
+        return { success: true, conflicts };
 
     } catch (e: any) {
         console.error('Unexpected error updating event:', e.message);
         return { success: false, error: e.message || 'An unexpected error occurred.' };
     }
 }
-// --- END NEW ---
\ No newline at end of file
+// --- END NEW ---
+
+
+// --- NEW: Recurring event occurrences (single occurrence vs. whole series) ---
+type EventFields = {
+    title?: string;
+    start_ts?: string | null; // UTC ISO
+    end_ts?: string | null;   // UTC ISO
+    category?: string;
+    all_day?: boolean;
+    location?: string | null;
+    notes?: string | null;
+    kind?: string;
+    status?: string;
+    world?: 'Business' | 'Personal';
+};
+
+function pickEventFields(fields: EventFields) {
+    const out: { [key: string]: any } = {};
+    for (const key of ['title', 'start_ts', 'end_ts', 'category', 'all_day', 'location', 'notes', 'kind', 'status', 'world'] as const) {
+        if (fields[key] !== undefined) out[key] = fields[key];
+    }
+    return out;
+}
+
+async function getSeriesMaster(supabase: Awaited<ReturnType<typeof createSupabaseServerClient>>, userId: string, seriesId: string) {
+    const { data, error } = await supabase
+        .from('calendar_events')
+        .select('*')
+        .eq('id', seriesId)
+        .eq('user_id', userId)
+        .not('rrule', 'is', null)
+        .single();
+    if (error || !data) throw new Error(error?.message || 'Recurring event not found.');
+    return data;
+}
+
+/**
+ * Edits one occurrence of a series. The change is stored as an override row
+ * (series_id + recurrence_id = the occurrence's original start) that replaces
+ * the generated occurrence, like a budget rule override.
+ */
+export async function updateEventOccurrence(payload: EventFields & {
+    series_id: string;
+    recurrence_id: string; // UTC ISO original start of the occurrence
+}): Promise<{ success: boolean; error?: string }> {
+    const supabase = await createSupabaseServerClient();
+    const userId = await getUserId();
+    if (!userId) {
+        return { success: false, error: 'User not authenticated.' };
+    }
+    if (payload.title !== undefined && !payload.title.trim()) {
+        return { success: false, error: 'Event title cannot be empty.' };
+    }
+
+    try {
+        const master = await getSeriesMaster(supabase, userId, payload.series_id);
+        const recurrenceId = new Date(payload.recurrence_id).toISOString();
+        const fields = pickEventFields(payload);
+
+        const { data: existing, error: findError } = await supabase
+            .from('calendar_events')
+            .select('id')
+            .eq('user_id', userId)
+            .eq('series_id', master.id)
+            .eq('recurrence_id', recurrenceId)
+            .maybeSingle();
+        if (findError) throw findError;
+
+        if (existing) {
+            const { error } = await supabase.from('calendar_events').update(fields).eq('id', existing.id).eq('user_id', userId);
+            if (error) throw error;
+        } else {
+            const duration = master.end_ts ? Date.parse(master.end_ts) - Date.parse(master.start_ts) : null;
+            const { error } = await supabase.from('calendar_events').insert({
+                user_id: userId,
+                title: master.title,
+                start_ts: recurrenceId,
+                end_ts: duration != null ? new Date(Date.parse(recurrenceId) + duration).toISOString() : null,
+                category: master.category,
+                all_day: master.all_day,
+                location: master.location,
+                notes: master.notes,
+                kind: master.kind,
+                status: master.status,
+                world: master.world,
+                timezone: master.timezone,
+                ical_uid: master.ical_uid,
+                ...fields,
+                series_id: master.id,
+                recurrence_id: recurrenceId,
+            });
+            if (error) throw error;
+        }
+
+        revalidatePath('/agenda');
+        revalidatePath('/');
+        return { success: true };
+    } catch (e: any) {
+        console.error('Error updating event occurrence:', e.message);
+        return { success: false, error: e.message || 'An unexpected error occurred.' };
+    }
+}
+
+/**
+ * Cancels one occurrence of a series: its start is added to the master's
+ * exdates and any override for it is removed.
+ */
+export async function cancelEventOccurrence(payload: {
+    series_id: string;
+    recurrence_id: string;
+}): Promise<{ success: boolean; error?: string }> {
+    const supabase = await createSupabaseServerClient();
+    const userId = await getUserId();
+    if (!userId) {
+        return { success: false, error: 'User not authenticated.' };
+    }
+
+    try {
+        const master = await getSeriesMaster(supabase, userId, payload.series_id);
+        const recurrenceId = new Date(payload.recurrence_id).toISOString();
+        const exdates = ((master.exdates ?? []) as string[]).map((d) => new Date(d).toISOString());
+
+        if (!exdates.includes(recurrenceId)) {
+            const { error } = await supabase
+                .from('calendar_events')
+                .update({ exdates: [...exdates, recurrenceId] })
+                .eq('id', master.id)
+                .eq('user_id', userId);
+            if (error) throw error;
+        }
+
+        const { error: overrideError } = await supabase
+            .from('calendar_events')
+            .delete()
+            .eq('user_id', userId)
+            .eq('series_id', master.id)
+            .eq('recurrence_id', recurrenceId);
+        if (overrideError) throw overrideError;
+
+        revalidatePath('/agenda');
+        revalidatePath('/');
+        return { success: true };
+    } catch (e: any) {
+        console.error('Error cancelling event occurrence:', e.message);
+        return { success: false, error: e.message || 'An unexpected error occurred.' };
+    }
+}
+
+/**
+ * Edits a whole series from one of its occurrences. A time change is applied
+ * as a shift: the series start, its exceptions and its overrides move by the
+ * same amount the occurrence was moved. `rrule: null` ends the repetition and
+ * keeps the first occurrence as a single event.
+ */
+export async function updateEventSeries(payload: EventFields & {
+    series_id: string;
+    occurrence_start_ts: string; // UTC ISO start of the occurrence as it was shown
+    rrule?: string | null;
+}): Promise<{ success: boolean; error?: string }> {
+    const supabase = await createSupabaseServerClient();
+    const userId = await getUserId();
+    if (!userId) {
+        return { success: false, error: 'User not authenticated.' };
+    }
+    if (payload.title !== undefined && !payload.title.trim()) {
+        return { success: false, error: 'Event title cannot be empty.' };
+    }
+    if (payload.rrule && !parseRRule(payload.rrule)) {
+        return { success: false, error: 'Invalid repeat rule.' };
+    }
+
+    try {
+        const master = await getSeriesMaster(supabase, userId, payload.series_id);
+        const { start_ts, end_ts, ...rest } = pickEventFields(payload);
+        const updateData: { [key: string]: any } = { ...rest };
+
+        const shift = start_ts ? Date.parse(start_ts) - Date.parse(payload.occurrence_start_ts) : 0;
+        const moved = (iso: string) => new Date(Date.parse(iso) + shift).toISOString();
+        const newStart = moved(master.start_ts);
+        if (shift !== 0) updateData.start_ts = newStart;
+        if (end_ts !== undefined) {
+            // Keep the edited occurrence's duration
+            updateData.end_ts = end_ts && start_ts ? new Date(Date.parse(newStart) + Date.parse(end_ts) - Date.parse(start_ts)).toISOString() : null;
+        } else if (shift !== 0 && master.end_ts) {
+            updateData.end_ts = moved(master.end_ts);
+        }
+
+        const { data: overrides, error: overridesError } = await supabase
+            .from('calendar_events')
+            .select('id, recurrence_id')
+            .eq('user_id', userId)
+            .eq('series_id', master.id);
+        if (overridesError) throw overridesError;
+
+        if (payload.rrule === null) {
+            updateData.rrule = null;
+            updateData.exdates = [];
+            if ((overrides ?? []).length > 0) {
+                const { error } = await supabase.from('calendar_events').delete().eq('user_id', userId).eq('series_id', master.id);
+                if (error) throw error;
+            }
+        } else {
+            if (payload.rrule) updateData.rrule = buildRRule(parseRRule(payload.rrule)!);
+            if (shift !== 0) {
+                updateData.exdates = ((master.exdates ?? []) as string[]).map(moved);
+                for (const o of overrides ?? []) {
+                    const { error } = await supabase
+                        .from('calendar_events')
+                        .update({ recurrence_id: moved(o.recurrence_id as string) })
+                        .eq('id', o.id)
+                        .eq('user_id', userId);
+                    if (error) throw error;
+                }
+            }
+        }
+
+        const { error } = await supabase.from('calendar_events').update(updateData).eq('id', master.id).eq('user_id', userId);
+        if (error) throw error;
+
+        revalidatePath('/agenda');
+        revalidatePath('/');
+        return { success: true };
+    } catch (e: any) {
+        console.error('Error updating event series:', e.message);
+        return { success: false, error: e.message || 'An unexpected error occurred.' };
+    }
+}
+// --- END NEW ---
+
+// --- NEW: Calendar feed (ICS subscription) & .ics import ---
+const CALENDAR_CATEGORIES: CalendarEventLite['category'][] = ['Work', 'Personal', 'Health', 'Errand', 'Other'];
+
+/**
+ * Returns the user's secret calendar feed token, creating one on first use.
+ * The token is the only credential of GET /api/agenda/feed/[token].
+ */
+export async function getCalendarFeedToken(): Promise<{ success: boolean; token?: string; error?: string }> {
+    const supabase = await createSupabaseServerClient();
+    const userId = await getUserId();
+    if (!userId) {
+        return { success: false, error: 'User not authenticated.' };
+    }
+
+    const { data: existing, error: fetchError } = await supabase
+        .from('calendar_feeds')
+        .select('token')
+        .eq('user_id', userId)
+        .maybeSingle();
+    if (fetchError) {
+        console.error('Error fetching calendar feed token:', fetchError.message);
+        return { success: false, error: fetchError.message };
+    }
+    if (existing?.token) return { success: true, token: existing.token as string };
+
+    return rotateCalendarFeedToken();
+}
+
+/**
+ * Replaces the feed token; subscriptions using the old URL stop updating.
+ */
+export async function rotateCalendarFeedToken(): Promise<{ success: boolean; token?: string; error?: string }> {
+    const supabase = await createSupabaseServerClient();
+    const userId = await getUserId();
+    if (!userId) {
+        return { success: false, error: 'User not authenticated.' };
+    }
+
+    const token = randomBytes(24).toString('base64url');
+    const { error } = await supabase
+        .from('calendar_feeds')
+        .upsert({ user_id: userId, token, created_at: new Date().toISOString() }, { onConflict: 'user_id' });
+    if (error) {
+        console.error('Error saving calendar feed token:', error.message);
+        return { success: false, error: error.message };
+    }
+    return { success: true, token };
+}
+
+function icsEventToRow(ev: IcsEvent) {
+    const category =
+        CALENDAR_CATEGORIES.find((c) => ev.categories.some((k) => k.toLowerCase() === c.toLowerCase())) ??
+        (ev.categories.some((k) => /^business$/i.test(k)) ? 'Work' : 'Other');
+    return {
+        title: ev.title,
+        start_ts: ev.start_ts,
+        end_ts: ev.end_ts,
+        all_day: ev.all_day,
+        category,
+        world: category === 'Work' ? 'Business' : 'Personal',
+        location: ev.location,
+        notes: ev.notes,
+        ical_uid: ev.uid as string | null,
+        recurrence_id: ev.recurrence_id,
+        rrule: ev.rrule ? buildRRule(parseRRule(ev.rrule)!) : null,
+        exdates: ev.exdates,
+        timezone: ev.timezone,
+    };
+}
+
+/**
+ * Imports the VEVENTs of an .ics file. Events are keyed by UID (+ RECURRENCE-ID),
+ * so importing the same file again updates the events instead of duplicating them.
+ * UIDs from our own feed map back to the original rows.
+ */
+export async function importCalendarFile(payload: { text: string }): Promise<{ success: boolean; result?: IcsImportResult; error?: string }> {
+    const supabase = await createSupabaseServerClient();
+    const userId = await getUserId();
+    if (!userId) {
+        return { success: false, error: 'User not authenticated.' };
+    }
+
+    try {
+        const parsed = parseICS(payload.text ?? '', await getUserTimezone(supabase, userId));
+        if (parsed.events.length === 0 && parsed.skipped === 0) {
+            return { success: false, error: 'No events found in the file.' };
+        }
+
+        // Series whose RRULE we cannot expand are skipped whole (master and modified occurrences)
+        const unsupported = new Set(parsed.events.filter((ev) => ev.rrule && !parseRRule(ev.rrule)).map((ev) => ev.uid));
+        const events = parsed.events.filter((ev) => !unsupported.has(ev.uid));
+        const skipped = parsed.skipped + parsed.events.length - events.length;
+
+        const { data: imported, error: importedError } = await supabase
+            .from('calendar_events')
+            .select('id, ical_uid, recurrence_id')
+            .eq('user_id', userId)
+            .not('ical_uid', 'is', null);
+        if (importedError) throw importedError;
+
+        const existing = new Map<string, string>();
+        for (const row of imported ?? []) {
+            const rid = row.recurrence_id ? new Date(row.recurrence_id as string).toISOString() : '';
+            existing.set(`${row.ical_uid}|${rid}`, row.id as string);
+        }
+
+        // Events exported by our own feed carry "<row id>@domain" as UID; they map
+        // back to the native row (and its overrides) instead of becoming copies
+        const ownSuffix = `@${ICS_UID_DOMAIN}`;
+        const ownIds = [...new Set(events.filter((ev) => ev.uid.endsWith(ownSuffix)).map((ev) => ev.uid.slice(0, -ownSuffix.length)))];
+        const ownMasters = new Set<string>();
+        if (ownIds.length > 0) {
+            const { data: own, error: ownError } = await supabase
+                .from('calendar_events')
+                .select('id, series_id, recurrence_id')
+                .eq('user_id', userId)
+                .or(`id.in.(${ownIds.join(',')}),series_id.in.(${ownIds.join(',')})`);
+            if (ownError) throw ownError;
+            for (const row of own ?? []) {
+                if (row.series_id) {
+                    existing.set(`${row.series_id}${ownSuffix}|${new Date(row.recurrence_id as string).toISOString()}`, row.id as string);
+                } else {
+                    ownMasters.add(row.id as string);
+                    existing.set(`${row.id}${ownSuffix}|`, row.id as string);
+                }
+            }
+        }
+
+        type ImportRow = ReturnType<typeof icsEventToRow> & { series_id?: string };
+        const inserts: ImportRow[] = [];
+        const updates: { id: string; row: ImportRow }[] = [];
+        for (const ev of events) {
+            let row: ImportRow = icsEventToRow(ev);
+            const ownId = ev.uid.endsWith(ownSuffix) ? ev.uid.slice(0, -ownSuffix.length) : null;
+            if (ownId && ownMasters.has(ownId)) {
+                // Keep native rows native: no ical_uid, overrides linked by series_id
+                row = { ...row, ical_uid: null, ...(ev.recurrence_id ? { series_id: ownId } : {}) };
+            }
+            const id = existing.get(`${ev.uid}|${ev.recurrence_id ?? ''}`);
+            if (id) updates.push({ id, row });
+            else inserts.push(row);
+        }
+
+        if (inserts.length > 0) {
+            const { error } = await supabase
+                .from('calendar_events')
+                .insert(inserts.map((row) => ({ ...row, user_id: userId, kind: 'event', status: 'scheduled' })));
+            if (error) throw error;
+        }
+        for (const { id, row } of updates) {
+            const { error } = await supabase
+                .from('calendar_events')
+                .update(row)
+                .eq('id', id)
+                .eq('user_id', userId);
+            if (error) throw error;
+        }
+
+        // Modified occurrences point at their series master by row id
+        const seriesUids = [...new Set(events.filter((ev) => ev.recurrence_id).map((ev) => ev.uid))];
+        if (seriesUids.length > 0) {
+            const { data: rows, error } = await supabase
+                .from('calendar_events')
+                .select('id, ical_uid, recurrence_id, series_id')
+                .eq('user_id', userId)
+                .in('ical_uid', seriesUids);
+            if (error) throw error;
+            const masterByUid = new Map((rows ?? []).filter((r) => !r.recurrence_id).map((r) => [r.ical_uid as string, r.id as string]));
+            for (const row of rows ?? []) {
+                const masterId = masterByUid.get(row.ical_uid as string);
+                if (!row.recurrence_id || !masterId || row.series_id === masterId) continue;
+                const { error: linkError } = await supabase
+                    .from('calendar_events')
+                    .update({ series_id: masterId })
+                    .eq('id', row.id)
+                    .eq('user_id', userId);
+                if (linkError) throw linkError;
+            }
+        }
+
+        revalidatePath('/agenda');
+        revalidatePath('/');
+
+        return { success: true, result: { created: inserts.length, updated: updates.length, skipped } };
+    } catch (e: any) {
+        console.error('Error importing calendar file:', e.message);
+        return { success: false, error: e.message || 'An unexpected error occurred.' };
+    }
+}
+// --- END NEW ---
+
+// --- NEW: Availability (conflicts and free slots across agenda, classes and immigration) ---
+type ConflictTarget = { start_ts: string; end_ts: string | null; all_day?: boolean };
+type ConflictIgnore = { source: BusySource; id: string } | null;
+
+/** The item being edited, including the occurrences ("<id>:<start>") of a series */
+function isIgnoredBlock(block: BusyBlock, ignore: ConflictIgnore | undefined): boolean {
+    return !!ignore && block.source === ignore.source && (block.id === ignore.id || block.id.startsWith(`${ignore.id}:`));
+}
+
+/**
+ * Busy time in [startUTC, endUTC): timed agenda events (tasks excluded), class
+ * sessions that are not cancelled, and open immigration milestones on their due
+ * date (as all-day markers).
+ */
+async function fetchBusyBlocks(
+    supabase: Awaited<ReturnType<typeof createSupabaseServerClient>>,
+    userId: string,
+    startUTC: string,
+    endUTC: string,
+    tz: string
+): Promise<BusyBlock[]> {
+    const firstDay = formatInTimeZone(startUTC, tz, 'yyyy-MM-dd');
+    const lastDay = formatInTimeZone(endUTC, tz, 'yyyy-MM-dd');
+
+    const [events, sessionsRes, milestonesRes] = await Promise.all([
+        fetchExpandedEvents(supabase, userId, startUTC, endUTC, tz),
+        supabase
+            .from('class_sessions')
+            .select('id, start_time, end_time, attendance, student:class_students ( contact:contacts ( full_name ) )')
+            .neq('attendance', 'cancelled')
+            .lt('start_time', endUTC)
+            .gt('end_time', startUTC),
+        supabase
+            .from('inmigration_milestones')
+            .select('id, label, due_date, case:inmigration_cases ( client_name )')
+            .eq('completed', false)
+            .gte('due_date', firstDay)
+            .lte('due_date', `${lastDay}T23:59:59`),
+    ]);
+    if (sessionsRes.error) throw sessionsRes.error;
+    if (milestonesRes.error) throw milestonesRes.error;
+
+    const agenda: BusyBlock[] = events
+        .filter((e: any) => e.kind !== 'task' && e.status !== 'cancelled')
+        .map((e: any) => ({
+            source: 'agenda',
+            id: e.id as string,
+            title: e.title as string,
+            start_ts: e.start_ts as string,
+            end_ts: (e.end_ts as string | null) ?? null,
+            all_day: !!e.all_day,
+        }));
+
+    const classes: BusyBlock[] = (sessionsRes.data ?? []).map((s: any) => ({
+        source: 'class',
+        id: s.id as string,
+        title: `Class${s.student?.contact?.full_name ? ` with ${s.student.contact.full_name}` : ''}`,
+        start_ts: new Date(s.start_time).toISOString(),
+        end_ts: s.end_time ? new Date(s.end_time).toISOString() : null,
+        all_day: false,
+    }));
+
+    const milestones: BusyBlock[] = (milestonesRes.data ?? []).map((m: any) => {
+        const day = String(m.due_date).slice(0, 10);
+        return {
+            source: 'immigration',
+            id: m.id as string,
+            title: `${m.label}${m.case?.client_name ? ` (${m.case.client_name})` : ''} due`,
+            start_ts: fromZonedTime(`${day}T00:00:00`, tz).toISOString(),
+            end_ts: fromZonedTime(`${addDaysISO(day, 1)}T00:00:00`, tz).toISOString(),
+            all_day: true,
+        };
+    });
+
+    return [...agenda, ...classes, ...milestones];
+}
+
+/**
+ * Timed conflicts and all-day reminders of a proposed time; the window is padded
+ * a day for all-day markers
+ */
+async function conflictsFor(
+    supabase: Awaited<ReturnType<typeof createSupabaseServerClient>>,
+    userId: string,
+    target: ConflictTarget,
+    ignore: ConflictIgnore
+): Promise<{ conflicts: BusyBlock[]; reminders: BusyBlock[] }> {
+    const tz = await getUserTimezone(supabase, userId);
+    const start = Date.parse(target.start_ts);
+    const end = target.end_ts ? Date.parse(target.end_ts) : start;
+    const busy = await fetchBusyBlocks(
+        supabase,
+        userId,
+        new Date(start - 86_400_000).toISOString(),
+        new Date(end + 86_400_000).toISOString(),
+        tz
+    );
+    const others = busy.filter((b) => !isIgnoredBlock(b, ignore));
+    return { conflicts: findConflicts(others, target), reminders: findReminders(others, target) };
+}
+
+/**
+ * Lists what a proposed time overlaps: `conflicts` are timed agenda events and
+ * class sessions, `reminders` the all-day markers (immigration due dates) that day.
+ * Conflicts are warnings: callers still decide whether to save. `ignore` is the
+ * item being edited.
+ */
+export async function checkAvailability(payload: ConflictTarget & { ignore?: ConflictIgnore }): Promise<{ success: boolean; conflicts?: BusyBlock[]; reminders?: BusyBlock[]; error?: string }> {
+    const supabase = await createSupabaseServerClient();
+    const userId = await getUserId();
+    if (!userId) {
+        return { success: false, error: 'User not authenticated.' };
+    }
+    if (!payload.start_ts || Number.isNaN(Date.parse(payload.start_ts))) {
+        return { success: false, error: 'A valid start time is required.' };
+    }
+
+    try {
+        const { conflicts, reminders } = await conflictsFor(supabase, userId, payload, payload.ignore ?? null);
+        return { success: true, conflicts, reminders };
+    } catch (e: any) {
+        console.error('Error checking availability:', e.message);
+        return { success: false, error: e.message || 'An unexpected error occurred.' };
+    }
+}
+
+/**
+ * Finds the next free slot (default 60 minutes) within working hours, starting
+ * at `from_ts` (default: now). `slot` is null when nothing is free in the next
+ * SLOT_SEARCH_DAYS days.
+ */
+export async function findNextAvailableSlot(payload: {
+    from_ts?: string | null;
+    duration_minutes?: number;
+    ignore?: ConflictIgnore;
+} = {}): Promise<{ success: boolean; slot?: FreeSlot | null; error?: string }> {
+    const supabase = await createSupabaseServerClient();
+    const userId = await getUserId();
+    if (!userId) {
+        return { success: false, error: 'User not authenticated.' };
+    }
+
+    const now = Date.now();
+    const from = payload.from_ts && !Number.isNaN(Date.parse(payload.from_ts)) ? Math.max(Date.parse(payload.from_ts), now) : now;
+    const duration = Math.min(Math.max(Math.round(payload.duration_minutes ?? DEFAULT_BLOCK_MINUTES), 15), 12 * 60);
+
+    try {
+        const tz = await getUserTimezone(supabase, userId);
+        const fromISO = new Date(from).toISOString();
+        const untilISO = new Date(from + (SLOT_SEARCH_DAYS + 1) * 86_400_000).toISOString();
+        const busy = (await fetchBusyBlocks(supabase, userId, fromISO, untilISO, tz))
+            .filter((b) => !isIgnoredBlock(b, payload.ignore));
+
+        const slot = findNextFreeSlot({ busy, fromISO, timezone: tz, duration_minutes: duration });
+        return { success: true, slot };
+    } catch (e: any) {
+        console.error('Error finding a free slot:', e.message);
+        return { success: false, error: e.message || 'An unexpected error occurred.' };
+    }
+}
+// --- END NEW ---
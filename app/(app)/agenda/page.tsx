@@ -1,15 +1,20 @@
 'use client';
 
 import * as React from 'react';
-import { Plus, ChevronLeft, ChevronRight, Edit, Trash2, X, MapPin, StickyNote } from 'lucide-react';
+import { Plus, ChevronLeft, ChevronRight, Edit, Trash2, X, MapPin, StickyNote, CalendarSync } from 'lucide-react';
 import AddEventDrawer from '@/components/AddEventDrawer';
 import type { CreateEventPayload } from '@/components/AddEventDrawer';
-import { toZonedTime } from 'date-fns-tz';
+import { formatInTimeZone, fromZonedTime, toZonedTime } from 'date-fns-tz';
 import { useToast } from '@/components/ToastProvider';
 import ConfirmDialog from '@/components/ConfirmDialog';
+import CalendarSyncDialog from '@/components/CalendarSyncDialog';
 // Import Server Actions from the same directory
-import { deleteCalendarEvent, updateCalendarEvent } from './actions';
-import { useRouter } from 'next/navigation';
+import { cancelEventOccurrence, deleteCalendarEvent, updateCalendarEvent, updateEventOccurrence, updateEventSeries } from './actions';
+import type { BusyBlock, EventEditScope } from '@/lib/types';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { useAppState } from '@/app/state-provider';
+import { timezoneAbbreviation } from '@/lib/UserTimezone';
+import { describeConflicts } from '@/lib/Availability';
 
 // --- Data Types ---
 // UI Type (expects Date objects)
@@ -17,8 +22,10 @@ type UICalendarEvent = {
   id: string;
   title: string;
   category: EventCategory; 
-  start: Date;
+  start: Date; // Wall clock in the user's timezone (see toZonedTime)
   end: Date | null; // Allow null for end date
+  // Time in the event's own zone when it differs from the user's, e.g. "3:00 PM CET"
+  ownZoneLabel?: string | null;
   allDay?: boolean;
   location: string | null;
   notes: string | null;
@@ -40,6 +47,11 @@ type APIEventData = {
   notes: string | null;
   // Add other fields from DB if needed for editing (e.g., world)
   world?: 'Business' | 'Personal';
+  // Recurring events: occurrence of series `series_id`, originally starting at `recurrence_id`
+  series_id?: string | null;
+  recurrence_id?: string | null;
+  rrule?: string | null;
+  timezone?: string | null;
 };
 
 type EventCategory = 'Business' | 'Personal' | 'Health' | 'Errand' | 'Recreation' | 'Other';
@@ -75,18 +87,33 @@ type ViewMode = 'month' | 'week' | 'day';
 // --- Page ---
 export default function AgendaPage() {
   const [isAddDrawerOpen, setIsAddDrawerOpen] = React.useState(false); 
+  const [isSyncDialogOpen, setIsSyncDialogOpen] = React.useState(false);
   const [view, setView] = React.useState<ViewMode>('week');
   const [currentDate, setCurrentDate] = React.useState(new Date());
   const [events, setEvents] = React.useState<UICalendarEvent[]>([]);
   const [isLoading, setIsLoading] = React.useState(true);
   const { notify } = useToast();
   const router = useRouter(); 
+  const searchParams = useSearchParams();
+  const { state: { timezone } } = useAppState();
+
+  // --- NEW: Deep link from the unified calendar (/agenda?date=YYYY-MM-DD) ---
+  React.useEffect(() => {
+    const date = searchParams.get('date');
+    if (!date || !/^\d{4}-\d{2}-\d{2}$/.test(date)) return;
+    const [y, m, d] = date.split('-').map(Number);
+    setCurrentDate(new Date(y, m - 1, d));
+    setView('day');
+    router.replace('/agenda', { scroll: false });
+  }, [searchParams, router]);
+  // --- END NEW ---
 
   // --- NEW State for Edit/Delete ---
   const [editingEvent, setEditingEvent] = React.useState<UICalendarEvent | null>(null);
   const [isEditDrawerOpen, setIsEditDrawerOpen] = React.useState(false);
   const [eventToDeleteId, setEventToDeleteId] = React.useState<string | null>(null);
   const [isConfirmDialogOpen, setIsConfirmDialogOpen] = React.useState(false);
+  const [deleteScope, setDeleteScope] = React.useState<EventEditScope>('occurrence');
   // --- END NEW State ---
 
   // --- Fetch events effect ---
@@ -138,8 +165,9 @@ export default function AgendaPage() {
             id: event.id,
             title: event.title,
             category: displayCategory,
-            start: new Date(event.start_ts),
-            end: event.end_ts ? new Date(event.end_ts) : null,
+            start: toZonedTime(event.start_ts, timezone),
+            end: event.end_ts ? toZonedTime(event.end_ts, timezone) : null,
+            ownZoneLabel: ownZoneLabel(event, timezone),
             allDay: event.all_day,
             location: event.location,
             notes: event.notes,
@@ -156,7 +184,7 @@ export default function AgendaPage() {
     } finally {
       setIsLoading(false);
     }
-  }, [currentDate, view, notify]); 
+  }, [currentDate, view, notify, timezone]); 
 
   React.useEffect(() => {
     fetchEvents();
@@ -203,20 +231,15 @@ export default function AgendaPage() {
   const handleSaveEdit = async (payload: CreateEventPayload) => { 
     if (!editingEvent?.id) return;
 
-    // Convert local times from payload back to UTC ISO for the server action
-    const NY_TZ = 'America/New_York';
+    // Convert local times (user's timezone) from payload back to UTC ISO for the server action
     let startISO: string | null = null;
     let endISO: string | null = null;
     try {
         if (payload.start_local) { 
-            // In a real app, use toZonedTime here. For simplicity using pure ISO string if date-fns-tz isn't fully set up in this client file context, 
-            // but the original code imported toZonedTime so we assume it works.
-            // startISO = toZonedTime(payload.start_local, NY_TZ).toISOString();
-            // Fallback to direct ISO for safety in this snippet context if logic is complex
-             startISO = new Date(payload.start_local).toISOString();
+            startISO = fromZonedTime(payload.start_local, timezone).toISOString();
         }
         if (payload.end_local && !payload.all_day) { 
-            endISO = new Date(payload.end_local).toISOString();
+            endISO = fromZonedTime(payload.end_local, timezone).toISOString();
         } else {
             endISO = null; 
         }
@@ -236,8 +259,7 @@ export default function AgendaPage() {
     let apiCategory = payload.category;
     if (payload.category === 'Business') apiCategory = 'Work';
     
-    const updatePayload = { 
-        id: editingEvent.id,
+    const fields = { 
         title: payload.title,
         start_ts: startISO,
         end_ts: endISO,
@@ -249,14 +271,30 @@ export default function AgendaPage() {
         location: payload.location,
         notes: payload.notes,
     };
+    const updatePayload = { id: editingEvent.id, ...fields };
+
+    const series = editingEvent.apiData?.series_id
+        ? { series_id: editingEvent.apiData.series_id, recurrence_id: editingEvent.apiData.recurrence_id! }
+        : null;
 
     try {
-        const result = await updateCalendarEvent(updatePayload); // Call server action
+        // Recurring events: edit this occurrence only, or the whole series
+        const result = !series
+            ? await updateCalendarEvent({ ...updatePayload, rrule: payload.rrule })
+            : payload.scope === 'series'
+                ? await updateEventSeries({ ...fields, series_id: series.series_id, occurrence_start_ts: editingEvent.apiData?.start_ts ?? fromZonedTime(editingEvent.start, timezone).toISOString(), rrule: payload.rrule })
+                : await updateEventOccurrence({ ...fields, ...series });
         if (!result.success) {
             throw new Error(result.error || 'Failed to update event.');
         }
         closeEditDrawer();
-        notify({ title: 'Event Updated', description: `"${payload.title}" was updated successfully.`, variant: 'success' });
+        // Overlaps are only reported for single events (updateCalendarEvent)
+        const conflicts = (result as { conflicts?: BusyBlock[] }).conflicts ?? [];
+        if (conflicts.length > 0) {
+            notify({ title: 'Event Updated (overlaps)', description: `"${payload.title}" overlaps with ${describeConflicts(conflicts)}.`, variant: 'warning' });
+        } else {
+            notify({ title: 'Event Updated', description: `"${payload.title}" was updated successfully.`, variant: 'success' });
+        }
         fetchEvents(); 
     } catch (error: any) {
         console.error("Error updating event:", error);
@@ -266,6 +304,7 @@ export default function AgendaPage() {
 
   const handleDeleteClick = (eventId: string) => {
     setEventToDeleteId(eventId);
+    setDeleteScope('occurrence');
     setIsConfirmDialogOpen(true);
   };
 
@@ -274,12 +313,22 @@ export default function AgendaPage() {
     setEventToDeleteId(null);
   };
 
+  const eventToDelete = events.find(e => e.id === eventToDeleteId);
+  const deleteSeries = eventToDelete?.apiData?.series_id
+    ? { series_id: eventToDelete.apiData.series_id, recurrence_id: eventToDelete.apiData.recurrence_id! }
+    : null;
+
   const handleConfirmDelete = async () => {
     if (!eventToDeleteId) return;
-    const eventTitle = events.find(e => e.id === eventToDeleteId)?.title || 'Event'; 
+    const eventTitle = eventToDelete?.title || 'Event'; 
 
     try {
-        const result = await deleteCalendarEvent({ id: eventToDeleteId }); // Call server action
+        // Recurring events: cancel this occurrence, or delete the series (master row)
+        const result = !deleteSeries
+            ? await deleteCalendarEvent({ id: eventToDeleteId })
+            : deleteScope === 'series'
+                ? await deleteCalendarEvent({ id: deleteSeries.series_id })
+                : await cancelEventOccurrence(deleteSeries);
         if (!result.success) {
             throw new Error(result.error || 'Failed to delete event.');
         }
@@ -322,6 +371,8 @@ export default function AgendaPage() {
         kind: editingEvent.apiData?.kind || 'event',
         status: editingEvent.apiData?.status || 'pending',
         world: editingEvent.apiData?.world || ((formCategory === 'Business') ? 'Business' : 'Personal'),
+        rrule: editingEvent.apiData?.rrule ?? null,
+        series_id: editingEvent.apiData?.series_id ?? null,
     };
   }, [editingEvent]);
 
@@ -345,8 +396,22 @@ export default function AgendaPage() {
             title="Delete Event?"
         >
             Are you sure you want to delete this event? This action cannot be undone.
+            {deleteSeries && (
+                <span className="mt-3 flex flex-col gap-2 text-sm">
+                    <label className="flex items-center gap-2">
+                        <input type="radio" name="delete-scope" checked={deleteScope === 'occurrence'} onChange={() => setDeleteScope('occurrence')} />
+                        Only this event
+                    </label>
+                    <label className="flex items-center gap-2">
+                        <input type="radio" name="delete-scope" checked={deleteScope === 'series'} onChange={() => setDeleteScope('series')} />
+                        All events in the series
+                    </label>
+                </span>
+            )}
         </ConfirmDialog>
 
+      <CalendarSyncDialog isOpen={isSyncDialogOpen} onClose={() => setIsSyncDialogOpen(false)} onImported={fetchEvents} />
+
 
       <div className="p-6 md:p-8">
         {/* Header and Controls */}
@@ -355,13 +420,22 @@ export default function AgendaPage() {
                 <h1 className="text-[var(--fs-h1)] font-bold tracking-tight">Agenda</h1>
                 <p className="text-[var(--text-secondary)]">Schedule and view your events.</p>
             </div>
-            <button
-                type="button"
-                onClick={() => setIsAddDrawerOpen(true)}
-                className="inline-flex h-10 items-center justify-center gap-2 rounded-[var(--radius-md)] bg-[var(--primary)] px-4 text-sm font-medium text-white shadow-[var(--shadow-1)] transition-colors hover:bg-[var(--primary-600)]"
-            >
-                <Plus size={18} /> Add Event
-            </button>
+            <div className="flex items-center gap-2">
+                <button
+                    type="button"
+                    onClick={() => setIsSyncDialogOpen(true)}
+                    className="inline-flex h-10 items-center justify-center gap-2 rounded-[var(--radius-md)] border border-[var(--border)] bg-[var(--bg-surface)] px-4 text-sm font-medium text-[var(--text-primary)] shadow-[var(--shadow-1)] transition-colors hover:bg-[var(--bg-muted)]"
+                >
+                    <CalendarSync size={18} /> Sync
+                </button>
+                <button
+                    type="button"
+                    onClick={() => setIsAddDrawerOpen(true)}
+                    className="inline-flex h-10 items-center justify-center gap-2 rounded-[var(--radius-md)] bg-[var(--primary)] px-4 text-sm font-medium text-white shadow-[var(--shadow-1)] transition-colors hover:bg-[var(--primary-600)]"
+                >
+                    <Plus size={18} /> Add Event
+                </button>
+            </div>
         </div>
 
         {/* TOOLBAR */}
@@ -449,6 +523,15 @@ export default function AgendaPage() {
   );
 }
 
+// Shows the event's own time and zone when it was entered in another zone than the viewer's
+function ownZoneLabel(event: APIEventData, viewerTz: string): string | null {
+  if (event.all_day || !event.timezone || event.timezone === viewerTz) return null;
+  const start = new Date(event.start_ts);
+  // Same offset right now = same clock, nothing to point out
+  if (formatInTimeZone(start, event.timezone, 'xxx') === formatInTimeZone(start, viewerTz, 'xxx')) return null;
+  return `${formatInTimeZone(start, event.timezone, 'h:mm a')} ${timezoneAbbreviation(event.timezone, start)}`;
+}
+
 // --- Single formatTime utility function ---
 function formatTime(d: Date | null): string {
   if (!d) return '';
@@ -518,7 +601,7 @@ function MonthView({ currentDate, events, categoryColors, onEdit, onDelete }: Vi
                     key={event.id}
                     className="relative group event-container rounded-[4px] px-1 py-0.5 text-[9px] leading-snug text-white cursor-pointer overflow-hidden"
                     style={{ backgroundColor: categoryColors[event.category] || categoryColors.Other }}
-                    title={`${formatTime(event.start)}${event.end ? ` - ${formatTime(event.end)}` : ''}\n${event.title}\nCategory: ${event.category}\n${event.location ? `Location: ${event.location}\n` : ''}${event.notes ? `Notes: ${event.notes}` : ''}`}
+                    title={`${formatTime(event.start)}${event.end ? ` - ${formatTime(event.end)}` : ''}\n${event.title}\nCategory: ${event.category}\n${event.location ? `Location: ${event.location}\n` : ''}${event.notes ? `Notes: ${event.notes}` : ''}${event.ownZoneLabel ? `\nEvent time: ${event.ownZoneLabel}` : ''}`}
                   >
                     <div className="font-semibold truncate">{event.title}</div>
                     <div className="opacity-90">
@@ -619,7 +702,7 @@ function WeekView({ currentDate, events, categoryColors, onEdit, onDelete }: Vie
                     key={e.id}
                     className="relative group event-container rounded-[4px] p-1.5 text-xs text-white cursor-pointer"
                     style={{ backgroundColor: categoryColors[e.category] || categoryColors.Other }}
-                    title={`${formatTime(e.start)}${e.end ? ` - ${formatTime(e.end)}` : ''}\n${e.title}\nCategory: ${e.category}\n${e.location ? `Location: ${e.location}\n` : ''}${e.notes ? `Notes: ${e.notes}` : ''}`}
+                    title={`${formatTime(e.start)}${e.end ? ` - ${formatTime(e.end)}` : ''}\n${e.title}\nCategory: ${e.category}\n${e.location ? `Location: ${e.location}\n` : ''}${e.notes ? `Notes: ${e.notes}` : ''}${e.ownZoneLabel ? `\nEvent time: ${e.ownZoneLabel}` : ''}`}
                   >
                     <div className="font-semibold truncate">{e.title}</div>
                     <div className="text-[11px] opacity-90">
@@ -689,7 +772,7 @@ function DayView({ currentDate, events, categoryColors, onEdit, onDelete }: View
             key={e.id}
             className="relative group event-container rounded border border-[var(--border-subtle)] p-2.5 text-sm cursor-pointer"
             style={{ borderLeft: `4px solid ${categoryColors[e.category] || categoryColors.Other}` }}
-            title={`${formatTime(e.start)}${e.end ? ` - ${formatTime(e.end)}` : ''}\n${e.title}\nCategory: ${e.category}\n${e.location ? `Location: ${e.location}\n` : ''}${e.notes ? `Notes: ${e.notes}` : ''}`}
+            title={`${formatTime(e.start)}${e.end ? ` - ${formatTime(e.end)}` : ''}\n${e.title}\nCategory: ${e.category}\n${e.location ? `Location: ${e.location}\n` : ''}${e.notes ? `Notes: ${e.notes}` : ''}${e.ownZoneLabel ? `\nEvent time: ${e.ownZoneLabel}` : ''}`}
           >
             {e.allDay && (
                 <div className="mb-1 text-xs font-semibold text-[var(--text-secondary)] opacity-90">All Day</div>
@@ -698,6 +781,7 @@ function DayView({ currentDate, events, categoryColors, onEdit, onDelete }: View
             {!e.allDay && (
                 <div className="text-xs text-[var(--text-secondary)] opacity-90">
                 {formatTime(e.start)}{e.end ? ` – ${formatTime(e.end)}` : ''}
+                {e.ownZoneLabel && <span className="ml-1 opacity-80">({e.ownZoneLabel} event time)</span>}
                 </div>
             )}
             <div className="text-xs text-[var(--text-secondary)] opacity-80 mt-1">Category: {e.category}</div>
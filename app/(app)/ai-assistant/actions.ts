@@ -0,0 +1,332 @@
+// app/(app)/ai-assistant/actions.ts
+'use server'
+
+import { z } from 'zod'
+import { createSupabaseServerClient } from '@/lib/supabase/server'
+import {
+  ASSISTANT_PIN_ENTITIES,
+  type AssistantPinEntity,
+  type AssistantStoredMessage,
+  type AssistantThread,
+  type AssistantThreadPin,
+} from '@/lib/ai.types'
+import { getLeads } from '@/app/(app)/crm-pipeline/actions'
+import { getProjects } from '@/app/(app)/projects/actions'
+import { getCases } from '@/app/(app)/inmigration-services/actions'
+import { getStudentsList } from '@/app/(app)/classes/actions'
+
+// Conversations live in `ai_threads` (one row per thread, pin columns nullable)
+// and `ai_messages` (one row per chat bubble, ordered by created_at).
+
+/*
+|--------------------------------------------------------------------------
+| Validation
+|--------------------------------------------------------------------------
+*/
+const pinSchema = z.object({
+  entity: z.enum(ASSISTANT_PIN_ENTITIES),
+  id: z.string().min(1),
+  label: z.string().trim().min(1),
+})
+
+const storedMessageSchema = z.object({
+  id: z.uuid(),
+  role: z.enum(['user', 'assistant']),
+  content: z.string(),
+  files: z.array(z.object({ name: z.string(), type: z.enum(['pdf', 'image']) })).optional(),
+  tools: z.array(z.any()).optional(),
+  proposals: z.array(z.any()).optional(),
+  isError: z.boolean().optional(),
+})
+
+/*
+|--------------------------------------------------------------------------
+| Helpers
+|--------------------------------------------------------------------------
+*/
+
+async function getUserId(supabase: Awaited<ReturnType<typeof createSupabaseServerClient>>) {
+  const {
+    data: { user },
+    error,
+  } = await supabase.auth.getUser()
+  if (error || !user) return null
+  return user.id
+}
+
+function mapThreadRow(row: any): AssistantThread {
+  return {
+    id: row.id,
+    title: row.title,
+    pin:
+      row.pinned_entity && row.pinned_id
+        ? { entity: row.pinned_entity, id: row.pinned_id, label: row.pinned_label ?? '' }
+        : null,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  }
+}
+
+function mapMessageRow(row: any): AssistantStoredMessage {
+  return {
+    id: row.id,
+    role: row.role,
+    content: row.content ?? '',
+    files: row.files ?? undefined,
+    tools: row.tools ?? undefined,
+    proposals: row.proposals ?? undefined,
+    isError: row.is_error || undefined,
+  }
+}
+
+function pinColumns(pin: AssistantThreadPin | null) {
+  return {
+    pinned_entity: pin?.entity ?? null,
+    pinned_id: pin?.id ?? null,
+    pinned_label: pin?.label ?? null,
+  }
+}
+
+/*
+|--------------------------------------------------------------------------
+| Threads
+|--------------------------------------------------------------------------
+*/
+
+/**
+ * Fetches the current user's threads, most recently active first.
+ */
+export async function getThreads(): Promise<AssistantThread[]> {
+  const supabase = await createSupabaseServerClient()
+  const userId = await getUserId(supabase)
+  if (!userId) return []
+
+  const { data, error } = await supabase
+    .from('ai_threads')
+    .select('*')
+    .eq('user_id', userId)
+    .order('updated_at', { ascending: false })
+
+  if (error) {
+    console.error('Error fetching AI threads:', error.message)
+    return []
+  }
+
+  return (data || []).map(mapThreadRow)
+}
+
+/**
+ * Fetches a thread's messages in conversation order.
+ */
+export async function getThreadMessages(threadId: string): Promise<AssistantStoredMessage[]> {
+  const supabase = await createSupabaseServerClient()
+  const userId = await getUserId(supabase)
+  if (!userId) return []
+
+  const { data, error } = await supabase
+    .from('ai_messages')
+    .select('*')
+    .eq('thread_id', threadId)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    console.error('Error fetching AI messages:', error.message)
+    return []
+  }
+
+  return (data || []).map(mapMessageRow)
+}
+
+/**
+ * Fetches the most recent thread pinned to a record, or null if there is none.
+ */
+export async function getPinnedThread(
+  entity: AssistantPinEntity,
+  recordId: string,
+): Promise<AssistantThread | null> {
+  const supabase = await createSupabaseServerClient()
+  const userId = await getUserId(supabase)
+  if (!userId) return null
+
+  const { data, error } = await supabase
+    .from('ai_threads')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('pinned_entity', entity)
+    .eq('pinned_id', recordId)
+    .order('updated_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching pinned AI thread:', error.message)
+    return null
+  }
+
+  return data ? mapThreadRow(data) : null
+}
+
+/**
+ * Creates a thread, optionally pinned to a record.
+ */
+export async function createThread(input: {
+  title: string
+  pin?: AssistantThreadPin | null
+}): Promise<{ success: boolean; error?: string; data?: AssistantThread }> {
+  const pin = input.pin ? pinSchema.safeParse(input.pin) : null
+  if (pin && !pin.success) return { success: false, error: 'Invalid pin.' }
+
+  const supabase = await createSupabaseServerClient()
+  const userId = await getUserId(supabase)
+  if (!userId) return { success: false, error: 'User not authenticated.' }
+
+  const { data, error } = await supabase
+    .from('ai_threads')
+    .insert({
+      user_id: userId,
+      title: input.title.trim().slice(0, 120) || 'New conversation',
+      ...pinColumns(pin?.data ?? null),
+    })
+    .select('*')
+    .single()
+
+  if (error) {
+    console.error('Error creating AI thread:', error.message)
+    return { success: false, error: error.message }
+  }
+
+  return { success: true, data: mapThreadRow(data) }
+}
+
+/**
+ * Inserts or updates messages of a thread (keyed by message id) and bumps the
+ * thread's updated_at so it sorts first.
+ */
+export async function saveThreadMessages(
+  threadId: string,
+  messages: AssistantStoredMessage[],
+): Promise<{ success: boolean; error?: string }> {
+  const parsed = z.array(storedMessageSchema).safeParse(messages)
+  if (!parsed.success) return { success: false, error: 'Invalid messages.' }
+
+  const supabase = await createSupabaseServerClient()
+  const userId = await getUserId(supabase)
+  if (!userId) return { success: false, error: 'User not authenticated.' }
+
+  // Messages may only be written into the user's own threads
+  const { data: thread, error: threadError } = await supabase
+    .from('ai_threads')
+    .select('id')
+    .eq('id', threadId)
+    .eq('user_id', userId)
+    .maybeSingle()
+  if (threadError) {
+    console.error('Error fetching AI thread:', threadError.message)
+    return { success: false, error: threadError.message }
+  }
+  if (!thread) return { success: false, error: 'Thread not found.' }
+
+  const rows = parsed.data.map((m) => ({
+    id: m.id,
+    thread_id: threadId,
+    user_id: userId,
+    role: m.role,
+    content: m.content,
+    files: m.files ?? null,
+    tools: m.tools ?? null,
+    proposals: m.proposals ?? null,
+    is_error: m.isError ?? false,
+  }))
+
+  const { error } = await supabase.from('ai_messages').upsert(rows, { onConflict: 'id' })
+  if (error) {
+    console.error('Error saving AI messages:', error.message)
+    return { success: false, error: error.message }
+  }
+
+  const { error: touchError } = await supabase
+    .from('ai_threads')
+    .update({ updated_at: new Date().toISOString() })
+    .eq('id', threadId)
+    .eq('user_id', userId)
+  if (touchError) console.error('Error touching AI thread:', touchError.message)
+
+  return { success: true }
+}
+
+/**
+ * Pins a thread to a record, or unpins it when `pin` is null.
+ */
+export async function pinThread(
+  threadId: string,
+  pin: AssistantThreadPin | null,
+): Promise<{ success: boolean; error?: string; data?: AssistantThread }> {
+  const parsed = pin ? pinSchema.safeParse(pin) : null
+  if (parsed && !parsed.success) return { success: false, error: 'Invalid pin.' }
+
+  const supabase = await createSupabaseServerClient()
+  const userId = await getUserId(supabase)
+  if (!userId) return { success: false, error: 'User not authenticated.' }
+
+  const { data, error } = await supabase
+    .from('ai_threads')
+    .update(pinColumns(parsed?.data ?? null))
+    .eq('id', threadId)
+    .eq('user_id', userId)
+    .select('*')
+    .single()
+
+  if (error) {
+    console.error('Error pinning AI thread:', error.message)
+    return { success: false, error: error.message }
+  }
+
+  return { success: true, data: mapThreadRow(data) }
+}
+
+/**
+ * Deletes a thread and its messages.
+ */
+export async function deleteThread(threadId: string): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createSupabaseServerClient()
+  const userId = await getUserId(supabase)
+  if (!userId) return { success: false, error: 'User not authenticated.' }
+
+  const { error: msgError } = await supabase
+    .from('ai_messages')
+    .delete()
+    .eq('thread_id', threadId)
+    .eq('user_id', userId)
+  if (msgError) {
+    console.error('Error deleting AI messages:', msgError.message)
+    return { success: false, error: msgError.message }
+  }
+
+  const { error } = await supabase.from('ai_threads').delete().eq('id', threadId).eq('user_id', userId)
+  if (error) {
+    console.error('Error deleting AI thread:', error.message)
+    return { success: false, error: error.message }
+  }
+
+  return { success: true }
+}
+
+/**
+ * Records a thread can be pinned to, as { id, label } options for a picker.
+ */
+export async function getPinTargets(entity: AssistantPinEntity): Promise<{ id: string; label: string }[]> {
+  switch (entity) {
+    case 'lead':
+      return (await getLeads({})).map((l) => ({ id: l.id, label: l.contact?.fullName || 'Unnamed lead' }))
+    case 'project':
+      return (await getProjects()).map((p) => ({ id: p.id, label: `${p.name} (${p.clientName})` }))
+    case 'immigration_case': {
+      const res = await getCases()
+      if ('error' in res) return []
+      return (res.data ?? []).map((c) => ({ id: c.id, label: `${c.clientName} · ${c.service}` }))
+    }
+    case 'student':
+      return (await getStudentsList()).map((s) => ({ id: s.id, label: s.contact?.fullName || 'Unnamed student' }))
+  }
+}
@@ -2,9 +2,15 @@
 'use client'
 
 import React from 'react'
-import { Sparkles } from 'lucide-react'
+import AssistantChat from '@/components/ai/AssistantChat'
+import ProposalDiffPanel from '@/components/ai/ProposalDiffPanel'
+import ThreadBar from '@/components/ai/ThreadBar'
+import { useAssistantChat } from '@/components/ai/useAssistantChat'
 
 export default function AIAssistantPage() {
+  const chat = useAssistantChat({ resumeLatest: true })
+  const { activeProposal, pendingProposals, reviewProposal, closeReview, resolveProposal } = chat
+
   return (
     <div className="flex h-full flex-col gap-5">
       {/* 1. Header */}
@@ -17,21 +23,25 @@ export default function AIAssistantPage() {
         </p>
       </div>
 
-      {/* 2. Informational Panel - MODIFIED: Removed border */}
-      <div className="flex-1 rounded-[var(--radius-lg)] bg-[var(--surface-elev-1)] p-6 shadow-[var(--shadow-1)]">
-        <div className="mx-auto flex h-full max-w-lg flex-col items-center justify-center text-center">
-          <div className="flex h-16 w-16 items-center justify-center rounded-full bg-[var(--primary-050)] text-[var(--primary)]">
-            <Sparkles size={32} />
-          </div>
-          <h3 className="mt-4 font-sans text-xl font-semibold text-[var(--text-primary)]">
-            AI Assistant is Active
-          </h3>
-          <p className="mt-2 text-base text-[var(--text-secondary)]">
-            Click the sparkle icon in the bottom-right corner to open the
-            assistant panel from anywhere in the application.
-          </p>
+      {/* 2. Chat Panel */}
+      <div className="flex h-[calc(100vh-14rem)] min-h-[480px] overflow-hidden rounded-[var(--radius-lg)] bg-[var(--surface-elev-1)] shadow-[var(--shadow-1)]">
+        <div className="flex min-w-0 flex-1 flex-col">
+          <ThreadBar chat={chat} />
+          <AssistantChat chat={chat} onReviewProposal={reviewProposal} className="min-h-0 flex-1" />
         </div>
+
+        {/* 3. Proposal Review */}
+        {activeProposal && (
+          <div className="h-full w-full max-w-sm flex-shrink-0 border-l border-[var(--border-subtle)] bg-[var(--bg-surface)]">
+            <ProposalDiffPanel
+              proposal={activeProposal}
+              queued={pendingProposals.length - 1}
+              onResolved={(status) => resolveProposal(activeProposal.id, status)}
+              onClose={closeReview}
+            />
+          </div>
+        )}
       </div>
     </div>
   )
-}
\ No newline at end of file
+}
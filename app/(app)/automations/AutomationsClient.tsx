@@ -4,11 +4,13 @@
 import React, { useState, useMemo, useEffect, useRef, useTransition } from 'react'
 import { useRouter } from 'next/navigation'
 import { useToast } from '@/components/ToastProvider'
-import type { Automation, AutomationStatus } from './actions'
+import type { Automation, AutomationFormValues } from '@/lib/automations.types'
+import { describeTrigger } from '@/lib/AutomationEngine'
 import {
   upsertAutomation,
   deleteAutomation,
   toggleAutomationStatus,
+  runAutomationNow,
 } from './actions'
 import {
   Users,
@@ -32,6 +34,8 @@ import clsx from 'clsx'
 // NEW: Import the extracted components
 import AutomationList from '@/components/automations/AutomationList'
 import AutomationFormModal from '@/components/automations/AutomationFormModal'
+import AutomationRunsDrawer from '@/components/automations/AutomationRunsDrawer'
+import AutomationSimulationDrawer from '@/components/automations/AutomationSimulationDrawer'
 
 /*
 |--------------------------------------------------------------------------
@@ -70,6 +74,8 @@ export default function AutomationsClient({
   const [isFormModalOpen, setIsFormModalOpen] = useState(false)
   const [editingAutomation, setEditingAutomation] = useState<Automation | null>(null)
   const [automationToDelete, setAutomationToDelete] = useState<Automation | null>(null)
+  const [logAutomation, setLogAutomation] = useState<Automation | null>(null)
+  const [simulatedAutomation, setSimulatedAutomation] = useState<Automation | null>(null)
 
   // Sync server data (for router.refresh())
   useEffect(() => setAutomations(initialAutomations), [initialAutomations])
@@ -83,7 +89,7 @@ export default function AutomationsClient({
       if (query) {
         const nameMatch = auto.name.toLowerCase().includes(query)
         const descMatch = auto.description.toLowerCase().includes(query)
-        const triggerMatch = auto.trigger.toLowerCase().includes(query)
+        const triggerMatch = describeTrigger(auto.trigger).toLowerCase().includes(query)
         if (!nameMatch && !descMatch && !triggerMatch) {
           return false
         }
@@ -117,7 +123,7 @@ export default function AutomationsClient({
   }
 
   // Handle Save (Add & Edit)
-  const handleSaveAutomation = (formData: any) => {
+  const handleSaveAutomation = (formData: AutomationFormValues) => {
       startTransition(async () => {
       const isEditing = !!formData.id
       const actionType = isEditing ? 'Updated' : 'Created'
@@ -162,21 +168,35 @@ export default function AutomationsClient({
     })
   }
   
+  // Opens the dry-run preview (no writes)
+  const handleSimulate = (auto: Automation) => {
+    setSimulatedAutomation(auto)
+  }
+
+  // Opens the run history drill-down
   const handleViewLog = (auto: Automation) => {
-      if (auto.lastRunStatus === 'error') {
+    setLogAutomation(auto)
+  }
+
+  const handleRunNow = (auto: Automation) => {
+    startTransition(async () => {
+      const result = await runAutomationNow(auto.id)
+      if (result.success && result.data?.status === 'success') {
         notify({
-          title: `Error Log: ${auto.name}`,
-          description: auto.lastRunError || 'An unknown error occurred. (Mock error)',
-          variant: 'danger',
-          duration: 10000,
+          title: 'Automation Ran',
+          description: `"${auto.name}" completed ${result.data.outcomes.length} action(s).`,
+          variant: 'success',
         })
       } else {
         notify({
-          title: `Log: ${auto.name}`,
-          description: 'Automation ran successfully. (Mock log)',
-          variant: 'info',
+          title: 'Run Failed',
+          description: result.data?.error || result.error || 'Could not run the automation.',
+          variant: 'danger',
+          duration: 10000,
         })
       }
+      router.refresh()
+    })
   }
 
   const handleConfirmDelete = () => {
@@ -261,6 +281,8 @@ export default function AutomationsClient({
             automations={filteredAutomations}
             onToggle={handleToggle}
             onViewLog={handleViewLog}
+            onRunNow={handleRunNow}
+            onSimulate={handleSimulate}
             onEdit={handleOpenEditModal}
             onDelete={handleOpenDeleteConfirm}
             isPending={isPending}
@@ -277,6 +299,23 @@ export default function AutomationsClient({
         isSaving={isPending}
       />
 
+      <AutomationRunsDrawer
+        isOpen={!!logAutomation}
+        onClose={() => setLogAutomation(null)}
+        automation={logAutomation}
+        onRerunComplete={() => router.refresh()}
+      />
+
+      <AutomationSimulationDrawer
+        isOpen={!!simulatedAutomation}
+        onClose={() => setSimulatedAutomation(null)}
+        automation={simulatedAutomation}
+        onActivate={(auto) => {
+          setSimulatedAutomation(null)
+          handleToggle(auto.id, true)
+        }}
+      />
+
       <ConfirmDialog
         isOpen={!!automationToDelete}
         onClose={() => setAutomationToDelete(null)}
@@ -2,71 +2,158 @@
 'use server'
 
 import { revalidatePath } from 'next/cache'
+import { z } from 'zod'
+import { createSupabaseServerClient } from '@/lib/supabase/server'
+import {
+  AUTOMATION_ENTITIES,
+  CONDITION_OPERATORS,
+  type Automation,
+  type AutomationFormValues,
+  type AutomationRun,
+  type AutomationRunResult,
+  type AutomationSimulation,
+  type AutomationTrigger,
+  type ConditionGroup,
+} from '@/lib/automations.types'
+import { getFieldSpec } from '@/lib/automations.fields'
+import {
+  ENTITY_LABELS,
+  dryRunAutomation,
+  executeAutomation,
+  failedRunSteps,
+  fetchAutomationRecord,
+  flattenConditions,
+  isValidCron,
+  loadEntityRecords,
+  mapAutomationRow,
+  mapAutomationRunRow,
+  recordSatisfiesTrigger,
+  type EntityRecord,
+} from '@/lib/AutomationEngine'
 
 /*
 |--------------------------------------------------------------------------
-| Types (Mirrored from Client)
+| Validation
 |--------------------------------------------------------------------------
 */
-export type AutomationStatus = 'success' | 'error' | 'never'
-
-export interface Automation {
-  id: string
-  name: string
-  description: string
-  trigger: string
-  isActive: boolean
-  lastRun: string | null
-  lastRunStatus: AutomationStatus
-}
+const conditionValueSchema = z.union([z.string(), z.number(), z.boolean(), z.null()])
 
-/*
-|--------------------------------------------------------------------------
-| Mock Data
-|--------------------------------------------------------------------------
-*/
+const conditionSchema = z.object({
+  field: z.string().min(1, 'Condition field is required'),
+  operand: z
+    .object({ op: z.enum(['+', '-']), field: z.string().min(1, 'Condition field is required') })
+    .optional(),
+  operator: z.enum(CONDITION_OPERATORS),
+  value: conditionValueSchema.optional(),
+})
+
+const conditionGroupSchema: z.ZodType<ConditionGroup> = z.lazy(() =>
+  z.object({
+    combinator: z.enum(['and', 'or']),
+    rules: z.array(z.union([conditionSchema, conditionGroupSchema])),
+  }),
+)
+
+// Legacy rows store a flat list (implicit AND)
+const conditionsSchema = z.union([conditionGroupSchema, z.array(conditionSchema)]).optional()
+
+const entitySchema = z.enum(AUTOMATION_ENTITIES)
+
+const triggerSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('record_created'),
+    entity: entitySchema,
+    conditions: conditionsSchema,
+  }),
+  z.object({
+    type: z.literal('field_changed'),
+    entity: entitySchema,
+    field: z.string().min(1, 'Field is required'),
+    to: conditionValueSchema.optional(),
+    conditions: conditionsSchema,
+  }),
+  z.object({
+    type: z.literal('scheduled'),
+    cron: z.string().refine(isValidCron, 'Invalid cron expression'),
+    timezone: z.string().min(1),
+    entity: entitySchema.optional(),
+    conditions: conditionsSchema,
+  }),
+  z.object({
+    type: z.literal('threshold_crossed'),
+    entity: entitySchema,
+    field: z.string().min(1, 'Field is required'),
+    operator: z.enum(['gt', 'gte', 'lt', 'lte']),
+    value: z.number(),
+    conditions: conditionsSchema,
+  }),
+])
+
+const actionSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('create_agenda_task'),
+    title: z.string().min(1, 'Task title is required'),
+    dueInDays: z.number().int().min(0),
+    category: z.enum(['Work', 'Personal', 'Health', 'Errand', 'Other']),
+  }),
+  z.object({
+    type: z.literal('create_budget_entry'),
+    entryType: z.enum(['income', 'expense']),
+    category: z.string().trim().min(1, 'Category is required'),
+    description: z.string().min(1, 'Entry description is required'),
+    amount: z.number().positive('Amount must be positive'),
+    dueInDays: z.number().int().min(0),
+  }),
+  z.object({
+    type: z.literal('add_crm_note'),
+    note: z.string().min(1, 'Note text is required'),
+  }),
+  z.object({
+    type: z.literal('send_message'),
+    channel: z.enum(['whatsapp', 'email']),
+    to: z.string().min(1, 'Recipient is required'),
+    subject: z.string().optional(),
+    body: z.string().min(1, 'Message body is required'),
+  }),
+])
+
+const automationSchema = z.object({
+  id: z.string().optional(),
+  name: z.string().trim().min(1, 'Name is required'),
+  description: z.string().trim(),
+  trigger: triggerSchema,
+  actions: z.array(actionSchema).min(1, 'Add at least one action'),
+  isActive: z.boolean(),
+})
 
-let mockAutomations: Automation[] = [
-  {
-    id: 'auto-1',
-    name: 'Send Welcome Email to New Leads',
-    description: 'When a new lead is created, send the "Welcome" email template.',
-    trigger: 'On "Lead" stage entry',
-    isActive: true,
-    lastRun: new Date('2025-11-05T14:30:00Z').toISOString(),
-    lastRunStatus: 'success',
-  },
-  {
-    id: 'auto-2',
-    name: 'Follow-up on Stale Discovery Leads',
-    description:
-      'If a lead is in "Discovery" for 7+ days, send a follow-up email.',
-    trigger: 'Daily at 9:00 AM',
-    isActive: true,
-    lastRun: new Date('2025-11-06T09:00:05Z').toISOString(),
-    lastRunStatus: 'error',
-  },
-  {
-    id: 'auto-3',
-    name: 'Notify on Project "Blocked"',
-    description:
-      'When a project status is changed to "Blocked", send a high-priority notification.',
-    trigger: 'On "Project" status change',
-    isActive: true,
-    lastRun: new Date('2025-11-01T10:15:00Z').toISOString(),
-    lastRunStatus: 'success',
-  },
-  {
-    id: 'auto-4',
-    name: 'Send Class Renewal Reminders',
-    description:
-      'When a student has 2 sessions left in their package, send a renewal email.',
-    trigger: 'On "Class Session" completion',
-    isActive: false,
-    lastRun: null,
-    lastRunStatus: 'never',
-  },
-]
+/**
+ * Checks every field the trigger references against the entity's field catalog,
+ * so conditions can only target fields that exist on the record type.
+ */
+function validateTriggerFields(trigger: AutomationTrigger): string | null {
+  const conditions = flattenConditions(trigger.conditions)
+  if (!trigger.entity) {
+    return conditions.length > 0 ? 'Pick an entity to filter records with conditions.' : null
+  }
+
+  const entity = trigger.entity
+  const label = ENTITY_LABELS[entity]
+  for (const c of conditions) {
+    const spec = getFieldSpec(entity, c.field)
+    if (!spec) return `Unknown field "${c.field}" for ${label}.`
+    if (c.operand && (spec.kind !== 'number' || getFieldSpec(entity, c.operand.field)?.kind !== 'number')) {
+      return `Arithmetic is only allowed between number fields (${c.field} ${c.operand.op} ${c.operand.field}).`
+    }
+  }
+
+  if (trigger.type === 'field_changed' && !getFieldSpec(entity, trigger.field)) {
+    return `Unknown field "${trigger.field}" for ${label}.`
+  }
+  if (trigger.type === 'threshold_crossed' && getFieldSpec(entity, trigger.field)?.kind !== 'number') {
+    return `Threshold field must be a number field of ${label}.`
+  }
+  return null
+}
 
 /*
 |--------------------------------------------------------------------------
@@ -74,83 +161,269 @@ let mockAutomations: Automation[] = [
 |--------------------------------------------------------------------------
 */
 
+async function getUserId(supabase: Awaited<ReturnType<typeof createSupabaseServerClient>>) {
+  const {
+    data: { user },
+    error,
+  } = await supabase.auth.getUser()
+  if (error || !user) return null
+  return user.id
+}
+
 /**
- * MOCK: Fetches all automations.
+ * Fetches all automations for the current user, newest first.
  */
 export async function getAutomations(): Promise<Automation[]> {
-  console.log('MOCK: Fetching all automations...')
-  await new Promise((resolve) => setTimeout(resolve, 300))
-  return mockAutomations
+  const supabase = await createSupabaseServerClient()
+  const userId = await getUserId(supabase)
+  if (!userId) return []
+
+  const { data, error } = await supabase
+    .from('automations')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    console.error('Error fetching automations:', error.message)
+    return []
+  }
+
+  return (data || []).map(mapAutomationRow)
 }
 
 /**
- * MOCK: Toggles an automation's active status.
+ * Toggles an automation's active status.
  */
 export async function toggleAutomationStatus(
   id: string,
   isActive: boolean,
 ): Promise<{ success: boolean; error?: string }> {
-  console.log(`MOCK: Toggling automation ${id} to ${isActive}`)
-  await new Promise((resolve) => setTimeout(resolve, 400))
+  const supabase = await createSupabaseServerClient()
+  const userId = await getUserId(supabase)
+  if (!userId) return { success: false, error: 'User not authenticated.' }
 
-  const index = mockAutomations.findIndex((a) => a.id === id)
-  if (index !== -1) {
-    mockAutomations[index].isActive = isActive
-    revalidatePath('/automations')
-    return { success: true }
+  const { error } = await supabase
+    .from('automations')
+    .update({ is_active: isActive })
+    .eq('id', id)
+    .eq('user_id', userId)
+
+  if (error) {
+    console.error('Error toggling automation:', error.message)
+    return { success: false, error: error.message }
+  }
+
+  revalidatePath('/automations')
+  return { success: true }
+}
+
+/**
+ * Dry run: returns the records the automation would match right now and the actions
+ * it would take for each. Nothing is written and the run is not logged.
+ */
+export async function simulateAutomation(
+  id: string,
+): Promise<{ success: boolean; error?: string; data?: AutomationSimulation }> {
+  const supabase = await createSupabaseServerClient()
+  const userId = await getUserId(supabase)
+  if (!userId) return { success: false, error: 'User not authenticated.' }
+
+  const { data, error } = await supabase.from('automations').select('*').eq('id', id).eq('user_id', userId).single()
+  if (error || !data) {
+    return { success: false, error: error?.message || 'Automation not found.' }
+  }
+
+  try {
+    const simulation = await dryRunAutomation(
+      supabase,
+      userId,
+      mapAutomationRow(data),
+      (data.threshold_state ?? []) as string[],
+    )
+    return { success: true, data: simulation }
+  } catch (e: any) {
+    console.error('Error simulating automation:', e?.message)
+    return { success: false, error: e?.message || 'Could not simulate automation.' }
   }
-  return { success: false, error: 'Automation not found.' }
 }
 
 /**
- * MOCK: Adds or updates an automation (Not used by client yet).
+ * Adds or updates an automation. Trigger and actions are validated before saving.
  */
 export async function upsertAutomation(
-  formData: any,
+  formData: AutomationFormValues,
 ): Promise<{ success: boolean; error?: string; data?: Automation }> {
-  console.log('MOCK: Upserting automation...', formData)
-  await new Promise((resolve) => setTimeout(resolve, 500))
+  const parsed = automationSchema.safeParse(formData)
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.issues[0]?.message || 'Invalid automation.' }
+  }
 
-  const isEditing = !!formData.id
+  const fieldError = validateTriggerFields(parsed.data.trigger)
+  if (fieldError) return { success: false, error: fieldError }
 
-  if (isEditing) {
-    // Update logic
-    const updatedAutomation = { ...formData } as Automation
-    mockAutomations = mockAutomations.map((a) =>
-      a.id === formData.id ? updatedAutomation : a,
-    )
-    revalidatePath('/automations')
-    return { success: true, data: updatedAutomation }
-  } else {
-    // Create logic
-    const newAutomation: Automation = {
-      ...formData,
-      id: `auto-${Math.random().toString(36).slice(2, 9)}`,
-      isActive: formData.isActive || false,
-      lastRun: null,
-      lastRunStatus: 'never',
-    }
-    mockAutomations.unshift(newAutomation)
-    revalidatePath('/automations')
-    return { success: true, data: newAutomation }
+  const supabase = await createSupabaseServerClient()
+  const userId = await getUserId(supabase)
+  if (!userId) return { success: false, error: 'User not authenticated.' }
+
+  const input = parsed.data
+  const payload = {
+    name: input.name,
+    description: input.description,
+    trigger: input.trigger,
+    actions: input.actions,
+    is_active: input.isActive,
+  }
+
+  const query = input.id
+    ? supabase.from('automations').update(payload).eq('id', input.id).eq('user_id', userId)
+    : supabase.from('automations').insert({ user_id: userId, ...payload })
+
+  const { data, error } = await query.select().single()
+
+  if (error) {
+    console.error('Error saving automation:', error.message)
+    return { success: false, error: error.message }
   }
+
+  revalidatePath('/automations')
+  return { success: true, data: mapAutomationRow(data) }
 }
 
 /**
- * MOCK: Deletes an automation.
+ * Deletes an automation.
  */
 export async function deleteAutomation(
   id: string,
 ): Promise<{ success: boolean; error?: string }> {
-  console.log('MOCK: Deleting automation...', id)
-  await new Promise((resolve) => setTimeout(resolve, 500))
+  const supabase = await createSupabaseServerClient()
+  const userId = await getUserId(supabase)
+  if (!userId) return { success: false, error: 'User not authenticated.' }
+
+  const { error } = await supabase.from('automations').delete().eq('id', id).eq('user_id', userId)
+
+  if (error) {
+    console.error('Error deleting automation:', error.message)
+    return { success: false, error: error.message }
+  }
+
+  revalidatePath('/automations')
+  return { success: true }
+}
+
+/**
+ * Runs an automation immediately, regardless of its trigger timing.
+ * Entity-bound triggers run against every record that currently satisfies the trigger.
+ */
+export async function runAutomationNow(
+  id: string,
+): Promise<{ success: boolean; error?: string; data?: AutomationRunResult }> {
+  const supabase = await createSupabaseServerClient()
+  const userId = await getUserId(supabase)
+  if (!userId) return { success: false, error: 'User not authenticated.' }
 
-  const index = mockAutomations.findIndex((a) => a.id === id)
-  if (index !== -1) {
-    mockAutomations.splice(index, 1)
+  const { data, error } = await supabase.from('automations').select('*').eq('id', id).eq('user_id', userId).single()
+  if (error || !data) {
+    return { success: false, error: error?.message || 'Automation not found.' }
+  }
+
+  const automation = mapAutomationRow(data)
+  const trigger = automation.trigger
+
+  try {
+    const records =
+      'entity' in trigger && trigger.entity
+        ? (await loadEntityRecords(supabase, trigger.entity, userId)).filter((r) =>
+            recordSatisfiesTrigger(trigger, r),
+          )
+        : null
+
+    const result = await executeAutomation(supabase, userId, automation, records, { source: 'manual' })
     revalidatePath('/automations')
-    return { success: true }
-  } else {
-    return { success: false, error: 'Automation not found.' }
+    return { success: true, data: result }
+  } catch (e: any) {
+    console.error('Error running automation:', e?.message)
+    return { success: false, error: e?.message || 'Could not run automation.' }
+  }
+}
+
+/**
+ * Fetches the most recent runs of an automation (newest first) for the history drill-down.
+ */
+export async function getAutomationRuns(
+  automationId: string,
+  limit = 50,
+): Promise<AutomationRun[]> {
+  const supabase = await createSupabaseServerClient()
+  const userId = await getUserId(supabase)
+  if (!userId) return []
+
+  const { data, error } = await supabase
+    .from('automation_runs')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('automation_id', automationId)
+    .order('started_at', { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    console.error('Error fetching automation runs:', error.message)
+    return []
+  }
+
+  return (data || []).map(mapAutomationRunRow)
+}
+
+/**
+ * Re-executes the failed steps of a logged run against the current state of the records
+ * that triggered it; steps that succeeded are not repeated. Only failed runs can be re-run.
+ * The new run is logged with source 'rerun' and points back at the original.
+ */
+export async function rerunAutomationRun(
+  runId: string,
+): Promise<{ success: boolean; error?: string; data?: AutomationRunResult }> {
+  const supabase = await createSupabaseServerClient()
+  const userId = await getUserId(supabase)
+  if (!userId) return { success: false, error: 'User not authenticated.' }
+
+  const { data: runRow, error: runErr } = await supabase
+    .from('automation_runs')
+    .select('*, automation:automations(*)')
+    .eq('id', runId)
+    .eq('user_id', userId)
+    .single()
+  if (runErr || !runRow?.automation) {
+    return { success: false, error: runErr?.message || 'Run not found.' }
+  }
+
+  const run = mapAutomationRunRow(runRow)
+  const automation = mapAutomationRow(runRow.automation)
+  if (run.status !== 'error') {
+    return { success: false, error: 'Only failed runs can be re-run.' }
   }
-}
\ No newline at end of file
+
+  const steps = failedRunSteps(run, automation)
+  if (steps.length === 0) {
+    return { success: false, error: 'The failed actions of this run no longer match the automation.' }
+  }
+
+  let records: EntityRecord[] | null = null
+  const recordIds = [...new Set(steps.map((s) => s.recordId).filter((id): id is string => id !== null))]
+  if (run.entity && recordIds.length > 0) {
+    const fetched = await Promise.all(
+      recordIds.map((id) => fetchAutomationRecord(supabase, run.entity!, id)),
+    )
+    records = fetched.filter((r): r is EntityRecord => r !== null)
+    if (records.length === 0) {
+      return { success: false, error: 'The records from this run no longer exist.' }
+    }
+  }
+
+  const result = await executeAutomation(supabase, userId, automation, records, {
+    source: 'rerun',
+    rerunOf: run.id,
+    steps,
+  })
+  revalidatePath('/automations')
+  return { success: true, data: result }
+}
@@ -2,7 +2,7 @@
 import * as React from 'react'
 import { getAutomations } from './actions'
 import AutomationsClient from './AutomationsClient'
-import type { Automation } from './actions'
+import type { Automation } from '@/lib/automations.types'
 
 export default async function AutomationsServerPage() {
   // Fetch data on the server
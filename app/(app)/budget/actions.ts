@@ -4,15 +4,56 @@ import { revalidatePath } from 'next/cache';
 import { createSupabaseServerClient } from '@/lib/supabase/server';
 import {
   addDays,
+  addMonths,
   endOfMonth,
   format,
-  getDate,
+  isAfter,
   parseISO,
-  setDate,
   startOfMonth,
 } from 'date-fns';
-import type { OneTimeEntry, Rule, Override, Category, EntryType, Frequency, Snapshot, UnifiedRow } from '@/lib/types';
-import { computeSnapshot } from '@/lib/BudgetLogic';
+import type {
+  OneTimeEntry,
+  Rule,
+  Override,
+  Category,
+  EntryType,
+  Frequency,
+  IntervalUnit,
+  MonthDayMode,
+  WeekendShift,
+  Snapshot,
+  UnifiedRow,
+  Forecast,
+  AccountType,
+  BudgetAccount,
+  AccountLedger,
+  BankTransaction,
+  BankImportResult,
+  ImportItem,
+  BudgetCategory,
+  YearReport,
+  SavingsGoal,
+  GoalProgress,
+  BudgetLoan,
+  DebtOverview,
+} from '@/lib/types';
+import { ACCOUNT_TYPES, DEFAULT_BUDGET_CATEGORIES } from '@/lib/types';
+import {
+  computeSnapshot,
+  computeForecast,
+  computeAccountLedger,
+  computeYearReport,
+  computeGoalProgress,
+  computeLoanStatus,
+  FORECAST_MAX_MONTHS,
+  FORECAST_MIN_MONTHS,
+  nextRuleDateAfter,
+  planGoalContributions,
+  planRuleSplit,
+  unifyRows,
+} from '@/lib/BudgetLogic';
+import { MATCH_DAY_WINDOW, matchTransactions } from '@/lib/BankImport';
+import { dispatchAutomationEvent, fetchAutomationRecord } from '@/lib/AutomationEngine';
 
 // Helper functions remain the same
 function toDate(dateStr: string) {
@@ -21,11 +62,6 @@ function toDate(dateStr: string) {
 function fmt(d: Date) {
   return format(d, 'yyyy-MM-dd');
 }
-function clampMonthly(base: Date, dom: number) {
-  const last = getDate(endOfMonth(base));
-  const day = Math.min(dom, last);
-  return fmt(setDate(base, day));
-}
 
 /* =========================
    READS
@@ -114,6 +150,145 @@ export async function getBudgetWeek(params: { startISO: string; endISO: string }
   return inWindowAndUnpaid;
 }
 
+/**
+ * Cash-flow forecast starting at `start_month` for 3–12 months.
+ * Fetches the whole span once and lets computeForecast split it per month.
+ */
+export async function getBudgetForecast(params: {
+  start_month: string;
+  months: number;
+  opening_balance: number;
+}): Promise<Forecast> {
+  const months = Math.max(FORECAST_MIN_MONTHS, Math.min(FORECAST_MAX_MONTHS, Math.trunc(params.months) || 0));
+  const first = startOfMonth(toDate(params.start_month));
+  const month_start = fmt(first);
+  const month_end = fmt(endOfMonth(addMonths(first, months - 1)));
+
+  const raw = await getRawBudgetData({ month_start, month_end });
+
+  return computeForecast({
+    ...raw,
+    start_month: month_start,
+    months,
+    opening_balance: Number.isFinite(params.opening_balance) ? params.opening_balance : 0,
+  });
+}
+
+/** Year-in-review report for a calendar year (see computeYearReport) */
+export async function getBudgetYearReport(params: { year: number; today_local: string }): Promise<YearReport> {
+  const year = Math.trunc(params.year);
+  if (!Number.isFinite(year) || year < 2000 || year > 2100) throw new Error('Invalid year');
+
+  const [raw, categories] = await Promise.all([
+    getRawBudgetData({ month_start: `${year}-01-01`, month_end: `${year}-12-31` }),
+    getBudgetCategories(),
+  ]);
+
+  return computeYearReport({ ...raw, year, today_local: params.today_local, categories });
+}
+
+/**
+ * The user's budget categories. Seeds the default set the first time so
+ * existing entries (which use those keys) keep resolving to a category.
+ */
+export async function getBudgetCategories(): Promise<BudgetCategory[]> {
+  const supabase = await createSupabaseServerClient();
+  const { data: { user }, error: authErr } = await supabase.auth.getUser();
+  if (authErr || !user) throw new Error('User not found or not authenticated');
+
+  const { data, error } = await supabase
+    .from('budget_categories')
+    .select('*')
+    .eq('user_id', user.id)
+    .order('type', { ascending: true })
+    .order('name', { ascending: true });
+  if (error) throw error;
+  if (data && data.length > 0) return data as BudgetCategory[];
+
+  const { data: seeded, error: seedErr } = await supabase
+    .from('budget_categories')
+    .upsert(
+      DEFAULT_BUDGET_CATEGORIES.map((c) => ({ user_id: user.id, ...c, monthly_limit: null })),
+      { onConflict: 'user_id,key', ignoreDuplicates: true }
+    )
+    .select('*');
+  if (seedErr) throw seedErr;
+
+  return ((seeded ?? []) as BudgetCategory[]).sort(
+    (a, b) => a.type.localeCompare(b.type) || a.name.localeCompare(b.name)
+  );
+}
+
+export async function getBudgetAccounts(): Promise<BudgetAccount[]> {
+  const supabase = await createSupabaseServerClient();
+  const { data: { user }, error: authErr } = await supabase.auth.getUser();
+  if (authErr || !user) throw new Error('User not found or not authenticated');
+
+  const { data, error } = await supabase
+    .from('budget_accounts')
+    .select('*')
+    .eq('user_id', user.id)
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+
+  return (data ?? []) as BudgetAccount[];
+}
+
+/**
+ * Reconciled balance per account as of `as_of`, with the month's postings.
+ * Pulls every paid entry/override since the earliest opening date; rules are
+ * fetched regardless of `active` so paid occurrences of retired rules still count.
+ */
+export async function getAccountLedger(params: {
+  as_of: string;
+  month_start: string;
+  month_end: string;
+}): Promise<AccountLedger> {
+  const supabase = await createSupabaseServerClient();
+  const { as_of, month_start, month_end } = params;
+
+  const { data: { user }, error: authErr } = await supabase.auth.getUser();
+  if (authErr || !user) throw new Error('User not found or not authenticated');
+
+  const accounts = await getBudgetAccounts();
+  const since = accounts.reduce((min, a) => (a.opening_date < min ? a.opening_date : min), month_start);
+
+  const entriesPromise = supabase
+    .from('budget_entries')
+    .select('*')
+    .eq('user_id', user.id)
+    .not('paid_on', 'is', null)
+    .gte('paid_on', since)
+    .lte('paid_on', as_of);
+
+  const overridesPromise = supabase
+    .from('budget_rule_overrides')
+    .select('*')
+    .eq('user_id', user.id)
+    .eq('override_type', 'paid')
+    .gte('paid_on', since)
+    .lte('paid_on', as_of);
+
+  const rulesPromise = supabase.from('budget_rules').select('*').eq('user_id', user.id);
+
+  const [{ data: entriesData, error: e1 }, { data: overridesData, error: e2 }, { data: rulesData, error: e3 }] =
+    await Promise.all([entriesPromise, overridesPromise, rulesPromise]);
+
+  if (e1) throw e1;
+  if (e2) throw e2;
+  if (e3) throw e3;
+
+  return computeAccountLedger({
+    accounts,
+    entries: (entriesData ?? []) as OneTimeEntry[],
+    overrides: (overridesData ?? []) as Override[],
+    rules: (rulesData ?? []) as Rule[],
+    as_of,
+    month_start,
+    month_end,
+  });
+}
+
 /* =========================
    WRITES
    ========================= */
@@ -161,11 +336,11 @@ export async function deleteEntry(params: { id: string }) {
   revalidatePath('/');
 }
 
-export async function markEntryPaid(params: { id: string; paid_on: string }) {
+export async function markEntryPaid(params: { id: string; paid_on: string; account_id?: string | null }) {
   const supabase = await createSupabaseServerClient();
   const { error } = await supabase
     .from('budget_entries')
-    .update({ paid_on: params.paid_on })
+    .update({ paid_on: params.paid_on, account_id: params.account_id ?? null })
     .eq('id', params.id);
   if (error) throw error;
   revalidatePath('/budget');
@@ -184,51 +359,246 @@ export async function postponeEntry(params: { id: string; new_date: string }) {
   return { ok: true };
 }
 
-export async function upsertRule(input: {
+type RuleInput = {
   id?: string;
   description: string;
   amount: number;
   type: EntryType;
   category: Category;
   frequency: Frequency;
+  interval?: number | null;
+  interval_unit?: IntervalUnit | null;
+  month_day?: MonthDayMode | null;
   dom?: number | null;
   dow?: number | null;
   start_anchor: string;
+  end_date?: string | null;
+  occurrence_count?: number | null;
+  weekend_shift?: WeekendShift | null;
   active?: boolean;
-}) {
-  const supabase = await createSupabaseServerClient();
-  const { data: { user }, error: authErr } = await supabase.auth.getUser();
-  if (authErr) throw authErr;
-  if (!user) throw new Error('User not found');
+};
 
+function rulePayload(input: RuleInput) {
   const payload = {
     description: input.description,
     amount: input.amount,
     type: input.type,
     category: input.category,
     frequency: input.frequency,
+    interval: input.frequency === 'custom' ? Math.max(1, Math.trunc(input.interval ?? 1)) : null,
+    interval_unit: input.frequency === 'custom' ? input.interval_unit ?? 'month' : null,
+    month_day: input.month_day ?? null,
     dom: input.dom ?? null,
     dow: input.dow ?? null,
     start_anchor: input.start_anchor,
+    end_date: input.end_date || null,
+    occurrence_count: input.occurrence_count && input.occurrence_count > 0 ? Math.trunc(input.occurrence_count) : null,
+    weekend_shift: input.weekend_shift && input.weekend_shift !== 'none' ? input.weekend_shift : null,
     active: input.active ?? true,
   };
+  if (payload.end_date && payload.end_date < payload.start_anchor) {
+    throw new Error('End date must be on or after the start date.');
+  }
+  return payload;
+}
+
+export async function upsertRule(input: RuleInput) {
+  const supabase = await createSupabaseServerClient();
+  const { data: { user }, error: authErr } = await supabase.auth.getUser();
+  if (authErr) throw authErr;
+  if (!user) throw new Error('User not found');
+
+  const payload = rulePayload(input);
 
   if (input.id) {
+    const previous = await fetchAutomationRecord(supabase, 'budget_rule', input.id);
     const { error } = await supabase.from('budget_rules').update(payload).eq('id', input.id);
     if (error) throw error;
+    await dispatchAutomationEvent(supabase, { entity: 'budget_rule', kind: 'updated', recordId: input.id, previous });
   } else {
-    const { error } = await supabase
+    const { data, error } = await supabase
       .from('budget_rules')
-      .insert({ user_id: user.id, ...payload });
+      .insert({ user_id: user.id, ...payload })
+      .select('id')
+      .single();
     if (error) throw error;
+    await dispatchAutomationEvent(supabase, { entity: 'budget_rule', kind: 'created', recordId: data.id });
   }
 
   revalidatePath('/budget');
   revalidatePath('/');
 }
 
+/**
+ * Reverts a partial splitRule: overrides and loans go back to the old rule, the
+ * successor is deleted and the old end date restored. Failures are logged, since
+ * the caller rethrows the error that caused the undo.
+ */
+async function undoRuleSplit(
+  supabase: Awaited<ReturnType<typeof createSupabaseServerClient>>,
+  ruleId: string,
+  endDate: string | null,
+  successorId: string | null
+) {
+  const results = [];
+  if (successorId) {
+    results.push(await supabase.from('budget_rule_overrides').update({ rule_id: ruleId }).eq('rule_id', successorId));
+    results.push(await supabase.from('budget_loans').update({ rule_id: ruleId }).eq('rule_id', successorId));
+    results.push(await supabase.from('budget_rules').delete().eq('id', successorId));
+  }
+  results.push(await supabase.from('budget_rules').update({ end_date: endDate }).eq('id', ruleId));
+  for (const { error } of results) {
+    if (error) console.error('Error undoing rule split:', error.message);
+  }
+}
+
+/**
+ * "Edit this and future occurrences". Ends the rule just before `from_date` and
+ * continues it as a new rule (previous_rule_id → old rule) with the edited
+ * fields, so earlier months, paid overrides and the account ledger keep the old
+ * amount. Overrides on/after `from_date` move to the new rule. An occurrence
+ * count on the input is the series total; the new rule gets what is left of it.
+ * The writes are not one transaction, so a failure part-way undoes the earlier
+ * ones (see undoRuleSplit).
+ */
+export async function splitRule(input: RuleInput & { id: string; from_date: string }) {
+  const supabase = await createSupabaseServerClient();
+  const { data: { user }, error: authErr } = await supabase.auth.getUser();
+  if (authErr) throw authErr;
+  if (!user) throw new Error('User not found');
+
+  const { data: rule, error: rErr } = await supabase
+    .from('budget_rules')
+    .select('*')
+    .eq('id', input.id)
+    .eq('user_id', user.id)
+    .single();
+  if (rErr) throw rErr;
+
+  const plan = planRuleSplit(rule as Rule, input.from_date);
+  if (!plan) throw new Error('This rule has no occurrences on or after that date.');
+
+  // Nothing would stay on the old rule, so this is a plain edit
+  if (plan.kept === 0) return upsertRule({ ...input, start_anchor: rule.start_anchor });
+
+  let occurrence_count: number | null = null;
+  if (input.occurrence_count) {
+    occurrence_count = input.occurrence_count - plan.kept;
+    if (occurrence_count < 1) {
+      throw new Error(`All ${input.occurrence_count} occurrences fall before this date.`);
+    }
+  }
+
+  const payload = rulePayload({
+    ...input,
+    start_anchor: plan.start_anchor,
+    dom: input.dom ?? plan.dom,
+    occurrence_count,
+  });
+
+  // End the old rule first, so a failed split never leaves two live versions of it
+  const previous = await fetchAutomationRecord(supabase, 'budget_rule', input.id);
+  const { error: endErr } = await supabase
+    .from('budget_rules')
+    .update({ end_date: plan.end_date })
+    .eq('id', input.id);
+  if (endErr) throw endErr;
+
+  const { data: successor, error: insErr } = await supabase
+    .from('budget_rules')
+    .insert({ user_id: user.id, ...payload, previous_rule_id: input.id })
+    .select('id')
+    .single();
+  if (insErr) {
+    await undoRuleSplit(supabase, input.id, rule.end_date ?? null, null);
+    throw insErr;
+  }
+
+  try {
+    const { error: ovErr } = await supabase
+      .from('budget_rule_overrides')
+      .update({ rule_id: successor.id })
+      .eq('rule_id', input.id)
+      .gte('occurrence_date', input.from_date);
+    if (ovErr) throw ovErr;
+
+    // Loan terms follow the current version of the rule
+    const { error: loanErr } = await supabase
+      .from('budget_loans')
+      .update({ rule_id: successor.id })
+      .eq('rule_id', input.id);
+    if (loanErr) throw loanErr;
+  } catch (e) {
+    await undoRuleSplit(supabase, input.id, rule.end_date ?? null, successor.id);
+    throw e;
+  }
+
+  await dispatchAutomationEvent(supabase, { entity: 'budget_rule', kind: 'updated', recordId: input.id, previous });
+  await dispatchAutomationEvent(supabase, { entity: 'budget_rule', kind: 'created', recordId: successor.id });
+
+  revalidatePath('/budget');
+  revalidatePath('/');
+}
+
+/** Every version of a split rule, oldest first (a never-split rule is its own only version) */
+export async function getRuleHistory(params: { id: string }): Promise<Rule[]> {
+  const supabase = await createSupabaseServerClient();
+  const { data: { user }, error: authErr } = await supabase.auth.getUser();
+  if (authErr) throw authErr;
+  if (!user) throw new Error('User not found');
+
+  const { data, error } = await supabase
+    .from('budget_rules')
+    .select('*')
+    .eq('user_id', user.id);
+  if (error) throw error;
+
+  const rules = (data ?? []) as Rule[];
+  const byId = new Map(rules.map((r) => [r.id, r]));
+  const byPrevious = new Map(rules.filter((r) => r.previous_rule_id).map((r) => [r.previous_rule_id!, r]));
+
+  const current = byId.get(params.id);
+  if (!current) return [];
+
+  const history: Rule[] = [current];
+  const seen = new Set([current.id]);
+  let prev = current.previous_rule_id ? byId.get(current.previous_rule_id) : undefined;
+  while (prev && !seen.has(prev.id)) {
+    history.unshift(prev);
+    seen.add(prev.id);
+    prev = prev.previous_rule_id ? byId.get(prev.previous_rule_id) : undefined;
+  }
+  let next = byPrevious.get(current.id);
+  while (next && !seen.has(next.id)) {
+    history.push(next);
+    seen.add(next.id);
+    next = byPrevious.get(next.id);
+  }
+  return history;
+}
+
 export async function deleteRule(params: { id: string }) {
   const supabase = await createSupabaseServerClient();
+
+  // Deleting one version of a split rule: link its successor to its predecessor
+  const { data: rule, error: rErr } = await supabase
+    .from('budget_rules')
+    .select('previous_rule_id')
+    .eq('id', params.id)
+    .maybeSingle();
+  if (rErr) throw rErr;
+  const { error: linkErr } = await supabase
+    .from('budget_rules')
+    .update({ previous_rule_id: rule?.previous_rule_id ?? null })
+    .eq('previous_rule_id', params.id);
+  if (linkErr) throw linkErr;
+
+  // Loan terms on this version move back to the previous one, or go with the rule
+  const { error: loanErr } = rule?.previous_rule_id
+    ? await supabase.from('budget_loans').update({ rule_id: rule.previous_rule_id }).eq('rule_id', params.id)
+    : await supabase.from('budget_loans').delete().eq('rule_id', params.id);
+  if (loanErr) throw loanErr;
+
   const { error } = await supabase.from('budget_rules').delete().eq('id', params.id);
   if (error) throw error;
   revalidatePath('/budget');
@@ -239,6 +609,7 @@ export async function markOccurrencePaid(params: {
   rule_id: string;
   occurrence_date: string;
   paid_on: string;
+  account_id?: string | null;
 }) {
   const supabase = await createSupabaseServerClient();
   const { data: { user }, error: authErr } = await supabase.auth.getUser();
@@ -253,6 +624,7 @@ export async function markOccurrencePaid(params: {
       override_type: 'paid',
       paid_on: params.paid_on,
       new_date: null,
+      account_id: params.account_id ?? null,
     },
     { onConflict: 'user_id,rule_id,occurrence_date' }
   );
@@ -286,38 +658,752 @@ export async function postponeOccurrence(params: {
 
   const r = rule as Rule;
 
-  function nextMonthly(fromISO: string) {
-    const occ = toDate(fromISO);
-    const firstNextMonth = startOfMonth(addDays(endOfMonth(occ), 1));
-    const dom = r.dom ?? getDate(occ);
-    return clampMonthly(firstNextMonth, dom);
-  }
+  // Postponing moves the occurrence onto the rule's next scheduled date
+  const next = nextRuleDateAfter(r, params.occurrence_date);
+  if (!next) throw new Error('This is the last occurrence of the rule; there is no later date to postpone it to.');
+  const { error } = await supabase.from('budget_rule_overrides').upsert(
+    {
+      user_id: user.id,
+      rule_id: params.rule_id,
+      occurrence_date: params.occurrence_date,
+      override_type: 'postponed',
+      new_date: next,
+      paid_on: null,
+      account_id: null,
+    },
+    { onConflict: 'user_id,rule_id,occurrence_date' }
+  );
+  if (error) throw error;
+
+  revalidatePath('/budget');
+  revalidatePath('/');
+  return { ok: true };
+}
+
+/* =========================
+   ACCOUNTS
+   ========================= */
+
+export async function upsertAccount(input: {
+  id?: string;
+  name: string;
+  type: AccountType;
+  opening_balance: number;
+  opening_date: string;
+}) {
+  const supabase = await createSupabaseServerClient();
+  const { data: { user }, error: authErr } = await supabase.auth.getUser();
+  if (authErr) throw authErr;
+  if (!user) throw new Error('User not found');
+
+  const name = input.name.trim();
+  if (!name) throw new Error('Account name is required');
+  if (!ACCOUNT_TYPES.includes(input.type)) throw new Error('Invalid account type');
+  if (!Number.isFinite(input.opening_balance)) throw new Error('Invalid opening balance');
+
+  const payload = {
+    name,
+    type: input.type,
+    opening_balance: input.opening_balance,
+    opening_date: input.opening_date,
+  };
 
-  let nextDate: string | null = null;
-  if (r.frequency === 'weekly') {
-    nextDate = fmt(addDays(parseISO(params.occurrence_date), 7));
-  } else if (r.frequency === 'biweekly') {
-    nextDate = fmt(addDays(parseISO(params.occurrence_date), 14));
-  } else if (r.frequency === 'monthly') {
-    nextDate = nextMonthly(params.occurrence_date);
+  if (input.id) {
+    const { error } = await supabase
+      .from('budget_accounts')
+      .update(payload)
+      .eq('id', input.id)
+      .eq('user_id', user.id);
+    if (error) throw error;
+  } else {
+    const { error } = await supabase.from('budget_accounts').insert({ user_id: user.id, ...payload });
+    if (error) throw error;
   }
 
-  if (nextDate) {
-    const { error } = await supabase.from('budget_rule_overrides').upsert(
-      {
+  revalidatePath('/budget');
+}
+
+/**
+ * Deletes an account. Payments that posted against it stay paid but become
+ * unassigned.
+ */
+export async function deleteAccount(params: { id: string }) {
+  const supabase = await createSupabaseServerClient();
+  const { data: { user }, error: authErr } = await supabase.auth.getUser();
+  if (authErr) throw authErr;
+  if (!user) throw new Error('User not found');
+
+  const [{ error: e1 }, { error: e2 }] = await Promise.all([
+    supabase.from('budget_entries').update({ account_id: null }).eq('user_id', user.id).eq('account_id', params.id),
+    supabase
+      .from('budget_rule_overrides')
+      .update({ account_id: null })
+      .eq('user_id', user.id)
+      .eq('account_id', params.id),
+  ]);
+  if (e1) throw e1;
+  if (e2) throw e2;
+
+  const { error } = await supabase.from('budget_accounts').delete().eq('id', params.id).eq('user_id', user.id);
+  if (error) throw error;
+
+  revalidatePath('/budget');
+}
+
+/* =========================
+   BANK IMPORT
+   ========================= */
+
+/**
+ * Imports parsed statement transactions. Transactions already imported (same
+ * external_id) are skipped; new ones are auto-matched to unpaid rows around
+ * their dates and marked paid against `account_id`. Whatever doesn't match
+ * confidently (see matchTransactions) is left `pending` in the review queue.
+ */
+export async function importBankStatement(params: {
+  transactions: BankTransaction[];
+  account_id?: string | null;
+}): Promise<BankImportResult> {
+  const supabase = await createSupabaseServerClient();
+  const { data: { user }, error: authErr } = await supabase.auth.getUser();
+  if (authErr) throw authErr;
+  if (!user) throw new Error('User not found');
+
+  const account_id = params.account_id ?? null;
+  const transactions = (params.transactions ?? []).filter(
+    (t) => t && t.external_id && /^\d{4}-\d{2}-\d{2}$/.test(t.date) && Number.isFinite(t.amount) && t.amount !== 0
+  );
+  if (transactions.length === 0) return { imported: 0, duplicates: 0, matched: [], queued: 0 };
+
+  // Insert-or-skip on (user_id, external_id); only newly inserted rows come back
+  const { data: inserted, error: insErr } = await supabase
+    .from('budget_import_items')
+    .upsert(
+      transactions.map((t) => ({
         user_id: user.id,
-        rule_id: params.rule_id,
-        occurrence_date: params.occurrence_date,
-        override_type: 'postponed',
-        new_date: nextDate,
-        paid_on: null,
-      },
-      { onConflict: 'user_id,rule_id,occurrence_date' }
-    );
+        account_id,
+        external_id: t.external_id,
+        date: t.date,
+        amount: t.amount,
+        description: t.description,
+        status: 'pending',
+      })),
+      { onConflict: 'user_id,external_id', ignoreDuplicates: true }
+    )
+    .select('*');
+  if (insErr) throw insErr;
+
+  const fresh = ((inserted ?? []) as ImportItem[]).map((t) => ({ ...t, amount: Number(t.amount) }));
+  const duplicates = transactions.length - fresh.length;
+  if (fresh.length === 0) return { imported: 0, duplicates, matched: [], queued: 0 };
+
+  // Candidate rows: every month touched by the statement, padded by the match window
+  const dates = fresh.map((t) => t.date).sort();
+  const first = startOfMonth(addDays(toDate(dates[0]), -MATCH_DAY_WINDOW));
+  const last = endOfMonth(addDays(toDate(dates[dates.length - 1]), MATCH_DAY_WINDOW));
+  const raw = await getRawBudgetData({ month_start: fmt(first), month_end: fmt(last) });
+
+  const paidEntryIds = new Set(raw.entries.filter((e) => e.paid_on).map((e) => String(e.id)));
+  const rows: UnifiedRow[] = [];
+  for (let m = first; !isAfter(m, last); m = addMonths(m, 1)) {
+    rows.push(...unifyRows(raw.entries, raw.rules, raw.overrides, fmt(m), fmt(endOfMonth(m))));
+  }
+  const candidates = rows.filter((r) => !(r.kind === 'one_time' && paidEntryIds.has(String(r.id))));
+
+  const { matches } = matchTransactions(fresh, candidates);
+  const itemByExternalId = new Map(fresh.map((t) => [t.external_id, t]));
+  const matched: BankImportResult['matched'] = [];
+
+  for (const { transaction, row } of matches) {
+    const item = itemByExternalId.get(transaction.external_id)!;
+    const label = `${row.description} (${row.effective_date})`;
+
+    if (row.kind === 'one_time') {
+      const { error } = await supabase
+        .from('budget_entries')
+        .update({ paid_on: transaction.date, account_id })
+        .eq('id', row.id)
+        .eq('user_id', user.id);
+      if (error) throw error;
+    } else {
+      const { error } = await supabase.from('budget_rule_overrides').upsert(
+        {
+          user_id: user.id,
+          rule_id: row.rule_id,
+          occurrence_date: row.occurrence_date,
+          override_type: 'paid',
+          paid_on: transaction.date,
+          new_date: null,
+          account_id,
+        },
+        { onConflict: 'user_id,rule_id,occurrence_date' }
+      );
+      if (error) throw error;
+    }
+
+    const { error: itemErr } = await supabase
+      .from('budget_import_items')
+      .update({ status: 'matched', matched_label: label })
+      .eq('id', item.id);
+    if (itemErr) throw itemErr;
+
+    matched.push({
+      transaction: { external_id: item.external_id, date: item.date, amount: item.amount, description: item.description },
+      label,
+    });
+  }
+
+  revalidatePath('/budget');
+  revalidatePath('/');
+
+  return { imported: fresh.length, duplicates, matched, queued: fresh.length - matched.length };
+}
+
+/** Unmatched imported transactions awaiting review, oldest first */
+export async function getImportQueue(): Promise<ImportItem[]> {
+  const supabase = await createSupabaseServerClient();
+  const { data: { user }, error: authErr } = await supabase.auth.getUser();
+  if (authErr || !user) throw new Error('User not found or not authenticated');
+
+  const { data, error } = await supabase
+    .from('budget_import_items')
+    .select('*')
+    .eq('user_id', user.id)
+    .eq('status', 'pending')
+    .order('date', { ascending: true });
+  if (error) throw error;
+
+  return (data ?? []) as ImportItem[];
+}
+
+/**
+ * Turns a queued transaction into a paid OneTimeEntry on its posting date.
+ */
+export async function createEntryFromImport(params: {
+  id: string;
+  description: string;
+  category: Category;
+}) {
+  const supabase = await createSupabaseServerClient();
+  const { data: { user }, error: authErr } = await supabase.auth.getUser();
+  if (authErr) throw authErr;
+  if (!user) throw new Error('User not found');
+
+  const { data: item, error: itemErr } = await supabase
+    .from('budget_import_items')
+    .select('*')
+    .eq('id', params.id)
+    .eq('user_id', user.id)
+    .eq('status', 'pending')
+    .single();
+  if (itemErr) throw itemErr;
+
+  const txn = item as ImportItem;
+  const { data: entry, error } = await supabase
+    .from('budget_entries')
+    .insert({
+      user_id: user.id,
+      description: params.description.trim() || txn.description,
+      amount: Math.abs(Number(txn.amount)),
+      type: Number(txn.amount) < 0 ? 'expense' : 'income',
+      category: params.category,
+      due_date: txn.date,
+      paid_on: txn.date,
+      account_id: txn.account_id,
+    })
+    .select('id')
+    .single();
+  if (error) throw error;
+
+  const { error: updErr } = await supabase
+    .from('budget_import_items')
+    .update({ status: 'created', entry_id: entry.id })
+    .eq('id', txn.id);
+  if (updErr) throw updErr;
+
+  revalidatePath('/budget');
+  revalidatePath('/');
+}
+
+export async function dismissImportItem(params: { id: string }) {
+  const supabase = await createSupabaseServerClient();
+  const { data: { user }, error: authErr } = await supabase.auth.getUser();
+  if (authErr) throw authErr;
+  if (!user) throw new Error('User not found');
+
+  const { error } = await supabase
+    .from('budget_import_items')
+    .update({ status: 'dismissed' })
+    .eq('id', params.id)
+    .eq('user_id', user.id);
+  if (error) throw error;
+  revalidatePath('/budget');
+}
+
+/* =========================
+   CATEGORIES
+   ========================= */
+
+function categoryKey(name: string) {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+/**
+ * Creates or updates a category. The key is derived from the name on create
+ * and never changes afterwards, so renaming keeps existing entries attached.
+ */
+export async function upsertCategory(input: {
+  id?: string;
+  name: string;
+  type: EntryType;
+  color: string;
+  monthly_limit: number | null;
+}) {
+  const supabase = await createSupabaseServerClient();
+  const { data: { user }, error: authErr } = await supabase.auth.getUser();
+  if (authErr) throw authErr;
+  if (!user) throw new Error('User not found');
+
+  const name = input.name.trim();
+  if (!name) throw new Error('Category name is required');
+  if (!/^#[0-9a-f]{6}$/i.test(input.color)) throw new Error('Invalid color');
+  if (input.monthly_limit != null && !(Number.isFinite(input.monthly_limit) && input.monthly_limit >= 0)) {
+    throw new Error('Monthly limit must be a positive amount');
+  }
+
+  const payload = {
+    name,
+    type: input.type,
+    color: input.color,
+    monthly_limit: input.type === 'expense' ? input.monthly_limit : null,
+  };
+
+  if (input.id) {
+    const { error } = await supabase
+      .from('budget_categories')
+      .update(payload)
+      .eq('id', input.id)
+      .eq('user_id', user.id);
     if (error) throw error;
+  } else {
+    const key = categoryKey(name);
+    if (!key) throw new Error('Category name needs at least one letter or number');
+    const { error } = await supabase.from('budget_categories').insert({ user_id: user.id, key, ...payload });
+    if (error) {
+      if (error.code === '23505') throw new Error(`A category named "${name}" already exists`);
+      throw error;
+    }
   }
 
+  revalidatePath('/budget');
+}
+
+/**
+ * Deletes a category. Entries and rules that use it are moved to `other`
+ * (or `business_income` for income categories).
+ */
+export async function deleteCategory(params: { id: string }) {
+  const supabase = await createSupabaseServerClient();
+  const { data: { user }, error: authErr } = await supabase.auth.getUser();
+  if (authErr) throw authErr;
+  if (!user) throw new Error('User not found');
+
+  const { data: category, error: cErr } = await supabase
+    .from('budget_categories')
+    .select('*')
+    .eq('id', params.id)
+    .eq('user_id', user.id)
+    .single();
+  if (cErr) throw cErr;
+
+  const c = category as BudgetCategory;
+  const fallback = c.type === 'income' ? 'business_income' : 'other';
+  if (c.key === fallback) throw new Error(`The "${c.name}" category can't be deleted`);
+
+  const [{ error: e1 }, { error: e2 }] = await Promise.all([
+    supabase.from('budget_entries').update({ category: fallback }).eq('user_id', user.id).eq('category', c.key),
+    supabase.from('budget_rules').update({ category: fallback }).eq('user_id', user.id).eq('category', c.key),
+  ]);
+  if (e1) throw e1;
+  if (e2) throw e2;
+
+  const { error } = await supabase.from('budget_categories').delete().eq('id', c.id).eq('user_id', user.id);
+  if (error) throw error;
+
   revalidatePath('/budget');
   revalidatePath('/');
-  return { ok: true };
-}
\ No newline at end of file
+}
+
+/* =========================
+   SAVINGS GOALS
+   ========================= */
+
+const GOAL_CATEGORY = DEFAULT_BUDGET_CATEGORIES.find((c) => c.key === 'savings')!;
+
+/** A rule and every earlier version of it, newest first (see splitRule) */
+function ruleVersions(rules: Rule[], rule_id: string | null): Rule[] {
+  const byId = new Map(rules.map((r) => [r.id, r]));
+  const versions: Rule[] = [];
+  let r = rule_id ? byId.get(rule_id) : undefined;
+  while (r && !versions.includes(r)) {
+    versions.push(r);
+    r = r.previous_rule_id ? byId.get(r.previous_rule_id) : undefined;
+  }
+  return versions;
+}
+
+/** Estimated cost of everything on the post-move shopping list (/shopping) */
+async function getShoppingTotal(supabase: Awaited<ReturnType<typeof createSupabaseServerClient>>, user_id: string) {
+  const { data, error } = await supabase.from('post_move_items').select('estimated_cost').eq('user_id', user_id);
+  if (error) throw error;
+  return (data ?? []).reduce((sum, item) => sum + Number(item.estimated_cost ?? 0), 0);
+}
+
+async function insertGoalRule(
+  supabase: Awaited<ReturnType<typeof createSupabaseServerClient>>,
+  user_id: string,
+  input: RuleInput,
+  previous_rule_id: string | null
+): Promise<string> {
+  const { data, error } = await supabase
+    .from('budget_rules')
+    .insert({ user_id, ...rulePayload(input), previous_rule_id })
+    .select('id')
+    .single();
+  if (error) throw error;
+  await dispatchAutomationEvent(supabase, { entity: 'budget_rule', kind: 'created', recordId: data.id });
+  return data.id as string;
+}
+
+async function loadGoalProgress(
+  supabase: Awaited<ReturnType<typeof createSupabaseServerClient>>,
+  user_id: string,
+  goals: SavingsGoal[],
+  today_local: string
+): Promise<GoalProgress[]> {
+  if (goals.length === 0) return [];
+
+  const { data: rulesData, error: rErr } = await supabase.from('budget_rules').select('*').eq('user_id', user_id);
+  if (rErr) throw rErr;
+  const versionsByGoal = new Map(goals.map((g) => [g.id, ruleVersions((rulesData ?? []) as Rule[], g.rule_id)]));
+  const ruleIds = [...versionsByGoal.values()].flat().map((r) => r.id);
+
+  const [overridesRes, shopping_total] = await Promise.all([
+    ruleIds.length
+      ? supabase
+          .from('budget_rule_overrides')
+          .select('*')
+          .eq('user_id', user_id)
+          .eq('override_type', 'paid')
+          .in('rule_id', ruleIds)
+      : Promise.resolve({ data: [], error: null }),
+    goals.some((g) => g.link_shopping) ? getShoppingTotal(supabase, user_id) : Promise.resolve(null),
+  ]);
+  if (overridesRes.error) throw overridesRes.error;
+  const overrides = (overridesRes.data ?? []) as Override[];
+
+  return goals.map((goal) =>
+    computeGoalProgress({ goal, rules: versionsByGoal.get(goal.id) ?? [], overrides, shopping_total, today_local })
+  );
+}
+
+export async function getSavingsGoals(params: { today_local: string }): Promise<GoalProgress[]> {
+  const supabase = await createSupabaseServerClient();
+  const { data: { user }, error: authErr } = await supabase.auth.getUser();
+  if (authErr || !user) throw new Error('User not found or not authenticated');
+
+  const { data, error } = await supabase
+    .from('budget_goals')
+    .select('*')
+    .eq('user_id', user.id)
+    .order('target_date', { ascending: true });
+  if (error) throw error;
+
+  return loadGoalProgress(supabase, user.id, (data ?? []) as SavingsGoal[], params.today_local);
+}
+
+/**
+ * Creates or updates a savings goal and its contribution rule: a monthly
+ * `savings` expense from today through the target date, sized to close the gap
+ * between what's saved and the target. When an edit changes the contribution,
+ * the rule is split at today so paid contributions keep their amount.
+ */
+export async function upsertSavingsGoal(input: {
+  id?: string;
+  name: string;
+  target_amount: number;
+  target_date: string;
+  starting_amount: number;
+  link_shopping: boolean;
+  today_local: string;
+}) {
+  const supabase = await createSupabaseServerClient();
+  const { data: { user }, error: authErr } = await supabase.auth.getUser();
+  if (authErr) throw authErr;
+  if (!user) throw new Error('User not found');
+
+  const name = input.name.trim();
+  if (!name) throw new Error('Goal name is required');
+  if (!input.target_date || input.target_date <= input.today_local) throw new Error('Target date must be in the future');
+  if (!input.link_shopping && !(Number.isFinite(input.target_amount) && input.target_amount > 0)) {
+    throw new Error('Target amount must be a positive amount');
+  }
+  if (!(Number.isFinite(input.starting_amount) && input.starting_amount >= 0)) {
+    throw new Error('Amount already saved cannot be negative');
+  }
+
+  const payload = {
+    name,
+    target_amount: Number(input.target_amount) || 0,
+    target_date: input.target_date,
+    starting_amount: input.starting_amount,
+    link_shopping: input.link_shopping,
+  };
+
+  let goal: SavingsGoal;
+  if (input.id) {
+    const { data, error } = await supabase
+      .from('budget_goals')
+      .update(payload)
+      .eq('id', input.id)
+      .eq('user_id', user.id)
+      .select('*')
+      .single();
+    if (error) throw error;
+    goal = data as SavingsGoal;
+  } else {
+    const { data, error } = await supabase
+      .from('budget_goals')
+      .insert({ user_id: user.id, ...payload, rule_id: null })
+      .select('*')
+      .single();
+    if (error) throw error;
+    goal = data as SavingsGoal;
+  }
+
+  // Existing users may predate the Savings category
+  const { error: catErr } = await supabase
+    .from('budget_categories')
+    .upsert({ user_id: user.id, ...GOAL_CATEGORY, monthly_limit: null }, { onConflict: 'user_id,key', ignoreDuplicates: true });
+  if (catErr) throw catErr;
+
+  const [progress] = await loadGoalProgress(supabase, user.id, [goal], input.today_local);
+  let current: Rule | null = null;
+  if (goal.rule_id) {
+    const { data, error } = await supabase.from('budget_rules').select('*').eq('id', goal.rule_id).maybeSingle();
+    if (error) throw error;
+    current = data as Rule | null;
+  }
+
+  const dom = current?.dom ?? Number(input.today_local.slice(8, 10));
+  const { amount } = planGoalContributions({
+    remaining: progress.remaining,
+    dom,
+    fromISO: input.today_local,
+    target_date: goal.target_date,
+  });
+
+  const ruleInput: RuleInput = {
+    description: `Savings: ${name}`,
+    amount,
+    type: 'expense',
+    category: GOAL_CATEGORY.key,
+    frequency: 'monthly',
+    dom,
+    start_anchor: current?.start_anchor ?? input.today_local,
+    end_date: goal.target_date,
+  };
+
+  let rule_id = current?.id ?? null;
+  if (!current) {
+    if (amount > 0) rule_id = await insertGoalRule(supabase, user.id, ruleInput, null);
+  } else if (
+    Number(current.amount) !== amount ||
+    current.end_date !== goal.target_date ||
+    current.description !== ruleInput.description
+  ) {
+    if (planRuleSplit(current, input.today_local)) {
+      await splitRule({ ...ruleInput, id: current.id, from_date: input.today_local });
+      // A split continues the rule as a successor; a plain edit keeps the same rule
+      const { data: successor, error } = await supabase
+        .from('budget_rules')
+        .select('id')
+        .eq('previous_rule_id', current.id)
+        .maybeSingle();
+      if (error) throw error;
+      rule_id = successor?.id ?? current.id;
+    } else {
+      // The rule ran out before today (e.g. the target date moved out): continue it from today
+      rule_id = await insertGoalRule(supabase, user.id, { ...ruleInput, start_anchor: input.today_local }, current.id);
+    }
+  }
+
+  if (rule_id !== goal.rule_id) {
+    const { error } = await supabase.from('budget_goals').update({ rule_id }).eq('id', goal.id).eq('user_id', user.id);
+    if (error) throw error;
+  }
+
+  revalidatePath('/budget');
+  revalidatePath('/');
+}
+
+/**
+ * Deletes a savings goal and stops its contributions from today on. Paid
+ * contributions stay in the budget and the account ledger.
+ */
+export async function deleteSavingsGoal(params: { id: string; today_local: string }) {
+  const supabase = await createSupabaseServerClient();
+  const { data: { user }, error: authErr } = await supabase.auth.getUser();
+  if (authErr) throw authErr;
+  if (!user) throw new Error('User not found');
+
+  const { data: goal, error: gErr } = await supabase
+    .from('budget_goals')
+    .select('*')
+    .eq('id', params.id)
+    .eq('user_id', user.id)
+    .single();
+  if (gErr) throw gErr;
+
+  // Stop the contribution rule first so a failure never leaves it running without its goal
+  if (goal.rule_id) {
+    const { data: rule, error: rErr } = await supabase
+      .from('budget_rules')
+      .select('*')
+      .eq('id', goal.rule_id)
+      .eq('user_id', user.id)
+      .maybeSingle();
+    if (rErr) throw rErr;
+    const plan = rule ? planRuleSplit(rule as Rule, params.today_local) : null;
+    if (plan && plan.kept === 0) {
+      await deleteRule({ id: goal.rule_id });
+    } else if (plan) {
+      const { error: endErr } = await supabase
+        .from('budget_rules')
+        .update({ end_date: plan.end_date })
+        .eq('id', goal.rule_id)
+        .eq('user_id', user.id);
+      if (endErr) throw endErr;
+    }
+  }
+
+  const { error } = await supabase.from('budget_goals').delete().eq('id', params.id).eq('user_id', user.id);
+  if (error) throw error;
+
+  revalidatePath('/budget');
+  revalidatePath('/');
+}
+
+/* =========================
+   LOANS
+   ========================= */
+
+const LOAN_CATEGORY = 'loan';
+
+/**
+ * Loan-category rules and their payoff state. Only the current version of a
+ * split rule is listed; payments on earlier versions still count.
+ */
+export async function getDebtOverview(params: { today_local: string }): Promise<DebtOverview> {
+  const supabase = await createSupabaseServerClient();
+  const { data: { user }, error: authErr } = await supabase.auth.getUser();
+  if (authErr || !user) throw new Error('User not found or not authenticated');
+
+  const [{ data: rulesData, error: rErr }, { data: loansData, error: lErr }] = await Promise.all([
+    supabase.from('budget_rules').select('*').eq('user_id', user.id),
+    supabase.from('budget_loans').select('*').eq('user_id', user.id).order('created_at', { ascending: true }),
+  ]);
+  if (rErr) throw rErr;
+  if (lErr) throw lErr;
+
+  const rules = (rulesData ?? []) as Rule[];
+  const loans = (loansData ?? []) as BudgetLoan[];
+  const versionsByLoan = new Map(loans.map((l) => [l.id, ruleVersions(rules, l.rule_id)]));
+  const ruleIds = [...versionsByLoan.values()].flat().map((r) => r.id);
+
+  let overrides: Override[] = [];
+  if (ruleIds.length) {
+    const { data, error } = await supabase
+      .from('budget_rule_overrides')
+      .select('*')
+      .eq('user_id', user.id)
+      .eq('override_type', 'paid')
+      .in('rule_id', ruleIds);
+    if (error) throw error;
+    overrides = (data ?? []) as Override[];
+  }
+
+  const attached = new Set(loans.map((l) => l.rule_id));
+  const superseded = new Set(rules.map((r) => r.previous_rule_id).filter(Boolean));
+  return {
+    loans: loans.map((loan) =>
+      computeLoanStatus({ loan, rules: versionsByLoan.get(loan.id) ?? [], overrides, today_local: params.today_local })
+    ),
+    unconfigured: rules.filter(
+      (r) => r.category === LOAN_CATEGORY && r.active && !superseded.has(r.id) && !attached.has(r.id)
+    ),
+  };
+}
+
+/** Attaches (or updates) the balance, APR and minimum payment of a loan rule */
+export async function upsertLoan(input: {
+  id?: string;
+  rule_id: string;
+  principal: number;
+  apr: number;
+  minimum_payment: number;
+  balance_date: string;
+}) {
+  const supabase = await createSupabaseServerClient();
+  const { data: { user }, error: authErr } = await supabase.auth.getUser();
+  if (authErr) throw authErr;
+  if (!user) throw new Error('User not found');
+
+  if (!(Number.isFinite(input.principal) && input.principal > 0)) throw new Error('Balance must be a positive amount');
+  if (!(Number.isFinite(input.apr) && input.apr >= 0 && input.apr <= 100)) throw new Error('APR must be between 0 and 100');
+  if (!(Number.isFinite(input.minimum_payment) && input.minimum_payment > 0)) {
+    throw new Error('Minimum payment must be a positive amount');
+  }
+  if (!input.balance_date) throw new Error('Balance date is required');
+
+  const payload = {
+    principal: input.principal,
+    apr: input.apr,
+    minimum_payment: input.minimum_payment,
+    balance_date: input.balance_date,
+  };
+
+  if (input.id) {
+    const { error } = await supabase
+      .from('budget_loans')
+      .update(payload)
+      .eq('id', input.id)
+      .eq('user_id', user.id);
+    if (error) throw error;
+  } else {
+    const { error } = await supabase.from('budget_loans').insert({ user_id: user.id, rule_id: input.rule_id, ...payload });
+    if (error) {
+      if (error.code === '23505') throw new Error('This loan already has details attached');
+      throw error;
+    }
+  }
+
+  revalidatePath('/budget/debt');
+}
+
+/** Detaches loan details; the rule and its payments are untouched */
+export async function deleteLoan(params: { id: string }) {
+  const supabase = await createSupabaseServerClient();
+  const { data: { user }, error: authErr } = await supabase.auth.getUser();
+  if (authErr) throw authErr;
+  if (!user) throw new Error('User not found');
+
+  const { error } = await supabase.from('budget_loans').delete().eq('id', params.id).eq('user_id', user.id);
+  if (error) throw error;
+
+  revalidatePath('/budget/debt');
+}
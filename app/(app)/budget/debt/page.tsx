@@ -0,0 +1,27 @@
+import { format } from 'date-fns';
+import { createSupabaseServerClient } from '@/lib/supabase/server';
+import { redirect } from 'next/navigation';
+import DebtPlanner from '@/components/budget/DebtPlanner';
+import { getDebtOverview } from '@/app/(app)/budget/actions';
+
+export default async function DebtPlannerPage() {
+  const supabase = await createSupabaseServerClient();
+
+  const {
+    data: { user },
+    error,
+  } = await supabase.auth.getUser();
+
+  if (error || !user) {
+    redirect('/login');
+  }
+
+  const today_local = format(new Date(), 'yyyy-MM-dd');
+  const overview = await getDebtOverview({ today_local });
+
+  return (
+    <div className="p-6 md:p-8">
+      <DebtPlanner overview={overview} today_local={today_local} />
+    </div>
+  );
+}
@@ -2,7 +2,14 @@ import { format, startOfMonth, endOfMonth, addMonths, parseISO } from 'date-fns'
 import { createSupabaseServerClient } from '@/lib/supabase/server';
 import { redirect } from 'next/navigation';
 import BudgetManager from '@/components/budget/BudgetManager';
-import { getRawBudgetData } from '@/app/(app)/budget/actions';
+import {
+  getAccountLedger,
+  getBudgetCategories,
+  getBudgetForecast,
+  getImportQueue,
+  getRawBudgetData,
+  getSavingsGoals,
+} from '@/app/(app)/budget/actions';
 import { computeSnapshot } from '@/lib/BudgetLogic';
 
 export default async function BudgetPage() {
@@ -31,11 +38,22 @@ export default async function BudgetPage() {
   const next_month_end = format(nmEndDate, 'yyyy-MM-dd');
 
   // Fetch data for each window separately
-  const [thisMonthData, nextMonthData] = await Promise.all([
+  const [thisMonthData, nextMonthData, ledger, importQueue, categories, goals] = await Promise.all([
     getRawBudgetData({ month_start, month_end }),
     getRawBudgetData({ month_start: next_month_start, month_end: next_month_end }),
+    getAccountLedger({ as_of: today_local, month_start, month_end }),
+    getImportQueue(),
+    getBudgetCategories(),
+    getSavingsGoals({ today_local }),
   ]);
 
+  // Forecast starts from what the accounts held at the start of this month
+  const forecast = await getBudgetForecast({
+    start_month: month_start,
+    months: 6,
+    opening_balance: ledger.accounts.reduce((sum, a) => sum + a.month_opening_balance, 0),
+  });
+
   const snapshotThis = computeSnapshot({
     entries: thisMonthData.entries,
     rules: thisMonthData.rules,
@@ -43,6 +61,7 @@ export default async function BudgetPage() {
     month_start,
     month_end,
     today_local,
+    categories,
   });
 
   const snapshotNext = computeSnapshot({
@@ -52,6 +71,7 @@ export default async function BudgetPage() {
     month_start: next_month_start,
     month_end: next_month_end,
     today_local,
+    categories,
   });
 
   const monthLabelThis = format(parseISO(month_start), 'MMMM yyyy');
@@ -62,6 +82,11 @@ export default async function BudgetPage() {
       <BudgetManager
         initialSnapshotThis={snapshotThis}
         initialSnapshotNext={snapshotNext}
+        initialForecast={forecast}
+        ledger={ledger}
+        goals={goals}
+        importQueueCount={importQueue.length}
+        categories={categories}
         month_start={month_start}
         month_end={month_end}
         next_month_start={next_month_start}
@@ -0,0 +1,38 @@
+import { format } from 'date-fns';
+import { createSupabaseServerClient } from '@/lib/supabase/server';
+import { redirect } from 'next/navigation';
+import YearReportView from '@/components/budget/YearReportView';
+import { getBudgetYearReport } from '@/app/(app)/budget/actions';
+
+export default async function BudgetReportPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ year?: string }>;
+}) {
+  const supabase = await createSupabaseServerClient();
+
+  const {
+    data: { user },
+    error,
+  } = await supabase.auth.getUser();
+
+  if (error || !user) {
+    redirect('/login');
+  }
+
+  const now = new Date();
+  const today_local = format(now, 'yyyy-MM-dd');
+  const current_year = now.getFullYear();
+
+  const { year: yearParam } = await searchParams;
+  const parsed = Number(yearParam);
+  const year = Number.isInteger(parsed) && parsed >= 2000 && parsed <= current_year + 1 ? parsed : current_year;
+
+  const report = await getBudgetYearReport({ year, today_local });
+
+  return (
+    <div className="p-6 md:p-8">
+      <YearReportView report={report} current_year={current_year} />
+    </div>
+  );
+}
@@ -0,0 +1,203 @@
+// app/(app)/calendar/CalendarClient.tsx
+'use client'
+
+import React, { useEffect, useMemo, useState, useTransition } from 'react'
+import { useRouter } from 'next/navigation'
+import { format } from 'date-fns'
+import { useToast } from '@/components/ToastProvider'
+import { useAppState } from '@/app/state-provider'
+import type { CalendarLayer, UnifiedCalendarItem } from '@/lib/types'
+import { ALL_CALENDAR_LAYERS, CALENDAR_LAYERS } from '@/lib/UnifiedCalendar'
+import { getUnifiedCalendarItems } from './actions'
+import { Check, Loader2 } from 'lucide-react'
+import FullCalendar from '@fullcalendar/react'
+import dayGridPlugin from '@fullcalendar/daygrid'
+import timeGridPlugin from '@fullcalendar/timegrid'
+import resourceTimelinePlugin from '@fullcalendar/resource-timeline'
+import type { DatesSetArg, EventClickArg, EventInput } from '@fullcalendar/core'
+import type { ResourceInput } from '@fullcalendar/resource'
+import clsx from 'clsx'
+
+/*
+|--------------------------------------------------------------------------
+| Types & Constants
+|--------------------------------------------------------------------------
+*/
+type LocalRange = { start: string; end: string }
+
+const LAYER_COLORS = Object.fromEntries(CALENDAR_LAYERS.map((l) => [l.id, l.color])) as Record<CalendarLayer, string>
+
+// Wall-clock strings without an offset, read by FullCalendar as local time
+const toLocalISO = (d: Date) => format(d, "yyyy-MM-dd'T'HH:mm:ss")
+
+/*
+|--------------------------------------------------------------------------
+| Main Component
+|--------------------------------------------------------------------------
+*/
+export default function CalendarClient() {
+  const router = useRouter()
+  const { notify } = useToast()
+  const { state: { timezone } } = useAppState()
+  const [isPending, startTransition] = useTransition()
+
+  const [items, setItems] = useState<UnifiedCalendarItem[]>([])
+  const [layers, setLayers] = useState<CalendarLayer[]>(ALL_CALENDAR_LAYERS)
+  const [range, setRange] = useState<LocalRange | null>(null)
+
+  // Reload whenever the visible range, the enabled layers or the timezone change
+  useEffect(() => {
+    if (!range) return
+    startTransition(async () => {
+      const res = await getUnifiedCalendarItems({
+        startLocalISO: range.start,
+        endLocalISO: range.end,
+        layers,
+      })
+      if (!res.success) {
+        notify({ title: 'Error', description: res.error || 'Could not load the calendar.', variant: 'danger' })
+        return
+      }
+      setItems(res.items ?? [])
+    })
+  }, [range, layers, timezone, notify])
+
+  const toggleLayer = (layer: CalendarLayer) => {
+    setLayers((prev) =>
+      prev.includes(layer) ? prev.filter((l) => l !== layer) : ALL_CALENDAR_LAYERS.filter((l) => l === layer || prev.includes(l))
+    )
+  }
+
+  const events = useMemo<EventInput[]>(
+    () =>
+      items
+        .filter((item) => layers.includes(item.layer))
+        .map((item) => ({
+          id: item.id,
+          title: item.title,
+          start: item.start,
+          end: item.end ?? undefined,
+          allDay: item.all_day,
+          resourceId: item.layer,
+          backgroundColor: LAYER_COLORS[item.layer],
+          borderColor: LAYER_COLORS[item.layer],
+          classNames: item.done ? ['unified-event-done'] : [],
+          extendedProps: item,
+        })),
+    [items, layers]
+  )
+
+  // One timeline lane per enabled layer
+  const resources = useMemo<ResourceInput[]>(
+    () =>
+      CALENDAR_LAYERS.filter((l) => layers.includes(l.id)).map((l) => ({
+        id: l.id,
+        title: l.label,
+        eventColor: l.color,
+      })),
+    [layers]
+  )
+
+  const handleDatesSet = (arg: DatesSetArg) => {
+    const next = { start: toLocalISO(arg.start), end: toLocalISO(arg.end) }
+    setRange((prev) => (prev && prev.start === next.start && prev.end === next.end ? prev : next))
+  }
+
+  // Open the record in its own module
+  const handleEventClick = (arg: EventClickArg) => {
+    const item = arg.event.extendedProps as UnifiedCalendarItem
+    router.push(item.href)
+  }
+
+  return (
+    <>
+      <style jsx global>{`
+        .unified-event-done {
+          opacity: 0.55;
+        }
+        .unified-event-done .fc-event-title {
+          text-decoration: line-through;
+        }
+        .fc-event {
+          cursor: pointer;
+        }
+        .fc-resource-lane-title,
+        .fc-datagrid-cell-main {
+          font-weight: 600;
+          font-size: 13px;
+        }
+      `}</style>
+      <div className="flex h-full flex-col gap-5">
+        {/* 1. Header */}
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h1 className="font-sans text-[28px] font-bold text-[var(--text-primary)]">
+              Calendar
+            </h1>
+            <p className="mt-1 text-base text-[var(--text-secondary)]">
+              Agenda, classes, milestones and due dates from every module
+            </p>
+          </div>
+          {isPending && (
+            <Loader2 size={20} className="animate-spin text-[var(--text-secondary)]" />
+          )}
+        </div>
+
+        {/* 2. Layer toggles */}
+        <div className="flex flex-wrap items-center gap-2">
+          {CALENDAR_LAYERS.map((layer) => {
+            const isActive = layers.includes(layer.id)
+            return (
+              <button
+                key={layer.id}
+                onClick={() => toggleLayer(layer.id)}
+                aria-pressed={isActive}
+                className={clsx(
+                  'flex h-9 items-center gap-2 rounded-full border px-3 text-sm font-medium shadow-[var(--shadow-1)] transition-colors',
+                  isActive
+                    ? 'border-[var(--border)] bg-[var(--surface-elev-1)] text-[var(--text-primary)]'
+                    : 'border-[var(--border-subtle)] bg-transparent text-[var(--text-tertiary)] hover:bg-[var(--bg-muted)]'
+                )}
+              >
+                <span
+                  className="flex h-4 w-4 items-center justify-center rounded-full"
+                  style={{ backgroundColor: isActive ? layer.color : 'transparent', border: `2px solid ${layer.color}` }}
+                >
+                  {isActive && <Check size={10} className="text-white" />}
+                </span>
+                {layer.label}
+              </button>
+            )
+          })}
+        </div>
+
+        {/* 3. Calendar */}
+        <div className="flex-1 rounded-[var(--radius-md)] bg-[var(--surface-elev-1)] p-4 shadow-[var(--shadow-1)]">
+          <div className="h-full min-h-[70vh]">
+            <FullCalendar
+              plugins={[dayGridPlugin, timeGridPlugin, resourceTimelinePlugin]}
+              initialView="dayGridMonth"
+              schedulerLicenseKey="GPL-TO-BE-REPLACED"
+              headerToolbar={{
+                left: 'prev,next today',
+                center: 'title',
+                right: 'dayGridMonth,timeGridWeek,timeGridDay,resourceTimelineWeek',
+              }}
+              views={{ resourceTimelineWeek: { buttonText: 'lanes' } }}
+              events={events}
+              resources={resources}
+              resourceAreaHeaderContent="Modules"
+              resourceAreaWidth="180px"
+              eventClick={handleEventClick}
+              datesSet={handleDatesSet}
+              dayMaxEvents={4}
+              height="100%"
+              contentHeight="auto"
+              locale="en"
+            />
+          </div>
+        </div>
+      </div>
+    </>
+  )
+}
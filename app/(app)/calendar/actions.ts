@@ -0,0 +1,112 @@
+'use server';
+
+import { createSupabaseServerClient } from '@/lib/supabase/server';
+import type { CalendarLayer, OneTimeEntry, Override, Rule, UnifiedCalendarItem } from '@/lib/types';
+import { fromZonedTime, formatInTimeZone } from 'date-fns-tz';
+import { computeSnapshot } from '@/lib/BudgetLogic';
+import { getUserTimezone } from '@/lib/UserTimezone';
+import {
+  ALL_CALENDAR_LAYERS,
+  agendaItems,
+  budgetItems,
+  classItems,
+  immigrationItems,
+  loanItems,
+  projectMilestoneItems,
+} from '@/lib/UnifiedCalendar';
+import { listEventsInRange } from '@/app/(app)/agenda/actions';
+import { getSessionsForRange } from '@/app/(app)/classes/actions';
+import { getLoans } from '@/app/(app)/loans/actions';
+
+/**
+ * Items of the enabled layers in the local window [startLocalISO, endLocalISO)
+ * (user's timezone). A layer that fails to load is logged and left empty so the
+ * rest of the calendar still renders.
+ */
+export async function getUnifiedCalendarItems(payload: {
+  startLocalISO: string;
+  endLocalISO: string;
+  layers?: CalendarLayer[];
+}): Promise<{ success: boolean; items?: UnifiedCalendarItem[]; error?: string }> {
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) {
+    return { success: false, error: 'User not authenticated.' };
+  }
+
+  const layers = new Set(payload.layers ?? ALL_CALENDAR_LAYERS);
+  const tz = await getUserTimezone(supabase, user.id);
+  const startUTC = fromZonedTime(payload.startLocalISO, tz).toISOString();
+  const endUTC = fromZonedTime(payload.endLocalISO, tz).toISOString();
+  // Date-only sources (due dates): inclusive day range of the window
+  const fromYMD = payload.startLocalISO.slice(0, 10);
+  const toYMD = formatInTimeZone(new Date(Date.parse(endUTC) - 1), tz, 'yyyy-MM-dd');
+
+  const load = async (layer: CalendarLayer, fn: () => Promise<UnifiedCalendarItem[]>) => {
+    if (!layers.has(layer)) return [];
+    try {
+      return await fn();
+    } catch (error: any) {
+      console.error(`Error loading the ${layer} calendar layer:`, error?.message);
+      return [];
+    }
+  };
+
+  const results = await Promise.all([
+    load('agenda', async () => agendaItems(await listEventsInRange(payload.startLocalISO, payload.endLocalISO), tz)),
+
+    load('classes', async () =>
+      classItems((await getSessionsForRange(startUTC, endUTC)).filter((s) => Date.parse(s.startTime) < Date.parse(endUTC)), tz)
+    ),
+
+    load('projects', async () => {
+      const { data, error } = await supabase
+        .from('milestones')
+        .select('id, project_id, title, due_date, progress, project:projects ( name )')
+        .gte('due_date', fromYMD)
+        .lte('due_date', toYMD);
+      if (error) throw error;
+      return projectMilestoneItems(
+        (data ?? []).map((m: any) => ({ ...m, project_name: m.project?.name ?? null }))
+      );
+    }),
+
+    load('immigration', async () => {
+      const { data, error } = await supabase
+        .from('inmigration_milestones')
+        .select('id, case_id, label, due_date, completed, case:inmigration_cases ( client_name )')
+        .gte('due_date', fromYMD)
+        .lte('due_date', `${toYMD}T23:59:59`);
+      if (error) throw error;
+      return immigrationItems(
+        (data ?? []).map((m: any) => ({ ...m, client_name: m.case?.client_name ?? null }))
+      );
+    }),
+
+    load('loans', async () => loanItems(await getLoans(), fromYMD, toYMD)),
+
+    load('budget', async () => {
+      const [entriesRes, rulesRes, overridesRes] = await Promise.all([
+        supabase.from('budget_entries').select('*').eq('user_id', user.id),
+        supabase.from('budget_rules').select('*').eq('user_id', user.id),
+        supabase.from('budget_rule_overrides').select('*').eq('user_id', user.id),
+      ]);
+      if (entriesRes.error) throw entriesRes.error;
+      if (rulesRes.error) throw rulesRes.error;
+      if (overridesRes.error) throw overridesRes.error;
+      const snapshot = computeSnapshot({
+        entries: (entriesRes.data as OneTimeEntry[]) ?? [],
+        rules: (rulesRes.data as Rule[]) ?? [],
+        overrides: (overridesRes.data as Override[]) ?? [],
+        month_start: fromYMD,
+        month_end: toYMD,
+        today_local: formatInTimeZone(new Date(), tz, 'yyyy-MM-dd'),
+      });
+      return budgetItems(snapshot.rows);
+    }),
+  ]);
+
+  return { success: true, items: results.flat() };
+}
@@ -0,0 +1,12 @@
+import React from 'react'
+import CalendarClient from './CalendarClient'
+
+export const metadata = {
+  title: 'Calendar | Business Software',
+  description: 'Agenda, classes, milestones and due dates from every module in one calendar',
+}
+
+export default function CalendarPage() {
+  // Items are loaded per visible range by the client
+  return <CalendarClient />
+}
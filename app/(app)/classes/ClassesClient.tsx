@@ -8,8 +8,10 @@ import React, {
   useTransition,
   useRef,
 } from 'react'
-import { useRouter } from 'next/navigation'
+import { useRouter, useSearchParams } from 'next/navigation'
 import { useToast } from '@/components/ToastProvider'
+import { useAppState } from '@/app/state-provider'
+import { classesTimezone, timezoneAbbreviation } from '@/lib/UserTimezone'
 import type {
   ClassStudent,
   ClassPackage,
@@ -19,10 +21,12 @@ import type {
   ClassSession,
   Payment,
   AttendanceStatus,
+  BusyBlock,
 } from '@/lib/types'
 import {
   ATTENDANCE_STATUSES, // Import the values
 } from '@/lib/types'
+import { describeConflicts } from '@/lib/Availability'
 import {
   createStudent,
   updateStudent,
@@ -145,8 +149,22 @@ export default function ClassesClient({
 }: ClassesClientProps) {
   const [isPending, startTransition] = useTransition()
   const router = useRouter()
+  const searchParams = useSearchParams()
   const { notify } = useToast()
 
+  // Saved sessions that overlap other bookings get a warning instead of the success toast
+  const notifySessionSaved = (title: string, conflicts?: BusyBlock[], description?: string) => {
+    if (conflicts && conflicts.length > 0) {
+      notify({
+        title: `${title} (overlaps)`,
+        description: `Overlaps with ${describeConflicts(conflicts)}.`,
+        variant: 'warning',
+      })
+    } else {
+      notify({ title, description, variant: 'success' })
+    }
+  }
+
   // --- View State ---
   const [view, setView] = useState<View>('students')
 
@@ -439,7 +457,7 @@ export default function ClassesClient({
         startTime: arg.event.start?.toISOString(),
         endTime: arg.event.end?.toISOString(),
       }
-      const { data, error } = await updateSession(arg.event.id, patch)
+      const { data, error, conflicts } = await updateSession(arg.event.id, patch)
       if (error) {
         notify({
           title: 'Update Failed',
@@ -448,7 +466,7 @@ export default function ClassesClient({
         })
         arg.revert() // Revert visual change
       } else {
-        notify({ title: 'Session Updated', variant: 'success' })
+        notifySessionSaved('Session Updated', conflicts)
         // (BUG FIX) Refresh router to get all new data
         router.refresh()
       }
@@ -462,7 +480,7 @@ export default function ClassesClient({
         startTime: arg.event.start?.toISOString(),
         endTime: arg.event.end?.toISOString(),
       }
-      const { data, error } = await updateSession(arg.event.id, patch)
+      const { data, error, conflicts } = await updateSession(arg.event.id, patch)
       if (error) {
         notify({
           title: 'Update Failed',
@@ -471,7 +489,7 @@ export default function ClassesClient({
         })
         arg.revert() // Revert visual change
       } else {
-        notify({ title: 'Session Resized', variant: 'success' })
+        notifySessionSaved('Session Resized', conflicts)
         // (BUG FIX) Refresh router to get all new data
         router.refresh()
       }
@@ -486,7 +504,7 @@ export default function ClassesClient({
         ? () => updateSession(formData.id, formData)
         : () => createSession(formData)
 
-      const { data, error } = await action()
+      const { data, error, conflicts } = await action()
 
       if (error) {
         notify({
@@ -495,11 +513,7 @@ export default function ClassesClient({
           variant: 'danger',
         })
       } else if (data) {
-        notify({
-          title: `Session ${isEditing ? 'Updated' : 'Created'}`,
-          description: `Session has been saved.`,
-          variant: 'success',
-        })
+        notifySessionSaved(`Session ${isEditing ? 'Updated' : 'Created'}`, conflicts, `Session has been saved.`)
         setIsSessionFormModalOpen(false)
         setEditingSession(null)
         setSessionInitialData(null)
@@ -546,6 +560,36 @@ export default function ClassesClient({
     handleClosePopover()
   }
 
+  // Deep link from the unified calendar: /classes?session=<id>&date=<YYYY-MM-DD>
+  useEffect(() => {
+    const sessionId = searchParams.get('session')
+    if (!sessionId) return
+    const date = searchParams.get('date')
+    setView('scheduler')
+    // Clean up URL
+    router.replace('/classes', { scroll: false })
+
+    startTransition(async () => {
+      // The session may be outside the range loaded on the server; look around its date
+      const around = date
+        ? await getSessionsForRange(
+            new Date(Date.parse(`${date}T00:00:00Z`) - 86400000).toISOString(),
+            new Date(Date.parse(`${date}T00:00:00Z`) + 2 * 86400000).toISOString()
+          )
+        : []
+      const target =
+        around.find((s) => s.id === sessionId) ??
+        initialSessions.find((s) => s.id === sessionId)
+      if (!target) {
+        notify({ title: 'Session not found', description: 'It may have been deleted.', variant: 'warning' })
+        return
+      }
+      setEditingSession(target)
+      setSessionInitialData(target)
+      setIsSessionFormModalOpen(true)
+    })
+  }, [searchParams, router, initialSessions, notify])
+
   // Close popover on outside click
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -1098,8 +1142,15 @@ function SchedulerView({
   onDatesSet: (arg: DateRange) => void
   onSelect: (arg: SelectArg) => void
 }) {
+  // The scheduler is shown in the classes zone; a session edited from it keeps its own zone
+  const { state: appState } = useAppState()
+  const timezone = classesTimezone(appState)
+
   return (
     <div className="h-full min-h-[70vh]">
+      <p className="mb-2 text-xs text-[var(--text-secondary)]">
+        Times shown in {timezone.replace(/_/g, ' ')} ({timezoneAbbreviation(timezone)})
+      </p>
       <FullCalendar
         plugins={[dayGridPlugin, timeGridPlugin, interactionPlugin]}
         initialView="timeGridWeek"
@@ -1115,7 +1166,7 @@ function SchedulerView({
         eventContent={renderEventContent} // Use our custom renderer
         slotMinTime="07:00:00"
         slotMaxTime="22:00:00"
-        timeZone="America/Santo_Domingo"
+        timeZone={timezone}
         locale="en"
         contentHeight="auto"
         // MODIFIED: Pass new handlers
@@ -3,6 +3,8 @@
 
 import { revalidatePath } from 'next/cache'
 import { createSupabaseServerClient } from '@/lib/supabase/server'
+import { dispatchAutomationEvent, fetchAutomationRecord } from '@/lib/AutomationEngine'
+import { checkAvailability } from '@/app/(app)/agenda/actions'
 import type {
   ClassStudent,
   ClassPackage,
@@ -14,6 +16,7 @@ import type {
   ClassLevel,
   PackageStatus,
   LocationType,
+  BusyBlock,
 } from '@/lib/types'
 // ADDED imports for zod schema
 import { LOCATION_TYPES, ATTENDANCE_STATUSES } from '@/lib/types'
@@ -492,10 +495,13 @@ export async function deleteStudent(id: string) {
  */
 export async function createPackage(input: CreatePackageInput) {
   const supabase = await createSupabaseServerClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return { data: null, error: new Error('User not authenticated.') }
 
   const { data, error } = await supabase
     .from('class_packages')
     .insert({
+      user_id: user.id,
       student_id: input.studentId,
       title: input.title,
       sessions_included: input.sessionsIncluded,
@@ -513,6 +519,8 @@ export async function createPackage(input: CreatePackageInput) {
     return { data: null, error }
   }
 
+  await dispatchAutomationEvent(supabase, { entity: 'class_package', kind: 'created', recordId: data.id })
+
   revalidatePath('/(app)/classes', 'layout')
   return { data, error: null }
 }
@@ -523,6 +531,7 @@ export async function createPackage(input: CreatePackageInput) {
  */
 export async function updatePackage(id: string, input: UpdatePackageInput) {
   const supabase = await createSupabaseServerClient()
+  const previous = await fetchAutomationRecord(supabase, 'class_package', id)
 
   const { data, error } = await supabase
     .from('class_packages')
@@ -543,6 +552,8 @@ export async function updatePackage(id: string, input: UpdatePackageInput) {
     return { data: null, error }
   }
 
+  await dispatchAutomationEvent(supabase, { entity: 'class_package', kind: 'updated', recordId: id, previous })
+
   revalidatePath('/(app)/classes', 'layout')
   return { data, error: null }
 }
@@ -558,6 +569,8 @@ export async function renewPackage(
   newDates: { startDate?: string | null; endDate?: string | null }
 ) {
   const supabase = await createSupabaseServerClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return { data: null, error: new Error('User not authenticated.') }
 
   // 1. Get the source package data
   const { data: sourcePackage, error: fetchError } = await supabase
@@ -586,6 +599,7 @@ export async function renewPackage(
   const { data: newPackage, error: createError } = await supabase
     .from('class_packages')
     .insert({
+      user_id: user.id,
       student_id: sourcePackage.student_id,
       title: sourcePackage.title,
       sessions_included: sourcePackage.sessions_included,
@@ -614,7 +628,7 @@ export async function renewPackage(
  */
 export async function createSession(
   input: CreateSessionInput
-): Promise<{ data: ClassSession | null; error: any }> {
+): Promise<{ data: ClassSession | null; error: any; conflicts?: BusyBlock[] }> {
   // 1. Validate input against schema
   const parseResult = createSessionSchema.safeParse(input)
   if (!parseResult.success) {
@@ -718,7 +732,14 @@ export async function createSession(
       : undefined,
   }
 
-  return { data: fullSession, error: null }
+  // Overlaps with the agenda or other sessions (warning only)
+  const availability = await checkAvailability({
+    start_ts: fullSession.startTime,
+    end_ts: fullSession.endTime,
+    ignore: { source: 'class', id: fullSession.id },
+  })
+
+  return { data: fullSession, error: null, conflicts: availability.conflicts ?? [] }
 }
 
 /**
@@ -728,7 +749,7 @@ export async function createSession(
 export async function updateSession(
   id: string,
   patch: SessionPatch
-): Promise<{ data: ClassSession | null; error: any }> {
+): Promise<{ data: ClassSession | null; error: any; conflicts?: BusyBlock[] }> {
   const supabase = await createSupabaseServerClient()
 
   // Map camelCase patch to snake_case for DB
@@ -824,6 +845,16 @@ export async function updateSession(
       : undefined,
   }
 
+  // Rescheduling: report overlaps with the agenda or other sessions
+  if (patch.startTime !== undefined || patch.endTime !== undefined) {
+    const availability = await checkAvailability({
+      start_ts: fullSession.startTime,
+      end_ts: fullSession.endTime,
+      ignore: { source: 'class', id: fullSession.id },
+    })
+    return { data: fullSession, error: null, conflicts: availability.conflicts ?? [] }
+  }
+
   return { data: fullSession, error: null }
 }
 
@@ -9,11 +9,20 @@ import React, {
   useCallback,
   useRef,
 } from 'react'
-import { useRouter } from 'next/navigation'
+import { useRouter, useSearchParams } from 'next/navigation'
 import { createPortal } from 'react-dom'
 import { motion, AnimatePresence } from 'framer-motion'
 import clsx from 'clsx'
-import type { Lead, MarketingChannel, ServiceType } from '@/lib/types'
+import type {
+  Lead,
+  LeadStage,
+  LeadStageMetric,
+  MarketingChannel,
+  ServiceType,
+} from '@/lib/types'
+import { LEAD_STAGES } from '@/lib/types'
+import { LEAD_STAGE_META, applyStageMove } from '@/lib/LeadPipeline'
+import { useToast } from '@/components/ToastProvider'
 import {
   Search as SearchIcon,
   Plus,
@@ -25,6 +34,8 @@ import {
   Trash2,
   X,
   Eye,
+  Table as TableIcon,
+  Columns,
 } from 'lucide-react'
 import {
   ResponsiveContainer,
@@ -37,11 +48,14 @@ import {
 } from 'recharts'
 import LeadFormModal from '@/components/crm/LeadFormModal'
 import CrmDetails from '@/components/crm/CrmDetails'
+import PipelineBoard from '@/components/crm/PipelineBoard'
 import {
   getLeads,
   createLeadWithContact,
   updateLeadAndContact,
   deleteLead,
+  moveLeadStage,
+  getStageMetrics,
 } from './actions'
 
 // ---------- Labels & helpers ----------
@@ -114,11 +128,15 @@ export default function CrmPipelineClient({
   initialRows,
 }: CrmPipelineClientProps) {
   const router = useRouter()
+  const searchParams = useSearchParams()
+  const { notify } = useToast()
   const [isPending, startTransition] = useTransition()
   const [isClient, setIsClient] = useState(false)
 
   // Data
   const [rows, setRows] = useState<Lead[]>(initialRows)
+  const [view, setView] = useState<'table' | 'board'>('table')
+  const [stageMetrics, setStageMetrics] = useState<LeadStageMetric[]>([])
 
   // Filters
   const [q, setQ] = useState('')
@@ -199,6 +217,22 @@ export default function CrmPipelineClient({
     setIsClient(true)
   }, [])
 
+  // Time-in-stage metrics for the board, over the filtered leads
+  const leadIdsKey = rows.map((r) => `${r.id}:${r.currentStage}`).join(',')
+  useEffect(() => {
+    if (view !== 'board') return
+    let cancelled = false
+    getStageMetrics(rows.map((r) => r.id))
+      .then((metrics) => {
+        if (!cancelled) setStageMetrics(metrics)
+      })
+      .catch((error) => console.error('Failed to load stage metrics:', error))
+    return () => {
+      cancelled = true
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [view, leadIdsKey])
+
   // Handlers
   const handleOpenAdd = () => {
     setEditingLead(null) // Make sure we're in "add" mode
@@ -219,6 +253,19 @@ export default function CrmPipelineClient({
     setIsDetailsOpen(true)
   }
 
+  // Deep link from the dashboard feed: /crm-pipeline?lead=<id>
+  useEffect(() => {
+    const leadId = searchParams.get('lead')
+    if (!leadId) return
+    const target = initialRows.find((r) => r.id === leadId)
+    if (target) {
+      setSelectedLead(target)
+      setIsDetailsOpen(true)
+    }
+    // Clean up URL
+    router.replace('/crm-pipeline', { scroll: false })
+  }, [searchParams, router, initialRows])
+
   const handleCloseDetails = () => {
     setIsDetailsOpen(false)
     setSelectedLead(null)
@@ -272,6 +319,36 @@ export default function CrmPipelineClient({
     })
   }
 
+  // Drag-and-drop on the board: move optimistically, revert on failure
+  const handleMoveStage = (lead: Lead, stage: LeadStage) => {
+    setRows((currentRows) =>
+      currentRows.map((r) =>
+        r.id === lead.id
+          ? { ...r, ...applyStageMove(r, stage, new Date().toISOString()) }
+          : r,
+      ),
+    )
+
+    startTransition(async () => {
+      try {
+        const movedLead = await moveLeadStage({ id: lead.id, stage })
+        setRows((currentRows) =>
+          currentRows.map((r) => (r.id === movedLead.id ? movedLead : r)),
+        )
+      } catch (error: any) {
+        console.error('Failed to move lead:', error)
+        setRows((currentRows) =>
+          currentRows.map((r) => (r.id === lead.id ? lead : r)),
+        )
+        notify({
+          title: 'Could not move lead',
+          description: error?.message || 'Please try again.',
+          variant: 'danger',
+        })
+      }
+    })
+  }
+
   const handleConfirmDelete = () => {
     if (!leadToDelete) return
     const idToDelete = leadToDelete.id // Store ID
@@ -304,13 +381,39 @@ export default function CrmPipelineClient({
           </p>
         </div>
 
-        <button
-          onClick={handleOpenAdd}
-          className="flex h-10 items-center gap-2 rounded-[var(--radius-md)] bg-[var(--primary)] px-4 text-sm font-medium text-white shadow-[var(--shadow-1)] transition-colors hover:bg-[var(--primary-600)]"
-        >
-          <Plus size={16} />
-          <span>Add Lead</span>
-        </button>
+        <div className="flex items-center gap-2">
+          {/* View toggle */}
+          <div className="flex h-10 items-center rounded-[var(--radius-md)] bg-[var(--bg-surface)] p-1 shadow-[var(--shadow-1)]">
+            {(
+              [
+                { id: 'table', label: 'Table', icon: TableIcon },
+                { id: 'board', label: 'Board', icon: Columns },
+              ] as const
+            ).map(({ id, label, icon: Icon }) => (
+              <button
+                key={id}
+                onClick={() => setView(id)}
+                className={clsx(
+                  'flex h-8 items-center gap-1.5 rounded-[var(--radius-sm)] px-3 text-sm font-medium transition-colors',
+                  view === id
+                    ? 'bg-[var(--primary)] text-white'
+                    : 'text-[var(--text-secondary)] hover:bg-[var(--bg-muted)]',
+                )}
+              >
+                <Icon size={14} />
+                <span>{label}</span>
+              </button>
+            ))}
+          </div>
+
+          <button
+            onClick={handleOpenAdd}
+            className="flex h-10 items-center gap-2 rounded-[var(--radius-md)] bg-[var(--primary)] px-4 text-sm font-medium text-white shadow-[var(--shadow-1)] transition-colors hover:bg-[var(--primary-600)]"
+          >
+            <Plus size={16} />
+            <span>Add Lead</span>
+          </button>
+        </div>
       </div>
 
       {/* --- KPI Boxes --- MODIFIED: Removed borders */}
@@ -492,79 +595,97 @@ export default function CrmPipelineClient({
         )}
       </div>
 
-      {/* Table - MODIFIED: Removed border */}
-      <div className="overflow-x-auto rounded-[var(--radius-lg)] bg-[var(--bg-surface)] shadow-[var(--shadow-1)]">
-        <table className="w-full border-collapse text-left text-sm">
-          <thead className="bg-[var(--bg-muted)] text-[var(--text-secondary)]">
-            <tr>
-              <th className="px-4 py-3 font-medium">Name</th>
-              <th className="px-4 py-3 font-medium">Email</th>
-              <th className="px-4 py-3 font-medium">Phone</th>
-              <th className="px-4 py-3 font-medium">Service</th>
-              <th className="px-4 py-3 font-medium">Source</th>
-              <th className="px-4 py-3 font-medium">Created</th>
-              <th className="px-4 py-3 font-medium">Notes</th>
-              <th className="px-4 py-3 font-medium">Expected Value</th>
-              <th className="px-4 py-3 font-medium">
-                <span className="sr-only">Actions</span>
-              </th>
-            </tr>
-          </thead>
-          <tbody>
-            {rows.length === 0 ? (
+      {view === 'board' ? (
+        <PipelineBoard
+          leads={rows}
+          metrics={stageMetrics}
+          serviceLabels={SERVICE_TYPE_LABELS}
+          onMove={handleMoveStage}
+          onOpen={handleOpenDetails}
+        />
+      ) : (
+        /* Table - MODIFIED: Removed border */
+        <div className="overflow-x-auto rounded-[var(--radius-lg)] bg-[var(--bg-surface)] shadow-[var(--shadow-1)]">
+          <table className="w-full border-collapse text-left text-sm">
+            <thead className="bg-[var(--bg-muted)] text-[var(--text-secondary)]">
               <tr>
-                <td
-                  colSpan={9}
-                  className="px-4 py-6 text-center text-[var(--text-tertiary)]"
-                >
-                  {isPending
-                    ? 'Loading...'
-                    : 'No leads found. Try adjusting your filters.'}
-                </td>
+                <th className="px-4 py-3 font-medium">Name</th>
+                <th className="px-4 py-3 font-medium">Email</th>
+                <th className="px-4 py-3 font-medium">Phone</th>
+                <th className="px-4 py-3 font-medium">Service</th>
+                <th className="px-4 py-3 font-medium">Source</th>
+                <th className="px-4 py-3 font-medium">Stage</th>
+                <th className="px-4 py-3 font-medium">Created</th>
+                <th className="px-4 py-3 font-medium">Notes</th>
+                <th className="px-4 py-3 font-medium">Expected Value</th>
+                <th className="px-4 py-3 font-medium">
+                  <span className="sr-only">Actions</span>
+                </th>
               </tr>
-            ) : (
-              rows.map((lead) => (
-                <tr
-                  key={lead.id}
-                  onClick={() => handleOpenDetails(lead)}
-                  className="cursor-pointer border-t border-[var(--border-subtle)] hover:bg-[var(--bg-muted)]"
-                >
-                  <td className="px-4 py-3">
-                    {lead.contact?.fullName ?? '—'}
-                  </td>
-                  <td className="px-4 py-3">{lead.contact?.email ?? '—'}</td>
-                  <td className="px-4 py-3">{lead.contact?.phone ?? '—'}</td>
-                  <td className="px-4 py-3">
-                    {SERVICE_TYPE_LABELS[lead.serviceType]}
-                  </td>
-                  <td className="px-4 py-3">
-                    {MARKETING_CHANNEL_LABELS[lead.sourceChannel]}
-                  </td>
-                  <td className="px-4 py-3">{formatDate(lead.createdAt)}</td>
+            </thead>
+            <tbody>
+              {rows.length === 0 ? (
+                <tr>
                   <td
-                    className="max-w-[200px] truncate px-4 py-3"
-                    title={lead.notes ?? ''}
+                    colSpan={10}
+                    className="px-4 py-6 text-center text-[var(--text-tertiary)]"
                   >
-                    {lead.notes ?? '—'}
-                  </td>
-                  <td className="px-4 py-3">
-                    {formatCurrencyRD(lead.expectedValue)}
-                  </td>
-                  <td className="px-4 py-3 text-right">
-                    <RowActions
-                      lead={lead}
-                      onEdit={() => handleOpenEdit(lead)}
-                      onDelete={() => handleOpenDelete(lead)}
-                      onViewDetails={() => handleOpenDetails(lead)}
-                      isPending={isPending}
-                    />
+                    {isPending
+                      ? 'Loading...'
+                      : 'No leads found. Try adjusting your filters.'}
                   </td>
                 </tr>
-              ))
-            )}
-          </tbody>
-        </table>
-      </div>
+              ) : (
+                rows.map((lead) => (
+                  <tr
+                    key={lead.id}
+                    onClick={() => handleOpenDetails(lead)}
+                    className="cursor-pointer border-t border-[var(--border-subtle)] hover:bg-[var(--bg-muted)]"
+                  >
+                    <td className="px-4 py-3">
+                      {lead.contact?.fullName ?? '—'}
+                    </td>
+                    <td className="px-4 py-3">{lead.contact?.email ?? '—'}</td>
+                    <td className="px-4 py-3">{lead.contact?.phone ?? '—'}</td>
+                    <td className="px-4 py-3">
+                      {SERVICE_TYPE_LABELS[lead.serviceType]}
+                    </td>
+                    <td className="px-4 py-3">
+                      {MARKETING_CHANNEL_LABELS[lead.sourceChannel]}
+                    </td>
+                    <td className="px-4 py-3" onClick={(e) => e.stopPropagation()}>
+                      <StageSelect
+                        stage={lead.currentStage ?? 'lead'}
+                        disabled={isPending}
+                        onChange={(stage) => handleMoveStage(lead, stage)}
+                      />
+                    </td>
+                    <td className="px-4 py-3">{formatDate(lead.createdAt)}</td>
+                    <td
+                      className="max-w-[200px] truncate px-4 py-3"
+                      title={lead.notes ?? ''}
+                    >
+                      {lead.notes ?? '—'}
+                    </td>
+                    <td className="px-4 py-3">
+                      {formatCurrencyRD(lead.expectedValue)}
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      <RowActions
+                        lead={lead}
+                        onEdit={() => handleOpenEdit(lead)}
+                        onDelete={() => handleOpenDelete(lead)}
+                        onViewDetails={() => handleOpenDetails(lead)}
+                        isPending={isPending}
+                      />
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
 
       {/* Modals */}
       <LeadFormModal
@@ -629,6 +750,35 @@ export default function CrmPipelineClient({
   )
 }
 
+// --- StageSelect Sub-Component ---
+function StageSelect({
+  stage,
+  disabled,
+  onChange,
+}: {
+  stage: LeadStage
+  disabled: boolean
+  onChange: (stage: LeadStage) => void
+}) {
+  const meta = LEAD_STAGE_META[stage]
+  return (
+    <select
+      value={stage}
+      disabled={disabled}
+      onChange={(e) => onChange(e.target.value as LeadStage)}
+      aria-label="Stage"
+      className="rounded-full border-0 px-2.5 py-1 text-xs font-medium focus:outline-none focus:ring-2 focus:ring-[var(--primary)] disabled:opacity-60"
+      style={{ backgroundColor: `${meta.color}1A`, color: meta.color }}
+    >
+      {LEAD_STAGES.map((s) => (
+        <option key={s} value={s}>
+          {LEAD_STAGE_META[s].label}
+        </option>
+      ))}
+    </select>
+  )
+}
+
 // --- RowActions Sub-Component ---
 interface RowActionsProps {
   lead: Lead
@@ -1,9 +1,24 @@
 // app/(app)/crm-pipeline/actions.ts
 'use server'
 
-import type { Lead, Contact, MarketingChannel, ServiceType } from '@/lib/types'
+import type {
+  ActivityDirection,
+  ActivityType,
+  Lead,
+  LeadActivity,
+  Contact,
+  LeadStage,
+  LeadStageChange,
+  LeadStageMetric,
+  MarketingChannel,
+  ServiceType,
+} from '@/lib/types'
+import { ACTIVITY_DIRECTIONS, ACTIVITY_TYPES } from '@/lib/types'
 import { cookies } from 'next/headers'
 import { createServerClient, type CookieOptions } from '@supabase/ssr'
+import { dispatchAutomationEvent, fetchAutomationRecord } from '@/lib/AutomationEngine'
+import { applyStageMove, isLeadStage, stageMetrics } from '@/lib/LeadPipeline'
+import { defaultDirection } from '@/lib/LeadActivities'
 
 // ---------- Supabase (Next 15: cookies() is async) ----------
 async function getSupabase() {
@@ -30,6 +45,19 @@ async function getSupabase() {
   })
 }
 
+async function requireUserId(supabase: Awaited<ReturnType<typeof getSupabase>>): Promise<string> {
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) throw new Error('User not authenticated.')
+  return user.id
+}
+
+/** ISO timestamp of a date input; throws on anything Date can't parse */
+function toTimestamp(value: string, label: string): string {
+  const ms = Date.parse(value)
+  if (Number.isNaN(ms)) throw new Error(`Invalid ${label}: ${value}`)
+  return new Date(ms).toISOString()
+}
+
 // ---------- Mappers ----------
 function mapContact(row: any): Contact {
   return {
@@ -54,6 +82,8 @@ function mapLeadFromView(row: any): Lead {
     expectedValue: expected,
     notes: row.notes ?? undefined,
     createdAt: row.created_at,
+    currentStage: isLeadStage(row.current_stage) ? row.current_stage : 'lead',
+    stageTs: row.stage_ts ?? {},
     contact: {
       id: row.contact_id,
       fullName: row.name,
@@ -64,6 +94,31 @@ function mapLeadFromView(row: any): Lead {
   }
 }
 
+function mapStageChange(row: any): LeadStageChange {
+  return {
+    id: row.id,
+    leadId: row.lead_id,
+    fromStage: isLeadStage(row.from_stage) ? row.from_stage : null,
+    toStage: row.to_stage,
+    changedAt: row.changed_at,
+  }
+}
+
+function mapActivity(row: any): LeadActivity {
+  return {
+    id: row.id,
+    leadId: row.lead_id,
+    contactId: row.contact_id ?? null,
+    type: row.type,
+    direction: row.direction ?? 'n/a',
+    summary: row.summary ?? '',
+    occurredAt: row.occurred_at,
+    followUpAt: row.follow_up_at ?? null,
+    followUpDone: !!row.follow_up_done,
+    createdAt: row.created_at,
+  }
+}
+
 // ---------- READ (Replaces getPipelineData) ----------
 export async function getLeads(params: {
   q?: string
@@ -125,9 +180,12 @@ export async function createLeadWithContact(input: {
   if (cErr) throw new Error(cErr.message)
 
   // 2. Insert Lead (simplified)
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) throw new Error('User not authenticated.')
   const { data: lead, error: lErr } = await supabase
     .from('leads')
     .insert({
+      user_id: user.id,
       contact_id: contact.id,
       service_type: input.serviceType,
       source_channel: input.sourceChannel,
@@ -146,6 +204,8 @@ export async function createLeadWithContact(input: {
     .single()
   if (vErr) throw new Error(vErr.message)
 
+  await dispatchAutomationEvent(supabase, { entity: 'lead', kind: 'created', recordId: lead.id })
+
   return mapLeadFromView(newLeadRow)
 }
 
@@ -164,6 +224,7 @@ export async function updateLeadAndContact(input: {
   }
 }): Promise<Lead> {
   const supabase = await getSupabase()
+  const previous = await fetchAutomationRecord(supabase, 'lead', input.id)
 
   // 1. Update Contact (if provided)
   if (input.contact) {
@@ -198,6 +259,8 @@ export async function updateLeadAndContact(input: {
     .single()
   if (vErr) throw new Error(vErr.message)
 
+  await dispatchAutomationEvent(supabase, { entity: 'lead', kind: 'updated', recordId: input.id, previous })
+
   return mapLeadFromView(updatedLeadRow)
 }
 
@@ -208,3 +271,176 @@ export async function deleteLead(id: string): Promise<{ id: string }> {
   if (error) throw new Error(error.message)
   return { id }
 }
+
+// ---------- STAGES ----------
+/**
+ * Moves a lead to another pipeline stage: stamps `current_stage`/`stage_ts`
+ * on the lead and appends the transition to `lead_stage_history`.
+ */
+export async function moveLeadStage(input: { id: string; stage: LeadStage }): Promise<Lead> {
+  if (!isLeadStage(input.stage)) throw new Error(`Unknown stage: ${input.stage}`)
+  const supabase = await getSupabase()
+  const userId = await requireUserId(supabase)
+  const previous = await fetchAutomationRecord(supabase, 'lead', input.id)
+
+  const { data: current, error: fetchErr } = await supabase
+    .from('leads')
+    .select('current_stage, stage_ts')
+    .eq('id', input.id)
+    .single()
+  if (fetchErr) throw new Error(fetchErr.message)
+
+  const fromStage: LeadStage = isLeadStage(current.current_stage) ? current.current_stage : 'lead'
+  if (fromStage !== input.stage) {
+    const changedAt = new Date().toISOString()
+    const next = applyStageMove({ stageTs: current.stage_ts ?? {} }, input.stage, changedAt)
+
+    const { error: lErr } = await supabase
+      .from('leads')
+      .update({ current_stage: next.currentStage, stage_ts: next.stageTs })
+      .eq('id', input.id)
+    if (lErr) throw new Error(lErr.message)
+
+    const { error: hErr } = await supabase.from('lead_stage_history').insert({
+      user_id: userId,
+      lead_id: input.id,
+      from_stage: fromStage,
+      to_stage: input.stage,
+      changed_at: changedAt,
+    })
+    if (hErr) throw new Error(hErr.message)
+  }
+
+  const { data: row, error: vErr } = await supabase
+    .from('lead_details_v')
+    .select('*')
+    .eq('lead_id', input.id)
+    .single()
+  if (vErr) throw new Error(vErr.message)
+
+  if (fromStage !== input.stage) {
+    await dispatchAutomationEvent(supabase, { entity: 'lead', kind: 'updated', recordId: input.id, previous })
+  }
+
+  return mapLeadFromView(row)
+}
+
+/** Stage transitions of one lead, oldest first */
+export async function getLeadStageHistory(leadId: string): Promise<LeadStageChange[]> {
+  const supabase = await getSupabase()
+  const userId = await requireUserId(supabase)
+  const { data, error } = await supabase
+    .from('lead_stage_history')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('lead_id', leadId)
+    .order('changed_at', { ascending: true })
+  if (error) throw new Error(error.message)
+  return (data ?? []).map(mapStageChange)
+}
+
+/** Time-in-stage metrics over the given leads (the board's current filter) */
+export async function getStageMetrics(leadIds: string[]): Promise<LeadStageMetric[]> {
+  if (leadIds.length === 0) return stageMetrics([], {}, Date.now())
+  const supabase = await getSupabase()
+  const userId = await requireUserId(supabase)
+  const [leadsRes, historyRes] = await Promise.all([
+    supabase.from('lead_details_v').select('*').in('lead_id', leadIds),
+    supabase.from('lead_stage_history').select('*').eq('user_id', userId).in('lead_id', leadIds),
+  ])
+  if (leadsRes.error) throw new Error(leadsRes.error.message)
+  if (historyRes.error) throw new Error(historyRes.error.message)
+
+  const historyByLead: Record<string, LeadStageChange[]> = {}
+  for (const change of (historyRes.data ?? []).map(mapStageChange)) {
+    if (!historyByLead[change.leadId]) historyByLead[change.leadId] = []
+    historyByLead[change.leadId].push(change)
+  }
+  return stageMetrics((leadsRes.data ?? []).map(mapLeadFromView), historyByLead, Date.now())
+}
+
+// ---------- ACTIVITIES ----------
+/** Timeline of one lead, newest first */
+export async function getLeadActivities(leadId: string): Promise<LeadActivity[]> {
+  const supabase = await getSupabase()
+  const userId = await requireUserId(supabase)
+  const { data, error } = await supabase
+    .from('lead_activities')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('lead_id', leadId)
+    .order('occurred_at', { ascending: false })
+  if (error) throw new Error(error.message)
+  return (data ?? []).map(mapActivity)
+}
+
+/** Logs a call, WhatsApp, email, meeting or note; `followUpAt` schedules the next touch */
+export async function logLeadActivity(input: {
+  leadId: string
+  type: ActivityType
+  direction?: ActivityDirection
+  summary: string
+  occurredAt?: string
+  followUpAt?: string | null
+}): Promise<LeadActivity> {
+  if (!(ACTIVITY_TYPES as readonly string[]).includes(input.type)) {
+    throw new Error(`Unknown activity type: ${input.type}`)
+  }
+  if (input.direction !== undefined && !(ACTIVITY_DIRECTIONS as readonly string[]).includes(input.direction)) {
+    throw new Error(`Unknown activity direction: ${input.direction}`)
+  }
+  if (!input.summary.trim()) throw new Error('Summary is required')
+  const occurredAt = input.occurredAt ? toTimestamp(input.occurredAt, 'activity date') : new Date().toISOString()
+  const followUpAt = input.followUpAt ? toTimestamp(input.followUpAt, 'follow-up date') : null
+  const supabase = await getSupabase()
+  const userId = await requireUserId(supabase)
+
+  // Link the lead's contact so activities survive on the contact record too
+  const { data: lead, error: fetchErr } = await supabase
+    .from('leads')
+    .select('contact_id')
+    .eq('id', input.leadId)
+    .single()
+  if (fetchErr) throw new Error(fetchErr.message)
+
+  const { data, error } = await supabase
+    .from('lead_activities')
+    .insert({
+      user_id: userId,
+      lead_id: input.leadId,
+      contact_id: lead.contact_id ?? null,
+      type: input.type,
+      direction: input.direction ?? defaultDirection(input.type),
+      summary: input.summary.trim(),
+      occurred_at: occurredAt,
+      follow_up_at: followUpAt,
+      follow_up_done: false,
+    })
+    .select('*')
+    .single()
+  if (error) throw new Error(error.message)
+  return mapActivity(data)
+}
+
+/** Marks an activity's follow-up as done (drops it from the dashboard feed) */
+export async function completeFollowUp(id: string): Promise<LeadActivity> {
+  const supabase = await getSupabase()
+  const userId = await requireUserId(supabase)
+  const { data, error } = await supabase
+    .from('lead_activities')
+    .update({ follow_up_done: true })
+    .eq('id', id)
+    .eq('user_id', userId)
+    .select('*')
+    .single()
+  if (error) throw new Error(error.message)
+  return mapActivity(data)
+}
+
+export async function deleteLeadActivity(id: string): Promise<{ id: string }> {
+  const supabase = await getSupabase()
+  const userId = await requireUserId(supabase)
+  const { error } = await supabase.from('lead_activities').delete().eq('id', id).eq('user_id', userId)
+  if (error) throw new Error(error.message)
+  return { id }
+}
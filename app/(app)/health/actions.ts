@@ -54,12 +54,15 @@ export interface VitalsRow {
 // Create Supplement
 export async function addSupplementAction(item: SuppItem) {
   const supabase = await createSupabaseServerClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('User not authenticated.');
 
   const { error: insertErr } = await supabase
     .from('supplements')
     .insert([
       {
         id: item.id,
+        user_id: user.id,
         name: item.name,
         brand: item.brand ?? null,
         form: item.form,
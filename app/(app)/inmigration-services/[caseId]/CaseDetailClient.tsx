@@ -24,6 +24,7 @@ import {
 import { Button } from '@/components/ui/Button'
 import ConfirmDialog from '@/components/ConfirmDialog'
 import PaymentFormModal from '@/components/payments/PaymentFormModal'
+import RecordThread from '@/components/ai/RecordThread'
 import { motion, AnimatePresence } from 'framer-motion'
 import clsx from 'clsx'
 import type { Project } from '@/lib/types'
@@ -406,8 +407,22 @@ export default function CaseDetailClient({
           </div>
 
           {/* Right Column (1/3) */}
-          <div className="lg:col-span-1">
+          <div className="lg:col-span-1 space-y-6">
             <ActivityTimeline activities={caseState.activity} />
+            <div className="rounded-[var(--radius-lg)] bg-[var(--surface-elev-1)] shadow-[var(--shadow-1)]">
+              <h3 className="border-b border-[var(--border-subtle)] p-5 text-lg font-semibold text-[var(--text-primary)]">
+                Assistant
+              </h3>
+              <div className="p-5">
+                <RecordThread
+                  pin={{
+                    entity: 'immigration_case',
+                    id: caseState.id,
+                    label: `${caseState.clientName} · ${caseState.service}`,
+                  }}
+                />
+              </div>
+            </div>
           </div>
         </div>
       </div>
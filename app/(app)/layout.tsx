@@ -3,6 +3,7 @@ import { headers } from 'next/headers';
 import { redirect } from 'next/navigation';
 import { createSupabaseServerClient } from '@/lib/supabase/server';
 import { ClientWrapper } from '@/components/ClientWrapper';
+import { getSavedTimezone } from '@/lib/UserTimezone';
 
 export default async function AppLayout({
   children,
@@ -30,6 +31,8 @@ export default async function AppLayout({
     redirect(`/login?next=${encodeURIComponent(currentPath)}`);
   }
 
+  const timezone = await getSavedTimezone(supabase, user.id);
+
   // If session exists, wrap children in the ClientWrapper
-  return <ClientWrapper>{children}</ClientWrapper>;
+  return <ClientWrapper timezone={timezone}>{children}</ClientWrapper>;
 }
\ No newline at end of file
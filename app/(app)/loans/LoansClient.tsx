@@ -1,7 +1,7 @@
 'use client'
 
 import React, { useMemo, useState, useTransition, useEffect } from 'react'
-import { useRouter } from 'next/navigation'
+import { useRouter, useSearchParams } from 'next/navigation'
 import { Search, Plus, Loader2, HandCoins } from 'lucide-react'
 import clsx from 'clsx'
 import { useToast } from '@/components/ToastProvider'
@@ -30,6 +30,7 @@ interface LoansClientProps {
 export default function LoansClient({ initialLoans }: LoansClientProps) {
   const [isPending, startTransition] = useTransition()
   const router = useRouter()
+  const searchParams = useSearchParams()
   const { notify } = useToast()
 
   // --- Data State ---
@@ -100,6 +101,19 @@ export default function LoansClient({ initialLoans }: LoansClientProps) {
     setIsDetailsOpen(true)
   }
 
+  // Deep link from the unified calendar: /loans?open=<id>
+  useEffect(() => {
+    const openId = searchParams.get('open')
+    if (!openId) return
+    const target = loans.find((l) => l.id === openId)
+    if (target) {
+      setSelectedLoan(target)
+      setIsDetailsOpen(true)
+    }
+    // Clean up URL
+    router.replace('/loans', { scroll: false })
+  }, [searchParams, router, loans])
+
   const handleDelete = (loan: Loan) => {
     const confirmed = window.confirm(
       `Are you sure you want to delete the loan for ${loan.clientName}? This cannot be undone.`
@@ -3,6 +3,7 @@
 
 import { revalidatePath } from 'next/cache'
 import { createSupabaseServerClient } from '@/lib/supabase/server'
+import { dispatchAutomationEvent, fetchAutomationRecord } from '@/lib/AutomationEngine'
 import type { Loan, LoanFormValues } from '@/lib/loans.types'
 
 /*
@@ -79,19 +80,26 @@ export async function upsertLoan(
   try {
     if (isEditing) {
       // Update existing loan
+      const previous = await fetchAutomationRecord(supabase, 'loan', formData.id!)
       const { error } = await supabase
         .from('loans')
         .update(payload)
         .eq('id', formData.id)
 
       if (error) throw error
+      await dispatchAutomationEvent(supabase, { entity: 'loan', kind: 'updated', recordId: formData.id!, previous })
     } else {
-      // Create new loan
-      const { error } = await supabase
+      // Create new loan (owned by the user; automations scope on user_id)
+      const { data: { user } } = await supabase.auth.getUser()
+      if (!user) throw new Error('User not authenticated.')
+      const { data, error } = await supabase
         .from('loans')
-        .insert(payload)
+        .insert({ ...payload, user_id: user.id })
+        .select('id')
+        .single()
 
       if (error) throw error
+      await dispatchAutomationEvent(supabase, { entity: 'loan', kind: 'created', recordId: data.id })
     }
 
     revalidatePath('/loans')
@@ -19,15 +19,14 @@ import { toZonedTime, format as formatTz } from 'date-fns-tz';
 import { computeSnapshot } from '@/lib/BudgetLogic';
 // We import from the Agenda module, as Calendar is now Agenda
 import { listEventsInRange } from '@/app/(app)/agenda/actions';
+import { getUserTimezone } from '@/lib/UserTimezone';
 
-const NY_TZ = 'America/New_York';
-
-// --- Helper: Format Time ---
-function formatTime(isoString: string | null): string | null {
+// --- Helper: Format Time (in the user's timezone) ---
+function formatTime(isoString: string | null, tz: string): string | null {
   if (!isoString) return null;
   try {
-    const zonedDate = toZonedTime(isoString, NY_TZ);
-    return formatTz(zonedDate, 'h:mm a', { timeZone: NY_TZ });
+    const zonedDate = toZonedTime(isoString, tz);
+    return formatTz(zonedDate, 'h:mm a', { timeZone: tz });
   } catch (e) {
     console.error('Error formatting time:', e);
     return null;
@@ -175,19 +174,20 @@ export async function getPersonalWeekItems(): Promise<WeekItem[]> {
       }));
 
     // --- 2. Fetch Calendar Events/Tasks for the week ---
-    const startLocalISO = formatTz(weekStart, "yyyy-MM-dd'T'00:00:00", { timeZone: NY_TZ });
-    const endLocalISO = formatTz(addDays(weekEnd, 1), "yyyy-MM-dd'T'00:00:00", { timeZone: NY_TZ });
+    const tz = await getUserTimezone(await createSupabaseServerClient(), userId);
+    const startLocalISO = formatTz(weekStart, "yyyy-MM-dd'T'00:00:00", { timeZone: tz });
+    const endLocalISO = formatTz(addDays(weekEnd, 1), "yyyy-MM-dd'T'00:00:00", { timeZone: tz });
 
     const calendarEvents = await listEventsInRange(startLocalISO, endLocalISO);
 
     const calendarItems: WeekItem[] = calendarEvents.map(
       (e) => ({
         id: e.id,
-        dateISO: formatTz(toZonedTime(e.start_ts, NY_TZ), 'yyyy-MM-dd', { timeZone: NY_TZ }),
+        dateISO: formatTz(toZonedTime(e.start_ts, tz), 'yyyy-MM-dd', { timeZone: tz }),
         title: e.title,
         source: 'calendar',
-        startTime: formatTime(e.start_ts),
-        endTime: formatTime(e.end_ts),
+        startTime: formatTime(e.start_ts, tz),
+        endTime: formatTime(e.end_ts, tz),
         category: e.category,
         location: (e as any).location ?? null,
         notes: (e as any).notes ?? null,
@@ -2,12 +2,18 @@ import * as React from 'react';
 import { getPersonalDashboardKpiData, getPersonalWeekItems } from './actions';
 import { listAgendaItemsForDay } from '@/app/(app)/agenda/actions';
 import DashboardClient from './DashboardClient';
-import { format } from 'date-fns';
+import { formatInTimeZone } from 'date-fns-tz';
+import { createSupabaseServerClient } from '@/lib/supabase/server';
+import { DEFAULT_TIMEZONE, getUserTimezone } from '@/lib/UserTimezone';
 
 export default async function PersonalDashboardPage() {
   const kpiDataPromise = getPersonalDashboardKpiData();
   const weekItemsPromise = getPersonalWeekItems();
-  const todayISO = format(new Date(), 'yyyy-MM-dd');
+  // "Today" is the current date in the user's timezone
+  const supabase = await createSupabaseServerClient();
+  const { data: auth } = await supabase.auth.getUser();
+  const timezone = auth?.user ? await getUserTimezone(supabase, auth.user.id) : DEFAULT_TIMEZONE;
+  const todayISO = formatInTimeZone(new Date(), timezone, 'yyyy-MM-dd');
   
   const todaysAgendaPromise = listAgendaItemsForDay(todayISO).catch((err) => {
     console.error("Error fetching today's agenda items:", err);
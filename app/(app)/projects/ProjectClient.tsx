@@ -1,6 +1,7 @@
 'use client'
 
 import React from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
 import {
   getProjects,
   createProject,
@@ -159,6 +160,18 @@ export default function ProjectClient({
     setDrawer({ open: true, project: p })
   }
 
+  // Deep link from the unified calendar: /projects?open=<id>
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  React.useEffect(() => {
+    const openId = searchParams.get('open')
+    if (!openId) return
+    const target = projects.find((p) => p.id === openId)
+    if (target) setDrawer({ open: true, project: target })
+    // Clean up URL
+    router.replace('/projects', { scroll: false })
+  }, [searchParams, router, projects])
+
   // Render
   return (
     <div className="space-y-4">
@@ -3,6 +3,7 @@
 
 import { revalidatePath } from 'next/cache'
 import { createSupabaseServerClient } from '@/lib/supabase/server'
+import { dispatchAutomationEvent, fetchAutomationRecord } from '@/lib/AutomationEngine'
 import type { ProjectType } from '@/lib/types'
 
 /* =========================================================
@@ -175,8 +176,11 @@ export type UpdateProjectInput = Partial<CreateProjectInput>
 
 export async function createProject(input: CreateProjectInput): Promise<Project> {
   const supabase = await createSupabaseServerClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) throw new Error('User not authenticated.')
 
   const dbRow = {
+    user_id: user.id,
     name: input.name,
     description: input.description,
     client_name: input.clientName || null,
@@ -197,6 +201,8 @@ export async function createProject(input: CreateProjectInput): Promise<Project>
     throw error
   }
 
+  await dispatchAutomationEvent(supabase, { entity: 'project', kind: 'created', recordId: data.id })
+
   revalidatePath('/projects')
   revalidatePath('/payments')
 
@@ -237,6 +243,8 @@ export async function updateProject(
 
   Object.keys(dbPatch).forEach((k) => dbPatch[k] === undefined && delete dbPatch[k])
 
+  const previous = await fetchAutomationRecord(supabase, 'project', id)
+
   const { data, error } = await supabase
     .from('projects')
     .update(dbPatch)
@@ -249,6 +257,8 @@ export async function updateProject(
     throw error
   }
 
+  await dispatchAutomationEvent(supabase, { entity: 'project', kind: 'updated', recordId: id, previous })
+
   revalidatePath('/projects')
   revalidatePath('/payments')
 
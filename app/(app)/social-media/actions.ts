@@ -59,7 +59,7 @@ const mockLeads: Record<string, Lead> = {
     contactId: 'c31',
     serviceType: 'social_media',
     sourceChannel: 'google_ads',
-    currentStage: 'planning', // 'planning' for a campaign in planning
+    currentStage: 'discovery', // 'discovery' for a campaign in planning
     stageTs: {
       lead: '2025-03-12T11:00:00Z',
     },
@@ -1,15 +1,10 @@
 import { NextResponse } from 'next/server';
 import { revalidatePath } from 'next/cache';
 import { createSupabaseServerClient } from '@/lib/supabase/server';
-import { fromZonedTime } from 'date-fns-tz';
-
-const NY_TZ = 'America/New_York';
-
-function toUtcISOFromNY(localISO: string | null | undefined) {
-  if (!localISO) return null;
-  // Accepts "YYYY-MM-DDTHH:mm" in NY-local, returns UTC ISO string.
-  return fromZonedTime(localISO, NY_TZ).toISOString();
-}
+import { listEventsInRange } from '@/app/(app)/agenda/actions';
+import { buildRRule, parseRRule } from '@/lib/AgendaRecurrence';
+import { isValidTimeZone } from '@/lib/ICalendar';
+import { getUserTimezone, localToUtcISO } from '@/lib/UserTimezone';
 
 // GET /api/agenda/events?startLocalISO=YYYY-MM-DDTHH:mm&endLocalISO=YYYY-MM-DDTHH:mm
 export async function GET(req: Request) {
@@ -25,9 +20,6 @@ export async function GET(req: Request) {
       );
     }
 
-    const startUtc = toUtcISOFromNY(startLocalISO)!;
-    const endUtc = toUtcISOFromNY(endLocalISO)!;
-
     const supabase = await createSupabaseServerClient();
     const {
       data: { user },
@@ -38,22 +30,10 @@ export async function GET(req: Request) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    // Overlap: (start_ts <= endUtc) AND (end_ts IS NULL OR end_ts >= startUtc)
-    const { data, error } = await supabase
-      .from('calendar_events')
-      // --- SELECT includes category, location, and notes ---
-      .select('id, title, start_ts, end_ts, kind, category, status, world, all_day, location, notes')
-      .eq('user_id', user.id)
-      .lte('start_ts', endUtc)
-      .or(`end_ts.gte.${startUtc},end_ts.is.null`)
-      .order('start_ts', { ascending: true });
+    // Recurring series are expanded into one item per occurrence
+    const data = await listEventsInRange(startLocalISO, endLocalISO);
 
-    if (error) {
-       console.error("Supabase GET error:", error);
-      return NextResponse.json({ error: error.message }, { status: 500 });
-    }
-
-    return NextResponse.json(data ?? []);
+    return NextResponse.json(data);
   } catch (err: any) {
     console.error("GET handler error:", err);
     return NextResponse.json({ error: err?.message ?? 'Server error' }, { status: 500 });
@@ -61,7 +41,8 @@ export async function GET(req: Request) {
 }
 
 // POST /api/agenda/events
-// Accepts payload including optional location and notes
+// Accepts payload including optional location, notes, rrule (recurring events) and
+// timezone (the event's own zone; defaults to the user's timezone)
 export async function POST(req: Request) {
   try {
     const supabase = await createSupabaseServerClient();
@@ -100,6 +81,17 @@ export async function POST(req: Request) {
     let all_day: boolean;
     const status: string = typeof raw.status === 'string' ? raw.status : 'scheduled';
     const kind: string = typeof raw.kind === 'string' ? raw.kind : 'event';
+    // Optional RRULE value (e.g. "FREQ=WEEKLY;BYDAY=MO"); normalized before insert
+    let rrule: string | null = null;
+    if (typeof raw.rrule === 'string' && raw.rrule.trim()) {
+      const rule = parseRRule(raw.rrule);
+      if (!rule) {
+        return NextResponse.json({ error: 'Invalid rrule' }, { status: 400 });
+      }
+      rrule = buildRRule(rule);
+    }
+    // Local times (start_local/end_local) are read in the event's zone
+    const timezone: string = isValidTimeZone(raw.timezone) ? raw.timezone : await getUserTimezone(supabase, user.id);
 
     if (hasApiTimes) {
       // API shape handling
@@ -117,8 +109,8 @@ export async function POST(req: Request) {
       all_day = raw.all_day;
     } else {
       // Legacy UI shape handling
-      start_ts = toUtcISOFromNY(raw.start_local);
-      end_ts = toUtcISOFromNY(raw.end_local ?? undefined);
+      start_ts = localToUtcISO(raw.start_local, timezone);
+      end_ts = localToUtcISO(raw.end_local ?? undefined, timezone);
       world = (category === 'Work' || category === 'Business') ? 'Business' : 'Personal';
       all_day = typeof raw.all_day === 'boolean' ? raw.all_day : false;
     }
@@ -149,10 +141,12 @@ export async function POST(req: Request) {
           kind,
           location,
           notes,
+          rrule,
+          timezone,
         },
       ])
       // --- SELECT includes category, location, and notes after insert ---
-      .select('id, title, start_ts, end_ts, category, world, all_day, status, kind, location, notes')
+      .select('id, title, start_ts, end_ts, category, world, all_day, status, kind, location, notes, rrule, timezone')
       .single();
 
     if (error) {
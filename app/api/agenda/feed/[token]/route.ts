@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server';
+import { createSupabaseAdminClient } from '@/lib/supabase/admin';
+import { buildICS, calendarRowToIcsEvent } from '@/lib/ICalendar';
+import { getUserTimezone } from '@/lib/UserTimezone';
+
+// How far back the feed reaches for one-off events (series are always included)
+const FEED_LOOKBACK_DAYS = 365;
+
+// GET /api/agenda/feed/<token>.ics
+// iCalendar subscription feed for phones and desktop calendar apps. These
+// clients cannot sign in, so the secret token in the URL identifies the user;
+// it is created/reset from the Agenda page. Excluded from the auth middleware.
+export async function GET(_req: Request, { params }: { params: Promise<{ token: string }> }) {
+  const token = (await params).token.replace(/\.ics$/i, '');
+  if (!token) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  try {
+    const supabase = createSupabaseAdminClient();
+
+    const { data: feed, error: feedError } = await supabase
+      .from('calendar_feeds')
+      .select('user_id')
+      .eq('token', token)
+      .maybeSingle();
+
+    if (feedError) {
+      console.error('Calendar feed lookup error:', feedError);
+      return NextResponse.json({ error: feedError.message }, { status: 500 });
+    }
+    if (!feed) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    const since = new Date(Date.now() - FEED_LOOKBACK_DAYS * 86_400_000).toISOString();
+    const { data, error } = await supabase
+      .from('calendar_events')
+      .select('id, title, start_ts, end_ts, all_day, category, location, notes, ical_uid, recurrence_id, series_id, rrule, exdates, timezone')
+      .eq('user_id', feed.user_id)
+      .or(`start_ts.gte.${since},rrule.not.is.null,series_id.not.is.null`)
+      .order('start_ts', { ascending: true });
+
+    if (error) {
+      console.error('Calendar feed events error:', error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    // Modified occurrences share their series' UID
+    const rows = data ?? [];
+    const uidById = new Map(rows.map((row) => [row.id, calendarRowToIcsEvent(row).uid]));
+    const events = rows.map((row) => calendarRowToIcsEvent(row, row.series_id ? uidById.get(row.series_id) : undefined));
+
+    const defaultTz = await getUserTimezone(supabase, feed.user_id);
+    const body = buildICS(events, { name: 'Agenda', defaultTz });
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="agenda.ics"',
+        'Cache-Control': 'private, max-age=300',
+      },
+    });
+  } catch (err: any) {
+    console.error('Calendar feed error:', err);
+    return NextResponse.json({ error: err?.message ?? 'Server error' }, { status: 500 });
+  }
+}
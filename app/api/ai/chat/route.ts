@@ -0,0 +1,110 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { format } from 'date-fns';
+import { createSupabaseServerClient } from '@/lib/supabase/server';
+import { getChatProvider, type ProviderMessage } from '@/lib/ai/provider';
+import { runAssistantTurn } from '@/lib/ai/runner';
+import { ASSISTANT_PIN_ENTITIES, type AssistantStreamEvent, type AssistantThreadPin } from '@/lib/ai.types';
+
+const requestSchema = z.object({
+  messages: z
+    .array(
+      z.object({
+        role: z.enum(['user', 'assistant']),
+        content: z.string(),
+      })
+    )
+    .min(1),
+  pin: z
+    .object({ entity: z.enum(ASSISTANT_PIN_ENTITIES), id: z.string(), label: z.string() })
+    .nullish(),
+});
+
+const PIN_NOUNS: Record<AssistantThreadPin['entity'], string> = {
+  lead: 'CRM lead',
+  project: 'project',
+  immigration_case: 'immigration case',
+  student: 'class student',
+};
+
+function systemPrompt(now: Date, pin?: AssistantThreadPin | null) {
+  return [
+    'You are the assistant inside a small-business management app (CRM leads, projects, classes, loans, budget, agenda).',
+    `Today is ${format(now, 'EEEE yyyy-MM-dd')}.`,
+    'Use the tools to look up real records before answering questions about data; never invent records.',
+    'You cannot save anything yourself. To create a lead, payment, agenda item, budget entry or business expense,',
+    'or to set immigration case identifiers, call the matching propose_* tool; the user reviews the proposal and',
+    'confirms it. Never claim a record was saved.',
+    'Money amounts ending in "DopCents" are Dominican pesos in cents; divide by 100 for RD$.',
+    'Answer concisely. When listing records, include the key fields (name, dates, amounts).',
+    ...(pin
+      ? [`This conversation is about the ${PIN_NOUNS[pin.entity]} "${pin.label}" (id ${pin.id}); assume questions refer to it.`]
+      : []),
+  ].join('\n');
+}
+
+// POST /api/ai/chat
+// Body: { messages: [{ role: 'user' | 'assistant', content }], pin?: { entity, id, label } }
+// Streams NDJSON AssistantStreamEvent lines: text deltas, tool activity, proposals, then 'done'.
+export async function POST(req: Request) {
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+    error: userErr,
+  } = await supabase.auth.getUser();
+  if (userErr || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const parsed = requestSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+
+  let provider;
+  try {
+    provider = getChatProvider();
+  } catch (err: any) {
+    return NextResponse.json({ error: err?.message ?? 'AI provider unavailable' }, { status: 503 });
+  }
+
+  const now = new Date();
+  const messages: ProviderMessage[] = [
+    { role: 'system', content: systemPrompt(now, parsed.data.pin) },
+    ...parsed.data.messages,
+  ];
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: AssistantStreamEvent) => {
+        try {
+          controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+        } catch {
+          // Client disconnected; nothing left to deliver to
+        }
+      };
+
+      try {
+        await runAssistantTurn({ provider, messages, now, signal: req.signal, onEvent: send });
+        send({ type: 'done' });
+      } catch (err: any) {
+        console.error('AI chat error:', err);
+        send({ type: 'error', message: err?.message ?? 'The assistant failed to respond.' });
+      } finally {
+        try {
+          controller.close();
+        } catch {
+          // Already closed by a client disconnect
+        }
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'application/x-ndjson; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+    },
+  });
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { createSupabaseServerClient } from '@/lib/supabase/server';
+import { getChatProvider } from '@/lib/ai/provider';
+import { analyzeDocument } from '@/lib/ai/documents';
+import { ASSISTANT_DOCUMENT_MAX_BYTES, ASSISTANT_DOCUMENT_TYPES } from '@/lib/ai.types';
+
+// POST /api/ai/extract
+// Body: multipart/form-data with a single `file` (PDF, PNG, JPEG or WebP, up to 10 MB).
+// Returns AssistantDocumentAnalysis: a summary plus proposals for the user to review.
+export async function POST(req: Request) {
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+    error: userErr,
+  } = await supabase.auth.getUser();
+  if (userErr || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const form = await req.formData().catch(() => null);
+  const file = form?.get('file');
+  if (!(file instanceof File)) {
+    return NextResponse.json({ error: 'Missing file' }, { status: 400 });
+  }
+  if (!(ASSISTANT_DOCUMENT_TYPES as readonly string[]).includes(file.type)) {
+    return NextResponse.json({ error: 'Upload a PDF or an image (PNG, JPEG, WebP).' }, { status: 415 });
+  }
+  if (file.size > ASSISTANT_DOCUMENT_MAX_BYTES) {
+    return NextResponse.json({ error: 'File is larger than 10 MB.' }, { status: 413 });
+  }
+
+  let provider;
+  try {
+    provider = getChatProvider();
+  } catch (err: any) {
+    return NextResponse.json({ error: err?.message ?? 'AI provider unavailable' }, { status: 503 });
+  }
+
+  try {
+    const analysis = await analyzeDocument(provider, file, new Date(), req.signal);
+    return NextResponse.json(analysis);
+  } catch (err: any) {
+    console.error('AI extract error:', err);
+    return NextResponse.json({ error: err?.message ?? 'Could not read the document.' }, { status: 422 });
+  }
+}
@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server';
+import { createSupabaseAdminClient } from '@/lib/supabase/admin';
+import { mapAutomationRow, sweepAutomation } from '@/lib/AutomationEngine';
+
+// GET /api/automations/cron
+// Called by the platform scheduler (e.g. every 5 minutes) with
+// `Authorization: Bearer $CRON_SECRET`. Evaluates scheduled and threshold
+// automations for every user and runs the ones that are due.
+export async function GET(req: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || req.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const supabase = createSupabaseAdminClient();
+    const now = new Date();
+
+    const { data, error } = await supabase
+      .from('automations')
+      .select('*')
+      .eq('is_active', true)
+      .in('trigger->>type', ['scheduled', 'threshold_crossed']);
+
+    if (error) {
+      console.error('Automation cron fetch error:', error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    const summary = { evaluated: 0, ran: 0, failed: 0 };
+
+    for (const row of data ?? []) {
+      summary.evaluated += 1;
+      try {
+        const result = await sweepAutomation(
+          supabase,
+          row.user_id,
+          mapAutomationRow(row),
+          now,
+          (row.threshold_state ?? []) as string[]
+        );
+        if (!result) continue;
+        summary.ran += 1;
+        if (result.status === 'error') summary.failed += 1;
+      } catch (err: any) {
+        // One broken automation must not stop the sweep for everyone else
+        summary.failed += 1;
+        console.error(`Automation ${row.id} sweep error:`, err?.message);
+      }
+    }
+
+    return NextResponse.json(summary);
+  } catch (err: any) {
+    console.error('Automation cron handler error:', err);
+    return NextResponse.json({ error: err?.message ?? 'Server error' }, { status: 500 });
+  }
+}
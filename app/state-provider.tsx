@@ -7,6 +7,7 @@ import React, {
   useMemo,
   PropsWithChildren,
 } from 'react';
+import { DEFAULT_TIMEZONE } from '@/lib/UserTimezone';
 
 // --- App State ---
 type AppState = {
@@ -17,6 +18,11 @@ type AppState = {
   
   // Personal: Budget only (Shopping/Checklist removed)
   isAddExpenseModalOpen: boolean;
+
+  // IANA zone local dates/times are shown and entered in (user_settings.timezone)
+  timezone: string;
+  // False while the user has not picked a zone and `timezone` is the default
+  timezoneIsSet: boolean;
 };
 
 // --- Actions ---
@@ -24,7 +30,8 @@ type Action =
   | { type: 'TOGGLE_SIDEBAR' }
   | { type: 'TOGGLE_AI_ASSISTANT' }
   | { type: 'SET_SEARCH_QUERY'; payload: string }
-  | { type: 'SET_EXPENSE_MODAL'; payload: boolean };
+  | { type: 'SET_EXPENSE_MODAL'; payload: boolean }
+  | { type: 'SET_TIMEZONE'; payload: string | null }; // null = back to the default
 
 // --- Initial State ---
 const initialState: AppState = {
@@ -32,6 +39,8 @@ const initialState: AppState = {
   isAIAssistantOpen: false,
   searchQuery: '',
   isAddExpenseModalOpen: false,
+  timezone: DEFAULT_TIMEZONE,
+  timezoneIsSet: false,
 };
 
 // --- Reducer ---
@@ -45,6 +54,8 @@ const appReducer = (state: AppState, action: Action): AppState => {
       return { ...state, searchQuery: action.payload };
     case 'SET_EXPENSE_MODAL':
       return { ...state, isAddExpenseModalOpen: action.payload };
+    case 'SET_TIMEZONE':
+      return { ...state, timezone: action.payload ?? DEFAULT_TIMEZONE, timezoneIsSet: action.payload != null };
     default:
       return state;
   }
@@ -56,8 +67,12 @@ const AppStateContext = createContext<{
   dispatch: React.Dispatch<Action>;
 } | null>(null);
 
-export function AppStateProvider({ children }: PropsWithChildren) {
-  const [state, dispatch] = useReducer(appReducer, initialState);
+export function AppStateProvider({ children, timezone }: PropsWithChildren<{ timezone?: string | null }>) {
+  const [state, dispatch] = useReducer(appReducer, {
+    ...initialState,
+    timezone: timezone ?? initialState.timezone,
+    timezoneIsSet: timezone != null,
+  });
   const value = useMemo(() => ({ state, dispatch }), [state]);
 
   return (
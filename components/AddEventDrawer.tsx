@@ -1,8 +1,14 @@
 'use client';
 
 import * as React from 'react';
-import { X } from 'lucide-react';
+import { AlertTriangle, Clock, Loader2, X } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+import { buildRRule, describeRRule, parseRRule, RRULE_WEEKDAYS } from '@/lib/AgendaRecurrence';
+import { describeConflicts } from '@/lib/Availability';
+import type { BusyBlock, EventEditScope, RecurrenceFrequency } from '@/lib/types';
+import { useAppState } from '@/app/state-provider';
+import { checkAvailability, findNextAvailableSlot } from '@/app/(app)/agenda/actions';
 
 // --- UPDATED Type definition (remains the same structurally) ---
 export type CreateEventPayload = {
@@ -17,6 +23,8 @@ export type CreateEventPayload = {
   all_day: boolean;         // required by API
   location?: string | null;     // --- ADDED ---
   notes?: string | null;        // --- ADDED ---
+  rrule?: string | null;        // RRULE value; null = does not repeat, undefined = unchanged
+  scope?: EventEditScope;       // Editing a recurring event: this occurrence or the whole series
 };
 
 // --- UPDATED Props ---
@@ -28,8 +36,19 @@ type EventDrawerProps = {
   // NEW: Flag for edit mode
   isEditing?: boolean;
   // NEW: Initial data for editing
-  initialData?: Partial<CreateEventPayload & { id?: string }>; // Allow partial data for form population
+  initialData?: Partial<CreateEventPayload & { id?: string; series_id?: string | null }>; // Allow partial data for form population
 };
+
+const WEEKDAY_LABELS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+const FREQUENCY_UNITS: Record<RecurrenceFrequency, string> = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month', YEARLY: 'year' };
+
+// Weekday (0 = Sunday) and "nth weekday of the month" of a local "YYYY-MM-DD"
+function weekdayInfo(dateISO: string) {
+  const d = new Date(`${dateISO}T00:00:00Z`);
+  const dom = d.getUTCDate();
+  const daysInMonth = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 0)).getUTCDate();
+  return { weekday: d.getUTCDay(), nth: dom + 7 > daysInMonth ? -1 : Math.ceil(dom / 7), dom };
+}
 // --- END UPDATE ---
 
 // --- UPDATED Component Signature ---
@@ -58,6 +77,23 @@ export default function AddEventDrawer({
   const [kind, setKind] = React.useState<string>('event');
   const [status, setStatus] = React.useState<string>('scheduled');
   // --- END NEW ---
+  // Recurrence
+  const [freq, setFreq] = React.useState<RecurrenceFrequency | ''>('');
+  const [repeatInterval, setRepeatInterval] = React.useState<string>('1');
+  const [weekdays, setWeekdays] = React.useState<number[]>([]);
+  const [monthlyBy, setMonthlyBy] = React.useState<'day' | 'weekday'>('day');
+  const [ends, setEnds] = React.useState<'never' | 'until' | 'count'>('never');
+  const [untilDate, setUntilDate] = React.useState<string>('');
+  const [count, setCount] = React.useState<string>('10');
+  const [scope, setScope] = React.useState<EventEditScope>('occurrence');
+  const isSeries = isEditing && !!initialData?.series_id;
+  // Availability
+  const { state: { timezone } } = useAppState();
+  const [conflicts, setConflicts] = React.useState<BusyBlock[]>([]);
+  const [reminders, setReminders] = React.useState<BusyBlock[]>([]);
+  const [isFindingSlot, setIsFindingSlot] = React.useState<boolean>(false);
+  const [slotMessage, setSlotMessage] = React.useState<string | null>(null);
+  const editingId = isEditing ? initialData?.id ?? null : null;
 
   // --- NEW: Effect to pre-fill form when editing ---
   React.useEffect(() => {
@@ -78,6 +114,15 @@ export default function AddEventDrawer({
       setKind(initialData.kind || 'event');
       setStatus(initialData.status || 'scheduled');
       // --- END NEW ---
+      const rule = parseRRule(initialData.rrule);
+      setFreq(rule?.freq ?? '');
+      setRepeatInterval(String(rule?.interval ?? 1));
+      setWeekdays(rule?.freq === 'WEEKLY' ? rule.byday.map((d) => RRULE_WEEKDAYS.indexOf(d.slice(-2) as (typeof RRULE_WEEKDAYS)[number])) : []);
+      setMonthlyBy(rule?.freq === 'MONTHLY' && rule.byday.length > 0 ? 'weekday' : 'day');
+      setEnds(rule?.count ? 'count' : rule?.until ? 'until' : 'never');
+      setUntilDate(rule?.until ? `${rule.until.slice(0, 4)}-${rule.until.slice(4, 6)}-${rule.until.slice(6, 8)}` : '');
+      setCount(String(rule?.count ?? 10));
+      setScope('occurrence');
     } else if (isOpen && !isEditing) {
       // Reset form when opening in 'Add' mode
       setTitle('');
@@ -89,6 +134,13 @@ export default function AddEventDrawer({
       setNotes('');
       setKind('event'); // Reset kind
       setStatus('scheduled'); // Reset status
+      setFreq('');
+      setRepeatInterval('1');
+      setWeekdays([]);
+      setMonthlyBy('day');
+      setEnds('never');
+      setUntilDate('');
+      setCount('10');
     }
   }, [isOpen, isEditing, initialData]);
   // --- END NEW ---
@@ -111,6 +163,99 @@ export default function AddEventDrawer({
   }, [allDay, startLocal, endLocal]); // Added endLocal dependency
 
 
+  // RRULE from the Repeat controls, anchored on the start date
+  const startDate = startLocal.split('T')[0];
+  const rrule = React.useMemo(() => {
+    if (!freq || !startDate) return null;
+    const { weekday, nth } = weekdayInfo(startDate);
+    const byday =
+      freq === 'WEEKLY' && weekdays.length > 0 && !(weekdays.length === 1 && weekdays[0] === weekday)
+        ? [...weekdays].sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7)).map((d) => RRULE_WEEKDAYS[d])
+        : freq === 'MONTHLY' && monthlyBy === 'weekday'
+          ? [`${nth}${RRULE_WEEKDAYS[weekday]}`]
+          : [];
+    return buildRRule({
+      freq,
+      interval: Math.max(1, Math.floor(Number(repeatInterval) || 1)),
+      byday,
+      bymonthday: [],
+      bymonth: [],
+      count: ends === 'count' ? Math.max(1, Math.floor(Number(count) || 1)) : null,
+      until: ends === 'until' && untilDate ? untilDate.replace(/-/g, '') : null,
+    });
+  }, [freq, startDate, weekdays, monthlyBy, repeatInterval, ends, count, untilDate]);
+
+  // Overlap check against the agenda and class sessions, plus immigration due dates that day (debounced)
+  React.useEffect(() => {
+    if (!isOpen || !startLocal || kind === 'task') {
+      setConflicts([]);
+      setReminders([]);
+      return;
+    }
+    let cancelled = false;
+    const handle = setTimeout(async () => {
+      try {
+        const res = await checkAvailability({
+          start_ts: fromZonedTime(startLocal, timezone).toISOString(),
+          end_ts: endLocal && !allDay ? fromZonedTime(endLocal, timezone).toISOString() : null,
+          all_day: allDay,
+          ignore: editingId ? { source: 'agenda', id: editingId } : null,
+        });
+        if (!cancelled) {
+          setConflicts(res.success ? res.conflicts ?? [] : []);
+          setReminders(res.success ? res.reminders ?? [] : []);
+        }
+      } catch (error) {
+        console.error('Error checking availability:', error);
+        if (!cancelled) {
+          setConflicts([]);
+          setReminders([]);
+        }
+      }
+    }, 400);
+    return () => {
+      cancelled = true;
+      clearTimeout(handle);
+    };
+  }, [isOpen, startLocal, endLocal, allDay, kind, timezone, editingId]);
+
+  React.useEffect(() => {
+    if (isOpen) setSlotMessage(null);
+  }, [isOpen]);
+
+  // Moves the event to the next free slot in working hours, keeping its length (60 minutes by default)
+  const handleFindSlot = async () => {
+    setIsFindingSlot(true);
+    setSlotMessage(null);
+    try {
+      const start = startLocal ? fromZonedTime(startLocal, timezone).getTime() : null;
+      const end = start != null && endLocal && !allDay ? fromZonedTime(endLocal, timezone).getTime() : null;
+      const res = await findNextAvailableSlot({
+        from_ts: start != null ? new Date(start).toISOString() : null,
+        duration_minutes: start != null && end != null && end > start ? (end - start) / 60_000 : 60,
+        ignore: editingId ? { source: 'agenda', id: editingId } : null,
+      });
+      if (!res.success) {
+        setSlotMessage(res.error || 'Could not search for a free slot.');
+      } else if (!res.slot) {
+        setSlotMessage('No free slot in working hours over the next two weeks.');
+      } else {
+        setAllDay(false);
+        setStartLocal(formatInTimeZone(res.slot.start_ts, timezone, "yyyy-MM-dd'T'HH:mm"));
+        setEndLocal(formatInTimeZone(res.slot.end_ts, timezone, "yyyy-MM-dd'T'HH:mm"));
+      }
+    } finally {
+      setIsFindingSlot(false);
+    }
+  };
+
+  const toggleWeekday = (day: number) => {
+    setWeekdays((prev) => {
+      const base = prev.length > 0 ? prev : startDate ? [weekdayInfo(startDate).weekday] : [];
+      return base.includes(day) ? base.filter((d) => d !== day) : [...base, day];
+    });
+  };
+
   // --- UPDATED handleSubmit ---
   async function handleSubmit(e: React.FormEvent<HTMLFormElement>) {
     e.preventDefault();
@@ -142,6 +287,9 @@ export default function AddEventDrawer({
       all_day: allDay,
       location: location.trim() || null,
       notes: notes.trim() || null,
+      // A single occurrence cannot change the series' rule
+      rrule: isSeries && scope === 'occurrence' ? undefined : rrule,
+      scope: isSeries ? scope : undefined,
     };
 
     try {
@@ -212,6 +360,24 @@ export default function AddEventDrawer({
 
                 <div className="relative flex-1 px-6 py-6">
                   <form className="space-y-4" onSubmit={handleSubmit}>
+                    {/* Recurring event: what the edit applies to */}
+                    {isSeries && (
+                      <fieldset className="rounded-[var(--radius-md)] border border-[var(--border-subtle)] bg-[var(--bg-muted)] p-3">
+                        <legend className="sr-only">Apply changes to</legend>
+                        <p className="mb-2 text-sm font-medium">This is a recurring event. Apply changes to:</p>
+                        <div className="flex flex-wrap gap-4 text-sm">
+                          <label className="flex items-center gap-2">
+                            <input type="radio" name="edit-scope" checked={scope === 'occurrence'} onChange={() => setScope('occurrence')} disabled={isSubmitting} />
+                            This event
+                          </label>
+                          <label className="flex items-center gap-2">
+                            <input type="radio" name="edit-scope" checked={scope === 'series'} onChange={() => setScope('series')} disabled={isSubmitting} />
+                            All events in the series
+                          </label>
+                        </div>
+                      </fieldset>
+                    )}
+
                     {/* Event Title (Required) */}
                     <div>
                       <label htmlFor="event-title" className="mb-1 block text-sm font-medium">Event Title</label>
@@ -271,6 +437,151 @@ export default function AddEventDrawer({
                       </div>
                     </div>
 
+                    {/* Availability: overlaps and next free slot */}
+                    {kind !== 'task' && (
+                      <div className="space-y-2">
+                        {conflicts.length > 0 && (
+                          <div role="alert" className="rounded-[var(--radius-md)] border border-[var(--color-warning)]/40 bg-[var(--color-warning)]/10 p-3 text-sm">
+                            <p className="mb-1 flex items-center gap-2 font-medium">
+                              <AlertTriangle size={16} className="text-[var(--color-warning)]" /> Overlaps with
+                            </p>
+                            <ul className="space-y-0.5 text-[var(--text-secondary)]">
+                              {conflicts.slice(0, 5).map((c) => (
+                                <li key={`${c.source}-${c.id}`}>
+                                  {c.title} · {formatInTimeZone(c.start_ts, timezone, 'MMM d, h:mm a')}
+                                </li>
+                              ))}
+                              {conflicts.length > 5 && <li>and {conflicts.length - 5} more</li>}
+                            </ul>
+                          </div>
+                        )}
+                        {reminders.length > 0 && (
+                          <p className="text-xs text-[var(--text-secondary)]">
+                            Also that day: {describeConflicts(reminders)}
+                          </p>
+                        )}
+                        <button
+                          type="button"
+                          onClick={handleFindSlot}
+                          disabled={isSubmitting || isFindingSlot}
+                          className="inline-flex items-center gap-1.5 text-sm font-medium text-[var(--primary)] hover:underline disabled:opacity-60"
+                        >
+                          {isFindingSlot ? <Loader2 size={14} className="animate-spin" /> : <Clock size={14} />} Find next free slot
+                        </button>
+                        {slotMessage && <p className="text-xs text-[var(--text-secondary)]">{slotMessage}</p>}
+                      </div>
+                    )}
+
+                    {/* Repeat */}
+                    {!(isSeries && scope === 'occurrence') && (
+                      <div className="space-y-3">
+                        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                          <div>
+                            <label htmlFor="repeat" className="mb-1 block text-sm font-medium">Repeat</label>
+                            <select
+                              id="repeat"
+                              className={inputClasses}
+                              value={freq}
+                              onChange={(e) => setFreq(e.target.value as RecurrenceFrequency | '')}
+                              disabled={isSubmitting}
+                            >
+                              <option value="">Does not repeat</option>
+                              <option value="DAILY">Daily</option>
+                              <option value="WEEKLY">Weekly</option>
+                              <option value="MONTHLY">Monthly</option>
+                              <option value="YEARLY">Yearly</option>
+                            </select>
+                          </div>
+                          {freq && (
+                            <div>
+                              <label htmlFor="repeat-interval" className="mb-1 block text-sm font-medium">Every</label>
+                              <div className="flex items-center gap-2">
+                                <input
+                                  id="repeat-interval"
+                                  type="number"
+                                  min={1}
+                                  className={inputClasses}
+                                  value={repeatInterval}
+                                  onChange={(e) => setRepeatInterval(e.target.value)}
+                                  disabled={isSubmitting}
+                                />
+                                <span className="text-sm text-[var(--text-secondary)]">{FREQUENCY_UNITS[freq]}{Number(repeatInterval) > 1 ? 's' : ''}</span>
+                              </div>
+                            </div>
+                          )}
+                        </div>
+
+                        {freq === 'WEEKLY' && (
+                          <div className="flex gap-1" role="group" aria-label="Repeat on">
+                            {WEEKDAY_LABELS.map((label, day) => {
+                              const active = weekdays.length > 0 ? weekdays.includes(day) : !!startDate && weekdayInfo(startDate).weekday === day;
+                              return (
+                                <button
+                                  key={day}
+                                  type="button"
+                                  onClick={() => toggleWeekday(day)}
+                                  aria-pressed={active}
+                                  aria-label={RRULE_WEEKDAYS[day]}
+                                  disabled={isSubmitting}
+                                  className={`h-8 w-8 rounded-full text-xs font-medium transition-colors ${active ? 'bg-[var(--primary)] text-white' : 'border border-[var(--border)] text-[var(--text-secondary)] hover:bg-[var(--bg-muted)]'}`}
+                                >
+                                  {label}
+                                </button>
+                              );
+                            })}
+                          </div>
+                        )}
+
+                        {freq === 'MONTHLY' && startDate && (
+                          <select
+                            aria-label="Monthly on"
+                            className={inputClasses}
+                            value={monthlyBy}
+                            onChange={(e) => setMonthlyBy(e.target.value as 'day' | 'weekday')}
+                            disabled={isSubmitting}
+                          >
+                            <option value="day">On day {weekdayInfo(startDate).dom}</option>
+                            <option value="weekday">
+                              {describeRRule(parseRRule(`FREQ=MONTHLY;BYDAY=${weekdayInfo(startDate).nth}${RRULE_WEEKDAYS[weekdayInfo(startDate).weekday]}`)!).replace(/^Monthly on/, 'On')}
+                            </option>
+                          </select>
+                        )}
+
+                        {freq && (
+                          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                            <div>
+                              <label htmlFor="repeat-ends" className="mb-1 block text-sm font-medium">Ends</label>
+                              <select
+                                id="repeat-ends"
+                                className={inputClasses}
+                                value={ends}
+                                onChange={(e) => setEnds(e.target.value as 'never' | 'until' | 'count')}
+                                disabled={isSubmitting}
+                              >
+                                <option value="never">Never</option>
+                                <option value="until">On date</option>
+                                <option value="count">After a number of times</option>
+                              </select>
+                            </div>
+                            {ends === 'until' && (
+                              <div>
+                                <label htmlFor="repeat-until" className="mb-1 block text-sm font-medium">Last Date</label>
+                                <input id="repeat-until" type="date" className={inputClasses} value={untilDate} min={startDate || undefined} onChange={(e) => setUntilDate(e.target.value)} disabled={isSubmitting} />
+                              </div>
+                            )}
+                            {ends === 'count' && (
+                              <div>
+                                <label htmlFor="repeat-count" className="mb-1 block text-sm font-medium">Occurrences</label>
+                                <input id="repeat-count" type="number" min={1} className={inputClasses} value={count} onChange={(e) => setCount(e.target.value)} disabled={isSubmitting} />
+                              </div>
+                            )}
+                          </div>
+                        )}
+
+                        {rrule && <p className="text-xs text-[var(--text-tertiary)]">{describeRRule(parseRRule(rrule)!)}</p>}
+                      </div>
+                    )}
+
                     {/* Category Dropdown */}
                     <div>
                       <label htmlFor="category" className="mb-1 block text-sm font-medium">Category</label>
@@ -0,0 +1,128 @@
+// components/CalendarSyncDialog.tsx
+'use client';
+
+import * as React from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Copy, Loader2, RefreshCw, Upload, X } from 'lucide-react';
+import { useToast } from '@/components/ToastProvider';
+import { getCalendarFeedToken, importCalendarFile, rotateCalendarFeedToken } from '@/app/(app)/agenda/actions';
+
+type CalendarSyncDialogProps = {
+  isOpen: boolean;
+  onClose: () => void;
+  onImported: () => void;
+};
+
+export default function CalendarSyncDialog({ isOpen, onClose, onImported }: CalendarSyncDialogProps) {
+  const { notify } = useToast();
+  const [token, setToken] = React.useState<string | null>(null);
+  const [isLoadingToken, setIsLoadingToken] = React.useState(false);
+  const [isImporting, setIsImporting] = React.useState(false);
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+
+  React.useEffect(() => {
+    if (!isOpen || token) return;
+    setIsLoadingToken(true);
+    getCalendarFeedToken()
+      .then((res) => {
+        if (res.success && res.token) setToken(res.token);
+        else notify({ title: 'Error', description: res.error || 'Could not load the feed link.', variant: 'danger' });
+      })
+      .finally(() => setIsLoadingToken(false));
+  }, [isOpen, token, notify]);
+
+  const feedUrl = token && typeof window !== 'undefined' ? `${window.location.origin}/api/agenda/feed/${token}.ics` : '';
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      notify({ title: 'Link copied', description: 'Paste it into your calendar app as a subscription.', variant: 'success' });
+    } catch {
+      notify({ title: 'Copy failed', description: 'Select the link and copy it manually.', variant: 'warning' });
+    }
+  };
+
+  const handleReset = async () => {
+    setIsLoadingToken(true);
+    const res = await rotateCalendarFeedToken();
+    setIsLoadingToken(false);
+    if (res.success && res.token) {
+      setToken(res.token);
+      notify({ title: 'Link reset', description: 'Calendars subscribed with the old link stop updating.', variant: 'success' });
+    } else {
+      notify({ title: 'Error', description: res.error || 'Could not reset the feed link.', variant: 'danger' });
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsImporting(true);
+    try {
+      const res = await importCalendarFile({ text: await file.text() });
+      if (!res.success || !res.result) {
+        notify({ title: 'Import failed', description: res.error || 'Could not read the calendar file.', variant: 'danger' });
+        return;
+      }
+      const { created, updated, skipped } = res.result;
+      notify({
+        title: 'Calendar imported',
+        description: `${created} added, ${updated} updated${skipped ? `, ${skipped} skipped` : ''}.`,
+        variant: 'success',
+      });
+      onImported();
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <div className="fixed inset-0 z-[1000] flex items-center justify-center p-4" role="dialog" aria-modal="true">
+          <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} onClick={onClose} className="absolute inset-0 bg-black/50" aria-hidden="true" />
+          <motion.div initial={{ opacity: 0, y: 30 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: 30 }} className="relative z-10 w-full max-w-lg rounded-[var(--radius-lg)] bg-[var(--bg-surface)] p-6 shadow-[var(--shadow-3)]">
+            <div className="mb-6 flex items-start justify-between border-b border-[var(--border-subtle)] pb-4">
+              <h2 className="text-[var(--fs-h3)] font-semibold">Calendar Sync</h2>
+              <button onClick={onClose} aria-label="Close" className="rounded-md p-1 text-[var(--text-tertiary)] transition-colors hover:bg-[var(--bg-muted)] hover:text-[var(--text-primary)]"><X size={20} /></button>
+            </div>
+
+            <section className="space-y-2">
+              <h3 className="text-sm font-semibold">Subscribe</h3>
+              <p className="text-sm text-[var(--text-secondary)]">
+                Add this link to Google Calendar, Apple Calendar or Outlook (&ldquo;subscribe from URL&rdquo;) to see your agenda there. Anyone with the link can read your events.
+              </p>
+              <div className="flex gap-2">
+                <input
+                  readOnly
+                  value={isLoadingToken ? 'Loading…' : feedUrl}
+                  onFocus={(e) => e.target.select()}
+                  className="block h-10 w-full min-w-0 rounded-[var(--radius-md)] border border-[var(--border)] bg-[var(--bg-muted)] px-3 text-sm"
+                />
+                <button type="button" onClick={handleCopy} disabled={!feedUrl || isLoadingToken} aria-label="Copy link" className="inline-flex h-10 shrink-0 items-center gap-2 rounded-[var(--radius-md)] border border-[var(--border)] px-3 text-sm font-medium hover:bg-[var(--bg-muted)] disabled:opacity-60">
+                  <Copy size={16} /> Copy
+                </button>
+              </div>
+              <button type="button" onClick={handleReset} disabled={isLoadingToken} className="inline-flex items-center gap-1.5 text-xs font-medium text-[var(--text-secondary)] hover:text-[var(--text-primary)] disabled:opacity-60">
+                <RefreshCw size={12} /> Reset link
+              </button>
+            </section>
+
+            <section className="mt-6 space-y-2 border-t border-[var(--border-subtle)] pt-4">
+              <h3 className="text-sm font-semibold">Import</h3>
+              <p className="text-sm text-[var(--text-secondary)]">
+                Import an .ics file exported from another calendar. Importing the same file again updates its events instead of duplicating them.
+              </p>
+              <input ref={fileInputRef} type="file" accept=".ics,text/calendar" onChange={handleFile} className="hidden" />
+              <button type="button" onClick={() => fileInputRef.current?.click()} disabled={isImporting} className="inline-flex h-10 items-center gap-2 rounded-[var(--radius-md)] bg-[var(--primary)] px-4 text-sm font-medium text-white shadow-sm hover:bg-[var(--primary-600)] disabled:opacity-60">
+                {isImporting ? <Loader2 size={16} className="animate-spin" /> : <Upload size={16} />} Import .ics
+              </button>
+            </section>
+          </motion.div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -2,10 +2,12 @@
 'use client';
 
 import React from 'react';
+import { usePathname } from 'next/navigation';
 import { AppStateProvider } from '@/app/state-provider';
 import { ToastProvider } from '@/components/ToastProvider'; // <-- ADDED
 import { Sidebar } from '@/components/Sidebar';
 import { Topbar } from '@/components/Topbar';
+import AIWidget from '@/components/AIWidget';
 
 /**
  * This client component wraps the main application shell.
@@ -13,9 +15,11 @@ import { Topbar } from '@/components/Topbar';
  * (State, Toasts) so that the Sidebar, Topbar, and
  * page content can all consume them.
  */
-export function ClientWrapper({ children }: { children: React.ReactNode }) {
+export function ClientWrapper({ children, timezone }: { children: React.ReactNode; timezone?: string | null }) {
+  const pathname = usePathname();
+
   return (
-    <AppStateProvider>
+    <AppStateProvider timezone={timezone}>
       <ToastProvider>
         {/* This layout structure is based on your Variedades Velez codebase.
           It uses the new design system's dark mode variables from globals.css
@@ -30,6 +34,8 @@ export function ClientWrapper({ children }: { children: React.ReactNode }) {
             </main>
           </div>
         </div>
+        {/* Floating assistant everywhere except the full-page assistant */}
+        {pathname !== '/ai-assistant' && <AIWidget />}
       </ToastProvider>
     </AppStateProvider>
   );
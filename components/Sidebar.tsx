@@ -7,6 +7,7 @@ import React, { useState, useEffect } from 'react'
 import clsx from 'clsx'
 import {
   LayoutDashboard,
+  CalendarDays,
   Network,
   Briefcase,
   School,
@@ -41,6 +42,7 @@ function usePathname() {
 /* --- 1. Business: Primary Links --- */
 const businessPrimary = [
   { href: '/', label: 'Dashboard', icon: LayoutDashboard },
+  { href: '/calendar', label: 'Calendar', icon: CalendarDays },
   { href: '/crm-pipeline', label: 'CRM Pipeline', icon: Network },
   // Agenda removed (moved to Topbar)
   { href: '/projects', label: 'Projects', icon: Briefcase },
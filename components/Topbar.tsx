@@ -2,13 +2,39 @@
 
 import React from 'react';
 import Link from 'next/link';
-import { Menu, CalendarDays } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import { Menu, CalendarDays, Globe } from 'lucide-react';
 import { useAppState } from '@/app/state-provider';
 import { Button } from '@/components/ui/Button';
+import { useToast } from '@/components/ToastProvider';
+import { updateUserTimezone } from '@/app/(app)/actions';
+import { TIMEZONE_OPTIONS } from '@/lib/UserTimezone';
 
 // --- Main Topbar Component ---
 export function Topbar() {
-  const { dispatch } = useAppState();
+  const { state, dispatch } = useAppState();
+  const router = useRouter();
+  const { notify } = useToast();
+  const [isSavingTz, startSavingTz] = React.useTransition();
+
+  // Keep a saved zone that is not in the short list selectable
+  const tzOptions = TIMEZONE_OPTIONS.includes(state.timezone)
+    ? TIMEZONE_OPTIONS
+    : [state.timezone, ...TIMEZONE_OPTIONS];
+
+  const handleTimezoneChange = (timezone: string) => {
+    const previous = state.timezoneIsSet ? state.timezone : null;
+    dispatch({ type: 'SET_TIMEZONE', payload: timezone });
+    startSavingTz(async () => {
+      const res = await updateUserTimezone({ timezone });
+      if (!res.success) {
+        dispatch({ type: 'SET_TIMEZONE', payload: previous });
+        notify({ title: 'Error', description: res.error || 'Could not save the timezone.', variant: 'danger' });
+        return;
+      }
+      router.refresh();
+    });
+  };
 
   return (
     <header className="sticky top-0 z-10 flex h-16 w-full flex-shrink-0 items-center justify-between border-b border-[var(--border-subtle)] bg-[var(--bg-header)] px-4 sm:px-6">
@@ -27,6 +53,24 @@ export function Topbar() {
 
       {/* 2. Right Side: Actions */}
       <div className="flex items-center gap-3">
+        {/* Timezone */}
+        <label className="hidden items-center gap-1.5 text-sm text-[var(--text-secondary)] sm:flex">
+          <Globe size={16} strokeWidth={1.5} />
+          <span className="sr-only">Timezone</span>
+          <select
+            value={state.timezone}
+            onChange={(e) => handleTimezoneChange(e.target.value)}
+            disabled={isSavingTz}
+            className="h-9 rounded-[var(--radius-md)] border border-[var(--border)] bg-[var(--bg-surface)] px-2 text-sm disabled:opacity-60"
+          >
+            {tzOptions.map((tz) => (
+              <option key={tz} value={tz}>
+                {tz.replace(/_/g, ' ')}
+              </option>
+            ))}
+          </select>
+        </label>
+
         {/* Agenda Button */}
         <Link
           href="/agenda"
@@ -0,0 +1,277 @@
+// components/ai/AssistantChat.tsx
+'use client'
+
+import React, { useEffect, useRef, useState } from 'react'
+import { Send, Sparkles, FileText, Wrench, Square, ClipboardList } from 'lucide-react'
+import { motion } from 'framer-motion'
+import clsx from 'clsx'
+import { Button } from '@/components/ui/Button'
+import type { ChatMessage, useAssistantChat } from './useAssistantChat'
+
+/*
+|--------------------------------------------------------------------------
+| Suggestions
+|--------------------------------------------------------------------------
+*/
+type Suggestion = {
+  id: string
+  label: string
+  prompt: string
+}
+
+export const SUGGESTIONS: Suggestion[] = [
+  {
+    id: 's1',
+    label: 'Find stale leads',
+    prompt: 'Show me leads created more than 14 days ago that are still open, oldest first.',
+  },
+  {
+    id: 's2',
+    label: 'Summarize projects',
+    prompt: 'Summarize my projects: client, due date, and how much of the budget has been paid.',
+  },
+  {
+    id: 's3',
+    label: 'Budget this month',
+    prompt: 'What expenses are still unpaid this month, and what is the total remaining to pay?',
+  },
+  {
+    id: 's4',
+    label: 'This week',
+    prompt: 'What is on my agenda for the next 7 days?',
+  },
+]
+
+/*
+|--------------------------------------------------------------------------
+| Chat Pane
+|--------------------------------------------------------------------------
+*/
+interface AssistantChatProps {
+  chat: ReturnType<typeof useAssistantChat>
+  /** Extra buttons rendered before the text input (attach, mic, ...) */
+  accessories?: React.ReactNode
+  /** Opens the diff panel for a pending proposal */
+  onReviewProposal?: (proposalId: string) => void
+  /** Hides the suggestion chips (compact record views) */
+  hideSuggestions?: boolean
+  placeholder?: string
+  className?: string
+}
+
+export default function AssistantChat({
+  chat,
+  accessories,
+  onReviewProposal,
+  hideSuggestions = false,
+  placeholder = 'Ask about your leads, projects, loans, budget or agenda...',
+  className,
+}: AssistantChatProps) {
+  const { messages, isLoading, isThreadLoading, send, stop } = chat
+  const [input, setInput] = useState('')
+  const historyRef = useRef<HTMLDivElement>(null)
+
+  // Scroll to bottom when new messages or deltas arrive (only the history pane,
+  // so a chat embedded in a detail drawer does not scroll the drawer)
+  useEffect(() => {
+    const el = historyRef.current
+    if (el) el.scrollTo({ top: el.scrollHeight, behavior: 'smooth' })
+  }, [messages])
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!input.trim()) return
+    send(input)
+    setInput('')
+  }
+
+  const awaitingReply = isLoading && messages[messages.length - 1]?.role === 'user'
+
+  return (
+    <div className={clsx('flex h-full flex-col', className)}>
+      {/* Chat History */}
+      <div ref={historyRef} className="flex-1 space-y-4 overflow-y-auto p-6">
+        {messages.map((msg) => (
+          <ChatBubble key={msg.id} message={msg} onReviewProposal={onReviewProposal} />
+        ))}
+        {awaitingReply && <LoadingBubble />}
+      </div>
+
+      {/* Suggestion Chips */}
+      {!hideSuggestions && (
+        <div className="flex flex-wrap gap-2 border-t border-[var(--border-subtle)] bg-[var(--bg-muted)] p-4">
+          {SUGGESTIONS.map((sug) => (
+            <button
+              key={sug.id}
+              onClick={() => send(sug.prompt)}
+              disabled={isLoading || isThreadLoading}
+              className="rounded-[var(--radius-sm)] border border-[var(--border)] bg-[var(--surface-elev-1)] px-3 py-1.5 text-sm font-medium text-[var(--text-primary)] transition-colors hover:bg-[var(--surface-elev-2)] disabled:opacity-50"
+            >
+              {sug.label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Input Bar */}
+      <form
+        onSubmit={handleSubmit}
+        className="flex w-full items-center gap-2 border-t border-[var(--border-subtle)] bg-[var(--surface-elev-2)] p-4"
+      >
+        {accessories}
+        <input
+          type="text"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          placeholder={placeholder}
+          disabled={isLoading || isThreadLoading}
+          className="block w-full rounded-[var(--radius-md)] border border-[var(--border)] bg-[var(--surface-elev-1)] px-4 py-2.5 text-sm text-[var(--text-primary)] shadow-sm transition-colors placeholder:text-[var(--text-tertiary)] focus:border-[var(--primary)] focus:outline-none focus:ring-1 focus:ring-[var(--primary)]"
+        />
+        {isLoading ? (
+          <Button type="button" size="icon" variant="secondary" onClick={stop} aria-label="Stop">
+            <Square size={16} />
+          </Button>
+        ) : (
+          <Button type="submit" size="icon" disabled={!input.trim()} aria-label="Send">
+            <Send size={18} />
+          </Button>
+        )}
+      </form>
+    </div>
+  )
+}
+
+/*
+|--------------------------------------------------------------------------
+| Sub-Components
+|--------------------------------------------------------------------------
+*/
+
+const PROPOSAL_STATUS_LABELS = {
+  pending: 'Awaiting review',
+  applied: 'Saved',
+  dismissed: 'Dismissed',
+} as const
+
+// Chat Bubble Component
+export function ChatBubble({
+  message,
+  onReviewProposal,
+}: {
+  message: ChatMessage
+  onReviewProposal?: (proposalId: string) => void
+}) {
+  const isUser = message.role === 'user'
+
+  return (
+    <div className={clsx('flex w-full items-start gap-3', isUser ? 'flex-row-reverse' : 'flex-row')}>
+      <div
+        className={clsx(
+          'flex h-8 w-8 flex-shrink-0 items-center justify-center rounded-full',
+          isUser ? 'bg-[var(--primary)] text-white' : 'bg-[var(--bg-muted)] text-[var(--primary)]',
+        )}
+      >
+        {isUser ? <span className="text-sm font-bold">U</span> : <Sparkles size={18} />}
+      </div>
+      <div
+        className={clsx(
+          'w-auto max-w-md space-y-2 rounded-[var(--radius-md)] px-4 py-3',
+          isUser
+            ? 'bg-[var(--primary)] text-white'
+            : message.isError
+              ? 'bg-[var(--danger)]/10 text-[var(--danger)]'
+              : 'bg-[var(--bg-muted)] text-[var(--text-primary)]',
+        )}
+      >
+        {message.tools && message.tools.length > 0 && (
+          <div className="flex flex-wrap gap-1.5">
+            {message.tools.map((t, i) => (
+              <span
+                key={i}
+                className={clsx(
+                  'inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs',
+                  t.ok
+                    ? 'border-[var(--border)] text-[var(--text-secondary)]'
+                    : 'border-[var(--danger)]/40 text-[var(--danger)]',
+                )}
+              >
+                <Wrench size={11} />
+                {t.label} · {t.summary}
+              </span>
+            ))}
+          </div>
+        )}
+        {message.content && <p className="whitespace-pre-wrap">{message.content}</p>}
+        {message.proposals?.map(({ proposal, status }) => (
+          <div
+            key={proposal.id}
+            className="flex items-center gap-2 rounded-[var(--radius-sm)] border border-[var(--border)] bg-[var(--surface-elev-1)] px-2.5 py-1.5 text-sm"
+          >
+            <ClipboardList size={14} className="flex-shrink-0 text-[var(--primary)]" />
+            <span className="min-w-0 flex-1 truncate">{proposal.title}</span>
+            {status === 'pending' && onReviewProposal ? (
+              <button
+                type="button"
+                onClick={() => onReviewProposal(proposal.id)}
+                className="text-xs font-medium text-[var(--primary)] hover:underline"
+              >
+                Review
+              </button>
+            ) : (
+              <span
+                className={clsx(
+                  'text-xs font-medium',
+                  status === 'applied' && 'text-[var(--success)]',
+                  status === 'dismissed' && 'text-[var(--text-tertiary)]',
+                  status === 'pending' && 'text-[var(--text-secondary)]',
+                )}
+              >
+                {PROPOSAL_STATUS_LABELS[status]}
+              </span>
+            )}
+          </div>
+        ))}
+        {message.files && (
+          <div className="mt-2 rounded-[var(--radius-sm)] border border-black/10 bg-black/10 p-2 text-sm">
+            <div className="flex items-center gap-2 font-medium">
+              <FileText size={16} />
+              <span>{message.files[0].name}</span>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+// Loading... Bubble
+export function LoadingBubble() {
+  return (
+    <div className="flex w-full items-start gap-3">
+      <div
+        className={clsx(
+          'flex h-8 w-8 flex-shrink-0 items-center justify-center rounded-full',
+          'bg-[var(--bg-muted)] text-[var(--primary)]',
+        )}
+      >
+        <Sparkles size={18} />
+      </div>
+      <div
+        className={clsx(
+          'w-auto max-w-md rounded-[var(--radius-md)] px-4 py-3',
+          'bg-[var(--bg-muted)] text-[var(--text-primary)]',
+        )}
+      >
+        <motion.div
+          animate={{ opacity: [0.5, 1, 0.5] }}
+          transition={{ duration: 1.5, repeat: Infinity }}
+          className="flex items-center gap-1.5"
+        >
+          <div className="h-2 w-2 rounded-full bg-current" />
+          <div className="h-2 w-2 rounded-full bg-current" />
+          <div className="h-2 w-2 rounded-full bg-current" />
+        </motion.div>
+      </div>
+    </div>
+  )
+}
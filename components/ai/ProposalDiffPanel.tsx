@@ -0,0 +1,132 @@
+// components/ai/ProposalDiffPanel.tsx
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { ClipboardCheck, X, ArrowRight, Loader2 } from 'lucide-react'
+import clsx from 'clsx'
+import { Button } from '@/components/ui/Button'
+import { useToast } from '@/components/ToastProvider'
+import type { AssistantProposal } from '@/lib/ai.types'
+import { applyProposal } from './applyProposal'
+
+interface ProposalDiffPanelProps {
+  proposal: AssistantProposal
+  /** Other proposals still waiting behind this one */
+  queued?: number
+  onResolved: (status: 'applied' | 'dismissed') => void
+  onClose: () => void
+}
+
+/**
+ * Field-by-field review of an assistant proposal. Nothing is saved until Apply.
+ */
+export default function ProposalDiffPanel({ proposal, queued = 0, onResolved, onClose }: ProposalDiffPanelProps) {
+  const { notify } = useToast()
+  const [included, setIncluded] = useState<Set<string>>(() => new Set(proposal.fields.map((f) => f.key)))
+  const [isSaving, setIsSaving] = useState(false)
+
+  // A new proposal starts with every field checked
+  useEffect(() => {
+    setIncluded(new Set(proposal.fields.map((f) => f.key)))
+  }, [proposal])
+
+  const toggle = (key: string) =>
+    setIncluded((prev) => {
+      const next = new Set(prev)
+      if (next.has(key)) next.delete(key)
+      else next.add(key)
+      return next
+    })
+
+  const handleApply = async () => {
+    setIsSaving(true)
+    try {
+      await applyProposal(proposal, Array.from(included))
+      notify({ title: 'Changes Applied', description: proposal.title, variant: 'success' })
+      onResolved('applied')
+    } catch (e: any) {
+      notify({ title: 'Could not apply changes', description: e?.message, variant: 'danger' })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="flex h-full flex-col">
+      <div className="flex items-center justify-between border-b border-[var(--border-subtle)] p-4">
+        <h3 className="font-sans text-lg font-semibold text-[var(--text-primary)]">
+          Proposed Changes
+        </h3>
+        <Button variant="ghost" size="icon" onClick={onClose} aria-label="Close panel">
+          <X size={20} className="text-[var(--text-secondary)]" />
+        </Button>
+      </div>
+
+      <div className="flex-1 space-y-4 overflow-y-auto p-4">
+        <div>
+          <p className="text-sm font-semibold text-[var(--text-primary)]">{proposal.title}</p>
+          <p className="mt-1 text-xs text-[var(--text-secondary)]">
+            Review each field. Unchecked fields are left out.
+            {queued > 0 && ` ${queued} more proposal${queued === 1 ? '' : 's'} waiting.`}
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          {proposal.fields.map((field) => {
+            const checked = included.has(field.key)
+            return (
+              <label
+                key={field.key}
+                htmlFor={`proposal-${proposal.id}-${field.key}`}
+                className={clsx(
+                  'flex items-center justify-between gap-3 rounded-[var(--radius-md)] border border-[var(--border)] bg-[var(--bg-surface)] p-3',
+                  !checked && 'opacity-60',
+                )}
+              >
+                <div className="min-w-0">
+                  <div className="text-xs font-medium text-[var(--text-secondary)]">
+                    {field.label}
+                    {field.required && <span className="ml-1 text-[var(--text-tertiary)]">(required)</span>}
+                  </div>
+                  {field.before === field.after ? (
+                    <div className="mt-0.5 text-sm font-medium text-[var(--text-primary)]">{field.after}</div>
+                  ) : (
+                    <div className="mt-0.5 flex items-center gap-2 text-sm">
+                      <span className={clsx('text-[var(--text-tertiary)]', field.before !== null && 'line-through')}>
+                        {field.before ?? '—'}
+                      </span>
+                      <ArrowRight size={12} className="flex-shrink-0 text-[var(--text-tertiary)]" />
+                      <span className="break-words font-medium text-[var(--success)]">{field.after}</span>
+                    </div>
+                  )}
+                </div>
+                <input
+                  id={`proposal-${proposal.id}-${field.key}`}
+                  type="checkbox"
+                  checked={checked}
+                  disabled={field.required || isSaving}
+                  onChange={() => toggle(field.key)}
+                  className="h-4 w-4 flex-shrink-0 rounded border-[var(--border)] text-[var(--primary)] focus:ring-[var(--primary)]"
+                />
+              </label>
+            )
+          })}
+        </div>
+      </div>
+
+      <div className="flex gap-2 border-t border-[var(--border-subtle)] bg-[var(--bg-muted)] p-4">
+        <Button variant="secondary" onClick={() => onResolved('dismissed')} disabled={isSaving} className="flex-1">
+          Dismiss
+        </Button>
+        <Button onClick={handleApply} disabled={isSaving} className="flex-1">
+          {isSaving ? (
+            <Loader2 size={16} className="mr-2 animate-spin" />
+          ) : (
+            <ClipboardCheck size={16} className="mr-2" />
+          )}
+          Apply Changes
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,60 @@
+// components/ai/RecordThread.tsx
+'use client'
+
+import React from 'react'
+import { Sparkles } from 'lucide-react'
+import clsx from 'clsx'
+import AssistantChat from './AssistantChat'
+import ProposalDiffPanel from './ProposalDiffPanel'
+import { PIN_ENTITY_LABELS } from './ThreadBar'
+import { useAssistantChat } from './useAssistantChat'
+import type { AssistantThreadPin } from '@/lib/ai.types'
+
+/**
+ * The assistant conversation pinned to a record, for detail views.
+ * Starts a pinned thread on the first message if the record has none yet.
+ */
+export default function RecordThread({ pin, className }: { pin: AssistantThreadPin; className?: string }) {
+  const chat = useAssistantChat({ pin })
+  const { thread, isThreadLoading, activeProposal, pendingProposals, reviewProposal, closeReview, resolveProposal } =
+    chat
+
+  return (
+    <div
+      className={clsx(
+        'relative flex h-[420px] flex-col overflow-hidden rounded-[var(--radius-lg)] border border-[var(--border-subtle)] bg-[var(--bg-surface)]',
+        className,
+      )}
+    >
+      <div className="flex items-center gap-2 border-b border-[var(--border-subtle)] px-4 py-2.5 text-xs text-[var(--text-secondary)]">
+        <Sparkles size={14} className="text-[var(--primary)]" />
+        <span className="truncate">
+          {isThreadLoading
+            ? 'Loading conversation…'
+            : thread
+              ? thread.title
+              : `No conversation about this ${PIN_ENTITY_LABELS[pin.entity].toLowerCase()} yet`}
+        </span>
+      </div>
+
+      <AssistantChat
+        chat={chat}
+        onReviewProposal={reviewProposal}
+        hideSuggestions
+        placeholder={`Ask about ${pin.label}...`}
+        className="min-h-0 flex-1"
+      />
+
+      {activeProposal && (
+        <div className="absolute inset-0 z-10 bg-[var(--surface-elev-1)]">
+          <ProposalDiffPanel
+            proposal={activeProposal}
+            queued={pendingProposals.length - 1}
+            onResolved={(status) => resolveProposal(activeProposal.id, status)}
+            onClose={closeReview}
+          />
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,186 @@
+// components/ai/ThreadBar.tsx
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { Plus, Pin, PinOff, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/Button'
+import { useToast } from '@/components/ToastProvider'
+import {
+  ASSISTANT_PIN_ENTITIES,
+  type AssistantPinEntity,
+  type AssistantThread,
+} from '@/lib/ai.types'
+import { deleteThread, getPinTargets, getThreads } from '@/app/(app)/ai-assistant/actions'
+import type { useAssistantChat } from './useAssistantChat'
+
+export const PIN_ENTITY_LABELS: Record<AssistantPinEntity, string> = {
+  lead: 'Lead',
+  project: 'Project',
+  immigration_case: 'Immigration case',
+  student: 'Student',
+}
+
+const selectClass =
+  'min-w-0 rounded-[var(--radius-sm)] border border-[var(--border)] bg-[var(--surface-elev-1)] px-2 py-1.5 text-sm text-[var(--text-primary)] focus:border-[var(--primary)] focus:outline-none'
+
+/**
+ * Thread switcher for the assistant: pick a saved conversation, start a new
+ * one, pin the current one to a record, or delete it.
+ */
+export default function ThreadBar({ chat }: { chat: ReturnType<typeof useAssistantChat> }) {
+  const { thread, isLoading, isThreadLoading, openThread, setThreadPin } = chat
+  const { notify } = useToast()
+  const [threads, setThreads] = useState<AssistantThread[]>([])
+  const [isPinning, setIsPinning] = useState(false)
+  const [pinEntity, setPinEntity] = useState<AssistantPinEntity>('lead')
+  const [targets, setTargets] = useState<{ id: string; label: string }[]>([])
+  const [targetId, setTargetId] = useState('')
+  const [confirmDelete, setConfirmDelete] = useState(false)
+
+  // Refresh the list when the current thread is created, switched or re-pinned
+  useEffect(() => {
+    getThreads().then(setThreads)
+  }, [thread?.id, thread?.pin?.id])
+
+  useEffect(() => {
+    if (!isPinning) return
+    setTargetId('')
+    getPinTargets(pinEntity).then(setTargets)
+  }, [isPinning, pinEntity])
+
+  useEffect(() => {
+    setConfirmDelete(false)
+    setIsPinning(false)
+  }, [thread?.id])
+
+  const handlePin = async () => {
+    const target = targets.find((t) => t.id === targetId)
+    if (!target) return
+    const error = await setThreadPin({ entity: pinEntity, id: target.id, label: target.label })
+    if (error) {
+      notify({ title: 'Could not pin conversation', description: error, variant: 'danger' })
+      return
+    }
+    setIsPinning(false)
+    notify({ title: 'Conversation Pinned', description: `Shown on ${target.label}.`, variant: 'success' })
+  }
+
+  const handleUnpin = async () => {
+    const error = await setThreadPin(null)
+    if (error) notify({ title: 'Could not unpin conversation', description: error, variant: 'danger' })
+  }
+
+  const handleDelete = async () => {
+    if (!thread) return
+    if (!confirmDelete) {
+      setConfirmDelete(true)
+      return
+    }
+    const res = await deleteThread(thread.id)
+    if (!res.success) {
+      notify({ title: 'Could not delete conversation', description: res.error, variant: 'danger' })
+      return
+    }
+    setThreads((prev) => prev.filter((t) => t.id !== thread.id))
+    openThread(null)
+  }
+
+  const busy = isLoading || isThreadLoading
+
+  return (
+    <div className="space-y-2 border-b border-[var(--border-subtle)] bg-[var(--surface-elev-2)] px-4 py-3">
+      <div className="flex items-center gap-2">
+        <select
+          value={thread?.id ?? ''}
+          onChange={(e) => openThread(e.target.value || null)}
+          disabled={busy}
+          aria-label="Conversation"
+          className={`${selectClass} flex-1`}
+        >
+          <option value="">New conversation</option>
+          {threads.map((t) => (
+            <option key={t.id} value={t.id}>
+              {t.pin ? `${t.title} · ${t.pin.label}` : t.title}
+            </option>
+          ))}
+        </select>
+        <Button variant="ghost" size="icon" onClick={() => openThread(null)} disabled={busy} aria-label="New conversation">
+          <Plus size={18} />
+        </Button>
+        {thread && !thread.pin && (
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setIsPinning((v) => !v)}
+            disabled={busy}
+            aria-label="Pin to a record"
+          >
+            <Pin size={18} />
+          </Button>
+        )}
+        {thread && (
+          <Button
+            variant={confirmDelete ? 'danger' : 'ghost'}
+            size={confirmDelete ? 'sm' : 'icon'}
+            onClick={handleDelete}
+            disabled={busy}
+            aria-label="Delete conversation"
+          >
+            {confirmDelete ? 'Delete?' : <Trash2 size={18} />}
+          </Button>
+        )}
+      </div>
+
+      {thread?.pin && (
+        <div className="flex items-center gap-2 text-xs text-[var(--text-secondary)]">
+          <Pin size={12} className="text-[var(--primary)]" />
+          <span className="truncate">
+            Pinned to {PIN_ENTITY_LABELS[thread.pin.entity].toLowerCase()}{' '}
+            <strong className="text-[var(--text-primary)]">{thread.pin.label}</strong>
+          </span>
+          <button
+            type="button"
+            onClick={handleUnpin}
+            disabled={busy}
+            className="ml-auto inline-flex items-center gap-1 hover:text-[var(--text-primary)]"
+          >
+            <PinOff size={12} /> Unpin
+          </button>
+        </div>
+      )}
+
+      {isPinning && (
+        <div className="flex items-center gap-2">
+          <select
+            value={pinEntity}
+            onChange={(e) => setPinEntity(e.target.value as AssistantPinEntity)}
+            aria-label="Record type"
+            className={selectClass}
+          >
+            {ASSISTANT_PIN_ENTITIES.map((entity) => (
+              <option key={entity} value={entity}>
+                {PIN_ENTITY_LABELS[entity]}
+              </option>
+            ))}
+          </select>
+          <select
+            value={targetId}
+            onChange={(e) => setTargetId(e.target.value)}
+            aria-label="Record"
+            className={`${selectClass} flex-1`}
+          >
+            <option value="">Select…</option>
+            {targets.map((t) => (
+              <option key={t.id} value={t.id}>
+                {t.label}
+              </option>
+            ))}
+          </select>
+          <Button size="sm" onClick={handlePin} disabled={!targetId}>
+            Pin
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
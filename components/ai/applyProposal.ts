@@ -0,0 +1,100 @@
+// components/ai/applyProposal.ts
+'use client'
+
+import { parseProposalPayload, type ProposalInput } from '@/lib/ai/proposals'
+import type { AssistantProposal, AssistantProposalKind } from '@/lib/ai.types'
+import type { CreateEventPayload } from '@/components/AddEventDrawer'
+import { createLeadWithContact } from '@/app/(app)/crm-pipeline/actions'
+import { upsertPayment } from '@/app/(app)/payments/actions'
+import { upsertEntry } from '@/app/(app)/budget/actions'
+import { addSimExpense } from '@/app/(app)/business/actions'
+import { updateCase } from '@/app/(app)/inmigration-services/actions'
+
+type Savers = { [K in AssistantProposalKind]: (input: ProposalInput<K>) => Promise<void> }
+
+// Each kind is saved exactly the way its own module saves it
+const SAVERS: Savers = {
+  async lead(input) {
+    await createLeadWithContact(input)
+  },
+
+  async payment(input) {
+    const res = await upsertPayment({
+      amountDopCents: Math.round(input.amountDop * 100),
+      dateReceived: input.dateReceived,
+      method: input.method,
+      memo: input.memo,
+      projectId: input.projectId ?? null,
+      leadId: input.leadId ?? null,
+    })
+    if (!res.success) throw new Error(res.error || 'Could not save the payment.')
+  },
+
+  async agenda_event(input) {
+    // Same legacy payload AddEventDrawer posts from the agenda page
+    const payload: CreateEventPayload = {
+      title: input.title,
+      start_local: input.start,
+      end_local: input.allDay ? null : (input.end ?? null),
+      category: input.category,
+      status: 'scheduled',
+      kind: input.kind,
+      world: input.category === 'Work' ? 'Business' : 'Personal',
+      all_day: input.allDay,
+      location: input.location ?? null,
+      notes: input.notes ?? null,
+    }
+    const res = await fetch('/api/agenda/events', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
+    })
+    if (!res.ok) {
+      const body = await res.json().catch(() => null)
+      throw new Error(body?.error || 'Could not save the event.')
+    }
+  },
+
+  async budget_entry(input) {
+    await upsertEntry({
+      description: input.description,
+      amount: input.amount,
+      type: input.type,
+      category: input.category,
+      due_date: input.dueDate,
+    })
+  },
+
+  async business_expense(input) {
+    const res = await addSimExpense({
+      description: input.description,
+      category: input.category ?? null,
+      amount: input.amount,
+      expense_type: input.expenseType,
+      notes: input.notes ?? null,
+    })
+    if (!res.success) throw new Error(res.error || 'Could not save the expense.')
+  },
+
+  async immigration_case(input) {
+    // Unchecked identifiers are absent and keep their current value
+    const patch = {
+      ...(input.caseNumber !== undefined ? { case_number: input.caseNumber } : {}),
+      ...(input.passportNumber !== undefined ? { passport_number: input.passportNumber } : {}),
+      ...(input.dsConfirmation !== undefined ? { ds_confirmation: input.dsConfirmation } : {}),
+    }
+    if (Object.keys(patch).length === 0) throw new Error('Select at least one field to update.')
+    const res = await updateCase(input.caseId, patch, undefined, 'Case identifiers updated from an uploaded document.')
+    if (res?.error) throw new Error(res.error)
+  },
+}
+
+/**
+ * Saves a confirmed proposal through the module's existing server action.
+ * Only the fields the user left checked are sent. Throws on failure.
+ */
+export async function applyProposal(proposal: AssistantProposal, includedKeys: string[]): Promise<void> {
+  const parsed = parseProposalPayload(proposal.kind, proposal.payload, includedKeys)
+  if (!parsed.success) throw new Error(parsed.error)
+  await (SAVERS[proposal.kind] as (input: unknown) => Promise<void>)(parsed.data)
+}
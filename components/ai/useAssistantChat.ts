@@ -0,0 +1,405 @@
+// components/ai/useAssistantChat.ts
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import type {
+  AssistantDocumentAnalysis,
+  AssistantMessage,
+  AssistantProposal,
+  AssistantProposalStatus,
+  AssistantStoredMessage,
+  AssistantStreamEvent,
+  AssistantThread,
+  AssistantThreadPin,
+  AssistantToolActivity,
+} from '@/lib/ai.types'
+import {
+  createThread,
+  getPinnedThread,
+  getThreadMessages,
+  getThreads,
+  pinThread,
+  saveThreadMessages,
+} from '@/app/(app)/ai-assistant/actions'
+
+/*
+|--------------------------------------------------------------------------
+| Types
+|--------------------------------------------------------------------------
+*/
+export type ChatProposal = {
+  proposal: AssistantProposal
+  status: AssistantProposalStatus
+}
+
+export type ChatMessage = {
+  id: string
+  role: 'user' | 'ai'
+  content: string
+  files?: { name: string; type: 'pdf' | 'image' }[]
+  /** Tools the model called while producing this reply */
+  tools?: AssistantToolActivity[]
+  /** Write actions proposed in this reply, awaiting the user's confirmation */
+  proposals?: ChatProposal[]
+  isError?: boolean
+}
+
+const GREETING: ChatMessage = {
+  id: 'init-1',
+  role: 'ai',
+  content: 'Hello! I am your AI assistant. How can I help you manage your business today?',
+}
+
+// Message ids double as `ai_messages` primary keys
+const newMessageId = () => crypto.randomUUID()
+
+function toStored(m: ChatMessage): AssistantStoredMessage {
+  return {
+    id: m.id,
+    role: m.role === 'user' ? 'user' : 'assistant',
+    content: m.content,
+    files: m.files,
+    tools: m.tools,
+    proposals: m.proposals,
+    isError: m.isError,
+  }
+}
+
+function fromStored(m: AssistantStoredMessage): ChatMessage {
+  return { ...m, role: m.role === 'user' ? 'user' : 'ai' }
+}
+
+/** Parses an NDJSON response body into stream events. */
+async function* readEvents(body: ReadableStream<Uint8Array>): AsyncIterable<AssistantStreamEvent> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    buffer += decoder.decode(value, { stream: true })
+    const lines = buffer.split('\n')
+    buffer = lines.pop() ?? ''
+    for (const line of lines) {
+      if (line.trim()) yield JSON.parse(line) as AssistantStreamEvent
+    }
+  }
+  if (buffer.trim()) yield JSON.parse(buffer) as AssistantStreamEvent
+}
+
+type UseAssistantChatOptions = {
+  /** Opens the record's pinned thread; a new thread created here is pinned to it */
+  pin?: AssistantThreadPin
+  /** Without a pin, reopen the most recently active thread */
+  resumeLatest?: boolean
+}
+
+/**
+ * Chat state for the assistant, streaming replies from POST /api/ai/chat.
+ * Messages are persisted to the user's current thread (created on the first
+ * message) once each reply finishes.
+ */
+export function useAssistantChat(options: UseAssistantChatOptions = {}) {
+  const { pin, resumeLatest = false } = options
+  const [messages, setMessages] = useState<ChatMessage[]>([GREETING])
+  const [isLoading, setIsLoading] = useState(false)
+  const [thread, setThread] = useState<AssistantThread | null>(null)
+  const [isThreadLoading, setIsThreadLoading] = useState(true)
+  // Last persisted JSON per message id, to save only what changed
+  const savedRef = useRef(new Map<string, string>())
+  const threadRef = useRef<AssistantThread | null>(null)
+  const creatingRef = useRef<Promise<AssistantThread | null> | null>(null)
+  // Diff panel: an explicitly reviewed proposal, and proposals whose panel was closed
+  const [reviewId, setReviewId] = useState<string | null>(null)
+  const [hiddenIds, setHiddenIds] = useState<string[]>([])
+  const abortRef = useRef<AbortController | null>(null)
+
+  const patchMessage = (id: string, patch: (m: ChatMessage) => Partial<ChatMessage>) =>
+    setMessages((prev) => prev.map((m) => (m.id === id ? { ...m, ...patch(m) } : m)))
+
+  const send = useCallback(
+    async (prompt: string) => {
+      if (isLoading || !prompt.trim()) return
+
+      const userMessage: ChatMessage = { id: newMessageId(), role: 'user', content: prompt }
+      const replyId = newMessageId()
+      // Greeting and failed replies are UI-only and not part of the model conversation
+      const history: AssistantMessage[] = [...messages, userMessage]
+        .filter((m) => m.id !== GREETING.id && !m.isError && m.content.trim())
+        .map((m) => ({ role: m.role === 'user' ? 'user' : 'assistant', content: m.content }))
+
+      setMessages((prev) => [...prev, userMessage])
+      setIsLoading(true)
+
+      const controller = new AbortController()
+      abortRef.current = controller
+      let replyStarted = false
+      const ensureReply = () => {
+        if (replyStarted) return
+        replyStarted = true
+        setMessages((prev) => [...prev, { id: replyId, role: 'ai', content: '', tools: [] }])
+      }
+
+      try {
+        const res = await fetch('/api/ai/chat', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ messages: history, pin: threadRef.current?.pin ?? pin ?? null }),
+          signal: controller.signal,
+        })
+        if (!res.ok || !res.body) {
+          const body = await res.json().catch(() => null)
+          throw new Error(body?.error || `Request failed (${res.status})`)
+        }
+
+        for await (const event of readEvents(res.body)) {
+          if (event.type === 'done') break
+          ensureReply()
+          if (event.type === 'text') {
+            patchMessage(replyId, (m) => ({ content: m.content + event.delta }))
+          } else if (event.type === 'tool') {
+            const { type: _type, ...activity } = event
+            patchMessage(replyId, (m) => ({ tools: [...(m.tools ?? []), activity] }))
+          } else if (event.type === 'proposal') {
+            patchMessage(replyId, (m) => ({
+              proposals: [...(m.proposals ?? []), { proposal: event.proposal, status: 'pending' }],
+            }))
+          } else if (event.type === 'error') {
+            patchMessage(replyId, (m) => ({
+              content: m.content ? `${m.content}\n\n${event.message}` : event.message,
+              isError: true,
+            }))
+          }
+        }
+      } catch (e: any) {
+        if (e?.name !== 'AbortError') {
+          ensureReply()
+          patchMessage(replyId, () => ({ content: e?.message || 'The assistant is unavailable.', isError: true }))
+        }
+      } finally {
+        abortRef.current = null
+        setIsLoading(false)
+      }
+    },
+    [isLoading, messages],
+  )
+
+  const stop = useCallback(() => abortRef.current?.abort(), [])
+
+  /*
+  |--------------------------------------------------------------------------
+  | Threads
+  |--------------------------------------------------------------------------
+  */
+
+  const showThread = useCallback((next: AssistantThread | null, stored: AssistantStoredMessage[]) => {
+    threadRef.current = next
+    setThread(next)
+    savedRef.current = new Map(stored.map((m) => [m.id, JSON.stringify(m)]))
+    setMessages([GREETING, ...stored.map(fromStored)])
+    setReviewId(null)
+    setHiddenIds([])
+  }, [])
+
+  /** Switches to a saved thread, or to a fresh unsaved one when `threadId` is null. */
+  const openThread = useCallback(
+    async (threadId: string | null) => {
+      abortRef.current?.abort()
+      if (!threadId) {
+        showThread(null, [])
+        return
+      }
+      setIsThreadLoading(true)
+      const [threads, stored] = await Promise.all([getThreads(), getThreadMessages(threadId)])
+      showThread(threads.find((t) => t.id === threadId) ?? null, stored)
+      setIsThreadLoading(false)
+    },
+    [showThread],
+  )
+
+  /** Pins the current thread to a record (null unpins). Returns an error message on failure. */
+  const setThreadPin = useCallback(async (next: AssistantThreadPin | null): Promise<string | null> => {
+    const current = threadRef.current
+    if (!current) return 'Send a message first so there is a conversation to pin.'
+    const res = await pinThread(current.id, next)
+    if (!res.success || !res.data) return res.error || 'Could not pin the conversation.'
+    threadRef.current = res.data
+    setThread(res.data)
+    return null
+  }, [])
+
+  // Initial thread: the record's pinned thread, or the latest one
+  const pinKey = pin ? `${pin.entity}:${pin.id}` : null
+  useEffect(() => {
+    let cancelled = false
+    ;(async () => {
+      setIsThreadLoading(true)
+      const initial = pin
+        ? await getPinnedThread(pin.entity, pin.id)
+        : resumeLatest
+          ? ((await getThreads())[0] ?? null)
+          : null
+      const stored = initial ? await getThreadMessages(initial.id) : []
+      if (!cancelled) {
+        showThread(initial, stored)
+        setIsThreadLoading(false)
+      }
+    })()
+    return () => {
+      cancelled = true
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [pinKey, resumeLatest, showThread])
+
+  // Persist new or changed messages once the reply has finished
+  useEffect(() => {
+    if (isLoading || isThreadLoading) return
+    const changed = messages
+      .filter((m) => m.id !== GREETING.id)
+      .map(toStored)
+      .filter((m) => savedRef.current.get(m.id) !== JSON.stringify(m))
+    if (changed.length === 0) return
+
+    // Claim them now so a re-render does not save twice
+    for (const m of changed) savedRef.current.set(m.id, JSON.stringify(m))
+    ;(async () => {
+      // The first save creates the thread; saves racing it wait for the same one
+      if (!threadRef.current && !creatingRef.current) {
+        const firstPrompt = changed.find((m) => m.role === 'user')?.content ?? 'New conversation'
+        creatingRef.current = createThread({ title: firstPrompt.slice(0, 80), pin: pin ?? null }).then((res) => {
+          creatingRef.current = null
+          if (!res.success || !res.data) {
+            console.error('Could not create assistant thread:', res.error)
+            return null
+          }
+          threadRef.current = res.data
+          setThread(res.data)
+          return res.data
+        })
+      }
+      const current = threadRef.current ?? (await creatingRef.current)
+      if (!current) {
+        for (const m of changed) savedRef.current.delete(m.id)
+        return
+      }
+      const res = await saveThreadMessages(current.id, changed)
+      if (!res.success) {
+        console.error('Could not save assistant messages:', res.error)
+        for (const m of changed) savedRef.current.delete(m.id)
+      }
+    })()
+  }, [messages, isLoading, isThreadLoading, pin])
+
+  /**
+   * Uploads a document to POST /api/ai/extract. The summary and any proposals
+   * arrive as an assistant reply, so they can be reviewed like chat proposals.
+   */
+  const analyzeFile = useCallback(
+    async (file: File) => {
+      if (isLoading) return
+
+      const userMessage: ChatMessage = {
+        id: newMessageId(),
+        role: 'user',
+        content: `Please analyze ${file.name}.`,
+        files: [{ name: file.name, type: file.type === 'application/pdf' ? 'pdf' : 'image' }],
+      }
+      const replyId = newMessageId()
+      setMessages((prev) => [...prev, userMessage])
+      setIsLoading(true)
+
+      const controller = new AbortController()
+      abortRef.current = controller
+      try {
+        const body = new FormData()
+        body.append('file', file)
+        const res = await fetch('/api/ai/extract', { method: 'POST', body, signal: controller.signal })
+        const data = await res.json().catch(() => null)
+        if (!res.ok || !data) throw new Error(data?.error || `Request failed (${res.status})`)
+
+        const analysis = data as AssistantDocumentAnalysis
+        setMessages((prev) => [
+          ...prev,
+          {
+            id: replyId,
+            role: 'ai',
+            content: analysis.summary || `I could not find anything to file from ${file.name}.`,
+            tools: analysis.tools,
+            proposals: analysis.proposals.map((proposal) => ({ proposal, status: 'pending' })),
+          },
+        ])
+      } catch (e: any) {
+        if (e?.name !== 'AbortError') {
+          setMessages((prev) => [
+            ...prev,
+            { id: replyId, role: 'ai', content: e?.message || 'The document could not be analyzed.', isError: true },
+          ])
+        }
+      } finally {
+        abortRef.current = null
+        setIsLoading(false)
+      }
+    },
+    [isLoading],
+  )
+
+  /**
+   * Marks a proposal applied or dismissed and records the outcome as an assistant
+   * turn, so the model knows on the next request what was actually saved.
+   */
+  const resolveProposal = useCallback((proposalId: string, status: Exclude<AssistantProposalStatus, 'pending'>) => {
+    setMessages((prev) => {
+      const owner = prev.find((m) => m.proposals?.some((p) => p.proposal.id === proposalId))
+      const target = owner?.proposals?.find((p) => p.proposal.id === proposalId)
+      if (!owner || !target || target.status !== 'pending') return prev
+
+      const updated = prev.map((m) =>
+        m.id === owner.id
+          ? { ...m, proposals: m.proposals!.map((p) => (p.proposal.id === proposalId ? { ...p, status } : p)) }
+          : m,
+      )
+      const outcome = status === 'applied' ? 'Saved' : 'Dismissed, nothing was saved'
+      return [...updated, { id: newMessageId(), role: 'ai', content: `${outcome}: ${target.proposal.title}.` }]
+    })
+    setReviewId(null)
+  }, [])
+
+  // Proposals still waiting for a decision, oldest first
+  const pendingProposals = messages.flatMap((m) =>
+    (m.proposals ?? []).filter((p) => p.status === 'pending').map((p) => p.proposal),
+  )
+  /** The proposal the diff panel shows: the one picked for review, else the oldest not closed. */
+  const activeProposal =
+    pendingProposals.find((p) => p.id === reviewId) ?? pendingProposals.find((p) => !hiddenIds.includes(p.id)) ?? null
+
+  const reviewProposal = useCallback((proposalId: string) => {
+    setHiddenIds((prev) => prev.filter((id) => id !== proposalId))
+    setReviewId(proposalId)
+  }, [])
+
+  /** Closes the panel without deciding; the proposal stays pending in the chat. */
+  const closeReview = useCallback(() => {
+    if (activeProposal) setHiddenIds((prev) => [...prev, activeProposal.id])
+    setReviewId(null)
+  }, [activeProposal])
+
+  return {
+    messages,
+    setMessages,
+    isLoading,
+    setIsLoading,
+    send,
+    stop,
+    analyzeFile,
+    thread,
+    isThreadLoading,
+    openThread,
+    setThreadPin,
+    pendingProposals,
+    activeProposal,
+    reviewProposal,
+    closeReview,
+    resolveProposal,
+  }
+}
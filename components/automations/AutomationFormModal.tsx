@@ -3,9 +3,27 @@
 
 import React, { useState, useEffect } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
-import { X, Loader2 } from 'lucide-react'
+import { X, Loader2, Plus, Trash2 } from 'lucide-react'
 import { Button } from '@/components/ui/Button'
-import type { Automation } from '@/app/(app)/automations/actions'
+import type {
+  Automation,
+  AutomationAction,
+  AutomationActionType,
+  AutomationEntity,
+  AutomationFormValues,
+  AutomationTrigger,
+  AutomationTriggerType,
+} from '@/lib/automations.types'
+import {
+  AUTOMATION_ACTION_TYPES,
+  AUTOMATION_ENTITIES,
+  AUTOMATION_TRIGGER_TYPES,
+} from '@/lib/automations.types'
+import { ENTITY_LABELS, isValidCron, toConditionGroup } from '@/lib/AutomationEngine'
+import { ENTITY_FIELDS, getFieldSpec, numericFields } from '@/lib/automations.fields'
+import type { BudgetCategory } from '@/lib/types'
+import { getBudgetCategories } from '@/app/(app)/budget/actions'
+import ConditionBuilder, { ConditionValueInput } from './ConditionBuilder'
 import clsx from 'clsx'
 
 /*
@@ -14,19 +32,84 @@ import clsx from 'clsx'
 |--------------------------------------------------------------------------
 */
 
-// Mock triggers based on the data in actions.ts
-const MOCK_TRIGGERS = [
-  "On 'Lead' stage entry",
-  'Daily at 9:00 AM',
-  "On 'Project' status change",
-  "On 'Class Session' completion",
-  'Weekly on Monday',
-]
+const TRIGGER_LABELS: Record<AutomationTriggerType, string> = {
+  record_created: 'Record created',
+  field_changed: 'Field changed',
+  scheduled: 'On a schedule',
+  threshold_crossed: 'Threshold crossed',
+}
+
+const ACTION_LABELS: Record<AutomationActionType, string> = {
+  create_agenda_task: 'Create agenda task',
+  create_budget_entry: 'Create budget entry',
+  add_crm_note: 'Add CRM note',
+  send_message: 'Send templated message',
+}
+
+const TIMEZONES = ['America/Santo_Domingo', 'America/New_York']
+
+const AGENDA_CATEGORIES = ['Work', 'Personal', 'Health', 'Errand', 'Other'] as const
 
 // Re-usable input class from design system
 const inputBaseClass =
   'block w-full rounded-[var(--radius-sm)] border border-[var(--border)] bg-[var(--surface-elev-1)] px-3 py-2 text-sm text-[var(--text-primary)] shadow-sm transition-colors placeholder:text-[var(--text-tertiary)] focus:border-[var(--primary)] focus:outline-none focus:ring-1 focus:ring-[var(--primary)]'
 
+/*
+|--------------------------------------------------------------------------
+| Helpers
+|--------------------------------------------------------------------------
+*/
+
+function defaultTrigger(type: AutomationTriggerType, prev?: AutomationTrigger): AutomationTrigger {
+  const entity = prev && 'entity' in prev && prev.entity ? prev.entity : 'lead'
+  // Conditions are tied to the entity's fields, so they carry over only when it stays the same
+  const conditions = prev?.conditions
+  switch (type) {
+    case 'record_created':
+      return { type, entity, conditions }
+    case 'field_changed':
+      return { type, entity, field: ENTITY_FIELDS[entity][0].path, conditions }
+    case 'scheduled':
+      return { type, cron: '0 9 * * *', timezone: TIMEZONES[0], entity: prev ? entity : undefined, conditions }
+    case 'threshold_crossed':
+      return { type, entity, field: numericFields(entity)[0]?.path ?? '', operator: 'lte', value: 0, conditions }
+  }
+}
+
+/** Resets entity-specific parts of the trigger when the entity changes. */
+function withEntity(trigger: AutomationTrigger, entity: AutomationEntity | undefined): AutomationTrigger {
+  if (trigger.type === 'scheduled') return { ...trigger, entity, conditions: undefined }
+  if (!entity) return trigger
+  const base = { ...trigger, entity, conditions: undefined }
+  if (base.type === 'field_changed') return { ...base, field: ENTITY_FIELDS[entity][0].path, to: undefined }
+  if (base.type === 'threshold_crossed') return { ...base, field: numericFields(entity)[0]?.path ?? '' }
+  return base
+}
+
+function defaultAction(type: AutomationActionType): AutomationAction {
+  switch (type) {
+    case 'create_agenda_task':
+      return { type, title: '', dueInDays: 0, category: 'Work' }
+    case 'create_budget_entry':
+      return { type, entryType: 'expense', category: 'other', description: '', amount: 0, dueInDays: 0 }
+    case 'add_crm_note':
+      return { type, note: '' }
+    case 'send_message':
+      return { type, channel: 'email', to: '{{contact.email}}', subject: '', body: '' }
+  }
+}
+
+function emptyForm(initialData: Automation | null): AutomationFormValues {
+  return {
+    id: initialData?.id,
+    name: initialData?.name || '',
+    description: initialData?.description || '',
+    trigger: initialData?.trigger || defaultTrigger('record_created'),
+    actions: initialData?.actions?.length ? initialData.actions : [defaultAction('create_agenda_task')],
+    isActive: initialData?.isActive || false, // Default new automations to inactive
+  }
+}
+
 /*
 |--------------------------------------------------------------------------
 | Modal Component
@@ -35,7 +118,7 @@ const inputBaseClass =
 interface AutomationFormModalProps {
   isOpen: boolean
   onClose: () => void
-  onSave: (data: any) => void
+  onSave: (data: AutomationFormValues) => void
   initialData: Automation | null
   isSaving: boolean
 }
@@ -49,40 +132,49 @@ export default function AutomationFormModal({
 }: AutomationFormModalProps) {
   const isEditing = !!initialData
 
-  const [formState, setFormState] = useState({
-    id: initialData?.id || undefined,
-    name: initialData?.name || '',
-    description: initialData?.description || '',
-    trigger: initialData?.trigger || '',
-  })
+  const [formState, setFormState] = useState<AutomationFormValues>(emptyForm(initialData))
+  const [budgetCategories, setBudgetCategories] = useState<BudgetCategory[]>([])
+
+  // Budget categories are per user, so the entry action's options are loaded on open
+  useEffect(() => {
+    if (!isOpen) return
+    getBudgetCategories()
+      .then(setBudgetCategories)
+      .catch((err) => console.error('Error loading budget categories:', err))
+  }, [isOpen])
 
   useEffect(() => {
     if (isOpen) {
-      setFormState({
-        id: initialData?.id || undefined,
-        name: initialData?.name || '',
-        description: initialData?.description || '',
-        trigger: initialData?.trigger || MOCK_TRIGGERS[0], // Default to first trigger
-      })
+      setFormState(emptyForm(initialData))
     }
   }, [isOpen, initialData])
 
+  const trigger = formState.trigger
+  const entity = 'entity' in trigger ? trigger.entity : undefined
+  const cronInvalid = trigger.type === 'scheduled' && !isValidCron(trigger.cron)
+
   const handleChange = (
-    e: React.ChangeEvent<
-      HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement
-    >,
+    e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>,
   ) => {
     const { name, value } = e.target
     setFormState((prev) => ({ ...prev, [name]: value }))
   }
 
+  const setTrigger = (patch: Partial<AutomationTrigger>) => {
+    setFormState((prev) => ({ ...prev, trigger: { ...prev.trigger, ...patch } as AutomationTrigger }))
+  }
+
+  const setAction = (index: number, patch: Partial<AutomationAction>) => {
+    setFormState((prev) => ({
+      ...prev,
+      actions: prev.actions.map((a, i) => (i === index ? ({ ...a, ...patch } as AutomationAction) : a)),
+    }))
+  }
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault()
-    // Pass the form state up. The `isActive` flag is handled by actions/client
-    onSave({
-      ...formState,
-      isActive: initialData?.isActive || false, // Default new automations to inactive
-    })
+    if (cronInvalid) return
+    onSave(formState)
   }
 
   return (
@@ -106,7 +198,7 @@ export default function AutomationFormModal({
             animate={{ opacity: 1, scale: 1 }}
             exit={{ opacity: 0, scale: 0.95 }}
             transition={{ duration: 0.2, ease: 'easeOut' }}
-            className="relative z-10 w-full max-w-lg rounded-[var(--radius-lg)] border border-[var(--border-subtle)] bg-[var(--surface-elev-1)] shadow-[var(--shadow-3)]"
+            className="relative z-10 w-full max-w-2xl rounded-[var(--radius-lg)] border border-[var(--border-subtle)] bg-[var(--surface-elev-1)] shadow-[var(--shadow-3)]"
           >
             <form onSubmit={handleSubmit}>
               {/* Header */}
@@ -138,35 +230,252 @@ export default function AutomationFormModal({
                   />
                 </FormRow>
 
-                <FormRow label="Trigger">
-                  <select
-                    name="trigger"
-                    value={formState.trigger}
-                    onChange={handleChange}
-                    className={inputBaseClass}
-                    required
-                    disabled={isSaving}
-                  >
-                    {MOCK_TRIGGERS.map((t) => (
-                      <option key={t} value={t}>
-                        {t}
-                      </option>
-                    ))}
-                  </select>
-                </FormRow>
-
                 <FormRow label="Description (What it does)">
                   <textarea
                     name="description"
                     value={formState.description}
                     onChange={handleChange}
-                    rows={3}
+                    rows={2}
                     className={clsx(inputBaseClass, 'h-auto py-2')}
                     placeholder="e.g., When a new lead is created, send the 'Welcome' email template."
-                    required
                     disabled={isSaving}
                   />
                 </FormRow>
+
+                {/* Trigger */}
+                <Section title="Trigger">
+                  <div className="grid grid-cols-2 gap-3">
+                    <FormRow label="When">
+                      <select
+                        value={trigger.type}
+                        onChange={(e) =>
+                          setFormState((prev) => ({
+                            ...prev,
+                            trigger: defaultTrigger(e.target.value as AutomationTriggerType, prev.trigger),
+                          }))
+                        }
+                        className={inputBaseClass}
+                        disabled={isSaving}
+                      >
+                        {AUTOMATION_TRIGGER_TYPES.map((t) => (
+                          <option key={t} value={t}>
+                            {TRIGGER_LABELS[t]}
+                          </option>
+                        ))}
+                      </select>
+                    </FormRow>
+                    <FormRow label={trigger.type === 'scheduled' ? 'For each (optional)' : 'Record'}>
+                      <select
+                        value={entity || ''}
+                        onChange={(e) =>
+                          setFormState((prev) => ({
+                            ...prev,
+                            trigger: withEntity(prev.trigger, (e.target.value || undefined) as AutomationEntity),
+                          }))
+                        }
+                        className={inputBaseClass}
+                        disabled={isSaving}
+                      >
+                        {trigger.type === 'scheduled' && <option value="">— Run once —</option>}
+                        {AUTOMATION_ENTITIES.map((en) => (
+                          <option key={en} value={en}>
+                            {ENTITY_LABELS[en]}
+                          </option>
+                        ))}
+                      </select>
+                    </FormRow>
+                  </div>
+
+                  {trigger.type === 'field_changed' && (
+                    <div className="grid grid-cols-2 gap-3">
+                      <FormRow label="Field">
+                        <select
+                          value={trigger.field}
+                          onChange={(e) => setTrigger({ field: e.target.value, to: undefined })}
+                          className={inputBaseClass}
+                          required
+                          disabled={isSaving}
+                        >
+                          {ENTITY_FIELDS[trigger.entity].map((f) => (
+                            <option key={f.path} value={f.path}>
+                              {f.label}
+                            </option>
+                          ))}
+                        </select>
+                      </FormRow>
+                      <FormRow label="Changes to (optional)">
+                        <ConditionValueInput
+                          spec={getFieldSpec(trigger.entity, trigger.field)}
+                          value={trigger.to}
+                          onChange={(to) => setTrigger({ to })}
+                          placeholder="Any value"
+                          disabled={isSaving}
+                        />
+                      </FormRow>
+                    </div>
+                  )}
+
+                  {trigger.type === 'scheduled' && (
+                    <div className="grid grid-cols-2 gap-3">
+                      <FormRow label="Cron (min hour day month weekday)">
+                        <input
+                          type="text"
+                          value={trigger.cron}
+                          onChange={(e) => setTrigger({ cron: e.target.value })}
+                          className={clsx(inputBaseClass, cronInvalid && 'border-[var(--danger)]')}
+                          placeholder="0 9 * * *"
+                          required
+                          disabled={isSaving}
+                        />
+                        {cronInvalid && (
+                          <p className="mt-1 text-xs text-[var(--danger)]">Invalid cron expression</p>
+                        )}
+                      </FormRow>
+                      <FormRow label="Timezone">
+                        <select
+                          value={trigger.timezone}
+                          onChange={(e) => setTrigger({ timezone: e.target.value })}
+                          className={inputBaseClass}
+                          disabled={isSaving}
+                        >
+                          {TIMEZONES.map((tz) => (
+                            <option key={tz} value={tz}>
+                              {tz}
+                            </option>
+                          ))}
+                        </select>
+                      </FormRow>
+                    </div>
+                  )}
+
+                  {trigger.type === 'threshold_crossed' && (
+                    <div className="grid grid-cols-3 gap-3">
+                      <FormRow label="Field">
+                        <select
+                          value={trigger.field}
+                          onChange={(e) => setTrigger({ field: e.target.value })}
+                          className={inputBaseClass}
+                          required
+                          disabled={isSaving}
+                        >
+                          {numericFields(trigger.entity).map((f) => (
+                            <option key={f.path} value={f.path}>
+                              {f.label}
+                            </option>
+                          ))}
+                        </select>
+                      </FormRow>
+                      <FormRow label="Operator">
+                        <select
+                          value={trigger.operator}
+                          onChange={(e) =>
+                            setTrigger({ operator: e.target.value as 'gt' | 'gte' | 'lt' | 'lte' })
+                          }
+                          className={inputBaseClass}
+                          disabled={isSaving}
+                        >
+                          <option value="gt">&gt;</option>
+                          <option value="gte">≥</option>
+                          <option value="lt">&lt;</option>
+                          <option value="lte">≤</option>
+                        </select>
+                      </FormRow>
+                      <FormRow label="Value">
+                        <input
+                          type="number"
+                          value={trigger.value}
+                          onChange={(e) => setTrigger({ value: Number(e.target.value) })}
+                          className={inputBaseClass}
+                          required
+                          disabled={isSaving}
+                        />
+                      </FormRow>
+                    </div>
+                  )}
+                </Section>
+
+                {/* Conditions */}
+                {entity && (
+                  <Section title="Only when">
+                    <ConditionBuilder
+                      entity={entity}
+                      value={toConditionGroup(trigger.conditions)}
+                      onChange={(conditions) => setTrigger({ conditions })}
+                      disabled={isSaving}
+                    />
+                  </Section>
+                )}
+
+                {/* Actions */}
+                <Section title="Actions">
+                  {formState.actions.map((action, index) => (
+                    <div
+                      key={index}
+                      className="space-y-3 rounded-[var(--radius-md)] border border-[var(--border-subtle)] p-3"
+                    >
+                      <div className="flex items-center gap-2">
+                        <select
+                          value={action.type}
+                          onChange={(e) =>
+                            setFormState((prev) => ({
+                              ...prev,
+                              actions: prev.actions.map((a, i) =>
+                                i === index ? defaultAction(e.target.value as AutomationActionType) : a,
+                              ),
+                            }))
+                          }
+                          className={inputBaseClass}
+                          disabled={isSaving}
+                        >
+                          {AUTOMATION_ACTION_TYPES.map((t) => (
+                            <option key={t} value={t}>
+                              {ACTION_LABELS[t]}
+                            </option>
+                          ))}
+                        </select>
+                        <button
+                          type="button"
+                          onClick={() =>
+                            setFormState((prev) => ({
+                              ...prev,
+                              actions: prev.actions.filter((_, i) => i !== index),
+                            }))
+                          }
+                          disabled={isSaving || formState.actions.length === 1}
+                          className="rounded-md p-2 text-[var(--text-secondary)] hover:bg-[var(--danger)]/10 hover:text-[var(--danger)] disabled:opacity-40"
+                          aria-label="Remove action"
+                        >
+                          <Trash2 size={16} />
+                        </button>
+                      </div>
+                      <ActionFields
+                        action={action}
+                        onChange={(patch) => setAction(index, patch)}
+                        disabled={isSaving}
+                        budgetCategories={budgetCategories}
+                      />
+                    </div>
+                  ))}
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() =>
+                      setFormState((prev) => ({
+                        ...prev,
+                        actions: [...prev.actions, defaultAction('create_agenda_task')],
+                      }))
+                    }
+                    disabled={isSaving}
+                  >
+                    <Plus size={14} className="mr-1.5" />
+                    Add Action
+                  </Button>
+                  <p className="text-xs text-[var(--text-tertiary)]">
+                    Text fields accept placeholders from the triggering record, e.g.{' '}
+                    <code>{'{{contact.fullName}}'}</code>.
+                  </p>
+                </Section>
               </div>
 
               {/* Footer */}
@@ -179,7 +488,7 @@ export default function AutomationFormModal({
                 >
                   Cancel
                 </Button>
-                <Button type="submit" disabled={isSaving}>
+                <Button type="submit" disabled={isSaving || cronInvalid}>
                   {isSaving ? (
                     <>
                       <Loader2 size={16} className="mr-2 animate-spin" />
@@ -202,7 +511,210 @@ export default function AutomationFormModal({
 
 /*
 |--------------------------------------------------------------------------
-| Re-usable FormRow
+| Per-action fields
+|--------------------------------------------------------------------------
+*/
+function ActionFields({
+  action,
+  onChange,
+  disabled,
+  budgetCategories,
+}: {
+  action: AutomationAction
+  onChange: (patch: Partial<AutomationAction>) => void
+  budgetCategories: BudgetCategory[]
+  disabled: boolean
+}) {
+  switch (action.type) {
+    case 'create_agenda_task':
+      return (
+        <div className="grid grid-cols-3 gap-3">
+          <div className="col-span-3">
+            <FormRow label="Task title">
+              <input
+                type="text"
+                value={action.title}
+                onChange={(e) => onChange({ title: e.target.value })}
+                className={inputBaseClass}
+                placeholder="Follow up with {{contact.fullName}}"
+                required
+                disabled={disabled}
+              />
+            </FormRow>
+          </div>
+          <FormRow label="Due in (days)">
+            <input
+              type="number"
+              min={0}
+              value={action.dueInDays}
+              onChange={(e) => onChange({ dueInDays: Number(e.target.value) })}
+              className={inputBaseClass}
+              disabled={disabled}
+            />
+          </FormRow>
+          <FormRow label="Category">
+            <select
+              value={action.category}
+              onChange={(e) =>
+                onChange({ category: e.target.value as (typeof AGENDA_CATEGORIES)[number] })
+              }
+              className={inputBaseClass}
+              disabled={disabled}
+            >
+              {AGENDA_CATEGORIES.map((c) => (
+                <option key={c} value={c}>
+                  {c}
+                </option>
+              ))}
+            </select>
+          </FormRow>
+        </div>
+      )
+
+    case 'create_budget_entry':
+      return (
+        <div className="grid grid-cols-3 gap-3">
+          <div className="col-span-3">
+            <FormRow label="Description">
+              <input
+                type="text"
+                value={action.description}
+                onChange={(e) => onChange({ description: e.target.value })}
+                className={inputBaseClass}
+                required
+                disabled={disabled}
+              />
+            </FormRow>
+          </div>
+          <FormRow label="Type">
+            <select
+              value={action.entryType}
+              onChange={(e) => onChange({ entryType: e.target.value as 'income' | 'expense' })}
+              className={inputBaseClass}
+              disabled={disabled}
+            >
+              <option value="expense">Expense</option>
+              <option value="income">Income</option>
+            </select>
+          </FormRow>
+          <FormRow label="Category">
+            <select
+              value={action.category}
+              onChange={(e) => onChange({ category: e.target.value })}
+              className={inputBaseClass}
+              disabled={disabled}
+            >
+              {budgetCategories
+                .filter((c) => c.type === action.entryType)
+                .map((c) => (
+                  <option key={c.key} value={c.key}>
+                    {c.name}
+                  </option>
+                ))}
+              {!budgetCategories.some((c) => c.key === action.category) && (
+                <option value={action.category}>{action.category}</option>
+              )}
+            </select>
+          </FormRow>
+          <FormRow label="Amount">
+            <input
+              type="number"
+              min={0}
+              step="0.01"
+              value={action.amount}
+              onChange={(e) => onChange({ amount: Number(e.target.value) })}
+              className={inputBaseClass}
+              required
+              disabled={disabled}
+            />
+          </FormRow>
+          <FormRow label="Due in (days)">
+            <input
+              type="number"
+              min={0}
+              value={action.dueInDays}
+              onChange={(e) => onChange({ dueInDays: Number(e.target.value) })}
+              className={inputBaseClass}
+              disabled={disabled}
+            />
+          </FormRow>
+        </div>
+      )
+
+    case 'add_crm_note':
+      return (
+        <FormRow label="Note">
+          <textarea
+            value={action.note}
+            onChange={(e) => onChange({ note: e.target.value })}
+            rows={2}
+            className={clsx(inputBaseClass, 'h-auto py-2')}
+            required
+            disabled={disabled}
+          />
+        </FormRow>
+      )
+
+    case 'send_message':
+      return (
+        <div className="grid grid-cols-3 gap-3">
+          <FormRow label="Channel">
+            <select
+              value={action.channel}
+              onChange={(e) => onChange({ channel: e.target.value as 'whatsapp' | 'email' })}
+              className={inputBaseClass}
+              disabled={disabled}
+            >
+              <option value="email">Email</option>
+              <option value="whatsapp">WhatsApp</option>
+            </select>
+          </FormRow>
+          <div className="col-span-2">
+            <FormRow label="To">
+              <input
+                type="text"
+                value={action.to}
+                onChange={(e) => onChange({ to: e.target.value })}
+                className={inputBaseClass}
+                required
+                disabled={disabled}
+              />
+            </FormRow>
+          </div>
+          {action.channel === 'email' && (
+            <div className="col-span-3">
+              <FormRow label="Subject">
+                <input
+                  type="text"
+                  value={action.subject ?? ''}
+                  onChange={(e) => onChange({ subject: e.target.value })}
+                  className={inputBaseClass}
+                  disabled={disabled}
+                />
+              </FormRow>
+            </div>
+          )}
+          <div className="col-span-3">
+            <FormRow label="Message">
+              <textarea
+                value={action.body}
+                onChange={(e) => onChange({ body: e.target.value })}
+                rows={3}
+                className={clsx(inputBaseClass, 'h-auto py-2')}
+                placeholder="Hi {{contact.fullName}}, ..."
+                required
+                disabled={disabled}
+              />
+            </FormRow>
+          </div>
+        </div>
+      )
+  }
+}
+
+/*
+|--------------------------------------------------------------------------
+| Re-usable FormRow / Section
 |--------------------------------------------------------------------------
 */
 function FormRow({
@@ -220,4 +732,15 @@ function FormRow({
       {children}
     </div>
   )
-}
\ No newline at end of file
+}
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <fieldset className="space-y-3 border-t border-[var(--border-subtle)] pt-4">
+      <legend className="pr-2 text-xs font-semibold uppercase text-[var(--text-secondary)]">
+        {title}
+      </legend>
+      {children}
+    </fieldset>
+  )
+}
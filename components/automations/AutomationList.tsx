@@ -2,7 +2,8 @@
 'use client'
 
 import React, { useState, useMemo, useEffect, useRef } from 'react'
-import type { Automation } from '@/app/(app)/automations/actions'
+import type { Automation, AutomationStatus } from '@/lib/automations.types'
+import { describeTrigger } from '@/lib/AutomationEngine'
 import {
   MoreHorizontal,
   Edit,
@@ -11,6 +12,8 @@ import {
   XCircle,
   Clock,
   Eye,
+  Play,
+  FlaskConical,
 } from 'lucide-react'
 import { Button } from '@/components/ui/Button'
 import { motion, AnimatePresence } from 'framer-motion'
@@ -23,8 +26,6 @@ import clsx from 'clsx'
 |--------------------------------------------------------------------------
 */
 
-type AutomationStatus = 'success' | 'error' | 'never'
-
 // Friendly labels for UI
 const STATUS_LABELS: Record<AutomationStatus, string> = {
   success: 'Success',
@@ -79,6 +80,8 @@ interface AutomationListProps {
   automations: Automation[]
   onToggle: (id: string, newIsActive: boolean) => void
   onViewLog: (auto: Automation) => void
+  onRunNow: (auto: Automation) => void
+  onSimulate: (auto: Automation) => void
   onEdit: (auto: Automation) => void
   onDelete: (auto: Automation) => void
   isPending: boolean
@@ -88,6 +91,8 @@ export default function AutomationList({
   automations,
   onToggle,
   onViewLog,
+  onRunNow,
+  onSimulate,
   onEdit,
   onDelete,
   isPending,
@@ -123,6 +128,8 @@ export default function AutomationList({
               automation={auto}
               onToggle={onToggle}
               onViewLog={onViewLog}
+              onRunNow={onRunNow}
+              onSimulate={onSimulate}
               onEdit={onEdit}
               onDelete={onDelete}
               isPending={isPending}
@@ -148,6 +155,8 @@ function AutomationRow({
   automation,
   onToggle,
   onViewLog,
+  onRunNow,
+  onSimulate,
   onEdit,
   onDelete,
   isPending,
@@ -155,6 +164,8 @@ function AutomationRow({
   automation: Automation
   onToggle: (id: string, newIsActive: boolean) => void
   onViewLog: (auto: Automation) => void
+  onRunNow: (auto: Automation) => void
+  onSimulate: (auto: Automation) => void
   onEdit: (auto: Automation) => void
   onDelete: (auto: Automation) => void
   isPending: boolean
@@ -162,8 +173,11 @@ function AutomationRow({
   const StatusIcon = STATUS_ICONS[automation.lastRunStatus] || Clock
   
   return (
-    <tr className="transition-colors hover:bg-[var(--bg-muted)]">
-      <td className="w-[120px] px-5 py-4">
+    <tr
+      className="cursor-pointer transition-colors hover:bg-[var(--bg-muted)]"
+      onClick={() => onViewLog(automation)}
+    >
+      <td className="w-[120px] px-5 py-4" onClick={(e) => e.stopPropagation()}>
         <Switch
           id={`toggle-${automation.id}`}
           checked={automation.isActive}
@@ -176,7 +190,7 @@ function AutomationRow({
         <div className="truncate text-sm text-[var(--text-secondary)]">{automation.description}</div>
       </td>
       <td className="max-w-xs truncate whitespace-nowrap px-5 py-4 text-sm text-[var(--text-secondary)]">
-        {automation.trigger}
+        {describeTrigger(automation.trigger)}
       </td>
       <td className="whitespace-nowrap px-5 py-4 text-sm">
         <div className={clsx("flex items-center gap-1.5", STATUS_COLORS[automation.lastRunStatus])}>
@@ -190,6 +204,8 @@ function AutomationRow({
       <td className="whitespace-nowrap px-5 py-4 text-right text-sm">
         <RowActions
           onViewLog={() => onViewLog(automation)}
+          onRunNow={() => onRunNow(automation)}
+          onSimulate={() => onSimulate(automation)}
           onEdit={() => onEdit(automation)}
           onDelete={() => onDelete(automation)}
           isPending={isPending}
@@ -206,11 +222,15 @@ function AutomationRow({
 */
 function RowActions({
   onViewLog,
+  onRunNow,
+  onSimulate,
   onEdit,
   onDelete,
   isPending,
 }: {
   onViewLog: () => void
+  onRunNow: () => void
+  onSimulate: () => void
   onEdit: () => void
   onDelete: () => void
   isPending: boolean
@@ -289,7 +309,19 @@ function RowActions({
               onClick={() => handleAction(onViewLog)}
               className="flex w-full items-center gap-2 rounded-[var(--radius-sm)] px-3 py-2 text-left text-sm text-[var(--text-primary)] hover:bg-[var(--bg-muted)]"
             >
-              <Eye size={14} /> View Log
+              <Eye size={14} /> Run History
+            </button>
+            <button
+              onClick={() => handleAction(onRunNow)}
+              className="flex w-full items-center gap-2 rounded-[var(--radius-sm)] px-3 py-2 text-left text-sm text-[var(--text-primary)] hover:bg-[var(--bg-muted)]"
+            >
+              <Play size={14} /> Run Now
+            </button>
+            <button
+              onClick={() => handleAction(onSimulate)}
+              className="flex w-full items-center gap-2 rounded-[var(--radius-sm)] px-3 py-2 text-left text-sm text-[var(--text-primary)] hover:bg-[var(--bg-muted)]"
+            >
+              <FlaskConical size={14} /> Simulate
             </button>
             <button
               onClick={() => handleAction(onEdit)}
@@ -0,0 +1,310 @@
+// components/automations/AutomationRunsDrawer.tsx
+'use client'
+
+import React, { useCallback, useEffect, useState, useTransition } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import {
+  X,
+  CheckCircle,
+  XCircle,
+  ChevronDown,
+  ChevronRight,
+  Loader2,
+  RotateCcw,
+  Clock,
+} from 'lucide-react'
+import clsx from 'clsx'
+import { Button } from '@/components/ui/Button'
+import { useToast } from '@/components/ToastProvider'
+import type { Automation, AutomationRun, AutomationRunSource } from '@/lib/automations.types'
+import { describeTrigger, ENTITY_LABELS } from '@/lib/AutomationEngine'
+import { getAutomationRuns, rerunAutomationRun } from '@/app/(app)/automations/actions'
+
+/*
+|--------------------------------------------------------------------------
+| Constants & Helpers
+|--------------------------------------------------------------------------
+*/
+
+const SOURCE_LABELS: Record<AutomationRunSource, string> = {
+  event: 'Record event',
+  schedule: 'Schedule',
+  threshold: 'Threshold',
+  manual: 'Run now',
+  rerun: 'Re-run',
+}
+
+const formatDateTime = (isoString?: string | null) => {
+  if (!isoString) return 'N/A'
+  const date = new Date(isoString)
+  if (isNaN(date.getTime())) return 'Invalid Date'
+  return date.toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    second: '2-digit',
+    timeZone: 'America/Santo_Domingo', // Per spec
+  })
+}
+
+const formatDuration = (ms: number) => (ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`)
+
+/*
+|--------------------------------------------------------------------------
+| Drawer Component
+|--------------------------------------------------------------------------
+*/
+interface AutomationRunsDrawerProps {
+  isOpen: boolean
+  onClose: () => void
+  automation: Automation | null
+  /** Called after a successful re-run so the parent can refresh lastRun */
+  onRerunComplete: () => void
+}
+
+export default function AutomationRunsDrawer({
+  isOpen,
+  onClose,
+  automation,
+  onRerunComplete,
+}: AutomationRunsDrawerProps) {
+  const { notify } = useToast()
+  const [runs, setRuns] = useState<AutomationRun[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [rerunningId, setRerunningId] = useState<string | null>(null)
+  const [, startTransition] = useTransition()
+
+  const loadRuns = useCallback(async (automationId: string) => {
+    setIsLoading(true)
+    const data = await getAutomationRuns(automationId)
+    setRuns(data)
+    setIsLoading(false)
+  }, [])
+
+  useEffect(() => {
+    if (isOpen && automation) {
+      setExpandedId(null)
+      loadRuns(automation.id)
+    }
+  }, [isOpen, automation, loadRuns])
+
+  const handleRerun = (run: AutomationRun) => {
+    if (!automation) return
+    setRerunningId(run.id)
+    startTransition(async () => {
+      const result = await rerunAutomationRun(run.id)
+      setRerunningId(null)
+      if (result.success && result.data?.status === 'success') {
+        notify({ title: 'Re-run Succeeded', variant: 'success' })
+      } else {
+        notify({
+          title: 'Re-run Failed',
+          description: result.data?.error || result.error || 'Could not re-run this execution.',
+          variant: 'danger',
+          duration: 10000,
+        })
+      }
+      await loadRuns(automation.id)
+      onRerunComplete()
+    })
+  }
+
+  return (
+    <AnimatePresence>
+      {isOpen && automation && (
+        <div className="fixed inset-0 z-50 overflow-hidden" role="dialog" aria-modal="true">
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="absolute inset-0 bg-black/60 backdrop-blur-sm"
+            onClick={onClose}
+          />
+
+          <motion.div
+            initial={{ x: '100%' }}
+            animate={{ x: 0 }}
+            exit={{ x: '100%' }}
+            transition={{ type: 'spring', stiffness: 300, damping: 30 }}
+            className="absolute inset-y-0 right-0 flex max-w-full pl-10"
+          >
+            <div className="w-screen max-w-xl border-l border-[var(--border-subtle)] bg-[var(--bg-page)] shadow-[var(--shadow-3)]">
+              <div className="flex h-full flex-col overflow-y-auto">
+                {/* Header */}
+                <div className="bg-[var(--surface-elev-1)] px-6 py-6 shadow-[var(--shadow-1)]">
+                  <div className="flex items-start justify-between">
+                    <h2 className="text-lg font-bold text-[var(--text-primary)]">{automation.name}</h2>
+                    <button
+                      type="button"
+                      className="ml-3 rounded-md text-[var(--text-secondary)] hover:text-[var(--text-primary)]"
+                      onClick={onClose}
+                    >
+                      <X size={20} />
+                    </button>
+                  </div>
+                  <p className="mt-1 text-sm text-[var(--text-secondary)]">
+                    Run history · {describeTrigger(automation.trigger)}
+                  </p>
+                </div>
+
+                {/* Content */}
+                <div className="flex-1 space-y-3 px-6 py-6">
+                  {isLoading && runs.length === 0 && (
+                    <div className="flex items-center justify-center py-10 text-[var(--text-secondary)]">
+                      <Loader2 size={20} className="animate-spin" />
+                    </div>
+                  )}
+
+                  {!isLoading && runs.length === 0 && (
+                    <div className="flex flex-col items-center gap-2 py-10 text-sm text-[var(--text-secondary)]">
+                      <Clock size={20} />
+                      This automation has not run yet.
+                    </div>
+                  )}
+
+                  {runs.map((run) => (
+                    <RunItem
+                      key={run.id}
+                      run={run}
+                      isExpanded={expandedId === run.id}
+                      onToggle={() => setExpandedId((prev) => (prev === run.id ? null : run.id))}
+                      onRerun={() => handleRerun(run)}
+                      isRerunning={rerunningId === run.id}
+                      disabled={rerunningId !== null}
+                    />
+                  ))}
+                </div>
+              </div>
+            </div>
+          </motion.div>
+        </div>
+      )}
+    </AnimatePresence>
+  )
+}
+
+/*
+|--------------------------------------------------------------------------
+| Run row (collapsible)
+|--------------------------------------------------------------------------
+*/
+function RunItem({
+  run,
+  isExpanded,
+  onToggle,
+  onRerun,
+  isRerunning,
+  disabled,
+}: {
+  run: AutomationRun
+  isExpanded: boolean
+  onToggle: () => void
+  onRerun: () => void
+  isRerunning: boolean
+  disabled: boolean
+}) {
+  const failed = run.status === 'error'
+  const StatusIcon = failed ? XCircle : CheckCircle
+
+  return (
+    <div className="rounded-[var(--radius-md)] bg-[var(--surface-elev-1)] shadow-[var(--shadow-1)]">
+      <button
+        type="button"
+        onClick={onToggle}
+        className="flex w-full items-center gap-3 px-4 py-3 text-left"
+      >
+        {isExpanded ? (
+          <ChevronDown size={16} className="text-[var(--text-secondary)]" />
+        ) : (
+          <ChevronRight size={16} className="text-[var(--text-secondary)]" />
+        )}
+        <StatusIcon
+          size={16}
+          className={failed ? 'text-[var(--danger)]' : 'text-[var(--success)]'}
+        />
+        <div className="min-w-0 flex-1">
+          <div className="text-sm font-medium text-[var(--text-primary)]">
+            {formatDateTime(run.startedAt)}
+          </div>
+          <div className="text-xs text-[var(--text-tertiary)]">
+            {SOURCE_LABELS[run.source] ?? run.source} · {formatDuration(run.durationMs)} ·{' '}
+            {run.recordIds.length > 0
+              ? `${run.recordIds.length} ${run.entity ? ENTITY_LABELS[run.entity] : 'record'}(s)`
+              : 'No record'}
+          </div>
+        </div>
+      </button>
+
+      {isExpanded && (
+        <div className="space-y-4 border-t border-[var(--border-subtle)] px-4 py-4">
+          {run.recordIds.length > 0 && (
+            <section>
+              <h4 className="mb-1.5 text-xs font-semibold uppercase tracking-wider text-[var(--text-tertiary)]">
+                Triggered by
+              </h4>
+              <ul className="space-y-0.5 font-mono text-xs text-[var(--text-secondary)]">
+                {run.recordIds.map((id) => (
+                  <li key={id}>
+                    {run.entity ? `${ENTITY_LABELS[run.entity]} ` : ''}
+                    {id}
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+
+          <section>
+            <h4 className="mb-1.5 text-xs font-semibold uppercase tracking-wider text-[var(--text-tertiary)]">
+              Actions
+            </h4>
+            {run.outcomes.length === 0 ? (
+              <p className="text-sm text-[var(--text-secondary)]">No actions were performed.</p>
+            ) : (
+              <ul className="space-y-1.5">
+                {run.outcomes.map((o, i) => (
+                  <li key={i} className="flex items-start gap-2 text-sm">
+                    {o.ok ? (
+                      <CheckCircle size={14} className="mt-0.5 shrink-0 text-[var(--success)]" />
+                    ) : (
+                      <XCircle size={14} className="mt-0.5 shrink-0 text-[var(--danger)]" />
+                    )}
+                    <span className={clsx(o.ok ? 'text-[var(--text-primary)]' : 'text-[var(--danger)]')}>
+                      {o.detail}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+
+          {run.error && (
+            <section>
+              <h4 className="mb-1.5 text-xs font-semibold uppercase tracking-wider text-[var(--text-tertiary)]">
+                Error
+              </h4>
+              <pre className="max-h-48 overflow-auto whitespace-pre-wrap rounded-[var(--radius-sm)] bg-[var(--danger)]/10 p-3 font-mono text-xs text-[var(--danger)]">
+                {run.error}
+              </pre>
+            </section>
+          )}
+
+          {failed && (
+            <div className="flex justify-end">
+              <Button size="sm" variant="secondary" onClick={onRerun} disabled={disabled}>
+                {isRerunning ? (
+                  <Loader2 size={14} className="mr-1.5 animate-spin" />
+                ) : (
+                  <RotateCcw size={14} className="mr-1.5" />
+                )}
+                Re-run failed actions
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,190 @@
+// components/automations/AutomationSimulationDrawer.tsx
+'use client'
+
+import React, { useCallback, useEffect, useState } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { X, CheckCircle, XCircle, Loader2, FlaskConical, Info, RefreshCw } from 'lucide-react'
+import clsx from 'clsx'
+import { Button } from '@/components/ui/Button'
+import type { Automation, AutomationSimulation } from '@/lib/automations.types'
+import { describeTrigger, ENTITY_LABELS } from '@/lib/AutomationEngine'
+import { simulateAutomation } from '@/app/(app)/automations/actions'
+
+/*
+|--------------------------------------------------------------------------
+| Drawer Component
+|--------------------------------------------------------------------------
+*/
+interface AutomationSimulationDrawerProps {
+  isOpen: boolean
+  onClose: () => void
+  automation: Automation | null
+  /** Turns the automation on from the preview (shown only while inactive) */
+  onActivate: (auto: Automation) => void
+}
+
+export default function AutomationSimulationDrawer({
+  isOpen,
+  onClose,
+  automation,
+  onActivate,
+}: AutomationSimulationDrawerProps) {
+  const [simulation, setSimulation] = useState<AutomationSimulation | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+
+  const runSimulation = useCallback(async (automationId: string) => {
+    setIsLoading(true)
+    setError(null)
+    const result = await simulateAutomation(automationId)
+    setSimulation(result.success ? result.data ?? null : null)
+    if (!result.success) setError(result.error || 'Could not simulate automation.')
+    setIsLoading(false)
+  }, [])
+
+  useEffect(() => {
+    if (isOpen && automation) {
+      setSimulation(null)
+      runSimulation(automation.id)
+    }
+  }, [isOpen, automation, runSimulation])
+
+  const entityLabel = simulation?.entity ? ENTITY_LABELS[simulation.entity] : null
+  const plannedCount = simulation?.matches.reduce((n, m) => n + m.actions.filter((a) => a.ok).length, 0) ?? 0
+
+  return (
+    <AnimatePresence>
+      {isOpen && automation && (
+        <div className="fixed inset-0 z-50 overflow-hidden" role="dialog" aria-modal="true">
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="absolute inset-0 bg-black/60 backdrop-blur-sm"
+            onClick={onClose}
+          />
+
+          <motion.div
+            initial={{ x: '100%' }}
+            animate={{ x: 0 }}
+            exit={{ x: '100%' }}
+            transition={{ type: 'spring', stiffness: 300, damping: 30 }}
+            className="absolute inset-y-0 right-0 flex max-w-full pl-10"
+          >
+            <div className="w-screen max-w-xl border-l border-[var(--border-subtle)] bg-[var(--bg-page)] shadow-[var(--shadow-3)]">
+              <div className="flex h-full flex-col">
+                {/* Header */}
+                <div className="bg-[var(--surface-elev-1)] px-6 py-6 shadow-[var(--shadow-1)]">
+                  <div className="flex items-start justify-between">
+                    <h2 className="flex items-center gap-2 text-lg font-bold text-[var(--text-primary)]">
+                      <FlaskConical size={18} className="text-[var(--primary)]" />
+                      Simulate: {automation.name}
+                    </h2>
+                    <button
+                      type="button"
+                      className="ml-3 rounded-md text-[var(--text-secondary)] hover:text-[var(--text-primary)]"
+                      onClick={onClose}
+                    >
+                      <X size={20} />
+                    </button>
+                  </div>
+                  <p className="mt-1 text-sm text-[var(--text-secondary)]">{describeTrigger(automation.trigger)}</p>
+                  <p className="mt-2 text-xs text-[var(--text-tertiary)]">
+                    Dry run against current data. Nothing is created, sent or logged.
+                  </p>
+                </div>
+
+                {/* Content */}
+                <div className="flex-1 space-y-3 overflow-y-auto px-6 py-6">
+                  {isLoading && (
+                    <div className="flex items-center justify-center py-10 text-[var(--text-secondary)]">
+                      <Loader2 size={20} className="animate-spin" />
+                    </div>
+                  )}
+
+                  {!isLoading && error && (
+                    <p className="rounded-[var(--radius-sm)] bg-[var(--danger)]/10 p-3 text-sm text-[var(--danger)]">
+                      {error}
+                    </p>
+                  )}
+
+                  {!isLoading && simulation && (
+                    <>
+                      <div className="text-sm text-[var(--text-secondary)]">
+                        {entityLabel ? (
+                          <>
+                            <span className="font-semibold text-[var(--text-primary)]">
+                              {simulation.matches.length}
+                            </span>{' '}
+                            of {simulation.scanned} {entityLabel} record(s) match ·{' '}
+                          </>
+                        ) : null}
+                        <span className="font-semibold text-[var(--text-primary)]">{plannedCount}</span> planned
+                        action(s)
+                      </div>
+
+                      {simulation.matches.length === 0 && (
+                        <div className="flex flex-col items-center gap-2 py-10 text-sm text-[var(--text-secondary)]">
+                          <Info size={20} />
+                          No records match this automation right now.
+                        </div>
+                      )}
+
+                      {simulation.matches.map((match) => (
+                        <div
+                          key={match.recordId ?? 'run'}
+                          className="rounded-[var(--radius-md)] bg-[var(--surface-elev-1)] px-4 py-3 shadow-[var(--shadow-1)]"
+                        >
+                          <div className="text-sm font-medium text-[var(--text-primary)]">{match.label}</div>
+                          {match.recordId && (
+                            <div className="font-mono text-xs text-[var(--text-tertiary)]">{match.recordId}</div>
+                          )}
+                          <ul className="mt-2 space-y-1.5">
+                            {match.actions.map((a, i) => (
+                              <li key={i} className="flex items-start gap-2 text-sm">
+                                {a.ok ? (
+                                  <CheckCircle size={14} className="mt-0.5 shrink-0 text-[var(--success)]" />
+                                ) : (
+                                  <XCircle size={14} className="mt-0.5 shrink-0 text-[var(--danger)]" />
+                                )}
+                                <span
+                                  className={clsx(a.ok ? 'text-[var(--text-primary)]' : 'text-[var(--danger)]')}
+                                >
+                                  {a.detail}
+                                </span>
+                              </li>
+                            ))}
+                          </ul>
+                          {match.note && (
+                            <p className="mt-2 text-xs text-[var(--text-tertiary)]">{match.note}</p>
+                          )}
+                        </div>
+                      ))}
+                    </>
+                  )}
+                </div>
+
+                {/* Footer */}
+                <div className="flex justify-end gap-3 border-t border-[var(--border-subtle)] bg-[var(--surface-elev-1)] p-4">
+                  <Button
+                    variant="outline"
+                    onClick={() => runSimulation(automation.id)}
+                    disabled={isLoading}
+                  >
+                    <RefreshCw size={14} className="mr-1.5" />
+                    Re-simulate
+                  </Button>
+                  {!automation.isActive && (
+                    <Button onClick={() => onActivate(automation)} disabled={isLoading || !!error}>
+                      Turn On
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </div>
+          </motion.div>
+        </div>
+      )}
+    </AnimatePresence>
+  )
+}
@@ -0,0 +1,427 @@
+// components/automations/ConditionBuilder.tsx
+'use client'
+
+import React from 'react'
+import { Plus, Trash2, ListPlus } from 'lucide-react'
+import clsx from 'clsx'
+import type {
+  AutomationCondition,
+  AutomationEntity,
+  ConditionGroup,
+  ConditionNode,
+  ConditionOperator,
+  ConditionValue,
+} from '@/lib/automations.types'
+import {
+  ENTITY_FIELDS,
+  OPERATORS_BY_KIND,
+  getFieldSpec,
+  numericFields,
+  type FieldSpec,
+} from '@/lib/automations.fields'
+import { isConditionGroup } from '@/lib/AutomationEngine'
+
+/*
+|--------------------------------------------------------------------------
+| Constants
+|--------------------------------------------------------------------------
+*/
+
+const OPERATOR_LABELS: Record<ConditionOperator, string> = {
+  eq: 'equals',
+  neq: 'does not equal',
+  gt: '>',
+  gte: '≥',
+  lt: '<',
+  lte: '≤',
+  contains: 'contains',
+  is_empty: 'is empty',
+  is_not_empty: 'is not empty',
+}
+
+// Groups can be nested once (e.g. A AND (B OR C)); deeper trees are hard to read in a modal
+const MAX_DEPTH = 1
+
+const inputBaseClass =
+  'block w-full rounded-[var(--radius-sm)] border border-[var(--border)] bg-[var(--surface-elev-1)] px-3 py-2 text-sm text-[var(--text-primary)] shadow-sm transition-colors placeholder:text-[var(--text-tertiary)] focus:border-[var(--primary)] focus:outline-none focus:ring-1 focus:ring-[var(--primary)]'
+
+/*
+|--------------------------------------------------------------------------
+| Helpers
+|--------------------------------------------------------------------------
+*/
+
+function fieldsFor(entity: AutomationEntity): FieldSpec[] {
+  return ENTITY_FIELDS[entity] as FieldSpec[]
+}
+
+function newCondition(entity: AutomationEntity): AutomationCondition {
+  const spec = fieldsFor(entity)[0]
+  return { field: spec.path, operator: OPERATORS_BY_KIND[spec.kind][0], value: defaultValueFor(spec) }
+}
+
+function defaultValueFor(spec: FieldSpec): ConditionValue | undefined {
+  if (spec.kind === 'enum') return spec.options?.[0]
+  if (spec.kind === 'boolean') return true
+  return undefined
+}
+
+function needsValue(operator: ConditionOperator) {
+  return operator !== 'is_empty' && operator !== 'is_not_empty'
+}
+
+/*
+|--------------------------------------------------------------------------
+| Builder
+|--------------------------------------------------------------------------
+*/
+interface ConditionBuilderProps {
+  entity: AutomationEntity
+  value: ConditionGroup
+  onChange: (group: ConditionGroup) => void
+  disabled?: boolean
+}
+
+/**
+ * Visual editor for a trigger's condition tree. Fields come from the typed
+ * catalog in lib/automations.fields.ts, so only real record fields can be picked.
+ */
+export default function ConditionBuilder({ entity, value, onChange, disabled }: ConditionBuilderProps) {
+  return (
+    <GroupEditor
+      entity={entity}
+      group={value}
+      onChange={onChange}
+      depth={0}
+      disabled={!!disabled}
+    />
+  )
+}
+
+function GroupEditor({
+  entity,
+  group,
+  onChange,
+  onRemove,
+  depth,
+  disabled,
+}: {
+  entity: AutomationEntity
+  group: ConditionGroup
+  onChange: (group: ConditionGroup) => void
+  onRemove?: () => void
+  depth: number
+  disabled: boolean
+}) {
+  const setRule = (index: number, node: ConditionNode) =>
+    onChange({ ...group, rules: group.rules.map((r, i) => (i === index ? node : r)) })
+
+  const removeRule = (index: number) =>
+    onChange({ ...group, rules: group.rules.filter((_, i) => i !== index) })
+
+  return (
+    <div
+      className={clsx(
+        'space-y-2',
+        depth > 0 && 'rounded-[var(--radius-md)] border border-dashed border-[var(--border)] p-3',
+      )}
+    >
+      <div className="flex items-center gap-2 text-xs text-[var(--text-secondary)]">
+        <span>Match</span>
+        <div className="inline-flex overflow-hidden rounded-[var(--radius-sm)] border border-[var(--border)]">
+          {(['and', 'or'] as const).map((c) => (
+            <button
+              key={c}
+              type="button"
+              onClick={() => onChange({ ...group, combinator: c })}
+              disabled={disabled}
+              className={clsx(
+                'px-2.5 py-1 font-semibold uppercase transition-colors',
+                group.combinator === c
+                  ? 'bg-[var(--primary)] text-white'
+                  : 'bg-[var(--surface-elev-1)] text-[var(--text-secondary)] hover:bg-[var(--bg-muted)]',
+              )}
+            >
+              {c === 'and' ? 'All' : 'Any'}
+            </button>
+          ))}
+        </div>
+        <span>of the following</span>
+        {onRemove && (
+          <button
+            type="button"
+            onClick={onRemove}
+            disabled={disabled}
+            className="ml-auto rounded-md p-1 text-[var(--text-secondary)] hover:bg-[var(--danger)]/10 hover:text-[var(--danger)]"
+            aria-label="Remove group"
+          >
+            <Trash2 size={14} />
+          </button>
+        )}
+      </div>
+
+      {group.rules.length === 0 && (
+        <p className="text-xs text-[var(--text-tertiary)]">No conditions — every record matches.</p>
+      )}
+
+      {group.rules.map((rule, index) => (
+        <div key={index}>
+          {index > 0 && (
+            <div className="py-1 text-[10px] font-semibold uppercase tracking-wider text-[var(--text-tertiary)]">
+              {group.combinator}
+            </div>
+          )}
+          {isConditionGroup(rule) ? (
+            <GroupEditor
+              entity={entity}
+              group={rule}
+              onChange={(g) => setRule(index, g)}
+              onRemove={() => removeRule(index)}
+              depth={depth + 1}
+              disabled={disabled}
+            />
+          ) : (
+            <ConditionRow
+              entity={entity}
+              condition={rule}
+              onChange={(c) => setRule(index, c)}
+              onRemove={() => removeRule(index)}
+              disabled={disabled}
+            />
+          )}
+        </div>
+      ))}
+
+      <div className="flex gap-3 pt-1">
+        <button
+          type="button"
+          onClick={() => onChange({ ...group, rules: [...group.rules, newCondition(entity)] })}
+          disabled={disabled}
+          className="inline-flex items-center text-xs font-medium text-[var(--primary)] hover:underline"
+        >
+          <Plus size={12} className="mr-1" />
+          Add condition
+        </button>
+        {depth < MAX_DEPTH && (
+          <button
+            type="button"
+            onClick={() =>
+              onChange({
+                ...group,
+                rules: [
+                  ...group.rules,
+                  { combinator: group.combinator === 'and' ? 'or' : 'and', rules: [newCondition(entity)] },
+                ],
+              })
+            }
+            disabled={disabled}
+            className="inline-flex items-center text-xs font-medium text-[var(--primary)] hover:underline"
+          >
+            <ListPlus size={12} className="mr-1" />
+            Add group
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
+
+/*
+|--------------------------------------------------------------------------
+| Single condition row
+|--------------------------------------------------------------------------
+*/
+function ConditionRow({
+  entity,
+  condition,
+  onChange,
+  onRemove,
+  disabled,
+}: {
+  entity: AutomationEntity
+  condition: AutomationCondition
+  onChange: (c: AutomationCondition) => void
+  onRemove: () => void
+  disabled: boolean
+}) {
+  const spec = getFieldSpec(entity, condition.field)
+  const numbers = numericFields(entity)
+  // Arithmetic turns the left side into a number regardless of the picked field
+  const kind = condition.operand ? 'number' : spec?.kind ?? 'string'
+  const operators = OPERATORS_BY_KIND[kind]
+
+  const handleFieldChange = (path: string) => {
+    const next = getFieldSpec(entity, path)
+    if (!next) return
+    const ops = OPERATORS_BY_KIND[next.kind]
+    onChange({
+      field: path,
+      operator: ops.includes(condition.operator) ? condition.operator : ops[0],
+      value: defaultValueFor(next),
+      // Operands only make sense between number fields
+      operand: next.kind === 'number' ? condition.operand : undefined,
+    })
+  }
+
+  const handleOperandOp = (op: string) => {
+    if (!op) return onChange({ ...condition, operand: undefined })
+    onChange({
+      ...condition,
+      operand: {
+        op: op as '+' | '-',
+        field: condition.operand?.field ?? numbers.find((f) => f.path !== condition.field)?.path ?? numbers[0].path,
+      },
+    })
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <select
+        value={spec ? condition.field : ''}
+        onChange={(e) => handleFieldChange(e.target.value)}
+        className={clsx(inputBaseClass, 'w-auto min-w-[9rem] flex-1', !spec && 'border-[var(--danger)]')}
+        disabled={disabled}
+        aria-label="Field"
+      >
+        {!spec && <option value="">Unknown field: {condition.field}</option>}
+        {fieldsFor(entity).map((f) => (
+          <option key={f.path} value={f.path}>
+            {f.label}
+          </option>
+        ))}
+      </select>
+
+      {spec?.kind === 'number' && (
+        <>
+          <select
+            value={condition.operand?.op ?? ''}
+            onChange={(e) => handleOperandOp(e.target.value)}
+            className={clsx(inputBaseClass, 'w-14')}
+            disabled={disabled}
+            aria-label="Arithmetic"
+          >
+            <option value="">—</option>
+            <option value="-">−</option>
+            <option value="+">+</option>
+          </select>
+          {condition.operand && (
+            <select
+              value={condition.operand.field}
+              onChange={(e) =>
+                onChange({ ...condition, operand: { op: condition.operand!.op, field: e.target.value } })
+              }
+              className={clsx(inputBaseClass, 'w-auto min-w-[9rem] flex-1')}
+              disabled={disabled}
+              aria-label="Second field"
+            >
+              {numbers.map((f) => (
+                <option key={f.path} value={f.path}>
+                  {f.label}
+                </option>
+              ))}
+            </select>
+          )}
+        </>
+      )}
+
+      <select
+        value={condition.operator}
+        onChange={(e) => {
+          const operator = e.target.value as ConditionOperator
+          onChange({ ...condition, operator, value: needsValue(operator) ? condition.value : undefined })
+        }}
+        className={clsx(inputBaseClass, 'w-auto')}
+        disabled={disabled}
+        aria-label="Operator"
+      >
+        {operators.map((op) => (
+          <option key={op} value={op}>
+            {OPERATOR_LABELS[op]}
+          </option>
+        ))}
+      </select>
+
+      {needsValue(condition.operator) && (
+        <div className="w-36">
+          <ConditionValueInput
+            spec={condition.operand ? { ...(spec as FieldSpec), kind: 'number' } : spec}
+            value={condition.value}
+            onChange={(value) => onChange({ ...condition, value })}
+            disabled={disabled}
+          />
+        </div>
+      )}
+
+      <button
+        type="button"
+        onClick={onRemove}
+        disabled={disabled}
+        className="rounded-md p-2 text-[var(--text-secondary)] hover:bg-[var(--danger)]/10 hover:text-[var(--danger)]"
+        aria-label="Remove condition"
+      >
+        <Trash2 size={14} />
+      </button>
+    </div>
+  )
+}
+
+/*
+|--------------------------------------------------------------------------
+| Value input (typed by field kind)
+|--------------------------------------------------------------------------
+*/
+export function ConditionValueInput({
+  spec,
+  value,
+  onChange,
+  disabled,
+  placeholder,
+}: {
+  spec?: FieldSpec
+  value?: ConditionValue
+  onChange: (value: ConditionValue | undefined) => void
+  disabled?: boolean
+  placeholder?: string
+}) {
+  const kind = spec?.kind ?? 'string'
+
+  if (kind === 'enum' || kind === 'boolean') {
+    const options = kind === 'boolean' ? ['true', 'false'] : (spec?.options ?? [])
+    return (
+      <select
+        value={value == null ? '' : String(value)}
+        onChange={(e) => {
+          const raw = e.target.value
+          if (raw === '') return onChange(undefined)
+          onChange(kind === 'boolean' ? raw === 'true' : raw)
+        }}
+        className={inputBaseClass}
+        disabled={disabled}
+        aria-label="Value"
+      >
+        {placeholder !== undefined && <option value="">{placeholder}</option>}
+        {options.map((o) => (
+          <option key={o} value={o}>
+            {o}
+          </option>
+        ))}
+      </select>
+    )
+  }
+
+  return (
+    <input
+      type={kind === 'number' ? 'number' : kind === 'date' ? 'date' : 'text'}
+      value={value == null ? '' : String(value)}
+      onChange={(e) => {
+        const raw = e.target.value
+        if (raw === '') return onChange(undefined)
+        onChange(kind === 'number' ? Number(raw) : raw)
+      }}
+      className={inputBaseClass}
+      placeholder={placeholder}
+      disabled={disabled}
+      aria-label="Value"
+    />
+  )
+}
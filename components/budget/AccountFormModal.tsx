@@ -0,0 +1,116 @@
+'use client';
+
+import { useEffect, useState, useTransition } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Loader2 } from 'lucide-react';
+import { useToast } from '@/components/ToastProvider';
+import { upsertAccount } from '@/app/(app)/budget/actions';
+import { ACCOUNT_TYPES, type AccountType, type BudgetAccount } from '@/lib/types';
+
+export const ACCOUNT_TYPE_LABELS: Record<AccountType, string> = {
+  checking: 'Checking',
+  savings: 'Savings',
+  cash: 'Cash',
+};
+
+type Props = {
+  open: boolean;
+  account: BudgetAccount | null; // null = new account
+  onClose: () => void;
+  onSaved: (msg?: string) => void;
+  today_local: string;
+};
+
+export default function AccountFormModal({ open, account, onClose, onSaved, today_local }: Props) {
+  const { notify } = useToast();
+  const [name, setName] = useState('');
+  const [type, setType] = useState<AccountType>('checking');
+  const [openingBalance, setOpeningBalance] = useState('');
+  const [openingDate, setOpeningDate] = useState(today_local);
+  const [isPending, startTransition] = useTransition();
+
+  useEffect(() => {
+    if (!open) return;
+    setName(account?.name ?? '');
+    setType(account?.type ?? 'checking');
+    setOpeningBalance(account ? String(account.opening_balance) : '');
+    setOpeningDate(account?.opening_date ?? today_local);
+  }, [open, account, today_local]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const balance = Number(openingBalance || 0);
+    if (!name.trim()) {
+      notify({ title: 'Validation Error', description: 'Please enter an account name.', variant: 'warning' });
+      return;
+    }
+    if (!Number.isFinite(balance)) {
+      notify({ title: 'Validation Error', description: 'Opening balance must be a number.', variant: 'warning' });
+      return;
+    }
+    startTransition(async () => {
+      try {
+        await upsertAccount({
+          id: account?.id,
+          name,
+          type,
+          opening_balance: balance,
+          opening_date: openingDate,
+        });
+        onSaved(account ? 'Account updated' : 'Account added');
+      } catch (err: any) {
+        notify({ title: 'Error', description: err?.message ?? 'Could not save the account.', variant: 'danger' });
+      }
+    });
+  };
+
+  const inputClasses = "block w-full h-10 px-3 rounded-[var(--radius-md)] border border-[var(--border)] bg-[var(--bg-surface)] transition-colors focus:border-[var(--primary)] focus:outline-none focus:ring-2 focus:ring-[var(--focus-ring)]/30 disabled:opacity-50";
+
+  return (
+    <AnimatePresence>
+      {open && (
+        <div className="fixed inset-0 z-[1000] flex items-center justify-center p-4">
+          <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} onClick={onClose} className="absolute inset-0 bg-black/50" />
+          <motion.div initial={{ opacity: 0, y: 30 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: 30 }} className="relative z-10 w-full max-w-md rounded-[var(--radius-lg)] bg-[var(--bg-surface)] p-6 shadow-[var(--shadow-3)]">
+            <div className="mb-6 flex items-start justify-between border-b border-[var(--border-subtle)] pb-4">
+              <h2 className="text-[var(--fs-h3)] font-semibold">{account ? 'Edit Account' : 'Add Account'}</h2>
+              <button onClick={onClose} aria-label="Close" className="rounded-md p-1 text-[var(--text-tertiary)] transition-colors hover:bg-[var(--bg-muted)] hover:text-[var(--text-primary)]"><X size={20} /></button>
+            </div>
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <label htmlFor="account-name" className="mb-1 block text-sm font-medium">Name</label>
+                <input id="account-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Main checking" className={inputClasses} />
+              </div>
+              <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                <div>
+                  <label htmlFor="account-type" className="mb-1 block text-sm font-medium">Type</label>
+                  <select id="account-type" value={type} onChange={(e) => setType(e.target.value as AccountType)} className={inputClasses}>
+                    {ACCOUNT_TYPES.map((t) => (
+                      <option key={t} value={t}>{ACCOUNT_TYPE_LABELS[t]}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="account-opening" className="mb-1 block text-sm font-medium">Opening Balance</label>
+                  <input id="account-opening" type="number" step="0.01" value={openingBalance} onChange={(e) => setOpeningBalance(e.target.value)} placeholder="0.00" className={inputClasses} />
+                </div>
+              </div>
+              <div>
+                <label htmlFor="account-opening-date" className="mb-1 block text-sm font-medium">Balance As Of</label>
+                <input id="account-opening-date" type="date" value={openingDate} onChange={(e) => setOpeningDate(e.target.value)} required className={inputClasses} />
+                <p className="mt-1 text-xs text-[var(--text-tertiary)]">Payments marked paid on or after this date post against the balance.</p>
+              </div>
+              <div className="flex justify-end gap-3 pt-4">
+                <button type="button" onClick={onClose} className="h-10 rounded-[var(--radius-md)] border border-[var(--border)] bg-[var(--bg-surface)] px-4 text-sm font-medium shadow-sm hover:bg-[var(--bg-muted)]">Cancel</button>
+                <button type="submit" disabled={isPending} className="inline-flex h-10 items-center gap-2 rounded-[var(--radius-md)] bg-[var(--primary)] px-4 text-sm font-medium text-white shadow-sm hover:bg-[var(--primary-600)] disabled:opacity-60">
+                  {isPending && <Loader2 size={16} className="animate-spin" />} Save
+                </button>
+              </div>
+            </form>
+          </motion.div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,169 @@
+'use client';
+
+import { useState } from 'react';
+import { parse, format } from 'date-fns';
+import { ChevronDown, Edit, Landmark, PiggyBank, Plus, Trash2, Wallet } from 'lucide-react';
+import type { AccountBalance, AccountLedger, AccountType, BudgetAccount } from '@/lib/types';
+import { deleteAccount } from '@/app/(app)/budget/actions';
+import { ACCOUNT_TYPE_LABELS } from '@/components/budget/AccountFormModal';
+
+const ACCOUNT_ICONS: Record<AccountType, typeof Wallet> = {
+  checking: Landmark,
+  savings: PiggyBank,
+  cash: Wallet,
+};
+
+const formatUSD = (value: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(value);
+
+function formatDay(value: string) {
+  try {
+    return format(parse(value, 'yyyy-MM-dd', new Date()), 'MMM d');
+  } catch {
+    return value;
+  }
+}
+
+type Props = {
+  ledger: AccountLedger;
+  monthLabel: string;
+  onAdd: () => void;
+  onEdit: (account: BudgetAccount) => void;
+  onRequestConfirm: (opts: { message: string; action: () => Promise<void> }) => void;
+  onAfterMutation: (msg?: string) => void;
+  onError: (msg: string) => void;
+};
+
+function AccountCard({
+  item, monthLabel, onEdit, onDelete,
+}: {
+  item: AccountBalance; monthLabel: string; onEdit: () => void; onDelete: () => void;
+}) {
+  const [showLines, setShowLines] = useState(false);
+  const { account, balance, month_opening_balance, month_income, month_expenses, lines } = item;
+  const Icon = ACCOUNT_ICONS[account.type] ?? Wallet;
+
+  return (
+    <div className="rounded-[var(--radius-lg)] bg-[var(--bg-surface)] p-4 shadow-[var(--shadow-1)]">
+      <div className="flex items-start justify-between gap-2">
+        <div className="flex min-w-0 items-center gap-2">
+          <span className="flex h-8 w-8 shrink-0 items-center justify-center rounded-full bg-[var(--bg-muted)] text-[var(--text-secondary)]">
+            <Icon size={16} />
+          </span>
+          <div className="min-w-0">
+            <div className="truncate font-semibold text-[var(--text-primary)]">{account.name}</div>
+            <div className="text-xs text-[var(--text-tertiary)]">{ACCOUNT_TYPE_LABELS[account.type]}</div>
+          </div>
+        </div>
+        <div className="flex shrink-0 gap-1">
+          <button onClick={onEdit} aria-label="Edit account" className="rounded-md p-1 text-[var(--text-tertiary)] hover:bg-[var(--bg-muted)] hover:text-[var(--text-primary)]">
+            <Edit size={14} />
+          </button>
+          <button onClick={onDelete} aria-label="Delete account" className="rounded-md p-1 text-[var(--text-tertiary)] hover:bg-[var(--bg-muted)] hover:text-[var(--danger)]">
+            <Trash2 size={14} />
+          </button>
+        </div>
+      </div>
+
+      <div className={`mt-3 text-[var(--fs-h3)] font-bold ${balance < 0 ? 'text-[var(--danger)]' : 'text-[var(--text-primary)]'}`}>
+        {formatUSD(balance)}
+      </div>
+      <div className="mt-1 flex flex-wrap gap-x-3 text-xs text-[var(--text-secondary)]">
+        <span>Start of month {formatUSD(month_opening_balance)}</span>
+        <span className="text-[var(--success)]">+{formatUSD(month_income)}</span>
+        <span className="text-[var(--danger)]">−{formatUSD(month_expenses)}</span>
+      </div>
+
+      <button
+        type="button"
+        onClick={() => setShowLines((s) => !s)}
+        className="mt-3 inline-flex items-center gap-1 text-xs font-medium text-[var(--text-secondary)] hover:text-[var(--text-primary)]"
+        aria-expanded={showLines}
+      >
+        <ChevronDown size={14} className={`transition-transform ${showLines ? 'rotate-0' : '-rotate-90'}`} />
+        {lines.length} posting{lines.length === 1 ? '' : 's'} in {monthLabel}
+      </button>
+
+      {showLines && lines.length > 0 && (
+        <table className="mt-2 w-full text-xs">
+          <tbody className="divide-y divide-[var(--border-subtle)]">
+            {lines.map((l) => (
+              <tr key={`${l.kind}:${l.source_id}`}>
+                <td className="py-1.5 pr-2 whitespace-nowrap text-[var(--text-tertiary)]">{formatDay(l.date)}</td>
+                <td className="py-1.5 pr-2 truncate text-[var(--text-primary)]">{l.description}</td>
+                <td className={`py-1.5 pr-2 text-right whitespace-nowrap ${l.amount >= 0 ? 'text-[var(--success)]' : 'text-[var(--text-primary)]'}`}>
+                  {l.amount >= 0 ? '+' : '−'}{formatUSD(Math.abs(l.amount))}
+                </td>
+                <td className="py-1.5 text-right whitespace-nowrap text-[var(--text-secondary)]">{formatUSD(l.balance)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+export default function AccountsPanel({
+  ledger, monthLabel, onAdd, onEdit, onRequestConfirm, onAfterMutation, onError,
+}: Props) {
+  const total = ledger.accounts.reduce((sum, a) => sum + a.balance, 0);
+
+  const handleDelete = (account: BudgetAccount) => {
+    onRequestConfirm({
+      message: `Delete the account "${account.name}"? Payments posted to it stay paid but become unassigned.`,
+      action: async () => {
+        try {
+          await deleteAccount({ id: account.id });
+          onAfterMutation('Account deleted');
+        } catch (err: any) {
+          onError(err?.message ?? 'Could not delete the account.');
+        }
+      },
+    });
+  };
+
+  return (
+    <div>
+      <div className="mb-3 flex items-center justify-between gap-3">
+        <div>
+          <h2 className="text-[var(--fs-h4)] font-semibold text-[var(--text-primary)]">Accounts</h2>
+          {ledger.accounts.length > 0 && (
+            <p className="text-sm text-[var(--text-secondary)]">
+              Reconciled balance {formatUSD(total)} as of {formatDay(ledger.as_of)}
+              {ledger.unassigned > 0 && (
+                <span className="text-[var(--warning)]">
+                  {' '}· {ledger.unassigned} paid item{ledger.unassigned === 1 ? '' : 's'} this month not posted to an account
+                </span>
+              )}
+            </p>
+          )}
+        </div>
+        <button
+          onClick={onAdd}
+          className="inline-flex h-9 items-center justify-center gap-2 rounded-[var(--radius-md)] border border-[var(--border)] bg-[var(--bg-surface)] px-3 text-sm font-medium text-[var(--text-primary)] shadow-sm transition-colors hover:bg-[var(--bg-muted)]"
+        >
+          <Plus size={16} /> Add Account
+        </button>
+      </div>
+
+      {ledger.accounts.length === 0 ? (
+        <div className="rounded-[var(--radius-lg)] border border-dashed border-[var(--border)] p-6 text-center text-sm text-[var(--text-secondary)]">
+          Add your checking, savings or cash accounts with an opening balance to track what&apos;s actually in the bank.
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
+          {ledger.accounts.map((item) => (
+            <AccountCard
+              key={item.account.id}
+              item={item}
+              monthLabel={monthLabel}
+              onEdit={() => onEdit(item.account)}
+              onDelete={() => handleDelete(item.account)}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
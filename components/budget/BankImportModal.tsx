@@ -0,0 +1,249 @@
+'use client';
+
+import { useEffect, useRef, useState, useTransition } from 'react';
+import { parse, format } from 'date-fns';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Loader2, Upload, CheckCircle, Plus } from 'lucide-react';
+import { useToast } from '@/components/ToastProvider';
+import {
+  createEntryFromImport,
+  dismissImportItem,
+  getImportQueue,
+  importBankStatement,
+} from '@/app/(app)/budget/actions';
+import { parseBankStatement } from '@/lib/BankImport';
+import type { BankImportResult, BudgetAccount, BudgetCategory, Category, ImportItem } from '@/lib/types';
+
+const formatUSD = (value: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(value);
+
+function formatDay(value: string) {
+  try {
+    return format(parse(value, 'yyyy-MM-dd', new Date()), 'MMM d, yyyy');
+  } catch {
+    return value;
+  }
+}
+
+type Props = {
+  open: boolean;
+  accounts: BudgetAccount[];
+  categories: BudgetCategory[];
+  onClose: () => void;
+  onChanged: () => void; // Data changed server-side; parent refreshes
+};
+
+function QueueItem({
+  item, categories: allCategories, onDone,
+}: {
+  item: ImportItem; categories: BudgetCategory[]; onDone: (msg: string) => void;
+}) {
+  const { notify } = useToast();
+  const isExpense = Number(item.amount) < 0;
+  const categories = allCategories.filter((c) => c.type === (isExpense ? 'expense' : 'income'));
+  const [description, setDescription] = useState(item.description);
+  const [category, setCategory] = useState<Category>(
+    categories.find((c) => c.key === (isExpense ? 'other' : 'business_income'))?.key ?? categories[0]?.key ?? ''
+  );
+  const [isPending, startTransition] = useTransition();
+
+  const run = (fn: () => Promise<void>, msg: string) => {
+    startTransition(async () => {
+      try {
+        await fn();
+        onDone(msg);
+      } catch (err: any) {
+        notify({ title: 'Error', description: err?.message ?? 'Something went wrong.', variant: 'danger' });
+      }
+    });
+  };
+
+  return (
+    <li className="flex flex-col gap-2 py-3 sm:flex-row sm:items-center">
+      <div className="w-24 shrink-0 text-xs text-[var(--text-tertiary)]">{formatDay(item.date)}</div>
+      <input
+        value={description}
+        onChange={(e) => setDescription(e.target.value)}
+        aria-label="Description"
+        className="h-9 min-w-0 flex-1 rounded-[var(--radius-sm)] border border-[var(--border)] bg-[var(--bg-surface)] px-2 text-sm focus:border-[var(--primary)] focus:outline-none"
+      />
+      <select
+        value={category}
+        onChange={(e) => setCategory(e.target.value as Category)}
+        aria-label="Category"
+        className="h-9 rounded-[var(--radius-sm)] border border-[var(--border)] bg-[var(--bg-surface)] px-2 text-sm focus:border-[var(--primary)] focus:outline-none"
+      >
+        {categories.map((c) => (
+          <option key={c.key} value={c.key}>{c.name}</option>
+        ))}
+      </select>
+      <div className={`w-24 shrink-0 text-right text-sm font-semibold ${isExpense ? 'text-[var(--text-primary)]' : 'text-[var(--success)]'}`}>
+        {isExpense ? '' : '+'}{formatUSD(Math.abs(Number(item.amount)))}
+      </div>
+      <div className="flex shrink-0 gap-1">
+        <button
+          onClick={() => run(() => createEntryFromImport({ id: item.id, description, category }), 'Entry created')}
+          disabled={isPending}
+          className="inline-flex h-8 items-center gap-1 rounded-[var(--radius-sm)] bg-[var(--primary)] px-2.5 text-xs font-medium text-white hover:bg-[var(--primary-600)] disabled:opacity-60"
+        >
+          {isPending ? <Loader2 size={12} className="animate-spin" /> : <Plus size={12} />} Add
+        </button>
+        <button
+          onClick={() => run(() => dismissImportItem({ id: item.id }), 'Transaction dismissed')}
+          disabled={isPending}
+          className="h-8 rounded-[var(--radius-sm)] border border-[var(--border)] px-2.5 text-xs font-medium hover:bg-[var(--bg-muted)] disabled:opacity-60"
+        >
+          Dismiss
+        </button>
+      </div>
+    </li>
+  );
+}
+
+export default function BankImportModal({ open, accounts, categories, onClose, onChanged }: Props) {
+  const { notify } = useToast();
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [accountId, setAccountId] = useState<string>('');
+  const [result, setResult] = useState<BankImportResult | null>(null);
+  const [queue, setQueue] = useState<ImportItem[]>([]);
+  const [isImporting, startImport] = useTransition();
+
+  const loadQueue = () => {
+    getImportQueue()
+      .then(setQueue)
+      .catch((err) => notify({ title: 'Error', description: err?.message ?? 'Could not load the review queue.', variant: 'danger' }));
+  };
+
+  useEffect(() => {
+    if (!open) return;
+    setResult(null);
+    setAccountId((prev) => prev || accounts[0]?.id || '');
+    loadQueue();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open]);
+
+  const handleFile = async (file: File) => {
+    let transactions;
+    try {
+      transactions = parseBankStatement(file.name, await file.text());
+    } catch (err: any) {
+      notify({ title: 'Could not read statement', description: err?.message ?? 'Unsupported file.', variant: 'danger' });
+      return;
+    }
+    if (transactions.length === 0) {
+      notify({ title: 'No transactions found', description: 'The file has no rows we could read.', variant: 'warning' });
+      return;
+    }
+
+    startImport(async () => {
+      try {
+        const res = await importBankStatement({ transactions, account_id: accountId || null });
+        setResult(res);
+        loadQueue();
+        onChanged();
+      } catch (err: any) {
+        notify({ title: 'Import failed', description: err?.message ?? 'Could not import the statement.', variant: 'danger' });
+      }
+    });
+  };
+
+  const handleQueueDone = (id: string, msg: string) => {
+    setQueue((prev) => prev.filter((q) => q.id !== id));
+    notify({ title: 'Success', description: msg, variant: 'success' });
+    onChanged();
+  };
+
+  return (
+    <AnimatePresence>
+      {open && (
+        <div className="fixed inset-0 z-[1000] flex items-center justify-center p-4">
+          <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} onClick={onClose} className="absolute inset-0 bg-black/50" />
+          <motion.div initial={{ opacity: 0, y: 30 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: 30 }} className="relative z-10 flex max-h-[90vh] w-full max-w-3xl flex-col rounded-[var(--radius-lg)] bg-[var(--bg-surface)] p-6 shadow-[var(--shadow-3)]">
+            <div className="mb-6 flex items-start justify-between border-b border-[var(--border-subtle)] pb-4">
+              <div>
+                <h2 className="text-[var(--fs-h3)] font-semibold">Import Bank Statement</h2>
+                <p className="text-sm text-[var(--text-secondary)]">CSV or OFX/QFX. Transactions that match an unpaid item by amount and date are marked paid.</p>
+              </div>
+              <button onClick={onClose} aria-label="Close" className="rounded-md p-1 text-[var(--text-tertiary)] transition-colors hover:bg-[var(--bg-muted)] hover:text-[var(--text-primary)]"><X size={20} /></button>
+            </div>
+
+            <div className="overflow-y-auto">
+              <div className="flex flex-col gap-3 sm:flex-row sm:items-end">
+                {accounts.length > 0 && (
+                  <div className="sm:w-56">
+                    <label htmlFor="import-account" className="mb-1 block text-sm font-medium">Post to account</label>
+                    <select
+                      id="import-account"
+                      value={accountId}
+                      onChange={(e) => setAccountId(e.target.value)}
+                      className="block h-10 w-full rounded-[var(--radius-md)] border border-[var(--border)] bg-[var(--bg-surface)] px-3 focus:border-[var(--primary)] focus:outline-none"
+                    >
+                      {accounts.map((a) => (
+                        <option key={a.id} value={a.id}>{a.name}</option>
+                      ))}
+                      <option value="">No account</option>
+                    </select>
+                  </div>
+                )}
+                <input
+                  ref={fileRef}
+                  type="file"
+                  accept=".csv,.ofx,.qfx,text/csv"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    e.target.value = '';
+                    if (file) handleFile(file);
+                  }}
+                />
+                <button
+                  onClick={() => fileRef.current?.click()}
+                  disabled={isImporting}
+                  className="inline-flex h-10 items-center justify-center gap-2 rounded-[var(--radius-md)] bg-[var(--primary)] px-4 text-sm font-medium text-white shadow-sm hover:bg-[var(--primary-600)] disabled:opacity-60"
+                >
+                  {isImporting ? <Loader2 size={16} className="animate-spin" /> : <Upload size={16} />} Choose File
+                </button>
+              </div>
+
+              {result && (
+                <div className="mt-4 rounded-[var(--radius-md)] bg-[var(--bg-muted)] p-4 text-sm">
+                  <p className="font-medium text-[var(--text-primary)]">
+                    {result.imported} imported · {result.matched.length} matched · {result.queued} to review
+                    {result.duplicates > 0 && ` · ${result.duplicates} already imported`}
+                  </p>
+                  {result.matched.length > 0 && (
+                    <ul className="mt-2 space-y-1 text-[var(--text-secondary)]">
+                      {result.matched.map((m) => (
+                        <li key={m.transaction.external_id} className="flex items-center gap-2">
+                          <CheckCircle size={14} className="shrink-0 text-[var(--success)]" />
+                          <span className="truncate">
+                            {m.transaction.description} {formatUSD(Math.abs(m.transaction.amount))} → {m.label}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+
+              <div className="mt-6">
+                <h3 className="text-sm font-semibold uppercase tracking-wider text-[var(--text-tertiary)]">
+                  Review Queue ({queue.length})
+                </h3>
+                {queue.length === 0 ? (
+                  <p className="mt-2 text-sm text-[var(--text-secondary)]">No unmatched transactions waiting.</p>
+                ) : (
+                  <ul className="divide-y divide-[var(--border-subtle)]">
+                    {queue.map((item) => (
+                      <QueueItem key={item.id} item={item} categories={categories} onDone={(msg) => handleQueueDone(item.id, msg)} />
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </div>
+          </motion.div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -1,19 +1,32 @@
 'use client';
 
 import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { useToast } from '@/components/ToastProvider';
-import type { Snapshot } from '@/lib/types';
+import type { AccountLedger, BudgetAccount, BudgetCategory, Forecast, GoalProgress, Snapshot } from '@/lib/types';
 import TotalsDisplay from '@/components/budget/TotalsDisplay';
 import BudgetTable from '@/components/budget/BudgetTable';
+import ForecastChart from '@/components/budget/ForecastChart';
+import AccountsPanel from '@/components/budget/AccountsPanel';
+import AccountFormModal from '@/components/budget/AccountFormModal';
+import SavingsGoalsPanel from '@/components/budget/SavingsGoalsPanel';
+import SavingsGoalFormModal from '@/components/budget/SavingsGoalFormModal';
+import BankImportModal from '@/components/budget/BankImportModal';
+import CategoryManagerModal from '@/components/budget/CategoryManagerModal';
 import EntryFormModal from '@/components/budget/EntryFormModal';
 import ConfirmDialog from '@/components/ConfirmDialog';
-import { ChevronDown, Plus } from 'lucide-react';
+import { BarChart3, ChevronDown, Plus, Tags, TrendingDown, Upload } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 
 type Props = {
   initialSnapshotThis: Snapshot;
   initialSnapshotNext: Snapshot;
+  initialForecast: Forecast;
+  ledger: AccountLedger;
+  goals: GoalProgress[];
+  importQueueCount: number;
+  categories: BudgetCategory[];
   month_start: string;
   month_end: string;
   next_month_start: string;
@@ -26,6 +39,11 @@ type Props = {
 export default function BudgetManager({
   initialSnapshotThis,
   initialSnapshotNext,
+  initialForecast,
+  ledger,
+  goals,
+  importQueueCount,
+  categories,
   month_start,
   month_end,
   next_month_start,
@@ -46,6 +64,14 @@ export default function BudgetManager({
   const [confirmMessage, setConfirmMessage] = useState<string>('');
   const [confirmAction, setConfirmAction] = useState<null | (() => Promise<void>)>(null);
 
+  const [accountModalOpen, setAccountModalOpen] = useState<boolean>(false);
+  const [editingAccount, setEditingAccount] = useState<BudgetAccount | null>(null);
+  const [goalModalOpen, setGoalModalOpen] = useState<boolean>(false);
+  const [editingGoal, setEditingGoal] = useState<GoalProgress | null>(null);
+  const [importOpen, setImportOpen] = useState<boolean>(false);
+  const [categoriesOpen, setCategoriesOpen] = useState<boolean>(false);
+  const accounts = useMemo(() => ledger.accounts.map((a) => a.account), [ledger]);
+
   // Collapsible sections state
   const [showThis, setShowThis] = useState(true);
   const [showNext, setShowNext] = useState(true);
@@ -71,9 +97,31 @@ export default function BudgetManager({
     setModalInitial(null);
   };
 
+  const openAccountModal = (account: BudgetAccount | null) => {
+    setEditingAccount(account);
+    setAccountModalOpen(true);
+  };
+
+  const closeAccountModal = () => {
+    setAccountModalOpen(false);
+    setEditingAccount(null);
+  };
+
+  const openGoalModal = (goal: GoalProgress | null) => {
+    setEditingGoal(goal);
+    setGoalModalOpen(true);
+  };
+
+  const closeGoalModal = () => {
+    setGoalModalOpen(false);
+    setEditingGoal(null);
+  };
+
   const handleMutationComplete = (msg?: string) => {
     if (msg) notify({ title: 'Success', description: msg, variant: 'success' });
     closeModal();
+    closeAccountModal();
+    closeGoalModal();
     setConfirmOpen(false); // Close confirm dialog as well
     router.refresh(); // Refresh server-fetched data
   };
@@ -126,12 +174,46 @@ export default function BudgetManager({
             Track your income and expenses to manage your finances.
           </p>
         </div>
-        <button
-          onClick={openAddModal}
-          className="inline-flex h-10 items-center justify-center gap-2 rounded-[var(--radius-md)] bg-[var(--primary)] px-4 text-sm font-medium text-white shadow-[var(--shadow-1)] transition-colors hover:bg-[var(--primary-600)] self-start sm:self-auto"
-        >
-          <Plus size={18} /> Add Transaction
-        </button>
+        <div className="flex gap-2 self-start sm:self-auto">
+          <Link
+            href={`/budget/report?year=${month_start.slice(0, 4)}`}
+            className="inline-flex h-10 items-center justify-center gap-2 rounded-[var(--radius-md)] border border-[var(--border)] bg-[var(--bg-surface)] px-4 text-sm font-medium text-[var(--text-primary)] shadow-[var(--shadow-1)] transition-colors hover:bg-[var(--bg-muted)]"
+          >
+            <BarChart3 size={18} /> Year in Review
+          </Link>
+          <Link
+            href="/budget/debt"
+            className="inline-flex h-10 items-center justify-center gap-2 rounded-[var(--radius-md)] border border-[var(--border)] bg-[var(--bg-surface)] px-4 text-sm font-medium text-[var(--text-primary)] shadow-[var(--shadow-1)] transition-colors hover:bg-[var(--bg-muted)]"
+          >
+            <TrendingDown size={18} /> Debt Planner
+          </Link>
+          <button
+            onClick={() => setCategoriesOpen(true)}
+            className="inline-flex h-10 items-center justify-center gap-2 rounded-[var(--radius-md)] border border-[var(--border)] bg-[var(--bg-surface)] px-4 text-sm font-medium text-[var(--text-primary)] shadow-[var(--shadow-1)] transition-colors hover:bg-[var(--bg-muted)]"
+          >
+            <Tags size={18} /> Categories
+          </button>
+          <button
+            onClick={() => setImportOpen(true)}
+            className="inline-flex h-10 items-center justify-center gap-2 rounded-[var(--radius-md)] border border-[var(--border)] bg-[var(--bg-surface)] px-4 text-sm font-medium text-[var(--text-primary)] shadow-[var(--shadow-1)] transition-colors hover:bg-[var(--bg-muted)]"
+          >
+            <Upload size={18} /> Import Statement
+            {importQueueCount > 0 && (
+              <span
+                className="rounded-full px-2 py-0.5 text-xs font-medium"
+                style={{ backgroundColor: 'var(--warning)', color: 'white' }}
+              >
+                {importQueueCount} to review
+              </span>
+            )}
+          </button>
+          <button
+            onClick={openAddModal}
+            className="inline-flex h-10 items-center justify-center gap-2 rounded-[var(--radius-md)] bg-[var(--primary)] px-4 text-sm font-medium text-white shadow-[var(--shadow-1)] transition-colors hover:bg-[var(--primary-600)]"
+          >
+            <Plus size={18} /> Add Transaction
+          </button>
+        </div>
       </div>
 
       {/* MOVED TotalsDisplay OUTSIDE the collapsible sections, below the header */}
@@ -141,6 +223,34 @@ export default function BudgetManager({
         </div>
       )}
 
+      <div className="mb-8">
+        <AccountsPanel
+          ledger={ledger}
+          monthLabel={monthLabelThis}
+          onAdd={() => openAccountModal(null)}
+          onEdit={openAccountModal}
+          onRequestConfirm={onRequestConfirm}
+          onAfterMutation={handleMutationComplete}
+          onError={(msg) => notify({ title: 'Error', description: msg, variant: 'danger' })}
+        />
+      </div>
+
+      <div className="mb-8">
+        <SavingsGoalsPanel
+          goals={goals}
+          today_local={today_local}
+          onAdd={() => openGoalModal(null)}
+          onEdit={openGoalModal}
+          onRequestConfirm={onRequestConfirm}
+          onAfterMutation={handleMutationComplete}
+          onError={(msg) => notify({ title: 'Error', description: msg, variant: 'danger' })}
+        />
+      </div>
+
+      <div className="mb-8">
+        <ForecastChart initialForecast={initialForecast} start_month={month_start} />
+      </div>
+
       <div className="space-y-6">
         {/* THIS MONTH SECTION */}
         <div className="rounded-[var(--radius-lg)] bg-[var(--bg-surface)] border border-[var(--border-subtle)] shadow-[var(--shadow-1)] overflow-hidden">
@@ -186,6 +296,9 @@ export default function BudgetManager({
                     <BudgetTable
                       rows={snapshotThis.rows}
                       today_local={today_local}
+                      accounts={accounts}
+                      categories={categories}
+                      categoryTotals={snapshotThis.totals.by_category}
                       onEdit={openEditModal}
                       onRequestConfirm={onRequestConfirm}
                       onAfterMutation={handleMutationComplete}
@@ -234,6 +347,9 @@ export default function BudgetManager({
                     <BudgetTable
                       rows={snapshotNext.rows}
                       today_local={today_local}
+                      accounts={accounts}
+                      categories={categories}
+                      categoryTotals={snapshotNext.totals.by_category}
                       onEdit={openEditModal}
                       onRequestConfirm={onRequestConfirm}
                       onAfterMutation={handleMutationComplete}
@@ -254,6 +370,34 @@ export default function BudgetManager({
         onClose={closeModal}
         onSaved={handleMutationComplete}
         today_local={today_local}
+        categories={categories}
+      />
+      <AccountFormModal
+        open={accountModalOpen}
+        account={editingAccount}
+        onClose={closeAccountModal}
+        onSaved={handleMutationComplete}
+        today_local={today_local}
+      />
+      <SavingsGoalFormModal
+        open={goalModalOpen}
+        progress={editingGoal}
+        onClose={closeGoalModal}
+        onSaved={handleMutationComplete}
+        today_local={today_local}
+      />
+      <BankImportModal
+        open={importOpen}
+        accounts={accounts}
+        categories={categories}
+        onClose={() => setImportOpen(false)}
+        onChanged={() => router.refresh()}
+      />
+      <CategoryManagerModal
+        open={categoriesOpen}
+        categories={categories}
+        onClose={() => setCategoriesOpen(false)}
+        onChanged={() => router.refresh()}
       />
       <ConfirmDialog
         isOpen={confirmOpen}
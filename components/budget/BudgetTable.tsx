@@ -3,9 +3,9 @@
 import { useEffect, useRef, useState } from 'react';
 import { parse, format } from 'date-fns';
 import { useFormStatus } from 'react-dom';
-import type { UnifiedRow } from '@/lib/types';
+import type { BudgetAccount, BudgetCategory, CategoryTotal, UnifiedRow } from '@/lib/types';
 import { deleteEntry, deleteRule, markEntryPaid, markOccurrencePaid } from '@/app/(app)/budget/actions';
-import { MoreHorizontal, Edit, Trash2, CheckCircle } from 'lucide-react';
+import { MoreHorizontal, Edit, Trash2, CheckCircle, AlertTriangle } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { createPortal } from 'react-dom';
 
@@ -147,9 +147,10 @@ function FloatingMenu({
 }
 
 function Row({
-  r, today_local, onEdit, onRequestConfirm, onAfterMutation, registerFirstOverdue,
+  r, today_local, accounts, category, categoryTotal, onEdit, onRequestConfirm, onAfterMutation, registerFirstOverdue,
 }: {
-  r: UnifiedRow; today_local: string; onEdit: (initial: any) => void;
+  r: UnifiedRow; today_local: string; accounts: BudgetAccount[];
+  category?: BudgetCategory; categoryTotal?: CategoryTotal; onEdit: (initial: any) => void;
   onRequestConfirm: (opts: { message: string; action: () => Promise<void> }) => void;
   onAfterMutation: (msg?: string) => void;
   registerFirstOverdue: (el: HTMLTableRowElement | null, isOverdue: boolean) => void;
@@ -167,7 +168,7 @@ function Row({
   const isExpense = r.type === 'expense';
   const isPaidFromServer = r.status === 'Paid';
   const isPaidUI = isPaidFromServer || optimisticPaid;
-  const canMarkPaid = isExpense && !isPaidUI;
+  const canMarkPaid = !isPaidUI && (kind === 'one_time' || Boolean((r as any).rule_id && (r as any).occurrence_date));
   const amountClass = r.type === 'income' ? 'text-[var(--success)]' : 'text-[var(--text-primary)]';
 
   const delEntrySubmitRef = useRef<HTMLButtonElement>(null);
@@ -200,7 +201,7 @@ function Row({
         description: r.description, amount: r.amount, due_date: (r as any).effective_date ?? r.due_date ?? r.date,
       });
     } else {
-      onEdit({ mode: 'rule', id: (r as any).rule_id ?? r.id });
+      onEdit({ mode: 'rule', id: (r as any).rule_id ?? r.id, occurrence_date: (r as any).occurrence_date ?? null });
     }
   };
 
@@ -220,6 +221,15 @@ function Row({
   // --- UPDATED robust overdue check (mirrors Dashboard) ---
   const isOverdue = r.type === 'expense' && !r.is_paid && effective < today_local;
 
+  // One "mark paid" action per account (payment posts against it), or a plain one if there are no accounts
+  const paidOptions = accounts.length > 0
+    ? accounts.map((a) => ({
+        key: a.id,
+        account_id: a.id as string | null,
+        label: isExpense ? `Paid from ${a.name}` : `Received in ${a.name}`,
+      }))
+    : [{ key: 'none', account_id: null, label: isExpense ? 'Mark Paid' : 'Mark Received' }];
+
   // Shared inline style for menu items (since portal bypasses styled-jsx scoping)
   const menuItemStyle: React.CSSProperties = {
     display: 'flex',
@@ -236,7 +246,17 @@ function Row({
     <tr ref={(el) => registerFirstOverdue(el, isOverdue)} className="transition-colors hover:bg-[var(--bg-muted)]">
       <td className="px-6 py-3 whitespace-nowrap">{formatDate(effective)}</td>
       <td className="px-6 py-3 font-medium text-[var(--text-primary)] whitespace-nowrap">{r.description}</td>
-      <td className="px-6 py-3 capitalize whitespace-nowrap">{safeCategory}</td>
+      <td className="px-6 py-3 whitespace-nowrap">
+        <span className="inline-flex items-center gap-2">
+          <span className="h-2.5 w-2.5 shrink-0 rounded-full" style={{ backgroundColor: category?.color ?? '#94a3b8' }} />
+          <span className={category ? '' : 'capitalize'}>{category?.name ?? safeCategory}</span>
+          {r.type === 'expense' && categoryTotal?.over_budget && (
+            <span title={`Over the monthly limit ($${categoryTotal.spent.toFixed(2)} of $${(categoryTotal.limit ?? 0).toFixed(2)})`}>
+              <AlertTriangle size={14} className="text-[var(--danger)]" />
+            </span>
+          )}
+        </span>
+      </td>
       <td className="px-6 py-3 whitespace-nowrap">
         <StatusBadge status={isPaidUI ? 'Paid' : 'Pending'} overdue={!isPaidUI && isOverdue} />
       </td>
@@ -263,45 +283,32 @@ function Row({
                   <Edit size={14} /> Edit
                 </button>
 
-                {isExpense && !isPaidUI && (
-                  kind === 'one_time' ? (
-                    <form
-                      action={markEntryPaid.bind(null, { id: r.id, paid_on: today_local })}
-                      onSubmit={() => {
-                        setPaidArmed(true);
-                        setOpenActionMenu(false);
-                        setOptimisticPaid(true); // optimistic UI flip
-                      }}
-                      className="w-full"
-                    >
-                      <FormWatcher armed={paidArmed} onDone={() => { onAfterMutation('Marked paid'); }} />
-                      <button type="submit" style={menuItemStyle}>
-                        <CheckCircle size={14} /> Mark Paid
-                      </button>
-                    </form>
-                  ) : (
-                    ((r as any).rule_id && (r as any).occurrence_date) && (
-                      <form
-                        action={markOccurrencePaid.bind(null, {
-                          rule_id: (r as any).rule_id,
-                          occurrence_date: (r as any).occurrence_date,
-                          paid_on: today_local,
-                        })}
-                        onSubmit={() => {
-                          setPaidArmed(true);
-                          setOpenActionMenu(false);
-                          setOptimisticPaid(true); // optimistic UI flip
-                        }}
-                        className="w-full"
-                      >
-                        <FormWatcher armed={paidArmed} onDone={() => { onAfterMutation('Marked paid'); }} />
-                        <button type="submit" style={menuItemStyle}>
-                          <CheckCircle size={14} /> Mark Paid
-                        </button>
-                      </form>
-                    )
-                  )
-                )}
+                {canMarkPaid && paidOptions.map((opt) => (
+                  <form
+                    key={opt.key}
+                    action={
+                      kind === 'one_time'
+                        ? markEntryPaid.bind(null, { id: r.id, paid_on: today_local, account_id: opt.account_id })
+                        : markOccurrencePaid.bind(null, {
+                            rule_id: (r as any).rule_id,
+                            occurrence_date: (r as any).occurrence_date,
+                            paid_on: today_local,
+                            account_id: opt.account_id,
+                          })
+                    }
+                    onSubmit={() => {
+                      setPaidArmed(true);
+                      setOpenActionMenu(false);
+                      setOptimisticPaid(true); // optimistic UI flip
+                    }}
+                    className="w-full"
+                  >
+                    <FormWatcher armed={paidArmed} onDone={() => { onAfterMutation(isExpense ? 'Marked paid' : 'Marked received'); }} />
+                    <button type="submit" style={menuItemStyle}>
+                      <CheckCircle size={14} /> {opt.label}
+                    </button>
+                  </form>
+                ))}
 
                 <button onClick={handleDeleteConfirm} className="text-red-600" style={menuItemStyle}>
                   <Trash2 size={14} /> Delete
@@ -331,9 +338,10 @@ function Row({
 }
 
 export default function BudgetTable({
-  rows, today_local, onEdit, onRequestConfirm, onAfterMutation
+  rows, today_local, accounts = [], categories = [], categoryTotals = [], onEdit, onRequestConfirm, onAfterMutation
 }: {
-  rows: UnifiedRow[]; today_local: string; onEdit: (initial: any) => void;
+  rows: UnifiedRow[]; today_local: string; accounts?: BudgetAccount[];
+  categories?: BudgetCategory[]; categoryTotals?: CategoryTotal[]; onEdit: (initial: any) => void;
   onRequestConfirm: (opts: { message: string; action: () => Promise<void> }) => void;
   onAfterMutation: (msg?: string) => void;
 }) {
@@ -359,6 +367,10 @@ export default function BudgetTable({
   const overdueCount = overdueRows.length;
   const overdueTotal = overdueRows.reduce((sum, r) => sum + r.amount, 0);
 
+  const categoryByKey = new Map(categories.map((c) => [c.key, c]));
+  const totalByKey = new Map(categoryTotals.map((t) => [t.key, t]));
+  const overBudget = categoryTotals.filter((t) => t.over_budget);
+
   const scrollToFirstOverdue = () => {
     if (firstOverdueRef.current) {
       firstOverdueRef.current.scrollIntoView({ behavior: 'smooth', block: 'center' });
@@ -386,6 +398,18 @@ export default function BudgetTable({
           </button>
         </div>
       )}
+      {overBudget.length > 0 && (
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-1 border-b border-[var(--border-subtle)] bg-[var(--warning)]/5 p-4 text-sm">
+          <span className="inline-flex items-center gap-1.5 font-semibold text-[var(--danger)]">
+            <AlertTriangle size={14} /> Over budget
+          </span>
+          {overBudget.map((t) => (
+            <span key={t.key} className="text-[var(--text-secondary)]">
+              <span className="font-medium text-[var(--text-primary)]">{t.name}</span> ${t.spent.toFixed(2)} of ${(t.limit ?? 0).toFixed(2)}
+            </span>
+          ))}
+        </div>
+      )}
       <div className="overflow-x-auto">
         <table className="min-w-full text-sm">
           <thead className="bg-[var(--bg-muted)]">
@@ -411,6 +435,9 @@ export default function BudgetTable({
                   key={(r as any).occurrence_id ?? `${r.id}:${(r as any).effective_date ?? r.due_date ?? r.date}`}
                   r={r}
                   today_local={today_local}
+                  accounts={accounts}
+                  category={categoryByKey.get(String(r.category))}
+                  categoryTotal={totalByKey.get(String(r.category))}
                   onEdit={onEdit}
                   onRequestConfirm={onRequestConfirm}
                   onAfterMutation={onAfterMutation}
@@ -0,0 +1,185 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Loader2, Plus, Trash2 } from 'lucide-react';
+import { useToast } from '@/components/ToastProvider';
+import { deleteCategory, upsertCategory } from '@/app/(app)/budget/actions';
+import type { BudgetCategory, EntryType } from '@/lib/types';
+
+type Props = {
+  open: boolean;
+  categories: BudgetCategory[];
+  onClose: () => void;
+  onChanged: () => void; // Data changed server-side; parent refreshes
+};
+
+type Draft = {
+  id?: string;
+  name: string;
+  type: EntryType;
+  color: string;
+  limit: string; // '' = no cap
+};
+
+const toDraft = (c: BudgetCategory): Draft => ({
+  id: c.id,
+  name: c.name,
+  type: c.type,
+  color: c.color,
+  limit: c.monthly_limit != null ? String(c.monthly_limit) : '',
+});
+
+const inputClasses =
+  'h-9 rounded-[var(--radius-sm)] border border-[var(--border)] bg-[var(--bg-surface)] px-2 text-sm focus:border-[var(--primary)] focus:outline-none disabled:opacity-50';
+
+function CategoryRow({
+  draft, isNew, onSaved, onDeleted,
+}: {
+  draft: Draft; isNew?: boolean; onSaved: (msg: string) => void; onDeleted?: () => void;
+}) {
+  const { notify } = useToast();
+  const [value, setValue] = useState<Draft>(draft);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [isPending, startTransition] = useTransition();
+  const dirty = isNew || JSON.stringify(value) !== JSON.stringify(draft);
+
+  const save = () => {
+    const limit = value.limit.trim() === '' ? null : Number(value.limit);
+    if (limit != null && (!Number.isFinite(limit) || limit < 0)) {
+      notify({ title: 'Validation Error', description: 'Monthly limit must be a positive amount.', variant: 'warning' });
+      return;
+    }
+    startTransition(async () => {
+      try {
+        await upsertCategory({ id: value.id, name: value.name, type: value.type, color: value.color, monthly_limit: limit });
+        onSaved(isNew ? 'Category added' : 'Category updated');
+        if (isNew) setValue(draft);
+      } catch (err: any) {
+        notify({ title: 'Error', description: err?.message ?? 'Could not save the category.', variant: 'danger' });
+      }
+    });
+  };
+
+  const remove = () => {
+    if (!value.id) return;
+    if (!confirmDelete) {
+      setConfirmDelete(true);
+      return;
+    }
+    startTransition(async () => {
+      try {
+        await deleteCategory({ id: value.id! });
+        onDeleted?.();
+      } catch (err: any) {
+        notify({ title: 'Error', description: err?.message ?? 'Could not delete the category.', variant: 'danger' });
+      }
+    });
+  };
+
+  return (
+    <li className="flex flex-wrap items-center gap-2 py-2.5">
+      <input
+        type="color"
+        value={value.color}
+        onChange={(e) => setValue({ ...value, color: e.target.value })}
+        aria-label="Color"
+        className="h-9 w-9 shrink-0 cursor-pointer rounded-[var(--radius-sm)] border border-[var(--border)] bg-transparent p-0.5"
+      />
+      <input
+        value={value.name}
+        onChange={(e) => setValue({ ...value, name: e.target.value })}
+        placeholder={isNew ? 'New category' : 'Name'}
+        aria-label="Name"
+        className={`${inputClasses} min-w-0 flex-1`}
+      />
+      <select
+        value={value.type}
+        onChange={(e) => setValue({ ...value, type: e.target.value as EntryType })}
+        disabled={!isNew}
+        aria-label="Type"
+        className={inputClasses}
+      >
+        <option value="expense">Expense</option>
+        <option value="income">Income</option>
+      </select>
+      <input
+        type="number"
+        min={0}
+        step="0.01"
+        value={value.limit}
+        onChange={(e) => setValue({ ...value, limit: e.target.value })}
+        disabled={value.type !== 'expense'}
+        placeholder="No limit"
+        aria-label="Monthly limit"
+        className={`${inputClasses} w-28`}
+      />
+      <div className="flex w-[120px] shrink-0 justify-end gap-1">
+        {dirty && (
+          <button
+            onClick={save}
+            disabled={isPending || !value.name.trim()}
+            className="inline-flex h-8 items-center gap-1 rounded-[var(--radius-sm)] bg-[var(--primary)] px-2.5 text-xs font-medium text-white hover:bg-[var(--primary-600)] disabled:opacity-60"
+          >
+            {isPending ? <Loader2 size={12} className="animate-spin" /> : isNew ? <Plus size={12} /> : null} {isNew ? 'Add' : 'Save'}
+          </button>
+        )}
+        {!isNew && (
+          <button
+            onClick={remove}
+            onBlur={() => setConfirmDelete(false)}
+            disabled={isPending}
+            aria-label="Delete category"
+            className={`inline-flex h-8 items-center rounded-[var(--radius-sm)] px-2 text-xs font-medium ${confirmDelete ? 'bg-[var(--danger)] text-white' : 'text-[var(--text-tertiary)] hover:bg-[var(--bg-muted)] hover:text-[var(--danger)]'}`}
+          >
+            {confirmDelete ? 'Delete?' : <Trash2 size={14} />}
+          </button>
+        )}
+      </div>
+    </li>
+  );
+}
+
+export default function CategoryManagerModal({ open, categories, onClose, onChanged }: Props) {
+  const { notify } = useToast();
+
+  const handleSaved = (msg: string) => {
+    notify({ title: 'Success', description: msg, variant: 'success' });
+    onChanged();
+  };
+
+  return (
+    <AnimatePresence>
+      {open && (
+        <div className="fixed inset-0 z-[1000] flex items-center justify-center p-4">
+          <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} onClick={onClose} className="absolute inset-0 bg-black/50" />
+          <motion.div initial={{ opacity: 0, y: 30 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: 30 }} className="relative z-10 flex max-h-[90vh] w-full max-w-2xl flex-col rounded-[var(--radius-lg)] bg-[var(--bg-surface)] p-6 shadow-[var(--shadow-3)]">
+            <div className="mb-4 flex items-start justify-between border-b border-[var(--border-subtle)] pb-4">
+              <div>
+                <h2 className="text-[var(--fs-h3)] font-semibold">Budget Categories</h2>
+                <p className="text-sm text-[var(--text-secondary)]">Set a monthly limit on an expense category to get warned when the month&apos;s items go over it.</p>
+              </div>
+              <button onClick={onClose} aria-label="Close" className="rounded-md p-1 text-[var(--text-tertiary)] transition-colors hover:bg-[var(--bg-muted)] hover:text-[var(--text-primary)]"><X size={20} /></button>
+            </div>
+
+            <ul className="divide-y divide-[var(--border-subtle)] overflow-y-auto">
+              {categories.map((c) => (
+                <CategoryRow
+                  key={`${c.id}:${c.name}:${c.color}:${c.monthly_limit}`}
+                  draft={toDraft(c)}
+                  onSaved={handleSaved}
+                  onDeleted={() => handleSaved(`${c.name} deleted; its items moved to ${c.type === 'income' ? 'Business Income' : 'Other'}`)}
+                />
+              ))}
+              <CategoryRow
+                isNew
+                draft={{ name: '', type: 'expense', color: '#6366f1', limit: '' }}
+                onSaved={handleSaved}
+              />
+            </ul>
+          </motion.div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+}
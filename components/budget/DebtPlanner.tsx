@@ -0,0 +1,317 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { addMonths, format, parseISO, startOfMonth } from 'date-fns';
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { ArrowLeft, Edit, Plus, Trash2, TrendingDown } from 'lucide-react';
+import { useToast } from '@/components/ToastProvider';
+import ConfirmDialog from '@/components/ConfirmDialog';
+import LoanFormModal from '@/components/budget/LoanFormModal';
+import { deleteLoan } from '@/app/(app)/budget/actions';
+import { planDebtPayoff } from '@/lib/BudgetLogic';
+import { PAYOFF_STRATEGIES, type DebtOverview, type LoanStatus, type PayoffStrategy, type Rule } from '@/lib/types';
+
+const formatUSD = (value: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(value);
+
+const formatMonth = (iso: string | null) => (iso ? format(parseISO(iso), 'MMM yyyy') : 'Never');
+
+const STRATEGY_LABELS: Record<PayoffStrategy, { name: string; hint: string; color: string }> = {
+  snowball: { name: 'Snowball', hint: 'Smallest balance first', color: 'var(--primary)' },
+  avalanche: { name: 'Avalanche', hint: 'Highest APR first', color: 'var(--success)' },
+};
+
+const cardClasses = 'rounded-[var(--radius-lg)] bg-[var(--bg-surface)] p-4 shadow-[var(--shadow-1)]';
+
+type Props = {
+  overview: DebtOverview;
+  today_local: string;
+};
+
+export default function DebtPlanner({ overview, today_local }: Props) {
+  const { notify } = useToast();
+  const router = useRouter();
+  const [extra, setExtra] = useState('0');
+  const [strategy, setStrategy] = useState<PayoffStrategy>('avalanche');
+  const [scheduleLoanId, setScheduleLoanId] = useState<string | null>(null);
+  const [modal, setModal] = useState<{ loan: LoanStatus | null; rule: Rule | null } | null>(null);
+  const [toDelete, setToDelete] = useState<LoanStatus | null>(null);
+
+  // Payments this month may already be in; plans start next month
+  const start_month = format(startOfMonth(addMonths(parseISO(today_local), 1)), 'yyyy-MM-dd');
+
+  const plans = useMemo(() => {
+    const loans = overview.loans
+      .filter((l) => l.balance > 0)
+      .map((l) => ({
+        id: l.loan.id,
+        description: l.description,
+        balance: l.balance,
+        apr: l.loan.apr,
+        minimum_payment: l.loan.minimum_payment,
+      }));
+    return Object.fromEntries(
+      PAYOFF_STRATEGIES.map((s) => [s, planDebtPayoff({ loans, strategy: s, extra: Number(extra) || 0, start_month })])
+    ) as Record<PayoffStrategy, ReturnType<typeof planDebtPayoff>>;
+  }, [overview.loans, extra, start_month]);
+
+  const plan = plans[strategy];
+  const cheaper: PayoffStrategy | null =
+    plans.snowball.total_interest === plans.avalanche.total_interest
+      ? null
+      : plans.snowball.total_interest < plans.avalanche.total_interest
+        ? 'snowball'
+        : 'avalanche';
+  const chartData = (plans.snowball.balances.length >= plans.avalanche.balances.length ? plans.snowball : plans.avalanche).balances.map(
+    (b, i) => ({
+      label: format(parseISO(b.month_start), 'MMM yy'),
+      snowball: plans.snowball.balances[i]?.balance ?? 0,
+      avalanche: plans.avalanche.balances[i]?.balance ?? 0,
+    })
+  );
+  const schedule = plan.loans.find((l) => l.loan_id === (scheduleLoanId ?? plan.loans[0]?.loan_id));
+  const totalOwed = overview.loans.reduce((sum, l) => sum + l.balance, 0);
+
+  const handleSaved = (msg?: string) => {
+    if (msg) notify({ title: 'Success', description: msg, variant: 'success' });
+    setModal(null);
+    router.refresh();
+  };
+
+  const handleDelete = async () => {
+    if (!toDelete) return;
+    try {
+      await deleteLoan({ id: toDelete.loan.id });
+      handleSaved('Loan details removed');
+    } catch (err: any) {
+      notify({ title: 'Error', description: err?.message ?? 'Could not remove the loan.', variant: 'danger' });
+    } finally {
+      setToDelete(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <Link href="/budget" className="mb-2 inline-flex items-center gap-1 text-sm text-[var(--text-secondary)] hover:text-[var(--text-primary)]">
+          <ArrowLeft size={14} /> Budget
+        </Link>
+        <h1 className="text-[var(--fs-h1)] font-bold tracking-tight text-[var(--text-primary)]">Debt Payoff Planner</h1>
+        <p className="text-[var(--text-secondary)]">
+          {overview.loans.length > 0
+            ? `${formatUSD(totalOwed)} owed across ${overview.loans.length} loan${overview.loans.length === 1 ? '' : 's'}.`
+            : 'Attach a balance, APR and minimum payment to your loan rules to plan their payoff.'}
+        </p>
+      </div>
+
+      <div>
+        <h2 className="mb-3 text-[var(--fs-h4)] font-semibold text-[var(--text-primary)]">Loans</h2>
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
+          {overview.loans.map((l) => (
+            <div key={l.loan.id} className={cardClasses}>
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <div className="truncate font-semibold text-[var(--text-primary)]">{l.description}</div>
+                  <div className="text-xs text-[var(--text-tertiary)]">
+                    {l.loan.apr}% APR · min {formatUSD(l.loan.minimum_payment)}/mo
+                  </div>
+                </div>
+                <div className="flex shrink-0 gap-1">
+                  <button onClick={() => setModal({ loan: l, rule: null })} aria-label="Edit loan" className="rounded-md p-1 text-[var(--text-tertiary)] hover:bg-[var(--bg-muted)] hover:text-[var(--text-primary)]">
+                    <Edit size={14} />
+                  </button>
+                  <button onClick={() => setToDelete(l)} aria-label="Remove loan details" className="rounded-md p-1 text-[var(--text-tertiary)] hover:bg-[var(--bg-muted)] hover:text-[var(--danger)]">
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              </div>
+              <div className="mt-3 text-[var(--fs-h3)] font-bold text-[var(--text-primary)]">{formatUSD(l.balance)}</div>
+              <div className="mt-1 flex flex-wrap gap-x-3 text-xs text-[var(--text-secondary)]">
+                <span>{l.payments_count} payment{l.payments_count === 1 ? '' : 's'} since {format(parseISO(l.loan.balance_date), 'MMM d, yyyy')}</span>
+                <span>{formatUSD(l.principal_paid)} principal</span>
+                <span>{formatUSD(l.interest_paid)} interest</span>
+              </div>
+            </div>
+          ))}
+          {overview.unconfigured.map((r) => (
+            <button
+              key={r.id}
+              type="button"
+              onClick={() => setModal({ loan: null, rule: r })}
+              className="flex flex-col items-start justify-center gap-1 rounded-[var(--radius-lg)] border border-dashed border-[var(--border)] p-4 text-left text-sm hover:bg-[var(--bg-muted)]"
+            >
+              <span className="inline-flex items-center gap-1 font-medium text-[var(--text-primary)]">
+                <Plus size={14} /> {r.description}
+              </span>
+              <span className="text-xs text-[var(--text-secondary)]">Add balance, APR and minimum payment</span>
+            </button>
+          ))}
+          {overview.loans.length === 0 && overview.unconfigured.length === 0 && (
+            <div className="rounded-[var(--radius-lg)] border border-dashed border-[var(--border)] p-6 text-center text-sm text-[var(--text-secondary)] sm:col-span-2 lg:col-span-3">
+              No recurring rules in the Loan category yet. Add your loan payments on the budget page first.
+            </div>
+          )}
+        </div>
+      </div>
+
+      {plan.loans.length > 0 && (
+        <>
+          <div className={cardClasses}>
+            <div className="mb-4 flex flex-col gap-3 sm:flex-row sm:items-end sm:justify-between">
+              <div>
+                <h2 className="text-[var(--fs-h4)] font-semibold text-[var(--text-primary)]">Snowball vs. Avalanche</h2>
+                <p className="text-sm text-[var(--text-secondary)]">
+                  Paying {formatUSD(plan.monthly_budget)} a month from {formatMonth(start_month)}.
+                </p>
+              </div>
+              <label className="text-sm">
+                <span className="mb-1 block font-medium">Extra per month</span>
+                <input
+                  type="number"
+                  step="10"
+                  min="0"
+                  value={extra}
+                  onChange={(e) => setExtra(e.target.value)}
+                  className="block h-10 w-36 rounded-[var(--radius-md)] border border-[var(--border)] bg-[var(--bg-surface)] px-3 focus:border-[var(--primary)] focus:outline-none focus:ring-2 focus:ring-[var(--focus-ring)]/30"
+                />
+              </label>
+            </div>
+
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+              {PAYOFF_STRATEGIES.map((s) => {
+                const p = plans[s];
+                const selected = s === strategy;
+                return (
+                  <button
+                    key={s}
+                    type="button"
+                    onClick={() => setStrategy(s)}
+                    aria-pressed={selected}
+                    className={`rounded-[var(--radius-md)] border p-4 text-left transition-colors ${
+                      selected ? 'border-[var(--primary)] bg-[var(--bg-muted)]' : 'border-[var(--border)] hover:bg-[var(--bg-muted)]'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-semibold text-[var(--text-primary)]">{STRATEGY_LABELS[s].name}</span>
+                      {cheaper === s && (
+                        <span className="rounded-full px-2 py-0.5 text-xs font-medium" style={{ backgroundColor: 'var(--success)', color: 'white' }}>
+                          Saves {formatUSD(Math.abs(plans.snowball.total_interest - plans.avalanche.total_interest))}
+                        </span>
+                      )}
+                    </div>
+                    <div className="text-xs text-[var(--text-tertiary)]">{STRATEGY_LABELS[s].hint}</div>
+                    <div className="mt-3 grid grid-cols-2 gap-2 text-sm">
+                      <div>
+                        <div className="text-[var(--text-secondary)]">Debt-free</div>
+                        <div className="font-semibold text-[var(--text-primary)]">{formatMonth(p.payoff_month)}</div>
+                      </div>
+                      <div>
+                        <div className="text-[var(--text-secondary)]">Total interest</div>
+                        <div className="font-semibold text-[var(--text-primary)]">{formatUSD(p.total_interest)}</div>
+                      </div>
+                    </div>
+                    <ol className="mt-3 space-y-1 text-xs text-[var(--text-secondary)]">
+                      {p.loans.map((l, i) => (
+                        <li key={l.loan_id} className="flex justify-between gap-2">
+                          <span className="truncate">{i + 1}. {l.description}</span>
+                          <span className="shrink-0">{formatMonth(l.payoff_month)}</span>
+                        </li>
+                      ))}
+                    </ol>
+                  </button>
+                );
+              })}
+            </div>
+
+            {plan.months === null && (
+              <p className="mt-3 text-sm text-[var(--danger)]">
+                The payments don&apos;t cover the interest on every loan; add an extra amount to get out of debt.
+              </p>
+            )}
+
+            <div className="mt-6 h-[280px] min-h-[280px] w-full">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={chartData} margin={{ left: 10, right: 10 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="var(--border-subtle)" />
+                  <XAxis dataKey="label" minTickGap={24} />
+                  <YAxis tickFormatter={(value) => formatUSD(value)} width={90} />
+                  <Tooltip formatter={(value: number, name: string) => [formatUSD(value), name]} />
+                  <Legend />
+                  {PAYOFF_STRATEGIES.map((s) => (
+                    <Line key={s} type="monotone" dataKey={s} name={STRATEGY_LABELS[s].name} stroke={STRATEGY_LABELS[s].color} dot={false} strokeWidth={2} />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          <div className={cardClasses}>
+            <div className="mb-3 flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+              <h2 className="inline-flex items-center gap-2 text-[var(--fs-h4)] font-semibold text-[var(--text-primary)]">
+                <TrendingDown size={18} /> Amortization ({STRATEGY_LABELS[strategy].name})
+              </h2>
+              <select
+                value={schedule?.loan_id ?? ''}
+                onChange={(e) => setScheduleLoanId(e.target.value)}
+                className="h-10 rounded-[var(--radius-md)] border border-[var(--border)] bg-[var(--bg-surface)] px-3 text-sm"
+              >
+                {plan.loans.map((l) => (
+                  <option key={l.loan_id} value={l.loan_id}>{l.description}</option>
+                ))}
+              </select>
+            </div>
+            {schedule && (
+              <div className="max-h-[420px] overflow-y-auto">
+                <table className="w-full text-sm">
+                  <thead className="sticky top-0 bg-[var(--bg-surface)] text-left text-xs uppercase text-[var(--text-secondary)]">
+                    <tr>
+                      <th className="py-2 pr-2 font-medium">Month</th>
+                      <th className="py-2 pr-2 text-right font-medium">Payment</th>
+                      <th className="py-2 pr-2 text-right font-medium">Interest</th>
+                      <th className="py-2 pr-2 text-right font-medium">Principal</th>
+                      <th className="py-2 text-right font-medium">Balance</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-[var(--border-subtle)]">
+                    {schedule.schedule.map((row) => (
+                      <tr key={row.month_start}>
+                        <td className="py-1.5 pr-2 text-[var(--text-primary)]">{formatMonth(row.month_start)}</td>
+                        <td className="py-1.5 pr-2 text-right">{formatUSD(row.payment)}</td>
+                        <td className="py-1.5 pr-2 text-right text-[var(--text-secondary)]">{formatUSD(row.interest)}</td>
+                        <td className="py-1.5 pr-2 text-right text-[var(--text-secondary)]">{formatUSD(row.principal)}</td>
+                        <td className="py-1.5 text-right font-medium text-[var(--text-primary)]">{formatUSD(row.balance)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+
+      <LoanFormModal
+        open={modal !== null}
+        rule={modal?.rule ?? (modal?.loan ? { id: modal.loan.loan.rule_id, description: modal.loan.description, amount: modal.loan.loan.minimum_payment } : null)}
+        loan={modal?.loan?.loan ?? null}
+        onClose={() => setModal(null)}
+        onSaved={handleSaved}
+        today_local={today_local}
+      />
+      <ConfirmDialog isOpen={toDelete !== null} onClose={() => setToDelete(null)} onConfirm={handleDelete} title="Are you sure?">
+        {toDelete && `Remove the loan details from "${toDelete.description}"? The rule and its payments stay in your budget.`}
+      </ConfirmDialog>
+    </div>
+  );
+}
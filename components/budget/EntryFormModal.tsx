@@ -2,6 +2,7 @@
 
 import { useEffect, useMemo, useRef, useState } from 'react';
 import { createBrowserClient } from '@supabase/ssr';
+import { format, parseISO } from 'date-fns';
 import { useFormStatus } from 'react-dom';
 import { motion, AnimatePresence } from 'framer-motion';
 import { X, Loader2 } from 'lucide-react'; // Ensure Loader2 is imported
@@ -10,10 +11,12 @@ import { useToast } from '@/components/ToastProvider';
 import {
   upsertEntry,
   upsertRule,
+  splitRule,
+  getRuleHistory,
   deleteRule,
   postponeEntry,
 } from '@/app/(app)/budget/actions'; // Correct path assumed
-import type { Category, EntryType, Frequency } from '@/lib/types';
+import type { BudgetCategory, Category, EntryType, Frequency, IntervalUnit, MonthDayMode, Rule, WeekendShift } from '@/lib/types';
 
 // Helper to watch form status for server actions
 function FormWatcher({ armed, onDone }: { armed: boolean; onDone: () => void }) {
@@ -39,17 +42,22 @@ type Props = {
   onClose: () => void;
   onSaved: (msg?: string) => void;
   today_local: string;
+  categories: BudgetCategory[];
 };
 
-const expenseCategories: Category[] = ['bill', 'gas', 'groceries', 'loan', 'other', 'subscription'];
-// Removed doordash_income and job_income as per types update
-const incomeCategories: Category[] = ['business_income'];
 const dowOptions = [
   { v: 1, label: 'Mon' }, { v: 2, label: 'Tue' }, { v: 3, label: 'Wed' },
   { v: 4, label: 'Thu' }, { v: 5, label: 'Fri' }, { v: 6, label: 'Sat' }, { v: 7, label: 'Sun' },
 ];
 
-export default function EntryFormModal({ open, initial, onClose, onSaved, today_local }: Props) {
+type EndMode = 'never' | 'on_date' | 'after';
+type ApplyScope = 'all' | 'future';
+
+const formatDay = (iso: string) => format(parseISO(iso), 'MMM d, yyyy');
+const formatUSD = (value: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(value);
+
+export default function EntryFormModal({ open, initial, onClose, onSaved, today_local, categories }: Props) {
   const { notify } = useToast();
   const supabase = useMemo(() => createBrowserClient(
     process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -59,11 +67,17 @@ export default function EntryFormModal({ open, initial, onClose, onSaved, today_
   const isEditingRule = initial?.mode === 'rule' && !!initial?.id;
   const isEditingEntry = initial?.mode === 'entry' && !!initial?.id;
   const isPostponeEntry = initial?.mode === 'entry' && !!initial?.postpone;
+  // Occurrence the rule was opened from; enables "this and future occurrences"
+  const splitFrom: string | null = isEditingRule && initial?.occurrence_date ? String(initial.occurrence_date) : null;
+
+  const expenseCategories = useMemo(() => categories.filter((c) => c.type === 'expense').map((c) => c.key), [categories]);
+  const incomeCategories = useMemo(() => categories.filter((c) => c.type === 'income').map((c) => c.key), [categories]);
+  const categoryNames = useMemo(() => new Map(categories.map((c) => [c.key, c.name])), [categories]);
 
   // State
   const [isRecurring, setIsRecurring] = useState<boolean>(false);
   const [type, setType] = useState<EntryType>('expense');
-  const [category, setCategory] = useState<Category>(expenseCategories[0]);
+  const [category, setCategory] = useState<Category>('');
   const [description, setDescription] = useState<string>('');
   const [amount, setAmount] = useState<string>('');
   const [dueDate, setDueDate] = useState<string>(today_local);
@@ -71,6 +85,15 @@ export default function EntryFormModal({ open, initial, onClose, onSaved, today_
   const [domStr, setDomStr] = useState<string>('1');
   const [dowStr, setDowStr] = useState<string>('1');
   const [startAnchor, setStartAnchor] = useState<string>(today_local);
+  const [intervalStr, setIntervalStr] = useState<string>('2');
+  const [intervalUnit, setIntervalUnit] = useState<IntervalUnit>('month');
+  const [monthDay, setMonthDay] = useState<MonthDayMode>('day_of_month');
+  const [endMode, setEndMode] = useState<EndMode>('never');
+  const [endDate, setEndDate] = useState<string>('');
+  const [countStr, setCountStr] = useState<string>('12');
+  const [weekendShift, setWeekendShift] = useState<WeekendShift>('none');
+  const [applyScope, setApplyScope] = useState<ApplyScope>('all');
+  const [history, setHistory] = useState<Rule[]>([]);
   const [ruleId, setRuleId] = useState<string | null>(null);
   const [isLoadingRule, setIsLoadingRule] = useState(false);
 
@@ -89,10 +112,13 @@ export default function EntryFormModal({ open, initial, onClose, onSaved, today_
     }
 
     const resetState = () => {
-        setIsRecurring(false); setType('expense'); setCategory(expenseCategories[0]);
+        setIsRecurring(false); setType('expense'); setCategory('');
         setDescription(''); setAmount(''); setDueDate(today_local);
         setFrequency('monthly'); setDomStr('1'); setDowStr('1');
         setStartAnchor(today_local); setRuleId(null);
+        setIntervalStr('2'); setIntervalUnit('month'); setMonthDay('day_of_month');
+        setEndMode('never'); setEndDate(''); setCountStr('12'); setWeekendShift('none');
+        setApplyScope('all'); setHistory([]);
         setSubmitArmed(false); setPostponeArmed(false);
         setIsLoadingRule(false);
         fetchingRuleIdRef.current = null;
@@ -102,6 +128,7 @@ export default function EntryFormModal({ open, initial, onClose, onSaved, today_
         const currentInitialId = initial.id;
         setIsRecurring(true); // Set recurring true when editing a rule
         setRuleId(currentInitialId);
+        setApplyScope('all'); setHistory([]);
         setIsLoadingRule(true);
         fetchingRuleIdRef.current = currentInitialId;
 
@@ -117,28 +144,38 @@ export default function EntryFormModal({ open, initial, onClose, onSaved, today_
                     onClose();
                 } else {
                     setType(data.type ?? 'expense');
-                    setCategory(data.category ?? expenseCategories[0]);
+                    setCategory(data.category ?? '');
                     setDescription(data.description ?? '');
                     setAmount(String(data.amount ?? ''));
                     setFrequency(data.frequency ?? 'monthly');
                     setDomStr(data.dom != null ? String(data.dom) : '1');
                     setDowStr(data.dow != null ? String(data.dow) : '1');
                     setStartAnchor(data.start_anchor ?? today_local);
+                    setIntervalStr(data.interval != null ? String(data.interval) : '2');
+                    setIntervalUnit(data.interval_unit ?? 'month');
+                    setMonthDay(data.month_day ?? 'day_of_month');
+                    setEndMode(data.end_date ? 'on_date' : data.occurrence_count ? 'after' : 'never');
+                    setEndDate(data.end_date ?? '');
+                    setCountStr(data.occurrence_count != null ? String(data.occurrence_count) : '12');
+                    setWeekendShift(data.weekend_shift ?? 'none');
                 }
                 setIsLoadingRule(false);
             });
+        getRuleHistory({ id: currentInitialId })
+            .then((rules) => { if (fetchingRuleIdRef.current === currentInitialId) setHistory(rules); })
+            .catch((err) => console.error(`Error fetching history for rule ${currentInitialId}:`, err?.message));
     } else if (isPostponeEntry && isEditingEntry) {
         resetState();
         setDueDate(initial.due_date ?? today_local);
         setDescription(initial.description ?? '');
         setAmount(String(initial.amount ?? ''));
         setType(initial.type ?? 'expense');
-        setCategory(initial.category ?? expenseCategories[0]);
+        setCategory(initial.category ?? '');
     } else if (isEditingEntry) {
         resetState();
         setIsRecurring(false); // Ensure recurring is false when editing a one-time entry
         setType(initial.type ?? 'expense');
-        setCategory(initial.category ?? expenseCategories[0]);
+        setCategory(initial.category ?? '');
         setDescription(initial.description ?? '');
         setAmount(String(initial.amount ?? ''));
         setDueDate(initial.due_date ?? today_local);
@@ -148,36 +185,69 @@ export default function EntryFormModal({ open, initial, onClose, onSaved, today_
     }
   }, [open, initial, isEditingEntry, isEditingRule, isPostponeEntry, supabase, today_local, notify, onClose]);
 
-  // Effect to sync category options when type changes
+  // Effect to sync category options when type changes (also picks the first one after a reset)
   useEffect(() => {
     if (type === 'expense' && !expenseCategories.includes(category)) {
-        setCategory(expenseCategories[0]);
+        setCategory(expenseCategories[0] ?? '');
     } else if (type === 'income' && !incomeCategories.includes(category)) {
-        setCategory(incomeCategories[0]);
+        setCategory(incomeCategories[0] ?? '');
     }
-  }, [type, category]);
+  }, [type, category, expenseCategories, incomeCategories]);
+
+  // Frequencies that land on a day of the month vs. repeat from the anchor's weekday
+  const isMonthBased = frequency === 'monthly' || frequency === 'quarterly' || frequency === 'yearly' || (frequency === 'custom' && intervalUnit === 'month');
+  const isWeekBased = frequency === 'weekly' || frequency === 'biweekly' || (frequency === 'custom' && intervalUnit === 'week');
+
+  // Splitting at the rule's first occurrence is the same as editing every occurrence
+  const canSplit = !!splitFrom && splitFrom > startAnchor;
+  const isSplitting = canSplit && applyScope === 'future';
+  const effectiveStart = isSplitting ? splitFrom! : startAnchor;
 
   function validate(): { ok: boolean; msg?: string } {
     const amt = Number(amount);
     if (!description.trim()) return { ok: false, msg: 'Description is required.' };
     if (!amount || Number.isNaN(amt) || amt <= 0) return { ok: false, msg: 'Amount must be greater than 0.' };
+    if (!category) return { ok: false, msg: 'Pick a category.' };
 
     // Use isRecurring state for validation logic, covering Add New and Edit One-Time modes
     if (isRecurring) {
         if (!startAnchor) return { ok: false, msg: 'Start date is required for recurring items.' };
-        if (frequency === 'monthly') {
+        if (frequency === 'custom') {
+            const interval = Number(intervalStr);
+            if (!intervalStr || !Number.isInteger(interval) || interval < 1) return { ok: false, msg: 'Repeat interval must be a whole number of at least 1.' };
+        }
+        if (isMonthBased && monthDay === 'day_of_month') {
             const dom = Number(domStr);
             if (!domStr || Number.isNaN(dom) || dom < 1 || dom > 31) return { ok: false, msg: 'Day of month must be 1-31.' };
-        } else { // weekly or biweekly
+        } else if (isWeekBased) {
             const dow = Number(dowStr);
             if (!dowStr || Number.isNaN(dow) || dow < 1 || dow > 7) return { ok: false, msg: 'Day of week must be 1-7.' };
         }
+        if (endMode === 'on_date' && (!endDate || endDate < effectiveStart)) return { ok: false, msg: 'End date must be on or after the start date.' };
+        if (endMode === 'after') {
+            const count = Number(countStr);
+            if (!countStr || !Number.isInteger(count) || count < 1) return { ok: false, msg: 'Number of occurrences must be at least 1.' };
+        }
     } else { // One-time entry (either adding new or editing existing one-time)
         if (!dueDate) return { ok: false, msg: 'Due date is required for one-time entries.' };
     }
     return { ok: true };
   }
 
+  const ruleInput = {
+    id: isEditingRule ? ruleId! : undefined, // Include ID only if editing existing rule
+    description, amount: Number(amount), type, category, frequency,
+    interval: frequency === 'custom' ? Number(intervalStr) : null,
+    interval_unit: frequency === 'custom' ? intervalUnit : null,
+    month_day: isMonthBased ? monthDay : null,
+    dom: isMonthBased && monthDay === 'day_of_month' ? Number(domStr) : null,
+    dow: isWeekBased ? Number(dowStr) : null,
+    start_anchor: startAnchor,
+    end_date: endMode === 'on_date' ? endDate : null,
+    occurrence_count: endMode === 'after' ? Number(countStr) : null,
+    weekend_shift: weekendShift,
+  };
+
   const title = isPostponeEntry ? 'Postpone Entry' : isEditingRule ? 'Edit Recurring Item' : isEditingEntry ? 'Edit Entry' : 'Add New Transaction';
   const inputClasses = "block w-full h-10 px-3 rounded-[var(--radius-md)] border border-[var(--border)] bg-[var(--bg-surface)] transition-colors focus:border-[var(--primary)] focus:outline-none focus:ring-2 focus:ring-[var(--focus-ring)]/30 disabled:opacity-50";
 
@@ -186,7 +256,7 @@ export default function EntryFormModal({ open, initial, onClose, onSaved, today_
       {open && (
         <div className="fixed inset-0 z-[1000] flex items-center justify-center p-4">
           <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} onClick={onClose} className="absolute inset-0 bg-black/50" />
-          <motion.div initial={{ opacity: 0, y: 30 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: 30 }} className="relative z-10 w-full max-w-lg rounded-[var(--radius-lg)] bg-[var(--bg-surface)] p-6 shadow-[var(--shadow-3)]">
+          <motion.div initial={{ opacity: 0, y: 30 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: 30 }} className="relative z-10 max-h-[90vh] w-full max-w-lg overflow-y-auto rounded-[var(--radius-lg)] bg-[var(--bg-surface)] p-6 shadow-[var(--shadow-3)]">
             <div className="mb-6 flex items-start justify-between border-b border-[var(--border-subtle)] pb-4">
               <h2 className="text-[var(--fs-h3)] font-semibold">{title}</h2>
               <button onClick={onClose} aria-label="Close" className="rounded-md p-1 text-[var(--text-tertiary)] transition-colors hover:bg-[var(--bg-muted)] hover:text-[var(--text-primary)]"><X size={20} /></button>
@@ -215,13 +285,9 @@ export default function EntryFormModal({ open, initial, onClose, onSaved, today_
             ) : (
               <>
                 {/* *** Main Form action depends on isRecurring state now *** */}
-                <form action={isRecurring ? upsertRule.bind(null, { // Submit as rule if isRecurring is true
-                    id: isEditingRule ? ruleId! : undefined, // Include ID only if editing existing rule
-                    description, amount: Number(amount), type, category, frequency,
-                    dom: frequency === 'monthly' ? Number(domStr) : null,
-                    dow: frequency !== 'monthly' ? Number(dowStr) : null,
-                    start_anchor: startAnchor,
-                  }) : upsertEntry.bind(null, { // Submit as entry if isRecurring is false
+                <form action={isRecurring ? ( // Submit as rule if isRecurring is true
+                    isSplitting ? splitRule.bind(null, { ...ruleInput, id: ruleId!, from_date: splitFrom! }) : upsertRule.bind(null, ruleInput)
+                  ) : upsertEntry.bind(null, { // Submit as entry if isRecurring is false
                     id: isEditingEntry ? initial.id : undefined, // Include ID only if editing existing entry
                     description, amount: Number(amount), type, category, due_date: dueDate,
                   })}
@@ -231,7 +297,7 @@ export default function EntryFormModal({ open, initial, onClose, onSaved, today_
                     setSubmitArmed(true);
                   }}
                 >
-                  <FormWatcher armed={submitArmed} onDone={() => onSaved('Transaction saved')} />
+                  <FormWatcher armed={submitArmed} onDone={() => onSaved(isSplitting ? `Updated from ${formatDay(splitFrom!)} onward` : 'Transaction saved')} />
                   {/* Form Fields... */}
                    <div className="mb-4 grid grid-cols-1 gap-4 sm:grid-cols-2">
                      <div>
@@ -245,7 +311,7 @@ export default function EntryFormModal({ open, initial, onClose, onSaved, today_
                      <div>
                        <label className="mb-1 block text-sm font-medium">Category</label>
                        <select value={category} onChange={(e) => setCategory(e.target.value as Category)} className={`${inputClasses} capitalize`}>
-                           {(type === 'expense' ? expenseCategories : incomeCategories).map((c) => (<option key={c} value={c}>{c.replaceAll('_', ' ')}</option>))}
+                           {(type === 'expense' ? expenseCategories : incomeCategories).map((c) => (<option key={c} value={c}>{categoryNames.get(c) ?? c.replaceAll('_', ' ')}</option>))}
                        </select>
                      </div>
                      <div className="sm:col-span-2">
@@ -277,20 +343,57 @@ export default function EntryFormModal({ open, initial, onClose, onSaved, today_
                        </div>
                    ) : ( // Show Recurring fields if recurring
                        <div className="mb-4 grid grid-cols-1 gap-4 rounded-md border border-[var(--border-subtle)] bg-[var(--bg-muted)] p-4 sm:grid-cols-2">
+                           {canSplit && (
+                               <div className="sm:col-span-2">
+                                   <label className="mb-1 block text-sm font-medium">Apply Changes To</label>
+                                   <select value={applyScope} onChange={(e) => setApplyScope(e.target.value as ApplyScope)} className={inputClasses}>
+                                       <option value="all">All occurrences</option>
+                                       <option value="future">This and future occurrences (from {formatDay(splitFrom!)})</option>
+                                   </select>
+                                   {isSplitting && <p className="mt-1 text-xs text-[var(--text-tertiary)]">Earlier occurrences keep their current amount and details; a new version of the rule starts on {formatDay(splitFrom!)}.</p>}
+                               </div>
+                           )}
                            <div>
                                <label className="mb-1 block text-sm font-medium">Frequency</label>
                                <select value={frequency} onChange={(e) => setFrequency(e.target.value as Frequency)} className={`${inputClasses} capitalize`}>
                                    <option value="monthly">Monthly</option>
                                    <option value="weekly">Weekly</option>
                                    <option value="biweekly">Bi-Weekly</option>
+                                   <option value="quarterly">Quarterly</option>
+                                   <option value="yearly">Yearly</option>
+                                   <option value="custom">Custom</option>
                                </select>
                            </div>
-                           {frequency === 'monthly' ? (
+                           {frequency === 'custom' && (
+                               <div>
+                                   <label className="mb-1 block text-sm font-medium">Repeat Every</label>
+                                   <div className="flex gap-2">
+                                       <input type="number" min={1} step={1} value={intervalStr} onChange={(e) => setIntervalStr(e.target.value)} required className={`${inputClasses} w-20`} />
+                                       <select value={intervalUnit} onChange={(e) => setIntervalUnit(e.target.value as IntervalUnit)} className={inputClasses}>
+                                           <option value="day">Days</option>
+                                           <option value="week">Weeks</option>
+                                           <option value="month">Months</option>
+                                       </select>
+                                   </div>
+                               </div>
+                           )}
+                           {isMonthBased && (
+                               <div>
+                                   <label className="mb-1 block text-sm font-medium">Falls On</label>
+                                   <select value={monthDay} onChange={(e) => setMonthDay(e.target.value as MonthDayMode)} className={inputClasses}>
+                                       <option value="day_of_month">Day of month</option>
+                                       <option value="last_day">Last day of month</option>
+                                       <option value="last_weekday">Last weekday of month</option>
+                                   </select>
+                               </div>
+                           )}
+                           {isMonthBased && monthDay === 'day_of_month' && (
                                <div>
                                    <label className="mb-1 block text-sm font-medium">Day of Month</label>
                                    <input type="number" min={1} max={31} value={domStr} onChange={(e) => setDomStr(e.target.value)} required className={inputClasses} />
                                </div>
-                           ) : (
+                           )}
+                           {isWeekBased && (
                                <div>
                                    <label className="mb-1 block text-sm font-medium">Day of Week</label>
                                    <select value={dowStr} onChange={(e) => setDowStr(e.target.value)} required className={inputClasses}>
@@ -300,12 +403,57 @@ export default function EntryFormModal({ open, initial, onClose, onSaved, today_
                            )}
                            <div className="sm:col-span-2">
                                <label className="mb-1 block text-sm font-medium">Start Date (Anchor)</label>
-                               <input type="date" value={startAnchor} onChange={(e) => setStartAnchor(e.target.value)} required className={inputClasses} />
+                               <input type="date" value={isSplitting ? splitFrom! : startAnchor} onChange={(e) => setStartAnchor(e.target.value)} required disabled={isSplitting} className={inputClasses} />
+                               {frequency === 'yearly' && <p className="mt-1 text-xs text-[var(--text-tertiary)]">Repeats in the start date&apos;s month each year.</p>}
+                           </div>
+                           <div>
+                               <label className="mb-1 block text-sm font-medium">Ends</label>
+                               <select value={endMode} onChange={(e) => setEndMode(e.target.value as EndMode)} className={inputClasses}>
+                                   <option value="never">Never</option>
+                                   <option value="on_date">On date</option>
+                                   <option value="after">After N occurrences</option>
+                               </select>
+                           </div>
+                           {endMode === 'on_date' ? (
+                               <div>
+                                   <label className="mb-1 block text-sm font-medium">End Date</label>
+                                   <input type="date" value={endDate} min={effectiveStart} onChange={(e) => setEndDate(e.target.value)} required className={inputClasses} />
+                               </div>
+                           ) : endMode === 'after' ? (
+                               <div>
+                                   <label className="mb-1 block text-sm font-medium">Occurrences</label>
+                                   <input type="number" min={1} step={1} value={countStr} onChange={(e) => setCountStr(e.target.value)} required className={inputClasses} />
+                               </div>
+                           ) : null}
+                           <div className="sm:col-span-2">
+                               <label className="mb-1 block text-sm font-medium">On Weekends</label>
+                               <select value={weekendShift} onChange={(e) => setWeekendShift(e.target.value as WeekendShift)} className={inputClasses}>
+                                   <option value="none">Keep the scheduled date</option>
+                                   <option value="previous">Move to the Friday before</option>
+                                   <option value="next">Move to the Monday after</option>
+                               </select>
                            </div>
                        </div>
                    )}
                    {/* ************************************************************* */}
 
+                  {isEditingRule && history.length > 1 && (
+                    <div className="mb-4">
+                      <h3 className="mb-2 text-sm font-semibold uppercase tracking-wider text-[var(--text-tertiary)]">Version History</h3>
+                      <ul className="divide-y divide-[var(--border-subtle)] rounded-md border border-[var(--border-subtle)] text-sm">
+                        {history.map((v) => (
+                          <li key={v.id} className={`flex items-center justify-between gap-3 px-3 py-2 ${v.id === ruleId ? 'bg-[var(--bg-muted)]' : ''}`}>
+                            <span className="text-[var(--text-secondary)]">
+                              {formatDay(v.start_anchor)} – {v.end_date ? formatDay(v.end_date) : 'ongoing'}
+                              {v.id === ruleId && <span className="ml-2 text-xs font-medium text-[var(--primary)]">Editing</span>}
+                            </span>
+                            <span className="font-medium text-[var(--text-primary)]">{formatUSD(Number(v.amount))}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
                   {/* Form Actions */}
                   <div className="flex items-center justify-between pt-4">
                     {/* Delete button only appears when editing an existing rule */}
@@ -0,0 +1,185 @@
+'use client';
+
+import { useEffect, useRef, useState, useTransition } from 'react';
+import { format, parseISO } from 'date-fns';
+import {
+  Bar,
+  CartesianGrid,
+  ComposedChart,
+  Legend,
+  Line,
+  ReferenceArea,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { AlertTriangle, TrendingUp } from 'lucide-react';
+import type { Forecast } from '@/lib/types';
+import { getBudgetForecast } from '@/app/(app)/budget/actions';
+import { useToast } from '@/components/ToastProvider';
+
+const MONTH_OPTIONS = [3, 6, 9, 12];
+
+const formatUSD = (value: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(value);
+
+const monthLabel = (month_start: string) => format(parseISO(month_start), 'MMM yyyy');
+
+type Props = {
+  initialForecast: Forecast;
+  start_month: string;
+};
+
+export default function ForecastChart({ initialForecast, start_month }: Props) {
+  const { notify } = useToast();
+  const [forecast, setForecast] = useState<Forecast>(initialForecast);
+  const [months, setMonths] = useState<number>(initialForecast.months.length);
+  const [balanceInput, setBalanceInput] = useState<string>(String(initialForecast.opening_balance));
+  const [isPending, startTransition] = useTransition();
+
+  const load = (nextMonths: number, opening_balance: number) => {
+    startTransition(async () => {
+      try {
+        setForecast(await getBudgetForecast({ start_month, months: nextMonths, opening_balance }));
+      } catch (err: any) {
+        notify({ title: 'Forecast failed', description: err?.message ?? 'Could not load the forecast.', variant: 'danger' });
+      }
+    });
+  };
+
+  // Server data changed (router.refresh after a mutation): take the new starting balance
+  // and recompute if a different horizon is selected
+  const mounted = useRef(false);
+  useEffect(() => {
+    if (!mounted.current) {
+      mounted.current = true;
+      return;
+    }
+    setBalanceInput(String(initialForecast.opening_balance));
+    if (months === initialForecast.months.length) setForecast(initialForecast);
+    else load(months, initialForecast.opening_balance);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [initialForecast]);
+
+  const onMonthsChange = (value: number) => {
+    setMonths(value);
+    load(value, Number(balanceInput) || 0);
+  };
+
+  const applyBalance = () => {
+    const value = Number(balanceInput);
+    if (!Number.isFinite(value)) {
+      setBalanceInput(String(forecast.opening_balance));
+      return;
+    }
+    if (value !== forecast.opening_balance) load(months, value);
+  };
+
+  const data = forecast.months.map((m) => ({
+    ...m,
+    label: monthLabel(m.month_start),
+    expenses_neg: -m.expenses,
+  }));
+  const negative = forecast.months.find((m) => m.month_start === forecast.first_negative_month) ?? null;
+  const negativeLabel = negative ? monthLabel(negative.month_start) : null;
+
+  return (
+    <div className="rounded-[var(--radius-lg)] bg-[var(--bg-surface)] p-5 shadow-[var(--shadow-1)]">
+      <div className="mb-4 flex flex-col gap-3 sm:flex-row sm:items-end sm:justify-between">
+        <div>
+          <h2 className="flex items-center gap-2 text-[var(--fs-h4)] font-semibold text-[var(--text-primary)]">
+            <TrendingUp size={18} className="text-[var(--primary)]" /> Cash-flow Forecast
+          </h2>
+          <p className="text-sm text-[var(--text-secondary)]">
+            Projected from your recurring rules and scheduled one-time entries, starting from your account balances.
+          </p>
+        </div>
+        <div className="flex items-end gap-3">
+          <label className="text-xs font-medium text-[var(--text-secondary)]">
+            Starting balance
+            <input
+              type="number"
+              step="0.01"
+              value={balanceInput}
+              onChange={(e) => setBalanceInput(e.target.value)}
+              onBlur={applyBalance}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') applyBalance();
+              }}
+              className="mt-1 block w-32 rounded-[var(--radius-sm)] border border-[var(--border)] bg-[var(--surface-elev-1)] px-2 py-1.5 text-sm text-[var(--text-primary)] focus:border-[var(--primary)] focus:outline-none"
+            />
+          </label>
+          <label className="text-xs font-medium text-[var(--text-secondary)]">
+            Horizon
+            <select
+              value={months}
+              onChange={(e) => onMonthsChange(Number(e.target.value))}
+              className="mt-1 block rounded-[var(--radius-sm)] border border-[var(--border)] bg-[var(--surface-elev-1)] px-2 py-1.5 text-sm text-[var(--text-primary)] focus:border-[var(--primary)] focus:outline-none"
+            >
+              {MONTH_OPTIONS.map((n) => (
+                <option key={n} value={n}>
+                  {n} months
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+      </div>
+
+      {negative && (
+        <div
+          className="mb-4 flex items-center gap-2 rounded-[var(--radius-md)] px-3 py-2 text-sm font-medium"
+          style={{ backgroundColor: 'color-mix(in srgb, var(--danger) 12%, transparent)', color: 'var(--danger)' }}
+        >
+          <AlertTriangle size={16} />
+          Balance goes negative in {negativeLabel} (low of {formatUSD(negative.low_balance)}).
+        </div>
+      )}
+
+      <div className={`h-[300px] min-h-[300px] w-full transition-opacity ${isPending ? 'opacity-50' : ''}`}>
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={data} margin={{ left: 10, right: 10 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="var(--border-subtle)" />
+            <XAxis dataKey="label" />
+            <YAxis tickFormatter={(value) => formatUSD(value)} width={90} />
+            <Tooltip
+              formatter={(value: number, name: string) => [formatUSD(Math.abs(value)), name]}
+              cursor={{ fill: 'var(--bg-muted)' }}
+            />
+            <Legend />
+            {negativeLabel && (
+              <ReferenceArea x1={negativeLabel} x2={negativeLabel} fill="var(--danger)" fillOpacity={0.08} />
+            )}
+            <ReferenceLine y={0} stroke="var(--text-tertiary)" />
+            <Bar dataKey="income" name="Income" fill="var(--success)" radius={[4, 4, 0, 0]} />
+            <Bar dataKey="expenses_neg" name="Expenses" fill="var(--danger)" radius={[0, 0, 4, 4]} />
+            <Line
+              type="monotone"
+              dataKey="closing_balance"
+              name="Balance"
+              stroke="var(--primary)"
+              strokeWidth={2}
+              dot={(props: any) => {
+                const { cx, cy, payload, index } = props;
+                const flagged = payload.month_start === forecast.first_negative_month;
+                return (
+                  <circle
+                    key={`dot-${index}`}
+                    cx={cx}
+                    cy={cy}
+                    r={flagged ? 6 : 3}
+                    fill={flagged ? 'var(--danger)' : 'var(--primary)'}
+                    stroke="white"
+                    strokeWidth={flagged ? 2 : 1}
+                  />
+                );
+              }}
+            />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+'use client';
+
+import { useEffect, useState, useTransition } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Loader2 } from 'lucide-react';
+import { useToast } from '@/components/ToastProvider';
+import { upsertLoan } from '@/app/(app)/budget/actions';
+import type { BudgetLoan } from '@/lib/types';
+
+type Props = {
+  open: boolean;
+  rule: { id: string; description: string; amount: number } | null;
+  loan: BudgetLoan | null; // null = attach details to `rule`
+  onClose: () => void;
+  onSaved: (msg?: string) => void;
+  today_local: string;
+};
+
+export default function LoanFormModal({ open, rule, loan, onClose, onSaved, today_local }: Props) {
+  const { notify } = useToast();
+  const [principal, setPrincipal] = useState('');
+  const [apr, setApr] = useState('');
+  const [minimumPayment, setMinimumPayment] = useState('');
+  const [balanceDate, setBalanceDate] = useState(today_local);
+  const [isPending, startTransition] = useTransition();
+
+  useEffect(() => {
+    if (!open) return;
+    setPrincipal(loan ? String(loan.principal) : '');
+    setApr(loan ? String(loan.apr) : '');
+    setMinimumPayment(loan ? String(loan.minimum_payment) : rule ? String(Math.abs(Number(rule.amount))) : '');
+    setBalanceDate(loan?.balance_date ?? today_local);
+  }, [open, loan, rule, today_local]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!(Number(principal) > 0)) {
+      notify({ title: 'Validation Error', description: 'Please enter the balance owed.', variant: 'warning' });
+      return;
+    }
+    if (apr === '' || !(Number(apr) >= 0)) {
+      notify({ title: 'Validation Error', description: 'Please enter the APR (0 for interest-free).', variant: 'warning' });
+      return;
+    }
+    if (!(Number(minimumPayment) > 0)) {
+      notify({ title: 'Validation Error', description: 'Please enter the minimum monthly payment.', variant: 'warning' });
+      return;
+    }
+    startTransition(async () => {
+      try {
+        await upsertLoan({
+          id: loan?.id,
+          rule_id: loan?.rule_id ?? rule!.id,
+          principal: Number(principal),
+          apr: Number(apr),
+          minimum_payment: Number(minimumPayment),
+          balance_date: balanceDate,
+        });
+        onSaved(loan ? 'Loan updated' : 'Loan details added');
+      } catch (err: any) {
+        notify({ title: 'Error', description: err?.message ?? 'Could not save the loan.', variant: 'danger' });
+      }
+    });
+  };
+
+  const inputClasses = "block w-full h-10 px-3 rounded-[var(--radius-md)] border border-[var(--border)] bg-[var(--bg-surface)] transition-colors focus:border-[var(--primary)] focus:outline-none focus:ring-2 focus:ring-[var(--focus-ring)]/30 disabled:opacity-50";
+
+  return (
+    <AnimatePresence>
+      {open && (
+        <div className="fixed inset-0 z-[1000] flex items-center justify-center p-4">
+          <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} onClick={onClose} className="absolute inset-0 bg-black/50" />
+          <motion.div initial={{ opacity: 0, y: 30 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: 30 }} className="relative z-10 w-full max-w-md rounded-[var(--radius-lg)] bg-[var(--bg-surface)] p-6 shadow-[var(--shadow-3)]">
+            <div className="mb-6 flex items-start justify-between border-b border-[var(--border-subtle)] pb-4">
+              <div>
+                <h2 className="text-[var(--fs-h3)] font-semibold">{loan ? 'Edit Loan' : 'Add Loan Details'}</h2>
+                {rule && <p className="text-sm text-[var(--text-secondary)]">{rule.description}</p>}
+              </div>
+              <button onClick={onClose} aria-label="Close" className="rounded-md p-1 text-[var(--text-tertiary)] transition-colors hover:bg-[var(--bg-muted)] hover:text-[var(--text-primary)]"><X size={20} /></button>
+            </div>
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                <div>
+                  <label htmlFor="loan-principal" className="mb-1 block text-sm font-medium">Balance Owed</label>
+                  <input id="loan-principal" type="number" step="0.01" min="0" value={principal} onChange={(e) => setPrincipal(e.target.value)} placeholder="0.00" className={inputClasses} />
+                </div>
+                <div>
+                  <label htmlFor="loan-date" className="mb-1 block text-sm font-medium">Balance As Of</label>
+                  <input id="loan-date" type="date" value={balanceDate} onChange={(e) => setBalanceDate(e.target.value)} required className={inputClasses} />
+                </div>
+                <div>
+                  <label htmlFor="loan-apr" className="mb-1 block text-sm font-medium">APR (%)</label>
+                  <input id="loan-apr" type="number" step="0.01" min="0" max="100" value={apr} onChange={(e) => setApr(e.target.value)} placeholder="e.g. 6.5" className={inputClasses} />
+                </div>
+                <div>
+                  <label htmlFor="loan-minimum" className="mb-1 block text-sm font-medium">Minimum Payment</label>
+                  <input id="loan-minimum" type="number" step="0.01" min="0" value={minimumPayment} onChange={(e) => setMinimumPayment(e.target.value)} placeholder="0.00" className={inputClasses} />
+                </div>
+              </div>
+              <p className="text-xs text-[var(--text-tertiary)]">Occurrences of this rule marked paid after the balance date pay the loan down.</p>
+              <div className="flex justify-end gap-3 pt-4">
+                <button type="button" onClick={onClose} className="h-10 rounded-[var(--radius-md)] border border-[var(--border)] bg-[var(--bg-surface)] px-4 text-sm font-medium shadow-sm hover:bg-[var(--bg-muted)]">Cancel</button>
+                <button type="submit" disabled={isPending} className="inline-flex h-10 items-center gap-2 rounded-[var(--radius-md)] bg-[var(--primary)] px-4 text-sm font-medium text-white shadow-sm hover:bg-[var(--primary-600)] disabled:opacity-60">
+                  {isPending && <Loader2 size={16} className="animate-spin" />} Save
+                </button>
+              </div>
+            </form>
+          </motion.div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+}
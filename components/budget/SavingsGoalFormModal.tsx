@@ -0,0 +1,140 @@
+'use client';
+
+import { useEffect, useState, useTransition } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Loader2 } from 'lucide-react';
+import { useToast } from '@/components/ToastProvider';
+import { upsertSavingsGoal } from '@/app/(app)/budget/actions';
+import { planGoalContributions } from '@/lib/BudgetLogic';
+import type { GoalProgress } from '@/lib/types';
+
+const formatUSD = (value: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(value);
+
+type Props = {
+  open: boolean;
+  progress: GoalProgress | null; // null = new goal
+  onClose: () => void;
+  onSaved: (msg?: string) => void;
+  today_local: string;
+};
+
+export default function SavingsGoalFormModal({ open, progress, onClose, onSaved, today_local }: Props) {
+  const { notify } = useToast();
+  const goal = progress?.goal ?? null;
+  const [name, setName] = useState('');
+  const [targetAmount, setTargetAmount] = useState('');
+  const [targetDate, setTargetDate] = useState('');
+  const [startingAmount, setStartingAmount] = useState('');
+  const [linkShopping, setLinkShopping] = useState(false);
+  const [isPending, startTransition] = useTransition();
+
+  useEffect(() => {
+    if (!open) return;
+    setName(goal?.name ?? '');
+    setTargetAmount(goal ? String(goal.target_amount) : '');
+    setTargetDate(goal?.target_date ?? '');
+    setStartingAmount(goal ? String(goal.starting_amount) : '');
+    setLinkShopping(goal?.link_shopping ?? false);
+  }, [open, goal]);
+
+  // Preview of the contribution the rule will get (the linked total is only known server-side)
+  const saved = (progress ? progress.saved - Number(goal?.starting_amount ?? 0) : 0) + Number(startingAmount || 0);
+  const preview =
+    !linkShopping && Number(targetAmount) > 0 && targetDate > today_local
+      ? planGoalContributions({
+          remaining: Number(targetAmount) - saved,
+          dom: Number(today_local.slice(8, 10)),
+          fromISO: today_local,
+          target_date: targetDate,
+        })
+      : null;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      notify({ title: 'Validation Error', description: 'Please enter a goal name.', variant: 'warning' });
+      return;
+    }
+    if (!linkShopping && !(Number(targetAmount) > 0)) {
+      notify({ title: 'Validation Error', description: 'Target amount must be greater than zero.', variant: 'warning' });
+      return;
+    }
+    if (!targetDate || targetDate <= today_local) {
+      notify({ title: 'Validation Error', description: 'Please pick a target date in the future.', variant: 'warning' });
+      return;
+    }
+    startTransition(async () => {
+      try {
+        await upsertSavingsGoal({
+          id: goal?.id,
+          name,
+          target_amount: Number(targetAmount || 0),
+          target_date: targetDate,
+          starting_amount: Number(startingAmount || 0),
+          link_shopping: linkShopping,
+          today_local,
+        });
+        onSaved(goal ? 'Goal updated' : 'Goal added');
+      } catch (err: any) {
+        notify({ title: 'Error', description: err?.message ?? 'Could not save the goal.', variant: 'danger' });
+      }
+    });
+  };
+
+  const inputClasses = "block w-full h-10 px-3 rounded-[var(--radius-md)] border border-[var(--border)] bg-[var(--bg-surface)] transition-colors focus:border-[var(--primary)] focus:outline-none focus:ring-2 focus:ring-[var(--focus-ring)]/30 disabled:opacity-50";
+
+  return (
+    <AnimatePresence>
+      {open && (
+        <div className="fixed inset-0 z-[1000] flex items-center justify-center p-4">
+          <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} onClick={onClose} className="absolute inset-0 bg-black/50" />
+          <motion.div initial={{ opacity: 0, y: 30 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: 30 }} className="relative z-10 w-full max-w-md rounded-[var(--radius-lg)] bg-[var(--bg-surface)] p-6 shadow-[var(--shadow-3)]">
+            <div className="mb-6 flex items-start justify-between border-b border-[var(--border-subtle)] pb-4">
+              <h2 className="text-[var(--fs-h3)] font-semibold">{goal ? 'Edit Savings Goal' : 'Add Savings Goal'}</h2>
+              <button onClick={onClose} aria-label="Close" className="rounded-md p-1 text-[var(--text-tertiary)] transition-colors hover:bg-[var(--bg-muted)] hover:text-[var(--text-primary)]"><X size={20} /></button>
+            </div>
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <label htmlFor="goal-name" className="mb-1 block text-sm font-medium">Name</label>
+                <input id="goal-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. New car" className={inputClasses} />
+              </div>
+              <label className="flex items-center gap-2 text-sm">
+                <input type="checkbox" checked={linkShopping} onChange={(e) => setLinkShopping(e.target.checked)} className="h-4 w-4 rounded border-[var(--border)]" />
+                Use the post-move shopping list total as the target
+              </label>
+              <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                <div>
+                  <label htmlFor="goal-target" className="mb-1 block text-sm font-medium">Target Amount</label>
+                  <input id="goal-target" type="number" step="0.01" min="0" value={targetAmount} onChange={(e) => setTargetAmount(e.target.value)} disabled={linkShopping} placeholder="0.00" className={inputClasses} />
+                </div>
+                <div>
+                  <label htmlFor="goal-date" className="mb-1 block text-sm font-medium">Target Date</label>
+                  <input id="goal-date" type="date" value={targetDate} min={today_local} onChange={(e) => setTargetDate(e.target.value)} required className={inputClasses} />
+                </div>
+              </div>
+              <div>
+                <label htmlFor="goal-starting" className="mb-1 block text-sm font-medium">Already Saved</label>
+                <input id="goal-starting" type="number" step="0.01" min="0" value={startingAmount} onChange={(e) => setStartingAmount(e.target.value)} placeholder="0.00" className={inputClasses} />
+              </div>
+              <p className="text-xs text-[var(--text-tertiary)]">
+                {preview
+                  ? preview.amount > 0
+                    ? `Adds a monthly Savings contribution of ${formatUSD(preview.amount)} (${preview.count} contribution${preview.count === 1 ? '' : 's'}) to your budget.`
+                    : 'This goal is already funded; no contribution will be scheduled.'
+                  : 'A monthly Savings contribution through the target date is added to your budget; mark it paid as you save.'}
+              </p>
+              <div className="flex justify-end gap-3 pt-4">
+                <button type="button" onClick={onClose} className="h-10 rounded-[var(--radius-md)] border border-[var(--border)] bg-[var(--bg-surface)] px-4 text-sm font-medium shadow-sm hover:bg-[var(--bg-muted)]">Cancel</button>
+                <button type="submit" disabled={isPending} className="inline-flex h-10 items-center gap-2 rounded-[var(--radius-md)] bg-[var(--primary)] px-4 text-sm font-medium text-white shadow-sm hover:bg-[var(--primary-600)] disabled:opacity-60">
+                  {isPending && <Loader2 size={16} className="animate-spin" />} Save
+                </button>
+              </div>
+            </form>
+          </motion.div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+}
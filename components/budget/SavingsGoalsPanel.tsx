@@ -0,0 +1,192 @@
+'use client';
+
+import { useTransition } from 'react';
+import Link from 'next/link';
+import { parse, format } from 'date-fns';
+import { CheckCircle2, Edit, Loader2, Plus, RefreshCw, ShoppingCart, Target, Trash2 } from 'lucide-react';
+import type { GoalProgress } from '@/lib/types';
+import { deleteSavingsGoal, upsertSavingsGoal } from '@/app/(app)/budget/actions';
+
+const formatUSD = (value: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(value);
+
+function formatDay(value: string) {
+  try {
+    return format(parse(value, 'yyyy-MM-dd', new Date()), 'MMM d, yyyy');
+  } catch {
+    return value;
+  }
+}
+
+type Props = {
+  goals: GoalProgress[];
+  today_local: string;
+  onAdd: () => void;
+  onEdit: (progress: GoalProgress) => void;
+  onRequestConfirm: (opts: { message: string; action: () => Promise<void> }) => void;
+  onAfterMutation: (msg?: string) => void;
+  onError: (msg: string) => void;
+};
+
+function GoalCard({
+  progress, today_local, onEdit, onDelete, onAfterMutation, onError,
+}: {
+  progress: GoalProgress;
+  today_local: string;
+  onEdit: () => void;
+  onDelete: () => void;
+  onAfterMutation: (msg?: string) => void;
+  onError: (msg: string) => void;
+}) {
+  const [isPending, startTransition] = useTransition();
+  const { goal, target, saved, remaining, percent, contributions_left, monthly_contribution, monthly_needed, on_track } = progress;
+  const reached = remaining === 0;
+  const canRebalance = !reached && goal.target_date > today_local;
+
+  // Re-saving the goal re-sizes its contribution to what's needed now
+  const rebalance = () => {
+    startTransition(async () => {
+      try {
+        await upsertSavingsGoal({
+          id: goal.id,
+          name: goal.name,
+          target_amount: goal.target_amount,
+          target_date: goal.target_date,
+          starting_amount: goal.starting_amount,
+          link_shopping: goal.link_shopping,
+          today_local,
+        });
+        onAfterMutation('Contribution updated');
+      } catch (err: any) {
+        onError(err?.message ?? 'Could not update the contribution.');
+      }
+    });
+  };
+
+  return (
+    <div className="rounded-[var(--radius-lg)] bg-[var(--bg-surface)] p-4 shadow-[var(--shadow-1)]">
+      <div className="flex items-start justify-between gap-2">
+        <div className="flex min-w-0 items-center gap-2">
+          <span className="flex h-8 w-8 shrink-0 items-center justify-center rounded-full bg-[var(--bg-muted)] text-[var(--text-secondary)]">
+            {reached ? <CheckCircle2 size={16} className="text-[var(--success)]" /> : <Target size={16} />}
+          </span>
+          <div className="min-w-0">
+            <div className="truncate font-semibold text-[var(--text-primary)]">{goal.name}</div>
+            <div className="text-xs text-[var(--text-tertiary)]">By {formatDay(goal.target_date)}</div>
+          </div>
+        </div>
+        <div className="flex shrink-0 gap-1">
+          <button onClick={onEdit} aria-label="Edit goal" className="rounded-md p-1 text-[var(--text-tertiary)] hover:bg-[var(--bg-muted)] hover:text-[var(--text-primary)]">
+            <Edit size={14} />
+          </button>
+          <button onClick={onDelete} aria-label="Delete goal" className="rounded-md p-1 text-[var(--text-tertiary)] hover:bg-[var(--bg-muted)] hover:text-[var(--danger)]">
+            <Trash2 size={14} />
+          </button>
+        </div>
+      </div>
+
+      <div className="mt-3 flex items-baseline justify-between gap-2">
+        <span className="text-[var(--fs-h3)] font-bold text-[var(--text-primary)]">{formatUSD(saved)}</span>
+        <span className="text-sm text-[var(--text-secondary)]">of {formatUSD(target)}</span>
+      </div>
+      <div className="mt-2 h-2 w-full overflow-hidden rounded-full bg-[var(--bg-muted)]">
+        <div
+          className="h-full rounded-full"
+          style={{ width: `${percent}%`, backgroundColor: reached ? 'var(--success)' : on_track ? 'var(--primary)' : 'var(--warning)' }}
+        />
+      </div>
+
+      <div className="mt-2 flex flex-wrap gap-x-3 text-xs text-[var(--text-secondary)]">
+        {reached ? (
+          <span className="text-[var(--success)]">Goal reached</span>
+        ) : (
+          <>
+            <span>{formatUSD(monthly_contribution)}/mo · {contributions_left} left</span>
+            {on_track ? (
+              <span className="text-[var(--success)]">On track</span>
+            ) : (
+              <span className="text-[var(--warning)]">Needs {formatUSD(monthly_needed)}/mo</span>
+            )}
+          </>
+        )}
+      </div>
+
+      {goal.link_shopping && (
+        <Link href="/shopping" className="mt-2 inline-flex items-center gap-1 text-xs font-medium text-[var(--text-secondary)] hover:text-[var(--text-primary)]">
+          <ShoppingCart size={12} /> Target follows the shopping list
+        </Link>
+      )}
+
+      {!on_track && canRebalance && (
+        <button
+          type="button"
+          onClick={rebalance}
+          disabled={isPending}
+          className="mt-3 inline-flex h-8 items-center gap-1.5 rounded-[var(--radius-md)] border border-[var(--border)] px-3 text-xs font-medium text-[var(--text-primary)] hover:bg-[var(--bg-muted)] disabled:opacity-60"
+        >
+          {isPending ? <Loader2 size={12} className="animate-spin" /> : <RefreshCw size={12} />} Update contribution
+        </button>
+      )}
+    </div>
+  );
+}
+
+export default function SavingsGoalsPanel({
+  goals, today_local, onAdd, onEdit, onRequestConfirm, onAfterMutation, onError,
+}: Props) {
+  const handleDelete = (progress: GoalProgress) => {
+    onRequestConfirm({
+      message: `Delete the goal "${progress.goal.name}"? Future contributions are removed; paid ones stay in your budget.`,
+      action: async () => {
+        try {
+          await deleteSavingsGoal({ id: progress.goal.id, today_local });
+          onAfterMutation('Goal deleted');
+        } catch (err: any) {
+          onError(err?.message ?? 'Could not delete the goal.');
+        }
+      },
+    });
+  };
+
+  return (
+    <div>
+      <div className="mb-3 flex items-center justify-between gap-3">
+        <div>
+          <h2 className="text-[var(--fs-h4)] font-semibold text-[var(--text-primary)]">Savings Goals</h2>
+          {goals.length > 0 && (
+            <p className="text-sm text-[var(--text-secondary)]">
+              {formatUSD(goals.reduce((sum, g) => sum + g.monthly_contribution, 0))} a month set aside across{' '}
+              {goals.length} goal{goals.length === 1 ? '' : 's'}
+            </p>
+          )}
+        </div>
+        <button
+          onClick={onAdd}
+          className="inline-flex h-9 items-center justify-center gap-2 rounded-[var(--radius-md)] border border-[var(--border)] bg-[var(--bg-surface)] px-3 text-sm font-medium text-[var(--text-primary)] shadow-sm transition-colors hover:bg-[var(--bg-muted)]"
+        >
+          <Plus size={16} /> Add Goal
+        </button>
+      </div>
+
+      {goals.length === 0 ? (
+        <div className="rounded-[var(--radius-lg)] border border-dashed border-[var(--border)] p-6 text-center text-sm text-[var(--text-secondary)]">
+          Saving for a car, a trip or the move? Add a goal with a target and a date and a monthly contribution is scheduled for you.
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
+          {goals.map((g) => (
+            <GoalCard
+              key={g.goal.id}
+              progress={g}
+              today_local={today_local}
+              onEdit={() => onEdit(g)}
+              onDelete={() => handleDelete(g)}
+              onAfterMutation={onAfterMutation}
+              onError={onError}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,39 +1,87 @@
 'use client';
 
+import { AlertTriangle } from 'lucide-react';
 import type { Totals } from '@/lib/types';
 
+const formatUSD = (value: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(value);
+
 export default function TotalsDisplay({ totals }: { totals: Totals }) {
+  const limited = totals.by_category.filter((c) => c.limit != null);
+  const over = limited.filter((c) => c.over_budget);
+
   return (
-    <div className="grid grid-cols-1 gap-6 sm:grid-cols-3">
-      {/* Total Income Card */}
-      <div className="rounded-[var(--radius-lg)] bg-[var(--bg-surface)] p-4 shadow-[var(--shadow-1)]">
-        <div className="text-sm font-medium uppercase text-[var(--text-secondary)]">Total Income</div>
-        <div className="mt-1 text-[var(--fs-h2)] font-bold text-[var(--success)]">
-          {new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(
-            totals.total_income
-          )}
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 gap-6 sm:grid-cols-3">
+        {/* Total Income Card */}
+        <div className="rounded-[var(--radius-lg)] bg-[var(--bg-surface)] p-4 shadow-[var(--shadow-1)]">
+          <div className="text-sm font-medium uppercase text-[var(--text-secondary)]">Total Income</div>
+          <div className="mt-1 text-[var(--fs-h2)] font-bold text-[var(--success)]">
+            {new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(
+              totals.total_income
+            )}
+          </div>
         </div>
-      </div>
 
-      {/* Total Expenses Card */}
-      <div className="rounded-[var(--radius-lg)] bg-[var(--bg-surface)] p-4 shadow-[var(--shadow-1)]">
-        <div className="text-sm font-medium uppercase text-[var(--text-secondary)]">Total Expenses</div>
-        <div className="mt-1 text-[var(--fs-h2)] font-bold text-[var(--danger)]">
-          {new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(
-            totals.total_expenses
-          )}
+        {/* Total Expenses Card */}
+        <div className="rounded-[var(--radius-lg)] bg-[var(--bg-surface)] p-4 shadow-[var(--shadow-1)]">
+          <div className="text-sm font-medium uppercase text-[var(--text-secondary)]">Total Expenses</div>
+          <div className="mt-1 text-[var(--fs-h2)] font-bold text-[var(--danger)]">
+            {new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(
+              totals.total_expenses
+            )}
+          </div>
         </div>
-      </div>
 
-      {/* Remaining To Pay Card */}
-      <div className="rounded-[var(--radius-lg)] bg-[var(--bg-surface)] p-4 shadow-[var(--shadow-1)]">
-        <div className="text-sm font-medium uppercase text-[var(--text-secondary)]">Remaining To Pay</div>
-        <div className="mt-1 text-[var(--fs-h2)] font-bold text-[var(--warning)]">
-          {new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(
-            totals.remaining_to_pay
-          )}
+        {/* Remaining To Pay Card */}
+        <div className="rounded-[var(--radius-lg)] bg-[var(--bg-surface)] p-4 shadow-[var(--shadow-1)]">
+          <div className="text-sm font-medium uppercase text-[var(--text-secondary)]">Remaining To Pay</div>
+          <div className="mt-1 text-[var(--fs-h2)] font-bold text-[var(--warning)]">
+            {new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(
+              totals.remaining_to_pay
+            )}
+          </div>
         </div>
       </div>
+
+      {/* Category limits */}
+      {limited.length > 0 && (
+        <div className="rounded-[var(--radius-lg)] bg-[var(--bg-surface)] p-4 shadow-[var(--shadow-1)]">
+          <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+            <div className="text-sm font-medium uppercase text-[var(--text-secondary)]">Category Limits</div>
+            {over.length > 0 && (
+              <div className="inline-flex items-center gap-1.5 text-sm font-medium text-[var(--danger)]">
+                <AlertTriangle size={14} />
+                Over budget: {over.map((c) => c.name).join(', ')}
+              </div>
+            )}
+          </div>
+          <div className="grid grid-cols-1 gap-x-6 gap-y-3 sm:grid-cols-2 lg:grid-cols-3">
+            {limited.map((c) => {
+              const pct = c.limit ? Math.min(100, (c.spent / c.limit) * 100) : 100;
+              return (
+                <div key={c.key}>
+                  <div className="mb-1 flex items-center justify-between gap-2 text-sm">
+                    <span className="flex min-w-0 items-center gap-2">
+                      <span className="h-2.5 w-2.5 shrink-0 rounded-full" style={{ backgroundColor: c.color }} />
+                      <span className="truncate text-[var(--text-primary)]">{c.name}</span>
+                    </span>
+                    <span className={c.over_budget ? 'font-semibold text-[var(--danger)]' : 'text-[var(--text-secondary)]'}>
+                      {formatUSD(c.spent)} / {formatUSD(c.limit ?? 0)}
+                    </span>
+                  </div>
+                  <div className="h-1.5 overflow-hidden rounded-full bg-[var(--bg-muted)]">
+                    <div
+                      className="h-full rounded-full"
+                      style={{ width: `${pct}%`, backgroundColor: c.over_budget ? 'var(--danger)' : c.color }}
+                    />
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,129 @@
+import { Document, Page, StyleSheet, Text, View } from '@react-pdf/renderer';
+import { format, parseISO } from 'date-fns';
+import type { YearReport } from '@/lib/types';
+
+const formatUSD = (value: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(value);
+
+const styles = StyleSheet.create({
+  page: { padding: 32, fontSize: 9, fontFamily: 'Helvetica', color: '#1f2937' },
+  title: { fontSize: 18, fontFamily: 'Helvetica-Bold', marginBottom: 4 },
+  subtitle: { fontSize: 10, color: '#6b7280', marginBottom: 16 },
+  section: { marginBottom: 16 },
+  heading: { fontSize: 12, fontFamily: 'Helvetica-Bold', marginBottom: 6 },
+  row: { flexDirection: 'row', borderBottomWidth: 0.5, borderBottomColor: '#e5e7eb', paddingVertical: 3 },
+  headerRow: { flexDirection: 'row', borderBottomWidth: 1, borderBottomColor: '#9ca3af', paddingVertical: 3, fontFamily: 'Helvetica-Bold' },
+  totalRow: { flexDirection: 'row', paddingVertical: 3, fontFamily: 'Helvetica-Bold' },
+  cell: { flex: 1 },
+  wide: { flex: 3 },
+  num: { flex: 1, textAlign: 'right' },
+  over: { color: '#dc2626' },
+});
+
+const day = (iso: string) => format(parseISO(iso), 'MMM d');
+
+export default function YearReportDocument({ report }: { report: YearReport }) {
+  const categoryNames = Object.fromEntries(report.categories.map((c) => [c.key, c.name]));
+
+  return (
+    <Document title={`Budget ${report.year} in Review`}>
+      <Page size="LETTER" style={styles.page}>
+        <Text style={styles.title}>{report.year} in Review</Text>
+        <Text style={styles.subtitle}>
+          Income {formatUSD(report.totals.income)} · Expenses {formatUSD(report.totals.expenses)} · Net{' '}
+          {formatUSD(report.totals.net)} · {report.late_count} of {report.paid_count} paid late
+        </Text>
+
+        <View style={styles.section}>
+          <Text style={styles.heading}>Monthly Totals</Text>
+          <View style={styles.headerRow}>
+            <Text style={styles.cell}>Month</Text>
+            <Text style={styles.num}>Income</Text>
+            <Text style={styles.num}>Expenses</Text>
+            <Text style={styles.num}>Net</Text>
+            <Text style={styles.num}>Paid late</Text>
+          </View>
+          {report.months.map((m) => (
+            <View key={m.month_start} style={styles.row}>
+              <Text style={styles.cell}>{format(parseISO(m.month_start), 'MMMM')}</Text>
+              <Text style={styles.num}>{formatUSD(m.income)}</Text>
+              <Text style={styles.num}>{formatUSD(m.expenses)}</Text>
+              <Text style={styles.num}>{formatUSD(m.net)}</Text>
+              <Text style={styles.num}>
+                {m.late_count} / {m.paid_count}
+              </Text>
+            </View>
+          ))}
+          <View style={styles.totalRow}>
+            <Text style={styles.cell}>Total</Text>
+            <Text style={styles.num}>{formatUSD(report.totals.income)}</Text>
+            <Text style={styles.num}>{formatUSD(report.totals.expenses)}</Text>
+            <Text style={styles.num}>{formatUSD(report.totals.net)}</Text>
+            <Text style={styles.num}>
+              {report.late_count} / {report.paid_count}
+            </Text>
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.heading}>Spending by Category</Text>
+          <View style={styles.headerRow}>
+            <Text style={styles.wide}>Category</Text>
+            <Text style={styles.num}>Spent</Text>
+            <Text style={styles.num}>Annual limit</Text>
+          </View>
+          {report.categories.map((c) => (
+            <View key={c.key} style={styles.row}>
+              <Text style={styles.wide}>{c.name}</Text>
+              <Text style={c.over_budget ? [styles.num, styles.over] : styles.num}>{formatUSD(c.spent)}</Text>
+              <Text style={styles.num}>{c.limit != null ? formatUSD(c.limit) : '—'}</Text>
+            </View>
+          ))}
+        </View>
+      </Page>
+
+      <Page size="LETTER" style={styles.page}>
+        <View style={styles.section}>
+          <Text style={styles.heading}>Biggest One-time Expenses</Text>
+          <View style={styles.headerRow}>
+            <Text style={styles.cell}>Date</Text>
+            <Text style={styles.wide}>Description</Text>
+            <Text style={styles.cell}>Category</Text>
+            <Text style={styles.num}>Amount</Text>
+          </View>
+          {report.top_expenses.map((r) => (
+            <View key={`${r.id}:${r.effective_date}`} style={styles.row}>
+              <Text style={styles.cell}>{day(r.effective_date)}</Text>
+              <Text style={styles.wide}>{r.description}</Text>
+              <Text style={styles.cell}>{categoryNames[r.category] ?? r.category}</Text>
+              <Text style={styles.num}>{formatUSD(Math.abs(Number(r.amount)))}</Text>
+            </View>
+          ))}
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.heading}>Late Payments</Text>
+          {report.late_count > 0 && (
+            <Text style={styles.subtitle}>{report.average_days_late.toFixed(1)} days late on average</Text>
+          )}
+          <View style={styles.headerRow}>
+            <Text style={styles.cell}>Due</Text>
+            <Text style={styles.cell}>Paid</Text>
+            <Text style={styles.wide}>Description</Text>
+            <Text style={styles.num}>Days late</Text>
+            <Text style={styles.num}>Amount</Text>
+          </View>
+          {report.late_payments.map((p, i) => (
+            <View key={`${p.description}:${p.effective_date}:${i}`} style={styles.row}>
+              <Text style={styles.cell}>{day(p.effective_date)}</Text>
+              <Text style={styles.cell}>{day(p.paid_on)}</Text>
+              <Text style={styles.wide}>{p.description}</Text>
+              <Text style={styles.num}>{p.days_late}</Text>
+              <Text style={styles.num}>{formatUSD(p.amount)}</Text>
+            </View>
+          ))}
+        </View>
+      </Page>
+    </Document>
+  );
+}
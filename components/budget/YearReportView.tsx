@@ -0,0 +1,290 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { format, parseISO } from 'date-fns';
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { ArrowLeft, ChevronLeft, ChevronRight, Clock, FileDown, FileText, Loader2 } from 'lucide-react';
+import { useToast } from '@/components/ToastProvider';
+import type { YearReport } from '@/lib/types';
+
+const formatUSD = (value: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(value);
+
+const monthLabel = (month_start: string) => format(parseISO(month_start), 'MMM');
+const formatDay = (iso: string) => format(parseISO(iso), 'MMM d, yyyy');
+
+function csvCell(value: string | number) {
+  const s = String(value);
+  return /[",\n]/.test(s) ? `"${s.replaceAll('"', '""')}"` : s;
+}
+
+/** Flattens the report into one CSV with a blank line between sections */
+export function yearReportToCsv(report: YearReport) {
+  const lines: (string | number)[][] = [];
+  const cats = report.categories;
+
+  lines.push(['Year in Review', report.year], []);
+  lines.push(['Month', 'Income', 'Expenses', 'Net', 'Paid', 'Paid late', ...cats.map((c) => c.name)]);
+  for (const m of report.months) {
+    lines.push([
+      format(parseISO(m.month_start), 'MMM yyyy'),
+      m.income.toFixed(2),
+      m.expenses.toFixed(2),
+      m.net.toFixed(2),
+      m.paid_count,
+      m.late_count,
+      ...cats.map((c) => (m.by_category[c.key] ?? 0).toFixed(2)),
+    ]);
+  }
+  lines.push([
+    'Total',
+    report.totals.income.toFixed(2),
+    report.totals.expenses.toFixed(2),
+    report.totals.net.toFixed(2),
+    report.paid_count,
+    report.late_count,
+    ...cats.map((c) => c.spent.toFixed(2)),
+  ]);
+
+  lines.push([], ['Category', 'Spent', 'Annual limit', 'Over budget']);
+  for (const c of cats) {
+    lines.push([c.name, c.spent.toFixed(2), c.limit != null ? c.limit.toFixed(2) : '', c.over_budget ? 'yes' : 'no']);
+  }
+
+  lines.push([], ['Top one-time expenses'], ['Date', 'Description', 'Category', 'Amount']);
+  for (const r of report.top_expenses) {
+    lines.push([r.effective_date, r.description, r.category, Math.abs(Number(r.amount)).toFixed(2)]);
+  }
+
+  lines.push([], ['Late payments'], ['Due', 'Paid', 'Days late', 'Description', 'Category', 'Amount']);
+  for (const p of report.late_payments) {
+    lines.push([p.effective_date, p.paid_on, p.days_late, p.description, p.category, p.amount.toFixed(2)]);
+  }
+
+  return lines.map((row) => row.map(csvCell).join(',')).join('\n');
+}
+
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  URL.revokeObjectURL(url);
+}
+
+const cardClasses = 'rounded-[var(--radius-lg)] bg-[var(--bg-surface)] p-4 shadow-[var(--shadow-1)]';
+const buttonClasses =
+  'inline-flex h-10 items-center justify-center gap-2 rounded-[var(--radius-md)] border border-[var(--border)] bg-[var(--bg-surface)] px-4 text-sm font-medium text-[var(--text-primary)] shadow-[var(--shadow-1)] transition-colors hover:bg-[var(--bg-muted)] disabled:opacity-60';
+
+type Props = {
+  report: YearReport;
+  current_year: number;
+};
+
+export default function YearReportView({ report, current_year }: Props) {
+  const { notify } = useToast();
+  const [isExportingPdf, setIsExportingPdf] = useState(false);
+
+  const categoryNames = Object.fromEntries(report.categories.map((c) => [c.key, c.name]));
+  const spendingCategories = report.categories.filter((c) => c.spent > 0);
+  const monthData = report.months.map((m) => ({ ...m, label: monthLabel(m.month_start) }));
+  const categoryData = report.months.map((m) => ({ label: monthLabel(m.month_start), ...m.by_category }));
+  const onTimeRate = report.paid_count ? ((report.paid_count - report.late_count) / report.paid_count) * 100 : null;
+
+  const exportCsv = () => {
+    downloadBlob(new Blob([yearReportToCsv(report)], { type: 'text/csv;charset=utf-8' }), `budget-${report.year}.csv`);
+  };
+
+  const exportPdf = async () => {
+    setIsExportingPdf(true);
+    try {
+      // Loaded on demand; the PDF renderer is large
+      const [{ pdf }, { default: YearReportDocument }] = await Promise.all([
+        import('@react-pdf/renderer'),
+        import('@/components/budget/YearReportDocument'),
+      ]);
+      const blob = await pdf(<YearReportDocument report={report} />).toBlob();
+      downloadBlob(blob, `budget-${report.year}.pdf`);
+    } catch (err: any) {
+      notify({ title: 'Export failed', description: err?.message ?? 'Could not create the PDF.', variant: 'danger' });
+    } finally {
+      setIsExportingPdf(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <Link href="/budget" className="mb-2 inline-flex items-center gap-1 text-sm text-[var(--text-secondary)] hover:text-[var(--text-primary)]">
+            <ArrowLeft size={14} /> Budget
+          </Link>
+          <div className="flex items-center gap-2">
+            <Link href={`/budget/report?year=${report.year - 1}`} aria-label="Previous year" className="rounded-md p-1 text-[var(--text-tertiary)] hover:bg-[var(--bg-muted)] hover:text-[var(--text-primary)]">
+              <ChevronLeft size={20} />
+            </Link>
+            <h1 className="text-[var(--fs-h1)] font-bold tracking-tight text-[var(--text-primary)]">{report.year} in Review</h1>
+            {report.year < current_year ? (
+              <Link href={`/budget/report?year=${report.year + 1}`} aria-label="Next year" className="rounded-md p-1 text-[var(--text-tertiary)] hover:bg-[var(--bg-muted)] hover:text-[var(--text-primary)]">
+                <ChevronRight size={20} />
+              </Link>
+            ) : (
+              <span className="w-7" />
+            )}
+          </div>
+        </div>
+        <div className="flex gap-2 self-start sm:self-auto">
+          <button onClick={exportCsv} className={buttonClasses}>
+            <FileDown size={18} /> CSV
+          </button>
+          <button onClick={exportPdf} disabled={isExportingPdf} className={buttonClasses}>
+            {isExportingPdf ? <Loader2 size={18} className="animate-spin" /> : <FileText size={18} />} PDF
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-4">
+        <div className={cardClasses}>
+          <div className="text-sm font-medium uppercase text-[var(--text-secondary)]">Income</div>
+          <div className="mt-1 text-[var(--fs-h2)] font-bold text-[var(--success)]">{formatUSD(report.totals.income)}</div>
+        </div>
+        <div className={cardClasses}>
+          <div className="text-sm font-medium uppercase text-[var(--text-secondary)]">Expenses</div>
+          <div className="mt-1 text-[var(--fs-h2)] font-bold text-[var(--danger)]">{formatUSD(report.totals.expenses)}</div>
+        </div>
+        <div className={cardClasses}>
+          <div className="text-sm font-medium uppercase text-[var(--text-secondary)]">Net</div>
+          <div className={`mt-1 text-[var(--fs-h2)] font-bold ${report.totals.net < 0 ? 'text-[var(--danger)]' : 'text-[var(--text-primary)]'}`}>
+            {formatUSD(report.totals.net)}
+          </div>
+        </div>
+        <div className={cardClasses}>
+          <div className="text-sm font-medium uppercase text-[var(--text-secondary)]">Paid On Time</div>
+          <div className="mt-1 text-[var(--fs-h2)] font-bold text-[var(--text-primary)]">
+            {onTimeRate != null ? `${Math.round(onTimeRate)}%` : '—'}
+          </div>
+          <div className="text-xs text-[var(--text-tertiary)]">
+            {report.late_count} of {report.paid_count} paid late
+          </div>
+        </div>
+      </div>
+
+      <div className={cardClasses}>
+        <h2 className="mb-4 text-[var(--fs-h4)] font-semibold text-[var(--text-primary)]">Income vs. Expenses</h2>
+        <div className="h-[300px] min-h-[300px] w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={monthData} margin={{ left: 10, right: 10 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="var(--border-subtle)" />
+              <XAxis dataKey="label" />
+              <YAxis tickFormatter={(value) => formatUSD(value)} width={90} />
+              <Tooltip formatter={(value: number, name: string) => [formatUSD(value), name]} cursor={{ fill: 'var(--bg-muted)' }} />
+              <Legend />
+              <Bar dataKey="income" name="Income" fill="var(--success)" radius={[4, 4, 0, 0]} />
+              <Bar dataKey="expenses" name="Expenses" fill="var(--danger)" radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <div className={cardClasses}>
+        <h2 className="mb-4 text-[var(--fs-h4)] font-semibold text-[var(--text-primary)]">Spending by Category</h2>
+        {spendingCategories.length === 0 ? (
+          <p className="text-sm text-[var(--text-secondary)]">No expenses recorded for {report.year}.</p>
+        ) : (
+          <>
+            <div className="h-[300px] min-h-[300px] w-full">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={categoryData} margin={{ left: 10, right: 10 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="var(--border-subtle)" />
+                  <XAxis dataKey="label" />
+                  <YAxis tickFormatter={(value) => formatUSD(value)} width={90} />
+                  <Tooltip formatter={(value: number, name: string) => [formatUSD(value), name]} cursor={{ fill: 'var(--bg-muted)' }} />
+                  <Legend />
+                  {spendingCategories.map((c) => (
+                    <Bar key={c.key} dataKey={c.key} name={c.name} stackId="spend" fill={c.color} />
+                  ))}
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+            <div className="mt-4 grid grid-cols-1 gap-x-6 gap-y-2 text-sm sm:grid-cols-2 lg:grid-cols-3">
+              {report.categories.map((c) => (
+                <div key={c.key} className="flex items-center justify-between gap-2">
+                  <span className="flex min-w-0 items-center gap-2">
+                    <span className="h-2.5 w-2.5 shrink-0 rounded-full" style={{ backgroundColor: c.color }} />
+                    <span className="truncate text-[var(--text-primary)]">{c.name}</span>
+                  </span>
+                  <span className={c.over_budget ? 'font-semibold text-[var(--danger)]' : 'text-[var(--text-secondary)]'}>
+                    {formatUSD(c.spent)}
+                    {c.limit != null && ` / ${formatUSD(c.limit)}`}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+        <div className={cardClasses}>
+          <h2 className="mb-3 text-[var(--fs-h4)] font-semibold text-[var(--text-primary)]">Biggest One-time Expenses</h2>
+          {report.top_expenses.length === 0 ? (
+            <p className="text-sm text-[var(--text-secondary)]">No one-time expenses this year.</p>
+          ) : (
+            <ul className="divide-y divide-[var(--border-subtle)] text-sm">
+              {report.top_expenses.map((r) => (
+                <li key={`${r.id}:${r.effective_date}`} className="flex items-center justify-between gap-3 py-2">
+                  <div className="min-w-0">
+                    <div className="truncate font-medium text-[var(--text-primary)]">{r.description}</div>
+                    <div className="text-xs text-[var(--text-tertiary)]">
+                      {formatDay(r.effective_date)} · {categoryNames[r.category] ?? r.category}
+                    </div>
+                  </div>
+                  <div className="shrink-0 font-semibold text-[var(--text-primary)]">{formatUSD(Math.abs(Number(r.amount)))}</div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className={cardClasses}>
+          <h2 className="mb-1 text-[var(--fs-h4)] font-semibold text-[var(--text-primary)]">Late Payments</h2>
+          <p className="mb-3 text-sm text-[var(--text-secondary)]">
+            {report.late_count === 0
+              ? 'Nothing was paid after its due date.'
+              : `${report.late_count} paid late, ${report.average_days_late.toFixed(1)} days late on average.`}
+          </p>
+          {report.late_payments.length > 0 && (
+            <ul className="divide-y divide-[var(--border-subtle)] text-sm">
+              {report.late_payments.map((p, i) => (
+                <li key={`${p.description}:${p.effective_date}:${i}`} className="flex items-center justify-between gap-3 py-2">
+                  <div className="min-w-0">
+                    <div className="truncate font-medium text-[var(--text-primary)]">{p.description}</div>
+                    <div className="text-xs text-[var(--text-tertiary)]">
+                      Due {formatDay(p.effective_date)} · paid {formatDay(p.paid_on)}
+                    </div>
+                  </div>
+                  <div className="inline-flex shrink-0 items-center gap-1 font-semibold text-[var(--warning)]">
+                    <Clock size={14} /> {p.days_late}d
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
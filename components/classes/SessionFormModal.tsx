@@ -13,6 +13,9 @@ import type {
 } from '@/lib/types'
 import { LOCATION_TYPES } from '@/lib/types'
 import clsx from 'clsx'
+import { fromZonedTime } from 'date-fns-tz'
+import { useAppState } from '@/app/state-provider'
+import { classesTimezone } from '@/lib/UserTimezone'
 
 /*
 |--------------------------------------------------------------------------
@@ -34,19 +37,16 @@ type SessionFormState = {
   notes: string
 }
 
-// (MODIFIED) Hard-code the single timezone for the business
-const APP_TIMEZONE = 'America/Santo_Domingo'
-
-// (MODIFIED) Helper to convert ISO string (UTC) to a 'YYYY-MM-DDTHH:mm' string
-// representing the "wall time" in Santo Domingo.
-const toDateTimeLocal = (isoString: string | undefined | null): string => {
+// Helper to convert ISO string (UTC) to a 'YYYY-MM-DDTHH:mm' string
+// representing the "wall time" in the session's timezone.
+const toDateTimeLocal = (isoString: string | undefined | null, timeZone: string): string => {
   if (!isoString) return ''
   try {
     const date = new Date(isoString)
     if (isNaN(date.getTime())) return ''
 
     // 'sv' locale gives 'YYYY-MM-DD HH:mm:ss'
-    const wallTime = date.toLocaleString('sv', { timeZone: APP_TIMEZONE })
+    const wallTime = date.toLocaleString('sv', { timeZone })
     // Return 'YYYY-MM-DDTHH:mm'
     return wallTime.slice(0, 16).replace(' ', 'T')
   } catch (e) {
@@ -55,24 +55,13 @@ const toDateTimeLocal = (isoString: string | undefined | null): string => {
   }
 }
 
-// (BUG FIX) Helper to convert a 'YYYY-MM-DDTHH:mm' string (assumed to be DR wall time)
-// back to a UTC ISO string for the database.
-const toISOString = (localDateTime: string | undefined | null): string => {
+// Helper to convert a 'YYYY-MM-DDTHH:mm' string (wall time in the session's timezone)
+// back to a UTC ISO string for the database. Handles DST for zones that observe it.
+const toISOString = (localDateTime: string | undefined | null, timeZone: string): string => {
   if (!localDateTime) return new Date().toISOString()
 
   try {
-    // 1. Get parts from the "wall time" string (e.g., "2025-11-08T16:00")
-    const [datePart, timePart] = localDateTime.split('T')
-    const [year, month, day] = datePart.split('-').map(Number)
-    const [hour, minute] = timePart.split(':').map(Number)
-
-    // 2. America/Santo_Domingo is UTC-4 (no DST).
-    // To get UTC, we must ADD 4 hours to the wall time.
-    // e.g., 16:00 (4 PM) in DR is 20:00 (8 PM) in UTC.
-    const utcDate = Date.UTC(year, month - 1, day, hour + 4, minute)
-
-    // 3. Convert this UTC timestamp to an ISO string.
-    return new Date(utcDate).toISOString()
+    return fromZonedTime(localDateTime, timeZone).toISOString()
   } catch (e) {
     console.error('Error in toISOString:', e)
     // Fallback to browser-local conversion (this was the source of the bug)
@@ -110,18 +99,20 @@ export default function SessionFormModal({
   packages, // (NEW)
 }: SessionFormModalProps) {
   const isEditing = !!initialData?.id
+  // Sessions keep the zone they were scheduled in; new ones use the classes zone
+  const { state: appState } = useAppState()
+  const sessionTimezone = initialData?.timezone || classesTimezone(appState)
 
   // (MODIFIED) Memoize getInitialState
   const getInitialState = useCallback((): SessionFormState => {
     return {
-      startTime: toDateTimeLocal(initialData?.startTime),
-      endTime: toDateTimeLocal(initialData?.endTime),
-      // timezone: initialData?.timezone || APP_TIMEZONE, // REMOVED
+      startTime: toDateTimeLocal(initialData?.startTime, sessionTimezone),
+      endTime: toDateTimeLocal(initialData?.endTime, sessionTimezone),
       locationType: initialData?.locationType || 'online',
       locationDetail: initialData?.locationDetail || '',
       notes: initialData?.notes || '',
     }
-  }, [initialData])
+  }, [initialData, sessionTimezone])
 
   const [formState, setFormState] = useState<SessionFormState>(getInitialState())
 
@@ -215,9 +206,9 @@ export default function SessionFormModal({
       packageId: selectedPackageId || null,
 
       // Add form fields from plan
-      startTime: toISOString(formState.startTime),
-      endTime: toISOString(formState.endTime),
-      timezone: APP_TIMEZONE, // (MODIFIED) Hard-code DR timezone
+      startTime: toISOString(formState.startTime, sessionTimezone),
+      endTime: toISOString(formState.endTime, sessionTimezone),
+      timezone: sessionTimezone,
       locationType: formState.locationType,
       locationDetail: formState.locationDetail,
       notes: formState.notes,
@@ -356,7 +347,9 @@ export default function SessionFormModal({
                     </FormRow>
                   </div>
 
-                  {/* (REMOVED) Timezone field */}
+                  <p className="-mt-2 text-xs text-[var(--text-secondary)]">
+                    Times are in {sessionTimezone.replace(/_/g, ' ')}
+                  </p>
 
                   <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
                     <FormRow label="Location Type">
@@ -23,6 +23,7 @@ import clsx from 'clsx'
 import { Button } from '@/components/ui/Button'
 // Assume this component exists as per the plan
 import AttendanceDropdown from './AttendanceDropdown'
+import RecordThread from '@/components/ai/RecordThread'
 
 /*
 |--------------------------------------------------------------------------
@@ -334,6 +335,16 @@ export default function StudentDetailModal({
                       ))}
                     </div>
                   </InfoSection>
+
+                  <InfoSection title="Assistant">
+                    <RecordThread
+                      pin={{
+                        entity: 'student',
+                        id: student.id,
+                        label: student.contact?.fullName || 'Unnamed student',
+                      }}
+                    />
+                  </InfoSection>
                 </>
               )}
             </div>
@@ -0,0 +1,307 @@
+// components/crm/ActivityTimeline.tsx
+'use client'
+
+import React, { useEffect, useState, useTransition } from 'react'
+import clsx from 'clsx'
+import { formatInTimeZone } from 'date-fns-tz'
+import {
+  Phone,
+  MessageCircle,
+  Mail,
+  Users,
+  StickyNote,
+  Loader2,
+  Check,
+  Trash2,
+  CalendarClock,
+} from 'lucide-react'
+import type { ActivityDirection, ActivityType, LeadActivity } from '@/lib/types'
+import { ACTIVITY_DIRECTIONS, ACTIVITY_TYPES } from '@/lib/types'
+import {
+  ACTIVITY_DIRECTION_LABELS,
+  ACTIVITY_TYPE_META,
+  defaultDirection,
+  nextFollowUp,
+  sortTimeline,
+} from '@/lib/LeadActivities'
+import { localToUtcISO } from '@/lib/UserTimezone'
+import { useAppState } from '@/app/state-provider'
+import { useToast } from '@/components/ToastProvider'
+import {
+  getLeadActivities,
+  logLeadActivity,
+  completeFollowUp,
+  deleteLeadActivity,
+} from '@/app/(app)/crm-pipeline/actions'
+
+const TYPE_ICONS: Record<ActivityType, React.ElementType> = {
+  call: Phone,
+  whatsapp: MessageCircle,
+  email: Mail,
+  meeting: Users,
+  note: StickyNote,
+}
+
+const inputBaseClass =
+  'block w-full appearance-none rounded-[var(--radius-sm)] bg-[var(--surface-elev-1)] px-3 py-2 text-sm text-[var(--text-primary)] shadow-[var(--shadow-1)] transition-colors placeholder:text-[var(--text-tertiary)] focus:outline-none focus:ring-2 focus:ring-[var(--primary)] focus:ring-opacity-75'
+
+interface ActivityTimelineProps {
+  leadId: string
+}
+
+/**
+ * Calls, WhatsApp messages, emails, meetings and notes logged for a lead,
+ * with one quick-log button per type. A logged activity can schedule the next
+ * follow-up, which shows on the dashboard feed until it is marked done.
+ */
+export default function ActivityTimeline({ leadId }: ActivityTimelineProps) {
+  const { notify } = useToast()
+  const { state: { timezone } } = useAppState()
+  const [isPending, startTransition] = useTransition()
+
+  const [activities, setActivities] = useState<LeadActivity[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+
+  // Quick-log form (open for one type at a time)
+  const [draftType, setDraftType] = useState<ActivityType | null>(null)
+  const [summary, setSummary] = useState('')
+  const [direction, setDirection] = useState<ActivityDirection>('out')
+  const [followUpLocal, setFollowUpLocal] = useState('')
+
+  useEffect(() => {
+    let cancelled = false
+    setIsLoading(true)
+    getLeadActivities(leadId)
+      .then((rows) => {
+        if (!cancelled) setActivities(rows)
+      })
+      .catch((error) => console.error('Failed to load activities:', error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [leadId])
+
+  const formatLocal = (iso: string) => formatInTimeZone(iso, timezone, "MMM d, yyyy '@' h:mm a")
+
+  const openDraft = (type: ActivityType) => {
+    setDraftType(type)
+    setSummary('')
+    setDirection(defaultDirection(type))
+    setFollowUpLocal('')
+  }
+
+  const handleSave = () => {
+    if (!draftType || !summary.trim()) return
+    startTransition(async () => {
+      try {
+        const created = await logLeadActivity({
+          leadId,
+          type: draftType,
+          direction,
+          summary,
+          followUpAt: localToUtcISO(followUpLocal || null, timezone),
+        })
+        setActivities((current) => [created, ...current])
+        setDraftType(null)
+        notify({
+          title: `${ACTIVITY_TYPE_META[created.type].label} logged`,
+          description: created.followUpAt ? `Follow-up set for ${formatLocal(created.followUpAt)}.` : undefined,
+          variant: 'success',
+        })
+      } catch (error: any) {
+        notify({ title: 'Could not log activity', description: error?.message, variant: 'danger' })
+      }
+    })
+  }
+
+  const handleComplete = (activity: LeadActivity) => {
+    startTransition(async () => {
+      try {
+        const updated = await completeFollowUp(activity.id)
+        setActivities((current) => current.map((a) => (a.id === updated.id ? updated : a)))
+      } catch (error: any) {
+        notify({ title: 'Could not update follow-up', description: error?.message, variant: 'danger' })
+      }
+    })
+  }
+
+  const handleDelete = (activity: LeadActivity) => {
+    startTransition(async () => {
+      try {
+        await deleteLeadActivity(activity.id)
+        setActivities((current) => current.filter((a) => a.id !== activity.id))
+      } catch (error: any) {
+        notify({ title: 'Could not delete activity', description: error?.message, variant: 'danger' })
+      }
+    })
+  }
+
+  const upcoming = nextFollowUp(activities)
+  const timeline = sortTimeline(activities)
+
+  return (
+    <div className="space-y-3">
+      {/* Quick-log buttons */}
+      <div className="flex flex-wrap gap-2">
+        {ACTIVITY_TYPES.map((type) => {
+          const Icon = TYPE_ICONS[type]
+          return (
+            <button
+              key={type}
+              type="button"
+              onClick={() => (draftType === type ? setDraftType(null) : openDraft(type))}
+              className={clsx(
+                'flex h-8 items-center gap-1.5 rounded-full border px-3 text-xs font-medium transition-colors',
+                draftType === type
+                  ? 'border-[var(--primary)] bg-[var(--primary)] text-white'
+                  : 'border-[var(--border-subtle)] bg-[var(--bg-surface)] text-[var(--text-secondary)] hover:bg-[var(--bg-muted)]',
+              )}
+            >
+              <Icon size={13} />
+              {ACTIVITY_TYPE_META[type].verb}
+            </button>
+          )
+        })}
+      </div>
+
+      {/* Quick-log form */}
+      {draftType && (
+        <div className="space-y-2 rounded-[var(--radius-lg)] border border-[var(--border-subtle)] bg-[var(--bg-surface)] p-3">
+          <textarea
+            value={summary}
+            onChange={(e) => setSummary(e.target.value)}
+            placeholder={`What happened? (${ACTIVITY_TYPE_META[draftType].label})`}
+            rows={2}
+            className={inputBaseClass}
+            autoFocus
+          />
+          <div className="grid grid-cols-2 gap-2">
+            {draftType !== 'note' && (
+              <select
+                value={direction}
+                onChange={(e) => setDirection(e.target.value as ActivityDirection)}
+                className={inputBaseClass}
+                aria-label="Direction"
+              >
+                {ACTIVITY_DIRECTIONS.filter((d) => d !== 'n/a').map((d) => (
+                  <option key={d} value={d}>
+                    {ACTIVITY_DIRECTION_LABELS[d]}
+                  </option>
+                ))}
+              </select>
+            )}
+            <input
+              type="datetime-local"
+              value={followUpLocal}
+              onChange={(e) => setFollowUpLocal(e.target.value)}
+              className={clsx(inputBaseClass, draftType === 'note' && 'col-span-2')}
+              aria-label="Next follow-up"
+              title="Next follow-up (optional)"
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setDraftType(null)}
+              className="h-8 rounded-[var(--radius-sm)] px-3 text-xs font-medium text-[var(--text-secondary)] hover:bg-[var(--bg-muted)]"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={isPending || !summary.trim()}
+              className="flex h-8 items-center gap-1.5 rounded-[var(--radius-sm)] bg-[var(--primary)] px-3 text-xs font-medium text-white disabled:opacity-50"
+            >
+              {isPending && <Loader2 size={12} className="animate-spin" />}
+              Save
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Next follow-up */}
+      {upcoming && (
+        <div className="flex items-center gap-2 rounded-[var(--radius-md)] bg-[var(--primary)]/10 px-3 py-2 text-sm text-[var(--primary)]">
+          <CalendarClock size={14} />
+          <span>Next follow-up: {formatLocal(upcoming.followUpAt!)}</span>
+        </div>
+      )}
+
+      {/* Timeline */}
+      <div className="rounded-[var(--radius-lg)] border border-[var(--border-subtle)] bg-[var(--bg-surface)] p-4">
+        {isLoading ? (
+          <div className="flex justify-center py-2">
+            <Loader2 size={16} className="animate-spin text-[var(--text-tertiary)]" />
+          </div>
+        ) : timeline.length === 0 ? (
+          <span className="text-sm italic text-[var(--text-tertiary)]">
+            No activities logged yet.
+          </span>
+        ) : (
+          <ol className="space-y-4">
+            {timeline.map((activity) => {
+              const Icon = TYPE_ICONS[activity.type] ?? StickyNote
+              const openFollowUp = activity.followUpAt && !activity.followUpDone
+              return (
+                <li key={activity.id} className="group flex items-start gap-3 text-sm">
+                  <div className="flex h-7 w-7 flex-shrink-0 items-center justify-center rounded-full bg-[var(--bg-muted)] text-[var(--text-secondary)]">
+                    <Icon size={14} />
+                  </div>
+                  <div className="min-w-0 flex-1">
+                    <p className="whitespace-pre-wrap text-[var(--text-primary)]">{activity.summary}</p>
+                    <p className="text-xs text-[var(--text-tertiary)]">
+                      {ACTIVITY_TYPE_META[activity.type].label}
+                      {activity.direction !== 'n/a' && ` · ${ACTIVITY_DIRECTION_LABELS[activity.direction]}`}
+                      {' · '}
+                      {formatLocal(activity.occurredAt)}
+                    </p>
+                    {activity.followUpAt && (
+                      <div className="mt-1 flex items-center gap-2 text-xs">
+                        <span
+                          className={clsx(
+                            'flex items-center gap-1',
+                            activity.followUpDone
+                              ? 'text-[var(--text-tertiary)] line-through'
+                              : Date.parse(activity.followUpAt) < Date.now()
+                                ? 'text-[var(--danger)]'
+                                : 'text-[var(--text-secondary)]',
+                          )}
+                        >
+                          <CalendarClock size={12} />
+                          Follow up {formatLocal(activity.followUpAt)}
+                        </span>
+                        {openFollowUp && (
+                          <button
+                            type="button"
+                            onClick={() => handleComplete(activity)}
+                            disabled={isPending}
+                            className="flex items-center gap-1 rounded-full border border-[var(--border-subtle)] px-2 py-0.5 font-medium text-[var(--text-secondary)] hover:bg-[var(--bg-muted)] disabled:opacity-50"
+                          >
+                            <Check size={11} /> Done
+                          </button>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(activity)}
+                    disabled={isPending}
+                    aria-label="Delete activity"
+                    className="rounded p-1 text-[var(--text-tertiary)] opacity-0 transition-opacity hover:text-[var(--danger)] group-hover:opacity-100 disabled:opacity-50"
+                  >
+                    <Trash2 size={13} />
+                  </button>
+                </li>
+              )
+            })}
+          </ol>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -132,9 +132,12 @@ export default function AddLeadModal({
 
       // 2) Create Lead (current_stage defaults to 'lead'; triggers stamp stage_ts)
       const expectedValNumber = expectedValue ? Number(expectedValue) : 0
+      const { data: { user } } = await supabase.auth.getUser()
+      if (!user) throw new Error('You must be signed in to add a lead.')
       const { data: leadInserted, error: insertLeadErr } = await supabase
         .from('leads')
         .insert({
+          user_id: user.id,
           contact_id: contactRow.id,
           service_type: serviceType,
           source_channel: sourceChannel,
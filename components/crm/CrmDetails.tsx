@@ -1,7 +1,7 @@
 // components/crm/CrmDetails.tsx
 'use client'
 
-import React, { useEffect } from 'react'
+import React, { useEffect, useState } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import {
   X,
@@ -14,8 +14,15 @@ import {
   MessageSquare,
   Tag,
   Globe,
+  Sparkles,
+  GitCommitHorizontal,
+  History,
 } from 'lucide-react'
-import type { Lead } from '@/lib/types'
+import type { Lead, LeadStageChange } from '@/lib/types'
+import { LEAD_STAGE_META, timeInStage } from '@/lib/LeadPipeline'
+import { getLeadStageHistory } from '@/app/(app)/crm-pipeline/actions'
+import RecordThread from '@/components/ai/RecordThread'
+import ActivityTimeline from '@/components/crm/ActivityTimeline'
 
 // --- Helpers ---
 const formatCurrencyRD = (value?: number | null) =>
@@ -78,6 +85,24 @@ export default function CrmDetails({
     return () => window.removeEventListener('keydown', handleKeyDown)
   }, [isOpen, onClose])
 
+  // Stage history of the open lead (reloaded when its stage changes)
+  const [history, setHistory] = useState<LeadStageChange[]>([])
+  useEffect(() => {
+    if (!isOpen || !lead) return
+    let cancelled = false
+    getLeadStageHistory(lead.id)
+      .then((rows) => {
+        if (!cancelled) setHistory(rows)
+      })
+      .catch((error) => console.error('Failed to load stage history:', error))
+    return () => {
+      cancelled = true
+    }
+  }, [isOpen, lead?.id, lead?.currentStage])
+
+  const stage = lead?.currentStage ?? 'lead'
+  const stageDays = lead ? timeInStage(lead, history, Date.now()) : {}
+
   return (
     <AnimatePresence>
       {isOpen && lead && (
@@ -134,6 +159,16 @@ export default function CrmDetails({
                      <Calendar size={14} className="text-[var(--text-tertiary)]" />
                      <span>Created on {formatDate(lead.createdAt)}</span>
                    </div>
+                   <div className="flex items-center gap-2">
+                     <span
+                       className="h-2.5 w-2.5 rounded-full"
+                       style={{ backgroundColor: LEAD_STAGE_META[stage].color }}
+                     />
+                     <span>
+                       {LEAD_STAGE_META[stage].label} for{' '}
+                       {Math.floor(stageDays[stage] ?? 0)} days
+                     </span>
+                   </div>
                 </div>
               </div>
 
@@ -213,6 +248,49 @@ export default function CrmDetails({
                 </div>
               </div>
 
+              {/* Activity Timeline */}
+              <div className="mb-6">
+                <h4 className="mb-3 flex items-center gap-2 text-sm font-semibold uppercase tracking-wider text-[var(--text-tertiary)]">
+                  <History size={14} /> Activity
+                </h4>
+                <ActivityTimeline leadId={lead.id} />
+              </div>
+
+              {/* Stage History */}
+              <div className="mb-6">
+                <h4 className="mb-3 flex items-center gap-2 text-sm font-semibold uppercase tracking-wider text-[var(--text-tertiary)]">
+                  <GitCommitHorizontal size={14} /> Stage History
+                </h4>
+                <div className="rounded-[var(--radius-lg)] border border-[var(--border-subtle)] bg-[var(--bg-surface)] p-4">
+                  {history.length === 0 ? (
+                    <span className="text-sm italic text-[var(--text-tertiary)]">
+                      No stage changes yet.
+                    </span>
+                  ) : (
+                    <ol className="space-y-3">
+                      {[...history].reverse().map((change) => (
+                        <li key={change.id} className="flex items-start gap-3 text-sm">
+                          <span
+                            className="mt-1.5 h-2 w-2 flex-shrink-0 rounded-full"
+                            style={{ backgroundColor: LEAD_STAGE_META[change.toStage].color }}
+                          />
+                          <div>
+                            <p className="font-medium text-[var(--text-primary)]">
+                              {change.fromStage
+                                ? `${LEAD_STAGE_META[change.fromStage].label} → ${LEAD_STAGE_META[change.toStage].label}`
+                                : LEAD_STAGE_META[change.toStage].label}
+                            </p>
+                            <p className="text-xs text-[var(--text-tertiary)]">
+                              {formatDate(change.changedAt)}
+                            </p>
+                          </div>
+                        </li>
+                      ))}
+                    </ol>
+                  )}
+                </div>
+              </div>
+
               {/* Notes */}
               <div>
                 <h4 className="mb-3 flex items-center gap-2 text-sm font-semibold uppercase tracking-wider text-[var(--text-tertiary)]">
@@ -228,6 +306,16 @@ export default function CrmDetails({
                   )}
                 </div>
               </div>
+
+              {/* Assistant thread pinned to this lead */}
+              <div className="mt-6">
+                <h4 className="mb-3 flex items-center gap-2 text-sm font-semibold uppercase tracking-wider text-[var(--text-tertiary)]">
+                  <Sparkles size={14} /> Assistant
+                </h4>
+                <RecordThread
+                  pin={{ entity: 'lead', id: lead.id, label: lead.contact?.fullName || 'Unnamed lead' }}
+                />
+              </div>
             </div>
 
             {/* Footer Actions (Optional - can be added later) */}
@@ -0,0 +1,163 @@
+// components/crm/PipelineBoard.tsx
+'use client'
+
+import React, { useState } from 'react'
+import clsx from 'clsx'
+import { Clock, DollarSign } from 'lucide-react'
+import type { Lead, LeadStage, LeadStageMetric } from '@/lib/types'
+import { LEAD_STAGES } from '@/lib/types'
+import { LEAD_STAGE_META, groupLeadsByStage } from '@/lib/LeadPipeline'
+
+// --- Helpers ---
+const formatCurrencyRD = (value?: number | null) =>
+  new Intl.NumberFormat('es-DO', {
+    style: 'currency',
+    currency: 'DOP',
+    maximumFractionDigits: 0,
+  }).format(value ?? 0)
+
+const DAY_MS = 86_400_000
+
+// Whole days since the lead entered its current stage (falls back to creation)
+const daysInStage = (lead: Lead) => {
+  const since = lead.stageTs?.[lead.currentStage ?? 'lead'] ?? lead.createdAt
+  return since ? Math.max(0, Math.floor((Date.now() - Date.parse(since)) / DAY_MS)) : null
+}
+
+interface PipelineBoardProps {
+  leads: Lead[]
+  metrics: LeadStageMetric[]
+  serviceLabels: Record<string, string>
+  onMove: (lead: Lead, stage: LeadStage) => void
+  onOpen: (lead: Lead) => void
+}
+
+/**
+ * Kanban view of the pipeline: one column per stage, cards dragged between
+ * columns with native drag-and-drop. Column headers show the average time
+ * leads spend in that stage.
+ */
+export default function PipelineBoard({
+  leads,
+  metrics,
+  serviceLabels,
+  onMove,
+  onOpen,
+}: PipelineBoardProps) {
+  const [draggingId, setDraggingId] = useState<string | null>(null)
+  const [overStage, setOverStage] = useState<LeadStage | null>(null)
+
+  const columns = groupLeadsByStage(leads)
+  const metricFor = (stage: LeadStage) => metrics.find((m) => m.stage === stage)
+
+  const handleDrop = (stage: LeadStage) => {
+    const lead = leads.find((l) => l.id === draggingId)
+    setDraggingId(null)
+    setOverStage(null)
+    if (lead && (lead.currentStage ?? 'lead') !== stage) onMove(lead, stage)
+  }
+
+  return (
+    <div className="flex gap-3 overflow-x-auto pb-2">
+      {LEAD_STAGES.map((stage) => {
+        const meta = LEAD_STAGE_META[stage]
+        const metric = metricFor(stage)
+        const column = columns[stage]
+        const total = column.reduce((sum, l) => sum + (l.expectedValue ?? 0), 0)
+
+        return (
+          <div
+            key={stage}
+            onDragOver={(e) => {
+              e.preventDefault()
+              if (overStage !== stage) setOverStage(stage)
+            }}
+            onDragLeave={() => setOverStage((s) => (s === stage ? null : s))}
+            onDrop={(e) => {
+              e.preventDefault()
+              handleDrop(stage)
+            }}
+            className={clsx(
+              'flex min-h-[420px] w-72 flex-shrink-0 flex-col rounded-[var(--radius-lg)] bg-[var(--bg-surface)] shadow-[var(--shadow-1)] transition-colors',
+              overStage === stage && 'ring-2 ring-[var(--primary)]',
+            )}
+          >
+            {/* Column header */}
+            <div
+              className="border-b border-[var(--border-subtle)] p-3"
+              style={{ borderTop: `3px solid ${meta.color}`, borderTopLeftRadius: 'var(--radius-lg)', borderTopRightRadius: 'var(--radius-lg)' }}
+            >
+              <div className="flex items-center justify-between">
+                <h3 className="text-sm font-semibold text-[var(--text-primary)]">
+                  {meta.label}
+                </h3>
+                <span className="rounded-full bg-[var(--bg-muted)] px-2 py-0.5 text-xs font-medium text-[var(--text-secondary)]">
+                  {column.length}
+                </span>
+              </div>
+              <div className="mt-1 flex items-center justify-between text-xs text-[var(--text-tertiary)]">
+                <span>{formatCurrencyRD(total)}</span>
+                {metric?.avgDays != null && (
+                  <span title={`Median ${metric.medianDays ?? 0} days`}>
+                    avg {metric.avgDays} d in stage
+                  </span>
+                )}
+              </div>
+            </div>
+
+            {/* Cards */}
+            <div className="flex-1 space-y-2 p-2">
+              {column.length === 0 ? (
+                <p className="px-2 py-6 text-center text-xs text-[var(--text-tertiary)]">
+                  Drop leads here
+                </p>
+              ) : (
+                column.map((lead) => {
+                  const days = daysInStage(lead)
+                  return (
+                    <div
+                      key={lead.id}
+                      draggable
+                      onDragStart={(e) => {
+                        e.dataTransfer.effectAllowed = 'move'
+                        setDraggingId(lead.id)
+                      }}
+                      onDragEnd={() => {
+                        setDraggingId(null)
+                        setOverStage(null)
+                      }}
+                      onClick={() => onOpen(lead)}
+                      className={clsx(
+                        'cursor-grab rounded-[var(--radius-md)] border border-[var(--border-subtle)] bg-[var(--surface-elev-1)] p-3 text-sm shadow-sm transition-opacity hover:border-[var(--border)]',
+                        draggingId === lead.id && 'opacity-50',
+                      )}
+                    >
+                      <p className="truncate font-medium text-[var(--text-primary)]">
+                        {lead.contact?.fullName ?? '—'}
+                      </p>
+                      <p className="mt-0.5 truncate text-xs text-[var(--text-secondary)]">
+                        {serviceLabels[lead.serviceType] ?? lead.serviceType}
+                      </p>
+                      <div className="mt-2 flex items-center justify-between text-xs text-[var(--text-tertiary)]">
+                        <span className="flex items-center gap-1">
+                          <DollarSign size={12} />
+                          {formatCurrencyRD(lead.expectedValue)}
+                        </span>
+                        {days != null && (
+                          <span className="flex items-center gap-1">
+                            <Clock size={12} />
+                            {days} d
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                  )
+                })
+              )}
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
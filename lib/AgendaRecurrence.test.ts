@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import { buildRRule, describeRRule, expandCalendarEvents, expandOccurrences, parseRRule } from '@/lib/AgendaRecurrence';
+
+/* =========================
+   FIXTURES
+   ========================= */
+
+const NY = 'America/New_York';
+
+// Wall-clock dates of the occurrences in `tz`
+const local = (isos: string[], tz = NY) =>
+  isos.map((iso) => new Intl.DateTimeFormat('sv-SE', { timeZone: tz, dateStyle: 'short', timeStyle: 'short' }).format(new Date(iso)));
+
+function expand(rrule: string, start_ts: string, fromISO: string, toISO: string, extra: { exdates?: string[]; duration_ms?: number } = {}) {
+  return expandOccurrences({ rrule, start_ts, timezone: NY, fromISO, toISO, ...extra });
+}
+
+/* =========================
+   RRULE
+   ========================= */
+
+describe('parseRRule / buildRRule', () => {
+  it('round-trips the supported parts', () => {
+    const rule = parseRRule('RRULE:FREQ=MONTHLY;INTERVAL=2;BYDAY=2TU,-1FR;COUNT=6;WKST=SU');
+    expect(rule).toEqual({ freq: 'MONTHLY', interval: 2, byday: ['2TU', '-1FR'], bymonthday: [], bymonth: [], count: 6, until: null });
+    expect(buildRRule(rule!)).toBe('FREQ=MONTHLY;INTERVAL=2;BYDAY=2TU,-1FR;COUNT=6');
+  });
+
+  it('rejects unsupported frequencies and parts', () => {
+    expect(parseRRule('FREQ=HOURLY')).toBeNull();
+    expect(parseRRule('')).toBeNull();
+    expect(parseRRule('FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1')).toBeNull();
+    expect(parseRRule('FREQ=DAILY;BYHOUR=9,17')).toBeNull();
+    expect(parseRRule('FREQ=YEARLY;BYWEEKNO=20')).toBeNull();
+  });
+
+  it('accepts a week start only where it cannot change the dates', () => {
+    expect(parseRRule('FREQ=WEEKLY;BYDAY=SU,TU;WKST=SU')).not.toBeNull();
+    expect(parseRRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=SU,TU;WKST=MO')).not.toBeNull();
+    expect(parseRRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=SU,TU;WKST=SU')).toBeNull();
+  });
+
+  it('describes rules for people', () => {
+    expect(describeRRule(parseRRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE')!)).toBe('Every 2 weeks on Mon, Wed');
+    expect(describeRRule(parseRRule('FREQ=MONTHLY;BYDAY=-1FR;UNTIL=20261231')!)).toBe('Monthly on the last Fri, until Dec 31, 2026');
+    expect(describeRRule(parseRRule('FREQ=DAILY;COUNT=1')!)).toBe('Daily, 1 time');
+  });
+});
+
+/* =========================
+   EXPANSION
+   ========================= */
+
+describe('expandOccurrences', () => {
+  it('keeps the wall-clock time across DST', () => {
+    const out = expand('FREQ=WEEKLY', '2025-03-03T14:00:00.000Z', '2025-03-01T00:00:00Z', '2025-03-20T00:00:00Z');
+    expect(local(out)).toEqual(['2025-03-03 09:00', '2025-03-10 09:00', '2025-03-17 09:00']);
+  });
+
+  it('expands weekly BYDAY with an interval', () => {
+    const out = expand('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH', '2025-01-06T14:00:00.000Z', '2025-01-01T00:00:00Z', '2025-02-01T00:00:00Z');
+    expect(local(out)).toEqual(['2025-01-06 09:00', '2025-01-09 09:00', '2025-01-20 09:00', '2025-01-23 09:00']);
+  });
+
+  it('expands monthly by weekday ordinal and by month day', () => {
+    const nth = expand('FREQ=MONTHLY;BYDAY=-1FR', '2025-01-31T15:00:00.000Z', '2025-01-01T00:00:00Z', '2025-05-01T00:00:00Z');
+    expect(local(nth).map((d) => d.slice(0, 10))).toEqual(['2025-01-31', '2025-02-28', '2025-03-28', '2025-04-25']);
+
+    // The 31st skips months without one
+    const dom = expand('FREQ=MONTHLY', '2025-01-31T15:00:00.000Z', '2025-01-01T00:00:00Z', '2025-06-01T00:00:00Z');
+    expect(local(dom).map((d) => d.slice(0, 10))).toEqual(['2025-01-31', '2025-03-31', '2025-05-31']);
+  });
+
+  it('stops at COUNT and UNTIL, counting occurrences before the range', () => {
+    const counted = expand('FREQ=DAILY;COUNT=5', '2025-01-01T14:00:00.000Z', '2025-01-04T00:00:00Z', '2025-02-01T00:00:00Z');
+    expect(local(counted).map((d) => d.slice(0, 10))).toEqual(['2025-01-04', '2025-01-05']);
+
+    const until = expand('FREQ=DAILY;UNTIL=20250103T140000Z', '2025-01-01T14:00:00.000Z', '2025-01-01T00:00:00Z', '2025-02-01T00:00:00Z');
+    expect(until).toHaveLength(3);
+  });
+
+  it('skips exdates and includes occurrences still running at the range start', () => {
+    const out = expand('FREQ=DAILY', '2025-01-01T14:00:00.000Z', '2025-01-03T14:30:00Z', '2025-01-05T00:00:00Z', {
+      exdates: ['2025-01-04T14:00:00+00:00'],
+      duration_ms: 3_600_000,
+    });
+    expect(out).toEqual(['2025-01-03T14:00:00.000Z']);
+  });
+
+  it('expands all-day yearly events at local midnight', () => {
+    const out = expand('FREQ=YEARLY', '2024-02-29T05:00:00.000Z', '2024-01-01T00:00:00Z', '2029-01-01T00:00:00Z');
+    expect(local(out)).toEqual(['2024-02-29 00:00', '2028-02-29 00:00']);
+  });
+});
+
+describe('expandCalendarEvents', () => {
+  type Row = { id: string; start_ts: string; end_ts: string | null; rrule?: string; exdates?: string[]; timezone?: string; series_id?: string; recurrence_id?: string };
+
+  const master: Row = {
+    id: 'gym',
+    start_ts: '2025-03-03T23:00:00.000Z',
+    end_ts: '2025-03-04T00:00:00.000Z',
+    rrule: 'FREQ=WEEKLY',
+    exdates: ['2025-03-10T22:00:00.000Z'],
+    timezone: NY,
+  };
+
+  it('merges occurrences, cancellations and moved overrides', () => {
+    const moved: Row = { id: 'moved', start_ts: '2025-03-18T22:00:00.000Z', end_ts: '2025-03-18T23:00:00.000Z', series_id: 'gym', recurrence_id: '2025-03-17T22:00:00+00:00' };
+    const single: Row = { id: 'dentist', start_ts: '2025-03-05T15:00:00.000Z', end_ts: null };
+
+    const out = expandCalendarEvents({
+      rows: [moved, single],
+      masters: [master],
+      overrides: [moved],
+      fromISO: '2025-03-01T05:00:00Z',
+      toISO: '2025-03-22T04:00:00Z',
+      defaultTz: NY,
+    });
+
+    expect(out.map((e) => [e.id, e.start_ts, e.series_id, e.rrule])).toEqual([
+      ['gym:2025-03-03T23:00:00.000Z', '2025-03-03T23:00:00.000Z', 'gym', 'FREQ=WEEKLY'],
+      ['dentist', '2025-03-05T15:00:00.000Z', null, null],
+      ['moved', '2025-03-18T22:00:00.000Z', 'gym', 'FREQ=WEEKLY'],
+    ]);
+    expect(out[2].recurrence_id).toBe('2025-03-17T22:00:00.000Z');
+    expect(out[0].end_ts).toBe('2025-03-04T00:00:00.000Z');
+  });
+});
@@ -0,0 +1,331 @@
+// lib/AgendaRecurrence.ts
+// Recurring agenda events: RRULE (RFC 5545 subset) parsing/building and expansion
+// of series into occurrences, with exceptions (EXDATE) and per-occurrence overrides.
+// Pure functions only; persistence lives in app/(app)/agenda/actions.ts.
+
+import { format } from 'date-fns';
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+import type { RecurrenceFrequency, RecurrenceRule } from '@/lib/types';
+
+export const RRULE_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'] as const;
+
+/** Cap per series and expansion; guards against runaway rules (e.g. daily with no end) */
+export const MAX_OCCURRENCES = 1000;
+
+const FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+const RRULE_PARTS = ['FREQ', 'INTERVAL', 'COUNT', 'UNTIL', 'BYDAY', 'BYMONTHDAY', 'BYMONTH', 'WKST'];
+const DAY_MS = 86_400_000;
+const MAX_PERIODS = 50_000;
+
+/* =========================
+   RRULE
+   ========================= */
+
+/**
+ * Parses an RRULE value ("FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE"). Supports
+ * FREQ, INTERVAL, COUNT, UNTIL, BYDAY (with ordinals), BYMONTHDAY and BYMONTH.
+ * Returns null for a missing or unsupported FREQ, or when the rule has any other
+ * part (BYSETPOS, BYHOUR, BYWEEKNO...) we cannot expand. Weeks start on Monday,
+ * so WKST is accepted only where it cannot change the occurrences.
+ */
+export function parseRRule(value: string | null | undefined): RecurrenceRule | null {
+  if (!value) return null;
+  const parts = new Map<string, string>();
+  for (const part of value.replace(/^RRULE:/i, '').split(';')) {
+    const eq = part.indexOf('=');
+    if (eq > 0) parts.set(part.slice(0, eq).trim().toUpperCase(), part.slice(eq + 1).trim().toUpperCase());
+  }
+
+  const freq = parts.get('FREQ') as RecurrenceFrequency | undefined;
+  if (!freq || !FREQUENCIES.includes(freq)) return null;
+  if ([...parts.keys()].some((key) => !RRULE_PARTS.includes(key))) return null;
+
+  const list = (key: string) => (parts.get(key) ?? '').split(',').filter(Boolean);
+  const ints = (key: string, min: number, max: number) =>
+    list(key)
+      .map(Number)
+      .filter((n) => Number.isInteger(n) && n !== 0 && Math.abs(n) >= min && Math.abs(n) <= max);
+
+  const interval = Number(parts.get('INTERVAL') ?? 1);
+  const count = Number(parts.get('COUNT'));
+  const until = parts.get('UNTIL');
+  const byday = list('BYDAY').filter((d) => /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.test(d));
+
+  // The week start only matters for multi-day weekly rules skipping weeks
+  const wkst = parts.get('WKST') ?? 'MO';
+  if (wkst !== 'MO' && freq === 'WEEKLY' && interval > 1 && byday.length > 1) return null;
+
+  return {
+    freq,
+    interval: Number.isInteger(interval) && interval > 0 ? interval : 1,
+    byday,
+    bymonthday: ints('BYMONTHDAY', 1, 31),
+    bymonth: ints('BYMONTH', 1, 12).filter((n) => n > 0),
+    count: Number.isInteger(count) && count > 0 ? count : null,
+    until: until && /^\d{8}(T\d{6}Z?)?$/.test(until) ? until : null,
+  };
+}
+
+/** Serializes a rule back to an RRULE value (COUNT wins over UNTIL) */
+export function buildRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byday.length > 0) parts.push(`BYDAY=${rule.byday.join(',')}`);
+  if (rule.bymonthday.length > 0) parts.push(`BYMONTHDAY=${rule.bymonthday.join(',')}`);
+  if (rule.bymonth.length > 0) parts.push(`BYMONTH=${rule.bymonth.join(',')}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  else if (rule.until) parts.push(`UNTIL=${rule.until}`);
+  return parts.join(';');
+}
+
+const DAY_NAMES: Record<string, string> = { SU: 'Sun', MO: 'Mon', TU: 'Tue', WE: 'Wed', TH: 'Thu', FR: 'Fri', SA: 'Sat' };
+const ORDINALS: Record<string, string> = { '1': 'first', '2': 'second', '3': 'third', '4': 'fourth', '5': 'fifth', '-1': 'last' };
+
+function untilDate(until: string) {
+  return new Date(Date.UTC(+until.slice(0, 4), +until.slice(4, 6) - 1, +until.slice(6, 8)));
+}
+
+/** Human summary, e.g. "Every 2 weeks on Mon, Wed, until Mar 5, 2026" */
+export function describeRRule(rule: RecurrenceRule): string {
+  const unit = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month', YEARLY: 'year' }[rule.freq];
+  let text =
+    rule.interval > 1
+      ? `Every ${rule.interval} ${unit}s`
+      : { DAILY: 'Daily', WEEKLY: 'Weekly', MONTHLY: 'Monthly', YEARLY: 'Yearly' }[rule.freq];
+
+  const days = rule.byday.map((d) => {
+    const m = /^([+-]?\d{1,2})?(\w\w)$/.exec(d)!;
+    return m[1] ? `the ${ORDINALS[String(Number(m[1]))] ?? `#${m[1]}`} ${DAY_NAMES[m[2]]}` : DAY_NAMES[m[2]];
+  });
+  if (days.length > 0) text += ` on ${days.join(', ')}`;
+  else if (rule.bymonthday.length > 0) text += ` on day ${rule.bymonthday.map((d) => (d < 0 ? 'last' : d)).join(', ')}`;
+
+  if (rule.count) text += `, ${rule.count} time${rule.count === 1 ? '' : 's'}`;
+  else if (rule.until) {
+    const d = untilDate(rule.until);
+    text += `, until ${format(new Date(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()), 'MMM d, yyyy')}`;
+  }
+  return text;
+}
+
+/* =========================
+   EXPANSION
+   ========================= */
+
+// Local calendar days are handled as UTC-midnight day numbers so the host zone never leaks in
+const dayOf = (y: number, m: number, d: number) => Date.UTC(y, m, d) / DAY_MS;
+const weekdayOf = (day: number) => new Date(day * DAY_MS).getUTCDay();
+const ymdOf = (day: number) => new Date(day * DAY_MS).toISOString().slice(0, 10);
+
+/** Days in [first, last] matching BYDAY entries; ordinals count within the span */
+function weekdayDays(first: number, last: number, byday: string[]) {
+  const out: number[] = [];
+  for (const entry of byday) {
+    const m = /^([+-]?\d{1,2})?(\w\w)$/.exec(entry)!;
+    const wd = RRULE_WEEKDAYS.indexOf(m[2] as (typeof RRULE_WEEKDAYS)[number]);
+    const matches: number[] = [];
+    for (let d = first + ((wd - weekdayOf(first) + 7) % 7); d <= last; d += 7) matches.push(d);
+    if (!m[1]) out.push(...matches);
+    else {
+      const n = Number(m[1]);
+      const pick = n > 0 ? matches[n - 1] : matches[matches.length + n];
+      if (pick !== undefined) out.push(pick);
+    }
+  }
+  return out;
+}
+
+function monthDays(y: number, m: number, rule: RecurrenceRule, startDom: number, yearSpan?: [number, number]) {
+  const first = dayOf(y, m, 1);
+  const last = dayOf(y, m + 1, 0);
+  const dim = last - first + 1;
+  if (rule.bymonthday.length > 0) {
+    return rule.bymonthday
+      .map((d) => (d > 0 ? d : dim + d + 1))
+      .filter((d) => d >= 1 && d <= dim)
+      .map((d) => first + d - 1);
+  }
+  if (rule.byday.length > 0) {
+    // YEARLY without BYMONTH counts BYDAY ordinals across the whole year
+    if (yearSpan) return weekdayDays(yearSpan[0], yearSpan[1], rule.byday);
+    return weekdayDays(first, last, rule.byday);
+  }
+  return startDom <= dim ? [first + startDom - 1] : []; // e.g. the 31st skips short months
+}
+
+/** Candidate days of period `p` (sorted), before COUNT/UNTIL/start filtering */
+function periodDays(rule: RecurrenceRule, p: number, start: { y: number; m: number; d: number; day: number }) {
+  const step = p * rule.interval;
+  const weekdays = rule.byday.map((b) => RRULE_WEEKDAYS.indexOf(b.slice(-2) as (typeof RRULE_WEEKDAYS)[number]));
+  let days: number[];
+
+  switch (rule.freq) {
+    case 'DAILY': {
+      const day = start.day + step;
+      const month = new Date(day * DAY_MS).getUTCMonth() + 1;
+      const ok = (weekdays.length === 0 || weekdays.includes(weekdayOf(day))) && (rule.bymonth.length === 0 || rule.bymonth.includes(month));
+      days = ok ? [day] : [];
+      break;
+    }
+    case 'WEEKLY': {
+      // Weeks start on Monday (RFC 5545 default WKST)
+      const weekStart = start.day - ((weekdayOf(start.day) + 6) % 7) + step * 7;
+      const wanted = weekdays.length > 0 ? weekdays : [weekdayOf(start.day)];
+      days = wanted.map((wd) => weekStart + ((wd + 6) % 7));
+      break;
+    }
+    case 'MONTHLY': {
+      const index = start.y * 12 + start.m + step;
+      const y = Math.floor(index / 12);
+      const m = index % 12;
+      days = rule.bymonth.length === 0 || rule.bymonth.includes(m + 1) ? monthDays(y, m, rule, start.d) : [];
+      break;
+    }
+    case 'YEARLY': {
+      const y = start.y + step;
+      if (rule.bymonth.length === 0 && rule.byday.length > 0 && rule.bymonthday.length === 0) {
+        days = monthDays(y, 0, rule, start.d, [dayOf(y, 0, 1), dayOf(y, 11, 31)]);
+      } else {
+        const months = rule.bymonth.length > 0 ? rule.bymonth.map((n) => n - 1) : [start.m];
+        days = months.flatMap((m) => monthDays(y, m, rule, start.d));
+      }
+      break;
+    }
+  }
+  return [...new Set(days)].sort((a, b) => a - b);
+}
+
+/**
+ * Start instants (UTC ISO) of a series' occurrences that overlap [fromISO, toISO).
+ * The rule runs on the wall clock of `timezone`, so a 9:00 weekly event stays at
+ * 9:00 across DST. DTSTART is always the first occurrence; COUNT counts from it;
+ * EXDATEs are skipped but still count, as in RFC 5545.
+ */
+export function expandOccurrences(args: {
+  rrule: string;
+  start_ts: string;
+  timezone: string;
+  duration_ms?: number;
+  exdates?: string[];
+  fromISO: string;
+  toISO: string;
+}): string[] {
+  const rule = parseRRule(args.rrule);
+  if (!rule) return [args.start_ts];
+
+  const tz = args.timezone;
+  const local = formatInTimeZone(args.start_ts, tz, "yyyy-MM-dd'T'HH:mm:ss");
+  const y = +local.slice(0, 4);
+  const m = +local.slice(5, 7) - 1;
+  const d = +local.slice(8, 10);
+  const time = local.slice(11);
+  const start = { y, m, d, day: dayOf(y, m, d) };
+
+  const startMs = Date.parse(args.start_ts);
+  const fromMs = Date.parse(args.fromISO);
+  const toMs = Date.parse(args.toISO);
+  const duration = args.duration_ms ?? 0;
+  const excluded = new Set((args.exdates ?? []).map((x) => new Date(x).toISOString()));
+
+  // UNTIL is a UTC instant, a floating local time, or a local date (inclusive)
+  let untilMs = Infinity;
+  if (rule.until) {
+    const u = rule.until;
+    const ymd = `${u.slice(0, 4)}-${u.slice(4, 6)}-${u.slice(6, 8)}`;
+    if (u.length === 8) untilMs = fromZonedTime(`${ymd}T23:59:59`, tz).getTime();
+    else if (u.endsWith('Z')) untilMs = Date.parse(`${ymd}T${u.slice(9, 11)}:${u.slice(11, 13)}:${u.slice(13, 15)}Z`);
+    else untilMs = fromZonedTime(`${ymd}T${u.slice(9, 11)}:${u.slice(11, 13)}:${u.slice(13, 15)}`, tz).getTime();
+  }
+
+  const out: string[] = [];
+  const push = (ms: number) => {
+    const iso = new Date(ms).toISOString();
+    const overlaps = duration > 0 ? ms + duration > fromMs : ms >= fromMs;
+    if (overlaps && !excluded.has(iso)) out.push(iso);
+  };
+
+  // DTSTART counts even when the rule would not generate it
+  let seen = 1;
+  if (startMs < toMs) push(startMs);
+
+  for (let p = 0; p < MAX_PERIODS && out.length < MAX_OCCURRENCES; p++) {
+    for (const day of periodDays(rule, p, start)) {
+      if (day < start.day) continue;
+      const ms = fromZonedTime(`${ymdOf(day)}T${time}`, tz).getTime();
+      if (ms <= startMs) continue;
+      if (ms > untilMs || ms >= toMs || (rule.count && seen >= rule.count)) return out;
+      seen++;
+      push(ms);
+    }
+  }
+  return out;
+}
+
+/** The calendar_events columns expansion needs */
+type CalendarRow = {
+  id: string;
+  start_ts: string;
+  end_ts: string | null;
+  rrule?: string | null;
+  exdates?: string[] | null;
+  timezone?: string | null;
+  series_id?: string | null;
+  recurrence_id?: string | null;
+};
+
+/**
+ * Merges one-off rows, series masters and override rows into the occurrences
+ * overlapping [fromISO, toISO). Generated occurrences copy the master with id
+ * "<series id>:<occurrence start>"; an override replaces the occurrence it points
+ * at, wherever it was moved to. Every result carries its series' rrule. Sorted by start.
+ */
+export function expandCalendarEvents<T extends CalendarRow>(args: {
+  rows: T[]; // one-offs and overrides overlapping the range
+  masters: T[]; // series starting before toISO
+  overrides: { series_id?: string | null; recurrence_id?: string | null }[]; // every override of the masters
+  fromISO: string;
+  toISO: string;
+  defaultTz: string;
+}): (T & { series_id: string | null; recurrence_id: string | null; rrule: string | null })[] {
+  const overridden = new Set(
+    args.overrides
+      .filter((o) => o.series_id && o.recurrence_id)
+      .map((o) => `${o.series_id}|${new Date(o.recurrence_id!).toISOString()}`)
+  );
+  const rruleBySeries = new Map(args.masters.map((s) => [s.id, s.rrule ?? null]));
+
+  const out = args.rows.map((row) => ({
+    ...row,
+    series_id: row.series_id ?? null,
+    recurrence_id: row.recurrence_id ? new Date(row.recurrence_id).toISOString() : null,
+    rrule: row.series_id ? rruleBySeries.get(row.series_id) ?? null : row.rrule ?? null,
+  }));
+
+  for (const master of args.masters) {
+    if (!master.rrule) continue;
+    const duration = master.end_ts ? Date.parse(master.end_ts) - Date.parse(master.start_ts) : 0;
+    const starts = expandOccurrences({
+      rrule: master.rrule,
+      start_ts: new Date(master.start_ts).toISOString(),
+      timezone: master.timezone || args.defaultTz,
+      duration_ms: duration,
+      exdates: master.exdates ?? [],
+      fromISO: args.fromISO,
+      toISO: args.toISO,
+    });
+    for (const start of starts) {
+      if (overridden.has(`${master.id}|${start}`)) continue;
+      out.push({
+        ...master,
+        id: `${master.id}:${start}`,
+        start_ts: start,
+        end_ts: master.end_ts ? new Date(Date.parse(start) + duration).toISOString() : null,
+        series_id: master.id,
+        recurrence_id: start,
+        rrule: master.rrule,
+      });
+    }
+  }
+
+  return out.sort((a, b) => Date.parse(a.start_ts) - Date.parse(b.start_ts));
+}
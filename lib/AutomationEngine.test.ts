@@ -0,0 +1,270 @@
+import { describe, expect, it } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  compareValues,
+  executeAutomation,
+  failedRunSteps,
+  isScheduleDue,
+  isValidCron,
+  parseCron,
+  sweepAutomation,
+  type EntityRecord,
+} from '@/lib/AutomationEngine';
+import type { Automation, AutomationActionOutcome, AutomationRun } from '@/lib/automations.types';
+
+/* =========================
+   FIXTURES
+   ========================= */
+
+const automation: Automation = {
+  id: 'auto-1',
+  name: 'Welcome lead',
+  description: '',
+  trigger: { type: 'record_created', entity: 'lead' },
+  actions: [
+    { type: 'create_agenda_task', title: 'Call {{contact.fullName}}', dueInDays: 1, category: 'Work' },
+    { type: 'send_message', channel: 'email', to: '{{contact.email}}', body: 'Hi' },
+  ],
+  isActive: true,
+  lastRun: null,
+  lastRunStatus: 'error',
+};
+
+function outcome(recordId: string, type: AutomationActionOutcome['type'], ok: boolean, actionIndex?: number): AutomationActionOutcome {
+  return { type, ok, detail: ok ? 'done' : 'failed', recordId, ...(actionIndex === undefined ? {} : { actionIndex }) };
+}
+
+function run(outcomes: AutomationActionOutcome[]): AutomationRun {
+  return {
+    id: 'run-1',
+    automationId: 'auto-1',
+    source: 'event',
+    status: 'error',
+    error: 'failed',
+    startedAt: '2025-03-01T12:00:00Z',
+    finishedAt: '2025-03-01T12:00:01Z',
+    durationMs: 1000,
+    entity: 'lead',
+    recordIds: ['l1', 'l2'],
+    outcomes,
+    rerunOf: null,
+  };
+}
+
+// Query builder stand-in: selects resolve to `rows[table]` (empty by default),
+// inserts and updates are recorded per table
+function recordingClient(rows: Record<string, any[]> = {}) {
+  const inserts: { table: string; row: any }[] = [];
+  const updates: { table: string; row: any }[] = [];
+  const client = {
+    from(table: string) {
+      const query: any = {
+        select: () => query,
+        eq: () => query,
+        update: (row: any) => {
+          updates.push({ table, row });
+          return query;
+        },
+        insert: (row: any) => {
+          inserts.push({ table, row });
+          return query;
+        },
+        maybeSingle: async () => ({ data: null, error: null }),
+        single: async () => ({ data: { id: 'run-2' }, error: null }),
+        then: (resolve: (v: unknown) => void) => resolve({ data: rows[table] ?? null, error: null }),
+      };
+      return query;
+    },
+  };
+  return { client: client as unknown as SupabaseClient, inserts, updates };
+}
+
+const lead = (id: string): EntityRecord => ({ id, contact: { fullName: `Lead ${id}`, email: `${id}@example.com` } });
+
+/* =========================
+   RE-RUNS
+   ========================= */
+
+describe('failedRunSteps', () => {
+  it('keeps only the failed record/action pairs', () => {
+    const steps = failedRunSteps(
+      run([
+        outcome('l1', 'create_agenda_task', true, 0),
+        outcome('l1', 'send_message', false, 1),
+        outcome('l2', 'create_agenda_task', false, 0),
+        outcome('l2', 'send_message', true, 1),
+      ]),
+      automation
+    );
+    expect(steps).toEqual([
+      { recordId: 'l1', actionIndex: 1 },
+      { recordId: 'l2', actionIndex: 0 },
+    ]);
+  });
+
+  it('matches older runs by position while the action types line up', () => {
+    const legacy = run([outcome('l1', 'create_agenda_task', true), outcome('l1', 'send_message', false)]);
+    expect(failedRunSteps(legacy, automation)).toEqual([{ recordId: 'l1', actionIndex: 1 }]);
+
+    const edited = { ...automation, actions: [automation.actions[1], automation.actions[0]] };
+    expect(failedRunSteps(legacy, edited)).toEqual([]);
+  });
+});
+
+describe('executeAutomation with steps', () => {
+  it('runs only the given steps', async () => {
+    const { client, inserts } = recordingClient();
+    const result = await executeAutomation(client, 'user-1', automation, [lead('l1'), lead('l2')], {
+      source: 'rerun',
+      rerunOf: 'run-1',
+      now: new Date('2025-03-02T12:00:00Z'),
+      steps: [
+        { recordId: 'l1', actionIndex: 1 },
+        { recordId: 'l2', actionIndex: 0 },
+      ],
+    });
+
+    expect(result.outcomes.map((o) => [o.recordId, o.actionIndex, o.ok])).toEqual([
+      ['l1', 1, true],
+      ['l2', 0, true],
+    ]);
+    expect(inserts.filter((i) => i.table !== 'automation_runs').map((i) => i.table)).toEqual([
+      'automation_outbox',
+      'calendar_events',
+    ]);
+    expect(inserts.find((i) => i.table === 'automation_runs')?.row).toMatchObject({ source: 'rerun', rerun_of: 'run-1' });
+  });
+});
+
+/* =========================
+   CRON SCHEDULES
+   ========================= */
+
+describe('parseCron', () => {
+  it('expands ranges, lists and steps', () => {
+    const cron = parseCron('*/15 9-11 1,15 * 1-5');
+    expect([...cron.minute]).toEqual([0, 15, 30, 45]);
+    expect([...cron.hour]).toEqual([9, 10, 11]);
+    expect([...cron.dom]).toEqual([1, 15]);
+    expect(cron.month.size).toBe(12);
+    expect([...cron.dow]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('treats 7 as Sunday', () => {
+    expect(parseCron('0 9 * * 7').dow.has(0)).toBe(true);
+  });
+
+  it('rejects malformed expressions', () => {
+    expect(isValidCron('0 9 * *')).toBe(false);
+    expect(isValidCron('60 9 * * *')).toBe(false);
+    expect(isValidCron('0 9 * * 1-8')).toBe(false);
+    expect(isValidCron('*/0 * * * *')).toBe(false);
+    expect(isValidCron('0 9 * * 1')).toBe(true);
+  });
+});
+
+describe('isScheduleDue', () => {
+  const NY = 'America/New_York';
+  // A one-minute window ending at `iso`
+  const dueAt = (cron: string, iso: string, tz = NY) => {
+    const now = new Date(iso);
+    return isScheduleDue(cron, tz, new Date(now.getTime() - 60_000), now);
+  };
+
+  it('evaluates the schedule in the trigger timezone', () => {
+    // 09:00 in New York is 14:00Z in winter
+    expect(dueAt('0 9 * * *', '2025-03-03T14:00:00Z')).toBe(true);
+    expect(dueAt('0 9 * * *', '2025-03-03T09:00:00Z')).toBe(false);
+    expect(dueAt('0 9 * * *', '2025-03-03T09:00:00Z', 'UTC')).toBe(true);
+  });
+
+  it('fires on either day field when both are restricted', () => {
+    // "The 1st, and every Monday": Saturday 2025-03-01 and Monday 2025-03-03, not Tuesday
+    expect(dueAt('0 9 1 * 1', '2025-03-01T14:00:00Z')).toBe(true);
+    expect(dueAt('0 9 1 * 1', '2025-03-03T14:00:00Z')).toBe(true);
+    expect(dueAt('0 9 1 * 1', '2025-03-04T14:00:00Z')).toBe(false);
+  });
+
+  it('needs both fields when only one is restricted', () => {
+    expect(dueAt('0 9 1 * *', '2025-03-03T14:00:00Z')).toBe(false);
+    expect(dueAt('0 9 * * 1', '2025-03-01T14:00:00Z')).toBe(false);
+  });
+
+  it('catches up on a tick missed since the last run, once', () => {
+    const now = new Date('2025-03-03T20:00:00Z');
+    expect(isScheduleDue('0 9 * * *', NY, new Date('2025-03-03T13:00:00Z'), now)).toBe(true);
+    expect(isScheduleDue('0 9 * * *', NY, new Date('2025-03-03T14:00:00Z'), now)).toBe(false);
+    expect(isScheduleDue('0 9 * * *', NY, new Date('2024-01-01T00:00:00Z'), now)).toBe(true);
+  });
+});
+
+/* =========================
+   CONDITIONS
+   ========================= */
+
+describe('compareValues', () => {
+  it('compares numeric strings as numbers', () => {
+    expect(compareValues('10', 'gt', 9)).toBe(true);
+    expect(compareValues('10', 'lt', '9')).toBe(false);
+    expect(compareValues(5, 'eq', '5')).toBe(true);
+    expect(compareValues(5, 'neq', '5.0')).toBe(false);
+  });
+
+  it('compares other strings as text', () => {
+    expect(compareValues('2025-03-01', 'lt', '2025-03-02')).toBe(true);
+    expect(compareValues('won', 'eq', 'won')).toBe(true);
+    expect(compareValues('Website redesign', 'contains', 'WEBSITE')).toBe(true);
+  });
+
+  it('never orders empty values', () => {
+    expect(compareValues(null, 'lt', 10)).toBe(false);
+    expect(compareValues('', 'gte', 0)).toBe(false);
+    expect(compareValues(null, 'is_empty')).toBe(true);
+    expect(compareValues([], 'is_empty')).toBe(true);
+    expect(compareValues(0, 'is_not_empty')).toBe(true);
+  });
+});
+
+/* =========================
+   THRESHOLD SWEEPS
+   ========================= */
+
+describe('sweepAutomation threshold state', () => {
+  const threshold: Automation = {
+    ...automation,
+    id: 'auto-2',
+    trigger: { type: 'threshold_crossed', entity: 'lead', field: 'expectedValue', operator: 'gte', value: 500 },
+    actions: [automation.actions[0]],
+  };
+  const leads = (values: Record<string, number>) =>
+    Object.entries(values).map(([id, expected_value]) => ({ id, expected_value, contact: { full_name: `Lead ${id}` } }));
+  const now = new Date('2025-03-03T12:00:00Z');
+
+  async function sweep(values: Record<string, number>, state: string[]) {
+    const { client, updates } = recordingClient({ leads: leads(values) });
+    const result = await sweepAutomation(client, 'user-1', threshold, now, state);
+    const saved = updates.find((u) => u.table === 'automations' && 'threshold_state' in u.row)?.row.threshold_state;
+    return { result, saved };
+  }
+
+  it('fires for records that newly cross and remembers them', async () => {
+    const { result, saved } = await sweep({ l1: 800, l2: 100 }, []);
+    expect(result?.recordIds).toEqual(['l1']);
+    expect(saved).toEqual(['l1']);
+  });
+
+  it('does not fire again while the record stays past the threshold', async () => {
+    const { result, saved } = await sweep({ l1: 900, l2: 100 }, ['l1']);
+    expect(result).toBeNull();
+    expect(saved).toEqual(['l1']);
+  });
+
+  it('fires again after the record recovers and crosses again', async () => {
+    const recovered = await sweep({ l1: 200 }, ['l1']);
+    expect(recovered.result).toBeNull();
+    expect(recovered.saved).toEqual([]);
+
+    const crossed = await sweep({ l1: 600 }, recovered.saved);
+    expect(crossed.result?.recordIds).toEqual(['l1']);
+  });
+});
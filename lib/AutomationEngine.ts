@@ -0,0 +1,970 @@
+// lib/AutomationEngine.ts
+// Evaluates and executes automations stored in `automations`.
+// - Record triggers (record_created / field_changed) are dispatched by the module server actions.
+// - Scheduled and threshold triggers are evaluated by the cron sweep (app/api/automations/cron).
+// - Every execution is logged to `automation_runs` and mirrored into last_run_at /
+//   last_run_status / last_run_error on the automation row.
+// All functions take the Supabase client explicitly so the same code runs with the
+// cookie-bound client (user actions) and the service-role client (cron).
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { addDays } from 'date-fns'
+import { formatInTimeZone, fromZonedTime, toZonedTime } from 'date-fns-tz'
+import type {
+  Automation,
+  AutomationAction,
+  AutomationActionOutcome,
+  AutomationCondition,
+  AutomationConditions,
+  AutomationEntity,
+  AutomationRun,
+  AutomationRunResult,
+  AutomationRunSource,
+  AutomationSimulation,
+  AutomationTrigger,
+  ConditionGroup,
+  ConditionNode,
+  ConditionValue,
+} from '@/lib/automations.types'
+import { getUserTimezone } from '@/lib/UserTimezone'
+
+export type EntityRecord = { id: string } & Record<string, unknown>
+
+export type AutomationEvent = {
+  entity: AutomationEntity
+  kind: 'created' | 'updated'
+  recordId: string
+  /** Record as it was before the write (updates only), from fetchAutomationRecord */
+  previous?: EntityRecord | null
+}
+
+// Upper bound on how far back a schedule is replayed (one week of minutes)
+const MAX_SCHEDULE_LOOKBACK_MINUTES = 7 * 24 * 60
+
+export const ENTITY_LABELS: Record<AutomationEntity, string> = {
+  lead: 'Lead',
+  class_package: 'Class Package',
+  project: 'Project',
+  loan: 'Loan',
+  supplement: 'Supplement',
+  budget_rule: 'Budget Rule',
+}
+
+/*
+|--------------------------------------------------------------------------
+| Mapping (DB row -> automation record)
+|--------------------------------------------------------------------------
+*/
+
+function mapContactRow(c: any) {
+  if (!c) return undefined
+  return {
+    id: c.id,
+    fullName: c.full_name,
+    email: c.email ?? null,
+    phone: c.phone ?? null,
+    whatsapp: c.whatsapp ?? null,
+    createdAt: c.created_at,
+  }
+}
+
+const ENTITY_SOURCES: Record<
+  AutomationEntity,
+  {
+    table: string
+    select: string
+    map: (row: any) => EntityRecord
+    /** Human-readable name for previews, as a field path into the mapped record */
+    labelField: string
+  }
+> = {
+  lead: {
+    table: 'leads',
+    labelField: 'contact.fullName',
+    select: '*, contact:contacts(*)',
+    map: (row) => ({
+      id: row.id,
+      contactId: row.contact_id,
+      serviceType: row.service_type,
+      sourceChannel: row.source_channel,
+      expectedValue: row.expected_value != null ? Number(row.expected_value) : null,
+      notes: row.notes ?? null,
+      currentStage: row.current_stage ?? 'lead',
+      createdAt: row.created_at,
+      contact: mapContactRow(row.contact),
+    }),
+  },
+  class_package: {
+    table: 'class_packages',
+    labelField: 'title',
+    select: '*, student:class_students(*, contact:contacts(*))',
+    map: (row) => ({
+      id: row.id,
+      studentId: row.student_id,
+      title: row.title,
+      sessionsIncluded: Number(row.sessions_included ?? 0),
+      sessionsConsumed: Number(row.sessions_consumed ?? 0),
+      priceDopCents: Number(row.price_dop_cents ?? 0),
+      status: row.status,
+      startDate: row.start_date ?? null,
+      endDate: row.end_date ?? null,
+      student: row.student
+        ? {
+            id: row.student.id,
+            language: row.student.language,
+            level: row.student.level,
+            status: row.student.status,
+            contact: mapContactRow(row.student.contact),
+          }
+        : undefined,
+    }),
+  },
+  project: {
+    table: 'projects',
+    labelField: 'name',
+    select: '*',
+    map: (row) => ({
+      id: row.id,
+      name: row.name,
+      description: row.description ?? null,
+      clientName: row.client_name ?? null,
+      type: row.type,
+      status: row.status ?? null,
+      startDate: row.start_date ?? null,
+      dueDate: row.due_date ?? null,
+      budgetDopCents: Number(row.budget_dop_cents ?? 0),
+    }),
+  },
+  loan: {
+    table: 'loans',
+    labelField: 'clientName',
+    select: '*',
+    map: (row) => ({
+      id: row.id,
+      clientName: row.client_name,
+      clientPhone: row.client_phone ?? null,
+      clientEmail: row.client_email ?? null,
+      loanDate: row.loan_date,
+      amount: Number(row.amount),
+      interestRate: Number(row.interest_rate),
+      frequency: row.frequency,
+      status: row.status,
+      notes: row.notes ?? null,
+    }),
+  },
+  supplement: {
+    table: 'supplements',
+    labelField: 'name',
+    select: '*',
+    map: (row) => ({ ...row, id: row.id }),
+  },
+  budget_rule: {
+    table: 'budget_rules',
+    labelField: 'description',
+    select: '*',
+    map: (row) => ({ ...row, id: row.id }),
+  },
+}
+
+/**
+ * Loads a single record in the shape conditions and templates see.
+ * Returns null when the row does not exist (or is hidden by RLS).
+ */
+export async function fetchAutomationRecord(
+  supabase: SupabaseClient,
+  entity: AutomationEntity,
+  id: string,
+): Promise<EntityRecord | null> {
+  const source = ENTITY_SOURCES[entity]
+  const { data, error } = await supabase
+    .from(source.table)
+    .select(source.select)
+    .eq('id', id)
+    .maybeSingle()
+
+  if (error) {
+    console.error(`Error fetching ${entity} ${id} for automations:`, error.message)
+    return null
+  }
+  return data ? source.map(data) : null
+}
+
+/**
+ * Loads every record of an entity owned by the user (used by scheduled/threshold sweeps).
+ * Assumes each entity table has a `user_id` column set on insert by the module actions:
+ * the cron sweep uses the service-role client, so this filter is the only owner scope.
+ * Rows saved before the actions set it (older leads and class packages) have a null
+ * `user_id` and are skipped until backfilled, e.g. for a single-owner install:
+ * `update leads set user_id = '<owner id>' where user_id is null` (same for class_packages).
+ */
+export async function loadEntityRecords(
+  supabase: SupabaseClient,
+  entity: AutomationEntity,
+  userId: string,
+): Promise<EntityRecord[]> {
+  const source = ENTITY_SOURCES[entity]
+  const { data, error } = await supabase
+    .from(source.table)
+    .select(source.select)
+    .eq('user_id', userId)
+
+  if (error) throw new Error(`Could not load ${entity} records: ${error.message}`)
+  return (data ?? []).map(source.map)
+}
+
+/** Display name of a record for previews (falls back to its id). */
+export function recordLabel(entity: AutomationEntity, record: EntityRecord): string {
+  const v = getFieldValue(record, ENTITY_SOURCES[entity].labelField)
+  return v == null || v === '' ? record.id : String(v)
+}
+
+export function mapAutomationRow(row: any): Automation {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description ?? '',
+    trigger: row.trigger as AutomationTrigger,
+    actions: (row.actions ?? []) as AutomationAction[],
+    isActive: Boolean(row.is_active),
+    lastRun: row.last_run_at ?? null,
+    lastRunStatus: row.last_run_status ?? 'never',
+    lastRunError: row.last_run_error ?? null,
+    createdAt: row.created_at,
+  }
+}
+
+export function mapAutomationRunRow(row: any): AutomationRun {
+  return {
+    id: row.id,
+    automationId: row.automation_id,
+    source: row.source,
+    status: row.status,
+    error: row.error ?? null,
+    startedAt: row.started_at,
+    finishedAt: row.finished_at,
+    durationMs: Number(row.duration_ms ?? 0),
+    entity: row.entity ?? null,
+    recordIds: row.record_ids ?? [],
+    outcomes: row.outcomes ?? [],
+    rerunOf: row.rerun_of ?? null,
+  }
+}
+
+/*
+|--------------------------------------------------------------------------
+| Conditions & templates
+|--------------------------------------------------------------------------
+*/
+
+export function getFieldValue(record: Record<string, unknown>, path: string): unknown {
+  return path.split('.').reduce<unknown>((acc, key) => {
+    if (acc == null || typeof acc !== 'object') return undefined
+    return (acc as Record<string, unknown>)[key]
+  }, record)
+}
+
+function isEmptyValue(v: unknown) {
+  return v == null || (typeof v === 'string' && v.trim() === '') || (Array.isArray(v) && v.length === 0)
+}
+
+function toComparable(v: unknown): number | string {
+  if (typeof v === 'number') return v
+  if (typeof v === 'boolean') return v ? 1 : 0
+  const s = String(v ?? '')
+  const n = Number(s)
+  return s.trim() !== '' && !Number.isNaN(n) ? n : s
+}
+
+export function compareValues(
+  actual: unknown,
+  operator: AutomationCondition['operator'],
+  expected?: ConditionValue,
+): boolean {
+  switch (operator) {
+    case 'is_empty':
+      return isEmptyValue(actual)
+    case 'is_not_empty':
+      return !isEmptyValue(actual)
+    case 'contains':
+      return String(actual ?? '').toLowerCase().includes(String(expected ?? '').toLowerCase())
+    case 'eq':
+      return String(toComparable(actual)) === String(toComparable(expected))
+    case 'neq':
+      return String(toComparable(actual)) !== String(toComparable(expected))
+  }
+
+  if (isEmptyValue(actual)) return false
+  const a = toComparable(actual)
+  const b = toComparable(expected)
+  switch (operator) {
+    case 'gt':
+      return a > b
+    case 'gte':
+      return a >= b
+    case 'lt':
+      return a < b
+    case 'lte':
+      return a <= b
+  }
+}
+
+export function isConditionGroup(node: ConditionNode): node is ConditionGroup {
+  return 'combinator' in node && Array.isArray((node as ConditionGroup).rules)
+}
+
+/** Normalizes legacy flat lists (implicit AND) to a group. */
+export function toConditionGroup(conditions?: AutomationConditions | null): ConditionGroup {
+  if (!conditions) return { combinator: 'and', rules: [] }
+  return Array.isArray(conditions) ? { combinator: 'and', rules: conditions } : conditions
+}
+
+/** Left-hand value of a condition, applying `operand` arithmetic when present. */
+export function conditionSubject(record: Record<string, unknown>, c: AutomationCondition): unknown {
+  const base = getFieldValue(record, c.field)
+  if (!c.operand) return base
+  const other = getFieldValue(record, c.operand.field)
+  if (isEmptyValue(base) || isEmptyValue(other)) return null
+  const a = Number(base)
+  const b = Number(other)
+  if (Number.isNaN(a) || Number.isNaN(b)) return null
+  return c.operand.op === '+' ? a + b : a - b
+}
+
+function evaluateNode(record: Record<string, unknown>, node: ConditionNode): boolean {
+  if (!isConditionGroup(node)) return compareValues(conditionSubject(record, node), node.operator, node.value)
+  // Empty groups are neutral so a half-built block never blocks the whole trigger
+  if (node.rules.length === 0) return true
+  return node.combinator === 'or'
+    ? node.rules.some((r) => evaluateNode(record, r))
+    : node.rules.every((r) => evaluateNode(record, r))
+}
+
+/** Evaluates the condition tree. An empty tree always matches. */
+export function matchesConditions(
+  record: Record<string, unknown>,
+  conditions?: AutomationConditions | null,
+): boolean {
+  return evaluateNode(record, toConditionGroup(conditions))
+}
+
+/** Leaf conditions of the tree, depth-first (for validation). */
+export function flattenConditions(conditions?: AutomationConditions | null): AutomationCondition[] {
+  const out: AutomationCondition[] = []
+  const walk = (node: ConditionNode) => {
+    if (isConditionGroup(node)) node.rules.forEach(walk)
+    else out.push(node)
+  }
+  walk(toConditionGroup(conditions))
+  return out
+}
+
+/** Replaces `{{path}}` placeholders with values from the record (missing values render empty). */
+export function renderTemplate(template: string, record?: Record<string, unknown> | null): string {
+  return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_m, path: string) => {
+    if (!record) return ''
+    const v = getFieldValue(record, path)
+    return v == null ? '' : String(v)
+  })
+}
+
+/*
+|--------------------------------------------------------------------------
+| Cron schedules
+|--------------------------------------------------------------------------
+*/
+
+const CRON_RANGES: [number, number][] = [
+  [0, 59], // minute
+  [0, 23], // hour
+  [1, 31], // day of month
+  [1, 12], // month
+  [0, 7], // day of week (0 and 7 = Sunday)
+]
+
+function parseCronField(field: string, [min, max]: [number, number]): Set<number> {
+  const out = new Set<number>()
+  for (const part of field.split(',')) {
+    const [rangePart, stepPart] = part.split('/')
+    const step = stepPart ? Number(stepPart) : 1
+    let lo: number
+    let hi: number
+    if (rangePart === '*') {
+      lo = min
+      hi = max
+    } else if (rangePart.includes('-')) {
+      const [a, b] = rangePart.split('-').map(Number)
+      lo = a
+      hi = b
+    } else {
+      lo = Number(rangePart)
+      hi = stepPart ? max : lo
+    }
+    if ([lo, hi, step].some((n) => !Number.isInteger(n)) || step < 1 || lo < min || hi > max || lo > hi) {
+      throw new Error(`Invalid cron field "${field}"`)
+    }
+    for (let v = lo; v <= hi; v += step) out.add(v)
+  }
+  return out
+}
+
+/**
+ * Parses a 5-field cron expression. Throws on malformed input.
+ */
+export function parseCron(expr: string) {
+  const fields = expr.trim().split(/\s+/)
+  if (fields.length !== 5) throw new Error('Cron expression must have 5 fields')
+  const [minute, hour, dom, month, dow] = fields.map((f, i) => parseCronField(f, CRON_RANGES[i]))
+  if (dow.has(7)) dow.add(0)
+  return {
+    minute,
+    hour,
+    dom,
+    month,
+    dow,
+    domRestricted: fields[2] !== '*',
+    dowRestricted: fields[4] !== '*',
+  }
+}
+
+export function isValidCron(expr: string): boolean {
+  try {
+    parseCron(expr)
+    return true
+  } catch {
+    return false
+  }
+}
+
+function cronMatchesLocal(cron: ReturnType<typeof parseCron>, local: Date) {
+  if (!cron.minute.has(local.getMinutes())) return false
+  if (!cron.hour.has(local.getHours())) return false
+  if (!cron.month.has(local.getMonth() + 1)) return false
+  const domOk = cron.dom.has(local.getDate())
+  const dowOk = cron.dow.has(local.getDay())
+  // Standard cron: when both day fields are restricted, either may match
+  if (cron.domRestricted && cron.dowRestricted) return domOk || dowOk
+  return domOk && dowOk
+}
+
+/**
+ * True when the schedule had at least one tick in (since, now].
+ * Lookback is capped so a long-idle automation fires once, not once per missed tick.
+ */
+export function isScheduleDue(cronExpr: string, timezone: string, since: Date, now: Date): boolean {
+  const cron = parseCron(cronExpr)
+  const minuteMs = 60_000
+  const floorNow = Math.floor(now.getTime() / minuteMs) * minuteMs
+  const earliest = floorNow - MAX_SCHEDULE_LOOKBACK_MINUTES * minuteMs
+  let t = Math.max(Math.floor(since.getTime() / minuteMs) * minuteMs + minuteMs, earliest)
+
+  for (; t <= floorNow; t += minuteMs) {
+    if (cronMatchesLocal(cron, toZonedTime(new Date(t), timezone))) return true
+  }
+  return false
+}
+
+/*
+|--------------------------------------------------------------------------
+| Display
+|--------------------------------------------------------------------------
+*/
+
+const OPERATOR_SYMBOLS: Record<AutomationCondition['operator'], string> = {
+  eq: '=',
+  neq: '≠',
+  gt: '>',
+  gte: '≥',
+  lt: '<',
+  lte: '≤',
+  contains: 'contains',
+  is_empty: 'is empty',
+  is_not_empty: 'is not empty',
+}
+
+export function describeCondition(c: AutomationCondition): string {
+  const op = OPERATOR_SYMBOLS[c.operator]
+  const subject = c.operand ? `${c.field} ${c.operand.op} ${c.operand.field}` : c.field
+  if (c.operator === 'is_empty' || c.operator === 'is_not_empty') return `${subject} ${op}`
+  return `${subject} ${op} ${JSON.stringify(c.value ?? null)}`
+}
+
+/** Renders the tree as text, e.g. `status = "active" AND (a > 1 OR b is empty)`. Empty string when there are none. */
+export function describeConditions(conditions?: AutomationConditions | null): string {
+  const render = (node: ConditionNode, nested: boolean): string => {
+    if (!isConditionGroup(node)) return describeCondition(node)
+    const parts = node.rules.map((r) => render(r, true)).filter(Boolean)
+    if (parts.length === 0) return ''
+    const joined = parts.join(node.combinator === 'or' ? ' OR ' : ' AND ')
+    return nested && parts.length > 1 ? `(${joined})` : joined
+  }
+  return render(toConditionGroup(conditions), false)
+}
+
+/** One-line summary used by the list view and search. */
+export function describeTrigger(trigger: AutomationTrigger): string {
+  const where = describeConditions(trigger.conditions)
+  return where ? `${describeTriggerEvent(trigger)} where ${where}` : describeTriggerEvent(trigger)
+}
+
+function describeTriggerEvent(trigger: AutomationTrigger): string {
+  switch (trigger.type) {
+    case 'record_created':
+      return `On "${ENTITY_LABELS[trigger.entity]}" created`
+    case 'field_changed':
+      return trigger.to !== undefined
+        ? `On "${ENTITY_LABELS[trigger.entity]}" ${trigger.field} → ${String(trigger.to)}`
+        : `On "${ENTITY_LABELS[trigger.entity]}" ${trigger.field} change`
+    case 'scheduled':
+      return trigger.entity
+        ? `Cron ${trigger.cron} (${trigger.timezone}) over ${ENTITY_LABELS[trigger.entity]} records`
+        : `Cron ${trigger.cron} (${trigger.timezone})`
+    case 'threshold_crossed':
+      return `When ${ENTITY_LABELS[trigger.entity]} ${trigger.field} ${OPERATOR_SYMBOLS[trigger.operator]} ${trigger.value}`
+  }
+}
+
+/*
+|--------------------------------------------------------------------------
+| Action execution
+|--------------------------------------------------------------------------
+*/
+
+type ExecutionContext = {
+  supabase: SupabaseClient
+  userId: string
+  automation: Automation
+  /** User's timezone; due dates and note stamps are local to it */
+  tz: string
+  now: Date
+}
+
+/** Local date (YYYY-MM-DD) in `tz`, `days` after `now` */
+export function dueDateISO(now: Date, days: number, tz: string): string {
+  return formatInTimeZone(addDays(now, days), tz, 'yyyy-MM-dd')
+}
+
+function leadIdFor(entity: AutomationEntity | undefined, record: EntityRecord | null): string | null {
+  if (!record) return null
+  if (entity === 'lead') return record.id
+  const linked = getFieldValue(record, 'leadId')
+  return typeof linked === 'string' && linked ? linked : null
+}
+
+async function executeAction(
+  ctx: ExecutionContext,
+  action: AutomationAction,
+  entity: AutomationEntity | undefined,
+  record: EntityRecord | null,
+): Promise<string> {
+  const { supabase, userId, automation, tz, now } = ctx
+  const origin = `Created by automation "${automation.name}"`
+
+  switch (action.type) {
+    case 'create_agenda_task': {
+      // Agenda tasks are stored in UTC; all-day tasks start at midnight in the user's timezone
+      const dueISO = dueDateISO(now, action.dueInDays, tz)
+      const title = renderTemplate(action.title, record).trim() || automation.name
+      const { error } = await supabase.from('calendar_events').insert({
+        user_id: userId,
+        title,
+        start_ts: fromZonedTime(`${dueISO}T00:00:00`, tz).toISOString(),
+        end_ts: null,
+        kind: 'task',
+        category: action.category,
+        world: 'Business',
+        all_day: true,
+        status: 'pending',
+        notes: origin,
+      })
+      if (error) throw new Error(error.message)
+      return `Task "${title}" due ${dueISO}`
+    }
+
+    case 'create_budget_entry': {
+      const dueISO = dueDateISO(now, action.dueInDays, tz)
+      const description = renderTemplate(action.description, record).trim() || automation.name
+      const { error } = await supabase.from('budget_entries').insert({
+        user_id: userId,
+        type: action.entryType,
+        category: action.category,
+        description,
+        amount: action.amount,
+        due_date: dueISO,
+      })
+      if (error) throw new Error(error.message)
+      return `Budget ${action.entryType} "${description}" (${action.amount}) due ${dueISO}`
+    }
+
+    case 'add_crm_note': {
+      const leadId = leadIdFor(entity, record)
+      if (!leadId) throw new Error('No lead linked to the triggering record')
+
+      const { data: lead, error: fetchErr } = await supabase
+        .from('leads')
+        .select('notes')
+        .eq('id', leadId)
+        .single()
+      if (fetchErr) throw new Error(fetchErr.message)
+
+      const line = `[${formatInTimeZone(now, tz, 'yyyy-MM-dd HH:mm')}] ${renderTemplate(action.note, record).trim()}`
+      const notes = lead?.notes ? `${lead.notes}\n${line}` : line
+      const { error } = await supabase.from('leads').update({ notes }).eq('id', leadId)
+      if (error) throw new Error(error.message)
+      return `Note added to lead ${leadId}`
+    }
+
+    case 'send_message': {
+      const recipient = renderTemplate(action.to, record).trim()
+      if (!recipient) throw new Error(`No ${action.channel} recipient for "${action.to}"`)
+      const { error } = await supabase.from('automation_outbox').insert({
+        user_id: userId,
+        automation_id: automation.id,
+        record_id: record?.id ?? null,
+        channel: action.channel,
+        recipient,
+        subject: action.subject ? renderTemplate(action.subject, record) : null,
+        body: renderTemplate(action.body, record),
+        status: 'queued',
+      })
+      if (error) throw new Error(error.message)
+      return `Queued ${action.channel} to ${recipient}`
+    }
+  }
+}
+
+/**
+ * Describes what executeAction would do for a record without touching the database.
+ * Failures that can be detected up front (missing recipient, no linked lead) are reported as ok: false.
+ */
+export function planAction(
+  automation: Automation,
+  action: AutomationAction,
+  entity: AutomationEntity | undefined,
+  record: EntityRecord | null,
+  tz: string,
+  now: Date = new Date(),
+): AutomationActionOutcome {
+  const recordId = record?.id ?? null
+  const planned = (detail: string) => ({ type: action.type, ok: true, detail, recordId })
+  const blocked = (detail: string) => ({ type: action.type, ok: false, detail, recordId })
+
+  switch (action.type) {
+    case 'create_agenda_task': {
+      const dueISO = dueDateISO(now, action.dueInDays, tz)
+      const title = renderTemplate(action.title, record).trim() || automation.name
+      return planned(`Create task "${title}" due ${dueISO}`)
+    }
+
+    case 'create_budget_entry': {
+      const dueISO = dueDateISO(now, action.dueInDays, tz)
+      const description = renderTemplate(action.description, record).trim() || automation.name
+      return planned(`Create budget ${action.entryType} "${description}" (${action.amount}) due ${dueISO}`)
+    }
+
+    case 'add_crm_note': {
+      const leadId = leadIdFor(entity, record)
+      if (!leadId) return blocked('No lead linked to the triggering record')
+      return planned(`Add note to lead ${leadId}: "${renderTemplate(action.note, record).trim()}"`)
+    }
+
+    case 'send_message': {
+      const recipient = renderTemplate(action.to, record).trim()
+      if (!recipient) return blocked(`No ${action.channel} recipient for "${action.to}"`)
+      return planned(`Queue ${action.channel} to ${recipient}`)
+    }
+  }
+}
+
+/** One action for one record (null for record-less runs) */
+export type AutomationStep = { recordId: string | null; actionIndex: number }
+
+type ExecuteOptions = {
+  source: AutomationRunSource
+  now?: Date
+  /** automation_runs.id being re-executed */
+  rerunOf?: string | null
+  /** Run only these steps instead of every action for every record */
+  steps?: AutomationStep[]
+}
+
+/**
+ * Steps of a logged run that failed, so a re-run can retry just those and not repeat
+ * actions that already went through. Runs logged without action indexes are matched
+ * by position (record by record, action by action) as long as the action types still line up.
+ */
+export function failedRunSteps(run: AutomationRun, automation: Automation): AutomationStep[] {
+  const perRecord = automation.actions.length
+  return run.outcomes.flatMap((outcome, i) => {
+    if (outcome.ok) return []
+    const actionIndex = outcome.actionIndex ?? (perRecord > 0 ? i % perRecord : -1)
+    if (automation.actions[actionIndex]?.type !== outcome.type) return []
+    return [{ recordId: outcome.recordId, actionIndex }]
+  })
+}
+
+/**
+ * Executes every action of an automation (or only `steps`), once per record (or once with no record),
+ * logs the run to automation_runs and mirrors the outcome onto the automation row.
+ * Never throws: failures are captured in the returned result and the run log.
+ */
+export async function executeAutomation(
+  supabase: SupabaseClient,
+  userId: string,
+  automation: Automation,
+  records: EntityRecord[] | null,
+  { source, now = new Date(), rerunOf = null, steps }: ExecuteOptions,
+): Promise<AutomationRunResult> {
+  const started = Date.now()
+  const tz = await getUserTimezone(supabase, userId)
+  const ctx: ExecutionContext = { supabase, userId, automation, tz, now }
+  const entity = 'entity' in automation.trigger ? automation.trigger.entity : undefined
+  const targets: (EntityRecord | null)[] = records ?? [null]
+  const outcomes: AutomationActionOutcome[] = []
+  const errors: string[] = []
+
+  for (const record of targets) {
+    const recordId = record?.id ?? null
+    for (const [actionIndex, action] of automation.actions.entries()) {
+      if (steps && !steps.some((s) => s.recordId === recordId && s.actionIndex === actionIndex)) continue
+      try {
+        const detail = await executeAction(ctx, action, entity, record)
+        outcomes.push({ type: action.type, ok: true, detail, recordId, actionIndex })
+      } catch (e: any) {
+        const message = e?.message || 'Unknown error'
+        outcomes.push({ type: action.type, ok: false, detail: message, recordId, actionIndex })
+        errors.push(record ? `${record.id}: ${message}` : message)
+      }
+    }
+  }
+
+  const finished = Date.now()
+  const result: AutomationRunResult = {
+    runId: null,
+    status: errors.length > 0 ? 'error' : 'success',
+    error: errors.length > 0 ? errors.join('\n') : null,
+    startedAt: new Date(started).toISOString(),
+    finishedAt: new Date(finished).toISOString(),
+    durationMs: finished - started,
+    recordIds: records ? records.map((r) => r.id) : [],
+    outcomes,
+  }
+
+  const { data: run, error: logErr } = await supabase
+    .from('automation_runs')
+    .insert({
+      user_id: userId,
+      automation_id: automation.id,
+      source,
+      status: result.status,
+      error: result.error,
+      started_at: result.startedAt,
+      finished_at: result.finishedAt,
+      duration_ms: result.durationMs,
+      entity: entity ?? null,
+      record_ids: result.recordIds,
+      outcomes: result.outcomes,
+      rerun_of: rerunOf,
+    })
+    .select('id')
+    .single()
+  if (logErr) console.error('Error logging automation run:', logErr.message)
+  else result.runId = run.id
+
+  const { error: updErr } = await supabase
+    .from('automations')
+    .update({
+      last_run_at: result.finishedAt,
+      last_run_status: result.status,
+      last_run_error: result.error,
+    })
+    .eq('id', automation.id)
+    .eq('user_id', userId)
+  if (updErr) console.error('Error recording automation run:', updErr.message)
+
+  return result
+}
+
+/*
+|--------------------------------------------------------------------------
+| Dispatch (record triggers)
+|--------------------------------------------------------------------------
+*/
+
+function eventMatches(
+  trigger: AutomationTrigger,
+  event: AutomationEvent,
+  record: EntityRecord,
+): boolean {
+  if (trigger.type === 'record_created') {
+    return event.kind === 'created' && trigger.entity === event.entity && matchesConditions(record, trigger.conditions)
+  }
+  if (trigger.type === 'field_changed') {
+    if (event.kind !== 'updated' || trigger.entity !== event.entity || !event.previous) return false
+    const before = getFieldValue(event.previous, trigger.field)
+    const after = getFieldValue(record, trigger.field)
+    if (String(before ?? '') === String(after ?? '')) return false
+    if (trigger.to !== undefined && !compareValues(after, 'eq', trigger.to)) return false
+    return matchesConditions(record, trigger.conditions)
+  }
+  return false
+}
+
+/**
+ * Runs active record-triggered automations for a write that just happened.
+ * Called from module server actions after a successful insert/update; never throws,
+ * so an automation failure cannot fail the user's save.
+ */
+export async function dispatchAutomationEvent(
+  supabase: SupabaseClient,
+  event: AutomationEvent,
+): Promise<void> {
+  try {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+    if (!user) return
+
+    const { data, error } = await supabase
+      .from('automations')
+      .select('*')
+      .eq('user_id', user.id)
+      .eq('is_active', true)
+      .in('trigger->>type', ['record_created', 'field_changed'])
+      .eq('trigger->>entity', event.entity)
+    if (error) throw new Error(error.message)
+    if (!data || data.length === 0) return
+
+    const record = await fetchAutomationRecord(supabase, event.entity, event.recordId)
+    if (!record) return
+
+    for (const automation of data.map(mapAutomationRow)) {
+      if (eventMatches(automation.trigger, event, record)) {
+        await executeAutomation(supabase, user.id, automation, [record], { source: 'event' })
+      }
+    }
+  } catch (e: any) {
+    console.error(`Automation dispatch failed for ${event.entity} ${event.recordId}:`, e?.message)
+  }
+}
+
+/*
+|--------------------------------------------------------------------------
+| Sweep (scheduled + threshold triggers)
+|--------------------------------------------------------------------------
+*/
+
+function thresholdHolds(trigger: Extract<AutomationTrigger, { type: 'threshold_crossed' }>, record: EntityRecord) {
+  return (
+    compareValues(getFieldValue(record, trigger.field), trigger.operator, trigger.value) &&
+    matchesConditions(record, trigger.conditions)
+  )
+}
+
+/**
+ * Whether a record currently satisfies a trigger's static filters
+ * (conditions, threshold, target value). Used for manual runs.
+ */
+export function recordSatisfiesTrigger(trigger: AutomationTrigger, record: EntityRecord): boolean {
+  if (trigger.type === 'threshold_crossed') return thresholdHolds(trigger, record)
+  if (trigger.type === 'field_changed' && trigger.to !== undefined) {
+    if (!compareValues(getFieldValue(record, trigger.field), 'eq', trigger.to)) return false
+  }
+  return matchesConditions(record, trigger.conditions)
+}
+
+/**
+ * Evaluates one scheduled/threshold automation at `now`.
+ * - scheduled: runs when a cron tick fell since the last run (or creation)
+ * - threshold_crossed: runs for records that newly satisfy the threshold; the set of
+ *   records currently past the threshold is kept in `threshold_state` so each record
+ *   fires once per crossing rather than on every sweep.
+ * Returns null when nothing was due.
+ */
+export async function sweepAutomation(
+  supabase: SupabaseClient,
+  userId: string,
+  automation: Automation,
+  now: Date = new Date(),
+  thresholdState: string[] = [],
+): Promise<AutomationRunResult | null> {
+  const trigger = automation.trigger
+
+  if (trigger.type === 'scheduled') {
+    const since = new Date(automation.lastRun ?? automation.createdAt ?? now.toISOString())
+    if (!isScheduleDue(trigger.cron, trigger.timezone, since, now)) return null
+    if (!trigger.entity) {
+      return executeAutomation(supabase, userId, automation, null, { source: 'schedule', now })
+    }
+
+    const records = (await loadEntityRecords(supabase, trigger.entity, userId)).filter((r) =>
+      matchesConditions(r, trigger.conditions),
+    )
+    return executeAutomation(supabase, userId, automation, records, { source: 'schedule', now })
+  }
+
+  if (trigger.type === 'threshold_crossed') {
+    const records = await loadEntityRecords(supabase, trigger.entity, userId)
+    const matched = records.filter((r) => thresholdHolds(trigger, r))
+    const previously = new Set(thresholdState)
+    const crossed = matched.filter((r) => !previously.has(r.id))
+
+    const { error } = await supabase
+      .from('automations')
+      .update({ threshold_state: matched.map((r) => r.id) })
+      .eq('id', automation.id)
+      .eq('user_id', userId)
+    if (error) throw new Error(error.message)
+
+    if (crossed.length === 0) return null
+    return executeAutomation(supabase, userId, automation, crossed, { source: 'threshold', now })
+  }
+
+  return null
+}
+
+/**
+ * Dry run: evaluates the automation against current data and returns the records
+ * it would act on and the actions it would take. Only reads; nothing is written,
+ * logged, or marked as run.
+ */
+export async function dryRunAutomation(
+  supabase: SupabaseClient,
+  userId: string,
+  automation: Automation,
+  thresholdState: string[] = [],
+  now: Date = new Date(),
+): Promise<AutomationSimulation> {
+  const trigger = automation.trigger
+  const entity = 'entity' in trigger ? trigger.entity : undefined
+  const tz = await getUserTimezone(supabase, userId)
+  const plan = (record: EntityRecord | null) =>
+    automation.actions.map((a) => planAction(automation, a, entity, record, tz, now))
+
+  if (!entity) {
+    return {
+      evaluatedAt: now.toISOString(),
+      entity: null,
+      scanned: 0,
+      matches: [{ recordId: null, label: 'Scheduled run', actions: plan(null) }],
+    }
+  }
+
+  const records = await loadEntityRecords(supabase, entity, userId)
+  const notified = new Set(trigger.type === 'threshold_crossed' ? thresholdState : [])
+
+  return {
+    evaluatedAt: now.toISOString(),
+    entity,
+    scanned: records.length,
+    matches: records
+      .filter((r) => recordSatisfiesTrigger(trigger, r))
+      .map((r) => ({
+        recordId: r.id,
+        label: recordLabel(entity, r),
+        actions: plan(r),
+        note: notified.has(r.id)
+          ? 'Already past the threshold; it fires again only after recovering and crossing again.'
+          : undefined,
+      })),
+  }
+}
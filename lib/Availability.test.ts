@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { describeConflicts, findConflicts, findNextFreeSlot, findReminders } from '@/lib/Availability';
+import type { BusyBlock } from '@/lib/types';
+
+/* =========================
+   FIXTURES
+   ========================= */
+
+const NY = 'America/New_York';
+
+function block(id: string, start_ts: string, end_ts: string | null, fields: Partial<BusyBlock> = {}): BusyBlock {
+  return { source: 'agenda', id, title: id, start_ts, end_ts, all_day: false, ...fields };
+}
+
+// Monday 2025-03-03; NY is UTC-5 (09:00 local = 14:00Z)
+const busy: BusyBlock[] = [
+  block('standup', '2025-03-03T14:00:00.000Z', '2025-03-03T14:30:00.000Z'),
+  block('class', '2025-03-03T15:00:00.000Z', '2025-03-03T16:00:00.000Z', { source: 'class' }),
+  block('dentist', '2025-03-03T17:00:00.000Z', null),
+  block('visa', '2025-03-03T05:00:00.000Z', '2025-03-04T05:00:00.000Z', { source: 'immigration', all_day: true }),
+];
+
+/* =========================
+   CONFLICTS
+   ========================= */
+
+describe('findConflicts', () => {
+  it('finds timed overlaps across sources', () => {
+    const out = findConflicts(busy, { start_ts: '2025-03-03T14:15:00.000Z', end_ts: '2025-03-03T15:15:00.000Z' });
+    expect(out.map((b) => b.id)).toEqual(['standup', 'class']);
+  });
+
+  it('treats back-to-back bookings as free and open-ended blocks as one hour', () => {
+    expect(findConflicts(busy, { start_ts: '2025-03-03T16:00:00.000Z', end_ts: '2025-03-03T17:00:00.000Z' })).toEqual([]);
+    expect(findConflicts(busy, { start_ts: '2025-03-03T17:30:00.000Z', end_ts: null }).map((b) => b.id)).toEqual(['dentist']);
+  });
+
+  it('skips the item being edited', () => {
+    const out = findConflicts(busy, { start_ts: '2025-03-03T15:00:00.000Z', end_ts: '2025-03-03T16:00:00.000Z' }, { source: 'class', id: 'class' });
+    expect(out).toEqual([]);
+  });
+
+  it('agrees with findNextFreeSlot: the slot it returns has no conflicts', () => {
+    const slot = findNextFreeSlot({ busy, fromISO: '2025-03-03T13:00:00.000Z', timezone: NY })!;
+    expect(findConflicts(busy, slot)).toEqual([]);
+  });
+
+  it('reports all-day markers apart, as reminders', () => {
+    const slot = { start_ts: '2025-03-03T16:00:00.000Z', end_ts: '2025-03-03T17:00:00.000Z' };
+    expect(findReminders(busy, slot).map((b) => b.id)).toEqual(['visa']);
+    expect(findReminders(busy, { start_ts: '2025-03-04T14:00:00.000Z', end_ts: '2025-03-04T15:00:00.000Z' })).toEqual([]);
+  });
+
+  it('summarizes conflicts for toasts', () => {
+    expect(describeConflicts(busy.slice(0, 1))).toBe('standup');
+    expect(describeConflicts(busy)).toBe('standup, class and 2 more');
+  });
+});
+
+/* =========================
+   FREE SLOTS
+   ========================= */
+
+describe('findNextFreeSlot', () => {
+  it('returns the first gap long enough, ignoring all-day markers', () => {
+    const slot = findNextFreeSlot({ busy, fromISO: '2025-03-03T13:00:00.000Z', timezone: NY });
+    // 09:30–10:00 is too short; 11:00–12:00 is free
+    expect(slot).toEqual({ start_ts: '2025-03-03T16:00:00.000Z', end_ts: '2025-03-03T17:00:00.000Z' });
+  });
+
+  it('rounds the start up to the step and honours the duration', () => {
+    const slot = findNextFreeSlot({ busy, fromISO: '2025-03-03T18:07:00.000Z', timezone: NY, duration_minutes: 90 });
+    expect(slot).toEqual({ start_ts: '2025-03-03T18:15:00.000Z', end_ts: '2025-03-03T19:45:00.000Z' });
+  });
+
+  it('skips to the next working day after hours and over weekends', () => {
+    // Friday 17:30 local: nothing fits before 18:00, so Monday 09:00
+    const slot = findNextFreeSlot({ busy: [], fromISO: '2025-03-07T22:30:00.000Z', timezone: NY });
+    expect(slot?.start_ts).toBe('2025-03-10T13:00:00.000Z'); // EDT from Mar 9
+  });
+
+  it('returns null when nothing fits in the search window', () => {
+    const offsite = [block('offsite', '2025-03-03T14:00:00.000Z', '2025-03-03T23:00:00.000Z')];
+    expect(findNextFreeSlot({ busy: offsite, fromISO: '2025-03-03T13:00:00.000Z', timezone: NY, search_days: 1 })).toBeNull();
+  });
+});
@@ -0,0 +1,147 @@
+// lib/Availability.ts
+// Availability across the agenda, class sessions and immigration due dates:
+// conflict detection for a proposed time (all-day blocks are reported apart, as
+// reminders) and a "next free slot" search within working hours. Pure functions only; persistence lives in app/(app)/agenda/actions.ts.
+
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+import type { BusyBlock, FreeSlot, WorkingHours } from '@/lib/types';
+
+/** Mon–Fri, 9:00–18:00 in the user's timezone */
+export const DEFAULT_WORKING_HOURS: WorkingHours = { days: [1, 2, 3, 4, 5], start: '09:00', end: '18:00' };
+
+/** Length assumed for timed blocks without an end (agenda events saved with a start only) */
+export const DEFAULT_BLOCK_MINUTES = 60;
+
+/** How far ahead findNextFreeSlot looks before giving up */
+export const SLOT_SEARCH_DAYS = 14;
+
+const MINUTE_MS = 60_000;
+const DAY_MS = 86_400_000;
+
+/* =========================
+   INTERVALS
+   ========================= */
+
+/** [start, end) of a block in epoch ms */
+export function blockRange(block: Pick<BusyBlock, 'start_ts' | 'end_ts' | 'all_day'>): [number, number] {
+  const start = Date.parse(block.start_ts);
+  const end = block.end_ts ? Date.parse(block.end_ts) : start + (block.all_day ? DAY_MS : DEFAULT_BLOCK_MINUTES * MINUTE_MS);
+  return [start, Math.max(end, start + 1)];
+}
+
+function overlapping(
+  busy: BusyBlock[],
+  proposed: { start_ts: string; end_ts: string | null; all_day?: boolean },
+  ignore: Pick<BusyBlock, 'source' | 'id'> | null | undefined
+): BusyBlock[] {
+  const [start, end] = blockRange({ start_ts: proposed.start_ts, end_ts: proposed.end_ts, all_day: !!proposed.all_day });
+  return busy
+    .filter((b) => !(ignore && b.source === ignore.source && b.id === ignore.id))
+    .filter((b) => {
+      const [bStart, bEnd] = blockRange(b);
+      return bStart < end && bEnd > start;
+    })
+    .sort((a, b) => Date.parse(a.start_ts) - Date.parse(b.start_ts));
+}
+
+/**
+ * Timed blocks overlapping the proposed [start_ts, end_ts). Back-to-back bookings do
+ * not conflict, and all-day blocks are reminders rather than busy time (as in
+ * findNextFreeSlot), so they are left to findReminders. `ignore` skips the item
+ * being edited (same source and id).
+ */
+export function findConflicts(
+  busy: BusyBlock[],
+  proposed: { start_ts: string; end_ts: string | null; all_day?: boolean },
+  ignore?: Pick<BusyBlock, 'source' | 'id'> | null
+): BusyBlock[] {
+  return overlapping(busy.filter((b) => !b.all_day), proposed, ignore);
+}
+
+/** All-day blocks (e.g. immigration due dates) falling on the proposed time, shown for information only */
+export function findReminders(
+  busy: BusyBlock[],
+  proposed: { start_ts: string; end_ts: string | null; all_day?: boolean },
+  ignore?: Pick<BusyBlock, 'source' | 'id'> | null
+): BusyBlock[] {
+  return overlapping(busy.filter((b) => b.all_day), proposed, ignore);
+}
+
+/* =========================
+   FREE SLOTS
+   ========================= */
+
+function addDaysYMD(ymd: string, days: number): string {
+  const [y, m, d] = ymd.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d + days)).toISOString().slice(0, 10);
+}
+
+function weekdayOf(ymd: string): number {
+  const [y, m, d] = ymd.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d)).getUTCDay();
+}
+
+/**
+ * First free `duration_minutes` window at or after `fromISO` that fits inside the
+ * working hours of a day (in `timezone`) and overlaps no timed busy block. Start
+ * times are rounded up to `step_minutes`. All-day blocks are reminders, not busy
+ * time, so they never block a slot. Returns null when nothing fits within `search_days`.
+ */
+export function findNextFreeSlot(args: {
+  busy: BusyBlock[];
+  fromISO: string;
+  timezone: string;
+  duration_minutes?: number;
+  hours?: WorkingHours;
+  search_days?: number;
+  step_minutes?: number;
+}): FreeSlot | null {
+  const {
+    busy,
+    fromISO,
+    timezone,
+    duration_minutes = DEFAULT_BLOCK_MINUTES,
+    hours = DEFAULT_WORKING_HOURS,
+    search_days = SLOT_SEARCH_DAYS,
+    step_minutes = 15,
+  } = args;
+  const duration = duration_minutes * MINUTE_MS;
+  const step = step_minutes * MINUTE_MS;
+  const roundUp = (t: number) => Math.ceil(t / step) * step;
+
+  const timed = busy
+    .filter((b) => !b.all_day)
+    .map(blockRange)
+    .sort((a, b) => a[0] - b[0]);
+
+  const from = Date.parse(fromISO);
+  const firstDay = formatInTimeZone(new Date(from), timezone, 'yyyy-MM-dd');
+
+  for (let i = 0; i < search_days; i++) {
+    const day = addDaysYMD(firstDay, i);
+    if (!hours.days.includes(weekdayOf(day))) continue;
+
+    const windowStart = fromZonedTime(`${day}T${hours.start}:00`, timezone).getTime();
+    const windowEnd = fromZonedTime(`${day}T${hours.end}:00`, timezone).getTime();
+    let cursor = roundUp(Math.max(from, windowStart));
+
+    for (const [bStart, bEnd] of timed) {
+      if (cursor + duration > windowEnd) break;
+      if (bEnd <= cursor) continue;
+      if (bStart >= cursor + duration) break; // Fits before this block
+      cursor = roundUp(bEnd);
+    }
+
+    if (cursor + duration <= windowEnd) {
+      return { start_ts: new Date(cursor).toISOString(), end_ts: new Date(cursor + duration).toISOString() };
+    }
+  }
+  return null;
+}
+
+/** One-line summary for toasts, e.g. "Dentist, Class with Ana and 2 more" */
+export function describeConflicts(conflicts: BusyBlock[], max = 2): string {
+  const titles = conflicts.slice(0, max).map((c) => c.title);
+  const rest = conflicts.length - titles.length;
+  return rest > 0 ? `${titles.join(', ')} and ${rest} more` : titles.join(', ');
+}
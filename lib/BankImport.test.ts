@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest';
+import { matchTransactions, parseBankCsv, parseBankStatement, parseOfx } from '@/lib/BankImport';
+import type { BankTransaction, UnifiedRow } from '@/lib/types';
+
+/* =========================
+   FIXTURES
+   ========================= */
+
+function row(fields: Partial<UnifiedRow> = {}): UnifiedRow {
+  const date = fields.effective_date ?? '2025-03-05';
+  return {
+    id: 'rule-1',
+    kind: 'recurring',
+    type: 'expense',
+    category: 'bill',
+    description: 'Electric bill',
+    amount: 50,
+    effective_date: date,
+    is_paid: false,
+    rule_id: 'rule-1',
+    occurrence_date: date,
+    occurrence_id: `rule-1_${date}`,
+    due_date: date,
+    date,
+    ...fields,
+  };
+}
+
+function txn(fields: Partial<BankTransaction> = {}): BankTransaction {
+  return { external_id: 'ofx-1', date: '2025-03-05', amount: -50, description: 'CITY ELECTRIC CO', ...fields };
+}
+
+const OFX = `OFXHEADER:100
+<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><BANKTRANLIST>
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20250305120000[-5:EST]
+<TRNAMT>-15.99
+<FITID>20250305001
+<NAME>NETFLIX.COM
+<MEMO>Monthly plan
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>CREDIT
+<DTPOSTED>20250307
+<TRNAMT>2500.00
+<FITID>20250307001
+<NAME>ACME PAYROLL
+</STMTTRN>
+</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>`;
+
+/* =========================
+   PARSING
+   ========================= */
+
+describe('parseBankCsv', () => {
+  it('keeps a semicolon inside an unquoted description of a comma export', () => {
+    const txns = parseBankCsv('Date,Description,Amount\n2025-03-05,Rent; March,-1200.00\n');
+    expect(txns).toEqual([expect.objectContaining({ date: '2025-03-05', description: 'Rent; March', amount: -1200 })]);
+  });
+
+  it('reads semicolon-delimited exports', () => {
+    const txns = parseBankCsv('Date;Description;Amount\n05.03.2025;"Grocer, Main St";-42.10\n06.03.2025;Salary;2500\n');
+    expect(txns.map((t) => [t.date, t.description, t.amount])).toEqual([
+      ['2025-03-05', 'Grocer, Main St', -42.1],
+      ['2025-03-06', 'Salary', 2500],
+    ]);
+  });
+
+  it('signs debit/credit columns', () => {
+    const txns = parseBankCsv('Posted Date,Payee,Debit,Credit\n03/05/2025,Water,30.00,\n03/06/2025,Refund,,12.50\n');
+    expect(txns.map((t) => t.amount)).toEqual([-30, 12.5]);
+  });
+
+  it('keeps identical lines apart with a sequence suffix', () => {
+    const txns = parseBankCsv('Date,Description,Amount\n2025-03-05,Coffee,-4.00\n2025-03-05,Coffee,-4.00\n');
+    expect(txns).toHaveLength(2);
+    expect(txns[1].external_id).toBe(`${txns[0].external_id}-1`);
+  });
+
+  it('rejects a file without the required columns', () => {
+    expect(() => parseBankCsv('When,What\n2025-03-05,Coffee\n')).toThrow(/Unrecognized CSV/);
+  });
+});
+
+describe('parseOfx', () => {
+  it('reads SGML transactions', () => {
+    expect(parseOfx(OFX)).toEqual([
+      { external_id: 'ofx-20250305001', date: '2025-03-05', amount: -15.99, description: 'NETFLIX.COM Monthly plan' },
+      { external_id: 'ofx-20250307001', date: '2025-03-07', amount: 2500, description: 'ACME PAYROLL' },
+    ]);
+  });
+
+  it('is picked for OFX content whatever the file name', () => {
+    expect(parseBankStatement('statement.txt', OFX)).toHaveLength(2);
+  });
+});
+
+/* =========================
+   MATCHING
+   ========================= */
+
+describe('matchTransactions', () => {
+  it('matches on amount, direction, date window and description', () => {
+    const { matches, unmatched } = matchTransactions([txn({ date: '2025-03-07' })], [row()]);
+    expect(matches).toHaveLength(1);
+    expect(matches[0].row.id).toBe('rule-1');
+    expect(unmatched).toEqual([]);
+  });
+
+  it('leaves a same-amount transaction with an unrelated description for review', () => {
+    const { matches, unmatched } = matchTransactions([txn({ description: 'GYM MEMBERSHIP' })], [row()]);
+    expect(matches).toEqual([]);
+    expect(unmatched).toHaveLength(1);
+  });
+
+  it('pays two same-amount bills in one week to the right payees', () => {
+    const rows = [
+      row({ id: 'rule-1', description: 'Electric bill', effective_date: '2025-03-05' }),
+      row({ id: 'rule-2', description: 'Internet', effective_date: '2025-03-07' }),
+    ];
+    const txns = [
+      txn({ external_id: 'a', date: '2025-03-07', description: 'CITY ELECTRIC CO' }),
+      txn({ external_id: 'b', date: '2025-03-05', description: 'FASTNET INTERNET' }),
+    ];
+    const { matches } = matchTransactions(txns, rows);
+    expect(matches.map((m) => [m.transaction.external_id, m.row.id]).sort()).toEqual([
+      ['a', 'rule-1'],
+      ['b', 'rule-2'],
+    ]);
+  });
+
+  it('uses each row once, closest date first', () => {
+    const txns = [txn({ external_id: 'far', date: '2025-03-09' }), txn({ external_id: 'near', date: '2025-03-05' })];
+    const { matches, unmatched } = matchTransactions(txns, [row()]);
+    expect(matches.map((m) => m.transaction.external_id)).toEqual(['near']);
+    expect(unmatched.map((t) => t.external_id)).toEqual(['far']);
+  });
+
+  it('ignores paid rows, other directions and dates outside the window', () => {
+    const rows = [row({ is_paid: true }), row({ id: 'inc', type: 'income' }), row({ id: 'late', effective_date: '2025-03-20' })];
+    expect(matchTransactions([txn()], rows).matches).toEqual([]);
+  });
+});
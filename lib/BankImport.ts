@@ -0,0 +1,282 @@
+// lib/BankImport.ts
+// Bank statement parsing (CSV / OFX) and auto-matching of transactions to unpaid budget rows.
+// Pure functions only; persistence lives in app/(app)/budget/actions.ts.
+
+import { differenceInCalendarDays, format, isValid, parse, parseISO } from 'date-fns';
+import type { BankTransaction, UnifiedRow } from '@/lib/types';
+
+/** Days a transaction may post before/after a row's effective date and still match */
+export const MATCH_DAY_WINDOW = 5;
+
+/** Description overlap a same-amount pair needs to be applied without review */
+export const MIN_DESCRIPTION_SIMILARITY = 0.5;
+
+/* =========================
+   PARSING
+   ========================= */
+
+function hashId(parts: string[]) {
+  // djb2 over the joined parts; stable across imports of the same statement
+  let h = 5381;
+  const str = parts.join('|');
+  for (let i = 0; i < str.length; i++) h = ((h << 5) + h + str.charCodeAt(i)) | 0;
+  return `csv-${(h >>> 0).toString(36)}`;
+}
+
+function parseAmount(raw: string | undefined): number | null {
+  if (raw == null) return null;
+  let s = raw.trim();
+  if (!s) return null;
+  // "(12.50)" is a negative amount in many exports
+  const negative = /^\(.*\)$/.test(s) || s.startsWith('-') || s.endsWith('-');
+  s = s.replace(/[()$€£\s,+-]/g, '');
+  const n = Number(s);
+  if (!Number.isFinite(n)) return null;
+  return negative ? -n : n;
+}
+
+const DATE_FORMATS = ['yyyy-MM-dd', 'MM/dd/yyyy', 'M/d/yyyy', 'MM/dd/yy', 'M/d/yy', 'yyyyMMdd', 'dd.MM.yyyy'];
+
+function parseDate(raw: string | undefined): string | null {
+  if (!raw) return null;
+  const s = raw.trim();
+  for (const f of DATE_FORMATS) {
+    const d = parse(s, f, new Date(2000, 0, 1));
+    if (isValid(d) && d.getFullYear() > 1900) return format(d, 'yyyy-MM-dd');
+  }
+  const iso = parseISO(s);
+  return isValid(iso) ? format(iso, 'yyyy-MM-dd') : null;
+}
+
+/** Field delimiter of a CSV export: whichever of `,` / `;` the header row uses more (outside quotes) */
+function detectDelimiter(text: string): ',' | ';' {
+  let commas = 0;
+  let semicolons = 0;
+  let quoted = false;
+  for (const c of text) {
+    if (c === '"') quoted = !quoted;
+    else if (!quoted && (c === '\n' || c === '\r')) break;
+    else if (!quoted && c === ',') commas++;
+    else if (!quoted && c === ';') semicolons++;
+  }
+  return semicolons > commas ? ';' : ',';
+}
+
+/** Splits CSV text into rows, honoring quoted fields with embedded delimiters/quotes/newlines */
+function splitCsv(text: string, delimiter: ',' | ';' = detectDelimiter(text)): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      if (row.some((f) => f.trim() !== '')) rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += c;
+    }
+  }
+  row.push(field);
+  if (row.some((f) => f.trim() !== '')) rows.push(row);
+  return rows;
+}
+
+function findColumn(header: string[], candidates: string[]) {
+  return header.findIndex((h) => candidates.includes(h));
+}
+
+/**
+ * Parses a bank CSV export. Needs a header row with a date column, a
+ * description column and either a signed amount column or debit/credit columns.
+ */
+export function parseBankCsv(text: string): BankTransaction[] {
+  const rows = splitCsv(text.replace(/^\uFEFF/, ''));
+  if (rows.length < 2) return [];
+
+  const header = rows[0].map((h) => h.trim().toLowerCase());
+  const dateCol = findColumn(header, ['date', 'posted date', 'posting date', 'transaction date', 'trans. date']);
+  const descCol = findColumn(header, ['description', 'payee', 'name', 'memo', 'details', 'transaction']);
+  const amountCol = findColumn(header, ['amount', 'transaction amount']);
+  const debitCol = findColumn(header, ['debit', 'withdrawal', 'withdrawals', 'money out']);
+  const creditCol = findColumn(header, ['credit', 'deposit', 'deposits', 'money in']);
+
+  if (dateCol < 0 || descCol < 0 || (amountCol < 0 && debitCol < 0 && creditCol < 0)) {
+    throw new Error('Unrecognized CSV: expected Date, Description and Amount (or Debit/Credit) columns.');
+  }
+
+  const out: BankTransaction[] = [];
+  const seen = new Map<string, number>();
+
+  for (const row of rows.slice(1)) {
+    const date = parseDate(row[dateCol]);
+    if (!date) continue;
+
+    let amount: number | null;
+    if (amountCol >= 0) {
+      amount = parseAmount(row[amountCol]);
+    } else {
+      const debit = parseAmount(row[debitCol]);
+      const credit = parseAmount(row[creditCol]);
+      amount = credit ? Math.abs(credit) : debit ? -Math.abs(debit) : null;
+    }
+    if (amount == null || amount === 0) continue;
+
+    const description = String(row[descCol] ?? '').trim().replace(/\s+/g, ' ');
+    // Identical lines on the same day get a sequence so both survive de-duplication
+    const base = hashId([date, amount.toFixed(2), description.toLowerCase()]);
+    const n = seen.get(base) ?? 0;
+    seen.set(base, n + 1);
+
+    out.push({ external_id: n ? `${base}-${n}` : base, date, amount, description });
+  }
+  return out;
+}
+
+function ofxTag(block: string, tag: string) {
+  // SGML OFX leaves tags unclosed, so read up to the next tag or line break
+  const m = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return m ? m[1].trim() : undefined;
+}
+
+/** Parses OFX/QFX (SGML or XML flavored) statement transactions */
+export function parseOfx(text: string): BankTransaction[] {
+  const blocks = text.split(/<STMTTRN>/i).slice(1);
+  const out: BankTransaction[] = [];
+
+  for (const raw of blocks) {
+    const block = raw.split(/<\/STMTTRN>/i)[0];
+    const date = parseDate(ofxTag(block, 'DTPOSTED')?.slice(0, 8));
+    const amount = parseAmount(ofxTag(block, 'TRNAMT'));
+    if (!date || amount == null || amount === 0) continue;
+
+    const name = ofxTag(block, 'NAME') ?? '';
+    const memo = ofxTag(block, 'MEMO') ?? '';
+    const description = (name && memo && !memo.includes(name) ? `${name} ${memo}` : name || memo).replace(/\s+/g, ' ');
+    const fitid = ofxTag(block, 'FITID');
+
+    out.push({
+      external_id: fitid ? `ofx-${fitid}` : hashId([date, amount.toFixed(2), description.toLowerCase()]),
+      date,
+      amount,
+      description,
+    });
+  }
+  return out;
+}
+
+/** Picks the parser from the file extension, falling back to sniffing the content */
+export function parseBankStatement(fileName: string, text: string): BankTransaction[] {
+  const ext = fileName.toLowerCase().split('.').pop();
+  if (ext === 'ofx' || ext === 'qfx' || /<OFX>/i.test(text)) return parseOfx(text);
+  return parseBankCsv(text);
+}
+
+/* =========================
+   MATCHING
+   ========================= */
+
+const STOP_WORDS = new Set(['the', 'and', 'pos', 'ach', 'debit', 'credit', 'purchase', 'payment', 'card', 'online']);
+
+function tokens(s: string) {
+  return new Set(
+    s
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter((t) => t.length > 2 && !STOP_WORDS.has(t) && !/^\d+$/.test(t))
+  );
+}
+
+/** Token overlap (0–1) between a bank description and a budget row description */
+export function descriptionSimilarity(a: string, b: string) {
+  const ta = tokens(a);
+  const tb = tokens(b);
+  if (ta.size === 0 || tb.size === 0) return 0;
+  let shared = 0;
+  for (const t of ta) {
+    // Prefix match covers bank truncation ("NETFLIX.COM" vs "Netflix subscription")
+    for (const u of tb) {
+      if (t === u || t.startsWith(u) || u.startsWith(t)) {
+        shared++;
+        break;
+      }
+    }
+  }
+  return Math.min(1, shared / Math.min(ta.size, tb.size));
+}
+
+export type TransactionMatch = {
+  transaction: BankTransaction;
+  row: UnifiedRow;
+  score: number;
+};
+
+/**
+ * Matches transactions to unpaid rows. A candidate needs the same direction
+ * (withdrawal ↔ expense, deposit ↔ income), the same amount to the cent, an
+ * effective date within MATCH_DAY_WINDOW days and a description similarity of
+ * at least MIN_DESCRIPTION_SIMILARITY, so two same-amount bills in one week are
+ * not paid for the wrong payee; weaker pairs stay unmatched for review. Among
+ * candidates the score weighs date proximity and description similarity
+ * equally. Pairs are taken best-first so each row and each transaction is used
+ * at most once.
+ */
+export function matchTransactions(
+  transactions: BankTransaction[],
+  rows: UnifiedRow[],
+  dayWindow: number = MATCH_DAY_WINDOW
+): { matches: TransactionMatch[]; unmatched: BankTransaction[] } {
+  const candidates: { t: number; r: number; score: number }[] = [];
+  const unpaid = rows.filter((r) => !r.is_paid);
+
+  transactions.forEach((txn, t) => {
+    const type = txn.amount < 0 ? 'expense' : 'income';
+    const cents = Math.round(Math.abs(txn.amount) * 100);
+    const txnDate = parseISO(txn.date);
+
+    unpaid.forEach((row, r) => {
+      if (row.type !== type) return;
+      if (Math.round(Math.abs(Number(row.amount ?? 0)) * 100) !== cents) return;
+      const days = Math.abs(differenceInCalendarDays(txnDate, parseISO(row.effective_date)));
+      if (days > dayWindow) return;
+
+      const similarity = descriptionSimilarity(txn.description, row.description);
+      if (similarity < MIN_DESCRIPTION_SIMILARITY) return;
+
+      const proximity = 1 - days / (dayWindow + 1);
+      candidates.push({ t, r, score: proximity * 0.5 + similarity * 0.5 });
+    });
+  });
+
+  candidates.sort((a, b) => b.score - a.score);
+
+  const usedTxn = new Set<number>();
+  const usedRow = new Set<number>();
+  const matches: TransactionMatch[] = [];
+  for (const c of candidates) {
+    if (usedTxn.has(c.t) || usedRow.has(c.r)) continue;
+    usedTxn.add(c.t);
+    usedRow.add(c.r);
+    matches.push({ transaction: transactions[c.t], row: unpaid[c.r], score: c.score });
+  }
+
+  return { matches, unmatched: transactions.filter((_, t) => !usedTxn.has(t)) };
+}
@@ -0,0 +1,636 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import {
+  applyOverrides,
+  computeSnapshot,
+  computeGoalProgress,
+  computeLoanStatus,
+  computeYearReport,
+  generateMonthlyDates,
+  generateWeeklyDates,
+  nextRuleDateAfter,
+  planDebtPayoff,
+  planGoalContributions,
+  unifyRows,
+} from '@/lib/BudgetLogic';
+import type { BudgetCategory, BudgetLoan, OneTimeEntry, Override, Rule, SavingsGoal } from '@/lib/types';
+
+/* =========================
+   FIXTURES
+   ========================= */
+
+// Behind UTC with DST, ahead of UTC without DST, ahead of UTC with DST (southern hemisphere)
+const TIMEZONES = ['UTC', 'America/New_York', 'Asia/Tokyo', 'Pacific/Auckland'];
+
+const utc = (iso: string) => new Date(`${iso}T00:00:00Z`);
+const iso = (d: Date) => d.toISOString().slice(0, 10);
+const isos = (dates: Date[]) => dates.map(iso);
+
+function rule(fields: Partial<Rule> = {}): Rule {
+  return {
+    id: 'rule-1',
+    user_id: 'user-1',
+    type: 'expense',
+    category: 'bill',
+    description: 'Rent',
+    amount: 1200,
+    frequency: 'monthly',
+    interval: null,
+    interval_unit: null,
+    month_day: null,
+    dom: null,
+    dow: null,
+    start_anchor: '2025-01-31',
+    end_date: null,
+    occurrence_count: null,
+    weekend_shift: null,
+    previous_rule_id: null,
+    active: true,
+    created_at: '2025-01-01T00:00:00Z',
+    ...fields,
+  };
+}
+
+function entry(fields: Partial<OneTimeEntry> = {}): OneTimeEntry {
+  return {
+    id: 'entry-1',
+    user_id: 'user-1',
+    type: 'expense',
+    category: 'groceries',
+    description: 'Groceries',
+    amount: 80,
+    due_date: '2025-01-15',
+    paid_on: null,
+    account_id: null,
+    created_at: '2025-01-01T00:00:00Z',
+    ...fields,
+  };
+}
+
+function override(fields: Partial<Override> = {}): Override {
+  return {
+    id: 'ovr-1',
+    user_id: 'user-1',
+    rule_id: 'rule-1',
+    occurrence_date: '2025-01-31',
+    override_type: 'paid',
+    paid_on: '2025-01-31',
+    new_date: null,
+    account_id: null,
+    created_at: '2025-01-20T00:00:00Z',
+    ...fields,
+  };
+}
+
+function category(fields: Partial<BudgetCategory> = {}): BudgetCategory {
+  return {
+    id: 'cat-1',
+    user_id: 'user-1',
+    key: 'bill',
+    name: 'Bill',
+    type: 'expense',
+    color: '#ef4444',
+    monthly_limit: null,
+    created_at: '2025-01-01T00:00:00Z',
+    ...fields,
+  };
+}
+
+/* =========================
+   SUITE (runs once per timezone; results must not depend on it)
+   ========================= */
+
+describe.each(TIMEZONES)('BudgetLogic in %s', (tz) => {
+  const originalTz = process.env.TZ;
+  beforeAll(() => {
+    process.env.TZ = tz;
+  });
+  afterAll(() => {
+    process.env.TZ = originalTz;
+  });
+
+  it('runs under the requested timezone', () => {
+    expect(Intl.DateTimeFormat().resolvedOptions().timeZone).toBe(tz === 'UTC' ? 'UTC' : tz);
+  });
+
+  describe('generateMonthlyDates', () => {
+    it('clamps the 31st to the last day of shorter months', () => {
+      const dates = generateMonthlyDates(utc('2024-01-31'), 31, 1, utc('2024-01-01'), utc('2024-07-01'));
+      expect(isos(dates)).toEqual(['2024-01-31', '2024-02-29', '2024-03-31', '2024-04-30', '2024-05-31', '2024-06-30']);
+    });
+
+    it('uses Feb 28 outside leap years', () => {
+      const dates = generateMonthlyDates(utc('2025-01-31'), 31, 1, utc('2025-02-01'), utc('2025-03-01'));
+      expect(isos(dates)).toEqual(['2025-02-28']);
+    });
+
+    it('only emits months on the interval, counted from the anchor month', () => {
+      const dates = generateMonthlyDates(utc('2025-02-10'), 10, 2, utc('2025-01-01'), utc('2025-09-01'));
+      expect(isos(dates)).toEqual(['2025-02-10', '2025-04-10', '2025-06-10', '2025-08-10']);
+    });
+
+    it('emits nothing before the anchor month', () => {
+      expect(generateMonthlyDates(utc('2025-06-01'), 1, 1, utc('2025-01-01'), utc('2025-06-01'))).toEqual([]);
+    });
+
+    it('treats the window as [start, end)', () => {
+      const dates = generateMonthlyDates(utc('2025-01-01'), 1, 1, utc('2025-02-01'), utc('2025-03-01'));
+      expect(isos(dates)).toEqual(['2025-02-01']);
+    });
+
+    it('lands on the last day or last weekday of the month', () => {
+      const lastDay = generateMonthlyDates(utc('2025-01-01'), 1, 1, utc('2025-05-01'), utc('2025-12-01'), 'last_day');
+      expect(isos(lastDay)).toEqual(['2025-05-31', '2025-06-30', '2025-07-31', '2025-08-31', '2025-09-30', '2025-10-31', '2025-11-30']);
+
+      const lastWeekday = generateMonthlyDates(utc('2025-01-01'), 1, 1, utc('2025-05-01'), utc('2025-12-01'), 'last_weekday');
+      expect(isos(lastWeekday)).toEqual(['2025-05-30', '2025-06-30', '2025-07-31', '2025-08-29', '2025-09-30', '2025-10-31', '2025-11-28']);
+    });
+
+    it('returns UTC midnights with no drift across DST changes over several years', () => {
+      const dates = generateMonthlyDates(utc('2024-01-15'), 15, 1, utc('2024-01-01'), utc('2027-01-01'));
+      expect(dates).toHaveLength(36);
+      for (const d of dates) {
+        expect(d.getUTCHours()).toBe(0);
+        expect(d.getUTCDate()).toBe(15);
+      }
+      expect(new Set(isos(dates)).size).toBe(36);
+    });
+  });
+
+  describe('generateWeeklyDates', () => {
+    it('keeps the anchor weekday and phase inside a later window', () => {
+      // Wednesday anchor
+      const dates = generateWeeklyDates(utc('2025-01-01'), 1, utc('2025-02-01'), utc('2025-03-01'));
+      expect(isos(dates)).toEqual(['2025-02-05', '2025-02-12', '2025-02-19', '2025-02-26']);
+    });
+
+    it('steps by the interval in weeks', () => {
+      const dates = generateWeeklyDates(utc('2025-01-03'), 2, utc('2025-01-01'), utc('2025-02-15'));
+      expect(isos(dates)).toEqual(['2025-01-03', '2025-01-17', '2025-01-31', '2025-02-14']);
+    });
+
+    it('returns nothing when the anchor is after the window', () => {
+      expect(generateWeeklyDates(utc('2025-06-01'), 1, utc('2025-01-01'), utc('2025-02-01'))).toEqual([]);
+    });
+
+    it('stays on the same UTC weekday across both DST transitions', () => {
+      // Spans US (Mar 9 / Nov 2) and NZ (Apr 6 / Sep 28) clock changes
+      const dates = generateWeeklyDates(utc('2025-01-06'), 1, utc('2025-01-01'), utc('2026-01-01'));
+      expect(dates).toHaveLength(52);
+      for (const d of dates) {
+        expect(d.getUTCHours()).toBe(0);
+        expect(d.getUTCDay()).toBe(1);
+      }
+      expect(iso(dates[dates.length - 1])).toBe('2025-12-29');
+    });
+  });
+
+  describe('nextRuleDateAfter', () => {
+    it('keeps weekly rules on the anchor weekday', () => {
+      expect(nextRuleDateAfter(rule({ frequency: 'weekly', start_anchor: '2025-03-03' }), '2025-03-10')).toBe('2025-03-17');
+      expect(nextRuleDateAfter(rule({ frequency: 'biweekly', start_anchor: '2025-03-03' }), '2025-03-03')).toBe('2025-03-17');
+    });
+
+    it('follows custom day intervals from the anchor', () => {
+      const everyTenDays = rule({ frequency: 'custom', interval: 10, interval_unit: 'day', start_anchor: '2025-01-01' });
+      expect(nextRuleDateAfter(everyTenDays, '2025-01-11')).toBe('2025-01-21');
+    });
+
+    it('defaults the monthly day to the anchor day', () => {
+      expect(nextRuleDateAfter(rule(), '2025-01-31')).toBe('2025-02-28');
+    });
+
+    it('returns null once the rule has ended', () => {
+      expect(nextRuleDateAfter(rule({ end_date: '2025-02-15' }), '2025-01-31')).toBeNull();
+    });
+  });
+
+  describe('applyOverrides', () => {
+    it('returns the scheduled date when nothing overrides it', () => {
+      expect(applyOverrides('2025-01-31', 'rule-1', [])).toEqual({ dateISO: '2025-01-31' });
+    });
+
+    it('moves a postponed occurrence to its new date and reports the override id', () => {
+      const res = applyOverrides('2025-01-31', 'rule-1', [
+        override({ override_type: 'postponed', paid_on: null, new_date: '2025-02-05' }),
+      ]);
+      expect(res).toEqual({ dateISO: '2025-02-05', occurrence_id: 'ovr-1' });
+    });
+
+    it('marks paid only when paid_on is set', () => {
+      expect(applyOverrides('2025-01-31', 'rule-1', [override()]).is_paid).toBe(true);
+      expect(applyOverrides('2025-01-31', 'rule-1', [override({ paid_on: null })]).is_paid).toBeUndefined();
+    });
+
+    it('ignores overrides for other rules or other occurrences', () => {
+      const overrides = [override({ rule_id: 'rule-2' }), override({ occurrence_date: '2025-02-28' })];
+      expect(applyOverrides('2025-01-31', 'rule-1', overrides)).toEqual({ dateISO: '2025-01-31' });
+    });
+
+    it('lets the most recently written override win', () => {
+      const overrides = [
+        override({ id: 'old', override_type: 'postponed', paid_on: null, new_date: '2025-02-03', created_at: '2025-01-10T00:00:00Z' }),
+        override({ id: 'new', created_at: '2025-01-25T00:00:00Z' }),
+      ];
+      expect(applyOverrides('2025-01-31', 'rule-1', overrides)).toEqual({ dateISO: '2025-01-31', is_paid: true, occurrence_id: 'new' });
+    });
+  });
+
+  describe('unifyRows', () => {
+    it('includes one-time entries on the first and last day of the month only', () => {
+      const entries = [
+        entry({ id: 'dec', due_date: '2024-12-31' }),
+        entry({ id: 'first', due_date: '2025-01-01' }),
+        entry({ id: 'last', due_date: '2025-01-31' }),
+        entry({ id: 'feb', due_date: '2025-02-01' }),
+      ];
+      const rows = unifyRows(entries, [], [], '2025-01-01', '2025-01-31');
+      expect(rows.map((r) => [r.id, r.effective_date])).toEqual([
+        ['first', '2025-01-01'],
+        ['last', '2025-01-31'],
+      ]);
+    });
+
+    it('clamps a rule on the 31st and derives the occurrence id from rule and date', () => {
+      const rows = unifyRows([], [rule()], [], '2025-02-01', '2025-02-28');
+      expect(rows).toHaveLength(1);
+      expect(rows[0]).toMatchObject({
+        kind: 'recurring',
+        rule_id: 'rule-1',
+        effective_date: '2025-02-28',
+        occurrence_date: '2025-02-28',
+        occurrence_id: 'rule-1:2025-02-28',
+        is_paid: false,
+        amount: 1200,
+      });
+    });
+
+    it('moves a postponed occurrence into the next month', () => {
+      const overrides = [override({ override_type: 'postponed', paid_on: null, new_date: '2025-02-05' })];
+
+      const jan = unifyRows([], [rule()], overrides, '2025-01-01', '2025-01-31');
+      expect(jan).toEqual([]);
+
+      const feb = unifyRows([], [rule()], overrides, '2025-02-01', '2025-02-28');
+      expect(feb.map((r) => [r.effective_date, r.occurrence_id])).toEqual([
+        ['2025-02-05', 'ovr-1'],
+        ['2025-02-28', 'rule-1:2025-02-28'],
+      ]);
+    });
+
+    it('moves a postponed occurrence back into the previous month', () => {
+      const overrides = [override({ occurrence_date: '2025-02-28', override_type: 'postponed', paid_on: null, new_date: '2025-01-20' })];
+
+      const jan = unifyRows([], [rule()], overrides, '2025-01-01', '2025-01-31');
+      expect(jan.map((r) => r.effective_date)).toEqual(['2025-01-20', '2025-01-31']);
+
+      const feb = unifyRows([], [rule()], overrides, '2025-02-01', '2025-02-28');
+      expect(feb).toEqual([]);
+    });
+
+    it('keeps an occurrence postponed onto the next one alongside it', () => {
+      const weekly = rule({ dom: 1, start_anchor: '2025-01-01', frequency: 'weekly' });
+      const overrides = [override({ occurrence_date: '2025-01-08', override_type: 'postponed', paid_on: null, new_date: '2025-01-15' })];
+      const rows = unifyRows([], [weekly], overrides, '2025-01-01', '2025-01-31');
+      expect(rows.map((r) => [r.effective_date, r.occurrence_date, r.occurrence_id])).toEqual([
+        ['2025-01-01', '2025-01-01', 'rule-1:2025-01-01'],
+        ['2025-01-15', '2025-01-08', 'ovr-1'],
+        ['2025-01-15', '2025-01-15', 'rule-1:2025-01-15'],
+        ['2025-01-22', '2025-01-22', 'rule-1:2025-01-22'],
+        ['2025-01-29', '2025-01-29', 'rule-1:2025-01-29'],
+      ]);
+    });
+
+    it('marks a paid occurrence and keeps the others unpaid', () => {
+      const rows = unifyRows([], [rule({ dom: 1, start_anchor: '2025-01-01', frequency: 'weekly' })], [override({ occurrence_date: '2025-01-08', paid_on: '2025-01-08' })], '2025-01-01', '2025-01-31');
+      expect(rows.map((r) => [r.effective_date, r.is_paid])).toEqual([
+        ['2025-01-01', false],
+        ['2025-01-08', true],
+        ['2025-01-15', false],
+        ['2025-01-22', false],
+        ['2025-01-29', false],
+      ]);
+    });
+
+    it('de-duplicates repeated entries and rules', () => {
+      const rows = unifyRows([entry(), entry()], [rule(), rule()], [], '2025-01-01', '2025-01-31');
+      expect(rows.map((r) => `${r.kind}:${r.id}:${r.effective_date}`)).toEqual([
+        'one_time:entry-1:2025-01-15',
+        'recurring:rule-1:2025-01-31',
+      ]);
+    });
+
+    it('skips inactive rules and rules without an anchor', () => {
+      const rows = unifyRows([], [rule({ active: false }), rule({ id: 'rule-2', start_anchor: '' })], [], '2025-01-01', '2025-01-31');
+      expect(rows).toEqual([]);
+    });
+
+    it('sorts rows by effective date', () => {
+      const rows = unifyRows(
+        [entry({ id: 'late', due_date: '2025-01-20' }), entry({ id: 'early', due_date: '2025-01-02' })],
+        [rule({ dom: 10, start_anchor: '2025-01-10' })],
+        [],
+        '2025-01-01',
+        '2025-01-31'
+      );
+      expect(rows.map((r) => r.effective_date)).toEqual(['2025-01-02', '2025-01-10', '2025-01-20']);
+    });
+
+    it('reads date-only strings as calendar days, whatever the host timezone', () => {
+      const rows = unifyRows(
+        [entry({ due_date: '2025-03-01' })],
+        [rule({ start_anchor: '2025-03-01', frequency: 'weekly' })],
+        [],
+        '2025-03-01',
+        '2025-03-31'
+      );
+      expect(rows.map((r) => `${r.kind}:${r.effective_date}`)).toEqual([
+        'one_time:2025-03-01',
+        'recurring:2025-03-01',
+        'recurring:2025-03-08',
+        'recurring:2025-03-15',
+        'recurring:2025-03-22',
+        'recurring:2025-03-29',
+      ]);
+    });
+
+    it('anchors a rule without dom on the anchor day', () => {
+      const rows = unifyRows([], [rule({ start_anchor: '2025-01-01' })], [], '2025-04-01', '2025-04-30');
+      expect(rows.map((r) => r.effective_date)).toEqual(['2025-04-01']);
+    });
+  });
+
+  describe('computeSnapshot', () => {
+    const inputs = {
+      entries: [
+        entry({ id: 'groceries', amount: 80, due_date: '2025-01-10', paid_on: '2025-01-10', is_paid: true } as Partial<OneTimeEntry>),
+        entry({ id: 'salary', type: 'income', category: 'business_income', description: 'Salary', amount: 3000, due_date: '2025-01-15' }),
+      ],
+      rules: [rule(), rule({ id: 'rule-2', description: 'Phone', amount: 50, dom: 5, start_anchor: '2025-01-05' })],
+      overrides: [override({ rule_id: 'rule-2', occurrence_date: '2025-01-05', paid_on: '2025-01-05' })],
+      month_start: '2025-01-01',
+      month_end: '2025-01-31',
+      today_local: '2025-01-20',
+    };
+
+    it('totals income, expenses and what is left to pay', () => {
+      const snap = computeSnapshot(inputs);
+      expect(snap.totals).toMatchObject({ total_income: 3000, total_expenses: 1330, remaining_to_pay: 1200 });
+    });
+
+    it('derives the display status from is_paid', () => {
+      const snap = computeSnapshot(inputs);
+      expect(snap.rows.map((r) => [r.id, (r as { status?: string }).status])).toEqual([
+        ['rule-2', 'Paid'],
+        ['groceries', 'Paid'],
+        ['salary', 'Pending'],
+        ['rule-1', 'Pending'],
+      ]);
+    });
+
+    it('flags categories over their monthly limit', () => {
+      const snap = computeSnapshot({
+        ...inputs,
+        categories: [category({ monthly_limit: 1000 }), category({ id: 'cat-2', key: 'groceries', name: 'Groceries', monthly_limit: 100 })],
+      });
+      expect(snap.totals.by_category).toEqual([
+        { key: 'bill', name: 'Bill', color: '#ef4444', spent: 1250, limit: 1000, over_budget: true },
+        { key: 'groceries', name: 'Groceries', color: '#ef4444', spent: 80, limit: 100, over_budget: false },
+      ]);
+    });
+
+    it('counts a postponed occurrence in the month it moved to', () => {
+      const overrides = [override({ override_type: 'postponed', paid_on: null, new_date: '2025-02-03' })];
+      const jan = computeSnapshot({ ...inputs, overrides });
+      const feb = computeSnapshot({ ...inputs, overrides, month_start: '2025-02-01', month_end: '2025-02-28' });
+      expect(jan.totals.total_expenses).toBe(80 + 50);
+      expect(feb.totals.total_expenses).toBe(1200 + 1200 + 50);
+    });
+  });
+
+  describe('computeYearReport', () => {
+    const paidEntry = (fields: Partial<OneTimeEntry>) => entry({ is_paid: true, ...fields } as Partial<OneTimeEntry>);
+    const inputs = {
+      entries: [
+        paidEntry({ id: 'tv', category: 'other', description: 'TV', amount: 900, due_date: '2025-03-10', paid_on: '2025-03-10' }),
+        paidEntry({ id: 'repair', category: 'other', description: 'Car repair', amount: 400, due_date: '2025-07-02', paid_on: '2025-07-09' }),
+        entry({ id: 'bonus', type: 'income', category: 'business_income', description: 'Bonus', amount: 2000, due_date: '2025-12-20' }),
+      ],
+      rules: [rule({ amount: 1000, end_date: '2025-03-31' })],
+      overrides: [
+        override({ id: 'o1', occurrence_date: '2025-01-31', paid_on: '2025-02-03' }),
+        override({ id: 'o2', occurrence_date: '2025-02-28', paid_on: '2025-02-27' }),
+      ],
+      year: 2025,
+      today_local: '2025-12-31',
+    };
+
+    it('runs a snapshot per month and totals the year', () => {
+      const report = computeYearReport(inputs);
+      expect(report.months.map((m) => m.month_start)).toEqual([
+        '2025-01-01', '2025-02-01', '2025-03-01', '2025-04-01', '2025-05-01', '2025-06-01',
+        '2025-07-01', '2025-08-01', '2025-09-01', '2025-10-01', '2025-11-01', '2025-12-01',
+      ]);
+      expect(report.months.map((m) => m.expenses)).toEqual([1000, 1000, 1900, 0, 0, 0, 400, 0, 0, 0, 0, 0]);
+      expect(report.months[11]).toMatchObject({ income: 2000, net: 2000 });
+      expect(report.totals).toEqual({ income: 2000, expenses: 4300, net: -2300 });
+      expect(report.months[2].by_category).toEqual({ bill: 1000, other: 900 });
+    });
+
+    it('counts payments made after the due date as late', () => {
+      const report = computeYearReport(inputs);
+      expect(report.paid_count).toBe(4);
+      expect(report.late_count).toBe(2);
+      expect(report.average_days_late).toBe(5);
+      expect(report.late_payments.map((p) => [p.description, p.paid_on, p.days_late])).toEqual([
+        ['Car repair', '2025-07-09', 7],
+        ['Rent', '2025-02-03', 3],
+      ]);
+      expect(report.months[0]).toMatchObject({ paid_count: 1, late_count: 1 });
+    });
+
+    it('lists the biggest one-time expenses first', () => {
+      const report = computeYearReport(inputs);
+      expect(report.top_expenses.map((r) => r.id)).toEqual(['tv', 'repair']);
+    });
+
+    it('compares category spend against twelve monthly limits', () => {
+      const report = computeYearReport({
+        ...inputs,
+        categories: [category({ monthly_limit: 250 }), category({ id: 'cat-2', key: 'other', name: 'Other', monthly_limit: 200 })],
+      });
+      expect(report.categories).toEqual([
+        { key: 'bill', name: 'Bill', color: '#ef4444', spent: 3000, limit: 3000, over_budget: false },
+        { key: 'other', name: 'Other', color: '#ef4444', spent: 1300, limit: 2400, over_budget: false },
+      ]);
+    });
+  });
+
+  describe('savings goals', () => {
+    const goal = (fields: Partial<SavingsGoal> = {}): SavingsGoal => ({
+      id: 'goal-1',
+      user_id: 'user-1',
+      name: 'Car',
+      target_amount: 1200,
+      target_date: '2025-12-31',
+      starting_amount: 0,
+      link_shopping: false,
+      rule_id: 'rule-1',
+      created_at: '2025-01-01T00:00:00Z',
+      ...fields,
+    });
+    const contribution = rule({ category: 'savings', description: 'Savings: Car', amount: 100, dom: 15, start_anchor: '2025-01-15', end_date: '2025-12-31' });
+
+    it('spreads the remainder over the contribution days left, rounding up to the cent', () => {
+      expect(planGoalContributions({ remaining: 1000, dom: 15, fromISO: '2025-01-10', target_date: '2025-12-31' })).toEqual({ count: 12, amount: 83.34 });
+      expect(planGoalContributions({ remaining: 1000, dom: 15, fromISO: '2025-01-20', target_date: '2025-12-31' })).toEqual({ count: 11, amount: 90.91 });
+      expect(planGoalContributions({ remaining: 0, dom: 15, fromISO: '2025-01-20', target_date: '2025-12-31' })).toEqual({ count: 11, amount: 0 });
+    });
+
+    it('asks for everything at once when no contribution day is left', () => {
+      expect(planGoalContributions({ remaining: 300, dom: 28, fromISO: '2025-03-01', target_date: '2025-03-20' })).toEqual({ count: 0, amount: 300 });
+    });
+
+    it('counts paid contributions at the amount of the rule version they were paid under', () => {
+      const earlier = rule({ ...contribution, id: 'rule-0', amount: 50, end_date: '2025-02-14' });
+      const current = rule({ ...contribution, start_anchor: '2025-02-15', previous_rule_id: 'rule-0' });
+      const progress = computeGoalProgress({
+        goal: goal({ starting_amount: 200 }),
+        rules: [earlier, current],
+        overrides: [
+          override({ id: 'o1', rule_id: 'rule-0', occurrence_date: '2025-01-15' }),
+          override({ id: 'o2', rule_id: 'rule-1', occurrence_date: '2025-02-15' }),
+          override({ id: 'o3', rule_id: 'rule-1', occurrence_date: '2025-03-15', override_type: 'skipped', paid_on: null }),
+        ],
+        today_local: '2025-03-01',
+      });
+      expect(progress).toMatchObject({ target: 1200, saved: 350, remaining: 850, contributions_paid: 2, contributions_left: 10 });
+      expect(progress.percent).toBeCloseTo(29.17, 2);
+      expect(progress.monthly_needed).toBe(85);
+      expect(progress.on_track).toBe(true);
+    });
+
+    it('follows the shopping list total when linked', () => {
+      const progress = computeGoalProgress({
+        goal: goal({ link_shopping: true }),
+        rules: [contribution],
+        overrides: [],
+        shopping_total: 2400,
+        today_local: '2025-01-01',
+      });
+      expect(progress).toMatchObject({ target: 2400, remaining: 2400, contributions_left: 12, monthly_needed: 200, on_track: false });
+    });
+
+    it('is reached once saved covers the target', () => {
+      const progress = computeGoalProgress({ goal: goal({ starting_amount: 1500, rule_id: null }), rules: [], overrides: [], today_local: '2025-06-01' });
+      expect(progress).toMatchObject({ remaining: 0, percent: 100, monthly_needed: 0, on_track: true });
+    });
+  });
+
+  describe('loans', () => {
+    const loan = (fields: Partial<BudgetLoan> = {}): BudgetLoan => ({
+      id: 'loan-1',
+      user_id: 'user-1',
+      rule_id: 'rule-1',
+      principal: 1000,
+      apr: 0,
+      minimum_payment: 100,
+      balance_date: '2025-01-01',
+      created_at: '2025-01-01T00:00:00Z',
+      ...fields,
+    });
+    const payment = rule({ category: 'loan', description: 'Car loan', amount: 100, dom: 11, start_anchor: '2024-12-11' });
+
+    it('pays the balance down with paid occurrences after the balance date', () => {
+      const status = computeLoanStatus({
+        loan: loan(),
+        rules: [payment],
+        overrides: [
+          override({ id: 'o0', occurrence_date: '2024-12-11', paid_on: '2024-12-11' }),
+          override({ id: 'o1', occurrence_date: '2025-01-11', paid_on: '2025-01-11' }),
+          override({ id: 'o2', occurrence_date: '2025-02-11', paid_on: '2025-02-12' }),
+          override({ id: 'o3', occurrence_date: '2025-03-11', override_type: 'postponed', paid_on: null, new_date: '2025-04-11' }),
+        ],
+        today_local: '2025-03-20',
+      });
+      expect(status).toMatchObject({ description: 'Car loan', balance: 800, principal_paid: 200, interest_paid: 0, payments_count: 2, last_payment_on: '2025-02-12' });
+    });
+
+    it('keeps a payment postponed onto the next one as a second row', () => {
+      const overrides = [override({ id: 'o3', occurrence_date: '2025-03-11', override_type: 'postponed', paid_on: null, new_date: '2025-04-11' })];
+      const month = (month_start: string, month_end: string) =>
+        computeSnapshot({ entries: [], rules: [payment], overrides, month_start, month_end, today_local: '2025-03-20' });
+
+      expect(month('2025-03-01', '2025-03-31').rows).toEqual([]);
+      const april = month('2025-04-01', '2025-04-30');
+      expect(april.rows.map((r) => [r.effective_date, r.occurrence_date, r.occurrence_id])).toEqual([
+        ['2025-04-11', '2025-03-11', 'o3'],
+        ['2025-04-11', '2025-04-11', 'rule-1:2025-04-11'],
+      ]);
+      expect(april.totals).toMatchObject({ total_expenses: 200, remaining_to_pay: 200 });
+    });
+
+    it('accrues daily interest between payments and up to today', () => {
+      const status = computeLoanStatus({
+        loan: loan({ apr: 36.5 }), // 0.1% a day
+        rules: [payment],
+        overrides: [override({ occurrence_date: '2025-01-11', paid_on: '2025-01-11' })],
+        today_local: '2025-01-21',
+      });
+      expect(status).toMatchObject({ interest_paid: 10, principal_paid: 90, balance: 919.1 });
+    });
+
+    it('amortizes monthly with interest at APR / 12', () => {
+      const plan = planDebtPayoff({
+        loans: [{ id: 'a', description: 'A', balance: 1200, apr: 12, minimum_payment: 100 }],
+        strategy: 'avalanche',
+        extra: 0,
+        start_month: '2025-01-01',
+      });
+      expect(plan.loans[0].schedule[0]).toEqual({ month_start: '2025-01-01', payment: 100, interest: 12, principal: 88, balance: 1112 });
+      expect(plan.months).toBe(13);
+      expect(plan.payoff_month).toBe('2026-01-01');
+    });
+
+    it('rolls extra and freed minimums into the focus loan', () => {
+      const plan = planDebtPayoff({
+        loans: [
+          { id: 'a', description: 'A', balance: 1000, apr: 0, minimum_payment: 100 },
+          { id: 'b', description: 'B', balance: 500, apr: 0, minimum_payment: 50 },
+        ],
+        strategy: 'snowball',
+        extra: 100,
+        start_month: '2025-02-01',
+      });
+      expect(plan.monthly_budget).toBe(250);
+      expect(plan.loans.map((l) => [l.loan_id, l.payoff_month])).toEqual([
+        ['b', '2025-05-01'],
+        ['a', '2025-07-01'],
+      ]);
+      expect(plan.balances.map((b) => b.balance)).toEqual([1250, 1000, 750, 500, 250, 0]);
+      expect(plan).toMatchObject({ months: 6, total_interest: 0 });
+    });
+
+    it('orders by balance for snowball and by APR for avalanche', () => {
+      const loans = [
+        { id: 'card', description: 'Card', balance: 3000, apr: 24, minimum_payment: 90 },
+        { id: 'car', description: 'Car', balance: 800, apr: 5, minimum_payment: 60 },
+      ];
+      const snowball = planDebtPayoff({ loans, strategy: 'snowball', extra: 200, start_month: '2025-01-01' });
+      const avalanche = planDebtPayoff({ loans, strategy: 'avalanche', extra: 200, start_month: '2025-01-01' });
+      expect(snowball.loans[0].loan_id).toBe('car');
+      expect(avalanche.loans[0].loan_id).toBe('card');
+      expect(avalanche.total_interest).toBeLessThan(snowball.total_interest);
+    });
+
+    it('never pays off a loan whose payments do not cover the interest', () => {
+      const plan = planDebtPayoff({
+        loans: [{ id: 'a', description: 'A', balance: 1000, apr: 24, minimum_payment: 10 }],
+        strategy: 'snowball',
+        extra: 0,
+        start_month: '2025-01-01',
+      });
+      expect(plan).toMatchObject({ months: null, payoff_month: null });
+      expect(plan.loans[0].payoff_month).toBeNull();
+    });
+  });
+});
@@ -3,27 +3,76 @@
 // overrides use occurrence_date/override_type/new_date/paid_on.
 // This file also guarantees:
 //  - Every recurring row has a UNIQUE occurrence_id (override id if present; else rule_id+effective_date)
-//  - Rows are DE-DUPED by (rule_id,effective_date) for recurring and (id,effective_date) for one-time
+//  - Rows are DE-DUPED by (rule_id,occurrence_date) for recurring and (id,effective_date) for one-time
 //  - Fields present for UI: kind, description, category, amount, type, date, due_date, effective_date,
 //    is_paid, is_recurring, rule_id (recurring), occurrence_id (recurring), occurrence_date (recurring)
 
 import {
   addDays,
-  addWeeks,
   addMonths,
+  endOfMonth,
   isAfter,
-  getDaysInMonth,
   parseISO,
   format, // added for YYYY-MM-DD (date-only) formatting
 } from 'date-fns';
-import type { OneTimeEntry, Rule, Override, UnifiedRow, Totals, Snapshot } from '@/lib/types';
+import type {
+  OneTimeEntry,
+  Rule,
+  Override,
+  UnifiedRow,
+  Totals,
+  CategoryTotal,
+  BudgetCategory,
+  Snapshot,
+  Forecast,
+  ForecastMonth,
+  BudgetAccount,
+  AccountBalance,
+  AccountLedger,
+  AmortizationRow,
+  BudgetLoan,
+  LedgerLine,
+  LatePayment,
+  LoanPayoff,
+  LoanStatus,
+  PayoffPlan,
+  PayoffStrategy,
+  GoalProgress,
+  SavingsGoal,
+  YearReport,
+  YearReportMonth,
+  MonthDayMode,
+  WeekendShift,
+} from '@/lib/types';
 
 function toUTCDate(y: number, m: number, d: number) {
   return new Date(Date.UTC(y, m, d, 0, 0, 0, 0));
 }
 
+/**
+ * Date-only strings (YYYY-MM-DD, or the date part of a timestamp) as a UTC
+ * midnight. parseISO would give LOCAL midnight, whose UTC date is the day
+ * before anywhere east of UTC.
+ */
+export function parseDateOnlyUTC(value: string): Date {
+  const m = /^(\d{4})-(\d{2})-(\d{2})/.exec(value);
+  if (m) return toUTCDate(Number(m[1]), Number(m[2]) - 1, Number(m[3]));
+  const d = parseISO(value);
+  return toUTCDate(d.getFullYear(), d.getMonth(), d.getDate());
+}
+
+/** UTC midnight → YYYY-MM-DD (formatted via LOCAL midnight of the same calendar day) */
+function toISODate(d: Date) {
+  return format(new Date(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()), 'yyyy-MM-dd');
+}
+
+function daysInMonthUTC(year: number, monthIndex: number) {
+  // Day 0 of the next month is the last day of this one
+  return toUTCDate(year, monthIndex + 1, 0).getUTCDate();
+}
+
 function clampDay(year: number, monthIndex: number, day: number) {
-  const dim = getDaysInMonth(toUTCDate(year, monthIndex, 1));
+  const dim = daysInMonthUTC(year, monthIndex);
   return Math.max(1, Math.min(dim, day));
 }
 
@@ -48,13 +97,29 @@ function inWindow(d: Date, start: Date, end: Date) {
   return d.getTime() >= start.getTime() && d.getTime() < end.getTime();
 }
 
-/** MONTHLY generator (interval in months, day-of-month respected with clamp) */
+// date-fns addDays/addWeeks/addMonths work in local time, which shifts UTC midnights across DST changes
+function addDaysUTC(d: Date, n: number) {
+  return toUTCDate(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate() + n);
+}
+
+function lastWeekdayOfMonth(year: number, monthIndex: number) {
+  let d = daysInMonthUTC(year, monthIndex);
+  let dow = toUTCDate(year, monthIndex, d).getUTCDay();
+  while (dow === 0 || dow === 6) {
+    d--;
+    dow = (dow + 6) % 7;
+  }
+  return d;
+}
+
+/** MONTHLY generator (interval in months, day-of-month respected with clamp, or last day / last weekday) */
 export function generateMonthlyDates(
   anchor: Date,
   dayOfMonth: number,
   interval: number,
   windowStart: Date,
-  windowEnd: Date
+  windowEnd: Date,
+  mode: MonthDayMode = 'day_of_month'
 ): Date[] {
   const out: Date[] = [];
   const i = normalizeInterval(interval);
@@ -66,11 +131,16 @@ export function generateMonthlyDates(
     if (diff >= 0 && diff % i === 0) {
       const y = cursorMonthStart.getUTCFullYear();
       const m = cursorMonthStart.getUTCMonth();
-      const d = clampDay(y, m, dayOfMonth);
+      const d =
+        mode === 'last_day'
+          ? daysInMonthUTC(y, m)
+          : mode === 'last_weekday'
+            ? lastWeekdayOfMonth(y, m)
+            : clampDay(y, m, dayOfMonth);
       const candidate = toUTCDate(y, m, d);
       if (inWindow(candidate, windowStart, windowEnd)) out.push(candidate);
     }
-    cursorMonthStart = addMonths(cursorMonthStart, 1);
+    cursorMonthStart = toUTCDate(cursorMonthStart.getUTCFullYear(), cursorMonthStart.getUTCMonth() + 1, 1);
   }
   return out;
 }
@@ -88,27 +158,171 @@ export function generateWeeklyDates(
 
   // advance to window start
   while (current < windowStart) {
-    current = addWeeks(current, i);
+    current = addDaysUTC(current, 7 * i);
   }
   while (current < windowEnd) {
     if (inWindow(current, windowStart, windowEnd)) out.push(current);
-    current = addWeeks(current, i);
+    current = addDaysUTC(current, 7 * i);
   }
   return out;
 }
 
+/** DAILY generator (every N days from the anchor) */
+export function generateDailyDates(
+  anchor: Date,
+  interval: number,
+  windowStart: Date,
+  windowEnd: Date
+): Date[] {
+  const out: Date[] = [];
+  const i = normalizeInterval(interval);
+  let current = toUTCDate(anchor.getUTCFullYear(), anchor.getUTCMonth(), anchor.getUTCDate());
+
+  // jump straight to the first step on/after window start
+  if (current < windowStart) {
+    const behind = Math.ceil((windowStart.getTime() - current.getTime()) / 86_400_000);
+    current = addDaysUTC(current, Math.ceil(behind / i) * i);
+  }
+  while (current < windowEnd) {
+    if (inWindow(current, windowStart, windowEnd)) out.push(current);
+    current = addDaysUTC(current, i);
+  }
+  return out;
+}
+
+/** Moves a Saturday/Sunday date to the Friday before ('previous') or the Monday after ('next') */
+export function shiftOffWeekend(d: Date, shift: WeekendShift): Date {
+  const dow = d.getUTCDay();
+  if (shift === 'none' || (dow !== 0 && dow !== 6)) return d;
+  if (shift === 'previous') return addDaysUTC(d, dow === 6 ? -1 : -2);
+  return addDaysUTC(d, dow === 6 ? 2 : 1);
+}
+
+/**
+ * Every scheduled date of a rule inside [windowStart, windowEnd), after the
+ * end date / occurrence count cut-off and the weekend shift. Dates are UTC
+ * midnights; overrides are not applied here.
+ */
+export function generateRuleDates(rule: Rule, anchor: Date, windowStart: Date, windowEnd: Date): Date[] {
+  const r = rule as any;
+  const freq: string = String(r.frequency ?? 'monthly').toLowerCase();
+  const anchorUTC = toUTCDate(anchor.getUTCFullYear(), anchor.getUTCMonth(), anchor.getUTCDate());
+  const shift: WeekendShift = r.weekend_shift ?? 'none';
+  const mode: MonthDayMode = r.month_day ?? 'day_of_month';
+  const count = r.occurrence_count != null && Number(r.occurrence_count) > 0 ? Math.trunc(Number(r.occurrence_count)) : null;
+  const endDate = r.end_date ? parseDateOnlyUTC(String(r.end_date)) : undefined;
+
+  // Monthly DOM: r.dom or anchor day
+  const dom: number = r.dom != null ? Number(r.dom) : anchorUTC.getUTCDate();
+
+  // A weekend shift moves a date by at most two days, so look that far past the window.
+  // Counting occurrences needs every date since the anchor.
+  const pad = shift === 'none' ? 0 : 2;
+  const genStart = count ? anchorUTC : addDaysUTC(windowStart, -pad);
+  const genEnd = addDaysUTC(windowEnd, pad);
+
+  let dates: Date[];
+  if (freq === 'weekly') {
+    dates = generateWeeklyDates(anchorUTC, 1, genStart, genEnd);
+  } else if (freq === 'biweekly') {
+    dates = generateWeeklyDates(anchorUTC, 2, genStart, genEnd);
+  } else if (freq === 'quarterly') {
+    dates = generateMonthlyDates(anchorUTC, normalizeInterval(dom), 3, genStart, genEnd, mode);
+  } else if (freq === 'yearly') {
+    dates = generateMonthlyDates(anchorUTC, normalizeInterval(dom), 12, genStart, genEnd, mode);
+  } else if (freq === 'custom') {
+    const interval = normalizeInterval(Number(r.interval ?? 1));
+    const unit = String(r.interval_unit ?? 'month');
+    if (unit === 'day') dates = generateDailyDates(anchorUTC, interval, genStart, genEnd);
+    else if (unit === 'week') dates = generateWeeklyDates(anchorUTC, interval, genStart, genEnd);
+    else dates = generateMonthlyDates(anchorUTC, normalizeInterval(dom), interval, genStart, genEnd, mode);
+  } else {
+    dates = generateMonthlyDates(anchorUTC, normalizeInterval(dom), 1, genStart, genEnd, mode);
+  }
+
+  // Month-based generators fill the anchor's month even before the anchor day
+  dates = dates.filter((d) => d.getTime() >= anchorUTC.getTime());
+  if (count) dates = dates.slice(0, count);
+  if (endDate) dates = dates.filter((d) => !isAfter(d, endDate));
+
+  const out: Date[] = [];
+  for (const d of dates) {
+    const shifted = shiftOffWeekend(d, shift);
+    if (!inWindow(shifted, windowStart, windowEnd)) continue;
+    // Daily rules can shift two dates onto the same Friday/Monday
+    if (out.length > 0 && sameDayUTC(out[out.length - 1], shifted)) continue;
+    out.push(shifted);
+  }
+  return out;
+}
+
+export type RuleSplit = {
+  end_date: string; // New end_date for the existing rule
+  start_anchor: string; // Successor anchor: unshifted schedule date of the first moved occurrence
+  dom: number | null; // Pinned so a clamped anchor (e.g. Feb 28) doesn't become the new day of month
+  occurrence_count: number | null; // Occurrences left for the successor when the rule has a count
+  kept: number; // Occurrences that stay on the existing rule
+};
+
+/**
+ * The rule's first scheduled date strictly after `occurrenceISO` (YYYY-MM-DD),
+ * searching two years ahead; null when the rule has ended. Used to postpone an
+ * occurrence onto the next one.
+ */
+export function nextRuleDateAfter(rule: Rule, occurrenceISO: string): string | null {
+  const anchorUTC = parseDateOnlyUTC(rule.start_anchor);
+  const after = addDaysUTC(parseDateOnlyUTC(occurrenceISO), 1);
+  const horizon = toUTCDate(after.getUTCFullYear() + 2, after.getUTCMonth(), after.getUTCDate());
+  const next = generateRuleDates(rule, anchorUTC, after, horizon)[0];
+  return next ? toISODate(next) : null;
+}
+
+/**
+ * Where to cut a rule for an "edit this and future occurrences" change:
+ * occurrences before `fromISO` stay on the rule, the rest move to a successor.
+ * Returns null when the rule has no occurrence on/after `fromISO`.
+ */
+export function planRuleSplit(rule: Rule, fromISO: string): RuleSplit | null {
+  const r = rule as any;
+  const anchorUTC = parseDateOnlyUTC(String(r.start_anchor));
+  const from = parseDateOnlyUTC(fromISO);
+  const shift: WeekendShift = r.weekend_shift ?? 'none';
+  const unshifted = { ...r, weekend_shift: 'none' } as Rule;
+
+  // `fromISO` is a displayed (shifted) date; find the schedule date behind it
+  const horizon = toUTCDate(from.getUTCFullYear() + 2, from.getUTCMonth(), from.getUTCDate());
+  const first = generateRuleDates(unshifted, anchorUTC, addDaysUTC(from, -2), horizon).find(
+    (d) => shiftOffWeekend(d, shift).getTime() >= from.getTime()
+  );
+  if (!first) return null;
+
+  const kept = generateRuleDates(unshifted, anchorUTC, anchorUTC, first).length;
+  const freq = String(r.frequency ?? 'monthly');
+  const monthBased =
+    freq === 'monthly' || freq === 'quarterly' || freq === 'yearly' || (freq === 'custom' && r.interval_unit !== 'day' && r.interval_unit !== 'week');
+  const dayOfMonth = monthBased && (r.month_day ?? 'day_of_month') === 'day_of_month';
+
+  return {
+    end_date: toISODate(addDaysUTC(first, -1)),
+    start_anchor: toISODate(first),
+    dom: r.dom != null ? Number(r.dom) : dayOfMonth ? anchorUTC.getUTCDate() : null,
+    occurrence_count: r.occurrence_count ? Math.max(0, Number(r.occurrence_count) - kept) : null,
+    kept,
+  };
+}
+
 /** Apply overrides using schema: occurrence_date, override_type, paid_on, new_date */
 export function applyOverrides(
   baseOccDateISO: string,
   ruleId: string,
   overrides: Override[]
 ): { dateISO: string; is_paid?: boolean; occurrence_id?: string } {
-  const base = parseISO(baseOccDateISO);
+  const base = parseDateOnlyUTC(baseOccDateISO);
   const candidates = (overrides as any[]).filter((o) => {
     if (String((o as any).rule_id ?? '') !== String(ruleId)) return false;
     const occ = (o as any).occurrence_date;
     if (!occ) return false;
-    const od = parseISO(String(occ));
+    const od = parseDateOnlyUTC(String(occ));
     return sameDayUTC(base, od);
   });
 
@@ -129,9 +343,8 @@ export function applyOverrides(
 
   const t = String(chosen.override_type ?? '').toLowerCase();
   if (t === 'postponed' && chosen.new_date) {
-    const nd = parseISO(String(chosen.new_date));
-    // Emit date-only string using LOCAL midnight (no time, no Z)
-    res.dateISO = format(new Date(nd.getUTCFullYear(), nd.getUTCMonth(), nd.getUTCDate()), 'yyyy-MM-dd');
+    // Emit date-only string (no time, no Z)
+    res.dateISO = toISODate(parseDateOnlyUTC(String(chosen.new_date)));
   }
   if (t === 'paid' && chosen.paid_on) {
     res.is_paid = true;
@@ -150,17 +363,12 @@ function buildOneTimeRows(
   for (const e of entries as any[]) {
     if (!e?.due_date) continue;
 
-    // Parse source date; build both LOCAL midnight (for display string)
-    // and UTC midnight (for window comparison). Comparing in UTC keeps
-    // the zone consistent with generators and window bounds.
-    const dRaw = parseISO(String(e.due_date));
-    const dLocal = new Date(dRaw.getUTCFullYear(), dRaw.getUTCMonth(), dRaw.getUTCDate());
-    const dUTC = toUTCDate(dRaw.getUTCFullYear(), dRaw.getUTCMonth(), dRaw.getUTCDate());
-
+    // Compare as a UTC midnight so the zone matches generators and window bounds
+    const dUTC = parseDateOnlyUTC(String(e.due_date));
     if (!inWindow(dUTC, windowStart, windowEnd)) continue;
 
-    // Date-only string (YYYY-MM-DD), no time, no Z — use LOCAL midnight for stable display
-    const iso = format(dLocal, 'yyyy-MM-dd');
+    // Date-only string (YYYY-MM-DD), no time, no Z
+    const iso = toISODate(dUTC);
     rows.push({
       id: String(e.id),
       kind: 'one_time',
@@ -205,66 +413,34 @@ function buildRecurringRows(
     // Anchor: rule.start_anchor (ISO) else base.due_date
     const startAnchorISO: string | undefined = (rAny as any).start_anchor;
     const startAnchor =
-      startAnchorISO ? parseISO(String(startAnchorISO)) : base?.due_date ? parseISO(String(base.due_date)) : undefined;
+      startAnchorISO ? parseDateOnlyUTC(String(startAnchorISO)) : base?.due_date ? parseDateOnlyUTC(String(base.due_date)) : undefined;
     if (!startAnchor) continue;
 
-    const freq: string = String((rAny as any).frequency ?? 'monthly').toLowerCase();
-    const intervalNum: number = Number((rAny as any).interval ?? 1);
-    const endDate = (rAny as any).end_date ? parseISO(String((rAny as any).end_date)) : undefined;
-
-    // Monthly DOM: r.dom or anchor day
-    const dom: number =
-      (rAny as any).dom != null ? Number((rAny as any).dom) : startAnchor.getUTCDate();
-
-    let dates: Date[] = [];
-    if (freq === 'weekly') {
-      dates = generateWeeklyDates(
-        toUTCDate(startAnchor.getUTCFullYear(), startAnchor.getUTCMonth(), startAnchor.getUTCDate()),
-        normalizeInterval(intervalNum),
-        windowStart,
-        windowEnd
-      );
-    } else if (freq === 'biweekly') {
-      dates = generateWeeklyDates(
-        toUTCDate(startAnchor.getUTCFullYear(), startAnchor.getUTCMonth(), startAnchor.getUTCDate()),
-        2,
-        windowStart,
-        windowEnd
-      );
-    } else {
-      dates = generateMonthlyDates(
-        toUTCDate(startAnchor.getUTCFullYear(), startAnchor.getUTCMonth(), startAnchor.getUTCDate()),
-        normalizeInterval(Number(dom)),
-        normalizeInterval(intervalNum),
-        windowStart,
-        windowEnd
-      );
+    const dates = generateRuleDates(rAny as Rule, startAnchor, windowStart, windowEnd);
+
+    // Occurrences scheduled in another month but postponed into this one
+    for (const ov of overrides as any[]) {
+      if (String(ov?.rule_id ?? '') !== ruleId) continue;
+      if (String(ov.override_type ?? '').toLowerCase() !== 'postponed' || !ov.new_date || !ov.occurrence_date) continue;
+      if (!inWindow(parseDateOnlyUTC(String(ov.new_date)), windowStart, windowEnd)) continue;
+      const occ = parseDateOnlyUTC(String(ov.occurrence_date));
+      if (inWindow(occ, windowStart, windowEnd)) continue; // generated above
+      // Only a real occurrence of the rule can move
+      if (generateRuleDates(rAny as Rule, startAnchor, occ, addDaysUTC(occ, 1)).length === 0) continue;
+      dates.push(occ);
     }
 
     for (const sched of dates) {
-      if (endDate && isAfter(sched, endDate)) continue;
-
-      // Build base date-only (YYYY-MM-DD) for override matching (LOCAL midnight)
-      const baseISO = format(
-        new Date(sched.getUTCFullYear(), sched.getUTCMonth(), sched.getUTCDate()),
-        'yyyy-MM-dd'
-      );
-      const o = applyOverrides(baseISO, ruleId, overrides as any[]);
-      const finalDateLocal = parseISO(o.dateISO);
+      // Base date-only (YYYY-MM-DD) for override matching
+      const scheduledISO = toISODate(sched);
+      const o = applyOverrides(scheduledISO, ruleId, overrides as any[]);
 
       // Compare in UTC zone to match window bounds & generator candidates
-      const finalDateUTC = toUTCDate(
-        finalDateLocal.getUTCFullYear(),
-        finalDateLocal.getUTCMonth(),
-        finalDateLocal.getUTCDate()
-      );
+      const finalDateUTC = parseDateOnlyUTC(o.dateISO);
       if (!inWindow(finalDateUTC, windowStart, windowEnd)) continue;
 
-      // Final date-only (YYYY-MM-DD) for all UI-facing fields (LOCAL midnight)
-      const iso = format(
-        new Date(finalDateLocal.getUTCFullYear(), finalDateLocal.getUTCMonth(), finalDateLocal.getUTCDate()),
-        'yyyy-MM-dd'
-      );
+      // Final date-only (YYYY-MM-DD) for all UI-facing fields
+      const iso = toISODate(finalDateUTC);
 
       const amount = Number(base?.amount ?? (rAny as any).amount ?? 0);
       const type = String((base?.type ?? (rAny as any).type ?? 'expense')).toLowerCase() as
@@ -288,7 +464,8 @@ function buildRecurringRows(
         rule_id: ruleId,
         // UNIQUE occurrence id (override id wins; else derived)
         occurrence_id: o.occurrence_id ?? `${ruleId}:${iso}`,
-        occurrence_date: iso,
+        // The scheduled date: overrides are keyed on it, even once postponed
+        occurrence_date: scheduledISO,
         amount,
         type,
         category,
@@ -314,19 +491,16 @@ export function unifyRows(
   // Normalize month window bounds to a single timezone (UTC) before all comparisons.
   // Keep [start inclusive, end exclusive] semantics.
   // IMPORTANT: End = start of next month (exclusive) so the last calendar day is included.
-  const startLocal = parseISO(month_start);
-  const windowStart = toUTCDate(startLocal.getFullYear(), startLocal.getMonth(), startLocal.getDate());
-  const startOfNextMonthLocal = addMonths(startLocal, 1);
-  const windowEnd = toUTCDate(
-    startOfNextMonthLocal.getFullYear(),
-    startOfNextMonthLocal.getMonth(),
-    startOfNextMonthLocal.getDate()
-  );
+  const windowStart = parseDateOnlyUTC(month_start);
+  const y = windowStart.getUTCFullYear();
+  const m = windowStart.getUTCMonth() + 1;
+  const windowEnd = toUTCDate(y, m, clampDay(y, m, windowStart.getUTCDate()));
 
   const oneTime = buildOneTimeRows(entries, windowStart, windowEnd);
   const recurring = buildRecurringRows(entries, rules, overrides, windowStart, windowEnd);
 
-  // Combine and DE-DUPE
+  // Combine and DE-DUPE. Recurring rows are keyed by their scheduled date, so an
+  // occurrence postponed onto another occurrence's date keeps both rows.
   const combined = oneTime.concat(recurring);
   const seen = new Set<string>();
   const deduped: UnifiedRow[] = [];
@@ -335,7 +509,7 @@ export function unifyRows(
     const eff = String(r.effective_date ?? r.due_date ?? r.date ?? '');
     const key =
       r.kind === 'recurring'
-        ? `rec|${String(r.rule_id)}|${eff}`
+        ? `rec|${String(r.rule_id)}|${String(r.occurrence_date ?? eff)}`
         : `one|${String(r.id)}|${eff}`;
     if (seen.has(key)) continue;
     seen.add(key);
@@ -356,10 +530,17 @@ export function unifyRows(
   return deduped;
 }
 
-export function computeTotals(rows: UnifiedRow[]): Totals {
+/**
+ * Period totals. With `categories`, expense spend is also broken down per
+ * category and compared against each category's monthly_limit; categories with
+ * a limit are listed even when nothing was spent. Unknown keys (e.g. a deleted
+ * category) are reported under their raw key with no limit.
+ */
+export function computeTotals(rows: UnifiedRow[], categories: BudgetCategory[] = []): Totals {
   let total_income = 0;
   let total_expenses = 0;
   let unpaid_expenses = 0;
+  const spentByKey = new Map<string, number>();
 
   for (const r of rows as any[]) {
     const amount = Number(r.amount ?? 0);
@@ -374,11 +555,34 @@ export function computeTotals(rows: UnifiedRow[]): Totals {
       // Remaining-to-pay is the sum of UNPAID expenses only
       const isPaid = Boolean((r as any).is_paid);
       if (!isPaid) unpaid_expenses += absAmount;
+
+      const key = String(r.category ?? '');
+      spentByKey.set(key, (spentByKey.get(key) ?? 0) + absAmount);
     }
   }
 
+  const byKey = new Map(categories.map((c) => [c.key, c]));
+  const keys = new Set<string>(spentByKey.keys());
+  for (const c of categories) if (c.type === 'expense' && c.monthly_limit != null) keys.add(c.key);
+
+  const by_category: CategoryTotal[] = [...keys]
+    .map((key) => {
+      const c = byKey.get(key);
+      const spent = spentByKey.get(key) ?? 0;
+      const limit = c?.monthly_limit != null ? Number(c.monthly_limit) : null;
+      return {
+        key,
+        name: c?.name ?? key.replaceAll('_', ' '),
+        color: c?.color ?? '#94a3b8',
+        spent,
+        limit,
+        over_budget: limit != null && spent > limit,
+      };
+    })
+    .sort((a, b) => b.spent - a.spent);
+
   const remaining_to_pay = unpaid_expenses;
-  return { total_income, total_expenses, remaining_to_pay };
+  return { total_income, total_expenses, remaining_to_pay, by_category };
 }
 
 export function computeSnapshot(inputs: {
@@ -388,8 +592,9 @@ export function computeSnapshot(inputs: {
   month_start: string;
   month_end: string;
   today_local: string;
+  categories?: BudgetCategory[];
 }): Snapshot {
-  const { entries, rules, overrides, month_start, month_end, today_local } = inputs;
+  const { entries, rules, overrides, month_start, month_end, today_local, categories } = inputs;
 
   const rows = unifyRows(entries ?? [], rules ?? [], overrides ?? [], month_start, month_end);
 
@@ -401,6 +606,508 @@ export function computeSnapshot(inputs: {
     return { ...r, status: nextStatus } as UnifiedRow;
   });
 
-  const totals = computeTotals(rowsWithStatus);
+  const totals = computeTotals(rowsWithStatus, categories);
   return { month_start, month_end, rows: rowsWithStatus, totals };
-}
\ No newline at end of file
+}
+
+/** Forecast horizon bounds (months) */
+export const FORECAST_MIN_MONTHS = 3;
+export const FORECAST_MAX_MONTHS = 12;
+
+/**
+ * Multi-month cash-flow forecast. Each month is unified exactly like a month
+ * snapshot (same generators and overrides), then income and expenses are
+ * walked in date order from `opening_balance` to get the running balance.
+ * `opening_balance` is the balance on the first day of `start_month`.
+ */
+export function computeForecast(inputs: {
+  entries: OneTimeEntry[];
+  rules: Rule[];
+  overrides: Override[];
+  start_month: string; // YYYY-MM-DD, first day of the first month
+  months: number;
+  opening_balance: number;
+}): Forecast {
+  const { entries, rules, overrides, start_month, opening_balance } = inputs;
+  const count = Math.max(FORECAST_MIN_MONTHS, Math.min(FORECAST_MAX_MONTHS, Math.trunc(inputs.months)));
+  const first = parseISO(start_month);
+
+  const months: ForecastMonth[] = [];
+  let balance = opening_balance;
+
+  for (let i = 0; i < count; i++) {
+    const start = addMonths(first, i);
+    const month_start = format(start, 'yyyy-MM-dd');
+    const month_end = format(endOfMonth(start), 'yyyy-MM-dd');
+
+    const rows = unifyRows(entries ?? [], rules ?? [], overrides ?? [], month_start, month_end);
+    const { total_income, total_expenses } = computeTotals(rows);
+
+    // Rows are sorted by effective_date; take the lowest point after each day settles
+    const opening = balance;
+    let low = balance;
+    let day = '';
+    for (const r of rows) {
+      if (r.effective_date !== day) {
+        low = Math.min(low, balance);
+        day = r.effective_date;
+      }
+      const amount = Number(r.amount ?? 0);
+      // Same sign handling as computeTotals
+      balance += String(r.type ?? 'expense').toLowerCase() === 'income' ? amount : -Math.abs(amount);
+    }
+    low = Math.min(low, balance);
+
+    months.push({
+      month_start,
+      month_end,
+      income: total_income,
+      expenses: total_expenses,
+      net: total_income - total_expenses,
+      opening_balance: opening,
+      closing_balance: balance,
+      low_balance: low,
+    });
+  }
+
+  const firstNegative = months.find((m) => m.low_balance < 0);
+  return { opening_balance, months, first_negative_month: firstNegative?.month_start ?? null };
+}
+
+/** How many one-time expenses / late payments the year report lists */
+export const YEAR_REPORT_TOP_COUNT = 10;
+
+/**
+ * Year in review. Runs computeSnapshot for each month of `year` and rolls the
+ * months up: income vs. expenses, spend per category, the largest one-time
+ * expenses and how often expenses were paid after their effective date.
+ * A payment's date comes from the entry's `paid_on` or the paid override's.
+ */
+export function computeYearReport(inputs: {
+  entries: OneTimeEntry[];
+  rules: Rule[];
+  overrides: Override[];
+  year: number;
+  today_local: string;
+  categories?: BudgetCategory[];
+}): YearReport {
+  const { entries, rules, overrides, year, today_local, categories = [] } = inputs;
+
+  const entryPaidOn = new Map<string, string>();
+  for (const e of entries ?? []) if (e.paid_on) entryPaidOn.set(String(e.id), String(e.paid_on).slice(0, 10));
+  const occurrencePaidOn = new Map<string, string>();
+  for (const o of overrides ?? []) {
+    if (o.override_type === 'paid' && o.paid_on) {
+      occurrencePaidOn.set(`${o.rule_id}|${String(o.occurrence_date).slice(0, 10)}`, String(o.paid_on).slice(0, 10));
+    }
+  }
+
+  const months: YearReportMonth[] = [];
+  const categorySpend = new Map<string, CategoryTotal>();
+  const oneTimeExpenses: UnifiedRow[] = [];
+  const late_payments: LatePayment[] = [];
+  let paid_count = 0;
+
+  for (let m = 0; m < 12; m++) {
+    const first = toUTCDate(year, m, 1);
+    const month_start = toISODate(first);
+    const month_end = toISODate(toUTCDate(year, m, daysInMonthUTC(year, m)));
+    const snap = computeSnapshot({ entries, rules, overrides, month_start, month_end, today_local, categories });
+
+    const by_category: Record<string, number> = {};
+    for (const c of snap.totals.by_category) {
+      if (c.spent > 0) by_category[c.key] = c.spent;
+      const acc = categorySpend.get(c.key);
+      if (acc) acc.spent += c.spent;
+      else categorySpend.set(c.key, { ...c, limit: c.limit != null ? c.limit * 12 : null });
+    }
+
+    let monthPaid = 0;
+    let monthLate = 0;
+    for (const r of snap.rows) {
+      if (r.type !== 'expense') continue;
+      if (r.kind === 'one_time') oneTimeExpenses.push(r);
+      if (!r.is_paid) continue;
+
+      monthPaid++;
+      const paidOn =
+        r.kind === 'one_time' ? entryPaidOn.get(String(r.id)) : occurrencePaidOn.get(`${r.rule_id}|${r.occurrence_date}`);
+      if (!paidOn || paidOn <= r.effective_date) continue;
+
+      monthLate++;
+      late_payments.push({
+        description: r.description,
+        category: r.category,
+        amount: Math.abs(Number(r.amount ?? 0)),
+        effective_date: r.effective_date,
+        paid_on: paidOn,
+        days_late: Math.round(
+          (parseDateOnlyUTC(paidOn).getTime() - parseDateOnlyUTC(r.effective_date).getTime()) / 86_400_000
+        ),
+      });
+    }
+    paid_count += monthPaid;
+
+    months.push({
+      month_start,
+      income: snap.totals.total_income,
+      expenses: snap.totals.total_expenses,
+      net: snap.totals.total_income - snap.totals.total_expenses,
+      by_category,
+      paid_count: monthPaid,
+      late_count: monthLate,
+    });
+  }
+
+  const income = months.reduce((sum, m) => sum + m.income, 0);
+  const expenses = months.reduce((sum, m) => sum + m.expenses, 0);
+  const late_count = late_payments.length;
+
+  return {
+    year,
+    months,
+    totals: { income, expenses, net: income - expenses },
+    categories: [...categorySpend.values()]
+      .filter((c) => c.spent > 0 || c.limit != null)
+      .map((c) => ({ ...c, over_budget: c.limit != null && c.spent > c.limit }))
+      .sort((a, b) => b.spent - a.spent),
+    top_expenses: oneTimeExpenses
+      .sort((a, b) => Math.abs(Number(b.amount)) - Math.abs(Number(a.amount)))
+      .slice(0, YEAR_REPORT_TOP_COUNT),
+    paid_count,
+    late_count,
+    average_days_late: late_count ? late_payments.reduce((sum, p) => sum + p.days_late, 0) / late_count : 0,
+    late_payments: late_payments.sort((a, b) => b.days_late - a.days_late).slice(0, YEAR_REPORT_TOP_COUNT),
+  };
+}
+
+/**
+ * Splits what is left of a savings goal over monthly contributions on `dom`
+ * from `fromISO` through `target_date`. The amount is rounded up to the cent so
+ * the goal is never short; a target date with no contribution day left before
+ * it gets the whole remainder at once.
+ */
+export function planGoalContributions(inputs: {
+  remaining: number;
+  dom: number;
+  fromISO: string; // YYYY-MM-DD
+  target_date: string; // YYYY-MM-DD
+}): { count: number; amount: number } {
+  const { remaining, dom, fromISO, target_date } = inputs;
+  const from = parseDateOnlyUTC(fromISO);
+  const count = generateMonthlyDates(from, normalizeInterval(dom), 1, from, addDaysUTC(parseDateOnlyUTC(target_date), 1)).length;
+  if (remaining <= 0) return { count, amount: 0 };
+  return { count, amount: Math.ceil((remaining / Math.max(1, count)) * 100) / 100 };
+}
+
+/**
+ * Progress of a savings goal. `rules` are the versions of the goal's rule
+ * (a contribution change splits it); every paid occurrence counts at the
+ * amount of the version it was paid under. The target follows
+ * `shopping_total` when the goal is linked to the shopping list.
+ */
+export function computeGoalProgress(inputs: {
+  goal: SavingsGoal;
+  rules: Rule[];
+  overrides: Override[];
+  shopping_total?: number | null;
+  today_local: string;
+}): GoalProgress {
+  const { goal, rules, overrides, shopping_total, today_local } = inputs;
+  const ruleById = new Map(rules.map((r) => [String(r.id), r]));
+  const current = goal.rule_id ? ruleById.get(String(goal.rule_id)) : undefined;
+
+  let contributed = 0;
+  let contributions_paid = 0;
+  const paidDates = new Set<string>();
+  for (const o of overrides ?? []) {
+    const r = ruleById.get(String(o.rule_id));
+    if (!r || o.override_type !== 'paid') continue;
+    contributed += Math.abs(Number(r.amount ?? 0));
+    contributions_paid++;
+    if (r === current) paidDates.add(String(o.occurrence_date).slice(0, 10));
+  }
+
+  const target = Number(goal.link_shopping && shopping_total != null ? shopping_total : goal.target_amount) || 0;
+  const saved = Number(goal.starting_amount ?? 0) + contributed;
+  const remaining = Math.max(0, target - saved);
+
+  // Contributions still scheduled: today through the target date, not yet paid
+  const contributions_left = current
+    ? generateRuleDates(
+        current,
+        parseDateOnlyUTC(current.start_anchor),
+        parseDateOnlyUTC(today_local),
+        addDaysUTC(parseDateOnlyUTC(goal.target_date), 1)
+      ).filter((d) => !paidDates.has(toISODate(d))).length
+    : 0;
+  const monthly_contribution = current ? Math.abs(Number(current.amount ?? 0)) : 0;
+  const monthly_needed = remaining > 0 ? Math.ceil((remaining / Math.max(1, contributions_left)) * 100) / 100 : 0;
+
+  return {
+    goal,
+    target,
+    saved,
+    remaining,
+    percent: target > 0 ? Math.min(100, (saved / target) * 100) : 100,
+    contributions_paid,
+    contributions_left,
+    monthly_contribution,
+    monthly_needed,
+    on_track: remaining === 0 || (contributions_left > 0 && monthly_contribution * contributions_left >= remaining - 0.005),
+  };
+}
+
+const cents = (n: number) => Math.round(n * 100) / 100;
+
+/** Simple daily interest on `balance` at `apr` percent over `days` */
+function dailyInterest(balance: number, apr: number, days: number) {
+  return days > 0 ? (balance * (apr / 100) * days) / 365 : 0;
+}
+
+/**
+ * Current balance of a loan. Starting from `principal` on `balance_date`, each
+ * paid occurrence of the loan's rule (any version in `rules`) accrues daily
+ * interest since the previous payment and then pays down the balance by the
+ * rule amount. Interest accrued since the last payment is added up to today.
+ */
+export function computeLoanStatus(inputs: {
+  loan: BudgetLoan;
+  rules: Rule[];
+  overrides: Override[];
+  today_local: string;
+}): LoanStatus {
+  const { loan, rules, overrides, today_local } = inputs;
+  const ruleById = new Map(rules.map((r) => [String(r.id), r]));
+  const apr = Number(loan.apr ?? 0);
+  const day = (iso: string) => parseDateOnlyUTC(iso).getTime() / 86_400_000;
+
+  const payments = (overrides ?? [])
+    .filter((o) => o.override_type === 'paid' && ruleById.has(String(o.rule_id)))
+    .map((o) => ({
+      date: String(o.paid_on ?? o.occurrence_date).slice(0, 10),
+      amount: Math.abs(Number(ruleById.get(String(o.rule_id))!.amount ?? 0)),
+    }))
+    .filter((p) => p.date > loan.balance_date && p.date <= today_local)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  let balance = Number(loan.principal ?? 0);
+  let last = loan.balance_date;
+  let interest_paid = 0;
+  let principal_paid = 0;
+  for (const p of payments) {
+    const interest = dailyInterest(balance, apr, day(p.date) - day(last));
+    const paid = Math.min(p.amount, balance + interest);
+    interest_paid += Math.min(interest, paid);
+    principal_paid += paid - Math.min(interest, paid);
+    balance = balance + interest - paid;
+    last = p.date;
+  }
+  balance += dailyInterest(balance, apr, day(today_local) - day(last));
+
+  const current = rules.find((r) => !rules.some((s) => s.previous_rule_id === r.id)) ?? rules[0];
+  return {
+    loan,
+    description: current?.description ?? '',
+    balance: cents(Math.max(0, balance)),
+    interest_paid: cents(interest_paid),
+    principal_paid: cents(principal_paid),
+    payments_count: payments.length,
+    last_payment_on: payments.length ? payments[payments.length - 1].date : null,
+  };
+}
+
+/** A plan gives up after this many months (a loan whose minimum never covers its interest) */
+export const PAYOFF_MAX_MONTHS = 600;
+
+/**
+ * Month-by-month payoff of all loans with a fixed monthly budget: the sum of
+ * the minimum payments plus `extra`. Each month accrues interest (APR / 12),
+ * pays every minimum, then puts what is left toward one loan at a time:
+ * smallest balance first (snowball) or highest APR first (avalanche). A paid-off
+ * loan's minimum rolls over into the extra.
+ */
+export function planDebtPayoff(inputs: {
+  loans: { id: string; description: string; balance: number; apr: number; minimum_payment: number }[];
+  strategy: PayoffStrategy;
+  extra: number;
+  start_month: string; // YYYY-MM-DD, first month a payment is made
+}): PayoffPlan {
+  const { loans, strategy, start_month } = inputs;
+  const extra = Math.max(0, Number(inputs.extra) || 0);
+  const start = parseDateOnlyUTC(start_month);
+  const monthly_budget = cents(loans.reduce((sum, l) => sum + Math.max(0, Number(l.minimum_payment) || 0), 0) + extra);
+
+  const state = loans.map((l) => ({
+    ...l,
+    apr: Number(l.apr) || 0,
+    minimum_payment: Math.max(0, Number(l.minimum_payment) || 0),
+    owed: Math.max(0, Number(l.balance) || 0),
+    payoff_month: null as string | null,
+    total_interest: 0,
+    schedule: [] as AmortizationRow[],
+  }));
+  const focusOrder = [...state].sort((a, b) =>
+    strategy === 'snowball' ? a.owed - b.owed || b.apr - a.apr : b.apr - a.apr || a.owed - b.owed
+  );
+
+  const balances: PayoffPlan['balances'] = [];
+  let total = state.reduce((sum, l) => sum + l.owed, 0);
+  let months: number | null = total > 0.005 ? null : 0;
+
+  for (let i = 0; i < PAYOFF_MAX_MONTHS && total > 0.005; i++) {
+    const month_start = toISODate(toUTCDate(start.getUTCFullYear(), start.getUTCMonth() + i, 1));
+    const open = state.filter((l) => l.owed > 0.005);
+    const paid = new Map<(typeof state)[number], { payment: number; interest: number }>();
+
+    for (const l of open) {
+      const interest = (l.owed * l.apr) / 100 / 12;
+      l.owed += interest;
+      l.total_interest += interest;
+      paid.set(l, { payment: 0, interest });
+    }
+
+    let available = monthly_budget;
+    const pay = (l: (typeof state)[number], amount: number) => {
+      const p = Math.min(amount, l.owed, available);
+      l.owed -= p;
+      available -= p;
+      paid.get(l)!.payment += p;
+    };
+    for (const l of open) pay(l, l.minimum_payment);
+    for (const l of focusOrder) if (l.owed > 0.005 && available > 0.005) pay(l, available);
+
+    for (const l of open) {
+      const { payment, interest } = paid.get(l)!;
+      if (l.owed <= 0.005) {
+        l.owed = 0;
+        l.payoff_month = month_start;
+      }
+      l.schedule.push({
+        month_start,
+        payment: cents(payment),
+        interest: cents(interest),
+        principal: cents(payment - interest),
+        balance: cents(l.owed),
+      });
+    }
+
+    const next = state.reduce((sum, l) => sum + l.owed, 0);
+    balances.push({ month_start, balance: cents(next) });
+    if (next <= 0.005) months = i + 1;
+    // Payments don't even cover the interest: this never gets paid off
+    if (next >= total) break;
+    total = next;
+  }
+
+  const payoffs: LoanPayoff[] = state
+    .map((l) => ({
+      loan_id: l.id,
+      description: l.description,
+      payoff_month: l.payoff_month ?? (l.owed > 0.005 ? null : start_month),
+      total_interest: cents(l.total_interest),
+      schedule: l.schedule,
+    }))
+    .sort((a, b) => (a.payoff_month ?? '9999').localeCompare(b.payoff_month ?? '9999'));
+
+  return {
+    strategy,
+    monthly_budget,
+    months,
+    payoff_month: months === null ? null : balances[balances.length - 1]?.month_start ?? start_month,
+    total_interest: cents(state.reduce((sum, l) => sum + l.total_interest, 0)),
+    loans: payoffs,
+    balances,
+  };
+}
+
+/**
+ * Reconciled account balances. Every paid entry (`paid_on`) and paid override
+ * posts against its `account_id`; the balance is the account's opening balance
+ * plus postings from `opening_date` through `as_of`. Ledger lines are limited
+ * to [month_start, month_end] so the panel lines up with the month snapshot.
+ * `rules` must include every rule referenced by the overrides (active or not).
+ */
+export function computeAccountLedger(inputs: {
+  accounts: BudgetAccount[];
+  entries: OneTimeEntry[];
+  rules: Rule[];
+  overrides: Override[];
+  as_of: string; // YYYY-MM-DD
+  month_start: string;
+  month_end: string;
+}): AccountLedger {
+  const { accounts, entries, rules, overrides, as_of, month_start, month_end } = inputs;
+  const ruleById = new Map<string, Rule>();
+  for (const r of rules ?? []) ruleById.set(String(r.id), r);
+
+  type Posting = Omit<LedgerLine, 'balance'> & { account_id: string | null };
+  const postings: Posting[] = [];
+  const signed = (type: unknown, amount: unknown) => {
+    const n = Number(amount ?? 0);
+    // Same sign handling as computeTotals
+    return String(type ?? 'expense').toLowerCase() === 'income' ? n : -Math.abs(n);
+  };
+
+  for (const e of (entries ?? []) as any[]) {
+    if (!e?.paid_on) continue;
+    postings.push({
+      account_id: e.account_id ?? null,
+      date: String(e.paid_on).slice(0, 10),
+      description: String(e.description ?? ''),
+      category: e.category,
+      kind: 'one_time',
+      source_id: String(e.id),
+      amount: signed(e.type, e.amount),
+    });
+  }
+
+  for (const o of (overrides ?? []) as any[]) {
+    if (String(o?.override_type ?? '').toLowerCase() !== 'paid' || !o.paid_on) continue;
+    const rule = ruleById.get(String(o.rule_id));
+    if (!rule) continue;
+    postings.push({
+      account_id: o.account_id ?? null,
+      date: String(o.paid_on).slice(0, 10),
+      description: String(rule.description ?? ''),
+      category: rule.category,
+      kind: 'recurring',
+      source_id: String(o.id),
+      amount: signed(rule.type, rule.amount),
+    });
+  }
+
+  postings.sort((a, b) => a.date.localeCompare(b.date) || a.source_id.localeCompare(b.source_id));
+
+  const balances: AccountBalance[] = (accounts ?? []).map((account) => {
+    const opening = Number(account.opening_balance ?? 0);
+    let balance = opening;
+    let month_opening_balance = opening;
+    let month_income = 0;
+    let month_expenses = 0;
+    const lines: LedgerLine[] = [];
+
+    for (const p of postings) {
+      if (p.account_id !== account.id) continue;
+      if (p.date < account.opening_date || p.date > as_of) continue;
+
+      balance += p.amount;
+      if (p.date < month_start) {
+        month_opening_balance = balance;
+      } else if (p.date <= month_end) {
+        if (p.amount >= 0) month_income += p.amount;
+        else month_expenses += -p.amount;
+        const { account_id: _account, ...line } = p;
+        lines.push({ ...line, balance });
+      }
+    }
+
+    return { account, balance, month_opening_balance, month_income, month_expenses, lines };
+  });
+
+  const unassigned = postings.filter(
+    (p) => !p.account_id && p.date >= month_start && p.date <= month_end && p.date <= as_of
+  ).length;
+
+  return { as_of, accounts: balances, unassigned };
+}
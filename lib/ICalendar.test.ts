@@ -0,0 +1,159 @@
+import { describe, expect, it } from 'vitest';
+import { buildICS, buildVTimezone, parseICS } from '@/lib/ICalendar';
+import type { IcsEvent } from '@/lib/types';
+
+/* =========================
+   FIXTURES
+   ========================= */
+
+const NY = 'America/New_York';
+
+const ics = (...lines: string[]) => ['BEGIN:VCALENDAR', 'VERSION:2.0', ...lines, 'END:VCALENDAR'].join('\r\n');
+
+function event(fields: Partial<IcsEvent> = {}): IcsEvent {
+  return {
+    uid: 'evt-1@example.com',
+    recurrence_id: null,
+    title: 'Standup',
+    start_ts: '2025-03-03T14:00:00.000Z',
+    end_ts: '2025-03-03T14:30:00.000Z',
+    all_day: false,
+    timezone: NY,
+    rrule: null,
+    exdates: [],
+    location: null,
+    notes: null,
+    categories: [],
+    ...fields,
+  };
+}
+
+/* =========================
+   parseICS
+   ========================= */
+
+describe('parseICS', () => {
+  it('reads TZID, UTC and floating times', () => {
+    const { events } = parseICS(
+      ics(
+        'BEGIN:VEVENT', 'UID:a', 'DTSTART;TZID=Europe/Madrid:20250704T100000', 'DTEND;TZID=Europe/Madrid:20250704T110000', 'SUMMARY:Madrid', 'END:VEVENT',
+        'BEGIN:VEVENT', 'UID:b', 'DTSTART:20250704T100000Z', 'SUMMARY:Zulu', 'END:VEVENT',
+        'BEGIN:VEVENT', 'UID:c', 'DTSTART:20250704T100000', 'DURATION:PT45M', 'SUMMARY:Floating', 'END:VEVENT'
+      ),
+      NY
+    );
+    expect(events.map((e) => [e.uid, e.start_ts, e.end_ts, e.timezone])).toEqual([
+      ['a', '2025-07-04T08:00:00.000Z', '2025-07-04T09:00:00.000Z', 'Europe/Madrid'],
+      ['b', '2025-07-04T10:00:00.000Z', null, null],
+      ['c', '2025-07-04T14:00:00.000Z', '2025-07-04T14:45:00.000Z', NY],
+    ]);
+  });
+
+  it('keeps all-day dates at local midnight with an exclusive end', () => {
+    const { events } = parseICS(
+      ics('BEGIN:VEVENT', 'UID:d', 'DTSTART;VALUE=DATE:20251102', 'SUMMARY:Day off', 'END:VEVENT'),
+      NY
+    );
+    expect(events[0]).toMatchObject({
+      all_day: true,
+      timezone: NY,
+      start_ts: '2025-11-02T04:00:00.000Z', // EDT midnight
+      end_ts: '2025-11-03T05:00:00.000Z', // EST midnight, the day after the DST change
+    });
+  });
+
+  it('unfolds lines, unescapes text and ignores nested components', () => {
+    const { events } = parseICS(
+      ics(
+        'BEGIN:VEVENT',
+        'UID:e',
+        'DTSTART:20250101T090000Z',
+        'SUMMARY:Review\\, then ship',
+        'DESCRIPTION:Line one\\nLine ',
+        ' two',
+        'BEGIN:VALARM',
+        'DESCRIPTION:Reminder',
+        'END:VALARM',
+        'LOCATION:"Room; 4"',
+        'END:VEVENT'
+      ),
+      NY
+    );
+    expect(events[0]).toMatchObject({ title: 'Review, then ship', notes: 'Line one\nLine two', location: '"Room; 4"' });
+  });
+
+  it('keeps recurrence, exceptions and modified occurrences', () => {
+    const { events, skipped } = parseICS(
+      ics(
+        'BEGIN:VEVENT', 'UID:s', 'DTSTART;TZID=America/New_York:20250303T090000', 'RRULE:FREQ=WEEKLY;BYDAY=MO',
+        'EXDATE;TZID=America/New_York:20250310T090000,20250317T090000', 'SUMMARY:Weekly', 'END:VEVENT',
+        'BEGIN:VEVENT', 'UID:s', 'RECURRENCE-ID;TZID=America/New_York:20250324T090000',
+        'DTSTART;TZID=America/New_York:20250324T100000', 'SUMMARY:Weekly (late)', 'END:VEVENT',
+        'BEGIN:VEVENT', 'UID:s', 'RECURRENCE-ID;TZID=America/New_York:20250331T090000',
+        'DTSTART;TZID=America/New_York:20250331T090000', 'STATUS:CANCELLED', 'END:VEVENT'
+      ),
+      NY
+    );
+    expect(skipped).toBe(1);
+    expect(events).toHaveLength(2);
+    expect(events[0]).toMatchObject({
+      rrule: 'FREQ=WEEKLY;BYDAY=MO',
+      exdates: ['2025-03-10T13:00:00.000Z', '2025-03-17T13:00:00.000Z', '2025-03-31T13:00:00.000Z'],
+    });
+    expect(events[1]).toMatchObject({ recurrence_id: '2025-03-24T13:00:00.000Z', start_ts: '2025-03-24T14:00:00.000Z' });
+  });
+
+  it('falls back to a stable UID and skips events without a start', () => {
+    const file = ics(
+      'BEGIN:VEVENT', 'DTSTART:20250101T090000Z', 'SUMMARY:No uid', 'END:VEVENT',
+      'BEGIN:VEVENT', 'UID:x', 'SUMMARY:No start', 'END:VEVENT'
+    );
+    const first = parseICS(file, NY);
+    expect(first.skipped).toBe(1);
+    expect(first.events[0].uid).toMatch(/^ics-/);
+    expect(parseICS(file, NY).events[0].uid).toBe(first.events[0].uid);
+  });
+});
+
+/* =========================
+   buildICS
+   ========================= */
+
+describe('buildICS', () => {
+  const now = new Date('2025-03-01T00:00:00Z');
+
+  it('round-trips through parseICS', () => {
+    const events = [
+      event({ rrule: 'FREQ=WEEKLY;BYDAY=MO', exdates: ['2025-03-10T14:00:00.000Z'], notes: 'Agenda; notes, and\nmore', categories: ['Work'] }),
+      event({ uid: 'evt-2', title: 'Holiday', all_day: true, timezone: null, start_ts: '2025-07-04T04:00:00.000Z', end_ts: null }),
+      event({ uid: 'evt-1@example.com', recurrence_id: '2025-03-17T13:00:00.000Z', start_ts: '2025-03-17T15:00:00.000Z', end_ts: null }),
+    ];
+    const { events: parsed } = parseICS(buildICS(events, { name: 'Agenda', defaultTz: NY, now }), NY);
+
+    expect(parsed[0]).toEqual(events[0]);
+    expect(parsed[1]).toMatchObject({ all_day: true, start_ts: '2025-07-04T04:00:00.000Z', end_ts: '2025-07-05T04:00:00.000Z' });
+    expect(parsed[2]).toMatchObject({ recurrence_id: '2025-03-17T13:00:00.000Z', start_ts: '2025-03-17T15:00:00.000Z' });
+  });
+
+  it('writes CRLF lines folded at 75 octets', () => {
+    const out = buildICS([event({ title: 'ü'.repeat(60) })], { name: 'Agenda', defaultTz: NY, now });
+    const lines = out.split('\r\n');
+    expect(out.endsWith('\r\n')).toBe(true);
+    expect(lines.every((l) => new TextEncoder().encode(l).length <= 75)).toBe(true);
+    expect(lines.some((l) => l.startsWith(' '))).toBe(true);
+  });
+});
+
+describe('buildVTimezone', () => {
+  it('emits the DST transitions of the zone', () => {
+    const lines = buildVTimezone(NY, 2025, 2025).join('\n');
+    expect(lines).toContain('BEGIN:DAYLIGHT\nDTSTART:20250309T020000\nTZOFFSETFROM:-0500\nTZOFFSETTO:-0400');
+    expect(lines).toContain('BEGIN:STANDARD\nDTSTART:20251102T020000\nTZOFFSETFROM:-0400\nTZOFFSETTO:-0500');
+  });
+
+  it('emits a single observance for zones without DST', () => {
+    const lines = buildVTimezone('Asia/Tokyo', 2025, 2026);
+    expect(lines.filter((l) => l.startsWith('BEGIN:STANDARD'))).toHaveLength(1);
+    expect(lines).toContain('TZOFFSETTO:+0900');
+  });
+});
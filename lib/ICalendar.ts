@@ -0,0 +1,413 @@
+// lib/ICalendar.ts
+// iCalendar (RFC 5545) reading and writing for the Agenda feed and .ics import.
+// Pure functions only; persistence lives in app/(app)/agenda/actions.ts and app/api/agenda/feed.
+
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+import type { IcsEvent } from '@/lib/types';
+
+/** Domain part of the UIDs given to events that were created in the app */
+export const ICS_UID_DOMAIN = 'business-software';
+
+const PRODID = '-//Business Software//Agenda//EN';
+const DAY_MS = 86_400_000;
+
+type Property = { name: string; params: Record<string, string>; value: string };
+
+/* =========================
+   PARSING
+   ========================= */
+
+function hashId(parts: string[]) {
+  // djb2 over the joined parts; stable across imports of the same file
+  let h = 5381;
+  const str = parts.join('|');
+  for (let i = 0; i < str.length; i++) h = ((h << 5) + h + str.charCodeAt(i)) | 0;
+  return `ics-${(h >>> 0).toString(36)}`;
+}
+
+/** True when the runtime knows the IANA zone */
+export function isValidTimeZone(tz: string | null | undefined): tz is string {
+  if (!tz) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function unescapeText(value: string) {
+  return value.replace(/\\([\\;,nN])/g, (_, c: string) => (c === 'n' || c === 'N' ? '\n' : c));
+}
+
+/** Splits "NAME;P1=a;P2="b;c":value" — colons and semicolons inside quotes are data */
+function parseContentLine(line: string): Property | null {
+  let quoted = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    const c = line[i];
+    if (c === '"') quoted = !quoted;
+    else if (c === ':' && !quoted) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon < 0) return null;
+
+  const head: string[] = [];
+  let part = '';
+  quoted = false;
+  for (const c of line.slice(0, colon)) {
+    if (c === '"') quoted = !quoted;
+    if (c === ';' && !quoted) {
+      head.push(part);
+      part = '';
+    } else {
+      part += c;
+    }
+  }
+  head.push(part);
+
+  const params: Record<string, string> = {};
+  for (const p of head.slice(1)) {
+    const eq = p.indexOf('=');
+    if (eq > 0) params[p.slice(0, eq).toUpperCase()] = p.slice(eq + 1).replace(/^"|"$/g, '');
+  }
+  return { name: head[0].toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+function addDaysYMD(ymd: string, days: number) {
+  const d = new Date(Date.UTC(+ymd.slice(0, 4), +ymd.slice(4, 6) - 1, +ymd.slice(6, 8) + days));
+  return d.toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+function ymdToMidnight(ymd: string, tz: string) {
+  return fromZonedTime(`${ymd.slice(0, 4)}-${ymd.slice(4, 6)}-${ymd.slice(6, 8)}T00:00:00`, tz).toISOString();
+}
+
+/**
+ * One DATE or DATE-TIME value to a UTC ISO string. DATEs become local midnight;
+ * floating times and unknown TZIDs are read in `defaultTz`. `tz` is the zone the
+ * value was read in (null for UTC times).
+ */
+function parseDateValue(value: string, params: Record<string, string>, defaultTz: string) {
+  const v = value.trim();
+  const tzid = isValidTimeZone(params.TZID) ? params.TZID : null;
+
+  if (/^\d{8}$/.test(v)) {
+    return { iso: ymdToMidnight(v, tzid ?? defaultTz), ymd: v, all_day: true, tz: tzid ?? defaultTz };
+  }
+  const m = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/.exec(v);
+  if (!m) return null;
+  const local = `${m[1]}-${m[2]}-${m[3]}T${m[4]}:${m[5]}:${m[6]}`;
+  if (m[7]) return { iso: new Date(`${local}Z`).toISOString(), ymd: null, all_day: false, tz: null };
+  return { iso: fromZonedTime(local, tzid ?? defaultTz).toISOString(), ymd: null, all_day: false, tz: tzid ?? defaultTz };
+}
+
+/** "P1DT2H30M" / "PT45M" / "P2W" to { days, ms } — days kept apart so all-day math stays on dates */
+function parseDuration(value: string) {
+  const m = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+  if (!m) return null;
+  const sign = m[1] === '-' ? -1 : 1;
+  const days = sign * (Number(m[2] ?? 0) * 7 + Number(m[3] ?? 0));
+  const ms = sign * ((Number(m[4] ?? 0) * 60 + Number(m[5] ?? 0)) * 60 + Number(m[6] ?? 0)) * 1000;
+  return { days, ms };
+}
+
+function toIcsEvent(props: Property[], defaultTz: string): (IcsEvent & { cancelled: boolean }) | null {
+  const first = (name: string) => props.find((p) => p.name === name);
+  const text = (name: string) => {
+    const p = first(name);
+    const v = p ? unescapeText(p.value).trim() : '';
+    return v || null;
+  };
+
+  const dtstart = first('DTSTART');
+  const start = dtstart ? parseDateValue(dtstart.value, dtstart.params, defaultTz) : null;
+  if (!dtstart || !start) return null;
+
+  const tz = start.tz;
+  const zoneForDates = tz ?? defaultTz;
+  let end_ts: string | null = null;
+  const dtend = first('DTEND');
+  const duration = first('DURATION');
+  if (dtend) {
+    end_ts = parseDateValue(dtend.value, dtend.params, defaultTz)?.iso ?? null;
+  } else if (duration) {
+    const d = parseDuration(duration.value);
+    if (d && start.all_day && start.ymd) end_ts = ymdToMidnight(addDaysYMD(start.ymd, d.days), zoneForDates);
+    else if (d) end_ts = new Date(Date.parse(start.iso) + d.days * DAY_MS + d.ms).toISOString();
+  } else if (start.all_day && start.ymd) {
+    // RFC 5545: a DATE start without an end spans that one day
+    end_ts = ymdToMidnight(addDaysYMD(start.ymd, 1), zoneForDates);
+  }
+  if (end_ts && end_ts <= start.iso) end_ts = null;
+
+  const exdates: string[] = [];
+  for (const p of props.filter((q) => q.name === 'EXDATE')) {
+    for (const v of p.value.split(',')) {
+      const d = parseDateValue(v, p.params, defaultTz);
+      if (d) exdates.push(d.iso);
+    }
+  }
+
+  const rid = first('RECURRENCE-ID');
+  const recurrence_id = rid ? parseDateValue(rid.value, rid.params, defaultTz)?.iso ?? null : null;
+  const title = text('SUMMARY') ?? '(No title)';
+
+  return {
+    uid: text('UID') ?? hashId([dtstart.value, title]),
+    recurrence_id,
+    title,
+    start_ts: start.iso,
+    end_ts,
+    all_day: start.all_day,
+    timezone: tz,
+    rrule: first('RRULE')?.value.trim() || null,
+    exdates,
+    location: text('LOCATION'),
+    notes: text('DESCRIPTION'),
+    categories: props
+      .filter((p) => p.name === 'CATEGORIES')
+      .flatMap((p) => p.value.split(/(?<!\\),/).map((c) => unescapeText(c).trim()))
+      .filter(Boolean),
+    cancelled: (first('STATUS')?.value ?? '').trim().toUpperCase() === 'CANCELLED',
+  };
+}
+
+/**
+ * Parses the VEVENTs of an .ics file. Times come back as UTC ISO strings;
+ * floating times, DATE values and unknown TZIDs are read in `defaultTz`.
+ * A cancelled modified occurrence becomes an EXDATE on its series; the last
+ * VEVENT wins when a UID (+ RECURRENCE-ID) repeats.
+ */
+export function parseICS(text: string, defaultTz: string): { events: IcsEvent[]; skipped: number } {
+  // Unfold: a line starting with a space or tab continues the previous one
+  const lines = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+
+  const byKey = new Map<string, IcsEvent>();
+  const cancelled: IcsEvent[] = [];
+  let skipped = 0;
+  let current: Property[] | null = null;
+  let nested = 0; // VALARMs etc. inside the VEVENT
+
+  for (const line of lines) {
+    if (!line.trim()) continue;
+    const prop = parseContentLine(line);
+    if (!prop) continue;
+    const value = prop.value.trim().toUpperCase();
+
+    if (prop.name === 'BEGIN') {
+      if (current) nested++;
+      else if (value === 'VEVENT') current = [];
+    } else if (prop.name === 'END') {
+      if (current && nested > 0) nested--;
+      else if (current && value === 'VEVENT') {
+        const ev = toIcsEvent(current, defaultTz);
+        current = null;
+        if (!ev) {
+          skipped++;
+          continue;
+        }
+        const { cancelled: isCancelled, ...event } = ev;
+        if (isCancelled) {
+          skipped++;
+          if (event.recurrence_id) cancelled.push(event);
+          continue;
+        }
+        byKey.set(`${event.uid}|${event.recurrence_id ?? ''}`, event);
+      }
+    } else if (current && nested === 0) {
+      current.push(prop);
+    }
+  }
+
+  for (const c of cancelled) {
+    const master = byKey.get(`${c.uid}|`);
+    if (master && !master.exdates.includes(c.recurrence_id!)) master.exdates.push(c.recurrence_id!);
+  }
+  return { events: [...byKey.values()], skipped };
+}
+
+/* =========================
+   WRITING
+   ========================= */
+
+function escapeText(value: string) {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+/** Folds a content line at 75 octets without splitting a UTF-8 sequence */
+function foldLine(line: string) {
+  const encoder = new TextEncoder();
+  const out: string[] = [];
+  let chunk = '';
+  let octets = 0;
+  for (const ch of line) {
+    const size = encoder.encode(ch).length;
+    const limit = out.length === 0 ? 75 : 74; // continuation lines spend one octet on the leading space
+    if (octets + size > limit) {
+      out.push(chunk);
+      chunk = '';
+      octets = 0;
+    }
+    chunk += ch;
+    octets += size;
+  }
+  out.push(chunk);
+  return out.join('\r\n ');
+}
+
+function utcStamp(iso: string) {
+  return new Date(iso).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function offsetString(ms: number) {
+  const minutes = Math.abs(ms) / 60000;
+  const hh = String(Math.floor(minutes / 60)).padStart(2, '0');
+  const mm = String(minutes % 60).padStart(2, '0');
+  return `${ms < 0 ? '-' : '+'}${hh}${mm}`;
+}
+
+/**
+ * VTIMEZONE for `tz` covering [fromYear, toYear], one observance per UTC offset
+ * change. Transitions are located to the minute from the runtime's zone data.
+ */
+export function buildVTimezone(tz: string, fromYear: number, toYear: number): string[] {
+  // formatInTimeZone reads the instant; date-fns-tz's getTimezoneOffset reads wall-clock fields
+  const offsetAt = (t: number) => {
+    const [, sign, hh, mm] = /([+-])(\d{2}):(\d{2})/.exec(formatInTimeZone(t, tz, 'xxx')) ?? ['', '+', '00', '00'];
+    return (sign === '-' ? -1 : 1) * (Number(hh) * 60 + Number(mm)) * 60_000;
+  };
+  const localStamp = (t: number) => new Date(t).toISOString().slice(0, 19).replace(/[-:]/g, '');
+
+  const start = Date.UTC(fromYear, 0, 1);
+  const end = Date.UTC(toYear + 1, 0, 1);
+  const initial = offsetAt(start);
+  const transitions: { at: number; from: number; to: number }[] = [];
+
+  let prev = initial;
+  for (let t = start; t < end; t += DAY_MS) {
+    const next = offsetAt(t + DAY_MS);
+    if (next === prev) continue;
+    let lo = t;
+    let hi = t + DAY_MS;
+    while (hi - lo > 60_000) {
+      const mid = lo + Math.floor((hi - lo) / 120_000) * 60_000;
+      if (offsetAt(mid) === prev) lo = mid;
+      else hi = mid;
+    }
+    transitions.push({ at: hi, from: prev, to: next });
+    prev = next;
+  }
+
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${tz}`];
+  const observance = (kind: string, dtstart: string, from: number, to: number) => {
+    lines.push(`BEGIN:${kind}`, `DTSTART:${dtstart}`, `TZOFFSETFROM:${offsetString(from)}`, `TZOFFSETTO:${offsetString(to)}`, `END:${kind}`);
+  };
+
+  // The offset in force before the first change in range
+  const initialKind = transitions.length > 0 && transitions[0].to < transitions[0].from ? 'DAYLIGHT' : 'STANDARD';
+  observance(initialKind, localStamp(start + initial), initial, initial);
+  for (const { at, from, to } of transitions) {
+    observance(to > from ? 'DAYLIGHT' : 'STANDARD', localStamp(at + from), from, to);
+  }
+  lines.push('END:VTIMEZONE');
+  return lines;
+}
+
+/**
+ * calendar_events row (with the ICS columns) to the event written in the feed.
+ * Overrides of a series take the series' UID, passed as `seriesUid`.
+ */
+export function calendarRowToIcsEvent(row: {
+  id: string;
+  title: string;
+  start_ts: string;
+  end_ts: string | null;
+  all_day: boolean | null;
+  category: string | null;
+  location: string | null;
+  notes: string | null;
+  ical_uid: string | null;
+  recurrence_id: string | null;
+  rrule: string | null;
+  exdates: string[] | null;
+  timezone: string | null;
+}, seriesUid?: string): IcsEvent {
+  return {
+    uid: seriesUid ?? row.ical_uid ?? `${row.id}@${ICS_UID_DOMAIN}`,
+    recurrence_id: row.recurrence_id ? new Date(row.recurrence_id).toISOString() : null,
+    title: row.title,
+    start_ts: new Date(row.start_ts).toISOString(),
+    end_ts: row.end_ts ? new Date(row.end_ts).toISOString() : null,
+    all_day: !!row.all_day,
+    timezone: row.timezone,
+    rrule: row.rrule,
+    exdates: (row.exdates ?? []).map((d) => new Date(d).toISOString()),
+    location: row.location,
+    notes: row.notes,
+    categories: row.category ? [row.category] : [],
+  };
+}
+
+/**
+ * Serializes events to an iCalendar document (CRLF, folded, escaped). Timed
+ * events are written in their own zone, or `defaultTz`, so recurring events keep
+ * their wall-clock time across DST; all-day events use DATE values.
+ */
+export function buildICS(
+  events: IcsEvent[],
+  opts: { name: string; defaultTz: string; now?: Date }
+): string {
+  const dtstamp = utcStamp((opts.now ?? new Date()).toISOString());
+  const zones = new Set<string>();
+  let minYear = (opts.now ?? new Date()).getUTCFullYear();
+  let maxYear = minYear;
+  const body: string[] = [];
+
+  for (const ev of events) {
+    const tz = isValidTimeZone(ev.timezone) ? ev.timezone : opts.defaultTz;
+    const dateLine = (name: string, isos: string[]) =>
+      ev.all_day
+        ? `${name};VALUE=DATE:${isos.map((iso) => formatInTimeZone(iso, tz, 'yyyyMMdd')).join(',')}`
+        : `${name};TZID=${tz}:${isos.map((iso) => formatInTimeZone(iso, tz, "yyyyMMdd'T'HHmmss")).join(',')}`;
+
+    if (!ev.all_day) {
+      zones.add(tz);
+      const year = new Date(ev.start_ts).getUTCFullYear();
+      minYear = Math.min(minYear, year);
+      maxYear = Math.max(maxYear, year);
+    }
+
+    body.push('BEGIN:VEVENT', `UID:${ev.uid}`, `DTSTAMP:${dtstamp}`);
+    if (ev.recurrence_id) body.push(dateLine('RECURRENCE-ID', [ev.recurrence_id]));
+    body.push(dateLine('DTSTART', [ev.start_ts]));
+    if (ev.end_ts && ev.end_ts > ev.start_ts) body.push(dateLine('DTEND', [ev.end_ts]));
+    else if (ev.all_day) body.push(`DTEND;VALUE=DATE:${addDaysYMD(formatInTimeZone(ev.start_ts, tz, 'yyyyMMdd'), 1)}`);
+    if (ev.rrule) body.push(`RRULE:${ev.rrule}`);
+    if (ev.exdates.length > 0) body.push(dateLine('EXDATE', ev.exdates));
+    body.push(`SUMMARY:${escapeText(ev.title)}`);
+    if (ev.location) body.push(`LOCATION:${escapeText(ev.location)}`);
+    if (ev.notes) body.push(`DESCRIPTION:${escapeText(ev.notes)}`);
+    if (ev.categories.length > 0) body.push(`CATEGORIES:${ev.categories.map(escapeText).join(',')}`);
+    body.push('END:VEVENT');
+  }
+
+  // Zone data runs a few years past the newest event so open-ended series stay correct
+  const timezones = [...zones].flatMap((tz) => buildVTimezone(tz, minYear, maxYear + 5));
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(opts.name)}`,
+    `X-WR-TIMEZONE:${opts.defaultTz}`,
+    ...timezones,
+    ...body,
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { defaultDirection, followUpFeedItems, nextFollowUp, sortTimeline } from '@/lib/LeadActivities';
+import type { LeadActivity } from '@/lib/types';
+
+/* =========================
+   FIXTURES
+   ========================= */
+
+const NOW = Date.parse('2025-03-10T12:00:00Z');
+
+function activity(id: string, fields: Partial<LeadActivity> = {}): LeadActivity {
+  return {
+    id,
+    leadId: 'l1',
+    contactId: 'c1',
+    type: 'call',
+    direction: 'out',
+    summary: `Activity ${id}`,
+    occurredAt: '2025-03-01T10:00:00Z',
+    followUpAt: null,
+    followUpDone: false,
+    ...fields,
+  };
+}
+
+const activities = [
+  activity('a', { occurredAt: '2025-03-01T10:00:00Z', followUpAt: '2025-03-12T15:00:00Z' }),
+  activity('b', { occurredAt: '2025-03-05T10:00:00Z', followUpAt: '2025-03-08T15:00:00Z', type: 'whatsapp' }),
+  activity('c', { occurredAt: '2025-03-03T10:00:00Z', followUpAt: '2025-03-06T15:00:00Z', followUpDone: true }),
+  activity('d', { occurredAt: '2025-03-04T10:00:00Z', type: 'note', direction: 'n/a' }),
+];
+
+/* =========================
+   TESTS
+   ========================= */
+
+describe('timeline', () => {
+  it('lists activities newest first', () => {
+    expect(sortTimeline(activities).map((a) => a.id)).toEqual(['b', 'd', 'c', 'a']);
+  });
+
+  it('picks the earliest open follow-up', () => {
+    expect(nextFollowUp(activities)?.id).toBe('b');
+    expect(nextFollowUp([activities[2], activities[3]])).toBeNull();
+  });
+
+  it('gives notes no direction', () => {
+    expect(defaultDirection('note')).toBe('n/a');
+    expect(defaultDirection('meeting')).toBe('out');
+  });
+});
+
+describe('followUpFeedItems', () => {
+  it('keeps open follow-ups soonest first, flagging overdue ones', () => {
+    const items = followUpFeedItems(
+      activities.map((a) => ({ ...a, contactName: a.id === 'b' ? 'Ana Gómez' : null })),
+      NOW
+    );
+    expect(items).toEqual([
+      {
+        id: 'b',
+        type: 'whatsapp',
+        summary: 'Follow up with "Ana Gómez" · Activity b',
+        timestamp: '2025-03-08T15:00:00Z',
+        leadId: 'l1',
+        contactId: 'c1',
+        overdue: true,
+      },
+      expect.objectContaining({ id: 'a', summary: 'Follow up · Activity a', overdue: false }),
+    ]);
+  });
+});
@@ -0,0 +1,62 @@
+// lib/LeadActivities.ts
+// Lead activity timeline (`lead_activities`): calls, WhatsApp messages, emails,
+// meetings and notes logged against a lead, and the follow-ups they schedule.
+// Pure functions only; persistence lives in app/(app)/crm-pipeline/actions.ts.
+
+import type { ActivityDirection, ActivityItem, ActivityType, LeadActivity } from '@/lib/types';
+
+/** Label and quick-log verb of each activity type */
+export const ACTIVITY_TYPE_META: Record<ActivityType, { label: string; verb: string }> = {
+  call: { label: 'Call', verb: 'Log call' },
+  whatsapp: { label: 'WhatsApp', verb: 'Log WhatsApp' },
+  email: { label: 'Email', verb: 'Log email' },
+  meeting: { label: 'Meeting', verb: 'Log meeting' },
+  note: { label: 'Note', verb: 'Add note' },
+};
+
+export const ACTIVITY_DIRECTION_LABELS: Record<ActivityDirection, string> = {
+  in: 'Inbound',
+  out: 'Outbound',
+  'n/a': '—',
+};
+
+/** Notes have no direction; everything else defaults to outbound */
+export function defaultDirection(type: ActivityType): ActivityDirection {
+  return type === 'note' ? 'n/a' : 'out';
+}
+
+/** Newest first, by when the activity happened */
+export function sortTimeline(activities: LeadActivity[]): LeadActivity[] {
+  return [...activities].sort((a, b) => Date.parse(b.occurredAt) - Date.parse(a.occurredAt));
+}
+
+/** Earliest open follow-up of a lead, or null */
+export function nextFollowUp(activities: LeadActivity[]): LeadActivity | null {
+  return (
+    activities
+      .filter((a) => a.followUpAt && !a.followUpDone)
+      .sort((a, b) => Date.parse(a.followUpAt!) - Date.parse(b.followUpAt!))[0] ?? null
+  );
+}
+
+/**
+ * Dashboard feed items for open follow-ups, soonest first. Overdue ones stay
+ * in the feed (flagged) until marked done.
+ */
+export function followUpFeedItems(
+  activities: (LeadActivity & { contactName?: string | null })[],
+  now: number
+): ActivityItem[] {
+  return activities
+    .filter((a) => a.followUpAt && !a.followUpDone)
+    .sort((a, b) => Date.parse(a.followUpAt!) - Date.parse(b.followUpAt!))
+    .map((a) => ({
+      id: a.id,
+      type: a.type,
+      summary: a.contactName ? `Follow up with "${a.contactName}" · ${a.summary}` : `Follow up · ${a.summary}`,
+      timestamp: a.followUpAt!,
+      leadId: a.leadId,
+      contactId: a.contactId ?? undefined,
+      overdue: Date.parse(a.followUpAt!) < now,
+    }));
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { applyStageMove, groupLeadsByStage, stageMetrics, stageStays, timeInStage } from '@/lib/LeadPipeline';
+import type { Lead, LeadStage, LeadStageChange } from '@/lib/types';
+
+/* =========================
+   FIXTURES
+   ========================= */
+
+const DAY = 86_400_000;
+const NOW = Date.parse('2025-03-31T00:00:00Z');
+
+function lead(id: string, fields: Partial<Lead> = {}): Lead {
+  return {
+    id,
+    contactId: `c-${id}`,
+    serviceType: 'website',
+    sourceChannel: 'instagram',
+    createdAt: '2025-03-01T00:00:00Z',
+    ...fields,
+  };
+}
+
+function change(leadId: string, fromStage: LeadStage | null, toStage: LeadStage, changedAt: string): LeadStageChange {
+  return { id: `${leadId}-${toStage}-${changedAt}`, leadId, fromStage, toStage, changedAt };
+}
+
+// a: lead (Mar 1) → discovery (Mar 11) → delivery (Mar 21), still in delivery
+const historyA = [
+  change('a', 'discovery', 'delivery', '2025-03-21T00:00:00Z'),
+  change('a', 'lead', 'discovery', '2025-03-11T00:00:00Z'),
+];
+
+/* =========================
+   BOARD
+   ========================= */
+
+describe('groupLeadsByStage', () => {
+  it('puts every stage in pipeline order and defaults to lead', () => {
+    const board = groupLeadsByStage([lead('a', { currentStage: 'paid' }), lead('b')]);
+    expect(Object.keys(board)).toEqual(['lead', 'discovery', 'delivery', 'paid', 'lost']);
+    expect(board.paid.map((l) => l.id)).toEqual(['a']);
+    expect(board.lead.map((l) => l.id)).toEqual(['b']);
+  });
+
+  it('stamps the entered stage on a move', () => {
+    expect(applyStageMove({ stageTs: { lead: '2025-03-01T00:00:00Z' } }, 'discovery', '2025-03-05T00:00:00Z')).toEqual({
+      currentStage: 'discovery',
+      stageTs: { lead: '2025-03-01T00:00:00Z', discovery: '2025-03-05T00:00:00Z' },
+    });
+  });
+});
+
+/* =========================
+   TIME IN STAGE
+   ========================= */
+
+describe('stageStays', () => {
+  it('orders the history and times the stay before the first move from creation', () => {
+    const stays = stageStays(lead('a', { currentStage: 'delivery' }), historyA, NOW);
+    expect(stays.map((s) => [s.stage, (s.end - s.start) / DAY, s.ongoing])).toEqual([
+      ['lead', 10, false],
+      ['discovery', 10, false],
+      ['delivery', 10, true],
+    ]);
+  });
+
+  it('uses the stage stamp when there is no history', () => {
+    const stays = stageStays(lead('b', { currentStage: 'discovery', stageTs: { discovery: '2025-03-29T00:00:00Z' } }), [], NOW);
+    expect(stays).toEqual([{ stage: 'discovery', start: Date.parse('2025-03-29T00:00:00Z'), end: NOW, ongoing: true }]);
+  });
+
+  it('adds up revisits of a stage', () => {
+    const history = [
+      change('c', 'lead', 'discovery', '2025-03-02T00:00:00Z'),
+      change('c', 'discovery', 'lead', '2025-03-04T00:00:00Z'),
+      change('c', 'lead', 'discovery', '2025-03-30T00:00:00Z'),
+    ];
+    expect(timeInStage(lead('c', { currentStage: 'discovery' }), history, NOW)).toEqual({ lead: 27, discovery: 3 });
+  });
+});
+
+describe('stageMetrics', () => {
+  it('averages stays per stage and counts current leads, without timing terminal stages', () => {
+    const leads = [
+      lead('a', { currentStage: 'delivery' }),
+      lead('b', { createdAt: '2025-03-27T00:00:00Z' }),
+      lead('p', { currentStage: 'paid' }),
+    ];
+    const history = {
+      a: historyA,
+      p: [change('p', 'lead', 'paid', '2025-03-03T00:00:00Z')],
+    };
+    const byStage = Object.fromEntries(stageMetrics(leads, history, NOW).map((m) => [m.stage, m]));
+
+    // lead stays: a 10 d, b 4 d (ongoing), p 2 d
+    expect(byStage.lead).toEqual({ stage: 'lead', count: 1, avgDays: 5.3, medianDays: 4 });
+    expect(byStage.delivery).toMatchObject({ count: 1, avgDays: 10 });
+    expect(byStage.paid).toEqual({ stage: 'paid', count: 1, avgDays: null, medianDays: null });
+  });
+});
@@ -0,0 +1,143 @@
+// lib/LeadPipeline.ts
+// CRM pipeline stages: board grouping, stage moves and time-in-stage metrics
+// built from the per-lead stage history (`lead_stage_history`).
+// Pure functions only; persistence lives in app/(app)/crm-pipeline/actions.ts.
+
+import type { Lead, LeadStage, LeadStageChange, LeadStageMetric } from '@/lib/types';
+import { LEAD_STAGES } from '@/lib/types';
+
+/** Column label and accent of each stage on the board */
+export const LEAD_STAGE_META: Record<LeadStage, { label: string; color: string }> = {
+  lead: { label: 'Lead', color: '#6366F1' },
+  discovery: { label: 'Discovery', color: '#06B6D4' },
+  delivery: { label: 'Delivery', color: '#F59E0B' },
+  paid: { label: 'Paid', color: '#10B981' },
+  lost: { label: 'Lost', color: '#9CA3AF' },
+};
+
+/** Stages a lead does not leave by itself; their stays are not timed */
+export const TERMINAL_LEAD_STAGES: LeadStage[] = ['paid', 'lost'];
+
+const DAY_MS = 86_400_000;
+
+export function isLeadStage(value: unknown): value is LeadStage {
+  return typeof value === 'string' && (LEAD_STAGES as readonly string[]).includes(value);
+}
+
+/* =========================
+   BOARD
+   ========================= */
+
+/** Leads per stage column, in pipeline order; leads without a stage sit in 'lead' */
+export function groupLeadsByStage(leads: Lead[]): Record<LeadStage, Lead[]> {
+  const out = Object.fromEntries(LEAD_STAGES.map((s) => [s, [] as Lead[]])) as Record<LeadStage, Lead[]>;
+  for (const lead of leads) out[lead.currentStage ?? 'lead'].push(lead);
+  return out;
+}
+
+/** Stage fields of a lead after moving it to `toStage` at `atISO` */
+export function applyStageMove(
+  lead: Pick<Lead, 'stageTs'>,
+  toStage: LeadStage,
+  atISO: string
+): Pick<Lead, 'currentStage' | 'stageTs'> {
+  return { currentStage: toStage, stageTs: { ...(lead.stageTs ?? {}), [toStage]: atISO } };
+}
+
+/* =========================
+   TIME IN STAGE
+   ========================= */
+
+export interface StageStay {
+  stage: LeadStage;
+  start: number; // epoch ms
+  end: number; // epoch ms (now for the current stay)
+  ongoing: boolean;
+}
+
+/**
+ * Consecutive stays of one lead, from its history ordered by time. The stay
+ * before the first recorded move runs from the lead's creation. A lead without
+ * history is a single ongoing stay in its current stage since it entered it
+ * (stageTs) or was created.
+ */
+export function stageStays(
+  lead: Pick<Lead, 'currentStage' | 'stageTs' | 'createdAt'>,
+  history: LeadStageChange[],
+  now: number
+): StageStay[] {
+  const changes = [...history].sort((a, b) => Date.parse(a.changedAt) - Date.parse(b.changedAt));
+  if (changes.length === 0) {
+    const stage = lead.currentStage ?? 'lead';
+    const since = lead.stageTs?.[stage] ?? lead.createdAt;
+    if (!since) return [];
+    return [{ stage, start: Date.parse(since), end: now, ongoing: true }];
+  }
+
+  const stays: StageStay[] = [];
+  const first = changes[0];
+  if (first.fromStage && lead.createdAt && Date.parse(lead.createdAt) < Date.parse(first.changedAt)) {
+    stays.push({ stage: first.fromStage, start: Date.parse(lead.createdAt), end: Date.parse(first.changedAt), ongoing: false });
+  }
+  changes.forEach((c, i) => {
+    const next = changes[i + 1];
+    stays.push({
+      stage: c.toStage,
+      start: Date.parse(c.changedAt),
+      end: next ? Date.parse(next.changedAt) : now,
+      ongoing: !next,
+    });
+  });
+  return stays;
+}
+
+/** Days one lead has spent in each stage so far (revisits add up) */
+export function timeInStage(
+  lead: Pick<Lead, 'currentStage' | 'stageTs' | 'createdAt'>,
+  history: LeadStageChange[],
+  now: number
+): Partial<Record<LeadStage, number>> {
+  const out: Partial<Record<LeadStage, number>> = {};
+  for (const stay of stageStays(lead, history, now)) {
+    out[stay.stage] = (out[stay.stage] ?? 0) + Math.max(0, stay.end - stay.start) / DAY_MS;
+  }
+  return out;
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+const round1 = (n: number | null) => (n == null ? null : Math.round(n * 10) / 10);
+
+/**
+ * Per-stage count and average/median stay in days across all leads. Every stay
+ * counts, ongoing ones up to `now`; terminal stages report counts only.
+ */
+export function stageMetrics(
+  leads: Lead[],
+  historyByLead: Record<string, LeadStageChange[]>,
+  now: number
+): LeadStageMetric[] {
+  const stays = Object.fromEntries(LEAD_STAGES.map((s) => [s, [] as number[]])) as Record<LeadStage, number[]>;
+  for (const lead of leads) {
+    for (const stay of stageStays(lead, historyByLead[lead.id] ?? [], now)) {
+      if (TERMINAL_LEAD_STAGES.includes(stay.stage)) continue;
+      stays[stay.stage].push(Math.max(0, stay.end - stay.start) / DAY_MS);
+    }
+  }
+
+  const board = groupLeadsByStage(leads);
+  return LEAD_STAGES.map((stage) => {
+    const days = stays[stage];
+    return {
+      stage,
+      count: board[stage].length,
+      avgDays: round1(days.length ? days.reduce((a, b) => a + b, 0) / days.length : null),
+      medianDays: round1(median(days)),
+    };
+  });
+}
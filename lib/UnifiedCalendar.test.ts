@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import {
+  agendaItems,
+  budgetItems,
+  classItems,
+  immigrationItems,
+  loanCollectionDates,
+  loanItems,
+  projectMilestoneItems,
+} from '@/lib/UnifiedCalendar';
+import type { ClassSession, UnifiedRow } from '@/lib/types';
+import type { Loan } from '@/lib/loans.types';
+
+/* =========================
+   FIXTURES
+   ========================= */
+
+const NY = 'America/New_York';
+
+function loan(id: string, fields: Partial<Loan> = {}): Loan {
+  return {
+    id,
+    clientName: `Client ${id}`,
+    loanDate: '2025-01-31',
+    amount: 1000,
+    interestRate: 5,
+    frequency: 'monthly',
+    status: 'active',
+    ...fields,
+  } as Loan;
+}
+
+function session(id: string, fields: Partial<ClassSession> = {}): ClassSession {
+  return {
+    id,
+    startTime: '2025-03-03T14:00:00.000Z',
+    endTime: '2025-03-03T15:00:00.000Z',
+    locationType: 'online',
+    attendance: 'scheduled',
+    ...fields,
+  } as ClassSession;
+}
+
+function row(id: string, fields: Partial<UnifiedRow> = {}): UnifiedRow {
+  return {
+    id,
+    kind: 'one_time',
+    type: 'expense',
+    category: 'utilities',
+    description: `Bill ${id}`,
+    amount: 50,
+    effective_date: '2025-03-10',
+    is_paid: false,
+    rule_id: null,
+    occurrence_date: null,
+    occurrence_id: null,
+    due_date: '2025-03-10',
+    date: '2025-03-10',
+    ...fields,
+  } as UnifiedRow;
+}
+
+/* =========================
+   LOANS
+   ========================= */
+
+describe('loanCollectionDates', () => {
+  it('counts monthly dates from the loan date, clamping short months', () => {
+    expect(loanCollectionDates(loan('a'), '2025-01-01', '2025-04-30')).toEqual(['2025-02-28', '2025-03-31', '2025-04-30']);
+  });
+
+  it('steps daily, weekly and biweekly periods within the window', () => {
+    const base = { loanDate: '2025-03-01' };
+    expect(loanCollectionDates({ ...base, frequency: 'weekly' }, '2025-03-10', '2025-03-31')).toEqual(['2025-03-15', '2025-03-22', '2025-03-29']);
+    expect(loanCollectionDates({ ...base, frequency: 'biweekly' }, '2025-03-01', '2025-03-31')).toEqual(['2025-03-15', '2025-03-29']);
+    expect(loanCollectionDates({ ...base, frequency: 'daily' }, '2025-03-01', '2025-03-03')).toEqual(['2025-03-02', '2025-03-03']);
+  });
+
+  it('skips paid loans and links to the loan', () => {
+    const out = loanItems([loan('a'), loan('b', { status: 'paid' })], '2025-03-01', '2025-03-31');
+    expect(out).toEqual([
+      expect.objectContaining({ id: 'loans:a:2025-03-31', layer: 'loans', start: '2025-03-31', all_day: true, href: '/loans?open=a' }),
+    ]);
+  });
+});
+
+/* =========================
+   MAPPERS
+   ========================= */
+
+describe('mappers', () => {
+  it('shows agenda events and class sessions on the wall clock of the user zone', () => {
+    const [timed, allDay] = agendaItems(
+      [
+        { id: 'e1', title: 'Call', kind: 'event', category: 'Work', start_ts: '2025-03-03T14:00:00.000Z', end_ts: '2025-03-03T14:30:00.000Z', status: 'done' },
+        { id: 'e2', title: 'Holiday', kind: 'event', category: 'Personal', start_ts: '2025-03-04T05:00:00.000Z', end_ts: null, all_day: true },
+      ],
+      NY
+    );
+    expect(timed).toMatchObject({ start: '2025-03-03T09:00', end: '2025-03-03T09:30', all_day: false, done: true, href: '/agenda?date=2025-03-03' });
+    expect(allDay).toMatchObject({ start: '2025-03-04', end: null, all_day: true, done: false });
+
+    const classes = classItems([session('s1', { attendance: 'assisted' }), session('s2', { attendance: 'cancelled' })], NY);
+    expect(classes).toEqual([
+      expect.objectContaining({ id: 'classes:s1', start: '2025-03-03T09:00', done: true, href: '/classes?session=s1&date=2025-03-03' }),
+    ]);
+  });
+
+  it('maps due dates as all-day items linking to their module', () => {
+    expect(
+      projectMilestoneItems([{ id: 'm1', project_id: 'p1', title: 'Launch', due_date: '2025-03-05', progress: 100, project_name: 'Website' }])[0]
+    ).toMatchObject({ title: 'Launch · Website', start: '2025-03-05', all_day: true, done: true, href: '/projects?open=p1' });
+
+    expect(
+      immigrationItems([{ id: 'i1', case_id: 'c1', label: 'Biometrics', due_date: '2025-03-06T00:00:00', completed: false }])[0]
+    ).toMatchObject({ title: 'Biometrics', start: '2025-03-06', done: false, href: '/inmigration-services/c1' });
+  });
+
+  it('keeps only budget expenses, one item per occurrence', () => {
+    const out = budgetItems([
+      row('r1', { kind: 'recurring', occurrence_id: 'r1:2025-03-10', is_paid: true }),
+      row('r2', { type: 'income' }),
+    ]);
+    expect(out).toEqual([expect.objectContaining({ id: 'budget:r1:2025-03-10', layer: 'budget', done: true, href: '/budget' })]);
+  });
+});
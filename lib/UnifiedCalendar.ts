@@ -0,0 +1,154 @@
+// lib/UnifiedCalendar.ts
+// Unified calendar: maps agenda events, class sessions, project and immigration
+// milestones, loan collections and budget due dates onto one item shape, one
+// layer per module, each linking back to the record in its own module.
+// Pure functions only; persistence lives in app/(app)/calendar/actions.ts.
+
+import { addDays, addMonths, format, parseISO } from 'date-fns';
+import { formatInTimeZone } from 'date-fns-tz';
+import type { CalendarEventLite, CalendarLayer, ClassSession, UnifiedCalendarItem, UnifiedRow } from '@/lib/types';
+import type { Loan, LoanFrequency } from '@/lib/loans.types';
+
+/** Display order, label and color of each layer (colors follow the module accents) */
+export const CALENDAR_LAYERS: { id: CalendarLayer; label: string; color: string }[] = [
+  { id: 'agenda', label: 'Agenda', color: '#4F46E5' },
+  { id: 'classes', label: 'Classes', color: '#06B6D4' },
+  { id: 'projects', label: 'Project milestones', color: '#8B5CF6' },
+  { id: 'immigration', label: 'Immigration', color: '#F59E0B' },
+  { id: 'loans', label: 'Loan collections', color: '#10B981' },
+  { id: 'budget', label: 'Budget due dates', color: '#EF4444' },
+];
+
+export const ALL_CALENDAR_LAYERS: CalendarLayer[] = CALENDAR_LAYERS.map((l) => l.id);
+
+const LOAN_PERIOD_DAYS: Record<Exclude<LoanFrequency, 'monthly'>, number> = { daily: 1, weekly: 7, biweekly: 14 };
+
+/** UTC ISO → "YYYY-MM-DDTHH:mm" on the wall clock of `tz` */
+export function toWallClock(iso: string, tz: string): string {
+  return formatInTimeZone(iso, tz, "yyyy-MM-dd'T'HH:mm");
+}
+
+/* =========================
+   LOANS
+   ========================= */
+
+/**
+ * Expected collection dates ("YYYY-MM-DD") of a loan within [fromYMD, toYMD]:
+ * one per period after the loan date. Monthly dates are counted from the loan
+ * date, so the 31st falls on the last day of shorter months without drifting.
+ */
+export function loanCollectionDates(loan: Pick<Loan, 'loanDate' | 'frequency'>, fromYMD: string, toYMD: string): string[] {
+  const start = parseISO(loan.loanDate);
+  if (Number.isNaN(start.getTime())) return [];
+
+  const out: string[] = [];
+  for (let n = 1; ; n++) {
+    const d = loan.frequency === 'monthly' ? addMonths(start, n) : addDays(start, n * LOAN_PERIOD_DAYS[loan.frequency]);
+    const ymd = format(d, 'yyyy-MM-dd');
+    if (ymd > toYMD) break;
+    if (ymd >= fromYMD) out.push(ymd);
+  }
+  return out;
+}
+
+/* =========================
+   MAPPERS
+   ========================= */
+
+export function agendaItems(
+  events: (CalendarEventLite & { all_day?: boolean; status?: string })[],
+  tz: string
+): UnifiedCalendarItem[] {
+  return events.map((e) => {
+    const date = formatInTimeZone(e.start_ts, tz, 'yyyy-MM-dd');
+    return {
+      id: `agenda:${e.id}`,
+      layer: 'agenda',
+      title: e.title,
+      start: e.all_day ? date : toWallClock(e.start_ts, tz),
+      end: !e.all_day && e.end_ts ? toWallClock(e.end_ts, tz) : null,
+      all_day: !!e.all_day,
+      done: e.status === 'done',
+      href: `/agenda?date=${date}`,
+    };
+  });
+}
+
+export function classItems(sessions: ClassSession[], tz: string): UnifiedCalendarItem[] {
+  return sessions
+    .filter((s) => s.attendance !== 'cancelled')
+    .map((s) => ({
+      id: `classes:${s.id}`,
+      layer: 'classes',
+      title: `Class${s.student?.contact?.fullName ? `: ${s.student.contact.fullName}` : ''}`,
+      start: toWallClock(s.startTime, tz),
+      end: s.endTime ? toWallClock(s.endTime, tz) : null,
+      all_day: false,
+      done: s.attendance === 'assisted',
+      href: `/classes?session=${s.id}&date=${formatInTimeZone(s.startTime, tz, 'yyyy-MM-dd')}`,
+    }));
+}
+
+export function projectMilestoneItems(
+  rows: { id: string; project_id: string; title: string; due_date: string; progress?: number | null; project_name?: string | null }[]
+): UnifiedCalendarItem[] {
+  return rows.map((m) => ({
+    id: `projects:${m.id}`,
+    layer: 'projects',
+    title: m.project_name ? `${m.title} · ${m.project_name}` : m.title,
+    start: m.due_date.slice(0, 10),
+    end: null,
+    all_day: true,
+    done: (m.progress ?? 0) >= 100,
+    href: `/projects?open=${m.project_id}`,
+  }));
+}
+
+export function immigrationItems(
+  rows: { id: string; case_id: string; label: string; due_date: string; completed: boolean; client_name?: string | null }[]
+): UnifiedCalendarItem[] {
+  return rows.map((m) => ({
+    id: `immigration:${m.id}`,
+    layer: 'immigration',
+    title: m.client_name ? `${m.label} · ${m.client_name}` : m.label,
+    start: m.due_date.slice(0, 10),
+    end: null,
+    all_day: true,
+    done: m.completed,
+    href: `/inmigration-services/${m.case_id}`,
+  }));
+}
+
+/** Collections of loans still open (active or past due) */
+export function loanItems(loans: Loan[], fromYMD: string, toYMD: string): UnifiedCalendarItem[] {
+  return loans
+    .filter((l) => l.status !== 'paid')
+    .flatMap((l) =>
+      loanCollectionDates(l, fromYMD, toYMD).map((date) => ({
+        id: `loans:${l.id}:${date}`,
+        layer: 'loans' as const,
+        title: `Collect · ${l.clientName}`,
+        start: date,
+        end: null,
+        all_day: true,
+        done: false,
+        href: `/loans?open=${l.id}`,
+      }))
+    );
+}
+
+/** Expense rows of a budget snapshot (bills), paid ones marked done */
+export function budgetItems(rows: UnifiedRow[]): UnifiedCalendarItem[] {
+  return rows
+    .filter((r) => r.type === 'expense')
+    .map((r) => ({
+      id: `budget:${r.occurrence_id || r.id}`,
+      layer: 'budget',
+      title: r.description,
+      start: r.effective_date,
+      end: null,
+      all_day: true,
+      done: r.is_paid,
+      href: '/budget',
+    }));
+}
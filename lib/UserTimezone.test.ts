@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  CLASSES_DEFAULT_TIMEZONE,
+  DEFAULT_TIMEZONE,
+  classesTimezone,
+  getSavedTimezone,
+  getUserTimezone,
+  localToUtcISO,
+  timezoneAbbreviation,
+} from '@/lib/UserTimezone';
+
+/* =========================
+   FIXTURES
+   ========================= */
+
+// Just enough of the query builder for `.from().select().eq().maybeSingle()`
+function settingsClient(row: { timezone: string | null } | null) {
+  const query = {
+    select: () => query,
+    eq: () => query,
+    maybeSingle: async () => ({ data: row, error: null }),
+  };
+  return { from: () => query } as unknown as SupabaseClient;
+}
+
+/* =========================
+   TESTS
+   ========================= */
+
+describe('getUserTimezone', () => {
+  it('returns the saved zone', async () => {
+    expect(await getUserTimezone(settingsClient({ timezone: 'America/Santo_Domingo' }), 'u1')).toBe('America/Santo_Domingo');
+  });
+
+  it('falls back to the default when unset or unknown', async () => {
+    expect(await getUserTimezone(settingsClient(null), 'u1')).toBe(DEFAULT_TIMEZONE);
+    expect(await getUserTimezone(settingsClient({ timezone: 'Mars/Olympus' }), 'u1')).toBe(DEFAULT_TIMEZONE);
+  });
+});
+
+describe('classesTimezone', () => {
+  it('keeps Dominican time until the user picks a zone', async () => {
+    expect(await getSavedTimezone(settingsClient(null), 'u1')).toBeNull();
+    expect(classesTimezone({ timezone: DEFAULT_TIMEZONE, timezoneIsSet: false })).toBe(CLASSES_DEFAULT_TIMEZONE);
+    expect(classesTimezone({ timezone: 'Europe/Madrid', timezoneIsSet: true })).toBe('Europe/Madrid');
+  });
+});
+
+describe('localToUtcISO', () => {
+  it('reads the wall clock in the given zone, DST included', () => {
+    expect(localToUtcISO('2025-07-01T09:00', 'America/New_York')).toBe('2025-07-01T13:00:00.000Z');
+    expect(localToUtcISO('2025-01-01T09:00', 'America/New_York')).toBe('2025-01-01T14:00:00.000Z');
+    expect(localToUtcISO('2025-01-01T09:00', 'America/Santo_Domingo')).toBe('2025-01-01T13:00:00.000Z');
+    expect(localToUtcISO(null, 'UTC')).toBeNull();
+  });
+});
+
+describe('timezoneAbbreviation', () => {
+  it('labels the zone at the given instant', () => {
+    expect(timezoneAbbreviation('America/New_York', new Date('2025-07-01T12:00:00Z'))).toBe('EDT');
+    expect(timezoneAbbreviation('America/New_York', new Date('2025-01-01T12:00:00Z'))).toBe('EST');
+  });
+});
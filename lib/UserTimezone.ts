@@ -0,0 +1,63 @@
+// lib/UserTimezone.ts
+// Per-user timezone (user_settings.timezone): the zone local dates and times are
+// entered and shown in. Server code converts local <-> UTC through it.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { fromZonedTime } from 'date-fns-tz';
+import { isValidTimeZone } from '@/lib/ICalendar';
+
+/** Used until the user picks a zone (the app's historical default) */
+export const DEFAULT_TIMEZONE = 'America/New_York';
+
+/** Class sessions were always scheduled in Dominican time; kept until the user picks a zone */
+export const CLASSES_DEFAULT_TIMEZONE = 'America/Santo_Domingo';
+
+/** Zones offered in the picker; any valid IANA zone is accepted on save */
+export const TIMEZONE_OPTIONS = [
+  'America/New_York',
+  'America/Santo_Domingo',
+  'America/Chicago',
+  'America/Denver',
+  'America/Los_Angeles',
+  'America/Puerto_Rico',
+  'America/Bogota',
+  'America/Mexico_City',
+  'Europe/Madrid',
+  'Europe/London',
+  'UTC',
+];
+
+/** Reads the zone the user picked; null when unset or unknown */
+export async function getSavedTimezone(supabase: SupabaseClient, userId: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('user_settings')
+    .select('timezone')
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) console.error('Error fetching user timezone:', error.message);
+  return isValidTimeZone(data?.timezone) ? data.timezone : null;
+}
+
+/** Reads the user's zone; falls back to DEFAULT_TIMEZONE when unset or unknown */
+export async function getUserTimezone(supabase: SupabaseClient, userId: string): Promise<string> {
+  return (await getSavedTimezone(supabase, userId)) ?? DEFAULT_TIMEZONE;
+}
+
+/** Zone the classes scheduler and session form use: the user's, else CLASSES_DEFAULT_TIMEZONE */
+export function classesTimezone(state: { timezone: string; timezoneIsSet: boolean }): string {
+  return state.timezoneIsSet ? state.timezone : CLASSES_DEFAULT_TIMEZONE;
+}
+
+/** Local wall-clock "YYYY-MM-DDTHH:mm[:ss]" in `tz` to a UTC ISO string */
+export function localToUtcISO(localISO: string | null | undefined, tz: string): string | null {
+  if (!localISO) return null;
+  return fromZonedTime(localISO, tz).toISOString();
+}
+
+/** Short zone label for the current date, e.g. "EDT" or "GMT-4" */
+export function timezoneAbbreviation(tz: string, at: Date = new Date()): string {
+  const part = new Intl.DateTimeFormat('en-US', { timeZone: tz, timeZoneName: 'short' })
+    .formatToParts(at)
+    .find((p) => p.type === 'timeZoneName');
+  return part?.value ?? tz;
+}
@@ -0,0 +1,131 @@
+// lib/ai.types.ts
+// Shared types for the AI assistant (chat route <-> AIWidget / ai-assistant page).
+
+/** A chat turn as sent by the client. Tool traffic stays on the server. */
+export interface AssistantMessage {
+  role: 'user' | 'assistant'
+  content: string
+}
+
+/** Request body of POST /api/ai/chat */
+export interface AssistantChatRequest {
+  messages: AssistantMessage[]
+  /** The record the conversation is pinned to, if any */
+  pin?: AssistantThreadPin | null
+}
+
+/** A tool the model called while answering, as shown under the reply. */
+export interface AssistantToolActivity {
+  name: string
+  /** Human label, e.g. 'Searched leads' */
+  label: string
+  /** Short result summary, e.g. '12 leads' */
+  summary: string
+  ok: boolean
+}
+
+/**
+ * Events streamed back by POST /api/ai/chat, one JSON object per line (NDJSON).
+ */
+export type AssistantStreamEvent =
+  | { type: 'text'; delta: string }
+  | ({ type: 'tool' } & AssistantToolActivity)
+  | { type: 'proposal'; proposal: AssistantProposal }
+  | { type: 'error'; message: string }
+  | { type: 'done' }
+
+/*
+|--------------------------------------------------------------------------
+| Proposals (write actions the user confirms before anything is saved)
+|--------------------------------------------------------------------------
+*/
+
+export const ASSISTANT_PROPOSAL_KINDS = [
+  'lead',
+  'payment',
+  'agenda_event',
+  'budget_entry',
+  'business_expense',
+  'immigration_case',
+] as const
+export type AssistantProposalKind = (typeof ASSISTANT_PROPOSAL_KINDS)[number]
+
+/** One row of the diff panel. `before` is null for fields of a new record; equal to `after` when unchanged. */
+export interface AssistantProposalField {
+  key: string
+  label: string
+  before: string | null
+  after: string
+  /** Required fields cannot be unchecked */
+  required: boolean
+}
+
+export interface AssistantProposal {
+  id: string
+  kind: AssistantProposalKind
+  /** e.g. 'New lead: Ana Gómez' */
+  title: string
+  fields: AssistantProposalField[]
+  /** Validated input for the save action, keyed like `fields` */
+  payload: Record<string, unknown>
+  /** Names for linked ids in the payload, for display only */
+  links?: Record<string, string>
+}
+
+export type AssistantProposalStatus = 'pending' | 'applied' | 'dismissed'
+
+/*
+|--------------------------------------------------------------------------
+| Document extraction (POST /api/ai/extract)
+|--------------------------------------------------------------------------
+*/
+
+/** Uploads the assistant can read */
+export const ASSISTANT_DOCUMENT_TYPES = ['application/pdf', 'image/png', 'image/jpeg', 'image/webp'] as const
+export const ASSISTANT_DOCUMENT_MAX_BYTES = 10 * 1024 * 1024
+
+export interface AssistantDocumentAnalysis {
+  fileName: string
+  /** The model's short description of the document and what it found */
+  summary: string
+  /** Records to file into their modules, each confirmed in the diff panel */
+  proposals: AssistantProposal[]
+  tools: AssistantToolActivity[]
+}
+
+/*
+|--------------------------------------------------------------------------
+| Threads (persisted conversations, optionally pinned to a record)
+|--------------------------------------------------------------------------
+*/
+
+export const ASSISTANT_PIN_ENTITIES = ['lead', 'project', 'immigration_case', 'student'] as const
+export type AssistantPinEntity = (typeof ASSISTANT_PIN_ENTITIES)[number]
+
+/** The record a thread is about */
+export interface AssistantThreadPin {
+  entity: AssistantPinEntity
+  id: string
+  /** Display name stored with the pin, e.g. the client's name */
+  label: string
+}
+
+/** Maps to the Supabase table `ai_threads` */
+export interface AssistantThread {
+  id: string
+  title: string
+  pin: AssistantThreadPin | null
+  createdAt: string
+  updatedAt: string
+}
+
+/** Maps to the Supabase table `ai_messages` (tools, proposals and files as jsonb) */
+export interface AssistantStoredMessage {
+  id: string
+  role: 'user' | 'assistant'
+  content: string
+  files?: { name: string; type: 'pdf' | 'image' }[]
+  tools?: AssistantToolActivity[]
+  proposals?: { proposal: AssistantProposal; status: AssistantProposalStatus }[]
+  isError?: boolean
+}
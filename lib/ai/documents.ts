@@ -0,0 +1,103 @@
+// lib/ai/documents.ts
+// Reads uploaded documents for the assistant (server only).
+// PDFs are converted to text here; images go to the model as vision input.
+// The model then maps what it reads onto propose_* tools, so every extracted
+// record reaches the user as a proposal in the diff panel.
+
+import { extractText, getDocumentProxy } from 'unpdf'
+import { format } from 'date-fns'
+import type { ChatProvider } from '@/lib/ai/provider'
+import { runAssistantTurn } from '@/lib/ai/runner'
+import type { AssistantDocumentAnalysis } from '@/lib/ai.types'
+
+// Keeps long contracts within a reasonable prompt size
+const MAX_TEXT_CHARS = 20_000
+
+// Lookups for linking records, plus the write actions a document can produce
+const EXTRACTION_TOOLS = [
+  'search_leads',
+  'list_projects',
+  'list_immigration_cases',
+  'propose_lead',
+  'propose_payment',
+  'propose_business_expense',
+  'propose_immigration_case',
+]
+
+function extractionPrompt(now: Date) {
+  return [
+    'You read documents uploaded to a small-business management app and file their data into the right module.',
+    `Today is ${format(now, 'EEEE yyyy-MM-dd')}.`,
+    'Typical documents and what to do with them:',
+    '- Passport scans and DS-160 confirmation pages: find the client with list_immigration_cases and call',
+    '  propose_immigration_case with the passport number and/or DS-160 confirmation number.',
+    '- Receipts or transfer confirmations for money received: call propose_payment (amount in RD$); link the',
+    '  project or lead when the document names one (list_projects / search_leads).',
+    '- Invoices or receipts for business costs: call propose_business_expense.',
+    '- Contracts or inquiries from a new client: call propose_lead.',
+    'Copy identifiers exactly as printed. Only propose what the document actually contains; never guess ids.',
+    'Finish with a two or three sentence summary of the document and what you proposed, or why nothing fits.',
+  ].join('\n')
+}
+
+/**
+ * Turns an upload into model input: text for PDFs, a data URL for images.
+ * Throws when a PDF has no text layer (scanned pages).
+ */
+export async function readDocument(file: File): Promise<{ text: string; images: string[] }> {
+  const bytes = new Uint8Array(await file.arrayBuffer())
+
+  if (file.type === 'application/pdf') {
+    const pdf = await getDocumentProxy(bytes)
+    const { text } = await extractText(pdf, { mergePages: true })
+    const trimmed = text.replace(/[ \t]+/g, ' ').trim()
+    if (!trimmed) {
+      throw new Error('This PDF has no readable text (it is probably a scan). Upload the pages as images instead.')
+    }
+    return { text: trimmed.slice(0, MAX_TEXT_CHARS), images: [] }
+  }
+
+  const base64 = Buffer.from(bytes).toString('base64')
+  return { text: '', images: [`data:${file.type};base64,${base64}`] }
+}
+
+/**
+ * Reads a document and lets the model map it onto proposals. Nothing is saved.
+ */
+export async function analyzeDocument(
+  provider: ChatProvider,
+  file: File,
+  now: Date,
+  signal?: AbortSignal,
+): Promise<AssistantDocumentAnalysis> {
+  const { text, images } = await readDocument(file)
+
+  const analysis: AssistantDocumentAnalysis = { fileName: file.name, summary: '', proposals: [], tools: [] }
+  await runAssistantTurn({
+    provider,
+    now,
+    signal,
+    toolNames: EXTRACTION_TOOLS,
+    messages: [
+      { role: 'system', content: extractionPrompt(now) },
+      {
+        role: 'user',
+        content: text
+          ? `File: ${file.name}\n\nExtracted text:\n${text}`
+          : `File: ${file.name}\n\nThe document is attached as an image.`,
+        images,
+      },
+    ],
+    onEvent(event) {
+      if (event.type === 'text') analysis.summary += event.delta
+      else if (event.type === 'proposal') analysis.proposals.push(event.proposal)
+      else if (event.type === 'tool') {
+        const { type: _type, ...activity } = event
+        analysis.tools.push(activity)
+      }
+    },
+  })
+
+  analysis.summary = analysis.summary.trim()
+  return analysis
+}
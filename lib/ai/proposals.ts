@@ -0,0 +1,198 @@
+// lib/ai/proposals.ts
+// Write actions the assistant can propose. The model only ever produces a proposal;
+// the record is saved by the module's own server action after the user confirms
+// the field-by-field diff (see components/ai/applyProposal.ts).
+// Shared by the chat route (building proposals) and the client (re-validating before save).
+
+import { z } from 'zod'
+import { format, parseISO } from 'date-fns'
+import { SERVICE_TYPES, MARKETING_CHANNELS, PAYMENT_METHODS } from '@/lib/types'
+import type { AssistantProposal, AssistantProposalField, AssistantProposalKind } from '@/lib/ai.types'
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD')
+const localDateTime = z.string().regex(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/, 'Use YYYY-MM-DDTHH:mm (local time)')
+const optionalText = z.string().trim().min(1).optional()
+
+const AGENDA_CATEGORIES = ['Work', 'Personal', 'Health', 'Errand', 'Other'] as const
+
+export const PROPOSAL_SCHEMAS = {
+  lead: z.object({
+    fullName: z.string().trim().min(1),
+    email: z.string().email().optional(),
+    phone: optionalText,
+    serviceType: z.enum(SERVICE_TYPES),
+    sourceChannel: z.enum(MARKETING_CHANNELS),
+    expectedValue: z.number().min(0).optional().describe('Expected deal value in RD$'),
+    notes: optionalText,
+  }),
+  payment: z.object({
+    amountDop: z.number().positive().describe('Amount received in RD$ (not cents)'),
+    dateReceived: isoDate,
+    method: z.enum(PAYMENT_METHODS),
+    memo: optionalText,
+    projectId: z.string().optional().describe('Project id from list_projects, if the payment is for a project'),
+    leadId: z.string().optional().describe('Lead id from search_leads, if the payment is for a lead'),
+  }),
+  agenda_event: z.object({
+    title: z.string().trim().min(1),
+    start: localDateTime,
+    end: localDateTime.optional(),
+    allDay: z.boolean(),
+    kind: z.enum(['event', 'task']),
+    category: z.enum(AGENDA_CATEGORIES),
+    location: optionalText,
+    notes: optionalText,
+  }),
+  budget_entry: z.object({
+    description: z.string().trim().min(1),
+    type: z.enum(['income', 'expense']),
+    category: z
+      .string()
+      .trim()
+      .min(1)
+      .describe('Budget category key from list_budget_categories (e.g. bill, groceries, business_income)'),
+    amount: z.number().positive(),
+    dueDate: isoDate,
+  }),
+  business_expense: z.object({
+    description: z.string().trim().min(1),
+    amount: z.number().min(0),
+    expenseType: z.enum(['one_time', 'recurring']),
+    category: optionalText,
+    notes: optionalText,
+  }),
+  // Updates an existing case; only the identifiers found in the document are set
+  immigration_case: z.object({
+    caseId: z.string().describe('Case id from list_immigration_cases'),
+    caseNumber: optionalText,
+    passportNumber: optionalText,
+    dsConfirmation: optionalText.describe('DS-160 confirmation number, e.g. AA00ABC123'),
+  }),
+} satisfies Record<AssistantProposalKind, z.ZodObject>
+
+export type ProposalInput<K extends AssistantProposalKind> = z.infer<(typeof PROPOSAL_SCHEMAS)[K]>
+
+/*
+|--------------------------------------------------------------------------
+| Display
+|--------------------------------------------------------------------------
+*/
+
+type FieldDisplay = { label: string; format?: (value: unknown) => string }
+
+const money = (v: unknown) =>
+  `RD$ ${Number(v).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+const day = (v: unknown) => format(parseISO(String(v)), 'MMM d, yyyy')
+const dateTime = (v: unknown) => format(parseISO(String(v)), 'MMM d, yyyy h:mm a')
+
+const FIELD_DISPLAY: { [K in AssistantProposalKind]: Record<keyof ProposalInput<K> & string, FieldDisplay> } = {
+  lead: {
+    fullName: { label: 'Full name' },
+    email: { label: 'Email' },
+    phone: { label: 'Phone' },
+    serviceType: { label: 'Service' },
+    sourceChannel: { label: 'Source channel' },
+    expectedValue: { label: 'Expected value', format: money },
+    notes: { label: 'Notes' },
+  },
+  payment: {
+    amountDop: { label: 'Amount', format: money },
+    dateReceived: { label: 'Date received', format: day },
+    method: { label: 'Method' },
+    memo: { label: 'Memo' },
+    projectId: { label: 'Project' },
+    leadId: { label: 'Lead' },
+  },
+  agenda_event: {
+    title: { label: 'Title' },
+    start: { label: 'Start', format: dateTime },
+    end: { label: 'End', format: dateTime },
+    allDay: { label: 'All day', format: (v) => (v ? 'Yes' : 'No') },
+    kind: { label: 'Kind' },
+    category: { label: 'Category' },
+    location: { label: 'Location' },
+    notes: { label: 'Notes' },
+  },
+  budget_entry: {
+    description: { label: 'Description' },
+    type: { label: 'Type' },
+    category: { label: 'Category' },
+    amount: { label: 'Amount', format: money },
+    dueDate: { label: 'Due date', format: day },
+  },
+  business_expense: {
+    description: { label: 'Description' },
+    amount: { label: 'Amount', format: money },
+    expenseType: { label: 'Type', format: (v) => (v === 'recurring' ? 'Recurring' : 'One-time') },
+    category: { label: 'Category' },
+    notes: { label: 'Notes' },
+  },
+  immigration_case: {
+    caseId: { label: 'Case' },
+    caseNumber: { label: 'Case number' },
+    passportNumber: { label: 'Passport number' },
+    dsConfirmation: { label: 'DS-160 confirmation' },
+  },
+}
+
+const KIND_TITLES: Record<AssistantProposalKind, (input: any) => string> = {
+  lead: (i) => `New lead: ${i.fullName}`,
+  payment: (i) => `New payment: ${money(i.amountDop)}`,
+  agenda_event: (i) => `New agenda ${i.kind}: ${i.title}`,
+  budget_entry: (i) => `New budget ${i.type}: ${i.description}`,
+  business_expense: (i) => `New business expense: ${i.description}`,
+  immigration_case: () => 'Update immigration case',
+}
+
+/**
+ * Builds the diff-panel proposal for a validated input. `links` maps id fields
+ * (projectId, leadId, caseId) to display names; `before` holds the current
+ * values when the proposal updates an existing record.
+ */
+export function buildProposal<K extends AssistantProposalKind>(
+  kind: K,
+  input: ProposalInput<K>,
+  links: Record<string, string> = {},
+  before: Record<string, string | null> = {},
+  title?: string,
+): AssistantProposal {
+  const shape = PROPOSAL_SCHEMAS[kind].shape as Record<string, z.ZodType>
+  const display = FIELD_DISPLAY[kind] as Record<string, FieldDisplay>
+  const values = input as Record<string, unknown>
+
+  const fields: AssistantProposalField[] = Object.keys(display)
+    .filter((key) => values[key] !== undefined)
+    .map((key) => ({
+      key,
+      label: display[key].label,
+      before: before[key] ?? null,
+      after: links[key] ?? (display[key].format ? display[key].format!(values[key]) : String(values[key])),
+      required: !shape[key].safeParse(undefined).success,
+    }))
+
+  return {
+    id: `prop-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    kind,
+    title: title ?? KIND_TITLES[kind](input),
+    fields,
+    payload: values,
+    links,
+  }
+}
+
+/**
+ * Re-validates a proposal payload, keeping only the fields the user left checked.
+ */
+export function parseProposalPayload<K extends AssistantProposalKind>(
+  kind: K,
+  payload: Record<string, unknown>,
+  includedKeys: string[],
+): { success: true; data: ProposalInput<K> } | { success: false; error: string } {
+  const picked = Object.fromEntries(Object.entries(payload).filter(([key]) => includedKeys.includes(key)))
+  const parsed = PROPOSAL_SCHEMAS[kind].safeParse(picked)
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0]
+    return { success: false, error: `${issue?.path.join('.') || 'proposal'}: ${issue?.message}` }
+  }
+  return { success: true, data: parsed.data as ProposalInput<K> }
+}
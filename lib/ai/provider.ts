@@ -0,0 +1,244 @@
+// lib/ai/provider.ts
+// Pluggable chat-model provider for the AI assistant (server only).
+// Configured through env:
+//   AI_PROVIDER  'openai' (default, any OpenAI-compatible endpoint) | 'stub'
+//   AI_BASE_URL  e.g. https://api.openai.com/v1 or a local server (Ollama, LM Studio: http://localhost:11434/v1)
+//   AI_API_KEY   bearer token (optional for local servers)
+//   AI_MODEL     model name, e.g. gpt-4o-mini or llama3.1 (image uploads need a vision-capable model)
+// Tests can point AI_BASE_URL at a stub server or swap the provider with setChatProvider().
+
+/*
+|--------------------------------------------------------------------------
+| Types
+|--------------------------------------------------------------------------
+*/
+
+export interface ProviderToolCall {
+  id: string
+  name: string
+  /** Raw JSON string as produced by the model */
+  arguments: string
+}
+
+export type ProviderMessage =
+  | { role: 'system'; content: string }
+  /** `images` are data: URLs sent to vision-capable models */
+  | { role: 'user'; content: string; images?: string[] }
+  | { role: 'assistant'; content: string | null; toolCalls?: ProviderToolCall[] }
+  | { role: 'tool'; toolCallId: string; content: string }
+
+export interface ProviderTool {
+  name: string
+  description: string
+  /** JSON Schema of the arguments object */
+  parameters: Record<string, unknown>
+}
+
+export type ProviderChunk = { type: 'text'; delta: string } | { type: 'tool_call'; call: ProviderToolCall }
+
+export interface ChatProvider {
+  /** Streams one model turn: text deltas as they arrive, tool calls once complete. */
+  stream(request: {
+    messages: ProviderMessage[]
+    tools: ProviderTool[]
+    signal?: AbortSignal
+  }): AsyncIterable<ProviderChunk>
+}
+
+/*
+|--------------------------------------------------------------------------
+| OpenAI-compatible provider (chat/completions with stream: true)
+|--------------------------------------------------------------------------
+*/
+
+function toOpenAIMessage(m: ProviderMessage) {
+  switch (m.role) {
+    case 'assistant':
+      return {
+        role: 'assistant',
+        content: m.content,
+        ...(m.toolCalls?.length
+          ? {
+              tool_calls: m.toolCalls.map((c) => ({
+                id: c.id,
+                type: 'function',
+                function: { name: c.name, arguments: c.arguments },
+              })),
+            }
+          : {}),
+      }
+    case 'tool':
+      return { role: 'tool', tool_call_id: m.toolCallId, content: m.content }
+    case 'user':
+      if (!m.images?.length) return { role: 'user', content: m.content }
+      return {
+        role: 'user',
+        content: [
+          { type: 'text', text: m.content },
+          ...m.images.map((url) => ({ type: 'image_url', image_url: { url } })),
+        ],
+      }
+    default:
+      return m
+  }
+}
+
+/** Splits a server-sent-events body into `data:` payloads. */
+async function* readSSE(body: ReadableStream<Uint8Array>): AsyncIterable<string> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    buffer += decoder.decode(value, { stream: true })
+
+    let newline: number
+    while ((newline = buffer.indexOf('\n')) >= 0) {
+      const line = buffer.slice(0, newline).trim()
+      buffer = buffer.slice(newline + 1)
+      if (line.startsWith('data:')) yield line.slice(5).trim()
+    }
+  }
+  const rest = buffer.trim()
+  if (rest.startsWith('data:')) yield rest.slice(5).trim()
+}
+
+export function createOpenAICompatibleProvider(config: {
+  baseUrl: string
+  apiKey?: string
+  model: string
+}): ChatProvider {
+  const url = `${config.baseUrl.replace(/\/+$/, '')}/chat/completions`
+
+  return {
+    async *stream({ messages, tools, signal }) {
+      const res = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: config.model,
+          stream: true,
+          messages: messages.map(toOpenAIMessage),
+          ...(tools.length
+            ? {
+                tools: tools.map((t) => ({
+                  type: 'function',
+                  function: { name: t.name, description: t.description, parameters: t.parameters },
+                })),
+              }
+            : {}),
+        }),
+        signal,
+      })
+
+      if (!res.ok || !res.body) {
+        const detail = await res.text().catch(() => '')
+        throw new Error(`Model provider error ${res.status}: ${detail.slice(0, 300)}`)
+      }
+
+      // Tool call arguments arrive in fragments keyed by index
+      const pending = new Map<number, ProviderToolCall>()
+
+      for await (const data of readSSE(res.body)) {
+        if (data === '[DONE]') break
+        let chunk: any
+        try {
+          chunk = JSON.parse(data)
+        } catch {
+          continue
+        }
+        const delta = chunk?.choices?.[0]?.delta
+        if (!delta) continue
+
+        if (typeof delta.content === 'string' && delta.content) {
+          yield { type: 'text', delta: delta.content }
+        }
+        for (const tc of delta.tool_calls ?? []) {
+          const index = tc.index ?? 0
+          const call = pending.get(index) ?? { id: '', name: '', arguments: '' }
+          if (tc.id) call.id = tc.id
+          if (tc.function?.name) call.name += tc.function.name
+          if (tc.function?.arguments) call.arguments += tc.function.arguments
+          pending.set(index, call)
+        }
+      }
+
+      for (const [index, call] of Array.from(pending.entries()).sort(([a], [b]) => a - b)) {
+        yield { type: 'tool_call', call: { ...call, id: call.id || `call_${index}` } }
+      }
+    },
+  }
+}
+
+/*
+|--------------------------------------------------------------------------
+| Stub provider (no network; for local development and tests)
+|--------------------------------------------------------------------------
+*/
+
+/**
+ * Replies with canned text. When `toolCall` is given, the first turn calls that
+ * tool and the second turn summarizes the tool result it received.
+ */
+export function createStubProvider(options: { toolCall?: { name: string; arguments?: object } } = {}): ChatProvider {
+  return {
+    async *stream({ messages }) {
+      const last = messages[messages.length - 1]
+
+      if (options.toolCall && last?.role !== 'tool') {
+        yield {
+          type: 'tool_call',
+          call: {
+            id: 'stub_call_1',
+            name: options.toolCall.name,
+            arguments: JSON.stringify(options.toolCall.arguments ?? {}),
+          },
+        }
+        return
+      }
+
+      const reply =
+        last?.role === 'tool'
+          ? `Tool result: ${last.content.slice(0, 500)}`
+          : `Stub assistant received: "${last && 'content' in last ? last.content : ''}"`
+      for (const word of reply.split(/(?<=\s)/)) yield { type: 'text', delta: word }
+    },
+  }
+}
+
+/*
+|--------------------------------------------------------------------------
+| Resolution
+|--------------------------------------------------------------------------
+*/
+
+let override: ChatProvider | null = null
+
+/** Replaces the env-configured provider (pass null to restore). Intended for tests. */
+export function setChatProvider(provider: ChatProvider | null) {
+  override = provider
+}
+
+export function getChatProvider(): ChatProvider {
+  if (override) return override
+
+  if (process.env.AI_PROVIDER === 'stub') return createStubProvider()
+
+  const baseUrl = process.env.AI_BASE_URL || 'https://api.openai.com/v1'
+  const apiKey = process.env.AI_API_KEY
+  // Hosted endpoints need a key; local OpenAI-compatible servers usually do not
+  if (!apiKey && baseUrl.includes('api.openai.com')) {
+    throw new Error('AI assistant is not configured: set AI_API_KEY (or AI_BASE_URL for a local model).')
+  }
+
+  return createOpenAICompatibleProvider({
+    baseUrl,
+    apiKey,
+    model: process.env.AI_MODEL || 'gpt-4o-mini',
+  })
+}
@@ -0,0 +1,55 @@
+// lib/ai/runner.ts
+// The model ↔ tool loop behind one assistant reply (server only).
+// Shared by the chat route and document extraction.
+
+import type { ChatProvider, ProviderMessage, ProviderToolCall } from '@/lib/ai/provider'
+import { getToolDefinitions, runTool } from '@/lib/ai/tools'
+import type { AssistantStreamEvent } from '@/lib/ai.types'
+
+// Upper bound on model ↔ tool round trips for a single reply
+const MAX_TOOL_ROUNDS = 5
+
+/**
+ * Streams model turns, runs the tools the model calls and feeds their results
+ * back until it answers in text. `onEvent` receives text deltas, tool activity
+ * and proposals; 'done' and 'error' are left to the caller. Throws on provider
+ * errors. `messages` is extended in place.
+ */
+export async function runAssistantTurn(options: {
+  provider: ChatProvider
+  messages: ProviderMessage[]
+  now: Date
+  /** Restricts the tools offered to the model (default: all) */
+  toolNames?: string[]
+  signal?: AbortSignal
+  onEvent: (event: AssistantStreamEvent) => void
+}): Promise<void> {
+  const { provider, messages, now, signal, onEvent } = options
+  const tools = getToolDefinitions(options.toolNames)
+
+  for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+    let text = ''
+    const toolCalls: ProviderToolCall[] = []
+
+    // Last round is text-only so the model has to answer with what it has
+    const roundTools = round < MAX_TOOL_ROUNDS ? tools : []
+    for await (const chunk of provider.stream({ messages, tools: roundTools, signal })) {
+      if (chunk.type === 'text') {
+        text += chunk.delta
+        onEvent({ type: 'text', delta: chunk.delta })
+      } else {
+        toolCalls.push(chunk.call)
+      }
+    }
+
+    if (toolCalls.length === 0) return
+
+    messages.push({ role: 'assistant', content: text || null, toolCalls })
+    for (const call of toolCalls) {
+      const result = await runTool(call.name, call.arguments, now, options.toolNames)
+      onEvent({ type: 'tool', name: call.name, label: result.label, summary: result.summary, ok: result.ok })
+      if (result.proposal) onEvent({ type: 'proposal', proposal: result.proposal })
+      messages.push({ role: 'tool', toolCallId: call.id, content: result.content })
+    }
+  }
+}
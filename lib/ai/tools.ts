@@ -0,0 +1,385 @@
+// lib/ai/tools.ts
+// Tools the assistant model can call (server only).
+// Read tools wrap existing server actions, so results respect the signed-in
+// user's session and RLS exactly like the pages do. Propose tools only build a
+// proposal for the user to confirm (lib/ai/proposals.ts). Nothing here writes.
+
+import { z } from 'zod'
+import { differenceInCalendarDays, endOfMonth, format, parseISO, startOfMonth } from 'date-fns'
+import { SERVICE_TYPES, MARKETING_CHANNELS, PROJECT_TYPES } from '@/lib/types'
+import { LOAN_STATUSES } from '@/lib/loans.types'
+import { computeSnapshot } from '@/lib/BudgetLogic'
+import type { ProviderTool } from '@/lib/ai/provider'
+import { PROPOSAL_SCHEMAS, buildProposal } from '@/lib/ai/proposals'
+import type { AssistantProposal } from '@/lib/ai.types'
+import { getLeads } from '@/app/(app)/crm-pipeline/actions'
+import { getProjects } from '@/app/(app)/projects/actions'
+import { getLoans } from '@/app/(app)/loans/actions'
+import { getRawBudgetData, getBudgetCategories } from '@/app/(app)/budget/actions'
+import { listEventsInRange } from '@/app/(app)/agenda/actions'
+import { getCases } from '@/app/(app)/inmigration-services/actions'
+
+// Keeps tool results within a reasonable prompt size
+const MAX_ROWS = 50
+
+interface AssistantTool<S extends z.ZodType = z.ZodType> {
+  name: string
+  /** Shown in the chat under the reply, e.g. 'Searched leads' */
+  label: string
+  description: string
+  schema: S
+  run: (
+    args: z.infer<S>,
+    now: Date,
+  ) => Promise<{ result: unknown; summary: string; proposal?: AssistantProposal }>
+}
+
+function defineTool<S extends z.ZodType>(tool: AssistantTool<S>): AssistantTool {
+  return tool as unknown as AssistantTool
+}
+
+function capped<T>(rows: T[]) {
+  return { total: rows.length, truncated: rows.length > MAX_ROWS, rows: rows.slice(0, MAX_ROWS) }
+}
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD')
+
+// What the model is told after proposing; the user still has to confirm
+const PROPOSED = {
+  status: 'proposed',
+  note: 'Shown to the user for review. Nothing has been saved; the user confirms or dismisses it.',
+}
+
+/*
+|--------------------------------------------------------------------------
+| Tools
+|--------------------------------------------------------------------------
+*/
+
+const TOOLS: AssistantTool[] = [
+  defineTool({
+    name: 'search_leads',
+    label: 'Searched leads',
+    description:
+      'Search CRM leads by name/email/phone text, service, source channel and creation date. ' +
+      'Each lead includes daysSinceCreated, useful for finding stale leads.',
+    schema: z.object({
+      q: z.string().optional().describe('Free text matched against name, email or phone'),
+      service: z.array(z.enum(SERVICE_TYPES)).optional(),
+      source: z.array(z.enum(MARKETING_CHANNELS)).optional(),
+      createdFrom: isoDate.optional(),
+      createdTo: isoDate.optional(),
+      minDaysSinceCreated: z.number().int().min(0).optional().describe('Only leads at least this many days old'),
+    }),
+    async run(args, now) {
+      const leads = await getLeads({
+        q: args.q,
+        service: args.service,
+        source: args.source,
+        date_from: args.createdFrom,
+        date_to: args.createdTo,
+      })
+      const rows = leads
+        .map((l) => ({
+          id: l.id,
+          name: l.contact?.fullName ?? null,
+          email: l.contact?.email ?? null,
+          phone: l.contact?.phone ?? null,
+          serviceType: l.serviceType,
+          sourceChannel: l.sourceChannel,
+          expectedValue: l.expectedValue ?? null,
+          notes: l.notes ?? null,
+          createdAt: l.createdAt ?? null,
+          daysSinceCreated: l.createdAt ? differenceInCalendarDays(now, parseISO(l.createdAt)) : null,
+        }))
+        .filter((l) => args.minDaysSinceCreated == null || (l.daysSinceCreated ?? 0) >= args.minDaysSinceCreated)
+      return { result: capped(rows), summary: `${rows.length} lead(s)` }
+    },
+  }),
+
+  defineTool({
+    name: 'list_projects',
+    label: 'Listed projects',
+    description: 'List website/software projects with client, dates, budget and amount paid (DOP cents).',
+    schema: z.object({
+      type: z.enum(PROJECT_TYPES).optional(),
+      q: z.string().optional().describe('Matched against project or client name'),
+    }),
+    async run(args) {
+      const q = args.q?.toLowerCase()
+      const rows = (await getProjects()).filter(
+        (p) =>
+          (!args.type || p.type === args.type) &&
+          (!q || p.name.toLowerCase().includes(q) || p.clientName?.toLowerCase().includes(q)),
+      )
+      return { result: capped(rows), summary: `${rows.length} project(s)` }
+    },
+  }),
+
+  defineTool({
+    name: 'list_loans',
+    label: 'Listed loans',
+    description: 'List personal loans with client, date, principal, interest rate, frequency and status.',
+    schema: z.object({
+      status: z.enum(LOAN_STATUSES).optional(),
+      q: z.string().optional().describe('Matched against client name'),
+    }),
+    async run(args) {
+      const q = args.q?.toLowerCase()
+      const rows = (await getLoans()).filter(
+        (l) => (!args.status || l.status === args.status) && (!q || l.clientName.toLowerCase().includes(q)),
+      )
+      return { result: capped(rows), summary: `${rows.length} loan(s)` }
+    },
+  }),
+
+  defineTool({
+    name: 'get_budget_month',
+    label: 'Read budget',
+    description:
+      'Budget for one month: every income/expense occurrence (one-time entries and recurring rules, ' +
+      'after overrides) with paid status, plus totals.',
+    schema: z.object({
+      month: z.string().regex(/^\d{4}-\d{2}$/, 'Use YYYY-MM').describe('Month as YYYY-MM'),
+    }),
+    async run(args, now) {
+      const first = parseISO(`${args.month}-01`)
+      const month_start = format(startOfMonth(first), 'yyyy-MM-dd')
+      const month_end = format(endOfMonth(first), 'yyyy-MM-dd')
+      const [raw, categories] = await Promise.all([getRawBudgetData({ month_start, month_end }), getBudgetCategories()])
+      const snapshot = computeSnapshot({
+        ...raw,
+        month_start,
+        month_end,
+        today_local: format(now, 'yyyy-MM-dd'),
+        categories,
+      })
+      const rows = snapshot.rows.map((r) => ({
+        description: r.description,
+        type: r.type,
+        category: r.category,
+        amount: r.amount,
+        date: r.effective_date,
+        status: r.status,
+        recurring: r.kind === 'recurring',
+      }))
+      return {
+        result: { month: args.month, totals: snapshot.totals, ...capped(rows) },
+        summary: `${rows.length} item(s) in ${args.month}`,
+      }
+    },
+  }),
+
+  defineTool({
+    name: 'list_budget_categories',
+    label: 'Listed budget categories',
+    description: "The user's budget categories (key, name, income/expense) with any monthly spending limit.",
+    schema: z.object({}),
+    async run() {
+      const rows = (await getBudgetCategories()).map((c) => ({
+        key: c.key,
+        name: c.name,
+        type: c.type,
+        monthlyLimit: c.monthly_limit,
+      }))
+      return { result: rows, summary: `${rows.length} categor${rows.length === 1 ? 'y' : 'ies'}` }
+    },
+  }),
+
+  defineTool({
+    name: 'list_agenda_events',
+    label: 'Checked agenda',
+    description: 'Agenda events and tasks overlapping a date range (inclusive start, exclusive end).',
+    schema: z.object({ start: isoDate, end: isoDate }),
+    async run(args) {
+      const events = await listEventsInRange(`${args.start}T00:00:00`, `${args.end}T00:00:00`)
+      return { result: capped(events), summary: `${events.length} item(s)` }
+    },
+  }),
+
+  defineTool({
+    name: 'list_immigration_cases',
+    label: 'Listed immigration cases',
+    description:
+      'List immigration cases with client name, service, date and the identifiers on file ' +
+      '(case number, passport number, DS-160 confirmation).',
+    schema: z.object({
+      q: z.string().optional().describe('Matched against client name'),
+    }),
+    async run(args) {
+      const res = await getCases()
+      if ('error' in res) throw new Error(res.error)
+      const q = args.q?.toLowerCase()
+      const rows = (res.data ?? [])
+        .filter((c) => !q || c.clientName.toLowerCase().includes(q))
+        .map((c) => ({
+          id: c.id,
+          clientName: c.clientName,
+          service: c.service,
+          date: c.date,
+          caseNumber: c.caseNumber ?? null,
+          passportNumber: c.passportNumber ?? null,
+          dsConfirmation: c.dsConfirmation ?? null,
+        }))
+      return { result: capped(rows), summary: `${rows.length} case(s)` }
+    },
+  }),
+
+  defineTool({
+    name: 'propose_lead',
+    label: 'Proposed lead',
+    description: 'Propose creating a CRM lead (with its contact). The user reviews and confirms before it is saved.',
+    schema: PROPOSAL_SCHEMAS.lead,
+    async run(args) {
+      return { result: PROPOSED, summary: args.fullName, proposal: buildProposal('lead', args) }
+    },
+  }),
+
+  defineTool({
+    name: 'propose_payment',
+    label: 'Proposed payment',
+    description:
+      'Propose recording a received payment, optionally linked to a project or lead (use ids from ' +
+      'list_projects / search_leads). The user reviews and confirms before it is saved.',
+    schema: PROPOSAL_SCHEMAS.payment,
+    async run(args) {
+      const links: Record<string, string> = {}
+      if (args.projectId) {
+        const project = (await getProjects()).find((p) => p.id === args.projectId)
+        if (!project) throw new Error(`No project with id ${args.projectId}`)
+        links.projectId = `${project.name} (${project.clientName})`
+      }
+      if (args.leadId) {
+        const lead = (await getLeads({})).find((l) => l.id === args.leadId)
+        if (!lead) throw new Error(`No lead with id ${args.leadId}`)
+        links.leadId = lead.contact?.fullName ?? lead.id
+      }
+      const proposal = buildProposal('payment', args, links)
+      return { result: PROPOSED, summary: proposal.title, proposal }
+    },
+  }),
+
+  defineTool({
+    name: 'propose_agenda_event',
+    label: 'Proposed agenda item',
+    description:
+      'Propose adding an agenda event or task. Times are local (YYYY-MM-DDTHH:mm). ' +
+      'The user reviews and confirms before it is saved.',
+    schema: PROPOSAL_SCHEMAS.agenda_event,
+    async run(args) {
+      return { result: PROPOSED, summary: args.title, proposal: buildProposal('agenda_event', args) }
+    },
+  }),
+
+  defineTool({
+    name: 'propose_budget_entry',
+    label: 'Proposed budget entry',
+    description:
+      'Propose adding a one-time budget income or expense. The user reviews and confirms before it is saved.',
+    schema: PROPOSAL_SCHEMAS.budget_entry,
+    async run(args) {
+      return { result: PROPOSED, summary: args.description, proposal: buildProposal('budget_entry', args) }
+    },
+  }),
+
+  defineTool({
+    name: 'propose_business_expense',
+    label: 'Proposed business expense',
+    description:
+      'Propose adding an expense to the business simulation (amount in RD$). ' +
+      'The user reviews and confirms before it is saved.',
+    schema: PROPOSAL_SCHEMAS.business_expense,
+    async run(args) {
+      return { result: PROPOSED, summary: args.description, proposal: buildProposal('business_expense', args) }
+    },
+  }),
+
+  defineTool({
+    name: 'propose_immigration_case',
+    label: 'Proposed case update',
+    description:
+      'Propose setting identifiers (case number, passport number, DS-160 confirmation) on an existing ' +
+      'immigration case from list_immigration_cases. The user reviews and confirms before it is saved.',
+    schema: PROPOSAL_SCHEMAS.immigration_case,
+    async run(args) {
+      const res = await getCases()
+      if ('error' in res) throw new Error(res.error)
+      const found = (res.data ?? []).find((c) => c.id === args.caseId)
+      if (!found) throw new Error(`No immigration case with id ${args.caseId}`)
+      if (!args.caseNumber && !args.passportNumber && !args.dsConfirmation) {
+        throw new Error('Provide at least one identifier to set')
+      }
+
+      const caseLabel = `${found.clientName} · ${found.service}`
+      const proposal = buildProposal(
+        'immigration_case',
+        args,
+        { caseId: caseLabel },
+        {
+          caseId: caseLabel,
+          caseNumber: found.caseNumber || null,
+          passportNumber: found.passportNumber || null,
+          dsConfirmation: found.dsConfirmation || null,
+        },
+        `Update immigration case: ${found.clientName}`,
+      )
+      return { result: PROPOSED, summary: found.clientName, proposal }
+    },
+  }),
+]
+
+/*
+|--------------------------------------------------------------------------
+| Public API
+|--------------------------------------------------------------------------
+*/
+
+/** Tool definitions in the provider's format (JSON Schema arguments), optionally limited to `names`. */
+export function getToolDefinitions(names?: string[]): ProviderTool[] {
+  return TOOLS.filter((t) => !names || names.includes(t.name)).map((t) => {
+    const { $schema: _ignored, ...parameters } = z.toJSONSchema(t.schema) as Record<string, unknown>
+    return { name: t.name, description: t.description, parameters }
+  })
+}
+
+/**
+ * Runs a tool call from the model. Never throws: bad arguments and failures are
+ * returned as an error payload so the model can correct itself. `allowed`
+ * rejects tools that were not offered for this request.
+ */
+export async function runTool(
+  name: string,
+  rawArguments: string,
+  now: Date = new Date(),
+  allowed?: string[],
+): Promise<{ ok: boolean; label: string; summary: string; content: string; proposal?: AssistantProposal }> {
+  const tool = TOOLS.find((t) => t.name === name && (!allowed || allowed.includes(name)))
+  const failure = (label: string, summary: string, error: string) => ({
+    ok: false,
+    label,
+    summary,
+    content: JSON.stringify({ error }),
+  })
+  if (!tool) return failure(name, 'Unknown tool', `Unknown tool ${name}`)
+
+  let json: unknown
+  try {
+    json = rawArguments.trim() ? JSON.parse(rawArguments) : {}
+  } catch {
+    return failure(tool.label, 'Invalid arguments', 'Arguments must be valid JSON')
+  }
+
+  const parsed = tool.schema.safeParse(json)
+  if (!parsed.success) {
+    const message = parsed.error.issues.map((i) => `${i.path.join('.') || 'arguments'}: ${i.message}`).join('; ')
+    return failure(tool.label, 'Invalid arguments', message)
+  }
+
+  try {
+    const { result, summary, proposal } = await tool.run(parsed.data, now)
+    return { ok: true, label: tool.label, summary, content: JSON.stringify(result), proposal }
+  } catch (e: any) {
+    console.error(`Assistant tool ${name} failed:`, e?.message)
+    return failure(tool.label, 'Failed', e?.message || 'Tool failed')
+  }
+}
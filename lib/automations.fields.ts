@@ -0,0 +1,132 @@
+// lib/automations.fields.ts
+// Field catalog for the automation condition builder.
+// Each entity's paths are typed against its record interface, so renaming or
+// removing a field in lib/types.ts (or loans/health types) breaks this file at compile time.
+
+import {
+  SERVICE_TYPES,
+  MARKETING_CHANNELS,
+  LEAD_STAGES,
+  PACKAGE_STATUSES,
+  PROJECT_TYPES,
+  PROJECT_STATUSES,
+  FREQUENCIES,
+  type Lead,
+  type ClassPackage,
+  type Project,
+  type ProjectStatus,
+  type Rule,
+} from '@/lib/types'
+import { LOAN_FREQUENCIES, LOAN_STATUSES, type Loan } from '@/lib/loans.types'
+import type { SuppItem } from '@/app/(app)/health/actions'
+import type { AutomationEntity, ConditionOperator } from '@/lib/automations.types'
+
+type Primitive = string | number | boolean | null | undefined
+
+/**
+ * Dotted paths into T, following nested objects (arrays are leaves).
+ * e.g. FieldPath<Lead> includes 'serviceType' and 'contact.fullName'.
+ */
+export type FieldPath<T> = {
+  [K in Extract<keyof T, string>]: NonNullable<T[K]> extends Primitive | unknown[]
+    ? K
+    : K | `${K}.${FieldPath<NonNullable<T[K]>>}`
+}[Extract<keyof T, string>]
+
+export type FieldKind = 'string' | 'number' | 'boolean' | 'date' | 'enum'
+
+export interface FieldSpec<T = unknown> {
+  path: FieldPath<T>
+  label: string
+  kind: FieldKind
+  options?: readonly string[]
+}
+
+/** Record shape per entity (what AutomationEngine's ENTITY_SOURCES produce) */
+export interface EntityRecordTypes {
+  lead: Lead
+  class_package: ClassPackage
+  // Engine maps `projects.status` alongside the lib/types Project fields
+  project: Project & { status?: ProjectStatus | null }
+  loan: Loan
+  supplement: SuppItem
+  budget_rule: Rule
+}
+
+type FieldCatalog = { [E in AutomationEntity]: FieldSpec<EntityRecordTypes[E]>[] }
+
+export const ENTITY_FIELDS: FieldCatalog = {
+  lead: [
+    { path: 'serviceType', label: 'Service', kind: 'enum', options: SERVICE_TYPES },
+    { path: 'sourceChannel', label: 'Source channel', kind: 'enum', options: MARKETING_CHANNELS },
+    { path: 'currentStage', label: 'Stage', kind: 'enum', options: LEAD_STAGES },
+    { path: 'expectedValue', label: 'Expected value', kind: 'number' },
+    { path: 'notes', label: 'Notes', kind: 'string' },
+    { path: 'createdAt', label: 'Created at', kind: 'date' },
+    { path: 'contact.fullName', label: 'Contact name', kind: 'string' },
+    { path: 'contact.email', label: 'Contact email', kind: 'string' },
+    { path: 'contact.phone', label: 'Contact phone', kind: 'string' },
+  ],
+  class_package: [
+    { path: 'title', label: 'Title', kind: 'string' },
+    { path: 'sessionsIncluded', label: 'Sessions included', kind: 'number' },
+    { path: 'sessionsConsumed', label: 'Sessions consumed', kind: 'number' },
+    { path: 'priceDopCents', label: 'Price (DOP cents)', kind: 'number' },
+    { path: 'status', label: 'Status', kind: 'enum', options: PACKAGE_STATUSES },
+    { path: 'startDate', label: 'Start date', kind: 'date' },
+    { path: 'endDate', label: 'End date', kind: 'date' },
+    { path: 'student.contact.fullName', label: 'Student name', kind: 'string' },
+    { path: 'student.contact.email', label: 'Student email', kind: 'string' },
+  ],
+  project: [
+    { path: 'name', label: 'Name', kind: 'string' },
+    { path: 'clientName', label: 'Client', kind: 'string' },
+    { path: 'type', label: 'Type', kind: 'enum', options: PROJECT_TYPES },
+    { path: 'status', label: 'Status', kind: 'enum', options: PROJECT_STATUSES },
+    { path: 'startDate', label: 'Start date', kind: 'date' },
+    { path: 'dueDate', label: 'Due date', kind: 'date' },
+    { path: 'budgetDopCents', label: 'Budget (DOP cents)', kind: 'number' },
+  ],
+  loan: [
+    { path: 'clientName', label: 'Client', kind: 'string' },
+    { path: 'loanDate', label: 'Loan date', kind: 'date' },
+    { path: 'amount', label: 'Principal', kind: 'number' },
+    { path: 'interestRate', label: 'Interest %', kind: 'number' },
+    { path: 'frequency', label: 'Frequency', kind: 'enum', options: LOAN_FREQUENCIES },
+    { path: 'status', label: 'Status', kind: 'enum', options: LOAN_STATUSES },
+  ],
+  supplement: [
+    { path: 'name', label: 'Name', kind: 'string' },
+    { path: 'quantity_on_hand', label: 'Quantity on hand', kind: 'number' },
+    { path: 'units_per_dose', label: 'Units per dose', kind: 'number' },
+    { path: 'times_per_day', label: 'Times per day', kind: 'number' },
+    { path: 'refill_threshold_days', label: 'Refill threshold (days)', kind: 'number' },
+    { path: 'refill_size', label: 'Refill size', kind: 'number' },
+  ],
+  budget_rule: [
+    { path: 'description', label: 'Description', kind: 'string' },
+    { path: 'type', label: 'Type', kind: 'enum', options: ['income', 'expense'] },
+    // Categories are per user (budget_categories), so match on the key as text
+    { path: 'category', label: 'Category key', kind: 'string' },
+    { path: 'amount', label: 'Amount', kind: 'number' },
+    { path: 'frequency', label: 'Frequency', kind: 'enum', options: FREQUENCIES },
+    { path: 'end_date', label: 'End date', kind: 'date' },
+    { path: 'active', label: 'Active', kind: 'boolean' },
+  ],
+}
+
+export const OPERATORS_BY_KIND: Record<FieldKind, ConditionOperator[]> = {
+  string: ['eq', 'neq', 'contains', 'is_empty', 'is_not_empty'],
+  number: ['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'is_empty', 'is_not_empty'],
+  date: ['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'is_empty', 'is_not_empty'],
+  boolean: ['eq', 'neq'],
+  enum: ['eq', 'neq', 'is_empty', 'is_not_empty'],
+}
+
+export function getFieldSpec(entity: AutomationEntity, path: string): FieldSpec | undefined {
+  return (ENTITY_FIELDS[entity] as FieldSpec[]).find((f) => f.path === path)
+}
+
+export function numericFields(entity: AutomationEntity): FieldSpec[] {
+  return (ENTITY_FIELDS[entity] as FieldSpec[]).filter((f) => f.kind === 'number')
+}
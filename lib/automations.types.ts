@@ -0,0 +1,256 @@
+// lib/automations.types.ts
+// Defines the trigger/action model for the Automations module.
+// Rows live in the Supabase table `automations` (trigger + actions stored as jsonb).
+
+import type { Category, EntryType, CalendarEventLite, PreferredChannel } from '@/lib/types'
+
+/**
+ * Records an automation can watch or iterate over.
+ * Field names in conditions/templates use the camelCase UI shapes
+ * from lib/types.ts (Lead, ClassPackage, Project) and lib/loans.types.ts,
+ * and the snake_case row shapes for supplements and budget rules.
+ */
+export const AUTOMATION_ENTITIES = [
+  'lead',
+  'class_package',
+  'project',
+  'loan',
+  'supplement',
+  'budget_rule',
+] as const
+export type AutomationEntity = (typeof AUTOMATION_ENTITIES)[number]
+
+export const CONDITION_OPERATORS = [
+  'eq',
+  'neq',
+  'gt',
+  'gte',
+  'lt',
+  'lte',
+  'contains',
+  'is_empty',
+  'is_not_empty',
+] as const
+export type ConditionOperator = (typeof CONDITION_OPERATORS)[number]
+
+export type ConditionValue = string | number | boolean | null
+
+export interface AutomationCondition {
+  /** Dotted path into the record, e.g. 'serviceType' or 'contact.email' */
+  field: string
+  /**
+   * Optional arithmetic on the left-hand side, e.g.
+   * `sessionsIncluded - sessionsConsumed` is { field: 'sessionsIncluded', operand: { op: '-', field: 'sessionsConsumed' } }.
+   */
+  operand?: { op: '+' | '-'; field: string }
+  operator: ConditionOperator
+  value?: ConditionValue
+}
+
+/** A nested AND/OR block of conditions, as built in the condition builder. */
+export interface ConditionGroup {
+  combinator: 'and' | 'or'
+  rules: ConditionNode[]
+}
+
+export type ConditionNode = AutomationCondition | ConditionGroup
+
+/** Older rows stored a flat list (implicit AND); both shapes are accepted. */
+export type AutomationConditions = ConditionGroup | AutomationCondition[]
+
+/*
+|--------------------------------------------------------------------------
+| Triggers
+|--------------------------------------------------------------------------
+*/
+export const AUTOMATION_TRIGGER_TYPES = [
+  'record_created',
+  'field_changed',
+  'scheduled',
+  'threshold_crossed',
+] as const
+export type AutomationTriggerType = (typeof AUTOMATION_TRIGGER_TYPES)[number]
+
+export type AutomationTrigger =
+  | {
+      type: 'record_created'
+      entity: AutomationEntity
+      conditions?: AutomationConditions
+    }
+  | {
+      type: 'field_changed'
+      entity: AutomationEntity
+      field: string
+      /** Only fire when the new value equals this (any change when omitted) */
+      to?: ConditionValue
+      conditions?: AutomationConditions
+    }
+  | {
+      type: 'scheduled'
+      /** 5-field cron expression: minute hour day-of-month month day-of-week */
+      cron: string
+      /** IANA zone the cron expression is read in */
+      timezone: string
+      /** When set, actions run once per matching record; otherwise once per tick */
+      entity?: AutomationEntity
+      conditions?: AutomationConditions
+    }
+  | {
+      type: 'threshold_crossed'
+      entity: AutomationEntity
+      field: string
+      operator: 'gt' | 'gte' | 'lt' | 'lte'
+      value: number
+      conditions?: AutomationConditions
+    }
+
+/*
+|--------------------------------------------------------------------------
+| Actions
+|--------------------------------------------------------------------------
+*/
+export const AUTOMATION_ACTION_TYPES = [
+  'create_agenda_task',
+  'create_budget_entry',
+  'add_crm_note',
+  'send_message',
+] as const
+export type AutomationActionType = (typeof AUTOMATION_ACTION_TYPES)[number]
+
+/**
+ * Text fields accept `{{path}}` placeholders rendered against the triggering record,
+ * e.g. 'Follow up with {{contact.fullName}}'.
+ */
+export type AutomationAction =
+  | {
+      type: 'create_agenda_task'
+      title: string
+      /** Days after the run date the task is due */
+      dueInDays: number
+      category: CalendarEventLite['category']
+    }
+  | {
+      type: 'create_budget_entry'
+      entryType: EntryType
+      category: Category
+      description: string
+      amount: number
+      dueInDays: number
+    }
+  | {
+      type: 'add_crm_note'
+      note: string
+    }
+  | {
+      type: 'send_message'
+      channel: PreferredChannel
+      /** Recipient template, e.g. '{{contact.email}}' */
+      to: string
+      subject?: string
+      body: string
+    }
+
+/*
+|--------------------------------------------------------------------------
+| Automation record
+|--------------------------------------------------------------------------
+*/
+export type AutomationStatus = 'success' | 'error' | 'never'
+
+export interface Automation {
+  id: string
+  name: string
+  description: string
+  trigger: AutomationTrigger
+  actions: AutomationAction[]
+  isActive: boolean
+  /** ISO timestamp of the last real execution */
+  lastRun: string | null
+  lastRunStatus: AutomationStatus
+  lastRunError?: string | null
+  createdAt?: string
+}
+
+/**
+ * Helper type for the form modal.
+ */
+export interface AutomationFormValues {
+  id?: string
+  name: string
+  description: string
+  trigger: AutomationTrigger
+  actions: AutomationAction[]
+  isActive: boolean
+}
+
+/*
+|--------------------------------------------------------------------------
+| Runs (Supabase table `automation_runs`)
+|--------------------------------------------------------------------------
+*/
+
+/** What caused an execution */
+export const AUTOMATION_RUN_SOURCES = ['event', 'schedule', 'threshold', 'manual', 'rerun'] as const
+export type AutomationRunSource = (typeof AUTOMATION_RUN_SOURCES)[number]
+
+/**
+ * Outcome of a single action inside a run.
+ */
+export interface AutomationActionOutcome {
+  type: AutomationActionType
+  ok: boolean
+  /** Short human-readable summary, or the error message */
+  detail: string
+  /** Record the action ran for (null for record-less scheduled runs) */
+  recordId: string | null
+  /** Position of the action in automation.actions (absent on runs logged before it was recorded) */
+  actionIndex?: number
+}
+
+export interface AutomationRunResult {
+  /** automation_runs.id (null if the log row could not be written) */
+  runId: string | null
+  status: Exclude<AutomationStatus, 'never'>
+  error: string | null
+  startedAt: string // ISO
+  finishedAt: string // ISO
+  durationMs: number
+  recordIds: string[]
+  outcomes: AutomationActionOutcome[]
+}
+
+/**
+ * One logged execution, as shown in the run history drill-down.
+ */
+export interface AutomationRun extends Omit<AutomationRunResult, 'runId'> {
+  id: string
+  automationId: string
+  source: AutomationRunSource
+  entity: AutomationEntity | null
+  /** Run this one re-executed, if any */
+  rerunOf: string | null
+}
+
+/*
+|--------------------------------------------------------------------------
+| Simulation (dry run, nothing is written)
+|--------------------------------------------------------------------------
+*/
+
+export interface AutomationSimulationMatch {
+  /** null for record-less scheduled automations */
+  recordId: string | null
+  label: string
+  /** Planned actions; `ok: false` means the action would fail for this record */
+  actions: AutomationActionOutcome[]
+  /** Why a real run would treat this record differently, if it would */
+  note?: string
+}
+
+export interface AutomationSimulation {
+  evaluatedAt: string // ISO
+  entity: AutomationEntity | null
+  /** Records loaded and checked against the trigger */
+  scanned: number
+  matches: AutomationSimulationMatch[]
+}
@@ -0,0 +1,19 @@
+// lib/supabase/admin.ts
+import { createClient } from '@supabase/supabase-js';
+
+/**
+ * Service-role client for work that runs without a user session (cron sweeps).
+ * Bypasses RLS: callers must scope every query by user_id themselves.
+ * Never import this from client components.
+ */
+export function createSupabaseAdminClient() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceKey) {
+    throw new Error('Missing NEXT_PUBLIC_SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY');
+  }
+
+  return createClient(url, serviceKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+}
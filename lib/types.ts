@@ -16,6 +16,16 @@ export const SERVICE_TYPES = [
 ] as const;
 export type ServiceType = (typeof SERVICE_TYPES)[number];
 
+// Matches `leads.current_stage`; the order is the pipeline order (lost is terminal)
+export const LEAD_STAGES = [
+  'lead',
+  'discovery',
+  'delivery',
+  'paid',
+  'lost',
+] as const;
+export type LeadStage = (typeof LEAD_STAGES)[number];
+
 export const ACTIVITY_TYPES = [
   'call',
   'whatsapp',
@@ -157,20 +167,52 @@ export type PreferredChannel = (typeof PREFERRED_CHANNELS)[number];
 
 export type EntryType = 'income' | 'expense';
 
-export type Frequency = 'monthly' | 'weekly' | 'biweekly';
-
-// MODIFIED: Removed 'doordash_income' and 'job_income' per instruction
-export type Category =
-  | 'bill'
-  | 'gas'
-  | 'groceries'
-  | 'loan'
-  | 'other'
-  | 'subscription'
-  | 'business_income';
+export const FREQUENCIES = ['monthly', 'weekly', 'biweekly', 'quarterly', 'yearly', 'custom'] as const;
+export type Frequency = (typeof FREQUENCIES)[number];
+
+// Unit of a `custom` frequency: "every <interval> <unit>s"
+export const INTERVAL_UNITS = ['day', 'week', 'month'] as const;
+export type IntervalUnit = (typeof INTERVAL_UNITS)[number];
+
+// Which day a month-based frequency (monthly/quarterly/yearly/custom months) lands on
+export const MONTH_DAY_MODES = ['day_of_month', 'last_day', 'last_weekday'] as const;
+export type MonthDayMode = (typeof MONTH_DAY_MODES)[number];
+
+// Moves an occurrence that falls on Saturday/Sunday to the Friday before or the Monday after
+export const WEEKEND_SHIFTS = ['none', 'previous', 'next'] as const;
+export type WeekendShift = (typeof WEEKEND_SHIFTS)[number];
+
+// Key of one of the user's budget categories (table `budget_categories`)
+export type Category = string;
+
+// Seeded for users with no categories yet; keys match the original fixed set
+export const DEFAULT_BUDGET_CATEGORIES: ReadonlyArray<{ key: Category; name: string; type: EntryType; color: string }> = [
+  { key: 'bill', name: 'Bill', type: 'expense', color: '#ef4444' },
+  { key: 'gas', name: 'Gas', type: 'expense', color: '#f97316' },
+  { key: 'groceries', name: 'Groceries', type: 'expense', color: '#22c55e' },
+  { key: 'loan', name: 'Loan', type: 'expense', color: '#a855f7' },
+  { key: 'subscription', name: 'Subscription', type: 'expense', color: '#3b82f6' },
+  { key: 'other', name: 'Other', type: 'expense', color: '#64748b' },
+  { key: 'savings', name: 'Savings', type: 'expense', color: '#14b8a6' },
+  { key: 'business_income', name: 'Business Income', type: 'income', color: '#10b981' },
+];
+
+export interface BudgetCategory {
+  id: string;
+  user_id: string;
+  key: Category; // Stored on entries/rules; stable when the name changes
+  name: string;
+  type: EntryType;
+  color: string; // Hex, e.g. #22c55e
+  monthly_limit: number | null; // Optional monthly spending cap (expense categories)
+  created_at: string; // ISO Timestamp
+}
 
 export type OverrideType = 'paid' | 'postponed' | 'skipped';
 
+export const ACCOUNT_TYPES = ['checking', 'savings', 'cash'] as const;
+export type AccountType = (typeof ACCOUNT_TYPES)[number];
+
 // Note: Status is used internally by BudgetLogic but UnifiedRow now uses is_paid boolean primarily.
 // Display status ('Paid', 'Overdue', 'Upcoming') is often derived in the UI or snapshot computation.
 export type Status = 'Paid' | 'Overdue' | 'Upcoming';
@@ -184,6 +226,7 @@ export interface OneTimeEntry {
   amount: number;
   due_date: string; // YYYY-MM-DD
   paid_on: string | null; // YYYY-MM-DD
+  account_id: string | null; // Account the payment posted against
   created_at: string; // ISO Timestamp
 }
 
@@ -195,9 +238,16 @@ export interface Rule {
   description: string;
   amount: number;
   frequency: Frequency;
+  interval: number | null; // custom: repeat every N interval_unit (ignored otherwise)
+  interval_unit: IntervalUnit | null; // custom only
+  month_day: MonthDayMode | null; // Month-based frequencies; null = day_of_month
   dom: number | null; // Day of month (1-31)
   dow: number | null; // Day of week (1-7)
   start_anchor: string; // YYYY-MM-DD
+  end_date: string | null; // YYYY-MM-DD, last day an occurrence may fall on
+  occurrence_count: number | null; // Stop after this many occurrences (counted from start_anchor)
+  weekend_shift: WeekendShift | null; // null = none
+  previous_rule_id: string | null; // Rule this one continues after a split ("this and future occurrences")
   active: boolean;
   created_at: string; // ISO Timestamp
 }
@@ -210,9 +260,51 @@ export interface Override {
   override_type: OverrideType;
   paid_on: string | null; // YYYY-MM-DD
   new_date: string | null; // YYYY-MM-DD
+  account_id: string | null; // Account the payment posted against
+  created_at: string; // ISO Timestamp
+}
+
+// Money account the budget posts against (table `budget_accounts`)
+export interface BudgetAccount {
+  id: string;
+  user_id: string;
+  name: string;
+  type: AccountType;
+  opening_balance: number;
+  opening_date: string; // YYYY-MM-DD, postings before this date are already in opening_balance
+  created_at: string; // ISO Timestamp
+}
+
+// Savings goal / sinking fund (table `budget_goals`). Contributions are the
+// paid occurrences of its generated monthly rule (`rule_id`, the latest version).
+export interface SavingsGoal {
+  id: string;
+  user_id: string;
+  name: string;
+  target_amount: number; // Ignored while link_shopping is on
+  target_date: string; // YYYY-MM-DD
+  starting_amount: number; // Already saved before the goal was tracked
+  link_shopping: boolean; // Target follows the post-move shopping list total
+  rule_id: string | null;
+  created_at: string; // ISO Timestamp
+}
+
+// Balance and interest terms of a `loan`-category rule (table `budget_loans`).
+// Follows the rule across splits; its paid occurrences are the loan payments.
+export interface BudgetLoan {
+  id: string;
+  user_id: string;
+  rule_id: string;
+  principal: number; // Balance owed on balance_date
+  apr: number; // Annual percentage rate, e.g. 6.5
+  minimum_payment: number; // Per month
+  balance_date: string; // YYYY-MM-DD, payments after this date reduce the principal
   created_at: string; // ISO Timestamp
 }
 
+export const PAYOFF_STRATEGIES = ['snowball', 'avalanche'] as const; // smallest balance first / highest APR first
+export type PayoffStrategy = (typeof PAYOFF_STRATEGIES)[number];
+
 // UnifiedRow is the output of computeSnapshot, combining entries and rule occurrences
 export interface UnifiedRow {
   id: string; // For one-time entries: entry ID. For recurring: rule ID.
@@ -231,10 +323,21 @@ export interface UnifiedRow {
   date: string; // YYYY-MM-DD (Alias for effective_date)
 }
 
+// Expense total for one category in the period, against its monthly cap
+export interface CategoryTotal {
+  key: Category;
+  name: string;
+  color: string;
+  spent: number; // All expense rows in the period, paid or not
+  limit: number | null;
+  over_budget: boolean; // spent > limit
+}
+
 export interface Totals {
   total_income: number;
   total_expenses: number;
   remaining_to_pay: number; // Sum of unpaid expenses for the period
+  by_category: CategoryTotal[]; // Expense categories, highest spend first
 }
 
 export interface Snapshot {
@@ -244,6 +347,168 @@ export interface Snapshot {
   rows: UnifiedRow[];
 }
 
+// One month of a cash-flow forecast (see computeForecast in BudgetLogic)
+export interface ForecastMonth {
+  month_start: string; // YYYY-MM-DD
+  month_end: string; // YYYY-MM-DD
+  income: number;
+  expenses: number;
+  net: number; // income - expenses
+  opening_balance: number;
+  closing_balance: number;
+  low_balance: number; // Lowest running balance within the month (by effective_date)
+}
+
+export interface Forecast {
+  opening_balance: number;
+  months: ForecastMonth[];
+  first_negative_month: string | null; // month_start of the first month whose low_balance < 0
+}
+
+// One posted payment in an account ledger (see computeAccountLedger in BudgetLogic)
+export interface LedgerLine {
+  date: string; // YYYY-MM-DD (paid_on)
+  description: string;
+  category: Category;
+  kind: 'one_time' | 'recurring';
+  source_id: string; // Entry id or override id
+  amount: number; // Signed: income positive, expense negative
+  balance: number; // Running balance after this line
+}
+
+export interface AccountBalance {
+  account: BudgetAccount;
+  balance: number; // Reconciled balance as of `as_of`
+  month_opening_balance: number; // Balance before month_start
+  month_income: number;
+  month_expenses: number;
+  lines: LedgerLine[]; // Postings within the month, up to `as_of`
+}
+
+export interface AccountLedger {
+  as_of: string; // YYYY-MM-DD
+  accounts: AccountBalance[];
+  unassigned: number; // Paid items in the month with no account
+}
+
+// A transaction parsed from a bank statement (see lib/BankImport)
+export interface BankTransaction {
+  external_id: string; // OFX FITID, or a hash of date/amount/description for CSV
+  date: string; // YYYY-MM-DD
+  amount: number; // Signed: deposits positive, withdrawals negative
+  description: string;
+}
+
+export type ImportItemStatus = 'matched' | 'pending' | 'created' | 'dismissed';
+
+// Imported transaction (table `budget_import_items`); `pending` ones form the review queue
+export interface ImportItem extends BankTransaction {
+  id: string;
+  user_id: string;
+  account_id: string | null;
+  status: ImportItemStatus;
+  matched_label: string | null; // Budget row the transaction was matched to
+  entry_id: string | null; // OneTimeEntry created from the review queue
+  created_at: string; // ISO Timestamp
+}
+
+export interface BankImportResult {
+  imported: number;
+  duplicates: number; // Already imported earlier (same external_id)
+  matched: { transaction: BankTransaction; label: string }[];
+  queued: number;
+}
+
+// One month of the year-in-review report (see computeYearReport in BudgetLogic)
+export interface YearReportMonth {
+  month_start: string; // YYYY-MM-DD
+  income: number;
+  expenses: number;
+  net: number; // income - expenses
+  by_category: Record<Category, number>; // Expense spend per category key
+  paid_count: number; // Paid expenses whose effective_date is in the month
+  late_count: number; // ...of those, paid after their effective_date
+}
+
+// A bill paid after its effective date
+export interface LatePayment {
+  description: string;
+  category: Category;
+  amount: number;
+  effective_date: string; // YYYY-MM-DD
+  paid_on: string; // YYYY-MM-DD
+  days_late: number;
+}
+
+export interface YearReport {
+  year: number;
+  months: YearReportMonth[]; // January through December
+  totals: { income: number; expenses: number; net: number };
+  categories: CategoryTotal[]; // Whole-year spend; limit is 12× the monthly limit
+  top_expenses: UnifiedRow[]; // Largest one-time expenses, biggest first
+  paid_count: number;
+  late_count: number;
+  average_days_late: number; // Across late payments only
+  late_payments: LatePayment[]; // Latest first (most days late)
+}
+
+// Where a savings goal stands (see computeGoalProgress in BudgetLogic)
+export interface GoalProgress {
+  goal: SavingsGoal;
+  target: number; // target_amount, or the shopping list total when linked
+  saved: number; // starting_amount + paid contributions
+  remaining: number;
+  percent: number; // 0-100
+  contributions_paid: number;
+  contributions_left: number; // Monthly contributions from today through target_date
+  monthly_contribution: number; // Current rule amount
+  monthly_needed: number; // What each remaining contribution must be to hit the target
+  on_track: boolean; // monthly_contribution covers monthly_needed
+}
+
+// Where a loan stands after its paid occurrences (see computeLoanStatus in BudgetLogic)
+export interface LoanStatus {
+  loan: BudgetLoan;
+  description: string; // From the loan's rule
+  balance: number; // As of today, including interest accrued since the last payment
+  interest_paid: number;
+  principal_paid: number;
+  payments_count: number;
+  last_payment_on: string | null; // YYYY-MM-DD
+}
+
+export interface DebtOverview {
+  loans: LoanStatus[];
+  unconfigured: Rule[]; // Loan-category rules with no balance/APR attached yet
+}
+
+// One month of a payoff plan for one loan
+export interface AmortizationRow {
+  month_start: string; // YYYY-MM-DD
+  payment: number;
+  interest: number;
+  principal: number;
+  balance: number; // After the payment
+}
+
+export interface LoanPayoff {
+  loan_id: string;
+  description: string;
+  payoff_month: string | null; // null = the payments never cover the interest
+  total_interest: number;
+  schedule: AmortizationRow[];
+}
+
+export interface PayoffPlan {
+  strategy: PayoffStrategy;
+  monthly_budget: number; // Sum of minimums + extra
+  months: number | null; // Until debt-free; null = never
+  payoff_month: string | null; // Month the last loan is paid off
+  total_interest: number;
+  loans: LoanPayoff[]; // In payoff order
+  balances: { month_start: string; balance: number }[]; // Total owed after each month
+}
+
 /* ==== Added for Dashboard/Agenda props ==== */
 
 // Used by Calendar Actions and Dashboard
@@ -255,6 +520,85 @@ export type CalendarEventLite = {
   kind: 'task' | 'event'; // Matches DB enum 'calendar_event_kind'
   // Matches DB enum 'calendar_event_category'
   category: 'Work' | 'Personal' | 'Health' | 'Errand' | 'Other';
+  // Recurring events: occurrences carry their series (master row) id and original start
+  series_id?: string | null;
+  recurrence_id?: string | null;
+  rrule?: string | null;
+  // Zone the event was entered in (null = the user's timezone)
+  timezone?: string | null;
+};
+
+// Recurring agenda events (RRULE subset, see lib/AgendaRecurrence.ts)
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export type RecurrenceRule = {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byday: string[];      // "MO", or with an ordinal: "2TU", "-1FR"
+  bymonthday: number[]; // 1..31, negative counts from the month's end
+  bymonth: number[];    // 1..12
+  count: number | null;
+  until: string | null; // RRULE UNTIL value: "YYYYMMDD" or "YYYYMMDDTHHMMSSZ"
+};
+
+// Which part of a series an edit or delete applies to
+export type EventEditScope = 'occurrence' | 'series';
+
+// A VEVENT as read from / written to an iCalendar (RFC 5545) file
+export type IcsEvent = {
+  uid: string;
+  recurrence_id: string | null; // UTC ISO start of the occurrence a modified instance replaces
+  title: string;
+  start_ts: string;             // UTC ISO
+  end_ts: string | null;        // UTC ISO; exclusive (next-day midnight) for all-day events
+  all_day: boolean;
+  timezone: string | null;      // IANA zone the times were read in (floating and DATE values: the import zone); null = UTC
+  rrule: string | null;         // RRULE value, e.g. "FREQ=WEEKLY;BYDAY=MO"
+  exdates: string[];            // UTC ISO starts of excluded occurrences
+  location: string | null;
+  notes: string | null;
+  categories: string[];
+};
+
+export type IcsImportResult = {
+  created: number;
+  updated: number;
+  skipped: number; // VEVENTs without a usable start, cancelled, or in a series with an unsupported RRULE
+};
+
+// Availability (see lib/Availability.ts): busy time across the agenda,
+// class sessions and immigration milestone due dates
+export type BusySource = 'agenda' | 'class' | 'immigration';
+
+export type BusyBlock = {
+  source: BusySource;
+  id: string;
+  title: string;
+  start_ts: string;       // ISO (UTC)
+  end_ts: string | null;  // null = DEFAULT_BLOCK_MINUTES long (or the whole day when all_day)
+  all_day: boolean;       // Day markers (all-day events, due dates): reported, never block slots
+};
+
+export type WorkingHours = {
+  days: number[]; // 0 = Sunday … 6 = Saturday
+  start: string;  // "HH:mm", local to the user's timezone
+  end: string;    // "HH:mm"
+};
+
+export type FreeSlot = { start_ts: string; end_ts: string };
+
+// Unified calendar (see lib/UnifiedCalendar.ts): one layer per module
+export type CalendarLayer = 'agenda' | 'classes' | 'projects' | 'immigration' | 'loans' | 'budget';
+
+export type UnifiedCalendarItem = {
+  id: string;             // Unique across layers ("<layer>:<record id>[:<date>]")
+  layer: CalendarLayer;
+  title: string;
+  start: string;          // Wall clock in the user's timezone: "YYYY-MM-DDTHH:mm", or "YYYY-MM-DD" when all_day
+  end: string | null;
+  all_day: boolean;
+  done: boolean;          // Completed milestone, paid bill, attended class…
+  href: string;           // Opens the record in its own module
 };
 
 // --- UPDATED WeekItem Type (Merged for Personal & Business Dashboards) ---
@@ -314,6 +658,7 @@ export interface ActivityItem {
   timestamp: string; // ISO string
   leadId?: string;
   contactId?: string;
+  overdue?: boolean; // Follow-ups whose date has passed
 }
 
 // --- Core Data Models ---
@@ -334,10 +679,44 @@ export interface Lead {
   notes?: string | null;
   expectedValue?: number | null;
   createdAt?: string; // ISO string
+  currentStage?: LeadStage; // Defaults to 'lead'
+  stageTs?: Partial<Record<LeadStage, string>>; // Last time the lead entered each stage (ISO)
   // --- UI convenience
   contact?: Contact;
 }
 
+// One row of `lead_activities`: a logged touchpoint with a lead, optionally
+// scheduling the next follow-up
+export interface LeadActivity {
+  id: string;
+  leadId: string;
+  contactId: string | null;
+  type: ActivityType;
+  direction: ActivityDirection;
+  summary: string;
+  occurredAt: string; // ISO string
+  followUpAt: string | null; // ISO string; shows on the dashboard feed until done
+  followUpDone: boolean;
+  createdAt?: string;
+}
+
+// One row of `lead_stage_history`: written on every stage move
+export interface LeadStageChange {
+  id: string;
+  leadId: string;
+  fromStage: LeadStage | null; // null for the initial stage
+  toStage: LeadStage;
+  changedAt: string; // ISO string
+}
+
+// Time-in-stage summary for one stage across the pipeline
+export interface LeadStageMetric {
+  stage: LeadStage;
+  count: number; // Leads currently in the stage
+  avgDays: number | null; // Mean completed + ongoing stay, null when no lead has entered it
+  medianDays: number | null;
+}
+
 export interface CalendarEvent {
   id: string;
   title: string;
@@ -65,7 +65,9 @@ export const config = {
      * - _next/static (static files)
      * - _next/image (image optimization files)
      * - favicon.ico (favicon file)
+     * - api/automations/cron (scheduler, authenticated by CRON_SECRET)
+     * - api/agenda/feed (calendar subscriptions, authenticated by the feed token)
      */
-    '/((?!_next/static|_next/image|favicon.ico).*)',
+    '/((?!_next/static|_next/image|favicon.ico|api/automations/cron|api/agenda/feed).*)',
   ],
 };
\ No newline at end of file